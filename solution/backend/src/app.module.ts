@@ -15,9 +15,12 @@ import { MarketDataModule } from './modules/market-data/market-data.module';
 import { SnapshotModule } from './modules/portfolio/snapshot.module';
 import { PortfolioSnapshotModule } from './modules/portfolio/portfolio-snapshot.module';
 import { DepositModule } from './modules/portfolio/deposit.module';
+import { BenchmarkModule } from './modules/portfolio/benchmark.module';
 import { ReportModule } from './modules/report/report.module';
 import { GoalModule } from './modules/goal/goal.module';
 import { NotesModule } from './modules/notes/notes.module';
+import { AlertModule } from './modules/alert/alert.module';
+import { WatchlistModule } from './modules/watchlist/watchlist.module';
 import { NotificationModule } from './notification/notification.module';
 import { FinancialFreedomModule } from './modules/financial-freedom/financial-freedom.module';
 import { PersonalFinancialAnalysisModule } from './modules/personal-financial-analysis/personal-financial-analysis.module';
@@ -84,9 +87,12 @@ import { TestLoggingController } from './test-logging.controller';
       SnapshotModule,
       PortfolioSnapshotModule,
       DepositModule,
+      BenchmarkModule,
       ReportModule,
       GoalModule,
       NotesModule,
+      AlertModule,
+      WatchlistModule,
       NotificationModule,
       FinancialFreedomModule,
       PersonalFinancialAnalysisModule,
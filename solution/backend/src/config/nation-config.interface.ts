@@ -8,6 +8,8 @@ export interface MarketCode {
   name: string;
   displayName: string;
   isDefault: boolean;
+  /** Daily price band around the previous close, in percent */
+  priceLimitPercent?: number;
 }
 
 export interface AssetTypeConfig {
@@ -37,6 +39,57 @@ export interface TradingHours {
   sessions: TradingSession[];
 }
 
+/**
+ * Day the market is closed
+ */
+export interface MarketHoliday {
+  date: string;
+  name: string;
+}
+
+/**
+ * Day the market closes early; sessions are cut at closeTime (HH:mm)
+ */
+export interface MarketHalfDay {
+  date: string;
+  closeTime: string;
+  name?: string;
+}
+
+export interface MarketCalendar {
+  sessions?: TradingSession[];
+  holidays?: MarketHoliday[];
+  halfDays?: MarketHalfDay[];
+}
+
+/**
+ * Trading calendar of a nation. Sessions default to tradingHours; a market entry replaces the
+ * sessions and adds its own holidays and half days to the nation-wide ones.
+ */
+export interface TradingCalendarConfig extends MarketCalendar {
+  markets?: Record<string, MarketCalendar>;
+}
+
+export interface BrokerFeeTier {
+  minTradeValue: number;
+  rate: number;
+}
+
+export interface BrokerFeeSchedule {
+  name: string;
+  minFee: number;
+  tiers: BrokerFeeTier[];
+}
+
+export interface TaxRules {
+  securitiesAssetTypes: string[];
+  securitiesSaleTaxRate: number;
+  cashDividendTaxRate: number;
+  depositInterestTaxRate: number;
+  defaultBroker: string;
+  brokers: Record<string, BrokerFeeSchedule>;
+}
+
 export interface NationConfig {
   name: string;
   displayName: string;
@@ -48,6 +101,8 @@ export interface NationConfig {
   priceSources: PriceSource[];
   defaultPriceSource: string;
   tradingHours: TradingHours;
+  tradingCalendar?: TradingCalendarConfig;
+  taxRules?: TaxRules;
 }
 
 export interface NationConfigDefaults {
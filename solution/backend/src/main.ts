@@ -1,6 +1,8 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { json } from 'express';
 import { AppModule } from './app.module';
 import { GlobalExceptionFilter } from './modules/logging/filters/global-exception.filter';
 
@@ -8,7 +10,11 @@ import { GlobalExceptionFilter } from './modules/logging/filters/global-exceptio
  * Bootstrap the application.
  */
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Only trade import commits carry large JSON bodies; every other route keeps the default limit.
+  // Registered before Nest's own parser, which skips bodies that are already parsed.
+  app.use('/api/v1/trades/import/commit', json({ limit: process.env.TRADE_IMPORT_BODY_LIMIT || '5mb' }));
 
   // Enable CORS for production
   const corsOrigins = process.env.CORS_ORIGINS 
@@ -0,0 +1,81 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMultiCurrencySupport1767100000000 implements MigrationInterface {
+  name = 'AddMultiCurrencySupport1767100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create fx_rates table
+    const fxRatesExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'fx_rates'
+      )
+    `);
+
+    if (fxRatesExists[0]?.exists) {
+      console.log('✅ fx_rates table already exists, skipping');
+    } else {
+      console.log('Creating fx_rates table...');
+      await queryRunner.query(`
+        CREATE TABLE "fx_rates" (
+          "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "from_currency" varchar(3) NOT NULL,
+          "to_currency" varchar(3) NOT NULL,
+          "rate_date" date NOT NULL,
+          "rate" decimal(20,8) NOT NULL,
+          "buy_rate" decimal(20,8) NULL,
+          "sell_rate" decimal(20,8) NULL,
+          "source" varchar(30) NOT NULL DEFAULT 'MANUAL',
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_fx_rates" PRIMARY KEY ("id"),
+          CONSTRAINT "UQ_FX_RATES_PAIR_DATE" UNIQUE ("from_currency", "to_currency", "rate_date"),
+          CONSTRAINT "CHK_FX_RATES_POSITIVE" CHECK (rate > 0)
+        )
+      `);
+
+      await queryRunner.query(`
+        CREATE INDEX "IDX_FX_RATES_PAIR_DATE" ON "fx_rates" ("from_currency", "to_currency", "rate_date")
+      `);
+      console.log('✅ fx_rates table created');
+    }
+
+    // Add currency to assets, seeded from the matching global asset
+    await queryRunner.query(`
+      ALTER TABLE "assets"
+      ADD COLUMN IF NOT EXISTS "currency" varchar(3) NOT NULL DEFAULT 'VND'
+    `);
+
+    await queryRunner.query(`
+      UPDATE "assets" a
+      SET "currency" = ga."currency"
+      FROM "global_assets" ga
+      WHERE ga."symbol" = a."symbol"
+        AND ga."currency" IS NOT NULL
+        AND a."currency" <> ga."currency"
+    `);
+    console.log('✅ assets.currency added');
+
+    // Add trade-date FX rate to trades
+    await queryRunner.query(`
+      ALTER TABLE "trades"
+      ADD COLUMN IF NOT EXISTS "fx_rate" decimal(20,8) NULL
+    `);
+    console.log('✅ trades.fx_rate added');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "trades"
+      DROP COLUMN IF EXISTS "fx_rate"
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "assets"
+      DROP COLUMN IF EXISTS "currency"
+    `);
+
+    await queryRunner.query(`DROP TABLE IF EXISTS "fx_rates"`);
+  }
+}
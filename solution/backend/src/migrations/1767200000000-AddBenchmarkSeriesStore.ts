@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBenchmarkSeriesStore1767200000000 implements MigrationInterface {
+  name = 'AddBenchmarkSeriesStore1767200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const benchmarksExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'benchmarks'
+      )
+    `);
+
+    if (benchmarksExists[0]?.exists) {
+      console.log('✅ benchmarks table already exists, skipping');
+    } else {
+      console.log('Creating benchmarks table...');
+      await queryRunner.query(`
+        CREATE TABLE "benchmarks" (
+          "benchmark_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "code" varchar(50) NOT NULL,
+          "name" varchar(255) NOT NULL,
+          "benchmark_type" varchar(50) NOT NULL,
+          "source" varchar(20) NOT NULL,
+          "source_symbol" varchar(50) NULL,
+          "components" jsonb NULL,
+          "account_id" uuid NULL,
+          "is_active" boolean NOT NULL DEFAULT true,
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_benchmarks" PRIMARY KEY ("benchmark_id"),
+          CONSTRAINT "UQ_BENCHMARKS_CODE" UNIQUE ("code")
+        )
+      `);
+
+      await queryRunner.query(`
+        CREATE INDEX "IDX_BENCHMARKS_ACCOUNT" ON "benchmarks" ("account_id")
+      `);
+      console.log('✅ benchmarks table created');
+    }
+
+    // Built-in benchmarks (IDs are referenced by BUILT_IN_BENCHMARK_IDS)
+    await queryRunner.query(`
+      INSERT INTO "benchmarks" ("benchmark_id", "code", "name", "benchmark_type", "source", "source_symbol", "created_at")
+      VALUES
+        ('00000000-0000-0000-0000-000000000001', 'VNINDEX', 'VN-Index', 'INDEX', 'STOCK_INDEX', 'VNINDEX', now()),
+        ('00000000-0000-0000-0000-000000000002', 'VN30', 'VN30 Index', 'INDEX', 'STOCK_INDEX', 'VN30INDEX', now() + interval '1 second'),
+        ('00000000-0000-0000-0000-000000000003', 'HNXINDEX', 'HNX-Index', 'INDEX', 'STOCK_INDEX', 'HNX-INDEX', now() + interval '2 seconds'),
+        ('00000000-0000-0000-0000-000000000004', 'SJC', 'SJC Gold', 'COMMODITY', 'GOLD', 'SJC', now() + interval '3 seconds'),
+        ('00000000-0000-0000-0000-000000000005', 'USDVND', 'USD/VND', 'FX', 'FX_RATE', 'USD', now() + interval '4 seconds')
+      ON CONFLICT ("code") DO NOTHING
+    `);
+
+    console.log('✅ built-in benchmarks seeded');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DELETE FROM "benchmark_data"
+      WHERE "benchmark_id" IN (SELECT "benchmark_id" FROM "benchmarks")
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS "benchmarks"`);
+  }
+}
@@ -0,0 +1,102 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCorporateActions1767300000000 implements MigrationInterface {
+  name = 'AddCorporateActions1767300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const corporateActionsExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'corporate_actions'
+      )
+    `);
+
+    if (corporateActionsExists[0]?.exists) {
+      console.log('✅ corporate_actions table already exists, skipping');
+    } else {
+      console.log('Creating corporate_actions table...');
+      await queryRunner.query(`
+        CREATE TYPE "public"."corporate_actions_action_type_enum" AS ENUM('STOCK_SPLIT', 'STOCK_DIVIDEND', 'CASH_DIVIDEND', 'RIGHTS_ISSUE')
+      `);
+      await queryRunner.query(`
+        CREATE TYPE "public"."corporate_actions_status_enum" AS ENUM('PENDING', 'APPLIED', 'REVERSED')
+      `);
+      await queryRunner.query(`
+        CREATE TABLE "corporate_actions" (
+          "corporate_action_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "global_asset_id" uuid NOT NULL,
+          "action_type" "public"."corporate_actions_action_type_enum" NOT NULL,
+          "split_ratio" decimal(18,8) NULL,
+          "stock_dividend_percent" decimal(10,4) NULL,
+          "cash_dividend_per_share" decimal(18,8) NULL,
+          "rights_ratio" decimal(18,8) NULL,
+          "subscription_price" decimal(18,8) NULL,
+          "ex_date" date NOT NULL,
+          "record_date" date NULL,
+          "payment_date" date NULL,
+          "status" "public"."corporate_actions_status_enum" NOT NULL DEFAULT 'PENDING',
+          "applied_at" TIMESTAMP NULL,
+          "notes" text NULL,
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_corporate_actions" PRIMARY KEY ("corporate_action_id"),
+          CONSTRAINT "FK_CORPORATE_ACTIONS_GLOBAL_ASSET" FOREIGN KEY ("global_asset_id")
+            REFERENCES "global_assets"("id") ON DELETE CASCADE
+        )
+      `);
+
+      await queryRunner.query(`CREATE INDEX "IDX_CORPORATE_ACTIONS_GLOBAL_ASSET" ON "corporate_actions" ("global_asset_id")`);
+      await queryRunner.query(`CREATE INDEX "IDX_CORPORATE_ACTIONS_EX_DATE" ON "corporate_actions" ("ex_date")`);
+      await queryRunner.query(`CREATE INDEX "IDX_CORPORATE_ACTIONS_STATUS" ON "corporate_actions" ("status")`);
+      console.log('✅ corporate_actions table created');
+    }
+
+    const adjustmentsExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'corporate_action_adjustments'
+      )
+    `);
+
+    if (adjustmentsExists[0]?.exists) {
+      console.log('✅ corporate_action_adjustments table already exists, skipping');
+    } else {
+      console.log('Creating corporate_action_adjustments table...');
+      await queryRunner.query(`
+        CREATE TABLE "corporate_action_adjustments" (
+          "adjustment_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "corporate_action_id" uuid NOT NULL,
+          "portfolio_id" uuid NOT NULL,
+          "asset_id" uuid NOT NULL,
+          "trade_id" uuid NULL,
+          "previous_quantity" decimal(18,8) NULL,
+          "previous_price" decimal(18,8) NULL,
+          "previous_fee" decimal(18,8) NULL,
+          "previous_tax" decimal(18,8) NULL,
+          "new_quantity" decimal(18,8) NULL,
+          "new_price" decimal(18,8) NULL,
+          "created_trade_id" uuid NULL,
+          "cash_flow_id" uuid NULL,
+          "eligible_quantity" decimal(18,8) NOT NULL DEFAULT 0,
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_corporate_action_adjustments" PRIMARY KEY ("adjustment_id"),
+          CONSTRAINT "FK_CORPORATE_ACTION_ADJUSTMENTS_ACTION" FOREIGN KEY ("corporate_action_id")
+            REFERENCES "corporate_actions"("corporate_action_id") ON DELETE CASCADE
+        )
+      `);
+
+      await queryRunner.query(`CREATE INDEX "IDX_CORPORATE_ACTION_ADJUSTMENTS_ACTION" ON "corporate_action_adjustments" ("corporate_action_id")`);
+      await queryRunner.query(`CREATE INDEX "IDX_CORPORATE_ACTION_ADJUSTMENTS_PORTFOLIO" ON "corporate_action_adjustments" ("portfolio_id")`);
+      console.log('✅ corporate_action_adjustments table created');
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "corporate_action_adjustments"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "corporate_actions"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."corporate_actions_status_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."corporate_actions_action_type_enum"`);
+  }
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCostBasisMethod1767400000000 implements MigrationInterface {
+  name = 'AddCostBasisMethod1767400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const methodColumnExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'portfolios'
+        AND column_name = 'cost_basis_method'
+      )
+    `);
+
+    if (methodColumnExists[0]?.exists) {
+      console.log('✅ cost_basis_method column already exists, skipping');
+    } else {
+      console.log('Adding cost_basis_method column to portfolios table...');
+      await queryRunner.query(`
+        ALTER TABLE "portfolios"
+        ADD COLUMN "cost_basis_method" character varying(20) NOT NULL DEFAULT 'FIFO'
+      `);
+      console.log('✅ cost_basis_method column added successfully');
+    }
+
+    const selectionsColumnExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'trades'
+        AND column_name = 'lot_selections'
+      )
+    `);
+
+    if (selectionsColumnExists[0]?.exists) {
+      console.log('✅ lot_selections column already exists, skipping');
+    } else {
+      console.log('Adding lot_selections column to trades table...');
+      await queryRunner.query(`
+        ALTER TABLE "trades"
+        ADD COLUMN "lot_selections" jsonb NULL
+      `);
+      console.log('✅ lot_selections column added successfully');
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "trades" DROP COLUMN IF EXISTS "lot_selections"`);
+    await queryRunner.query(`ALTER TABLE "portfolios" DROP COLUMN IF EXISTS "cost_basis_method"`);
+  }
+}
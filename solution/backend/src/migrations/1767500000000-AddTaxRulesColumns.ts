@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaxRulesColumns1767500000000 implements MigrationInterface {
+  name = 'AddTaxRulesColumns1767500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const brokerColumnExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'portfolios'
+        AND column_name = 'broker'
+      )
+    `);
+
+    if (brokerColumnExists[0]?.exists) {
+      console.log('✅ broker column already exists, skipping');
+    } else {
+      console.log('Adding broker column to portfolios table...');
+      await queryRunner.query(`
+        ALTER TABLE "portfolios"
+        ADD COLUMN "broker" character varying(50) NULL
+      `);
+      console.log('✅ broker column added successfully');
+    }
+
+    const taxWithheldColumnExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'cash_flows'
+        AND column_name = 'tax_withheld'
+      )
+    `);
+
+    if (taxWithheldColumnExists[0]?.exists) {
+      console.log('✅ tax_withheld column already exists, skipping');
+    } else {
+      console.log('Adding tax_withheld column to cash_flows table...');
+      await queryRunner.query(`
+        ALTER TABLE "cash_flows"
+        ADD COLUMN "tax_withheld" numeric(20,8) NOT NULL DEFAULT 0
+      `);
+      console.log('✅ tax_withheld column added successfully');
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "cash_flows" DROP COLUMN IF EXISTS "tax_withheld"`);
+    await queryRunner.query(`ALTER TABLE "portfolios" DROP COLUMN IF EXISTS "broker"`);
+  }
+}
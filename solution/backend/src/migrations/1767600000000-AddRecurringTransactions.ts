@@ -0,0 +1,110 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRecurringTransactions1767600000000 implements MigrationInterface {
+  name = 'AddRecurringTransactions1767600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const plansExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'recurring_transactions'
+      )
+    `);
+
+    if (plansExists[0]?.exists) {
+      console.log('✅ recurring_transactions table already exists, skipping');
+    } else {
+      console.log('Creating recurring_transactions table...');
+      await queryRunner.query(`
+        CREATE TYPE "public"."recurring_transactions_kind_enum" AS ENUM('TRADE', 'CASH_FLOW')
+      `);
+      await queryRunner.query(`
+        CREATE TYPE "public"."recurring_transactions_frequency_enum" AS ENUM('WEEKLY', 'MONTHLY', 'QUARTERLY')
+      `);
+      await queryRunner.query(`
+        CREATE TYPE "public"."recurring_transactions_side_enum" AS ENUM('BUY', 'SELL')
+      `);
+      await queryRunner.query(`
+        CREATE TABLE "recurring_transactions" (
+          "recurring_transaction_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "portfolio_id" uuid NOT NULL,
+          "name" varchar(255) NOT NULL,
+          "kind" "public"."recurring_transactions_kind_enum" NOT NULL,
+          "frequency" "public"."recurring_transactions_frequency_enum" NOT NULL,
+          "day_of_month" integer NULL,
+          "day_of_week" integer NULL,
+          "start_date" date NOT NULL,
+          "end_date" date NULL,
+          "next_run_date" date NULL,
+          "is_active" boolean NOT NULL DEFAULT true,
+          "asset_id" uuid NULL,
+          "side" "public"."recurring_transactions_side_enum" NULL,
+          "quantity" decimal(18,8) NULL,
+          "cash_flow_type" varchar(50) NULL,
+          "amount" decimal(20,2) NULL,
+          "currency" varchar(3) NULL,
+          "funding_source" varchar(100) NULL,
+          "description" text NULL,
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_recurring_transactions" PRIMARY KEY ("recurring_transaction_id"),
+          CONSTRAINT "FK_RECURRING_TRANSACTIONS_PORTFOLIO" FOREIGN KEY ("portfolio_id")
+            REFERENCES "portfolios"("portfolio_id") ON DELETE CASCADE,
+          CONSTRAINT "FK_RECURRING_TRANSACTIONS_ASSET" FOREIGN KEY ("asset_id")
+            REFERENCES "assets"("id")
+        )
+      `);
+
+      await queryRunner.query(`CREATE INDEX "IDX_RECURRING_TRANSACTIONS_PORTFOLIO" ON "recurring_transactions" ("portfolio_id")`);
+      await queryRunner.query(`CREATE INDEX "IDX_RECURRING_TRANSACTIONS_DUE" ON "recurring_transactions" ("is_active", "next_run_date")`);
+      console.log('✅ recurring_transactions table created');
+    }
+
+    const occurrencesExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'recurring_transaction_occurrences'
+      )
+    `);
+
+    if (occurrencesExists[0]?.exists) {
+      console.log('✅ recurring_transaction_occurrences table already exists, skipping');
+    } else {
+      console.log('Creating recurring_transaction_occurrences table...');
+      await queryRunner.query(`
+        CREATE TABLE "recurring_transaction_occurrences" (
+          "occurrence_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "recurring_transaction_id" uuid NOT NULL,
+          "portfolio_id" uuid NOT NULL,
+          "scheduled_date" date NOT NULL,
+          "status" varchar(20) NOT NULL DEFAULT 'PENDING',
+          "quantity" decimal(18,8) NULL,
+          "price" decimal(18,8) NULL,
+          "amount" decimal(20,2) NULL,
+          "cash_flow_id" uuid NULL,
+          "trade_id" uuid NULL,
+          "resolved_at" TIMESTAMP NULL,
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_recurring_transaction_occurrences" PRIMARY KEY ("occurrence_id"),
+          CONSTRAINT "FK_RECURRING_OCCURRENCES_PLAN" FOREIGN KEY ("recurring_transaction_id")
+            REFERENCES "recurring_transactions"("recurring_transaction_id") ON DELETE CASCADE
+        )
+      `);
+
+      await queryRunner.query(`CREATE UNIQUE INDEX "IDX_RECURRING_OCCURRENCES_PLAN_DATE" ON "recurring_transaction_occurrences" ("recurring_transaction_id", "scheduled_date")`);
+      await queryRunner.query(`CREATE INDEX "IDX_RECURRING_OCCURRENCES_PORTFOLIO_STATUS" ON "recurring_transaction_occurrences" ("portfolio_id", "status")`);
+      console.log('✅ recurring_transaction_occurrences table created');
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "recurring_transaction_occurrences"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "recurring_transactions"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."recurring_transactions_side_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."recurring_transactions_frequency_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."recurring_transactions_kind_enum"`);
+  }
+}
@@ -0,0 +1,97 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAlertRules1767700000000 implements MigrationInterface {
+  name = 'AddAlertRules1767700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const rulesExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'alert_rules'
+      )
+    `);
+
+    if (rulesExists[0]?.exists) {
+      console.log('✅ alert_rules table already exists, skipping');
+    } else {
+      console.log('Creating alert_rules table...');
+      await queryRunner.query(`
+        CREATE TYPE "public"."alert_rules_rule_type_enum" AS ENUM(
+          'PRICE_ABOVE', 'PRICE_BELOW', 'DAILY_MOVE_PERCENT', 'POSITION_VALUE_ABOVE',
+          'POSITION_VALUE_BELOW', 'PORTFOLIO_DRAWDOWN', 'DEPOSIT_MATURING'
+        )
+      `);
+      await queryRunner.query(`
+        CREATE TABLE "alert_rules" (
+          "alert_rule_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "account_id" uuid NOT NULL,
+          "portfolio_id" uuid NULL,
+          "symbol" varchar(50) NULL,
+          "rule_type" "public"."alert_rules_rule_type_enum" NOT NULL,
+          "threshold" decimal(20,4) NOT NULL,
+          "channels" text NOT NULL,
+          "cooldown_minutes" integer NOT NULL DEFAULT 1440,
+          "snoozed_until" TIMESTAMP NULL,
+          "last_triggered_at" TIMESTAMP NULL,
+          "last_value" decimal(20,4) NULL,
+          "last_evaluated_at" TIMESTAMP NULL,
+          "is_active" boolean NOT NULL DEFAULT true,
+          "note" text NULL,
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_alert_rules" PRIMARY KEY ("alert_rule_id"),
+          CONSTRAINT "FK_ALERT_RULES_ACCOUNT" FOREIGN KEY ("account_id")
+            REFERENCES "accounts"("account_id") ON DELETE CASCADE,
+          CONSTRAINT "FK_ALERT_RULES_PORTFOLIO" FOREIGN KEY ("portfolio_id")
+            REFERENCES "portfolios"("portfolio_id") ON DELETE CASCADE
+        )
+      `);
+
+      await queryRunner.query(`CREATE INDEX "IDX_ALERT_RULES_ACCOUNT" ON "alert_rules" ("account_id")`);
+      await queryRunner.query(`CREATE INDEX "IDX_ALERT_RULES_ACTIVE" ON "alert_rules" ("is_active")`);
+      console.log('✅ alert_rules table created');
+    }
+
+    const eventsExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'alert_events'
+      )
+    `);
+
+    if (eventsExists[0]?.exists) {
+      console.log('✅ alert_events table already exists, skipping');
+    } else {
+      console.log('Creating alert_events table...');
+      await queryRunner.query(`
+        CREATE TABLE "alert_events" (
+          "alert_event_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "alert_rule_id" uuid NOT NULL,
+          "account_id" uuid NOT NULL,
+          "observed_value" decimal(20,4) NULL,
+          "threshold" decimal(20,4) NOT NULL,
+          "title" varchar(255) NOT NULL,
+          "message" text NOT NULL,
+          "delivered_channels" text NULL,
+          "metadata" jsonb NULL,
+          "triggered_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_alert_events" PRIMARY KEY ("alert_event_id"),
+          CONSTRAINT "FK_ALERT_EVENTS_RULE" FOREIGN KEY ("alert_rule_id")
+            REFERENCES "alert_rules"("alert_rule_id") ON DELETE CASCADE
+        )
+      `);
+
+      await queryRunner.query(`CREATE INDEX "IDX_ALERT_EVENTS_RULE_TRIGGERED" ON "alert_events" ("alert_rule_id", "triggered_at")`);
+      await queryRunner.query(`CREATE INDEX "IDX_ALERT_EVENTS_ACCOUNT_TRIGGERED" ON "alert_events" ("account_id", "triggered_at")`);
+      console.log('✅ alert_events table created');
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "alert_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "alert_rules"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."alert_rules_rule_type_enum"`);
+  }
+}
@@ -0,0 +1,66 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPortfolioStatements1767800000000 implements MigrationInterface {
+  name = 'AddPortfolioStatements1767800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const tableExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'portfolio_statements'
+      )
+    `);
+
+    if (tableExists[0]?.exists) {
+      console.log('✅ portfolio_statements table already exists, skipping');
+      return;
+    }
+
+    console.log('Creating portfolio_statements table...');
+    await queryRunner.query(`
+      CREATE TYPE "public"."portfolio_statements_period_type_enum" AS ENUM('MONTHLY', 'QUARTERLY')
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "portfolio_statements" (
+        "statement_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "portfolio_id" uuid NOT NULL,
+        "investor_account_id" uuid NULL,
+        "period_type" "public"."portfolio_statements_period_type_enum" NOT NULL,
+        "period_start" date NOT NULL,
+        "period_end" date NOT NULL,
+        "data" jsonb NOT NULL,
+        "html" text NOT NULL,
+        "pdf" bytea NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "generated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_portfolio_statements" PRIMARY KEY ("statement_id"),
+        CONSTRAINT "FK_PORTFOLIO_STATEMENTS_PORTFOLIO" FOREIGN KEY ("portfolio_id")
+          REFERENCES "portfolios"("portfolio_id") ON DELETE CASCADE,
+        CONSTRAINT "FK_PORTFOLIO_STATEMENTS_INVESTOR" FOREIGN KEY ("investor_account_id")
+          REFERENCES "accounts"("account_id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_PORTFOLIO_STATEMENTS_PERIOD"
+      ON "portfolio_statements" ("portfolio_id", "period_type", "period_start")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_PORTFOLIO_STATEMENTS_INVESTOR" ON "portfolio_statements" ("investor_account_id")
+    `);
+    // One portfolio statement and one statement per investor for each period
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_PORTFOLIO_STATEMENTS_PERIOD_OWNER" ON "portfolio_statements" (
+        "portfolio_id", "period_type", "period_start",
+        COALESCE("investor_account_id", '00000000-0000-0000-0000-000000000000')
+      )
+    `);
+    console.log('✅ portfolio_statements table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "portfolio_statements"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."portfolio_statements_period_type_enum"`);
+  }
+}
@@ -0,0 +1,143 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddFundFees1767900000000 implements MigrationInterface {
+  name = 'AddFundFees1767900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const highWaterMarkColumnExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'investor_holdings'
+        AND column_name = 'high_water_mark'
+      )
+    `);
+
+    if (highWaterMarkColumnExists[0]?.exists) {
+      console.log('✅ high_water_mark columns already exist, skipping');
+    } else {
+      console.log('Adding high-water mark columns to investor_holdings table...');
+      await queryRunner.query(`
+        ALTER TABLE "investor_holdings"
+        ADD COLUMN "high_water_mark" numeric(20,3) NULL,
+        ADD COLUMN "high_water_mark_date" date NULL
+      `);
+      console.log('✅ high-water mark columns added successfully');
+    }
+
+    const tableExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'fund_fee_schedules'
+      )
+    `);
+
+    if (tableExists[0]?.exists) {
+      console.log('✅ fund fee tables already exist, skipping');
+      return;
+    }
+
+    console.log('Creating fund fee tables...');
+    await queryRunner.query(`
+      CREATE TYPE "public"."fund_fee_schedules_crystallization_frequency_enum" AS ENUM('MONTHLY', 'QUARTERLY', 'ANNUALLY')
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."fund_fee_type_enum" AS ENUM('MANAGEMENT', 'PERFORMANCE')
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."fund_fee_crystallizations_reason_enum" AS ENUM('PERIOD_END', 'REDEMPTION')
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "fund_fee_schedules" (
+        "fee_schedule_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "portfolio_id" uuid NOT NULL,
+        "management_fee_rate" numeric(8,4) NOT NULL DEFAULT 0,
+        "performance_fee_rate" numeric(8,4) NOT NULL DEFAULT 0,
+        "hurdle_rate" numeric(8,4) NOT NULL DEFAULT 0,
+        "crystallization_frequency" "public"."fund_fee_schedules_crystallization_frequency_enum" NOT NULL DEFAULT 'ANNUALLY',
+        "effective_from" date NOT NULL,
+        "last_accrual_date" date NULL,
+        "is_active" boolean NOT NULL DEFAULT true,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_fund_fee_schedules" PRIMARY KEY ("fee_schedule_id"),
+        CONSTRAINT "UQ_FUND_FEE_SCHEDULES_PORTFOLIO" UNIQUE ("portfolio_id"),
+        CONSTRAINT "FK_FUND_FEE_SCHEDULES_PORTFOLIO" FOREIGN KEY ("portfolio_id")
+          REFERENCES "portfolios"("portfolio_id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "fund_fee_crystallizations" (
+        "crystallization_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "portfolio_id" uuid NOT NULL,
+        "holding_id" uuid NULL,
+        "fee_type" "public"."fund_fee_type_enum" NOT NULL,
+        "reason" "public"."fund_fee_crystallizations_reason_enum" NOT NULL,
+        "crystallization_date" date NOT NULL,
+        "amount" numeric(20,3) NOT NULL,
+        "units" numeric(20,3) NULL,
+        "high_water_mark" numeric(20,3) NULL,
+        "cash_flow_id" uuid NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_fund_fee_crystallizations" PRIMARY KEY ("crystallization_id"),
+        CONSTRAINT "FK_FUND_FEE_CRYSTALLIZATIONS_PORTFOLIO" FOREIGN KEY ("portfolio_id")
+          REFERENCES "portfolios"("portfolio_id") ON DELETE CASCADE,
+        CONSTRAINT "FK_FUND_FEE_CRYSTALLIZATIONS_HOLDING" FOREIGN KEY ("holding_id")
+          REFERENCES "investor_holdings"("holding_id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "fund_fee_accruals" (
+        "accrual_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "portfolio_id" uuid NOT NULL,
+        "holding_id" uuid NULL,
+        "fee_type" "public"."fund_fee_type_enum" NOT NULL,
+        "accrual_date" date NOT NULL,
+        "amount" numeric(20,3) NOT NULL,
+        "nav_per_unit" numeric(20,3) NOT NULL,
+        "crystallization_id" uuid NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_fund_fee_accruals" PRIMARY KEY ("accrual_id"),
+        CONSTRAINT "FK_FUND_FEE_ACCRUALS_PORTFOLIO" FOREIGN KEY ("portfolio_id")
+          REFERENCES "portfolios"("portfolio_id") ON DELETE CASCADE,
+        CONSTRAINT "FK_FUND_FEE_ACCRUALS_HOLDING" FOREIGN KEY ("holding_id")
+          REFERENCES "investor_holdings"("holding_id") ON DELETE CASCADE,
+        CONSTRAINT "FK_FUND_FEE_ACCRUALS_CRYSTALLIZATION" FOREIGN KEY ("crystallization_id")
+          REFERENCES "fund_fee_crystallizations"("crystallization_id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_FUND_FEE_ACCRUALS_PORTFOLIO_DATE" ON "fund_fee_accruals" ("portfolio_id", "accrual_date")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_FUND_FEE_ACCRUALS_HOLDING" ON "fund_fee_accruals" ("holding_id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_FUND_FEE_ACCRUALS_CRYSTALLIZATION" ON "fund_fee_accruals" ("crystallization_id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_FUND_FEE_CRYSTALLIZATIONS_PORTFOLIO_DATE"
+      ON "fund_fee_crystallizations" ("portfolio_id", "crystallization_date")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_FUND_FEE_CRYSTALLIZATIONS_HOLDING" ON "fund_fee_crystallizations" ("holding_id")
+    `);
+    console.log('✅ fund fee tables created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "fund_fee_accruals"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "fund_fee_crystallizations"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "fund_fee_schedules"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."fund_fee_crystallizations_reason_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."fund_fee_type_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."fund_fee_schedules_crystallization_frequency_enum"`);
+    await queryRunner.query(`ALTER TABLE "investor_holdings" DROP COLUMN IF EXISTS "high_water_mark_date"`);
+    await queryRunner.query(`ALTER TABLE "investor_holdings" DROP COLUMN IF EXISTS "high_water_mark"`);
+  }
+}
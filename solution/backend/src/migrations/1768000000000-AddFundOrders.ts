@@ -0,0 +1,94 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddFundOrders1768000000000 implements MigrationInterface {
+  name = 'AddFundOrders1768000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const dealingColumnsExist = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'portfolios'
+        AND column_name = 'dealing_frequency'
+      )
+    `);
+
+    if (dealingColumnsExist[0]?.exists) {
+      console.log('✅ dealing calendar columns already exist, skipping');
+    } else {
+      console.log('Adding dealing calendar columns to portfolios table...');
+      await queryRunner.query(`
+        ALTER TABLE "portfolios"
+        ADD COLUMN "dealing_frequency" character varying(10) NOT NULL DEFAULT 'DAILY',
+        ADD COLUMN "dealing_day" integer NULL,
+        ADD COLUMN "dealing_cut_off_time" character varying(5) NOT NULL DEFAULT '15:00'
+      `);
+      console.log('✅ dealing calendar columns added successfully');
+    }
+
+    const tableExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'fund_orders'
+      )
+    `);
+
+    if (tableExists[0]?.exists) {
+      console.log('✅ fund_orders table already exists, skipping');
+      return;
+    }
+
+    console.log('Creating fund_orders table...');
+    await queryRunner.query(`
+      CREATE TYPE "public"."fund_orders_order_type_enum" AS ENUM('SUBSCRIPTION', 'REDEMPTION')
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."fund_orders_status_enum" AS ENUM('PENDING', 'PRICED', 'SETTLED', 'REJECTED')
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "fund_orders" (
+        "order_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "portfolio_id" uuid NOT NULL,
+        "account_id" uuid NOT NULL,
+        "order_type" "public"."fund_orders_order_type_enum" NOT NULL,
+        "status" "public"."fund_orders_status_enum" NOT NULL DEFAULT 'PENDING',
+        "amount" numeric(20,3) NULL,
+        "units" numeric(20,3) NULL,
+        "dealing_date" date NOT NULL,
+        "nav_per_unit" numeric(20,3) NULL,
+        "description" text NULL,
+        "rejection_reason" text NULL,
+        "reviewed_by" uuid NULL,
+        "transaction_id" uuid NULL,
+        "priced_at" TIMESTAMP NULL,
+        "settled_at" TIMESTAMP NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_fund_orders" PRIMARY KEY ("order_id"),
+        CONSTRAINT "FK_FUND_ORDERS_PORTFOLIO" FOREIGN KEY ("portfolio_id")
+          REFERENCES "portfolios"("portfolio_id") ON DELETE CASCADE,
+        CONSTRAINT "FK_FUND_ORDERS_ACCOUNT" FOREIGN KEY ("account_id")
+          REFERENCES "accounts"("account_id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_FUND_ORDERS_PORTFOLIO_STATUS" ON "fund_orders" ("portfolio_id", "status")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_FUND_ORDERS_ACCOUNT" ON "fund_orders" ("account_id")
+    `);
+    console.log('✅ fund_orders table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "fund_orders"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."fund_orders_status_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."fund_orders_order_type_enum"`);
+    await queryRunner.query(`ALTER TABLE "portfolios" DROP COLUMN IF EXISTS "dealing_cut_off_time"`);
+    await queryRunner.query(`ALTER TABLE "portfolios" DROP COLUMN IF EXISTS "dealing_day"`);
+    await queryRunner.query(`ALTER TABLE "portfolios" DROP COLUMN IF EXISTS "dealing_frequency"`);
+  }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTwoFactorAndPasswordReset1768100000000 implements MigrationInterface {
+  name = 'AddTwoFactorAndPasswordReset1768100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const columnsExist = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'users'
+        AND column_name = 'two_factor_enabled'
+      )
+    `);
+
+    if (columnsExist[0]?.exists) {
+      console.log('✅ two-factor and password reset columns already exist, skipping');
+      return;
+    }
+
+    console.log('Adding two-factor and password reset columns to users table...');
+    await queryRunner.query(`
+      ALTER TABLE "users"
+      ADD COLUMN "two_factor_enabled" boolean NOT NULL DEFAULT false,
+      ADD COLUMN "two_factor_secret" character varying(64) NULL,
+      ADD COLUMN "two_factor_recovery_codes" jsonb NULL,
+      ADD COLUMN "two_factor_last_step" integer NULL,
+      ADD COLUMN "password_reset_token_hash" character varying(64) NULL,
+      ADD COLUMN "password_reset_expires_at" TIMESTAMP NULL
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_USERS_PASSWORD_RESET_TOKEN_HASH" ON "users" ("password_reset_token_hash")
+    `);
+    console.log('✅ two-factor and password reset columns added successfully');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_USERS_PASSWORD_RESET_TOKEN_HASH"`);
+    await queryRunner.query(`
+      ALTER TABLE "users"
+      DROP COLUMN IF EXISTS "password_reset_expires_at",
+      DROP COLUMN IF EXISTS "password_reset_token_hash",
+      DROP COLUMN IF EXISTS "two_factor_last_step",
+      DROP COLUMN IF EXISTS "two_factor_recovery_codes",
+      DROP COLUMN IF EXISTS "two_factor_secret",
+      DROP COLUMN IF EXISTS "two_factor_enabled"
+    `);
+  }
+}
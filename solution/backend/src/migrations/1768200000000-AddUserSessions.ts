@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserSessions1768200000000 implements MigrationInterface {
+  name = 'AddUserSessions1768200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const tableExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'user_sessions'
+      )
+    `);
+
+    if (tableExists[0]?.exists) {
+      console.log('✅ user_sessions table already exists, skipping');
+      return;
+    }
+
+    console.log('Creating user_sessions table...');
+    await queryRunner.query(`
+      CREATE TABLE "user_sessions" (
+        "session_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "device_id" uuid NULL,
+        "refresh_token_hash" character varying(64) NOT NULL,
+        "ip_address" character varying NULL,
+        "user_agent" text NULL,
+        "last_seen_at" TIMESTAMP NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "revoked_at" TIMESTAMP NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_user_sessions" PRIMARY KEY ("session_id"),
+        CONSTRAINT "FK_USER_SESSIONS_USER" FOREIGN KEY ("user_id")
+          REFERENCES "users"("user_id") ON DELETE CASCADE,
+        CONSTRAINT "FK_USER_SESSIONS_DEVICE" FOREIGN KEY ("device_id")
+          REFERENCES "trusted_devices"("device_id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_USER_SESSIONS_USER_REVOKED" ON "user_sessions" ("user_id", "revoked_at")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_USER_SESSIONS_DEVICE" ON "user_sessions" ("device_id")
+    `);
+    console.log('✅ user_sessions table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "user_sessions"`);
+  }
+}
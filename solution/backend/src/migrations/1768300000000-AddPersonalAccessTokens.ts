@@ -0,0 +1,75 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPersonalAccessTokens1768300000000 implements MigrationInterface {
+  name = 'AddPersonalAccessTokens1768300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const requestLogColumnExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'request_logs'
+        AND column_name = 'personal_access_token_id'
+      )
+    `);
+
+    if (requestLogColumnExists[0]?.exists) {
+      console.log('✅ request_logs.personal_access_token_id already exists, skipping');
+    } else {
+      console.log('Adding personal_access_token_id column to request_logs table...');
+      await queryRunner.query(`
+        ALTER TABLE "request_logs" ADD COLUMN "personal_access_token_id" uuid NULL
+      `);
+      await queryRunner.query(`
+        CREATE INDEX "idx_req_logs_personal_access_token_id" ON "request_logs" ("personal_access_token_id")
+      `);
+      console.log('✅ request_logs.personal_access_token_id added successfully');
+    }
+
+    const tableExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'personal_access_tokens'
+      )
+    `);
+
+    if (tableExists[0]?.exists) {
+      console.log('✅ personal_access_tokens table already exists, skipping');
+      return;
+    }
+
+    console.log('Creating personal_access_tokens table...');
+    await queryRunner.query(`
+      CREATE TABLE "personal_access_tokens" (
+        "token_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "name" character varying(100) NOT NULL,
+        "token_prefix" character varying(16) NOT NULL,
+        "token_hash" character varying(64) NOT NULL,
+        "scopes" jsonb NOT NULL,
+        "portfolio_ids" jsonb NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "last_used_at" TIMESTAMP NULL,
+        "last_used_ip" character varying NULL,
+        "revoked_at" TIMESTAMP NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_personal_access_tokens" PRIMARY KEY ("token_id"),
+        CONSTRAINT "UQ_PERSONAL_ACCESS_TOKENS_HASH" UNIQUE ("token_hash"),
+        CONSTRAINT "FK_PERSONAL_ACCESS_TOKENS_USER" FOREIGN KEY ("user_id")
+          REFERENCES "users"("user_id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_PERSONAL_ACCESS_TOKENS_USER" ON "personal_access_tokens" ("user_id")
+    `);
+    console.log('✅ personal_access_tokens table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "personal_access_tokens"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_req_logs_personal_access_token_id"`);
+    await queryRunner.query(`ALTER TABLE "request_logs" DROP COLUMN IF EXISTS "personal_access_token_id"`);
+  }
+}
@@ -0,0 +1,85 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddFinancialAuditLog1768400000000 implements MigrationInterface {
+  name = 'AddFinancialAuditLog1768400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const lockColumnExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'portfolios'
+        AND column_name = 'locked_through_date'
+      )
+    `);
+
+    if (lockColumnExists[0]?.exists) {
+      console.log('✅ portfolios.locked_through_date already exists, skipping');
+    } else {
+      console.log('Adding locked_through_date column to portfolios table...');
+      await queryRunner.query(`
+        ALTER TABLE "portfolios" ADD COLUMN "locked_through_date" date NULL
+      `);
+      console.log('✅ portfolios.locked_through_date added successfully');
+    }
+
+    const tableExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'financial_audit_logs'
+      )
+    `);
+
+    if (tableExists[0]?.exists) {
+      console.log('✅ financial_audit_logs table already exists, skipping');
+      return;
+    }
+
+    console.log('Creating financial_audit_logs table...');
+    await queryRunner.query(`
+      CREATE TABLE "financial_audit_logs" (
+        "audit_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "portfolio_id" uuid NOT NULL,
+        "entity_type" character varying(30) NOT NULL,
+        "entity_id" uuid NOT NULL,
+        "action" character varying(10) NOT NULL,
+        "actor_account_id" uuid NULL,
+        "reason" text NULL,
+        "before" jsonb NULL,
+        "after" jsonb NULL,
+        "changes" jsonb NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_financial_audit_logs" PRIMARY KEY ("audit_id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_FINANCIAL_AUDIT_LOGS_PORTFOLIO_CREATED" ON "financial_audit_logs" ("portfolio_id", "created_at")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_FINANCIAL_AUDIT_LOGS_ENTITY" ON "financial_audit_logs" ("entity_type", "entity_id")
+    `);
+
+    // The audit trail is append-only: reject any UPDATE or DELETE at the database level
+    await queryRunner.query(`
+      CREATE OR REPLACE FUNCTION "prevent_financial_audit_log_mutation"() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'financial_audit_logs is append-only';
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await queryRunner.query(`
+      CREATE TRIGGER "TRG_FINANCIAL_AUDIT_LOGS_APPEND_ONLY"
+      BEFORE UPDATE OR DELETE ON "financial_audit_logs"
+      FOR EACH ROW EXECUTE FUNCTION "prevent_financial_audit_log_mutation"()
+    `);
+    console.log('✅ financial_audit_logs table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "financial_audit_logs"`);
+    await queryRunner.query(`DROP FUNCTION IF EXISTS "prevent_financial_audit_log_mutation"()`);
+    await queryRunner.query(`ALTER TABLE "portfolios" DROP COLUMN IF EXISTS "locked_through_date"`);
+  }
+}
@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPeriodCloses1768500000000 implements MigrationInterface {
+  name = 'AddPeriodCloses1768500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const tableExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'period_closes'
+      )
+    `);
+
+    if (tableExists[0]?.exists) {
+      console.log('✅ period_closes table already exists, skipping');
+      return;
+    }
+
+    console.log('Creating period_closes table...');
+    await queryRunner.query(`
+      CREATE TYPE "public"."period_closes_status_enum" AS ENUM('CLOSED', 'REOPENED')
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "period_closes" (
+        "period_close_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "portfolio_id" uuid NOT NULL,
+        "period_end" date NOT NULL,
+        "previous_period_end" date NULL,
+        "status" "public"."period_closes_status_enum" NOT NULL DEFAULT 'CLOSED',
+        "closing_balances" jsonb NOT NULL,
+        "closed_by" uuid NULL,
+        "closed_at" TIMESTAMP NOT NULL,
+        "reopened_by" uuid NULL,
+        "reopened_at" TIMESTAMP NULL,
+        "reopen_reason" text NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_period_closes" PRIMARY KEY ("period_close_id"),
+        CONSTRAINT "FK_PERIOD_CLOSES_PORTFOLIO" FOREIGN KEY ("portfolio_id")
+          REFERENCES "portfolios"("portfolio_id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_PERIOD_CLOSES_PORTFOLIO_PERIOD_END" ON "period_closes" ("portfolio_id", "period_end")
+    `);
+    console.log('✅ period_closes table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "period_closes"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."period_closes_status_enum"`);
+  }
+}
@@ -0,0 +1,121 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWatchlists1768600000000 implements MigrationInterface {
+  name = 'AddWatchlists1768600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const watchlistsExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'watchlists'
+      )
+    `);
+
+    if (watchlistsExists[0]?.exists) {
+      console.log('✅ watchlists table already exists, skipping');
+    } else {
+      console.log('Creating watchlists table...');
+      await queryRunner.query(`
+        CREATE TYPE "public"."watchlists_sort_by_enum" AS ENUM(
+          'MANUAL', 'SYMBOL', 'PRICE', 'DAILY_CHANGE_PERCENT',
+          'DISTANCE_TO_TARGET_PERCENT', 'FROM_HIGH_52W_PERCENT', 'ADDED_AT'
+        )
+      `);
+      await queryRunner.query(`
+        CREATE TYPE "public"."watchlists_sort_direction_enum" AS ENUM('ASC', 'DESC')
+      `);
+      await queryRunner.query(`
+        CREATE TABLE "watchlists" (
+          "watchlist_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "account_id" uuid NOT NULL,
+          "name" varchar(100) NOT NULL,
+          "description" text NULL,
+          "sort_by" "public"."watchlists_sort_by_enum" NOT NULL DEFAULT 'MANUAL',
+          "sort_direction" "public"."watchlists_sort_direction_enum" NOT NULL DEFAULT 'ASC',
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_watchlists" PRIMARY KEY ("watchlist_id"),
+          CONSTRAINT "FK_WATCHLISTS_ACCOUNT" FOREIGN KEY ("account_id")
+            REFERENCES "accounts"("account_id") ON DELETE CASCADE
+        )
+      `);
+
+      await queryRunner.query(`CREATE INDEX "IDX_WATCHLISTS_ACCOUNT" ON "watchlists" ("account_id")`);
+      console.log('✅ watchlists table created');
+    }
+
+    const itemsExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'watchlist_items'
+      )
+    `);
+
+    if (itemsExists[0]?.exists) {
+      console.log('✅ watchlist_items table already exists, skipping');
+    } else {
+      console.log('Creating watchlist_items table...');
+      await queryRunner.query(`
+        CREATE TABLE "watchlist_items" (
+          "watchlist_item_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "watchlist_id" uuid NOT NULL,
+          "global_asset_id" uuid NOT NULL,
+          "target_price" decimal(15,2) NULL,
+          "notes" text NULL,
+          "position" integer NOT NULL DEFAULT 0,
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_watchlist_items" PRIMARY KEY ("watchlist_item_id"),
+          CONSTRAINT "FK_WATCHLIST_ITEMS_WATCHLIST" FOREIGN KEY ("watchlist_id")
+            REFERENCES "watchlists"("watchlist_id") ON DELETE CASCADE,
+          CONSTRAINT "FK_WATCHLIST_ITEMS_GLOBAL_ASSET" FOREIGN KEY ("global_asset_id")
+            REFERENCES "global_assets"("id") ON DELETE CASCADE
+        )
+      `);
+
+      await queryRunner.query(`CREATE UNIQUE INDEX "IDX_WATCHLIST_ITEMS_WATCHLIST_ASSET" ON "watchlist_items" ("watchlist_id", "global_asset_id")`);
+      console.log('✅ watchlist_items table created');
+    }
+
+    const sharesExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'watchlist_shares'
+      )
+    `);
+
+    if (sharesExists[0]?.exists) {
+      console.log('✅ watchlist_shares table already exists, skipping');
+    } else {
+      console.log('Creating watchlist_shares table...');
+      await queryRunner.query(`
+        CREATE TABLE "watchlist_shares" (
+          "watchlist_share_id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "watchlist_id" uuid NOT NULL,
+          "account_id" uuid NOT NULL,
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_watchlist_shares" PRIMARY KEY ("watchlist_share_id"),
+          CONSTRAINT "FK_WATCHLIST_SHARES_WATCHLIST" FOREIGN KEY ("watchlist_id")
+            REFERENCES "watchlists"("watchlist_id") ON DELETE CASCADE,
+          CONSTRAINT "FK_WATCHLIST_SHARES_ACCOUNT" FOREIGN KEY ("account_id")
+            REFERENCES "accounts"("account_id") ON DELETE CASCADE
+        )
+      `);
+
+      await queryRunner.query(`CREATE UNIQUE INDEX "IDX_WATCHLIST_SHARES_WATCHLIST_ACCOUNT" ON "watchlist_shares" ("watchlist_id", "account_id")`);
+      await queryRunner.query(`CREATE INDEX "IDX_WATCHLIST_SHARES_ACCOUNT" ON "watchlist_shares" ("account_id")`);
+      console.log('✅ watchlist_shares table created');
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "watchlist_shares"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "watchlist_items"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "watchlists"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."watchlists_sort_direction_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."watchlists_sort_by_enum"`);
+  }
+}
@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMarketDataProviderPreferences1768700000000 implements MigrationInterface {
+  name = 'AddMarketDataProviderPreferences1768700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const tableExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'market_data_provider_preferences'
+      )
+    `);
+
+    if (tableExists[0]?.exists) {
+      console.log('✅ market_data_provider_preferences table already exists, skipping');
+      return;
+    }
+
+    console.log('Creating market_data_provider_preferences table...');
+    await queryRunner.query(`
+      CREATE TABLE "market_data_provider_preferences" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "asset_type" varchar(20) NULL,
+        "global_asset_id" uuid NULL,
+        "provider_codes" jsonb NOT NULL DEFAULT '[]',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_market_data_provider_preferences" PRIMARY KEY ("id"),
+        CONSTRAINT "CHK_MDP_PREFERENCES_TARGET" CHECK ("asset_type" IS NOT NULL OR "global_asset_id" IS NOT NULL),
+        CONSTRAINT "FK_MDP_PREFERENCES_GLOBAL_ASSET" FOREIGN KEY ("global_asset_id")
+          REFERENCES "global_assets"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_MDP_PREFERENCES_ASSET_TYPE" ON "market_data_provider_preferences" ("asset_type")
+      WHERE "global_asset_id" IS NULL
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_MDP_PREFERENCES_GLOBAL_ASSET" ON "market_data_provider_preferences" ("global_asset_id")
+      WHERE "global_asset_id" IS NOT NULL
+    `);
+    console.log('✅ market_data_provider_preferences table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "market_data_provider_preferences"`);
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAssetDailyBars1768800000000 implements MigrationInterface {
+  name = 'AddAssetDailyBars1768800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const tableExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'asset_daily_bars'
+      )
+    `);
+
+    if (tableExists[0]?.exists) {
+      console.log('✅ asset_daily_bars table already exists, skipping');
+      return;
+    }
+
+    console.log('Creating asset_daily_bars table...');
+    await queryRunner.query(`
+      CREATE TABLE "asset_daily_bars" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "asset_id" uuid NOT NULL,
+        "bar_date" date NOT NULL,
+        "open" numeric(30,10) NOT NULL,
+        "high" numeric(30,10) NOT NULL,
+        "low" numeric(30,10) NOT NULL,
+        "close" numeric(30,10) NOT NULL,
+        "volume" numeric(30,4) NOT NULL DEFAULT 0,
+        "source" varchar(50) NOT NULL,
+        "tick_count" integer NOT NULL DEFAULT 0,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_asset_daily_bars" PRIMARY KEY ("id"),
+        CONSTRAINT "CHK_ASSET_DAILY_BARS_RANGE" CHECK ("low" > 0 AND "low" <= "high"),
+        CONSTRAINT "FK_ASSET_DAILY_BARS_GLOBAL_ASSET" FOREIGN KEY ("asset_id")
+          REFERENCES "global_assets"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_ASSET_DAILY_BARS_ASSET_DATE" ON "asset_daily_bars" ("asset_id", "bar_date")
+    `);
+    console.log('✅ asset_daily_bars table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "asset_daily_bars"`);
+  }
+}
@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const SNAPSHOT_TABLES = ['portfolio_snapshots', 'asset_allocation_snapshots'];
+
+export class AddSnapshotTradingDayFlag1768900000000 implements MigrationInterface {
+  name = 'AddSnapshotTradingDayFlag1768900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const table of SNAPSHOT_TABLES) {
+      const columnExists = await queryRunner.query(`
+        SELECT EXISTS (
+          SELECT FROM information_schema.columns
+          WHERE table_schema = 'public'
+          AND table_name = '${table}'
+          AND column_name = 'is_trading_day'
+        )
+      `);
+
+      if (columnExists[0]?.exists) {
+        console.log(`✅ ${table}.is_trading_day already exists, skipping`);
+        continue;
+      }
+
+      console.log(`Adding is_trading_day column to ${table} table...`);
+      await queryRunner.query(`
+        ALTER TABLE "${table}" ADD COLUMN "is_trading_day" boolean NOT NULL DEFAULT true
+      `);
+      // Existing weekend snapshots; holidays are flagged when their snapshots are recreated
+      await queryRunner.query(`
+        UPDATE "${table}" SET "is_trading_day" = false WHERE EXTRACT(ISODOW FROM "snapshot_date") IN (6, 7)
+      `);
+      console.log(`✅ ${table}.is_trading_day added successfully`);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of SNAPSHOT_TABLES) {
+      await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN IF EXISTS "is_trading_day"`);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddQuarantinedPrices1769000000000 implements MigrationInterface {
+  name = 'AddQuarantinedPrices1769000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const tableExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'quarantined_prices'
+      )
+    `);
+
+    if (tableExists[0]?.exists) {
+      console.log('✅ quarantined_prices table already exists, skipping');
+      return;
+    }
+
+    console.log('Creating quarantined_prices table...');
+    await queryRunner.query(`
+      CREATE TABLE "quarantined_prices" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "asset_id" uuid NOT NULL,
+        "symbol" varchar(50) NOT NULL,
+        "asset_type" varchar(20) NOT NULL,
+        "market_code" varchar(20) NULL,
+        "execution_id" varchar(100) NOT NULL,
+        "price" numeric(30,10) NOT NULL,
+        "last_price" numeric(30,10) NULL,
+        "previous_close" numeric(30,10) NULL,
+        "source" varchar(50) NOT NULL,
+        "issues" jsonb NOT NULL DEFAULT '[]',
+        "status" varchar(20) NOT NULL DEFAULT 'PENDING',
+        "reviewed_by" varchar(100) NULL,
+        "reviewed_at" TIMESTAMP NULL,
+        "review_note" text NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_quarantined_prices" PRIMARY KEY ("id"),
+        CONSTRAINT "CHK_QUARANTINED_PRICES_STATUS" CHECK ("status" IN ('PENDING', 'APPROVED', 'REJECTED', 'SUPERSEDED')),
+        CONSTRAINT "FK_QUARANTINED_PRICES_GLOBAL_ASSET" FOREIGN KEY ("asset_id")
+          REFERENCES "global_assets"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_QUARANTINED_PRICES_STATUS_CREATED" ON "quarantined_prices" ("status", "created_at")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_QUARANTINED_PRICES_EXECUTION" ON "quarantined_prices" ("execution_id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_QUARANTINED_PRICES_ASSET" ON "quarantined_prices" ("asset_id")
+    `);
+    console.log('✅ quarantined_prices table created');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "quarantined_prices"`);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddFundOrderSettlingStatus1769100000000 implements MigrationInterface {
+  name = 'AddFundOrderSettlingStatus1769100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const enumExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM pg_type
+        WHERE typname = 'fund_orders_status_enum'
+      )
+    `);
+
+    if (!enumExists[0]?.exists) {
+      console.log('fund_orders_status_enum does not exist, skipping');
+      return;
+    }
+
+    console.log('Adding SETTLING to fund_orders_status_enum...');
+    await queryRunner.query(`ALTER TYPE "public"."fund_orders_status_enum" ADD VALUE IF NOT EXISTS 'SETTLING' AFTER 'PRICED'`);
+    console.log('✅ SETTLING status added successfully');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // PostgreSQL cannot drop an enum value; orders left settling go back to priced
+    await queryRunner.query(`UPDATE "fund_orders" SET "status" = 'PRICED' WHERE "status" = 'SETTLING'`);
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRefreshTokenGraceWindow1769200000000 implements MigrationInterface {
+  name = 'AddRefreshTokenGraceWindow1769200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const columnExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'user_sessions'
+        AND column_name = 'previous_refresh_token_hash'
+      )
+    `);
+
+    if (columnExists[0]?.exists) {
+      console.log('✅ user_sessions refresh token rotation columns already exist, skipping');
+      return;
+    }
+
+    console.log('Adding refresh token rotation columns to user_sessions table...');
+    await queryRunner.query(`
+      ALTER TABLE "user_sessions"
+      ADD COLUMN "previous_refresh_token_hash" character varying(64) NULL,
+      ADD COLUMN "refresh_token_rotated_at" TIMESTAMP NULL
+    `);
+    console.log('✅ user_sessions refresh token rotation columns added successfully');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "user_sessions"
+      DROP COLUMN IF EXISTS "refresh_token_rotated_at",
+      DROP COLUMN IF EXISTS "previous_refresh_token_hash"
+    `);
+  }
+}
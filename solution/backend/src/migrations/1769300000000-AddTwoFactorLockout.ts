@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTwoFactorLockout1769300000000 implements MigrationInterface {
+  name = 'AddTwoFactorLockout1769300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const columnExists = await queryRunner.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'users'
+        AND column_name = 'two_factor_failed_attempts'
+      )
+    `);
+
+    if (columnExists[0]?.exists) {
+      console.log('✅ users two-factor lockout columns already exist, skipping');
+      return;
+    }
+
+    console.log('Adding two-factor lockout columns to users table...');
+    await queryRunner.query(`
+      ALTER TABLE "users"
+      ADD COLUMN "two_factor_failed_attempts" integer NOT NULL DEFAULT 0,
+      ADD COLUMN "two_factor_locked_until" TIMESTAMP NULL
+    `);
+    console.log('✅ users two-factor lockout columns added successfully');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users"
+      DROP COLUMN IF EXISTS "two_factor_locked_until",
+      DROP COLUMN IF EXISTS "two_factor_failed_attempts"
+    `);
+  }
+}
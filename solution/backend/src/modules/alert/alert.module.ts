@@ -0,0 +1,43 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AlertRule } from './entities/alert-rule.entity';
+import { AlertEvent } from './entities/alert-event.entity';
+import { GlobalAsset } from '../asset/entities/global-asset.entity';
+import { AssetPriceHistory } from '../asset/entities/asset-price-history.entity';
+import { Portfolio } from '../portfolio/entities/portfolio.entity';
+import { PortfolioSnapshot } from '../portfolio/entities/portfolio-snapshot.entity';
+import { Deposit } from '../portfolio/entities/deposit.entity';
+import { Account } from '../shared/entities/account.entity';
+import { AlertRuleController } from './controllers/alert-rule.controller';
+import { AlertRuleService } from './services/alert-rule.service';
+import { AlertEvaluatorService } from './services/alert-evaluator.service';
+import { PriceAlertListener } from './listeners/price-alert.listener';
+import { PortfolioModule } from '../portfolio/portfolio.module';
+import { SharedModule } from '../shared/shared.module';
+import { NotificationModule } from '../../notification/notification.module';
+
+/**
+ * Alert module for user-defined price, position, drawdown and deposit maturity alerts,
+ * evaluated after every price sync.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      AlertRule,
+      AlertEvent,
+      GlobalAsset,
+      AssetPriceHistory,
+      Portfolio,
+      PortfolioSnapshot,
+      Deposit,
+      Account,
+    ]),
+    forwardRef(() => PortfolioModule),
+    SharedModule,
+    NotificationModule,
+  ],
+  controllers: [AlertRuleController],
+  providers: [AlertRuleService, AlertEvaluatorService, PriceAlertListener],
+  exports: [AlertRuleService, AlertEvaluatorService],
+})
+export class AlertModule {}
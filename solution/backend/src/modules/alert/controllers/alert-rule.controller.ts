@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { AlertRuleService } from '../services/alert-rule.service';
+import { AlertEvaluatorService } from '../services/alert-evaluator.service';
+import { AccountValidationService } from '../../shared/services/account-validation.service';
+import { AlertRule } from '../entities/alert-rule.entity';
+import { AlertEvent } from '../entities/alert-event.entity';
+import {
+  CreateAlertRuleDto,
+  UpdateAlertRuleDto,
+  SnoozeAlertRuleDto,
+  AlertEvaluationSummary,
+} from '../dto/alert-rule.dto';
+
+/**
+ * Controller for the alert rules of an account and their trigger history.
+ */
+@ApiTags('Alerts')
+@Controller('api/v1/alerts')
+export class AlertRuleController {
+  constructor(
+    private readonly alertRuleService: AlertRuleService,
+    private readonly alertEvaluatorService: AlertEvaluatorService,
+    private readonly accountValidationService: AccountValidationService,
+  ) {}
+
+  /**
+   * Get the alert rules of an account
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the alert rules of an account' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Alert rules retrieved successfully', type: [AlertRule] })
+  async getRules(@Query('accountId') accountId: string): Promise<AlertRule[]> {
+    await this.assertAccount(accountId);
+    return this.alertRuleService.getRules(accountId);
+  }
+
+  /**
+   * Create an alert rule
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create an alert rule',
+    description: 'Price, daily move, position value, portfolio drawdown or deposit maturity alert.',
+  })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: CreateAlertRuleDto })
+  @ApiResponse({ status: 201, description: 'Alert rule created successfully', type: AlertRule })
+  @ApiResponse({ status: 400, description: 'Invalid alert rule' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  async createRule(
+    @Query('accountId') accountId: string,
+    @Body() createDto: CreateAlertRuleDto,
+  ): Promise<AlertRule> {
+    await this.assertAccount(accountId);
+    return this.alertRuleService.createRule(accountId, createDto);
+  }
+
+  /**
+   * Get delivered alerts, newest first
+   */
+  @Get('events')
+  @ApiOperation({ summary: 'Get the alert history of an account' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiQuery({ name: 'ruleId', required: false, description: 'Only events of this rule' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Maximum number of events (default 50)' })
+  @ApiResponse({ status: 200, description: 'Alert history retrieved successfully', type: [AlertEvent] })
+  async getEvents(
+    @Query('accountId') accountId: string,
+    @Query('ruleId') ruleId?: string,
+    @Query('limit') limit?: string,
+  ): Promise<AlertEvent[]> {
+    await this.assertAccount(accountId);
+    return this.alertRuleService.getEvents(accountId, ruleId, limit ? parseInt(limit, 10) || 50 : 50);
+  }
+
+  /**
+   * Evaluate the rules of an account now instead of waiting for the next price sync
+   */
+  @Post('evaluate')
+  @ApiOperation({ summary: 'Evaluate the alert rules of an account now' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Alert rules evaluated' })
+  async evaluate(@Query('accountId') accountId: string): Promise<AlertEvaluationSummary> {
+    await this.assertAccount(accountId);
+    return this.alertEvaluatorService.evaluateRules(accountId);
+  }
+
+  /**
+   * Update an alert rule
+   */
+  @Put(':ruleId')
+  @ApiOperation({ summary: 'Update an alert rule' })
+  @ApiParam({ name: 'ruleId', description: 'Alert rule ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: UpdateAlertRuleDto })
+  @ApiResponse({ status: 200, description: 'Alert rule updated successfully', type: AlertRule })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  async updateRule(
+    @Param('ruleId', ParseUUIDPipe) ruleId: string,
+    @Query('accountId') accountId: string,
+    @Body() updateDto: UpdateAlertRuleDto,
+  ): Promise<AlertRule> {
+    await this.assertAccount(accountId);
+    return this.alertRuleService.updateRule(accountId, ruleId, updateDto);
+  }
+
+  /**
+   * Delete an alert rule
+   */
+  @Delete(':ruleId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an alert rule and its history' })
+  @ApiParam({ name: 'ruleId', description: 'Alert rule ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 204, description: 'Alert rule deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  async deleteRule(
+    @Param('ruleId', ParseUUIDPipe) ruleId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<void> {
+    await this.assertAccount(accountId);
+    await this.alertRuleService.deleteRule(accountId, ruleId);
+  }
+
+  /**
+   * Snooze an alert rule
+   */
+  @Post(':ruleId/snooze')
+  @ApiOperation({ summary: 'Snooze an alert rule until a date or for a number of minutes' })
+  @ApiParam({ name: 'ruleId', description: 'Alert rule ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: SnoozeAlertRuleDto })
+  @ApiResponse({ status: 200, description: 'Alert rule snoozed', type: AlertRule })
+  @ApiResponse({ status: 400, description: 'Invalid snooze time' })
+  async snoozeRule(
+    @Param('ruleId', ParseUUIDPipe) ruleId: string,
+    @Query('accountId') accountId: string,
+    @Body() snoozeDto: SnoozeAlertRuleDto,
+  ): Promise<AlertRule> {
+    await this.assertAccount(accountId);
+    return this.alertRuleService.snoozeRule(accountId, ruleId, snoozeDto);
+  }
+
+  /**
+   * Clear the snooze of an alert rule
+   */
+  @Delete(':ruleId/snooze')
+  @ApiOperation({ summary: 'Clear the snooze of an alert rule' })
+  @ApiParam({ name: 'ruleId', description: 'Alert rule ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Snooze cleared', type: AlertRule })
+  async unsnoozeRule(
+    @Param('ruleId', ParseUUIDPipe) ruleId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<AlertRule> {
+    await this.assertAccount(accountId);
+    return this.alertRuleService.unsnoozeRule(accountId, ruleId);
+  }
+
+  private async assertAccount(accountId: string): Promise<void> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+    await this.accountValidationService.validateAccountOwnership(accountId, accountId);
+  }
+}
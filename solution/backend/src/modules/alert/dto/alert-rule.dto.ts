@@ -0,0 +1,116 @@
+import {
+  IsUUID,
+  IsEnum,
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsDateString,
+  IsBoolean,
+  IsInt,
+  IsArray,
+  ArrayNotEmpty,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType, OmitType } from '@nestjs/swagger';
+import { AlertRuleType, AlertChannel } from '../entities/alert-rule.entity';
+
+export const SYMBOL_ALERT_RULE_TYPES = [
+  AlertRuleType.PRICE_ABOVE,
+  AlertRuleType.PRICE_BELOW,
+  AlertRuleType.DAILY_MOVE_PERCENT,
+  AlertRuleType.POSITION_VALUE_ABOVE,
+  AlertRuleType.POSITION_VALUE_BELOW,
+];
+
+export const PORTFOLIO_ALERT_RULE_TYPES = [
+  AlertRuleType.POSITION_VALUE_ABOVE,
+  AlertRuleType.POSITION_VALUE_BELOW,
+  AlertRuleType.PORTFOLIO_DRAWDOWN,
+];
+
+/**
+ * Data Transfer Object for creating an alert rule.
+ * Price and daily move rules need a symbol, position rules a symbol and a portfolio,
+ * drawdown rules a portfolio; deposit rules take an optional portfolio.
+ */
+export class CreateAlertRuleDto {
+  @ApiProperty({ description: 'Condition to watch', enum: AlertRuleType })
+  @IsEnum(AlertRuleType, { message: 'Invalid rule type' })
+  ruleType: AlertRuleType;
+
+  @ApiProperty({
+    description: 'Price or position value, percent move or drawdown, or days before deposit maturity',
+    example: 30000,
+  })
+  @IsNumber({}, { message: 'Threshold must be a number' })
+  @Min(0, { message: 'Threshold must not be negative' })
+  threshold: number;
+
+  @ApiPropertyOptional({ description: 'Asset symbol (price, daily move and position rules)', example: 'HPG' })
+  @IsOptional()
+  @IsString({ message: 'Symbol must be a string' })
+  @MaxLength(50, { message: 'Symbol must not exceed 50 characters' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  symbol?: string;
+
+  @ApiPropertyOptional({ description: 'Portfolio (position, drawdown and deposit rules)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID(4, { message: 'Portfolio ID must be a valid UUID' })
+  portfolioId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Delivery channels',
+    enum: AlertChannel,
+    isArray: true,
+    default: [AlertChannel.IN_APP],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Channels must be an array' })
+  @ArrayNotEmpty({ message: 'At least one channel is required' })
+  @IsEnum(AlertChannel, { each: true, message: 'Channel must be IN_APP or EMAIL' })
+  channels?: AlertChannel[];
+
+  @ApiPropertyOptional({ description: 'Minimum minutes between two deliveries', default: 1440 })
+  @IsOptional()
+  @IsInt({ message: 'Cooldown must be an integer' })
+  @Min(0, { message: 'Cooldown must not be negative' })
+  @Max(525600, { message: 'Cooldown must not exceed one year' })
+  cooldownMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Note shown with the alert' })
+  @IsOptional()
+  @IsString({ message: 'Note must be a string' })
+  note?: string;
+}
+
+export class UpdateAlertRuleDto extends PartialType(OmitType(CreateAlertRuleDto, ['ruleType'] as const)) {
+  @ApiPropertyOptional({ description: 'Pause or resume the rule' })
+  @IsOptional()
+  @IsBoolean({ message: 'isActive must be a boolean' })
+  isActive?: boolean;
+}
+
+/**
+ * Snooze an alert rule until a date, or for a number of minutes
+ */
+export class SnoozeAlertRuleDto {
+  @ApiPropertyOptional({ description: 'Snooze until this time (ISO 8601)', example: '2024-06-15T09:00:00Z' })
+  @IsOptional()
+  @IsDateString({}, { message: 'Snoozed until must be a valid date' })
+  until?: string;
+
+  @ApiPropertyOptional({ description: 'Snooze for this many minutes', example: 1440 })
+  @IsOptional()
+  @IsInt({ message: 'Minutes must be an integer' })
+  @Min(1, { message: 'Minutes must be at least 1' })
+  minutes?: number;
+}
+
+export interface AlertEvaluationSummary {
+  evaluated: number;
+  triggered: number;
+  delivered: number;
+}
@@ -0,0 +1,64 @@
+import { AlertRuleEngine } from './alert-rule-engine';
+import { AlertRuleType } from '../entities/alert-rule.entity';
+
+describe('AlertRuleEngine', () => {
+  let engine: AlertRuleEngine;
+
+  beforeEach(() => {
+    engine = new AlertRuleEngine();
+  });
+
+  describe('evaluate', () => {
+    it('should trigger price rules on the threshold', () => {
+      expect(engine.evaluate({ ruleType: AlertRuleType.PRICE_ABOVE, threshold: 30000 }, { value: 30000 }))
+        .toEqual({ triggered: true, observedValue: 30000 });
+      expect(engine.evaluate({ ruleType: AlertRuleType.PRICE_BELOW, threshold: 30000 }, { value: 30500 }).triggered)
+        .toBe(false);
+      expect(engine.evaluate({ ruleType: AlertRuleType.POSITION_VALUE_BELOW, threshold: 1000000 }, { value: 900000 }).triggered)
+        .toBe(true);
+    });
+
+    it('should trigger daily moves in both directions', () => {
+      const condition = { ruleType: AlertRuleType.DAILY_MOVE_PERCENT, threshold: 5 };
+
+      expect(engine.evaluate(condition, { value: 94, reference: 100 })).toEqual({ triggered: true, observedValue: -6 });
+      expect(engine.evaluate(condition, { value: 104, reference: 100 })).toEqual({ triggered: false, observedValue: 4 });
+      expect(engine.evaluate(condition, { value: 104, reference: null }).triggered).toBe(false);
+    });
+
+    it('should measure drawdown from the peak value', () => {
+      const condition = { ruleType: AlertRuleType.PORTFOLIO_DRAWDOWN, threshold: 10 };
+
+      expect(engine.evaluate(condition, { value: 85, reference: 100 })).toEqual({ triggered: true, observedValue: 15 });
+      // A new high is its own peak
+      expect(engine.evaluate(condition, { value: 120, reference: 100 })).toEqual({ triggered: false, observedValue: 0 });
+    });
+
+    it('should trigger deposits maturing within the threshold days', () => {
+      const condition = { ruleType: AlertRuleType.DEPOSIT_MATURING, threshold: 7 };
+
+      expect(engine.evaluate(condition, { value: 3 }).triggered).toBe(true);
+      expect(engine.evaluate(condition, { value: 10 }).triggered).toBe(false);
+      expect(engine.evaluate(condition, { value: null }).triggered).toBe(false);
+    });
+  });
+
+  describe('shouldDeliver', () => {
+    const now = new Date('2024-06-10T10:00:00Z');
+
+    it('should hold back alerts inside the cooldown', () => {
+      const state = { isActive: true, cooldownMinutes: 60, lastTriggeredAt: new Date('2024-06-10T09:30:00Z') };
+
+      expect(engine.shouldDeliver(state, now)).toBe(false);
+      expect(engine.shouldDeliver({ ...state, cooldownMinutes: 15 }, now)).toBe(true);
+    });
+
+    it('should hold back snoozed and inactive rules', () => {
+      expect(engine.shouldDeliver({ isActive: true, cooldownMinutes: 0, snoozedUntil: new Date('2024-06-11T00:00:00Z') }, now))
+        .toBe(false);
+      expect(engine.shouldDeliver({ isActive: true, cooldownMinutes: 0, snoozedUntil: new Date('2024-06-09T00:00:00Z') }, now))
+        .toBe(true);
+      expect(engine.shouldDeliver({ isActive: false, cooldownMinutes: 0 }, now)).toBe(false);
+    });
+  });
+});
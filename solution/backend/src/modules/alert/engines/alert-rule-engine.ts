@@ -0,0 +1,102 @@
+import { AlertRuleType } from '../entities/alert-rule.entity';
+
+export interface AlertCondition {
+  ruleType: AlertRuleType;
+  threshold: number;
+}
+
+export interface AlertDeliveryState {
+  isActive: boolean;
+  cooldownMinutes: number;
+  snoozedUntil?: Date | null;
+  lastTriggeredAt?: Date | null;
+}
+
+export interface AlertObservation {
+  /** Current price, position value, portfolio value, or days until the nearest deposit maturity */
+  value: number | null;
+  /** Previous close for daily moves, peak portfolio value for drawdowns */
+  reference?: number | null;
+}
+
+export interface AlertEvaluation {
+  triggered: boolean;
+  /** Value compared with the threshold: the observed value, or the move / drawdown in percent */
+  observedValue: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class AlertRuleEngine {
+  /**
+   * Compare an observation with the threshold of a rule
+   * @param condition Rule type and threshold
+   * @param observation Values gathered for the rule
+   */
+  evaluate(condition: AlertCondition, observation: AlertObservation): AlertEvaluation {
+    const threshold = Number(condition.threshold);
+    const value = observation.value === null || observation.value === undefined ? null : Number(observation.value);
+    if (value === null || !isFinite(value)) {
+      return { triggered: false, observedValue: null };
+    }
+
+    switch (condition.ruleType) {
+      case AlertRuleType.PRICE_ABOVE:
+      case AlertRuleType.POSITION_VALUE_ABOVE:
+        return { triggered: value >= threshold, observedValue: value };
+
+      case AlertRuleType.PRICE_BELOW:
+      case AlertRuleType.POSITION_VALUE_BELOW:
+        return { triggered: value <= threshold, observedValue: value };
+
+      case AlertRuleType.DAILY_MOVE_PERCENT: {
+        const previousClose = Number(observation.reference);
+        if (!previousClose || previousClose <= 0) {
+          return { triggered: false, observedValue: null };
+        }
+        const movePercent = this.round(((value - previousClose) / previousClose) * 100);
+        return { triggered: Math.abs(movePercent) >= Math.abs(threshold), observedValue: movePercent };
+      }
+
+      case AlertRuleType.PORTFOLIO_DRAWDOWN: {
+        const peak = Math.max(Number(observation.reference) || 0, value);
+        if (peak <= 0) {
+          return { triggered: false, observedValue: null };
+        }
+        const drawdownPercent = this.round(((peak - value) / peak) * 100);
+        return { triggered: drawdownPercent >= threshold, observedValue: drawdownPercent };
+      }
+
+      case AlertRuleType.DEPOSIT_MATURING:
+        return { triggered: value >= 0 && value <= threshold, observedValue: value };
+
+      default:
+        return { triggered: false, observedValue: value };
+    }
+  }
+
+  /**
+   * Whether a triggered rule may be delivered now: active, not snoozed and out of its cooldown
+   * @param state Delivery state of the rule
+   * @param now Evaluation time
+   */
+  shouldDeliver(state: AlertDeliveryState, now: Date): boolean {
+    if (!state.isActive) {
+      return false;
+    }
+    if (state.snoozedUntil && new Date(state.snoozedUntil).getTime() > now.getTime()) {
+      return false;
+    }
+    if (state.lastTriggeredAt) {
+      const cooldownEnds = new Date(state.lastTriggeredAt).getTime() + (state.cooldownMinutes || 0) * MINUTE_MS;
+      if (cooldownEnds > now.getTime()) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { AlertRule, AlertChannel } from './alert-rule.entity';
+
+/**
+ * Delivered alert, kept as the trigger history of a rule.
+ */
+@Entity('alert_events')
+@Index(['alertRuleId', 'triggeredAt'])
+@Index(['accountId', 'triggeredAt'])
+export class AlertEvent {
+  @PrimaryGeneratedColumn('uuid', { name: 'alert_event_id' })
+  alertEventId: string;
+
+  @Column('uuid', { name: 'alert_rule_id' })
+  alertRuleId: string;
+
+  @Column('uuid', { name: 'account_id' })
+  accountId: string;
+
+  @Column('decimal', { precision: 20, scale: 4, nullable: true, name: 'observed_value' })
+  observedValue?: number | null;
+
+  @Column('decimal', { precision: 20, scale: 4, name: 'threshold' })
+  threshold: number;
+
+  @Column('varchar', { length: 255, name: 'title' })
+  title: string;
+
+  @Column('text', { name: 'message' })
+  message: string;
+
+  /**
+   * Channels the alert was actually delivered through
+   */
+  @Column('simple-array', { nullable: true, name: 'delivered_channels' })
+  deliveredChannels?: AlertChannel[] | null;
+
+  @Column('jsonb', { nullable: true, name: 'metadata' })
+  metadata?: Record<string, any> | null;
+
+  @CreateDateColumn({ name: 'triggered_at' })
+  triggeredAt: Date;
+
+  // Relationships
+  @ManyToOne(() => AlertRule, (rule) => rule.events, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'alert_rule_id' })
+  alertRule: AlertRule;
+}
@@ -0,0 +1,114 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Account } from '../../shared/entities/account.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { AlertEvent } from './alert-event.entity';
+
+export enum AlertRuleType {
+  PRICE_ABOVE = 'PRICE_ABOVE',
+  PRICE_BELOW = 'PRICE_BELOW',
+  DAILY_MOVE_PERCENT = 'DAILY_MOVE_PERCENT',
+  POSITION_VALUE_ABOVE = 'POSITION_VALUE_ABOVE',
+  POSITION_VALUE_BELOW = 'POSITION_VALUE_BELOW',
+  PORTFOLIO_DRAWDOWN = 'PORTFOLIO_DRAWDOWN',
+  DEPOSIT_MATURING = 'DEPOSIT_MATURING',
+}
+
+export enum AlertChannel {
+  IN_APP = 'IN_APP',
+  EMAIL = 'EMAIL',
+}
+
+/**
+ * User-defined alert rule, evaluated after every price sync.
+ * The meaning of threshold depends on the rule type: a price, a position value, a percentage or a number of days.
+ */
+@Entity('alert_rules')
+@Index(['accountId'])
+@Index(['isActive'])
+export class AlertRule {
+  @PrimaryGeneratedColumn('uuid', { name: 'alert_rule_id' })
+  alertRuleId: string;
+
+  @Column('uuid', { name: 'account_id' })
+  accountId: string;
+
+  /**
+   * Portfolio watched by position, drawdown and deposit rules; deposit rules without one watch every portfolio of the account
+   */
+  @Column('uuid', { nullable: true, name: 'portfolio_id' })
+  portfolioId?: string | null;
+
+  /**
+   * Asset symbol watched by price, daily move and position rules
+   */
+  @Column('varchar', { length: 50, nullable: true, name: 'symbol' })
+  symbol?: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: AlertRuleType,
+    name: 'rule_type'
+  })
+  ruleType: AlertRuleType;
+
+  @Column('decimal', { precision: 20, scale: 4, name: 'threshold' })
+  threshold: number;
+
+  @Column('simple-array', { name: 'channels' })
+  channels: AlertChannel[];
+
+  /**
+   * Minimum time between two deliveries of the same rule
+   */
+  @Column('int', { default: 1440, name: 'cooldown_minutes' })
+  cooldownMinutes: number;
+
+  @Column('timestamp', { nullable: true, name: 'snoozed_until' })
+  snoozedUntil?: Date | null;
+
+  @Column('timestamp', { nullable: true, name: 'last_triggered_at' })
+  lastTriggeredAt?: Date | null;
+
+  /**
+   * Value observed at the last evaluation
+   */
+  @Column('decimal', { precision: 20, scale: 4, nullable: true, name: 'last_value' })
+  lastValue?: number | null;
+
+  @Column('timestamp', { nullable: true, name: 'last_evaluated_at' })
+  lastEvaluatedAt?: Date | null;
+
+  @Column('boolean', { default: true, name: 'is_active' })
+  isActive: boolean;
+
+  @Column('text', { nullable: true, name: 'note' })
+  note?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Account, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'account_id' })
+  account: Account;
+
+  @ManyToOne(() => Portfolio, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'portfolio_id' })
+  portfolio?: Portfolio;
+
+  @OneToMany(() => AlertEvent, (event) => event.alertRule)
+  events: AlertEvent[];
+}
@@ -0,0 +1,30 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { AlertEvaluatorService } from '../services/alert-evaluator.service';
+import { PricesSyncedEvent } from '../../asset/events/prices-synced.event';
+
+/**
+ * Evaluates alert rules whenever a price sync has written new prices.
+ */
+@Injectable()
+export class PriceAlertListener {
+  private readonly logger = new Logger(PriceAlertListener.name);
+
+  constructor(
+    private readonly alertEvaluatorService: AlertEvaluatorService,
+  ) {}
+
+  /**
+   * Handle a completed price sync
+   * @param event - PricesSyncedEvent of the sync
+   */
+  @OnEvent('prices.synced', { async: true })
+  async handlePricesSynced(event: PricesSyncedEvent): Promise<void> {
+    try {
+      await this.alertEvaluatorService.evaluateRules();
+    } catch (error) {
+      this.logger.error(`Failed to evaluate alerts after sync ${event.syncId}: ${error.message}`);
+      // Don't throw error - alert evaluation should not fail the price sync
+    }
+  }
+}
@@ -0,0 +1,377 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, LessThan, MoreThanOrEqual } from 'typeorm';
+import * as moment from 'moment-timezone';
+import { AlertRule, AlertRuleType, AlertChannel } from '../entities/alert-rule.entity';
+import { AlertEvent } from '../entities/alert-event.entity';
+import { AlertRuleEngine, AlertObservation, AlertEvaluation } from '../engines/alert-rule-engine';
+import { AlertEvaluationSummary } from '../dto/alert-rule.dto';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+import { AssetPriceHistory } from '../../asset/entities/asset-price-history.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { PortfolioSnapshot } from '../../portfolio/entities/portfolio-snapshot.entity';
+import { Deposit } from '../../portfolio/entities/deposit.entity';
+import { Account } from '../../shared/entities/account.entity';
+import { PortfolioCalculationService, PortfolioAssetPosition } from '../../portfolio/services/portfolio-calculation.service';
+import { PortfolioValueCalculatorService } from '../../portfolio/services/portfolio-value-calculator.service';
+import { NotificationGateway } from '../../../notification/notification.gateway';
+import { EmailService } from '../../../notification/email.service';
+
+interface ObservedRule {
+  observation: AlertObservation;
+  /** Extra details shown in the alert message and stored with the event */
+  details: Record<string, any>;
+}
+
+/**
+ * Per-run cache so that rules sharing a symbol or a portfolio load its data once
+ */
+interface EvaluationContext {
+  prices: Map<string, { globalAsset: GlobalAsset | null; previousClose?: number | null }>;
+  positions: Map<string, { baseCurrency: string; positions: PortfolioAssetPosition[] }>;
+  portfolios: Map<string, Portfolio | null>;
+  startOfToday: Date;
+}
+
+/**
+ * Evaluates active alert rules against the latest prices and portfolio values,
+ * and delivers the triggered ones in-app and by email.
+ */
+@Injectable()
+export class AlertEvaluatorService {
+  private readonly logger = new Logger(AlertEvaluatorService.name);
+  private readonly engine = new AlertRuleEngine();
+  private readonly timezone: string;
+  private isRunning = false;
+
+  constructor(
+    @InjectRepository(AlertRule)
+    private readonly alertRuleRepository: Repository<AlertRule>,
+    @InjectRepository(AlertEvent)
+    private readonly alertEventRepository: Repository<AlertEvent>,
+    @InjectRepository(GlobalAsset)
+    private readonly globalAssetRepository: Repository<GlobalAsset>,
+    @InjectRepository(AssetPriceHistory)
+    private readonly assetPriceHistoryRepository: Repository<AssetPriceHistory>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    @InjectRepository(PortfolioSnapshot)
+    private readonly portfolioSnapshotRepository: Repository<PortfolioSnapshot>,
+    @InjectRepository(Deposit)
+    private readonly depositRepository: Repository<Deposit>,
+    @InjectRepository(Account)
+    private readonly accountRepository: Repository<Account>,
+    private readonly portfolioCalculationService: PortfolioCalculationService,
+    private readonly portfolioValueCalculatorService: PortfolioValueCalculatorService,
+    private readonly notificationGateway: NotificationGateway,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {
+    this.timezone = this.configService.get<string>('ALERT_TIMEZONE', 'Asia/Ho_Chi_Minh');
+  }
+
+  /**
+   * Evaluate active alert rules and deliver the triggered ones
+   * @param accountId Only evaluate the rules of this account
+   */
+  async evaluateRules(accountId?: string): Promise<AlertEvaluationSummary> {
+    const summary: AlertEvaluationSummary = { evaluated: 0, triggered: 0, delivered: 0 };
+    const allAccounts = !accountId;
+    if (allAccounts && this.isRunning) {
+      this.logger.warn('Alert evaluation already running, skipping');
+      return summary;
+    }
+
+    if (allAccounts) {
+      this.isRunning = true;
+    }
+    try {
+      const rules = await this.alertRuleRepository.find({
+        where: accountId ? { isActive: true, accountId } : { isActive: true },
+      });
+      const context: EvaluationContext = {
+        prices: new Map(),
+        positions: new Map(),
+        portfolios: new Map(),
+        startOfToday: moment.tz(this.timezone).startOf('day').toDate(),
+      };
+      const now = new Date();
+
+      for (const rule of rules) {
+        try {
+          const observed = await this.observe(rule, context);
+          const evaluation = this.engine.evaluate(
+            { ruleType: rule.ruleType, threshold: Number(rule.threshold) },
+            observed.observation,
+          );
+          summary.evaluated++;
+
+          rule.lastValue = evaluation.observedValue;
+          rule.lastEvaluatedAt = now;
+
+          if (evaluation.triggered) {
+            summary.triggered++;
+            if (this.engine.shouldDeliver(rule, now)) {
+              await this.deliver(rule, evaluation, observed.details);
+              rule.lastTriggeredAt = now;
+              summary.delivered++;
+            }
+          }
+
+          await this.alertRuleRepository.update(rule.alertRuleId, {
+            lastValue: rule.lastValue,
+            lastEvaluatedAt: rule.lastEvaluatedAt,
+            lastTriggeredAt: rule.lastTriggeredAt,
+          });
+        } catch (error) {
+          this.logger.error(`Failed to evaluate alert rule ${rule.alertRuleId}: ${error.message}`);
+        }
+      }
+
+      if (summary.triggered > 0) {
+        this.logger.log(
+          `Evaluated ${summary.evaluated} alert rules: ${summary.triggered} triggered, ${summary.delivered} delivered`,
+        );
+      }
+      return summary;
+    } finally {
+      if (allAccounts) {
+        this.isRunning = false;
+      }
+    }
+  }
+
+  private async observe(rule: AlertRule, context: EvaluationContext): Promise<ObservedRule> {
+    switch (rule.ruleType) {
+      case AlertRuleType.PRICE_ABOVE:
+      case AlertRuleType.PRICE_BELOW: {
+        const { globalAsset } = await this.getPrice(rule.symbol, context);
+        const price = globalAsset?.assetPrice ? Number(globalAsset.assetPrice.currentPrice) : null;
+        return { observation: { value: price }, details: { symbol: rule.symbol, currency: globalAsset?.currency } };
+      }
+
+      case AlertRuleType.DAILY_MOVE_PERCENT: {
+        const entry = await this.getPrice(rule.symbol, context);
+        const price = entry.globalAsset?.assetPrice ? Number(entry.globalAsset.assetPrice.currentPrice) : null;
+        if (entry.previousClose === undefined && entry.globalAsset) {
+          const record = await this.assetPriceHistoryRepository.findOne({
+            where: { assetId: entry.globalAsset.id, createdAt: LessThan(context.startOfToday) },
+            order: { createdAt: 'DESC' },
+          });
+          entry.previousClose = record ? Number(record.price) : null;
+        }
+        return {
+          observation: { value: price, reference: entry.previousClose ?? null },
+          details: { symbol: rule.symbol, currency: entry.globalAsset?.currency, price, previousClose: entry.previousClose },
+        };
+      }
+
+      case AlertRuleType.POSITION_VALUE_ABOVE:
+      case AlertRuleType.POSITION_VALUE_BELOW: {
+        const holdings = await this.getPositions(rule.portfolioId, context);
+        const position = holdings.positions.find((p) => p.symbol === rule.symbol && Number(p.quantity) > 0);
+        return {
+          observation: { value: position ? Number(position.currentValue) : null },
+          details: { symbol: rule.symbol, portfolioId: rule.portfolioId, currency: holdings.baseCurrency },
+        };
+      }
+
+      case AlertRuleType.PORTFOLIO_DRAWDOWN: {
+        const portfolio = await this.getPortfolio(rule.portfolioId, context);
+        const currentValue = await this.portfolioValueCalculatorService.calculateTotalValue(rule.portfolioId);
+        const peak = await this.portfolioSnapshotRepository
+          .createQueryBuilder('snapshot')
+          .select('MAX(snapshot.totalPortfolioValue)', 'peak')
+          .where('snapshot.portfolioId = :portfolioId', { portfolioId: rule.portfolioId })
+          .getRawOne();
+        const peakValue = Math.max(Number(peak?.peak) || 0, currentValue);
+        return {
+          observation: { value: currentValue, reference: peakValue },
+          details: {
+            portfolioId: rule.portfolioId,
+            portfolioName: portfolio?.name,
+            currency: portfolio?.baseCurrency,
+            currentValue,
+            peakValue,
+          },
+        };
+      }
+
+      case AlertRuleType.DEPOSIT_MATURING: {
+        const portfolioIds = rule.portfolioId
+          ? [rule.portfolioId]
+          : (await this.portfolioRepository.find({ where: { accountId: rule.accountId }, select: ['portfolioId'] }))
+              .map((p) => p.portfolioId);
+        if (portfolioIds.length === 0) {
+          return { observation: { value: null }, details: {} };
+        }
+
+        const startOfToday = moment.tz(this.timezone).startOf('day');
+        const today = startOfToday.format('YYYY-MM-DD');
+        const deposits = await this.depositRepository.find({
+          where: { portfolioId: In(portfolioIds), status: 'ACTIVE', endDate: MoreThanOrEqual(startOfToday.toDate()) },
+          order: { endDate: 'ASC' },
+        });
+        const maturing = deposits
+          .map((deposit) => ({ deposit, days: this.daysBetween(today, deposit.endDate) }))
+          .filter((item) => item.days <= Number(rule.threshold));
+
+        return {
+          observation: { value: deposits.length > 0 ? this.daysBetween(today, deposits[0].endDate) : null },
+          details: {
+            deposits: maturing.map(({ deposit, days }) => ({
+              depositId: deposit.depositId,
+              portfolioId: deposit.portfolioId,
+              bankName: deposit.bankName,
+              principal: Number(deposit.principal),
+              endDate: moment(deposit.endDate).format('YYYY-MM-DD'),
+              daysUntilMaturity: days,
+            })),
+          },
+        };
+      }
+
+      default:
+        return { observation: { value: null }, details: {} };
+    }
+  }
+
+  private async deliver(rule: AlertRule, evaluation: AlertEvaluation, details: Record<string, any>): Promise<void> {
+    const { title, message } = this.describe(rule, evaluation, details);
+    const deliveredChannels: AlertChannel[] = [];
+    const metadata = { alertRuleId: rule.alertRuleId, ruleType: rule.ruleType, observedValue: evaluation.observedValue, ...details };
+
+    if (rule.channels.includes(AlertChannel.IN_APP)) {
+      try {
+        await this.notificationGateway.sendNotification(
+          rule.accountId,
+          rule.symbol ? 'market' : 'portfolio',
+          title,
+          message,
+          '/alerts',
+          metadata,
+        );
+        deliveredChannels.push(AlertChannel.IN_APP);
+      } catch (error) {
+        this.logger.error(`Failed to send in-app alert for rule ${rule.alertRuleId}: ${error.message}`);
+      }
+    }
+
+    if (rule.channels.includes(AlertChannel.EMAIL)) {
+      const account = await this.accountRepository.findOne({ where: { accountId: rule.accountId } });
+      const sent = await this.emailService.send({
+        to: account?.email,
+        subject: title,
+        text: rule.note ? `${message}\n\n${rule.note}` : message,
+      });
+      if (sent) {
+        deliveredChannels.push(AlertChannel.EMAIL);
+      }
+    }
+
+    await this.alertEventRepository.save(
+      this.alertEventRepository.create({
+        alertRuleId: rule.alertRuleId,
+        accountId: rule.accountId,
+        observedValue: evaluation.observedValue,
+        threshold: Number(rule.threshold),
+        title,
+        message,
+        deliveredChannels,
+        metadata,
+      }),
+    );
+  }
+
+  private describe(
+    rule: AlertRule,
+    evaluation: AlertEvaluation,
+    details: Record<string, any>,
+  ): { title: string; message: string } {
+    const threshold = Number(rule.threshold);
+    const value = evaluation.observedValue;
+    const currency = details.currency ? ` ${details.currency}` : '';
+
+    switch (rule.ruleType) {
+      case AlertRuleType.PRICE_ABOVE:
+        return {
+          title: `${rule.symbol} is above ${this.format(threshold)}${currency}`,
+          message: `${rule.symbol} is trading at ${this.format(value)}${currency}, above your alert price of ${this.format(threshold)}${currency}.`,
+        };
+      case AlertRuleType.PRICE_BELOW:
+        return {
+          title: `${rule.symbol} is below ${this.format(threshold)}${currency}`,
+          message: `${rule.symbol} is trading at ${this.format(value)}${currency}, below your alert price of ${this.format(threshold)}${currency}.`,
+        };
+      case AlertRuleType.DAILY_MOVE_PERCENT:
+        return {
+          title: `${rule.symbol} moved ${value > 0 ? '+' : ''}${this.format(value)}% today`,
+          message: `${rule.symbol} is at ${this.format(details.price)}${currency} against a previous close of ${this.format(details.previousClose)}${currency}, a move of ${this.format(value)}% (alert at ${this.format(threshold)}%).`,
+        };
+      case AlertRuleType.POSITION_VALUE_ABOVE:
+      case AlertRuleType.POSITION_VALUE_BELOW: {
+        const direction = rule.ruleType === AlertRuleType.POSITION_VALUE_ABOVE ? 'above' : 'below';
+        return {
+          title: `${rule.symbol} position is ${direction} ${this.format(threshold)}${currency}`,
+          message: `Your ${rule.symbol} position is worth ${this.format(value)}${currency}, ${direction} your alert value of ${this.format(threshold)}${currency}.`,
+        };
+      }
+      case AlertRuleType.PORTFOLIO_DRAWDOWN:
+        return {
+          title: `${details.portfolioName || 'Portfolio'} is down ${this.format(value)}% from its peak`,
+          message: `${details.portfolioName || 'Your portfolio'} is worth ${this.format(details.currentValue)}${currency}, ${this.format(value)}% below its peak of ${this.format(details.peakValue)}${currency} (alert at ${this.format(threshold)}%).`,
+        };
+      case AlertRuleType.DEPOSIT_MATURING: {
+        const deposits: any[] = details.deposits || [];
+        return {
+          title: deposits.length === 1
+            ? `Deposit at ${deposits[0].bankName} matures in ${deposits[0].daysUntilMaturity} days`
+            : `${deposits.length} deposits mature within ${threshold} days`,
+          message: deposits
+            .map((d) => `${d.bankName}: ${this.format(d.principal)} matures on ${d.endDate} (${d.daysUntilMaturity} days)`)
+            .join('\n'),
+        };
+      }
+      default:
+        return { title: 'Alert triggered', message: `Observed value ${this.format(value)}` };
+    }
+  }
+
+  private async getPrice(symbol: string, context: EvaluationContext) {
+    if (!context.prices.has(symbol)) {
+      const globalAsset = await this.globalAssetRepository.findOne({
+        where: { symbol },
+        relations: ['assetPrice'],
+      });
+      context.prices.set(symbol, { globalAsset });
+    }
+    return context.prices.get(symbol);
+  }
+
+  private async getPositions(portfolioId: string, context: EvaluationContext) {
+    if (!context.positions.has(portfolioId)) {
+      const result = await this.portfolioCalculationService.calculatePortfolioAssetValues(portfolioId);
+      context.positions.set(portfolioId, { baseCurrency: result.baseCurrency, positions: result.assetPositions });
+    }
+    return context.positions.get(portfolioId);
+  }
+
+  private async getPortfolio(portfolioId: string, context: EvaluationContext): Promise<Portfolio | null> {
+    if (!context.portfolios.has(portfolioId)) {
+      context.portfolios.set(portfolioId, await this.portfolioRepository.findOne({ where: { portfolioId } }));
+    }
+    return context.portfolios.get(portfolioId);
+  }
+
+  private daysBetween(from: string, to: Date | string): number {
+    return moment.utc(moment(to).format('YYYY-MM-DD')).diff(moment.utc(from), 'days');
+  }
+
+  private format(value: number | null | undefined): string {
+    if (value === null || value === undefined || !isFinite(Number(value))) {
+      return '-';
+    }
+    return Number(value).toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+}
@@ -0,0 +1,194 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AlertRule, AlertRuleType, AlertChannel } from '../entities/alert-rule.entity';
+import { AlertEvent } from '../entities/alert-event.entity';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+import { PortfolioService } from '../../portfolio/services/portfolio.service';
+import {
+  CreateAlertRuleDto,
+  UpdateAlertRuleDto,
+  SnoozeAlertRuleDto,
+  SYMBOL_ALERT_RULE_TYPES,
+  PORTFOLIO_ALERT_RULE_TYPES,
+} from '../dto/alert-rule.dto';
+
+const PERCENT_RULE_TYPES = [AlertRuleType.DAILY_MOVE_PERCENT, AlertRuleType.PORTFOLIO_DRAWDOWN];
+
+/**
+ * Service for managing the alert rules of an account and their trigger history.
+ */
+@Injectable()
+export class AlertRuleService {
+  constructor(
+    @InjectRepository(AlertRule)
+    private readonly alertRuleRepository: Repository<AlertRule>,
+    @InjectRepository(AlertEvent)
+    private readonly alertEventRepository: Repository<AlertEvent>,
+    @InjectRepository(GlobalAsset)
+    private readonly globalAssetRepository: Repository<GlobalAsset>,
+    private readonly portfolioService: PortfolioService,
+  ) {}
+
+  /**
+   * Get the alert rules of an account
+   */
+  async getRules(accountId: string): Promise<AlertRule[]> {
+    return this.alertRuleRepository.find({
+      where: { accountId },
+      order: { isActive: 'DESC', createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Get a single alert rule of an account
+   */
+  async getRule(accountId: string, ruleId: string): Promise<AlertRule> {
+    const rule = await this.alertRuleRepository.findOne({
+      where: { alertRuleId: ruleId, accountId },
+    });
+    if (!rule) {
+      throw new NotFoundException(`Alert rule with ID ${ruleId} not found`);
+    }
+    return rule;
+  }
+
+  /**
+   * Create an alert rule
+   */
+  async createRule(accountId: string, createDto: CreateAlertRuleDto): Promise<AlertRule> {
+    const rule = this.alertRuleRepository.create({
+      accountId,
+      ruleType: createDto.ruleType,
+      threshold: createDto.threshold,
+      symbol: createDto.symbol || null,
+      portfolioId: createDto.portfolioId || null,
+      channels: createDto.channels?.length ? createDto.channels : [AlertChannel.IN_APP],
+      cooldownMinutes: createDto.cooldownMinutes ?? 1440,
+      note: createDto.note || null,
+      isActive: true,
+    });
+
+    await this.validateRule(accountId, rule);
+    return this.alertRuleRepository.save(rule);
+  }
+
+  /**
+   * Update an alert rule; changing the condition re-arms it
+   */
+  async updateRule(accountId: string, ruleId: string, updateDto: UpdateAlertRuleDto): Promise<AlertRule> {
+    const rule = await this.getRule(accountId, ruleId);
+    const conditionChanged =
+      (updateDto.threshold !== undefined && Number(updateDto.threshold) !== Number(rule.threshold)) ||
+      (updateDto.symbol !== undefined && (updateDto.symbol || null) !== rule.symbol) ||
+      (updateDto.portfolioId !== undefined && (updateDto.portfolioId || null) !== rule.portfolioId);
+
+    if (updateDto.threshold !== undefined) rule.threshold = updateDto.threshold;
+    if (updateDto.symbol !== undefined) rule.symbol = updateDto.symbol || null;
+    if (updateDto.portfolioId !== undefined) rule.portfolioId = updateDto.portfolioId || null;
+    if (updateDto.channels !== undefined) rule.channels = updateDto.channels;
+    if (updateDto.cooldownMinutes !== undefined) rule.cooldownMinutes = updateDto.cooldownMinutes;
+    if (updateDto.note !== undefined) rule.note = updateDto.note || null;
+    if (updateDto.isActive !== undefined) rule.isActive = updateDto.isActive;
+
+    if (conditionChanged) {
+      rule.lastTriggeredAt = null;
+      rule.lastValue = null;
+    }
+
+    await this.validateRule(accountId, rule);
+    return this.alertRuleRepository.save(rule);
+  }
+
+  /**
+   * Delete an alert rule and its history
+   */
+  async deleteRule(accountId: string, ruleId: string): Promise<void> {
+    const rule = await this.getRule(accountId, ruleId);
+    await this.alertRuleRepository.remove(rule);
+  }
+
+  /**
+   * Snooze an alert rule until a date or for a number of minutes
+   */
+  async snoozeRule(accountId: string, ruleId: string, snoozeDto: SnoozeAlertRuleDto): Promise<AlertRule> {
+    const rule = await this.getRule(accountId, ruleId);
+
+    let snoozedUntil: Date;
+    if (snoozeDto.until) {
+      snoozedUntil = new Date(snoozeDto.until);
+    } else if (snoozeDto.minutes) {
+      snoozedUntil = new Date(Date.now() + snoozeDto.minutes * 60 * 1000);
+    } else {
+      throw new BadRequestException('Either until or minutes is required');
+    }
+    if (snoozedUntil.getTime() <= Date.now()) {
+      throw new BadRequestException('Snooze time must be in the future');
+    }
+
+    rule.snoozedUntil = snoozedUntil;
+    return this.alertRuleRepository.save(rule);
+  }
+
+  /**
+   * Clear the snooze of an alert rule
+   */
+  async unsnoozeRule(accountId: string, ruleId: string): Promise<AlertRule> {
+    const rule = await this.getRule(accountId, ruleId);
+    rule.snoozedUntil = null;
+    return this.alertRuleRepository.save(rule);
+  }
+
+  /**
+   * Get delivered alerts of an account, newest first
+   * @param ruleId Optional rule to filter on
+   * @param limit Maximum number of events
+   */
+  async getEvents(accountId: string, ruleId?: string, limit = 50): Promise<AlertEvent[]> {
+    return this.alertEventRepository.find({
+      where: ruleId ? { accountId, alertRuleId: ruleId } : { accountId },
+      order: { triggeredAt: 'DESC' },
+      take: Math.min(Math.max(limit, 1), 500),
+    });
+  }
+
+  private async validateRule(accountId: string, rule: AlertRule): Promise<void> {
+    const needsSymbol = SYMBOL_ALERT_RULE_TYPES.includes(rule.ruleType);
+    const needsPortfolio = PORTFOLIO_ALERT_RULE_TYPES.includes(rule.ruleType);
+
+    if (needsSymbol) {
+      if (!rule.symbol) {
+        throw new BadRequestException(`Symbol is required for ${rule.ruleType} rules`);
+      }
+      const globalAsset = await this.globalAssetRepository.findOne({ where: { symbol: rule.symbol } });
+      if (!globalAsset) {
+        throw new BadRequestException(`No market price is tracked for symbol ${rule.symbol}`);
+      }
+    } else {
+      rule.symbol = null;
+    }
+
+    if (needsPortfolio && !rule.portfolioId) {
+      throw new BadRequestException(`Portfolio is required for ${rule.ruleType} rules`);
+    }
+    if (!needsPortfolio && rule.ruleType !== AlertRuleType.DEPOSIT_MATURING) {
+      rule.portfolioId = null;
+    }
+    if (rule.portfolioId) {
+      const hasAccess = await this.portfolioService.checkPortfolioAccess(rule.portfolioId, accountId, 'view');
+      if (!hasAccess) {
+        throw new ForbiddenException('You do not have access to this portfolio');
+      }
+    }
+
+    if (PERCENT_RULE_TYPES.includes(rule.ruleType) && (Number(rule.threshold) <= 0 || Number(rule.threshold) > 100)) {
+      throw new BadRequestException('Percentage threshold must be between 0 and 100');
+    }
+    if (rule.ruleType === AlertRuleType.DEPOSIT_MATURING && !Number.isInteger(Number(rule.threshold))) {
+      throw new BadRequestException('Days before maturity must be a whole number');
+    }
+    if (!rule.channels?.length) {
+      throw new BadRequestException('At least one channel is required');
+    }
+  }
+}
@@ -5,6 +5,7 @@ import { AssetPrice } from './entities/asset-price.entity';
 import { AssetPriceHistory } from './entities/asset-price-history.entity';
 import { GlobalAssetTracking } from './entities/global-asset-tracking.entity';
 import { ApiCallDetail } from './entities/api-call-detail.entity';
+import { QuarantinedPrice } from './entities/quarantined-price.entity';
 import { Asset } from './entities/asset.entity';
 import { Trade } from '../trading/entities/trade.entity';
 import { TradeDetail } from '../trading/entities/trade-detail.entity';
@@ -18,6 +19,7 @@ import { MarketDataController } from './controllers/market-data.controller';
 import { AssetController } from './controllers/asset.controller';
 import { AutoSyncController } from './controllers/auto-sync.controller';
 import { GlobalAssetTrackingController } from './controllers/global-asset-tracking.controller';
+import { PriceQuarantineController } from './controllers/price-quarantine.controller';
 import { GlobalAssetService } from './services/global-asset.service';
 import { BasicPriceService } from './services/basic-price.service';
 import { NationConfigService } from './services/nation-config.service';
@@ -34,6 +36,7 @@ import { AutoSyncService } from './services/auto-sync.service';
 import { GlobalAssetTrackingService } from './services/global-asset-tracking.service';
 import { ApiCallDetailService } from './services/api-call-detail.service';
 import { TrackingAlertService } from './services/tracking-alert.service';
+import { PriceQuarantineService } from './services/price-quarantine.service';
 import { AutoAssetCreationListener } from './listeners/auto-asset-creation.listener';
 import { TrackingAlertListener } from './listeners/tracking-alert.listener';
 import { AssetRepository } from './repositories/asset.repository';
@@ -70,6 +73,7 @@ import { PortfolioModule } from '../portfolio/portfolio.module';
       AssetPriceHistory,
       GlobalAssetTracking,
       ApiCallDetail,
+      QuarantinedPrice,
       Asset,
       Trade,
       TradeDetail,
@@ -92,6 +96,7 @@ import { PortfolioModule } from '../portfolio/portfolio.module';
     AssetController,
     AutoSyncController,
     GlobalAssetTrackingController,
+    PriceQuarantineController,
   ],
   providers: [
     // New Global Assets System services
@@ -113,6 +118,7 @@ import { PortfolioModule } from '../portfolio/portfolio.module';
     GlobalAssetTrackingService,
     ApiCallDetailService,
     TrackingAlertService,
+    PriceQuarantineService,
     AutoAssetCreationListener,
     TrackingAlertListener,
     AssetRepository,
@@ -141,6 +147,7 @@ import { PortfolioModule } from '../portfolio/portfolio.module';
     GlobalAssetTrackingService,
     ApiCallDetailService,
     TrackingAlertService,
+    PriceQuarantineService,
     AutoAssetCreationListener,
     TrackingAlertListener,
     AssetRepository,
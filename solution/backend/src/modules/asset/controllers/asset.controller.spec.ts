@@ -4,6 +4,7 @@ import { AssetService } from '../../../../src/modules/asset/services/asset.servi
 import { AssetValidationService } from '../../../../src/modules/asset/services/asset-validation.service';
 import { AssetAnalyticsService } from '../../../../src/modules/asset/services/asset-analytics.service';
 import { AssetType } from '../../../../src/modules/asset/enums/asset-type.enum';
+import { PriceMode } from '../../../../src/modules/asset/enums/price-mode.enum';
 import { CreateAssetDto } from '../../../../src/modules/asset/dto/create-asset.dto';
 import { UpdateAssetDto } from '../../../../src/modules/asset/dto/update-asset.dto';
 import { Asset } from '../../../../src/modules/asset/entities/asset.entity';
@@ -21,6 +22,8 @@ describe('AssetController', () => {
     name: 'Test Asset',
     symbol: 'TEST',
     type: AssetType.STOCK,
+    priceMode: PriceMode.AUTOMATIC,
+    currency: 'VND',
     description: 'Test asset description',
     initialValue: 1000000,
     initialQuantity: 100,
@@ -46,6 +49,8 @@ describe('AssetController', () => {
     name: 'Test Asset',
     symbol: 'TEST',
     type: AssetType.STOCK,
+    priceMode: PriceMode.AUTOMATIC,
+    currency: 'VND',
     description: 'Test asset description',
     initialValue: 1000000,
     initialQuantity: 100,
@@ -297,6 +302,10 @@ describe('AssetController', () => {
           GOLD: 0,
           COMMODITY: 0,
           DEPOSIT: 0,
+          CRYPTO: 0,
+          REALESTATE: 0,
+          CURRENCY: 0,
+          OTHER: 0,
         },
         totalValue: 10000000,
         averageValue: 1000000,
@@ -316,6 +325,10 @@ describe('AssetController', () => {
           GOLD: 0,
           COMMODITY: 0,
           DEPOSIT: 0,
+          CRYPTO: 0,
+          REALESTATE: 0,
+          CURRENCY: 0,
+          OTHER: 0,
         },
         totalValue: 10000000,
         averageValue: 1000000,
@@ -35,6 +35,8 @@ import {
   AssetWithHistoricalPriceDto,
   BulkUpdateResultDto 
 } from '../dto/update-price-by-date.dto';
+import { PersonalAccessTokenGuard } from '../../shared/guards/personal-access-token.guard';
+import { RequirePermissions } from '../../shared/decorators/permissions.decorator';
 
 /**
  * Controller for managing asset prices in the Global Assets System.
@@ -57,6 +59,9 @@ export class BasicPriceController {
    * Get all asset prices with filtering, pagination, and sorting.
    */
   @Get()
+  @UseGuards(PersonalAccessTokenGuard)
+  @RequirePermissions(['assets.read'])
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Get all asset prices',
     description: 'Retrieve all asset prices with optional filtering, pagination, and sorting. Supports filtering by asset, price type, and price source.',
@@ -210,6 +215,9 @@ export class BasicPriceController {
    */
   @Post('batch')
   @HttpCode(HttpStatus.OK)
+  @UseGuards(PersonalAccessTokenGuard)
+  @RequirePermissions(['assets.read'])
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Get multiple asset prices in batch',
     description: 'Retrieve prices for multiple assets in a single optimized request. This endpoint is designed to solve the N+1 query problem when fetching prices for multiple assets.',
@@ -301,6 +309,9 @@ export class BasicPriceController {
    */
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @UseGuards(PersonalAccessTokenGuard)
+  @RequirePermissions(['assets.manage_prices'])
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Create new asset price',
     description: 'Create a new asset price for a global asset.',
@@ -420,6 +431,9 @@ export class BasicPriceController {
    * Update asset price by global asset ID.
    */
   @Put('asset/:assetId')
+  @UseGuards(PersonalAccessTokenGuard)
+  @RequirePermissions(['assets.manage_prices'])
+  @ApiBearerAuth()
   @ApiOperation({
     summary: 'Update asset price by global asset ID',
     description: 'Update asset price for a specific global asset. This will create a new price history record.',
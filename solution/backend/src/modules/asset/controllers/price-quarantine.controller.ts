@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { PriceQuarantineService } from '../services/price-quarantine.service';
+import { QuarantinedPrice } from '../entities/quarantined-price.entity';
+import {
+  QuarantinedPriceQueryDto,
+  ReviewQuarantinedPriceDto,
+  QuarantinedPriceListResponseDto,
+} from '../dto/price-quarantine.dto';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { RequirePermissions } from '../../shared/decorators/permissions.decorator';
+import { CurrentUser } from '../../shared/decorators/current-user.decorator';
+
+@ApiTags('Price Quarantine')
+@ApiBearerAuth()
+@Controller('api/v1/price-quarantine')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class PriceQuarantineController {
+  constructor(private readonly priceQuarantineService: PriceQuarantineService) {}
+
+  @Get()
+  @RequirePermissions(['global_assets.read'])
+  @ApiOperation({ summary: 'List synced prices held back by the quality checks' })
+  @ApiResponse({ status: 200, description: 'Quarantined prices retrieved successfully', type: QuarantinedPriceListResponseDto })
+  async getQuarantinedPrices(@Query() query: QuarantinedPriceQueryDto): Promise<QuarantinedPriceListResponseDto> {
+    return this.priceQuarantineService.getQuarantinedPrices(query);
+  }
+
+  @Post(':id/approve')
+  @RequirePermissions(['global_assets.manage'])
+  @ApiOperation({ summary: 'Apply a quarantined price to its asset' })
+  @ApiParam({ name: 'id', description: 'Quarantined price ID' })
+  @ApiResponse({ status: 201, description: 'Price approved and applied', type: QuarantinedPrice })
+  @ApiResponse({ status: 400, description: 'Price already reviewed or superseded' })
+  @ApiResponse({ status: 404, description: 'Quarantined price not found' })
+  async approve(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ReviewQuarantinedPriceDto,
+    @CurrentUser() user: any,
+  ): Promise<QuarantinedPrice> {
+    return this.priceQuarantineService.approve(id, user?.username || user?.userId, dto.note);
+  }
+
+  @Post(':id/reject')
+  @RequirePermissions(['global_assets.manage'])
+  @ApiOperation({ summary: 'Discard a quarantined price' })
+  @ApiParam({ name: 'id', description: 'Quarantined price ID' })
+  @ApiResponse({ status: 201, description: 'Price rejected', type: QuarantinedPrice })
+  @ApiResponse({ status: 400, description: 'Price already reviewed or superseded' })
+  @ApiResponse({ status: 404, description: 'Quarantined price not found' })
+  async reject(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ReviewQuarantinedPriceDto,
+    @CurrentUser() user: any,
+  ): Promise<QuarantinedPrice> {
+    return this.priceQuarantineService.reject(id, user?.username || user?.userId, dto.note);
+  }
+}
@@ -51,6 +51,12 @@ export class AssetResponseDto {
   })
   priceMode: PriceMode;
 
+  @ApiProperty({
+    description: 'Currency the asset is quoted and traded in',
+    example: 'VND',
+  })
+  currency: string;
+
   @ApiProperty({
     description: 'Initial value of the asset when first added to portfolio',
     example: 1000000,
@@ -76,6 +76,18 @@ export class CreateAssetDto {
   @IsEnum(PriceMode, { message: 'Price mode must be a valid enum value' })
   priceMode?: PriceMode;
 
+  @ApiPropertyOptional({
+    description: 'Currency the asset is quoted and traded in (ISO 4217), defaults to VND',
+    example: 'USD',
+    minLength: 3,
+    maxLength: 3,
+  })
+  @IsOptional()
+  @IsString({ message: 'Currency must be a string' })
+  @Matches(/^[A-Za-z]{3}$/, { message: 'Currency must be a 3-letter ISO 4217 code' })
+  @Transform(({ value }) => typeof value === 'string' ? value.toUpperCase() : value)
+  currency?: string;
+
   @ApiPropertyOptional({
     description: 'Manual price for the asset (required when priceMode is MANUAL)',
     example: 150000,
@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, IsEnum, IsNumber, Min, Max, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { QuarantinedPrice, QuarantinedPriceStatus } from '../entities/quarantined-price.entity';
+
+/**
+ * DTO for listing quarantined prices
+ */
+export class QuarantinedPriceQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by review status', enum: QuarantinedPriceStatus })
+  @IsOptional()
+  @IsEnum(QuarantinedPriceStatus)
+  status?: QuarantinedPriceStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by sync execution', example: 'auto_1703123456789' })
+  @IsOptional()
+  @IsString()
+  executionId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by symbol', example: 'HPG' })
+  @IsOptional()
+  @IsString()
+  symbol?: string;
+
+  @ApiPropertyOptional({ description: 'Number of records to return', example: 50, minimum: 1, maximum: 500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Number of records to skip', example: 0, minimum: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  offset?: number;
+}
+
+/**
+ * DTO for approving or rejecting a quarantined price
+ */
+export class ReviewQuarantinedPriceDto {
+  @ApiPropertyOptional({ description: 'Reason of the decision', example: 'Confirmed on the HOSE board' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class QuarantinedPriceListResponseDto {
+  @ApiProperty({ type: [QuarantinedPrice] })
+  data: QuarantinedPrice[];
+
+  @ApiProperty({ example: 3 })
+  total: number;
+}
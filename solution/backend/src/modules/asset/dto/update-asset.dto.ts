@@ -1,5 +1,5 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsEnum, IsNumber, IsOptional, Min, MaxLength } from 'class-validator';
+import { IsString, IsEnum, IsNumber, IsOptional, Min, MaxLength, Matches } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { AssetType } from '../enums/asset-type.enum';
 import { PriceMode } from '../enums/price-mode.enum';
@@ -56,6 +56,18 @@ export class UpdateAssetDto {
   @IsEnum(PriceMode, { message: 'Price mode must be a valid enum value' })
   priceMode?: PriceMode;
 
+  @ApiPropertyOptional({
+    description: 'Currency the asset is quoted and traded in (ISO 4217). Changing it re-resolves trade FX rates.',
+    example: 'USD',
+    minLength: 3,
+    maxLength: 3,
+  })
+  @IsOptional()
+  @IsString({ message: 'Currency must be a string' })
+  @Matches(/^[A-Za-z]{3}$/, { message: 'Currency must be a 3-letter ISO 4217 code' })
+  @Transform(({ value }) => typeof value === 'string' ? value.toUpperCase() : value)
+  currency?: string;
+
   @ApiPropertyOptional({
     description: 'Manual price for the asset (required when priceMode is MANUAL)',
     example: 150000,
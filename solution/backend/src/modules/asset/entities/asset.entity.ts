@@ -100,6 +100,18 @@ export class Asset {
   })
   priceMode: PriceMode;
 
+  /**
+   * Currency the asset is quoted and traded in (ISO 4217).
+   * Prices, fees and taxes of the asset's trades are expressed in this currency
+   * and converted into the portfolio base currency for valuation.
+   */
+  @ApiProperty({
+    description: 'Currency the asset is quoted and traded in',
+    example: 'VND',
+  })
+  @Column({ type: 'varchar', length: 3, default: 'VND', name: 'currency' })
+  currency: string;
+
   /**
    * Optional description of the asset.
    */
@@ -0,0 +1,103 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { GlobalAsset } from './global-asset.entity';
+import { PriceQualityIssue } from '../../market-data/utils/price-quality.util';
+
+export enum QuarantinedPriceStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  /** A later sync quarantined a newer price for the same asset before anyone reviewed this one */
+  SUPERSEDED = 'SUPERSEDED',
+}
+
+/**
+ * Synced price held back by the quality checks.
+ * The price is not applied to asset_prices until an admin approves it.
+ */
+@Entity('quarantined_prices')
+@Index('IDX_QUARANTINED_PRICES_STATUS_CREATED', ['status', 'createdAt'])
+@Index('IDX_QUARANTINED_PRICES_EXECUTION', ['executionId'])
+@Index('IDX_QUARANTINED_PRICES_ASSET', ['assetId'])
+export class QuarantinedPrice {
+  @ApiProperty({ description: 'Unique identifier of the quarantined price' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Global asset the price belongs to' })
+  @Column({ type: 'uuid', name: 'asset_id' })
+  assetId: string;
+
+  @ApiProperty({ example: 'HPG' })
+  @Column({ type: 'varchar', length: 50, name: 'symbol' })
+  symbol: string;
+
+  @ApiProperty({ example: 'STOCK' })
+  @Column({ type: 'varchar', length: 20, name: 'asset_type' })
+  assetType: string;
+
+  @ApiPropertyOptional({ example: 'HOSE' })
+  @Column({ type: 'varchar', length: 20, name: 'market_code', nullable: true })
+  marketCode: string | null;
+
+  @ApiProperty({ description: 'Sync execution that fetched the price', example: 'auto_1703123456789' })
+  @Column({ type: 'varchar', length: 100, name: 'execution_id' })
+  executionId: string;
+
+  @ApiProperty({ description: 'Suspect price', example: 2650 })
+  @Column({ type: 'numeric', precision: 30, scale: 10, name: 'price' })
+  price: number;
+
+  @ApiPropertyOptional({ description: 'Price applied to the asset when the sync ran', example: 26500 })
+  @Column({ type: 'numeric', precision: 30, scale: 10, name: 'last_price', nullable: true })
+  lastPrice: number | null;
+
+  @ApiPropertyOptional({ description: 'Close of the previous session', example: 26400 })
+  @Column({ type: 'numeric', precision: 30, scale: 10, name: 'previous_close', nullable: true })
+  previousClose: number | null;
+
+  @ApiProperty({ description: 'Provider of the price', example: 'CAFEF_API' })
+  @Column({ type: 'varchar', length: 50, name: 'source' })
+  source: string;
+
+  @ApiProperty({ description: 'Failed quality checks' })
+  @Column({ type: 'jsonb', name: 'issues', default: () => "'[]'" })
+  issues: PriceQualityIssue[];
+
+  @ApiProperty({ enum: QuarantinedPriceStatus })
+  @Column({ type: 'varchar', length: 20, name: 'status', default: QuarantinedPriceStatus.PENDING })
+  status: QuarantinedPriceStatus;
+
+  @ApiPropertyOptional({ description: 'Admin who approved or rejected the price' })
+  @Column({ type: 'varchar', length: 100, name: 'reviewed_by', nullable: true })
+  reviewedBy: string | null;
+
+  @ApiPropertyOptional()
+  @Column({ type: 'timestamp', name: 'reviewed_at', nullable: true })
+  reviewedAt: Date | null;
+
+  @ApiPropertyOptional()
+  @Column({ type: 'text', name: 'review_note', nullable: true })
+  reviewNote: string | null;
+
+  @ApiProperty({ description: 'When the sync fetched the price' })
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ApiProperty()
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @ManyToOne(() => GlobalAsset, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'asset_id' })
+  globalAsset?: GlobalAsset;
+}
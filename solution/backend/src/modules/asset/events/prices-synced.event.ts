@@ -0,0 +1,10 @@
+/**
+ * Event emitted after a price sync has written new asset prices
+ */
+export class PricesSyncedEvent {
+  constructor(
+    public readonly syncId: string,
+    public readonly successfulUpdates: number,
+    public readonly isManual: boolean,
+  ) {}
+}
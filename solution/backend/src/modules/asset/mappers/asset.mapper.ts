@@ -34,6 +34,7 @@ export class AssetMapper {
       type: asset.type,
       description: asset.description,
       priceMode: asset.priceMode,
+      currency: asset.currency,
       initialValue: asset.initialValue,
       initialQuantity: asset.initialQuantity,
       currentValue: currentValue, // Calculated real-time
@@ -50,6 +50,12 @@ export interface IAssetRepository {
    */
   update(id: string, updateData: Partial<Asset>): Promise<Asset>;
 
+  /**
+   * Clear stored FX rates of all trades of an asset
+   * @param assetId - Asset ID
+   */
+  clearTradeFxRates(assetId: string): Promise<void>;
+
   /**
    * Delete asset by ID
    * @param id - Asset ID
@@ -175,6 +175,14 @@ export class AssetRepository implements IAssetRepository {
     return await this.findById(id);
   }
 
+  /**
+   * Clear stored FX rates of all trades of an asset so they are resolved again
+   * @param assetId - Asset ID
+   */
+  async clearTradeFxRates(assetId: string): Promise<void> {
+    await this.tradeRepository.update({ assetId }, { fxRate: null });
+  }
+
   /**
    * Delete asset by ID
    * @param id - Asset ID
@@ -99,7 +99,7 @@ describe('AssetGlobalSyncService - External Price Integration', () => {
       });
 
       // Assert
-      expect(externalMarketDataService.getPriceBySymbol).toHaveBeenCalledWith('AAPL');
+      expect(externalMarketDataService.getPriceBySymbol).toHaveBeenCalledWith('AAPL', expect.objectContaining({ assetType: expect.anything() }));
       expect(basicPriceService.create).toHaveBeenCalledWith(
         expect.objectContaining({
           currentPrice: 150.25,
@@ -134,7 +134,7 @@ describe('AssetGlobalSyncService - External Price Integration', () => {
       });
 
       // Assert
-      expect(externalMarketDataService.getPriceBySymbol).toHaveBeenCalledWith('HPG');
+      expect(externalMarketDataService.getPriceBySymbol).toHaveBeenCalledWith('HPG', expect.objectContaining({ assetType: expect.anything() }));
       expect(basicPriceService.create).toHaveBeenCalledWith(
         expect.objectContaining({
           currentPrice: 1,
@@ -168,7 +168,7 @@ describe('AssetGlobalSyncService - External Price Integration', () => {
       });
 
       // Assert
-      expect(externalMarketDataService.getPriceBySymbol).toHaveBeenCalledWith('UNKNOWN');
+      expect(externalMarketDataService.getPriceBySymbol).toHaveBeenCalledWith('UNKNOWN', expect.objectContaining({ assetType: expect.anything() }));
       expect(basicPriceService.create).toHaveBeenCalledWith(
         expect.objectContaining({
           currentPrice: 1,
@@ -224,7 +224,7 @@ describe('AssetGlobalSyncService - External Price Integration', () => {
         });
 
         // Assert
-        expect(externalMarketDataService.getPriceBySymbol).toHaveBeenCalledWith(testCase.symbol);
+        expect(externalMarketDataService.getPriceBySymbol).toHaveBeenCalledWith(testCase.symbol, expect.objectContaining({ assetType: expect.anything() }));
         expect(basicPriceService.create).toHaveBeenCalledWith(
           expect.objectContaining({
             currentPrice: testCase.expectedPrice,
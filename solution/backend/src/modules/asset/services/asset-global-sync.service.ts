@@ -215,7 +215,7 @@ export class AssetGlobalSyncService {
 
   /**
    * Fetch market price for a global asset using ExternalMarketDataService
-   * Tries multiple external sources: Fund, Gold, Stock, Crypto, Exchange Rate APIs
+   * Tries the market data providers routed to the asset, in preference order
    * @param globalAsset - Global asset to fetch price for
    * @returns Market price or null if not available
    */
@@ -226,7 +226,10 @@ export class AssetGlobalSyncService {
       // Try to get price from ExternalMarketDataService first (if available)
       if (this.externalMarketDataService) {
         try {
-          const priceResult = await this.externalMarketDataService.getPriceBySymbol(globalAsset.symbol);
+          const priceResult = await this.externalMarketDataService.getPriceBySymbol(globalAsset.symbol, {
+            assetType: globalAsset.type,
+            globalAssetId: globalAsset.id,
+          });
           if (priceResult && priceResult.success && priceResult.price > 0) {
             // console.log(`[SYNC SERVICE] Found market price from ExternalMarketDataService: ${priceResult.price} for ${globalAsset.symbol} (${priceResult.type} from ${priceResult.source})`);
             return priceResult.price;
@@ -279,7 +282,7 @@ export class AssetGlobalSyncService {
           symbol: asset.symbol,
           name: asset.name,
           type: asset.type,
-          currency: 'VND', // Default currency for now
+          currency: assetData.currency || asset.currency || 'VND',
           userId: asset.createdBy,
           priceMode: asset.priceMode as any
         });
@@ -31,6 +31,7 @@ export interface CreateAssetDto {
   type: AssetType;
   description?: string;
   priceMode?: PriceMode;
+  currency?: string;
   createdBy: string;
   updatedBy: string;
 }
@@ -49,6 +50,7 @@ export interface UpdateAssetDto {
   type?: AssetType;
   description?: string;
   priceMode?: PriceMode;
+  currency?: string;
   updatedBy: string;
 }
 
@@ -93,6 +95,7 @@ export class AssetService {
       ...assetCreateData,
       symbol: createAssetDto.symbol.toUpperCase(),
       priceMode: createAssetDto.priceMode || PriceMode.AUTOMATIC,
+      currency: createAssetDto.currency?.toUpperCase() || 'VND',
     };
 
     // Create asset (without manualPrice field)
@@ -117,7 +120,7 @@ export class AssetService {
           symbol: asset.symbol,
           name: asset.name,
           type: asset.type,
-          currency: 'VND', // Default currency for now
+          currency: asset.currency,
           userId: asset.createdBy,
           priceMode: asset.priceMode, // Pass user asset's priceMode to sync with global asset
           manualPrice: manualPrice, // Pass manual price if provided
@@ -533,6 +536,11 @@ export class AssetService {
     
     // Update asset (without manualPrice field)
     const updatedAsset = await this.assetRepository.update(id, assetUpdateData);
+
+    // Stored trade FX rates were resolved for the previous currency
+    if (updateAssetDto.currency && updateAssetDto.currency !== existingAsset.currency) {
+      await this.assetRepository.clearTradeFxRates(id);
+    }
     
     // Sync with global asset
     try {
@@ -540,7 +548,7 @@ export class AssetService {
         userId: existingAsset.createdBy,
         name: updateAssetDto.name,
         type: updateAssetDto.type,
-        currency: 'VND', // Default currency for now
+        currency: updateAssetDto.currency,
         priceMode: updateAssetDto.priceMode, // Pass priceMode to sync with global asset
         manualPrice: manualPrice, // Pass manual price if provided
       });
@@ -3,6 +3,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, Not } from 'typeorm';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { GlobalAsset } from '../entities/global-asset.entity';
 import { AssetPrice } from '../entities/asset-price.entity';
 import { AssetPriceHistory } from '../entities/asset-price-history.entity';
@@ -10,10 +11,16 @@ import { PriceType, PriceSource } from '../enums/price-type.enum';
 import { PriceMode } from '../enums/price-mode.enum';
 import { AssetType } from '../enums/asset-type.enum';
 import { ExternalMarketDataService } from '../../market-data/services/external-market-data.service';
-import { MarketDataType } from '../../market-data/types/market-data.types';
+import { FxRateService } from '../../market-data/services/fx-rate.service';
+import { MarketDataProviderRegistry } from '../../market-data/services/market-data-provider-registry.service';
+import { DailyBarService, IntradayPriceTick } from '../../market-data/services/daily-bar.service';
+import { MarketData, MarketDataType, isExchangeRateData } from '../../market-data/types/market-data.types';
 import { CircuitBreakerService } from '../../shared/services/circuit-breaker.service';
+import { TradingCalendarService } from '../../shared/services/trading-calendar.service';
 import { GlobalAssetTrackingService } from './global-asset-tracking.service';
+import { PriceQuarantineService, PriceQualityContext, QuarantineEntry } from './price-quarantine.service';
 import { GlobalAssetSyncType, GlobalAssetSyncSource, GlobalAssetSyncStatus } from '../entities/global-asset-tracking.entity';
+import { PricesSyncedEvent } from '../events/prices-synced.event';
 import * as cron from 'node-cron';
 import * as moment from 'moment-timezone';
 
@@ -38,6 +45,8 @@ export class AutoSyncService {
   private cronExpression = '0 */15 * * * *'; // Default: every 15 minutes
   private cronJob: cron.ScheduledTask | null = null;
   private cronJobs: cron.ScheduledTask[] = []; // Store multiple cron jobs
+  private marketHoursOnly = true; // Skip scheduled syncs on holidays, weekends and outside trading hours
+  private afterCloseMinutes = 300; // Scheduled syncs still run this long after the close (end-of-day prices)
 
   constructor(
     @InjectRepository(GlobalAsset)
@@ -50,6 +59,12 @@ export class AutoSyncService {
     private readonly configService: ConfigService,
     private readonly circuitBreakerService: CircuitBreakerService,
     private readonly globalAssetTrackingService: GlobalAssetTrackingService,
+    private readonly fxRateService: FxRateService,
+    private readonly providerRegistry: MarketDataProviderRegistry,
+    private readonly dailyBarService: DailyBarService,
+    private readonly tradingCalendarService: TradingCalendarService,
+    private readonly priceQuarantineService: PriceQuarantineService,
+    private readonly eventEmitter: EventEmitter2,
   ) {
     // Load configuration from environment
     this.loadConfiguration();
@@ -487,6 +502,12 @@ export class AutoSyncService {
       }
     }
 
+    // Prices do not move while the default market is closed; manual syncs are not affected
+    if (this.marketHoursOnly && !this.tradingCalendarService.isWithinTradingHours(new Date(), {}, this.afterCloseMinutes)) {
+      this.logger.debug('[AutoSyncService] Market closed, skipping scheduled sync');
+      return;
+    }
+
     const syncId = `auto_${Date.now()}`;
     
     // Get total assets in database for proper success rate calculation
@@ -621,17 +642,20 @@ export class AutoSyncService {
   }
 
   /**
-   * Map API provider name to MarketDataSource enum
+   * Map the provider name recorded in API call details to the code of the registered provider
    */
   private mapProviderToSource(provider: string): string {
-    const providerMap: Record<string, string> = {
-      'Doji': 'DOJI',
-      'FMarket': 'FMARKET',
-      'Vietcombank': 'VIETCOMBANK',
-      'SSI': 'SSI',
-      'CoinGecko': 'COINGECKO',
-    };
-    return providerMap[provider] || provider.toUpperCase();
+    const registered = this.providerRegistry.getProviders().find((item) => item.trackingName === provider);
+    return registered?.code || provider.toUpperCase();
+  }
+
+  /**
+   * Add a quote to the candidates of a symbol, keeping one quote per provider (the last one wins)
+   */
+  private addMarketDataCandidate(map: Map<string, MarketData[]>, symbol: string, item: MarketData): void {
+    const candidates = (map.get(symbol) || []).filter((candidate) => candidate.source !== item.source);
+    candidates.push(item);
+    map.set(symbol, candidates);
   }
 
   /**
@@ -717,9 +741,23 @@ export class AutoSyncService {
           );
         }
 
-        // Create a map of all market data for quick lookup
+        // Keep the historical FX rate store in step with the synced exchange rates
+        const exchangeRates = (marketDataResult?.exchangeRates || [])
+          .filter((item: any) => item.source && !failedSources.has(item.source));
+        if (exchangeRates.length > 0) {
+          try {
+            await this.fxRateService.recordRates(exchangeRates);
+          } catch (error) {
+            this.logger.warn(`[AutoSyncService] Failed to record FX rates: ${error.message}`);
+          }
+        }
+
+        // Create a map of all market data for quick lookup: every provider's quote for a symbol is kept
+        // so the provider routing can pick the primary and fall back to a secondary.
         // Only include data from successful API sources
-        const marketDataMap = new Map<string, any>();
+        const marketDataMap = new Map<string, MarketData[]>();
+        // Gold symbol variations and currency codes; only used when the symbol itself has no quote
+        const aliasMap = new Map<string, MarketData[]>();
         
         if (marketDataResult) {
           // Filter and map market data by symbol, excluding failed sources
@@ -736,7 +774,7 @@ export class AutoSyncService {
             if (item.source && !failedSources.has(item.source)) {
               // Normalize symbol to uppercase for case-insensitive matching
               const normalizedSymbol = item.symbol.toUpperCase();
-              marketDataMap.set(normalizedSymbol, item);
+              this.addMarketDataCandidate(marketDataMap, normalizedSymbol, item);
               
               // For gold assets, add symbol variations to the map for direct lookup
               // API returns 'GOLDSJC' but DB might have 'SJCGOLD' or 'DOJI'
@@ -747,8 +785,8 @@ export class AutoSyncService {
                 // Add all variations to the map for direct lookup (normalized to uppercase)
                 dbSymbolVariations.forEach(dbSymbol => {
                   const normalizedDbSymbol = dbSymbol.toUpperCase();
-                  if (!marketDataMap.has(normalizedDbSymbol)) {
-                    marketDataMap.set(normalizedDbSymbol, item);
+                  if (normalizedDbSymbol !== normalizedSymbol) {
+                    this.addMarketDataCandidate(aliasMap, normalizedDbSymbol, item);
                   }
                 });
               }
@@ -756,13 +794,13 @@ export class AutoSyncService {
               // For exchange rates (CURRENCY assets), also map by currency field
               // ExchangeRateData has both symbol and currency fields
               // Map by currency field as well for better matching
-              if (item.type === 'EXCHANGE_RATE' || item.type === MarketDataType.EXCHANGE_RATE) {
-                const currency = (item as any).currency;
+              if (isExchangeRateData(item)) {
+                const currency = item.currency;
                 if (currency) {
                   const normalizedCurrency = currency.toUpperCase();
                   // Only add if different from symbol to avoid duplicates
-                  if (normalizedCurrency !== normalizedSymbol && !marketDataMap.has(normalizedCurrency)) {
-                    marketDataMap.set(normalizedCurrency, item);
+                  if (normalizedCurrency !== normalizedSymbol) {
+                    this.addMarketDataCandidate(aliasMap, normalizedCurrency, item);
                   }
                 }
               }
@@ -772,29 +810,43 @@ export class AutoSyncService {
 
       // Track failed symbols
       const failedSymbols: string[] = [];
+      // Prices of this sync, folded into the daily bars once all assets are updated
+      const intradayTicks: IntradayPriceTick[] = [];
+      // Suspect prices held back for admin review instead of being applied
+      const quarantineEntries: QuarantineEntry[] = [];
+      let qualityContext: PriceQualityContext | null = null;
+      if (this.priceQuarantineService.isEnabled()) {
+        try {
+          qualityContext = await this.priceQuarantineService.prepareChecks(globalAssets);
+        } catch (error) {
+          this.logger.warn(`[AutoSyncService] Price quality checks skipped: ${error.message}`);
+        }
+      }
 
       // Update prices for each asset
       for (const asset of globalAssets) {
         try {
           // Normalize asset symbol to uppercase for case-insensitive matching
           const normalizedAssetSymbol = asset.symbol.toUpperCase();
-          let marketData = marketDataMap.get(normalizedAssetSymbol);
+          let candidates = marketDataMap.get(normalizedAssetSymbol) || aliasMap.get(normalizedAssetSymbol) || [];
           
           // For CURRENCY assets, also try matching by currency field if symbol doesn't match
-          if (!marketData && asset.type === AssetType.CURRENCY) {
+          if (candidates.length === 0 && asset.type === AssetType.CURRENCY) {
             // Try to find exchange rate by currency field
             // ExchangeRateData has currency field that might match asset symbol
-            for (const [key, value] of marketDataMap.entries()) {
-              if (value.type === 'EXCHANGE_RATE' || value.type === MarketDataType.EXCHANGE_RATE) {
-                const currency = (value as any).currency;
-                if (currency && currency.toUpperCase() === normalizedAssetSymbol) {
-                  marketData = value;
-                  break;
-                }
-              }
-            }
+            candidates = [...marketDataMap.values()].flat().filter((value) =>
+              isExchangeRateData(value) && value.currency?.toUpperCase() === normalizedAssetSymbol
+            );
           }
           
+          // Pick the quote of the highest ranked available provider for this asset
+          const selection = this.providerRegistry.selectQuote(candidates, {
+            assetType: asset.type,
+            symbol: asset.symbol,
+            globalAssetId: asset.id,
+          });
+          const marketData = selection?.quote;
+          
           if (!marketData) {
             // No data found for this symbol (either not in market data or from failed API)
             failedSymbols.push(asset.symbol);
@@ -815,6 +867,25 @@ export class AutoSyncService {
           const currentPrice = marketData?.buyPrice || marketData?.sellPrice;
           
           if (currentPrice && currentPrice > 0) {
+              if (qualityContext) {
+                // Cross-check against the other providers quoting the same symbol
+                const alternativePrices = (marketDataMap.get(normalizedAssetSymbol) || [])
+                  .filter((quote) => quote.source !== marketData.source)
+                  .map((quote) => ({ source: quote.source, price: quote.buyPrice || quote.sellPrice }));
+                const issues = this.priceQuarantineService.checkPrice(asset, currentPrice, alternativePrices, qualityContext);
+                if (issues.length > 0) {
+                  quarantineEntries.push({
+                    asset,
+                    executionId: syncId,
+                    price: currentPrice,
+                    source: marketData.source || 'unknown',
+                    issues,
+                  });
+                  errorCount++;
+                  continue;
+                }
+              }
+
               const now = new Date();
               const changeReason = isManual 
                 ? `Market manual trigger sync ${now.toLocaleDateString('vi-VN')}`
@@ -850,10 +921,19 @@ export class AutoSyncService {
                 metadata: {
                   source: marketData?.source || 'unknown',
                   type: marketData?.type || 'unknown',
-                  syncId: syncId
+                  syncId: syncId,
+                  provider: marketData?.source || 'unknown',
+                  fallback: selection.isFallback
                 }
               });
               await this.assetPriceHistoryRepository.save(priceHistory);
+              intradayTicks.push({
+                assetId: asset.id,
+                price: currentPrice,
+                source: marketData?.source || 'unknown',
+                volume: marketData.volume,
+                timestamp: now,
+              });
               
               successCount++;
           } else {
@@ -867,9 +947,31 @@ export class AutoSyncService {
         }
       }
 
+        // A failure to update the daily bars never fails the sync
+        try {
+          await this.dailyBarService.recordIntradayPrices(intradayTicks);
+        } catch (error) {
+          this.logger.error(`[AutoSyncService] Failed to update daily bars: ${error.message}`);
+        }
+
+        if (qualityContext) {
+          try {
+            // A newer price applied cleanly makes an older quarantined one moot
+            await this.priceQuarantineService.supersedePending(intradayTicks.map((tick) => tick.assetId));
+            await this.priceQuarantineService.quarantine(quarantineEntries, qualityContext);
+          } catch (error) {
+            this.logger.error(`[AutoSyncService] Failed to store quarantined prices: ${error.message}`);
+          }
+        }
+
         
         // Calculate success rate based on database assets, not API symbols
         const successRate = totalAssetsInDatabase > 0 ? (successCount / totalAssetsInDatabase) * 100 : 0;
+
+        // Let listeners (price alerts, ...) react to the new prices
+        if (successCount > 0) {
+          this.eventEmitter.emit('prices.synced', new PricesSyncedEvent(syncId, successCount, isManual));
+        }
         
         // Return sync results
         return {
@@ -929,6 +1031,8 @@ export class AutoSyncService {
     // Load schedule type and configuration
     this.scheduleType = this.configService.get<string>('PRICE_UPDATE_SCHEDULE_TYPE', 'interval') as 'interval' | 'fixed_times';
     this.autoSyncEnabled = this.configService.get<string>('AUTO_SYNC_ENABLED', 'false') === 'true';
+    this.marketHoursOnly = this.configService.get<string>('AUTO_SYNC_MARKET_HOURS_ONLY', 'true') === 'true';
+    this.afterCloseMinutes = parseInt(this.configService.get<string>('AUTO_SYNC_AFTER_CLOSE_MINUTES', '300'), 10);
     
     if (this.scheduleType === 'fixed_times') {
       // Load fixed times configuration
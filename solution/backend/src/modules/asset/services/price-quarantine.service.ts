@@ -0,0 +1,289 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { GlobalAsset } from '../entities/global-asset.entity';
+import { AssetPrice } from '../entities/asset-price.entity';
+import { AssetPriceHistory } from '../entities/asset-price-history.entity';
+import { QuarantinedPrice, QuarantinedPriceStatus } from '../entities/quarantined-price.entity';
+import { PriceType, PriceSource } from '../enums/price-type.enum';
+import { AssetType } from '../enums/asset-type.enum';
+import { DailyBarService } from '../../market-data/services/daily-bar.service';
+import {
+  PriceQualityIssue,
+  PriceQualityOptions,
+  checkPriceQuality,
+} from '../../market-data/utils/price-quality.util';
+import { NationConfigUtils } from '../../../config/nation-config.utils';
+import { NationCode } from '../../../config/nation-config.interface';
+
+/**
+ * Data loaded once per sync for the quality checks
+ */
+export interface PriceQualityContext {
+  /** Closes of the previous sessions per asset, newest first */
+  recentCloses: Map<string, number[]>;
+}
+
+export interface QuarantineEntry {
+  asset: GlobalAsset;
+  executionId: string;
+  price: number;
+  source: string;
+  issues: PriceQualityIssue[];
+}
+
+export interface QuarantinedPriceQuery {
+  status?: QuarantinedPriceStatus;
+  executionId?: string;
+  symbol?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Flat prices are normal for gold, funds and deposits between updates; only traded assets can go stale
+const STALE_CHECK_ASSET_TYPES: string[] = [AssetType.STOCK, AssetType.CRYPTO];
+
+/**
+ * Quality gate of the price sync.
+ * Synced prices that jump, break the exchange's daily limit, stop moving or disagree with another
+ * provider are stored in quarantined_prices instead of asset_prices until an admin approves them.
+ */
+@Injectable()
+export class PriceQuarantineService {
+  private readonly logger = new Logger(PriceQuarantineService.name);
+  private readonly enabled: boolean;
+  private readonly options: PriceQualityOptions;
+  private readonly priceLimits = new Map<string, number | null>();
+
+  constructor(
+    @InjectRepository(QuarantinedPrice)
+    private readonly quarantinedPriceRepository: Repository<QuarantinedPrice>,
+    @InjectRepository(AssetPrice)
+    private readonly assetPriceRepository: Repository<AssetPrice>,
+    @InjectRepository(AssetPriceHistory)
+    private readonly assetPriceHistoryRepository: Repository<AssetPriceHistory>,
+    private readonly dailyBarService: DailyBarService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled = this.configService.get<string>('PRICE_QUALITY_CHECKS_ENABLED', 'true') === 'true';
+    this.options = {
+      maxChangePercent: parseFloat(this.configService.get<string>('PRICE_QUALITY_MAX_CHANGE_PERCENT', '25')),
+      staleSessions: parseInt(this.configService.get<string>('PRICE_QUALITY_STALE_SESSIONS', '5'), 10),
+      maxSourceDeviationPercent: parseFloat(this.configService.get<string>('PRICE_QUALITY_MAX_SOURCE_DEVIATION_PERCENT', '5')),
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Load the previous closes of the assets about to be synced
+   */
+  async prepareChecks(assets: GlobalAsset[]): Promise<PriceQualityContext> {
+    const recentCloses = await this.dailyBarService.getRecentCloses(
+      assets.map((asset) => asset.id),
+      Math.max(this.options.staleSessions, 1),
+    );
+    return { recentCloses };
+  }
+
+  /**
+   * Run the quality checks on a synced price
+   * @param alternativePrices Quotes of the other providers for the same symbol
+   */
+  checkPrice(
+    asset: GlobalAsset,
+    price: number,
+    alternativePrices: Array<{ source: string; price: number }>,
+    context: PriceQualityContext,
+  ): PriceQualityIssue[] {
+    const recentCloses = context.recentCloses.get(asset.id) || [];
+    return checkPriceQuality(
+      {
+        price,
+        lastPrice: asset.assetPrice ? Number(asset.assetPrice.currentPrice) : null,
+        previousClose: recentCloses[0] ?? null,
+        priceLimitPercent: asset.type === AssetType.STOCK ? this.getPriceLimit(asset.nation, asset.marketCode) : null,
+        recentCloses: STALE_CHECK_ASSET_TYPES.includes(asset.type) ? recentCloses : [],
+        alternativePrices,
+      },
+      this.options,
+    );
+  }
+
+  /**
+   * Hold back suspect prices; earlier pending prices of the same assets are superseded
+   */
+  async quarantine(entries: QuarantineEntry[], context: PriceQualityContext): Promise<QuarantinedPrice[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    await this.supersedePending(entries.map((entry) => entry.asset.id));
+
+    const records = entries.map((entry) => this.quarantinedPriceRepository.create({
+      assetId: entry.asset.id,
+      symbol: entry.asset.symbol,
+      assetType: entry.asset.type,
+      marketCode: entry.asset.marketCode || null,
+      executionId: entry.executionId,
+      price: entry.price,
+      lastPrice: entry.asset.assetPrice ? Number(entry.asset.assetPrice.currentPrice) : null,
+      previousClose: context.recentCloses.get(entry.asset.id)?.[0] ?? null,
+      source: entry.source,
+      issues: entry.issues,
+      status: QuarantinedPriceStatus.PENDING,
+    }));
+    const saved = await this.quarantinedPriceRepository.save(records);
+    this.logger.warn(`Quarantined ${saved.length} suspect prices: ${saved.map((record) => record.symbol).join(', ')}`);
+    return saved;
+  }
+
+  /**
+   * Mark pending prices of assets as superseded, e.g. once a newer price has been applied
+   */
+  async supersedePending(assetIds: string[]): Promise<void> {
+    if (assetIds.length === 0) {
+      return;
+    }
+    await this.quarantinedPriceRepository.update(
+      { assetId: In(assetIds), status: QuarantinedPriceStatus.PENDING },
+      { status: QuarantinedPriceStatus.SUPERSEDED },
+    );
+  }
+
+  async getQuarantinedPrices(query: QuarantinedPriceQuery): Promise<{ data: QuarantinedPrice[]; total: number }> {
+    const { status, executionId, symbol, limit = 50, offset = 0 } = query;
+    const queryBuilder = this.quarantinedPriceRepository.createQueryBuilder('quarantined');
+
+    if (status) {
+      queryBuilder.andWhere('quarantined.status = :status', { status });
+    }
+    if (executionId) {
+      queryBuilder.andWhere('quarantined.executionId = :executionId', { executionId });
+    }
+    if (symbol) {
+      queryBuilder.andWhere('quarantined.symbol ILIKE :symbol', { symbol: `%${symbol}%` });
+    }
+
+    const [data, total] = await queryBuilder
+      .orderBy('quarantined.createdAt', 'DESC')
+      .skip(offset)
+      .take(limit)
+      .getManyAndCount();
+    return { data: data.map((record) => this.toNumbers(record)), total };
+  }
+
+  /**
+   * Apply a quarantined price as if the sync had accepted it
+   */
+  async approve(id: string, reviewer: string, note?: string): Promise<QuarantinedPrice> {
+    const record = await this.getPendingOrFail(id);
+    const price = Number(record.price);
+    const now = new Date();
+
+    const assetPrice = await this.assetPriceRepository.findOne({ where: { assetId: record.assetId } });
+    if (assetPrice) {
+      await this.assetPriceRepository.update(assetPrice.id, {
+        currentPrice: price,
+        priceType: PriceType.EXTERNAL,
+        priceSource: PriceSource.EXTERNAL_API,
+        lastPriceUpdate: now,
+      });
+    } else {
+      await this.assetPriceRepository.save(this.assetPriceRepository.create({
+        assetId: record.assetId,
+        currentPrice: price,
+        priceType: PriceType.EXTERNAL,
+        priceSource: PriceSource.EXTERNAL_API,
+        lastPriceUpdate: now,
+      }));
+    }
+
+    await this.assetPriceHistoryRepository.save(this.assetPriceHistoryRepository.create({
+      assetId: record.assetId,
+      price,
+      priceType: PriceType.EXTERNAL,
+      priceSource: PriceSource.EXTERNAL_API,
+      changeReason: `Approved quarantined price ${record.createdAt.toLocaleDateString('vi-VN')}`,
+      createdAt: record.createdAt,
+      metadata: {
+        source: record.source,
+        provider: record.source,
+        syncId: record.executionId,
+        quarantineId: record.id,
+        approvedBy: reviewer,
+      },
+    }));
+
+    // A failure to update the daily bars never fails the approval
+    try {
+      await this.dailyBarService.recordIntradayPrices([
+        { assetId: record.assetId, price, source: record.source, timestamp: record.createdAt },
+      ]);
+    } catch (error) {
+      this.logger.error(`Failed to update daily bar of ${record.symbol}: ${error.message}`);
+    }
+
+    this.logger.log(`Quarantined price ${price} of ${record.symbol} approved by ${reviewer}`);
+    return this.review(record, QuarantinedPriceStatus.APPROVED, reviewer, note);
+  }
+
+  /**
+   * Discard a quarantined price; the asset keeps its current price
+   */
+  async reject(id: string, reviewer: string, note?: string): Promise<QuarantinedPrice> {
+    const record = await this.getPendingOrFail(id);
+    this.logger.log(`Quarantined price ${record.price} of ${record.symbol} rejected by ${reviewer}`);
+    return this.review(record, QuarantinedPriceStatus.REJECTED, reviewer, note);
+  }
+
+  private async review(
+    record: QuarantinedPrice,
+    status: QuarantinedPriceStatus,
+    reviewer: string,
+    note?: string,
+  ): Promise<QuarantinedPrice> {
+    Object.assign(record, { status, reviewedBy: reviewer, reviewedAt: new Date(), reviewNote: note || null });
+    return this.toNumbers(await this.quarantinedPriceRepository.save(record));
+  }
+
+  private async getPendingOrFail(id: string): Promise<QuarantinedPrice> {
+    const record = await this.quarantinedPriceRepository.findOne({ where: { id } });
+    if (!record) {
+      throw new NotFoundException(`Quarantined price ${id} not found`);
+    }
+    if (record.status !== QuarantinedPriceStatus.PENDING) {
+      throw new BadRequestException(`Quarantined price ${id} is already ${record.status.toLowerCase()}`);
+    }
+    return record;
+  }
+
+  /**
+   * Daily price band of an exchange from nations.json, or null when it has none
+   */
+  private getPriceLimit(nation: string, marketCode: string): number | null {
+    const key = `${nation}|${marketCode}`;
+    if (!this.priceLimits.has(key)) {
+      let limit: number | null = null;
+      try {
+        const market = NationConfigUtils.getNationConfig(nation as NationCode).marketCodes
+          .find((code) => code.code === marketCode?.toUpperCase());
+        limit = market?.priceLimitPercent ?? null;
+      } catch (error) {
+        this.logger.warn(`Price limit unavailable for ${key}: ${error.message}`);
+      }
+      this.priceLimits.set(key, limit);
+    }
+    return this.priceLimits.get(key) ?? null;
+  }
+
+  private toNumbers(record: QuarantinedPrice): QuarantinedPrice {
+    return Object.assign(record, {
+      price: Number(record.price),
+      lastPrice: record.lastPrice === null ? null : Number(record.lastPrice),
+      previousClose: record.previousClose === null ? null : Number(record.previousClose),
+    });
+  }
+}
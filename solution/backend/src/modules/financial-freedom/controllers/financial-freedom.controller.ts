@@ -10,7 +10,7 @@ import {
   UnauthorizedException,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
-import { FinancialFreedomPlanService } from '../services';
+import { FinancialFreedomPlanService, MonteCarloSimulationService } from '../services';
 import { 
   CreatePlanDto, 
   UpdatePlanDto, 
@@ -21,6 +21,9 @@ import {
   UnlinkPortfolioRequestDto,
   ProgressResponseDto,
   AllocationComparisonResponseDto,
+  MonteCarloOptionsDto,
+  MonteCarloRequestDto,
+  MonteCarloResponseDto,
 } from '../dto';
 
 @ApiTags('Financial Freedom')
@@ -28,6 +31,7 @@ import {
 export class FinancialFreedomController {
   constructor(
     private readonly planService: FinancialFreedomPlanService,
+    private readonly monteCarloService: MonteCarloSimulationService,
   ) {}
 
   @Post('plans')
@@ -205,5 +209,34 @@ export class FinancialFreedomController {
     }
     return this.planService.compareAllocationWithCurrent(id, accountId);
   }
-}
 
+  @Post('plans/:id/monte-carlo')
+  @ApiOperation({ summary: 'Run a Monte Carlo simulation of a financial freedom plan' })
+  @ApiResponse({ status: 200, description: 'Simulation completed', type: MonteCarloResponseDto })
+  @ApiResponse({ status: 400, description: 'Plan has no allocation or horizon to simulate' })
+  @ApiResponse({ status: 404, description: 'Plan not found' })
+  async simulatePlan(
+    @Param('id') id: string,
+    @Body() options: MonteCarloOptionsDto,
+    @Query('accountId') accountId: string,
+  ): Promise<MonteCarloResponseDto> {
+    if (!accountId) {
+      throw new UnauthorizedException('accountId query parameter is required');
+    }
+    return this.monteCarloService.simulatePlan(id, accountId, options);
+  }
+
+  @Post('monte-carlo')
+  @ApiOperation({ summary: 'Run a Monte Carlo simulation of unsaved plan inputs' })
+  @ApiResponse({ status: 200, description: 'Simulation completed', type: MonteCarloResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async simulate(
+    @Body() request: MonteCarloRequestDto,
+    @Query('accountId') accountId: string,
+  ): Promise<MonteCarloResponseDto> {
+    if (!accountId) {
+      throw new UnauthorizedException('accountId query parameter is required');
+    }
+    return this.monteCarloService.simulate(request);
+  }
+}
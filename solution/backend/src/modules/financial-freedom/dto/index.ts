@@ -5,4 +5,4 @@ export * from './plan-response.dto';
 export * from './link-request.dto';
 export * from './progress-response.dto';
 export * from './allocation-comparison-response.dto';
-
+export * from './monte-carlo.dto';
@@ -0,0 +1,209 @@
+import {
+  IsString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsInt,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentFrequency, PaymentType } from '../entities/financial-freedom-plan.entity';
+import { AssetAllocationItemDto, AssetAllocationDto } from './asset-allocation.dto';
+
+// Override of the return/risk assumption of one asset class (annual percent)
+export class AssetClassAssumptionOverrideDto {
+  @ApiProperty({ example: 'stock' })
+  @IsString()
+  code: string;
+
+  @ApiPropertyOptional({ example: 12 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-100)
+  @Max(100)
+  expectedReturn?: number;
+
+  @ApiPropertyOptional({ example: 22 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(200)
+  volatility?: number;
+}
+
+// Override of the correlation between two asset classes
+export class AssetClassCorrelationOverrideDto {
+  @ApiProperty({ example: 'stock' })
+  @IsString()
+  codeA: string;
+
+  @ApiProperty({ example: 'bond' })
+  @IsString()
+  codeB: string;
+
+  @ApiProperty({ example: 0.1 })
+  @IsNumber()
+  @Min(-1)
+  @Max(1)
+  correlation: number;
+}
+
+export class MonteCarloOptionsDto {
+  @ApiPropertyOptional({ description: 'Number of simulated paths', default: 5000, minimum: 100, maximum: 20000 })
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  @Max(20000)
+  paths?: number;
+
+  @ApiPropertyOptional({ description: 'Random seed, for reproducible results' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  seed?: number;
+
+  @ApiPropertyOptional({ description: 'Years of price history used to estimate volatility and correlation', default: 5 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  lookbackYears?: number;
+
+  @ApiPropertyOptional({ type: [AssetClassAssumptionOverrideDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AssetClassAssumptionOverrideDto)
+  assumptions?: AssetClassAssumptionOverrideDto[];
+
+  @ApiPropertyOptional({ type: [AssetClassCorrelationOverrideDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AssetClassCorrelationOverrideDto)
+  correlations?: AssetClassCorrelationOverrideDto[];
+}
+
+// Simulation of plan inputs that are not saved yet (plan wizard)
+export class MonteCarloRequestDto extends MonteCarloOptionsDto {
+  @ApiProperty({ type: [AssetAllocationItemDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AssetAllocationItemDto)
+  suggestedAllocation: AssetAllocationDto;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  initialInvestment: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  periodicPayment?: number;
+
+  @ApiProperty({ enum: PaymentFrequency, default: PaymentFrequency.MONTHLY })
+  @IsEnum(PaymentFrequency)
+  paymentFrequency: PaymentFrequency;
+
+  @ApiProperty({ enum: PaymentType, default: PaymentType.CONTRIBUTION })
+  @IsEnum(PaymentType)
+  paymentType: PaymentType;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0.1)
+  @Max(100)
+  investmentYears: number;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  futureValueRequired: number;
+}
+
+export class MonteCarloAssumptionDto {
+  @ApiProperty({ example: 'stock' })
+  code: string;
+
+  @ApiProperty({ description: 'Portfolio weight (%)', example: 60 })
+  allocation: number;
+
+  @ApiProperty({ description: 'Expected annual return (%)', example: 12 })
+  expectedReturn: number;
+
+  @ApiProperty({ description: 'Annual volatility (%)', example: 22 })
+  volatility: number;
+
+  @ApiProperty({ enum: ['plan', 'custom'], description: 'Where the expected return comes from' })
+  returnSource: 'plan' | 'custom';
+
+  @ApiProperty({ enum: ['historical', 'default', 'custom'], description: 'Where the volatility comes from' })
+  volatilitySource: 'historical' | 'default' | 'custom';
+
+  @ApiProperty({ description: 'Months of price history found for this asset class', example: 48 })
+  historyMonths: number;
+}
+
+export class MonteCarloBandDto {
+  @ApiProperty({ example: 5 })
+  year: number;
+
+  @ApiProperty({ description: '10th percentile wealth' })
+  p10: number;
+
+  @ApiProperty({ description: '25th percentile wealth' })
+  p25: number;
+
+  @ApiProperty({ description: 'Median wealth' })
+  p50: number;
+
+  @ApiProperty({ description: '75th percentile wealth' })
+  p75: number;
+
+  @ApiProperty({ description: '90th percentile wealth' })
+  p90: number;
+
+  @ApiProperty({ description: 'Probability of being at or above the target at this year (%)' })
+  probabilityAboveTarget: number;
+}
+
+export class MonteCarloResponseDto {
+  @ApiProperty({ description: 'Probability of reaching futureValueRequired by the end of the horizon (%)', example: 72.4 })
+  successProbability: number;
+
+  @ApiProperty({ description: 'Probability of the portfolio running out of money (%)', example: 0 })
+  depletionProbability: number;
+
+  @ApiProperty({ description: 'Median years to reach the target, null when fewer than half of the paths reach it', nullable: true })
+  medianYearsToTarget: number | null;
+
+  @ApiProperty()
+  targetValue: number;
+
+  @ApiProperty()
+  investmentYears: number;
+
+  @ApiProperty()
+  paths: number;
+
+  @ApiProperty({ description: 'Seed used; send it back to reproduce the result' })
+  seed: number;
+
+  @ApiProperty({ type: [MonteCarloBandDto] })
+  bands: MonteCarloBandDto[];
+
+  @ApiProperty({ type: [MonteCarloAssumptionDto] })
+  assumptions: MonteCarloAssumptionDto[];
+
+  @ApiProperty({ description: 'Correlations used, keyed by asset class code', type: 'object' })
+  correlations: Record<string, Record<string, number>>;
+
+  @ApiProperty({ enum: ['historical', 'default', 'custom', 'mixed'], description: 'Where the correlations come from' })
+  correlationSource: 'historical' | 'default' | 'custom' | 'mixed';
+}
@@ -1,25 +1,26 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { FinancialFreedomPlan } from './entities';
-import { FinancialFreedomPlanService } from './services';
+import { FinancialFreedomPlanService, MonteCarloSimulationService } from './services';
 import { FinancialFreedomController } from './controllers';
 import { GoalModule } from '../goal/goal.module';
 import { PortfolioModule } from '../portfolio/portfolio.module';
 import { AssetModule } from '../asset/asset.module';
 import { PortfolioGoal, GoalPortfolio } from '../goal/entities';
 import { SharedModule } from '../shared/shared.module';
+import { AssetPriceHistory } from '../asset/entities/asset-price-history.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([FinancialFreedomPlan, PortfolioGoal, GoalPortfolio]),
+    TypeOrmModule.forFeature([FinancialFreedomPlan, PortfolioGoal, GoalPortfolio, AssetPriceHistory]),
     forwardRef(() => GoalModule),
     forwardRef(() => PortfolioModule),
     forwardRef(() => AssetModule),
     forwardRef(() => SharedModule),
   ],
   controllers: [FinancialFreedomController],
-  providers: [FinancialFreedomPlanService],
-  exports: [FinancialFreedomPlanService],
+  providers: [FinancialFreedomPlanService, MonteCarloSimulationService],
+  exports: [FinancialFreedomPlanService, MonteCarloSimulationService],
 })
 export class FinancialFreedomModule {}
 
@@ -1,2 +1,2 @@
 export * from './financial-freedom-plan.service';
-
+export * from './monte-carlo-simulation.service';
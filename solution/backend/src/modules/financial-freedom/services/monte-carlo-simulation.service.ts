@@ -0,0 +1,282 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { FinancialFreedomPlan, PaymentType } from '../entities/financial-freedom-plan.entity';
+import { AssetPriceHistory } from '../../asset/entities/asset-price-history.entity';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import {
+  AssetAllocationDto,
+  MonteCarloOptionsDto,
+  MonteCarloRequestDto,
+  MonteCarloResponseDto,
+  MonteCarloAssumptionDto,
+} from '../dto';
+import { estimateAssetClassStatistics, runMonteCarloSimulation } from '../utils/monte-carlo.util';
+
+/**
+ * Annual volatility (%) used when an asset class has no usable price history
+ */
+const DEFAULT_VOLATILITY: Record<string, number> = {
+  stock: 22,
+  bond: 5,
+  gold: 15,
+  realestate: 12,
+  crypto: 70,
+  commodity: 20,
+  currency: 6,
+  cash: 0.5,
+  deposit: 0.5,
+  other: 15,
+};
+
+/**
+ * Correlations used when two asset classes have no overlapping price history; unlisted pairs are uncorrelated
+ */
+const DEFAULT_CORRELATIONS: Record<string, Record<string, number>> = {
+  stock: { bond: 0.1, realestate: 0.5, crypto: 0.3, commodity: 0.3, gold: 0.05 },
+  bond: { realestate: 0.2, gold: 0.1 },
+  gold: { commodity: 0.4, currency: 0.2 },
+  realestate: { commodity: 0.2 },
+  crypto: { commodity: 0.1 },
+};
+
+const CODE_TO_ASSET_TYPE: Record<string, AssetType> = {
+  stock: AssetType.STOCK,
+  bond: AssetType.BOND,
+  gold: AssetType.GOLD,
+  crypto: AssetType.CRYPTO,
+  commodity: AssetType.COMMODITY,
+  realestate: AssetType.REALESTATE,
+  currency: AssetType.CURRENCY,
+  other: AssetType.OTHER,
+};
+
+const DEFAULT_PATHS = 5000;
+const DEFAULT_LOOKBACK_YEARS = 5;
+const MIN_HISTORY_MONTHS = 12;
+
+interface SimulationInputs {
+  suggestedAllocation: AssetAllocationDto;
+  initialInvestment: number;
+  periodicPayment: number;
+  paymentFrequency: string;
+  paymentType: string;
+  investmentYears: number;
+  futureValueRequired: number;
+}
+
+@Injectable()
+export class MonteCarloSimulationService {
+  private readonly logger = new Logger(MonteCarloSimulationService.name);
+
+  constructor(
+    @InjectRepository(FinancialFreedomPlan)
+    private readonly planRepository: Repository<FinancialFreedomPlan>,
+    @InjectRepository(AssetPriceHistory)
+    private readonly assetPriceHistoryRepository: Repository<AssetPriceHistory>,
+  ) {}
+
+  /**
+   * Simulate a saved plan
+   */
+  async simulatePlan(planId: string, accountId: string, options: MonteCarloOptionsDto = {}): Promise<MonteCarloResponseDto> {
+    const plan = await this.planRepository.findOne({
+      where: { id: planId, accountId },
+    });
+
+    if (!plan) {
+      throw new NotFoundException(`Plan with ID ${planId} not found`);
+    }
+
+    return this.simulateInputs(
+      {
+        suggestedAllocation: plan.suggestedAllocation || [],
+        initialInvestment: Number(plan.initialInvestment || 0),
+        periodicPayment: Number(plan.periodicPayment || 0),
+        paymentFrequency: plan.paymentFrequency,
+        paymentType: plan.paymentType,
+        investmentYears: Number(plan.investmentYears || 0),
+        futureValueRequired: Number(plan.futureValueRequired || 0),
+      },
+      options,
+    );
+  }
+
+  /**
+   * Simulate plan inputs that are not saved yet
+   */
+  async simulate(request: MonteCarloRequestDto): Promise<MonteCarloResponseDto> {
+    return this.simulateInputs(
+      {
+        suggestedAllocation: request.suggestedAllocation,
+        initialInvestment: request.initialInvestment,
+        periodicPayment: request.periodicPayment || 0,
+        paymentFrequency: request.paymentFrequency,
+        paymentType: request.paymentType,
+        investmentYears: request.investmentYears,
+        futureValueRequired: request.futureValueRequired,
+      },
+      request,
+    );
+  }
+
+  private async simulateInputs(inputs: SimulationInputs, options: MonteCarloOptionsDto): Promise<MonteCarloResponseDto> {
+    const allocation = (inputs.suggestedAllocation || [])
+      .map((item) => ({ ...item, code: item.code.toLowerCase(), allocation: Number(item.allocation) }))
+      .filter((item) => item.allocation > 0);
+    if (allocation.length === 0) {
+      throw new BadRequestException('Plan has no asset allocation to simulate');
+    }
+    if (!inputs.investmentYears || inputs.investmentYears <= 0) {
+      throw new BadRequestException('Plan has no investment horizon to simulate');
+    }
+
+    const codes = allocation.map((item) => item.code);
+    const history = await this.loadHistoricalStatistics(codes, options.lookbackYears || DEFAULT_LOOKBACK_YEARS);
+    const overrides = new Map((options.assumptions || []).map((item) => [item.code.toLowerCase(), item]));
+
+    const assumptions: MonteCarloAssumptionDto[] = allocation.map((item) => {
+      const override = overrides.get(item.code);
+      const hasCustomReturn = override?.expectedReturn !== undefined && override?.expectedReturn !== null;
+      const hasCustomVolatility = override?.volatility !== undefined && override?.volatility !== null;
+      const historical = history.volatility[item.code];
+      return {
+        code: item.code,
+        allocation: item.allocation,
+        expectedReturn: hasCustomReturn ? override.expectedReturn : Number(item.expectedReturn || 0),
+        volatility: hasCustomVolatility
+          ? override.volatility
+          : historical !== undefined ? round(historical) : DEFAULT_VOLATILITY[item.code] ?? DEFAULT_VOLATILITY.other,
+        returnSource: hasCustomReturn ? 'custom' : 'plan',
+        volatilitySource: hasCustomVolatility ? 'custom' : historical !== undefined ? 'historical' : 'default',
+        historyMonths: history.months[item.code] || 0,
+      };
+    });
+
+    const customCorrelations = new Map<string, number>();
+    for (const item of options.correlations || []) {
+      customCorrelations.set(pairKey(item.codeA.toLowerCase(), item.codeB.toLowerCase()), item.correlation);
+    }
+    const sources = new Set<string>();
+    const matrix = codes.map((a, i) => codes.map((b, j) => {
+      if (i === j) return 1;
+      const custom = customCorrelations.get(pairKey(a, b));
+      const historical = history.correlations[a]?.[b];
+      const source = custom !== undefined ? 'custom' : historical !== undefined ? 'historical' : 'default';
+      if (i < j) sources.add(source);
+      if (custom !== undefined) return custom;
+      if (historical !== undefined) return historical;
+      return DEFAULT_CORRELATIONS[a]?.[b] ?? DEFAULT_CORRELATIONS[b]?.[a] ?? 0;
+    }));
+
+    const paths = options.paths || DEFAULT_PATHS;
+    const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+    const outcome = runMonteCarloSimulation({
+      initialValue: inputs.initialInvestment,
+      periodicPayment: inputs.periodicPayment,
+      isWithdrawal: inputs.paymentType === PaymentType.WITHDRAWAL,
+      periodsPerYear: this.getPeriodsPerYear(inputs.paymentFrequency),
+      years: inputs.investmentYears,
+      targetValue: inputs.futureValueRequired,
+      assumptions,
+      correlations: matrix,
+      paths,
+      seed,
+    });
+
+    const correlations: Record<string, Record<string, number>> = {};
+    codes.forEach((a, i) => {
+      correlations[a] = {};
+      codes.forEach((b, j) => {
+        correlations[a][b] = round(outcome.correlations[i][j], 4);
+      });
+    });
+
+    return {
+      successProbability: round(outcome.successProbability),
+      depletionProbability: round(outcome.depletionProbability),
+      medianYearsToTarget: outcome.medianYearsToTarget === null ? null : round(outcome.medianYearsToTarget),
+      targetValue: inputs.futureValueRequired,
+      investmentYears: inputs.investmentYears,
+      paths,
+      seed,
+      bands: outcome.bands.map((band) => ({
+        year: band.year,
+        p10: round(band.p10),
+        p25: round(band.p25),
+        p50: round(band.p50),
+        p75: round(band.p75),
+        p90: round(band.p90),
+        probabilityAboveTarget: round(band.probabilityAboveTarget),
+      })),
+      assumptions,
+      correlations,
+      correlationSource: sources.size === 0 ? 'default' : sources.size === 1 ? ([...sources][0] as MonteCarloResponseDto['correlationSource']) : 'mixed',
+    };
+  }
+
+  /**
+   * Volatility and correlations of the plan's asset classes from month-end closes of the global assets of each class.
+   * Falls back to no history (defaults) when the query fails.
+   */
+  private async loadHistoricalStatistics(codes: string[], lookbackYears: number) {
+    const typeToCode = new Map<string, string>();
+    codes.forEach((code) => {
+      if (CODE_TO_ASSET_TYPE[code]) typeToCode.set(CODE_TO_ASSET_TYPE[code], code);
+    });
+    if (typeToCode.size === 0) {
+      return { volatility: {}, correlations: {}, months: {} };
+    }
+
+    const since = new Date();
+    since.setFullYear(since.getFullYear() - lookbackYears);
+
+    try {
+      const rows: Array<{ type: string; assetId: string; month: string; price: string }> = await this.assetPriceHistoryRepository.query(
+        `SELECT ga.type AS "type", h.asset_id AS "assetId", TO_CHAR(h.created_at, 'YYYY-MM') AS "month", h.price AS "price"
+         FROM (
+           SELECT DISTINCT ON (asset_id, date_trunc('month', created_at)) asset_id, created_at, price
+           FROM asset_price_history
+           WHERE created_at >= $1 AND created_at < date_trunc('month', now())
+           ORDER BY asset_id, date_trunc('month', created_at), created_at DESC
+         ) h
+         INNER JOIN global_assets ga ON ga.id = h.asset_id
+         WHERE ga.type::text = ANY($2) AND h.price > 0`,
+        [since, [...typeToCode.keys()]],
+      );
+
+      const closesByClass: Record<string, Record<string, Record<string, number>>> = {};
+      for (const row of rows) {
+        const code = typeToCode.get(row.type);
+        if (!code) continue;
+        const assets = (closesByClass[code] = closesByClass[code] || {});
+        (assets[row.assetId] = assets[row.assetId] || {})[row.month] = Number(row.price);
+      }
+
+      return estimateAssetClassStatistics(closesByClass, MIN_HISTORY_MONTHS);
+    } catch (error) {
+      this.logger.warn(`Falling back to default Monte Carlo assumptions: ${error.message}`);
+      return { volatility: {}, correlations: {}, months: {} };
+    }
+  }
+
+  private getPeriodsPerYear(frequency: string): number {
+    switch (frequency?.toLowerCase()) {
+      case 'quarterly':
+        return 4;
+      case 'yearly':
+        return 1;
+      default:
+        return 12;
+    }
+  }
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,128 @@
+import {
+  choleskyDecompose,
+  createSeededRandom,
+  estimateAssetClassStatistics,
+  percentile,
+  repairCorrelationMatrix,
+  runMonteCarloSimulation,
+  MonteCarloInputs,
+} from './monte-carlo.util';
+
+describe('monte-carlo.util', () => {
+  const baseInputs: MonteCarloInputs = {
+    initialValue: 100_000,
+    periodicPayment: 1_000,
+    isWithdrawal: false,
+    periodsPerYear: 12,
+    years: 10,
+    targetValue: 300_000,
+    assumptions: [
+      { code: 'stock', allocation: 60, expectedReturn: 10, volatility: 20 },
+      { code: 'bond', allocation: 40, expectedReturn: 5, volatility: 5 },
+    ],
+    correlations: [[1, 0.1], [0.1, 1]],
+    paths: 2000,
+    seed: 42,
+  };
+
+  it('should produce the same sequence for the same seed', () => {
+    const first = createSeededRandom(7);
+    const second = createSeededRandom(7);
+    const values = Array.from({ length: 5 }, () => first());
+
+    expect(values).toEqual(Array.from({ length: 5 }, () => second()));
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should interpolate percentiles', () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([0, 10], 25)).toBe(2.5);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it('should factor a positive definite matrix and reject one that is not', () => {
+    const lower = choleskyDecompose([[1, 0.5], [0.5, 1]]);
+    expect(lower[1][0]).toBeCloseTo(0.5);
+    expect(lower[1][1]).toBeCloseTo(Math.sqrt(0.75));
+
+    expect(choleskyDecompose([[1, 0.9, -0.9], [0.9, 1, 0.9], [-0.9, 0.9, 1]])).toBeNull();
+  });
+
+  it('should shrink correlations until the matrix is positive definite', () => {
+    const { matrix, lower } = repairCorrelationMatrix([[1, 0.9, -0.9], [0.9, 1, 0.9], [-0.9, 0.9, 1]], 3);
+
+    expect(lower).not.toBeNull();
+    expect(Math.abs(matrix[0][1])).toBeLessThan(0.9);
+    expect(matrix[0][0]).toBe(1);
+    expect(matrix[1][0]).toBe(matrix[0][1]);
+  });
+
+  it('should be reproducible and return ordered bands for every year', () => {
+    const first = runMonteCarloSimulation(baseInputs);
+    const second = runMonteCarloSimulation(baseInputs);
+
+    expect(first).toEqual(second);
+    expect(first.bands).toHaveLength(11);
+    expect(first.bands[0]).toMatchObject({ year: 0, p10: 100_000, p50: 100_000, p90: 100_000 });
+    first.bands.forEach((band) => {
+      expect(band.p10).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p90);
+    });
+    expect(first.successProbability).toBe(first.bands[10].probabilityAboveTarget);
+  });
+
+  it('should match the deterministic future value when there is no volatility', () => {
+    const outcome = runMonteCarloSimulation({
+      ...baseInputs,
+      assumptions: [{ code: 'cash', allocation: 100, expectedReturn: 6, volatility: 0 }],
+      correlations: undefined,
+      paths: 10,
+    });
+    const monthly = 0.06 / 12;
+    const months = 120;
+    const expected = 100_000 * (1 + monthly) ** months + 1_000 * (((1 + monthly) ** months - 1) / monthly);
+
+    expect(outcome.bands[10].p10).toBeCloseTo(expected, 2);
+    expect(outcome.bands[10].p90).toBeCloseTo(expected, 2);
+    expect(outcome.successProbability).toBe(100);
+  });
+
+  it('should count depleted paths when withdrawals exceed growth', () => {
+    const outcome = runMonteCarloSimulation({
+      ...baseInputs,
+      initialValue: 50_000,
+      periodicPayment: 1_000,
+      isWithdrawal: true,
+      targetValue: 1,
+      paths: 500,
+    });
+
+    expect(outcome.depletionProbability).toBeGreaterThan(90);
+    expect(outcome.bands[10].p50).toBe(0);
+  });
+
+  it('should estimate volatility and correlation from month-end closes', () => {
+    const stock: Record<string, number> = {};
+    const bond: Record<string, number> = {};
+    let stockPrice = 100;
+    let bondPrice = 100;
+    for (let i = 0; i < 24; i++) {
+      const month = `${2024 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`;
+      stockPrice *= i % 2 === 0 ? 1.05 : 0.97;
+      bondPrice *= i % 2 === 0 ? 1.01 : 0.995;
+      stock[month] = stockPrice;
+      bond[month] = bondPrice;
+    }
+
+    const stats = estimateAssetClassStatistics({ stock: { VNM: stock }, bond: { GOV: bond }, gold: { SJC: { '2024-01': 1 } } });
+
+    expect(stats.months.stock).toBe(23);
+    expect(stats.volatility.stock).toBeGreaterThan(stats.volatility.bond);
+    expect(stats.volatility.gold).toBeUndefined();
+    expect(stats.correlations.stock.bond).toBeCloseTo(1, 5);
+    expect(stats.correlations.bond.stock).toBe(stats.correlations.stock.bond);
+  });
+});
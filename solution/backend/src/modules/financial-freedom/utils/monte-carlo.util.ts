@@ -0,0 +1,318 @@
+/**
+ * Return and risk assumption of one asset class, in annual percent
+ */
+export interface AssetClassAssumption {
+  code: string;
+  /** Portfolio weight in percent */
+  allocation: number;
+  expectedReturn: number;
+  volatility: number;
+}
+
+export interface MonteCarloInputs {
+  initialValue: number;
+  /** Amount added (contribution) or taken out (withdrawal) every payment period */
+  periodicPayment: number;
+  isWithdrawal: boolean;
+  periodsPerYear: number;
+  years: number;
+  targetValue: number;
+  assumptions: AssetClassAssumption[];
+  /** Correlation matrix in the order of assumptions; identity when omitted */
+  correlations?: number[][];
+  paths: number;
+  seed: number;
+}
+
+export interface MonteCarloYearBand {
+  year: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  /** Share of paths at or above the target at the end of the year, in percent */
+  probabilityAboveTarget: number;
+}
+
+export interface MonteCarloOutcome {
+  /** Share of paths at or above the target at the end of the horizon, in percent */
+  successProbability: number;
+  /** Share of paths that ran out of money, in percent */
+  depletionProbability: number;
+  /** Median years until the target is first reached across all paths; null when fewer than half reach it */
+  medianYearsToTarget: number | null;
+  bands: MonteCarloYearBand[];
+  /** Correlation matrix actually used, after repairing it if it was not positive definite */
+  correlations: number[][];
+}
+
+const MONTHS_PER_YEAR = 12;
+
+/**
+ * Small, fast seeded generator (mulberry32) so that a simulation can be reproduced from its seed
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draws by the Box-Muller transform
+ */
+function createNormalGenerator(random: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    let u = 0;
+    while (u === 0) u = random();
+    const v = random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/**
+ * Lower-triangular Cholesky factor of a correlation matrix, or null when it is not positive definite
+ */
+export function choleskyDecompose(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const lower = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+      if (i === j) {
+        if (sum <= 1e-12) return null;
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+}
+
+/**
+ * Make a correlation matrix usable: symmetric, unit diagonal, values in [-1, 1],
+ * and positive definite by shrinking the off-diagonal terms towards zero when needed.
+ */
+export function repairCorrelationMatrix(matrix: number[][] | undefined, size: number): { matrix: number[][]; lower: number[][] } {
+  const base = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => {
+      if (i === j) return 1;
+      const value = Number(matrix?.[i]?.[j] ?? matrix?.[j]?.[i] ?? 0);
+      return Number.isFinite(value) ? Math.max(-1, Math.min(1, value)) : 0;
+    }));
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      base[i][j] = base[j][i] = (base[i][j] + base[j][i]) / 2;
+    }
+  }
+
+  for (let shrink = 1; shrink >= 0; shrink = Math.round((shrink - 0.05) * 100) / 100) {
+    const candidate = base.map((row, i) => row.map((value, j) => (i === j ? 1 : value * shrink)));
+    const lower = choleskyDecompose(candidate);
+    if (lower) {
+      return { matrix: candidate, lower };
+    }
+  }
+  const identity = base.map((row, i) => row.map((_, j) => (i === j ? 1 : 0)));
+  return { matrix: identity, lower: identity };
+}
+
+/**
+ * Value at a percentile of ascending sorted values, interpolating between neighbours
+ */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+/**
+ * Simulate wealth paths month by month. Every month each asset class draws a correlated normal return,
+ * the portfolio is rebalanced to its weights, and payments are made at the end of each payment period.
+ * A path that falls to zero stays there.
+ */
+export function runMonteCarloSimulation(inputs: MonteCarloInputs): MonteCarloOutcome {
+  const assumptions = inputs.assumptions.filter((item) => item.allocation > 0);
+  const totalAllocation = assumptions.reduce((sum, item) => sum + item.allocation, 0);
+  const size = assumptions.length;
+  const indices = inputs.assumptions
+    .map((item, index) => (item.allocation > 0 ? index : -1))
+    .filter((index) => index >= 0);
+  const { matrix, lower } = repairCorrelationMatrix(
+    inputs.correlations ? indices.map((i) => indices.map((j) => inputs.correlations[i]?.[j] ?? (i === j ? 1 : 0))) : undefined,
+    size,
+  );
+
+  const weights = assumptions.map((item) => (totalAllocation > 0 ? item.allocation / totalAllocation : 0));
+  const monthlyMeans = assumptions.map((item) => item.expectedReturn / 100 / MONTHS_PER_YEAR);
+  const monthlyVols = assumptions.map((item) => item.volatility / 100 / Math.sqrt(MONTHS_PER_YEAR));
+
+  const totalMonths = Math.max(1, Math.round(inputs.years * MONTHS_PER_YEAR));
+  const yearCount = Math.ceil(totalMonths / MONTHS_PER_YEAR);
+  const monthsPerPayment = Math.max(1, Math.round(MONTHS_PER_YEAR / (inputs.periodsPerYear || MONTHS_PER_YEAR)));
+  const payment = inputs.isWithdrawal ? -inputs.periodicPayment : inputs.periodicPayment;
+  const paths = Math.max(1, Math.floor(inputs.paths));
+
+  const normal = createNormalGenerator(createSeededRandom(inputs.seed));
+  const yearValues = Array.from({ length: yearCount + 1 }, () => new Float64Array(paths));
+  const draws = new Array<number>(size).fill(0);
+  const yearsToTarget: number[] = [];
+  let depleted = 0;
+
+  for (let path = 0; path < paths; path++) {
+    let wealth = inputs.initialValue;
+    let reachedAt: number | null = wealth >= inputs.targetValue && inputs.targetValue > 0 ? 0 : null;
+    yearValues[0][path] = wealth;
+
+    for (let month = 1; month <= totalMonths; month++) {
+      if (wealth > 0) {
+        for (let i = 0; i < size; i++) draws[i] = normal();
+        let portfolioReturn = 0;
+        for (let i = 0; i < size; i++) {
+          let correlated = 0;
+          for (let k = 0; k <= i; k++) correlated += lower[i][k] * draws[k];
+          portfolioReturn += weights[i] * (monthlyMeans[i] + monthlyVols[i] * correlated);
+        }
+        wealth *= 1 + Math.max(-1, portfolioReturn);
+      }
+      if (month % monthsPerPayment === 0 && (wealth > 0 || payment > 0)) {
+        wealth += payment;
+      }
+      if (wealth <= 0) {
+        wealth = 0;
+      }
+      if (reachedAt === null && inputs.targetValue > 0 && wealth >= inputs.targetValue) {
+        reachedAt = month / MONTHS_PER_YEAR;
+      }
+      if (month % MONTHS_PER_YEAR === 0 || month === totalMonths) {
+        yearValues[Math.ceil(month / MONTHS_PER_YEAR)][path] = wealth;
+      }
+    }
+
+    if (wealth === 0 && inputs.initialValue + Math.max(0, payment) > 0) depleted++;
+    if (reachedAt !== null) yearsToTarget.push(reachedAt);
+  }
+
+  const bands = yearValues.map((values, year) => {
+    const sorted = Float64Array.from(values).sort();
+    let above = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      if (sorted[i] >= inputs.targetValue) above++;
+    }
+    return {
+      year: year === yearCount ? Math.round(inputs.years * 100) / 100 : year,
+      p10: percentile(sorted, 10),
+      p25: percentile(sorted, 25),
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p90: percentile(sorted, 90),
+      probabilityAboveTarget: (above / paths) * 100,
+    };
+  });
+
+  yearsToTarget.sort((a, b) => a - b);
+
+  return {
+    successProbability: bands[bands.length - 1].probabilityAboveTarget,
+    depletionProbability: (depleted / paths) * 100,
+    medianYearsToTarget: yearsToTarget.length > paths / 2 ? percentile(yearsToTarget, (50 * paths) / yearsToTarget.length) : null,
+    bands,
+    correlations: matrix,
+  };
+}
+
+/**
+ * Annualised volatility (percent) and pairwise correlations of asset classes from month-end closes.
+ * Each class return for a month is the average return of its assets that have closes for that month and the previous one.
+ * Classes or pairs with fewer than minMonths observations are left out.
+ */
+export function estimateAssetClassStatistics(
+  closesByClass: Record<string, Record<string, Record<string, number>>>,
+  minMonths = 12,
+): { volatility: Record<string, number>; correlations: Record<string, Record<string, number>>; months: Record<string, number> } {
+  const classReturns: Record<string, Map<string, number>> = {};
+
+  for (const [code, assets] of Object.entries(closesByClass)) {
+    const sums = new Map<string, { total: number; count: number }>();
+    for (const closes of Object.values(assets)) {
+      const months = Object.keys(closes).sort();
+      for (let i = 1; i < months.length; i++) {
+        const previous = closes[months[i - 1]];
+        if (!previous || !isConsecutiveMonth(months[i - 1], months[i])) continue;
+        const entry = sums.get(months[i]) || { total: 0, count: 0 };
+        entry.total += closes[months[i]] / previous - 1;
+        entry.count++;
+        sums.set(months[i], entry);
+      }
+    }
+    classReturns[code] = new Map([...sums].map(([month, entry]) => [month, entry.total / entry.count]));
+  }
+
+  const volatility: Record<string, number> = {};
+  const months: Record<string, number> = {};
+  for (const [code, returns] of Object.entries(classReturns)) {
+    months[code] = returns.size;
+    if (returns.size >= minMonths) {
+      volatility[code] = standardDeviation([...returns.values()]) * Math.sqrt(MONTHS_PER_YEAR) * 100;
+    }
+  }
+
+  const correlations: Record<string, Record<string, number>> = {};
+  const codes = Object.keys(classReturns);
+  for (let i = 0; i < codes.length; i++) {
+    for (let j = i + 1; j < codes.length; j++) {
+      const left = classReturns[codes[i]];
+      const right = classReturns[codes[j]];
+      const shared = [...left.keys()].filter((month) => right.has(month));
+      if (shared.length < minMonths) continue;
+      const value = correlation(shared.map((m) => left.get(m)), shared.map((m) => right.get(m)));
+      if (value === null) continue;
+      (correlations[codes[i]] = correlations[codes[i]] || {})[codes[j]] = value;
+      (correlations[codes[j]] = correlations[codes[j]] || {})[codes[i]] = value;
+    }
+  }
+
+  return { volatility, correlations, months };
+}
+
+function isConsecutiveMonth(previous: string, current: string): boolean {
+  const [py, pm] = previous.split('-').map(Number);
+  const [cy, cm] = current.split('-').map(Number);
+  return cy * 12 + cm - (py * 12 + pm) === 1;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, values.length - 1);
+  return Math.sqrt(variance);
+}
+
+function correlation(left: number[], right: number[]): number | null {
+  const leftSd = standardDeviation(left);
+  const rightSd = standardDeviation(right);
+  if (leftSd === 0 || rightSd === 0) return null;
+  const leftMean = left.reduce((s, v) => s + v, 0) / left.length;
+  const rightMean = right.reduce((s, v) => s + v, 0) / right.length;
+  const covariance = left.reduce((s, v, i) => s + (v - leftMean) * (right[i] - rightMean), 0) / Math.max(1, left.length - 1);
+  return Math.max(-1, Math.min(1, covariance / (leftSd * rightSd)));
+}
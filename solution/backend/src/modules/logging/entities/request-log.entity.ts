@@ -22,6 +22,7 @@ import { Account } from '../../shared/entities/account.entity';
 @Index('idx_req_logs_response_status', ['responseStatus'])
 @Index('idx_req_logs_method', ['method'])
 @Index('idx_req_logs_url', ['url'])
+@Index('idx_req_logs_personal_access_token_id', ['personalAccessTokenId'])
 export class RequestLog {
   /**
    * Unique identifier for the log entry.
@@ -88,6 +89,13 @@ export class RequestLog {
   @Column({ type: 'uuid', nullable: true, name: 'user_id' })
   userId: string;
 
+  /**
+   * ID of the personal access token that authenticated the request.
+   * Null for requests made with a browser session.
+   */
+  @Column({ type: 'uuid', nullable: true, name: 'personal_access_token_id' })
+  personalAccessTokenId: string;
+
   /**
    * IP address of the client making the request.
    * Supports both IPv4 and IPv6 addresses.
@@ -20,6 +20,7 @@ export interface LogFilterOptions {
   operationName?: string;
   operationType?: string;
   requestId?: string;
+  personalAccessTokenId?: string;
   responseStatus?: number;
   minDuration?: number;
   maxDuration?: number;
@@ -174,6 +175,7 @@ export class LogRepository {
       userId,
       requestId,
       responseStatus,
+      personalAccessTokenId,
     } = filters;
 
     const where: FindOptionsWhere<RequestLog> = {};
@@ -196,6 +198,10 @@ export class LogRepository {
       where.responseStatus = responseStatus;
     }
 
+    if (personalAccessTokenId) {
+      where.personalAccessTokenId = personalAccessTokenId;
+    }
+
     const [data, total] = await this.requestLogRepository.findAndCount({
       where,
       order: { timestamp: 'DESC' },
@@ -1,10 +1,14 @@
 import { Logger } from '@nestjs/common';
 import { ApiCallInfo, ApiResult, ApiTrackingOptions } from '../interfaces/api-tracking.interface';
+import { MarketDataHarnessService } from '../services/market-data-harness.service';
 
 export abstract class ApiTrackingBase {
   protected readonly logger: Logger;
 
-  constructor(loggerContext: string) {
+  /**
+   * @param harness - Record/replay harness; calls go straight to the provider without it
+   */
+  constructor(loggerContext: string, private readonly harness?: MarketDataHarnessService) {
     this.logger = new Logger(loggerContext);
   }
 
@@ -16,13 +20,26 @@ export abstract class ApiTrackingBase {
     apiCall: () => Promise<T>,
     dataProcessor?: (data: T) => { symbolsProcessed: number; successfulSymbols: number; failedSymbols: number }
   ): Promise<ApiCallInfo> {
+    const { apiCallInfo } = await this.executeTrackedCall(options, apiCall, dataProcessor);
+    return apiCallInfo;
+  }
+
+  /**
+   * Execute API call with automatic tracking and return its data as well,
+   * so callers do not need to call the provider a second time
+   */
+  protected async executeTrackedCall<T>(
+    options: ApiTrackingOptions,
+    apiCall: () => Promise<T>,
+    dataProcessor?: (data: T) => { symbolsProcessed: number; successfulSymbols: number; failedSymbols: number }
+  ): Promise<{ apiCallInfo: ApiCallInfo; data: T | null }> {
     const startTime = Date.now();
     const { provider, endpoint, method = 'GET', requestData } = options;
 
     try {
       this.logger.debug(`Starting API call to ${provider}: ${endpoint}`);
       
-      const data = await apiCall();
+      const data = this.harness ? await this.harness.run(options, apiCall) : await apiCall();
       const responseTime = Date.now() - startTime;
       
       // Process data to get symbol counts if processor provided
@@ -56,7 +73,7 @@ export abstract class ApiTrackingBase {
       };
 
       this.logger.log(`API call successful: ${provider} - ${symbolsProcessed} symbols processed in ${responseTime}ms`);
-      return apiCallInfo;
+      return { apiCallInfo, data };
 
     } catch (error) {
       const responseTime = Date.now() - startTime;
@@ -75,7 +92,7 @@ export abstract class ApiTrackingBase {
       };
 
       this.logger.error(`API call failed: ${provider} - ${error.message}`, error.stack);
-      return apiCallInfo;
+      return { apiCallInfo, data: null };
     }
   }
 
@@ -96,7 +113,7 @@ export abstract class ApiTrackingBase {
     let totalFailedSymbols = 0;
 
     for (const { options, apiCall, dataProcessor } of apiCalls) {
-      const apiCallInfo = await this.executeWithTracking(options, apiCall, dataProcessor);
+      const { apiCallInfo, data } = await this.executeTrackedCall(options, apiCall, dataProcessor);
       
       allApiCalls.push(apiCallInfo);
       totalSymbols += apiCallInfo.symbolsProcessed;
@@ -105,12 +122,7 @@ export abstract class ApiTrackingBase {
 
       // Only add data if the call was successful
       if (apiCallInfo.statusCode === 200) {
-        try {
-          const data = await apiCall();
-          allData.push(data);
-        } catch (error) {
-          this.logger.warn(`Failed to get data for ${options.provider}: ${error.message}`);
-        }
+        allData.push(data);
       }
     }
 
@@ -4,6 +4,7 @@ import { firstValueFrom } from 'rxjs';
 import { BaseMarketData, MarketDataType, MarketDataSource } from '../types/market-data.types';
 import { CircuitBreakerService } from '../../shared/services/circuit-breaker.service';
 import { ApiTrackingBase } from '../base/api-tracking.base';
+import { MarketDataHarnessService } from '../services/market-data-harness.service';
 import { ApiResult } from '../interfaces/api-tracking.interface';
 
 export interface CryptoData extends BaseMarketData {
@@ -23,9 +24,10 @@ export class CryptoPriceAPIClient extends ApiTrackingBase {
 
   constructor(
     private readonly httpService: HttpService,
-    private readonly circuitBreakerService: CircuitBreakerService
+    private readonly circuitBreakerService: CircuitBreakerService,
+    harness: MarketDataHarnessService
   ) {
-    super(CryptoPriceAPIClient.name);
+    super(CryptoPriceAPIClient.name, harness);
   }
 
   /**
@@ -59,14 +61,14 @@ export class CryptoPriceAPIClient extends ApiTrackingBase {
       }),
     };
 
-    const result = await this.executeWithTracking(
+    const { apiCallInfo: result, data } = await this.executeTrackedCall(
       apiCall.options,
       apiCall.apiCall,
       apiCall.dataProcessor
     );
 
     return {
-      data: result.statusCode === 200 ? await apiCall.apiCall() : [],
+      data: data || [],
       apiCalls: [result],
       totalSymbols: result.symbolsProcessed,
       successfulSymbols: result.successfulSymbols,
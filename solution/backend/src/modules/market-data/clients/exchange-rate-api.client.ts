@@ -8,6 +8,7 @@ import {
 } from '../types/market-data.types';
 import { CircuitBreakerService } from '../../shared/services/circuit-breaker.service';
 import { ApiTrackingBase } from '../base/api-tracking.base';
+import { MarketDataHarnessService } from '../services/market-data-harness.service';
 import { ApiResult } from '../interfaces/api-tracking.interface';
 // Using regex parsing instead of external HTML parser
 
@@ -18,9 +19,10 @@ export class ExchangeRateAPIClient extends ApiTrackingBase {
 
   constructor(
     private readonly httpService: HttpService,
-    private readonly circuitBreakerService: CircuitBreakerService
+    private readonly circuitBreakerService: CircuitBreakerService,
+    harness: MarketDataHarnessService
   ) {
-    super(ExchangeRateAPIClient.name);
+    super(ExchangeRateAPIClient.name, harness);
   }
 
   /**
@@ -54,14 +56,14 @@ export class ExchangeRateAPIClient extends ApiTrackingBase {
       }),
     };
 
-    const result = await this.executeWithTracking(
+    const { apiCallInfo: result, data } = await this.executeTrackedCall(
       apiCall.options,
       apiCall.apiCall,
       apiCall.dataProcessor
     );
 
     return {
-      data: result.statusCode === 200 ? await apiCall.apiCall() : [],
+      data: data || [],
       apiCalls: [result],
       totalSymbols: result.symbolsProcessed,
       successfulSymbols: result.successfulSymbols,
@@ -10,6 +10,7 @@ import {
 } from '../types/market-data.types';
 import { CircuitBreakerService } from '../../shared/services/circuit-breaker.service';
 import { ApiTrackingBase } from '../base/api-tracking.base';
+import { MarketDataHarnessService } from '../services/market-data-harness.service';
 import { ApiResult } from '../interfaces/api-tracking.interface';
 
 @Injectable()
@@ -19,9 +20,10 @@ export class FundPriceAPIClient extends ApiTrackingBase {
 
   constructor(
     private readonly httpService: HttpService,
-    private readonly circuitBreakerService: CircuitBreakerService
+    private readonly circuitBreakerService: CircuitBreakerService,
+    harness: MarketDataHarnessService
   ) {
-    super(FundPriceAPIClient.name);
+    super(FundPriceAPIClient.name, harness);
   }
 
   /**
@@ -72,14 +74,14 @@ export class FundPriceAPIClient extends ApiTrackingBase {
       }),
     };
 
-    const result = await this.executeWithTracking(
+    const { apiCallInfo: result, data } = await this.executeTrackedCall(
       apiCall.options,
       apiCall.apiCall,
       apiCall.dataProcessor
     );
 
     return {
-      data: result.statusCode === 200 ? await apiCall.apiCall() : [],
+      data: data || [],
       apiCalls: [result],
       totalSymbols: result.symbolsProcessed,
       successfulSymbols: result.successfulSymbols,
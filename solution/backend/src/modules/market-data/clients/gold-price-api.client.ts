@@ -8,6 +8,7 @@ import {
 } from '../types/market-data.types';
 import { CircuitBreakerService } from '../../shared/services/circuit-breaker.service';
 import { ApiTrackingBase } from '../base/api-tracking.base';
+import { MarketDataHarnessService } from '../services/market-data-harness.service';
 import { ApiResult } from '../interfaces/api-tracking.interface';
 // Using regex parsing instead of external HTML parser
 
@@ -18,9 +19,10 @@ export class GoldPriceAPIClient extends ApiTrackingBase {
 
   constructor(
     private readonly httpService: HttpService,
-    private readonly circuitBreakerService: CircuitBreakerService
+    private readonly circuitBreakerService: CircuitBreakerService,
+    harness: MarketDataHarnessService
   ) {
-    super(GoldPriceAPIClient.name);
+    super(GoldPriceAPIClient.name, harness);
   }
 
   /**
@@ -57,14 +59,13 @@ export class GoldPriceAPIClient extends ApiTrackingBase {
       },
     };
 
-    const result = await this.executeWithTracking(
+    const { apiCallInfo: result, data } = await this.executeTrackedCall(
       apiCall.options,
       apiCall.apiCall,
       apiCall.dataProcessor
     );
 
-    // Fetch actual data
-    const fetchResult = result.statusCode === 200 ? await apiCall.apiCall() : { goldPrices: [], rejectedCount: 0 };
+    const fetchResult = data || { goldPrices: [], rejectedCount: 0 };
 
     return {
       data: fetchResult.goldPrices, // Return only valid gold prices
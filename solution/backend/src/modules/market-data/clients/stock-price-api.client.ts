@@ -9,6 +9,7 @@ import {
 } from '../types/market-data.types';
 import { CircuitBreakerService } from '../../shared/services/circuit-breaker.service';
 import { ApiTrackingBase } from '../base/api-tracking.base';
+import { MarketDataHarnessService } from '../services/market-data-harness.service';
 import { ApiResult } from '../interfaces/api-tracking.interface';
 
 export interface StockAPIResponse {
@@ -26,9 +27,10 @@ export class StockPriceAPIClient extends ApiTrackingBase {
 
   constructor(
     private readonly httpService: HttpService,
-    private readonly circuitBreakerService: CircuitBreakerService
+    private readonly circuitBreakerService: CircuitBreakerService,
+    harness: MarketDataHarnessService
   ) {
-    super(StockPriceAPIClient.name);
+    super(StockPriceAPIClient.name, harness);
   }
 
   /**
@@ -0,0 +1,75 @@
+import { Controller, Get, Post, Body, Query, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBody } from '@nestjs/swagger';
+import { FxRateService } from '../services/fx-rate.service';
+import { FxRate } from '../entities/fx-rate.entity';
+import { UpsertFxRateDto, FxConversionResult } from '../dto/fx-rate.dto';
+
+@ApiTags('FX Rates')
+@Controller('api/v1/fx-rates')
+export class FxRateController {
+  constructor(private readonly fxRateService: FxRateService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get historical rates for a currency pair' })
+  @ApiQuery({ name: 'fromCurrency', required: true, description: 'Currency being converted from', example: 'USD' })
+  @ApiQuery({ name: 'toCurrency', required: false, description: 'Currency being converted into (defaults to VND)' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Inclusive start date (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'Inclusive end date (YYYY-MM-DD)' })
+  @ApiResponse({ status: 200, description: 'Rates retrieved successfully', type: [FxRate] })
+  async getRateHistory(
+    @Query('fromCurrency') fromCurrency: string,
+    @Query('toCurrency') toCurrency?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ): Promise<FxRate[]> {
+    if (!fromCurrency) {
+      throw new BadRequestException('fromCurrency query parameter is required');
+    }
+    return this.fxRateService.getRateHistory(fromCurrency, toCurrency, startDate, endDate);
+  }
+
+  @Get('latest')
+  @ApiOperation({ summary: 'Get the latest stored rate of every currency' })
+  @ApiQuery({ name: 'toCurrency', required: false, description: 'Quote currency (defaults to VND)' })
+  @ApiResponse({ status: 200, description: 'Latest rates retrieved successfully', type: [FxRate] })
+  async getLatestRates(@Query('toCurrency') toCurrency?: string): Promise<FxRate[]> {
+    return this.fxRateService.getLatestRates(toCurrency);
+  }
+
+  @Get('convert')
+  @ApiOperation({ summary: 'Convert an amount between currencies at a historical rate' })
+  @ApiQuery({ name: 'amount', required: true, example: 100 })
+  @ApiQuery({ name: 'fromCurrency', required: true, example: 'USD' })
+  @ApiQuery({ name: 'toCurrency', required: true, example: 'VND' })
+  @ApiQuery({ name: 'date', required: false, description: 'Rate date (defaults to today)' })
+  @ApiResponse({ status: 200, description: 'Amount converted successfully' })
+  @ApiResponse({ status: 404, description: 'No rate available for the currency pair' })
+  async convert(
+    @Query('amount') amount: string,
+    @Query('fromCurrency') fromCurrency: string,
+    @Query('toCurrency') toCurrency: string,
+    @Query('date') date?: string,
+  ): Promise<FxConversionResult> {
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || !fromCurrency || !toCurrency) {
+      throw new BadRequestException('amount, fromCurrency and toCurrency query parameters are required');
+    }
+    return this.fxRateService.convert(parsedAmount, fromCurrency, toCurrency, date);
+  }
+
+  @Post('sync')
+  @ApiOperation({ summary: "Fetch and store today's rates from the exchange-rate provider" })
+  @ApiResponse({ status: 201, description: 'Rates synced successfully' })
+  async syncRates(): Promise<{ recorded: number }> {
+    const recorded = await this.fxRateService.syncRates();
+    return { recorded };
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Record a rate manually (e.g., to backfill historical trade dates)' })
+  @ApiBody({ type: UpsertFxRateDto })
+  @ApiResponse({ status: 201, description: 'Rate recorded successfully', type: FxRate })
+  async upsertRate(@Body() dto: UpsertFxRateDto): Promise<FxRate> {
+    return this.fxRateService.upsertRate(dto);
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { MarketDataProviderService } from '../services/market-data-provider.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { RequirePermissions } from '../../shared/decorators/permissions.decorator';
+import {
+  UpsertProviderPreferenceDto,
+  ProviderPreferenceResponseDto,
+  MarketDataProviderInfoDto,
+  MarketDataProviderHealthResponseDto,
+} from '../dto/market-data-provider.dto';
+
+@ApiTags('Market Data Providers')
+@ApiBearerAuth()
+@Controller('api/v1/market-data/providers')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class MarketDataProviderController {
+  constructor(private readonly marketDataProviderService: MarketDataProviderService) {}
+
+  @Get()
+  @RequirePermissions(['global_assets.read'])
+  @ApiOperation({ summary: 'List registered market data providers' })
+  @ApiResponse({ status: 200, description: 'Providers retrieved successfully', type: [MarketDataProviderInfoDto] })
+  getProviders(): MarketDataProviderInfoDto[] {
+    return this.marketDataProviderService.getProviders();
+  }
+
+  @Get('health')
+  @RequirePermissions(['global_assets.read'])
+  @ApiOperation({ summary: 'Get call statistics, circuit state and prices served per provider' })
+  @ApiQuery({ name: 'hours', required: false, description: 'Statistics window in hours (default 24)', example: 24 })
+  @ApiResponse({ status: 200, description: 'Provider health retrieved successfully', type: MarketDataProviderHealthResponseDto })
+  async getHealth(@Query('hours') hours?: string): Promise<MarketDataProviderHealthResponseDto> {
+    const windowHours = hours ? parseInt(hours, 10) : undefined;
+    if (windowHours !== undefined && (isNaN(windowHours) || windowHours < 1 || windowHours > 24 * 90)) {
+      throw new BadRequestException('hours must be between 1 and 2160');
+    }
+    return this.marketDataProviderService.getHealth(windowHours);
+  }
+
+  @Get('preferences')
+  @RequirePermissions(['global_assets.manage'])
+  @ApiOperation({ summary: 'Get provider routing preferences per asset type and per asset' })
+  @ApiResponse({ status: 200, description: 'Preferences retrieved successfully', type: [ProviderPreferenceResponseDto] })
+  async getPreferences(): Promise<ProviderPreferenceResponseDto[]> {
+    return this.marketDataProviderService.getPreferences();
+  }
+
+  @Put('preferences')
+  @RequirePermissions(['global_assets.manage'])
+  @ApiOperation({ summary: 'Set the provider order of an asset type or of one global asset' })
+  @ApiResponse({ status: 200, description: 'Preference saved successfully', type: ProviderPreferenceResponseDto })
+  @ApiResponse({ status: 400, description: 'Unknown provider or provider not serving the asset type' })
+  @ApiResponse({ status: 404, description: 'Global asset not found' })
+  async upsertPreference(@Body() dto: UpsertProviderPreferenceDto): Promise<ProviderPreferenceResponseDto> {
+    return this.marketDataProviderService.upsertPreference(dto);
+  }
+
+  @Delete('preferences/:id')
+  @RequirePermissions(['global_assets.manage'])
+  @ApiOperation({ summary: 'Remove a provider preference, restoring default priorities' })
+  @ApiParam({ name: 'id', description: 'Preference ID' })
+  @ApiResponse({ status: 200, description: 'Preference removed successfully' })
+  @ApiResponse({ status: 404, description: 'Preference not found' })
+  async deletePreference(@Param('id', ParseUUIDPipe) id: string): Promise<{ success: boolean }> {
+    await this.marketDataProviderService.deletePreference(id);
+    return { success: true };
+  }
+}
@@ -2,7 +2,9 @@ import { Controller, Get, Param, Post, Body, Query, Delete } from '@nestjs/commo
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { IsArray, IsString, IsOptional, IsBoolean, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
-import { MarketDataService, MarketPrice, BulkPriceResult } from '../services/market-data.service';
+import { MarketDataService, MarketPrice, BulkPriceResult, DailyBarBackfillResult } from '../services/market-data.service';
+import { DailyBarGapReport } from '../services/daily-bar.service';
+import { AssetDailyBar } from '../entities/asset-daily-bar.entity';
 
 // ==================== DTOs ====================
 
@@ -290,5 +292,57 @@ export class MarketDataController {
     );
   }
 
-}
+  /**
+   * Get the daily OHLCV bars of a symbol
+   */
+  @Get('historical-prices/:symbol/bars')
+  @ApiOperation({ summary: 'Get daily OHLCV bars of a symbol' })
+  @ApiParam({ name: 'symbol', description: 'Global asset symbol', example: 'HPG' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date (defaults to one year before endDate)', example: '2024-01-01' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date (defaults to today)', example: '2024-12-31' })
+  @ApiResponse({ status: 200, description: 'Daily bars, oldest first', type: [AssetDailyBar] })
+  @ApiResponse({ status: 404, description: 'Global asset not found' })
+  async getDailyBars(
+    @Param('symbol') symbol: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string
+  ): Promise<AssetDailyBar[]> {
+    return this.marketDataService.getDailyBars(symbol, startDate, endDate);
+  }
+
+  /**
+   * Detect trading days without a daily bar
+   */
+  @Get('historical-prices/:symbol/gaps')
+  @ApiOperation({ summary: 'Detect trading days without a daily bar' })
+  @ApiParam({ name: 'symbol', description: 'Global asset symbol', example: 'HPG' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date (defaults to the first stored bar)', example: '2024-01-01' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date (defaults to yesterday)', example: '2024-12-31' })
+  @ApiResponse({ status: 200, description: 'Missing trading days and their ranges' })
+  @ApiResponse({ status: 404, description: 'Global asset not found' })
+  async getDailyBarGaps(
+    @Param('symbol') symbol: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string
+  ): Promise<DailyBarGapReport> {
+    return this.marketDataService.getDailyBarGaps(symbol, startDate, endDate);
+  }
 
+  /**
+   * Backfill missing trading days from the historical price API
+   */
+  @Post('historical-prices/:symbol/backfill')
+  @ApiOperation({ summary: 'Backfill missing daily bars of a symbol from the historical price API' })
+  @ApiParam({ name: 'symbol', description: 'Global asset symbol', example: 'HPG' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date (defaults to the first stored bar)', example: '2024-01-01' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date (defaults to yesterday)', example: '2024-12-31' })
+  @ApiResponse({ status: 200, description: 'Gaps before the backfill, the fetch result and the remaining gaps' })
+  @ApiResponse({ status: 404, description: 'Global asset not found' })
+  async backfillDailyBarGaps(
+    @Param('symbol') symbol: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string
+  ): Promise<DailyBarBackfillResult> {
+    return this.marketDataService.backfillDailyBarGaps(symbol, startDate, endDate);
+  }
+}
@@ -0,0 +1,73 @@
+import { IsString, Length, IsNumber, IsPositive, IsOptional, IsDateString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+/**
+ * DTO for manually recording an exchange rate (e.g., backfilling historical trade dates)
+ */
+export class UpsertFxRateDto {
+  @ApiProperty({
+    description: 'Currency being converted from (ISO 4217)',
+    example: 'USD',
+    minLength: 3,
+    maxLength: 3,
+  })
+  @IsString()
+  @Length(3, 3)
+  @Transform(({ value }) => typeof value === 'string' ? value.toUpperCase() : value)
+  fromCurrency: string;
+
+  @ApiPropertyOptional({
+    description: 'Currency being converted into (ISO 4217), defaults to VND',
+    example: 'VND',
+    minLength: 3,
+    maxLength: 3,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  @Transform(({ value }) => typeof value === 'string' ? value.toUpperCase() : value)
+  toCurrency?: string;
+
+  @ApiProperty({
+    description: 'Date the rate applies to',
+    example: '2025-01-15',
+  })
+  @IsDateString()
+  rateDate: string;
+
+  @ApiProperty({
+    description: 'Units of toCurrency per 1 unit of fromCurrency',
+    example: 25350,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  rate: number;
+
+  @ApiPropertyOptional({ description: 'Bank buy rate', example: 25200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  buyRate?: number;
+
+  @ApiPropertyOptional({ description: 'Bank sell rate', example: 25500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  sellRate?: number;
+}
+
+/**
+ * Result of converting an amount between two currencies
+ */
+export interface FxConversionResult {
+  amount: number;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  rateDate: string;
+  convertedAmount: number;
+}
@@ -0,0 +1,120 @@
+import { IsString, IsEnum, IsOptional, IsArray, IsUUID, ArrayMinSize, ArrayUnique } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+
+/**
+ * DTO for setting the provider order of an asset type or of a single global asset.
+ * Exactly one of assetType, globalAssetId or symbol identifies the target.
+ */
+export class UpsertProviderPreferenceDto {
+  @ApiPropertyOptional({ description: 'Asset type the order applies to', enum: AssetType, example: AssetType.STOCK })
+  @IsOptional()
+  @IsEnum(AssetType)
+  assetType?: AssetType;
+
+  @ApiPropertyOptional({ description: 'Global asset the order applies to' })
+  @IsOptional()
+  @IsUUID()
+  globalAssetId?: string;
+
+  @ApiPropertyOptional({ description: 'Symbol of the global asset the order applies to (alternative to globalAssetId)', example: 'HPG' })
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().toUpperCase() : value)
+  symbol?: string;
+
+  @ApiProperty({ description: 'Provider codes, primary first', example: ['SSI'], type: [String] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsString({ each: true })
+  @Transform(({ value }) => Array.isArray(value) ? value.map((code) => String(code).trim().toUpperCase()) : value)
+  providerCodes: string[];
+}
+
+export class ProviderPreferenceResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiPropertyOptional({ enum: AssetType, nullable: true })
+  assetType: AssetType | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  globalAssetId: string | null;
+
+  @ApiPropertyOptional({ description: 'Symbol of the global asset', nullable: true })
+  symbol: string | null;
+
+  @ApiPropertyOptional({ description: 'Name of the global asset', nullable: true })
+  assetName: string | null;
+
+  @ApiProperty({ type: [String] })
+  providerCodes: string[];
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class MarketDataProviderInfoDto {
+  @ApiProperty({ example: 'SSI' })
+  code: string;
+
+  @ApiProperty({ example: 'SSI iBoard' })
+  name: string;
+
+  @ApiProperty({ example: 'stocks' })
+  category: string;
+
+  @ApiProperty({ enum: AssetType, isArray: true })
+  assetTypes: AssetType[];
+
+  @ApiProperty({ description: 'Default rank when no preference applies, lower first', example: 10 })
+  defaultPriority: number;
+
+  @ApiProperty({ description: 'Circuit breaker state of the provider client', example: 'CLOSED' })
+  circuitState: string;
+
+  @ApiProperty({ description: 'False while the circuit is open' })
+  available: boolean;
+}
+
+export class MarketDataProviderHealthDto extends MarketDataProviderInfoDto {
+  @ApiProperty({ description: 'API calls in the window' })
+  totalCalls: number;
+
+  @ApiProperty()
+  successfulCalls: number;
+
+  @ApiProperty()
+  failedCalls: number;
+
+  @ApiProperty({ description: 'Successful calls over all calls (%)', example: 98.5 })
+  successRate: number;
+
+  @ApiProperty({ description: 'Average response time (ms)', example: 420 })
+  averageResponseTime: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  lastSuccessAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  lastFailureAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  lastError: string | null;
+
+  @ApiProperty({ description: 'Price history rows written from this provider in the window' })
+  pricesServed: number;
+
+  @ApiProperty({ description: 'Of pricesServed, rows where the provider stood in for the primary' })
+  fallbackPrices: number;
+}
+
+export class MarketDataProviderHealthResponseDto {
+  @ApiProperty({ description: 'Hours covered by the statistics', example: 24 })
+  windowHours: number;
+
+  @ApiProperty({ type: [MarketDataProviderHealthDto] })
+  providers: MarketDataProviderHealthDto[];
+}
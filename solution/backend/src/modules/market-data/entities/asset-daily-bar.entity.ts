@@ -0,0 +1,74 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+
+/**
+ * Daily OHLCV bar of a global asset.
+ * Unlike asset_price_history (one row per price change, 2 decimals) there is one row per asset and
+ * market day, with enough precision for crypto and FX prices. Rows come from the historical price
+ * import and from the intraday syncs, which keep widening the bar of the current day.
+ */
+@Entity('asset_daily_bars')
+@Index('UQ_ASSET_DAILY_BARS_ASSET_DATE', ['assetId', 'barDate'], { unique: true })
+export class AssetDailyBar {
+  @ApiProperty({ description: 'Unique identifier of the bar' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Global asset of the bar' })
+  @Column({ type: 'uuid', name: 'asset_id' })
+  assetId: string;
+
+  @ApiProperty({ description: 'Market day (YYYY-MM-DD)', example: '2025-03-03' })
+  @Column({ type: 'date', name: 'bar_date' })
+  barDate: string;
+
+  @ApiProperty({ example: 25150.5 })
+  @Column({ type: 'numeric', precision: 30, scale: 10, name: 'open' })
+  open: number;
+
+  @ApiProperty({ example: 25400 })
+  @Column({ type: 'numeric', precision: 30, scale: 10, name: 'high' })
+  high: number;
+
+  @ApiProperty({ example: 25000 })
+  @Column({ type: 'numeric', precision: 30, scale: 10, name: 'low' })
+  low: number;
+
+  @ApiProperty({ example: 25300 })
+  @Column({ type: 'numeric', precision: 30, scale: 10, name: 'close' })
+  close: number;
+
+  @ApiProperty({ example: 1250000 })
+  @Column({ type: 'numeric', precision: 30, scale: 4, name: 'volume', default: 0 })
+  volume: number;
+
+  @ApiProperty({ description: 'Source of the last update', example: 'CAFEF_API' })
+  @Column({ type: 'varchar', length: 50, name: 'source' })
+  source: string;
+
+  @ApiProperty({ description: 'Number of intraday prices folded into the bar; 0 for imported bars' })
+  @Column({ type: 'int', name: 'tick_count', default: 0 })
+  tickCount: number;
+
+  @ApiProperty()
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ApiProperty()
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @ManyToOne(() => GlobalAsset, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'asset_id' })
+  globalAsset?: GlobalAsset;
+}
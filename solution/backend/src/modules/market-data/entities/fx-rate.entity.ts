@@ -0,0 +1,85 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  Unique,
+  Check,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * FxRate entity storing one exchange rate per currency pair and day.
+ * A row means: 1 unit of fromCurrency = rate units of toCurrency on rateDate.
+ * Rates are collected from the exchange-rate client on every market data sync
+ * and can be backfilled manually for historical trade dates.
+ */
+@Entity('fx_rates')
+@Index('IDX_FX_RATES_PAIR_DATE', ['fromCurrency', 'toCurrency', 'rateDate'])
+@Unique('UQ_FX_RATES_PAIR_DATE', ['fromCurrency', 'toCurrency', 'rateDate'])
+@Check('CHK_FX_RATES_POSITIVE', 'rate > 0')
+export class FxRate {
+  @ApiProperty({
+    description: 'Unique identifier for the FX rate record',
+    example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+  })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({
+    description: 'Currency being converted from',
+    example: 'USD',
+  })
+  @Column({ type: 'varchar', length: 3, name: 'from_currency' })
+  fromCurrency: string;
+
+  @ApiProperty({
+    description: 'Currency being converted into',
+    example: 'VND',
+  })
+  @Column({ type: 'varchar', length: 3, name: 'to_currency' })
+  toCurrency: string;
+
+  @ApiProperty({
+    description: 'Date the rate applies to',
+    example: '2025-01-15',
+  })
+  @Column({ type: 'date', name: 'rate_date' })
+  rateDate: string;
+
+  @ApiProperty({
+    description: 'Reference (mid/transfer) rate used for valuation',
+    example: 25350,
+  })
+  @Column({ type: 'decimal', precision: 20, scale: 8, name: 'rate' })
+  rate: number;
+
+  @ApiPropertyOptional({
+    description: 'Bank buy rate, when provided by the source',
+    example: 25200,
+  })
+  @Column({ type: 'decimal', precision: 20, scale: 8, nullable: true, name: 'buy_rate' })
+  buyRate?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Bank sell rate, when provided by the source',
+    example: 25500,
+  })
+  @Column({ type: 'decimal', precision: 20, scale: 8, nullable: true, name: 'sell_rate' })
+  sellRate?: number | null;
+
+  @ApiProperty({
+    description: 'Source of the rate (e.g., VIETCOMBANK, MANUAL)',
+    example: 'VIETCOMBANK',
+  })
+  @Column({ type: 'varchar', length: 30, default: 'MANUAL', name: 'source' })
+  source: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
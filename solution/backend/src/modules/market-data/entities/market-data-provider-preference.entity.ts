@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+
+/**
+ * Admin routing preference for market data providers.
+ * A row either targets an asset type (globalAssetId null) or one global asset,
+ * and lists provider codes in the order they should be tried.
+ * Each asset type and each global asset has at most one row (partial unique indexes in the migration).
+ */
+@Entity('market_data_provider_preferences')
+export class MarketDataProviderPreference {
+  @ApiProperty({ description: 'Unique identifier of the preference' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiPropertyOptional({ description: 'Asset type the preference applies to', enum: AssetType })
+  @Column({ type: 'varchar', length: 20, name: 'asset_type', nullable: true })
+  assetType: AssetType | null;
+
+  @ApiPropertyOptional({ description: 'Global asset the preference applies to' })
+  @Column({ type: 'uuid', name: 'global_asset_id', nullable: true })
+  globalAssetId: string | null;
+
+  @ApiProperty({ description: 'Provider codes, primary first', example: ['SSI', 'VNDIRECT'] })
+  @Column({ type: 'jsonb', name: 'provider_codes', default: () => "'[]'" })
+  providerCodes: string[];
+
+  @ApiProperty()
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ApiProperty()
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @ManyToOne(() => GlobalAsset, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'global_asset_id' })
+  globalAsset?: GlobalAsset;
+}
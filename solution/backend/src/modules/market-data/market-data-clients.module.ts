@@ -1,5 +1,6 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { 
   FundPriceAPIClient, 
   GoldPriceAPIClient, 
@@ -9,6 +10,11 @@ import {
 } from './clients';
 import { ExternalMarketDataService } from './services/external-market-data.service';
 import { ApiTrackingHelper } from './utils/api-tracking.helper';
+import { MarketDataProviderRegistry } from './services/market-data-provider-registry.service';
+import { MARKET_DATA_PROVIDERS } from './providers';
+import { MarketDataProviderPreference } from './entities/market-data-provider-preference.entity';
+import { MarketDataHarnessService } from './services/market-data-harness.service';
+import { GlobalAsset } from '../asset/entities/global-asset.entity';
 import { SharedModule } from '../shared/shared.module';
 import { AssetModule } from '../asset/asset.module';
 
@@ -21,24 +27,30 @@ import { AssetModule } from '../asset/asset.module';
         'User-Agent': 'Portfolio/1.0'
       }
     }),
+    TypeOrmModule.forFeature([MarketDataProviderPreference, GlobalAsset]),
     SharedModule, // Import SharedModule to get CircuitBreakerService
     forwardRef(() => AssetModule) // Import AssetModule to get ApiCallDetailService
   ],
   providers: [
+    MarketDataHarnessService,
     FundPriceAPIClient,
     GoldPriceAPIClient,
     ExchangeRateAPIClient,
     StockPriceAPIClient,
     CryptoPriceAPIClient,
+    MarketDataProviderRegistry,
+    ...MARKET_DATA_PROVIDERS,
     ExternalMarketDataService,
     ApiTrackingHelper
   ],
   exports: [
+    MarketDataHarnessService,
     FundPriceAPIClient,
     GoldPriceAPIClient,
     ExchangeRateAPIClient,
     StockPriceAPIClient,
     CryptoPriceAPIClient,
+    MarketDataProviderRegistry,
     ExternalMarketDataService,
     ApiTrackingHelper
   ]
@@ -6,10 +6,20 @@ import { MarketDataService } from './services/market-data.service';
 import { ExternalMarketDataService } from './services/external-market-data.service';
 import { MarketDataController } from './controllers/market-data.controller';
 import { ExternalMarketDataController } from './controllers/external-market-data.controller';
+import { FxRateController } from './controllers/fx-rate.controller';
+import { MarketDataProviderController } from './controllers/market-data-provider.controller';
+import { MarketDataProviderService } from './services/market-data-provider.service';
+import { MarketDataProviderPreference } from './entities/market-data-provider-preference.entity';
+import { FxRateService } from './services/fx-rate.service';
+import { FxRate } from './entities/fx-rate.entity';
+import { AssetDailyBar } from './entities/asset-daily-bar.entity';
+import { DailyBarService } from './services/daily-bar.service';
 import { MarketDataClientsModule } from './market-data-clients.module';
 import { AssetPriceHistory } from '../asset/entities/asset-price-history.entity';
 import { GlobalAsset } from '../asset/entities/global-asset.entity';
+import { ApiCallDetail } from '../asset/entities/api-call-detail.entity';
 import { AssetModule } from '../asset/asset.module';
+import { SharedModule } from '../shared/shared.module';
 import { ApiTrackingHelper } from './utils/api-tracking.helper';
 
 /**
@@ -21,21 +31,30 @@ import { ApiTrackingHelper } from './utils/api-tracking.helper';
     ScheduleModule.forRoot(), // Enable cron jobs
     HttpModule, // Enable HTTP requests
     MarketDataClientsModule, // Import external API clients
-    TypeOrmModule.forFeature([AssetPriceHistory, GlobalAsset]), // Import AssetPriceHistory and GlobalAsset entities
+    TypeOrmModule.forFeature([AssetPriceHistory, AssetDailyBar, GlobalAsset, FxRate, MarketDataProviderPreference, ApiCallDetail]), // Import price history, daily bar, asset, FX rate, provider preference and API call entities
+    SharedModule, // Import SharedModule for the permission guards
     forwardRef(() => AssetModule), // Import AssetModule to get ApiCallDetailService and AutoSyncService
   ],
   controllers: [
     MarketDataController,
     ExternalMarketDataController,
+    FxRateController,
+    MarketDataProviderController,
   ],
   providers: [
     MarketDataService,
     ExternalMarketDataService,
+    FxRateService,
+    DailyBarService,
+    MarketDataProviderService,
     ApiTrackingHelper,
   ],
   exports: [
+    MarketDataClientsModule, // Re-export the provider registry for the asset sync
     MarketDataService,
     ExternalMarketDataService,
+    FxRateService,
+    DailyBarService,
   ],
 })
 export class MarketDataModule {}
@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import { CryptoPriceAPIClient } from '../clients';
+import { MarketDataProviderRegistry } from '../services/market-data-provider-registry.service';
+import { RegisteredMarketDataProvider } from './registered-market-data-provider.base';
+
+/**
+ * Crypto prices from CoinGecko
+ */
+@Injectable()
+export class CoinGeckoCryptoProvider extends RegisteredMarketDataProvider {
+  readonly code = 'COINGECKO';
+  readonly name = 'CoinGecko';
+  readonly category = 'crypto' as const;
+  readonly assetTypes = [AssetType.CRYPTO];
+  readonly defaultPriority = 10;
+  readonly circuitName = 'crypto-price-api';
+  readonly trackingName = 'CoinGecko';
+
+  constructor(
+    registry: MarketDataProviderRegistry,
+    private readonly client: CryptoPriceAPIClient,
+  ) {
+    super(registry);
+  }
+
+  fetchAll() {
+    return this.client.getAllCryptoPrices();
+  }
+
+  fetchSymbol(symbol: string) {
+    return this.client.getCryptoPriceBySymbol(symbol);
+  }
+}
@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import { GoldPriceAPIClient } from '../clients';
+import { MarketDataProviderRegistry } from '../services/market-data-provider-registry.service';
+import { RegisteredMarketDataProvider } from './registered-market-data-provider.base';
+
+/**
+ * Gold prices from DOJI
+ */
+@Injectable()
+export class DojiGoldProvider extends RegisteredMarketDataProvider {
+  readonly code = 'DOJI';
+  readonly name = 'DOJI';
+  readonly category = 'gold' as const;
+  readonly assetTypes = [AssetType.GOLD];
+  readonly defaultPriority = 10;
+  readonly circuitName = 'gold-price-api';
+  readonly trackingName = 'Doji';
+
+  constructor(
+    registry: MarketDataProviderRegistry,
+    private readonly client: GoldPriceAPIClient,
+  ) {
+    super(registry);
+  }
+
+  fetchAll() {
+    return this.client.getAllGoldPrices();
+  }
+
+  fetchSymbol(symbol: string) {
+    return this.client.getGoldPriceBySymbol(symbol);
+  }
+}
@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import { FundPriceAPIClient } from '../clients';
+import { MarketDataProviderRegistry } from '../services/market-data-provider-registry.service';
+import { RegisteredMarketDataProvider } from './registered-market-data-provider.base';
+
+/**
+ * Open-ended fund NAVs from FMarket
+ */
+@Injectable()
+export class FmarketFundProvider extends RegisteredMarketDataProvider {
+  readonly code = 'FMARKET';
+  readonly name = 'FMarket';
+  readonly category = 'funds' as const;
+  readonly assetTypes = [AssetType.STOCK, AssetType.BOND, AssetType.OTHER];
+  readonly defaultPriority = 20;
+  readonly circuitName = 'fund-price-api';
+  readonly trackingName = 'FMarket';
+
+  constructor(
+    registry: MarketDataProviderRegistry,
+    private readonly client: FundPriceAPIClient,
+  ) {
+    super(registry);
+  }
+
+  fetchAll() {
+    return this.client.getAllFundPrices();
+  }
+
+  fetchSymbol(symbol: string) {
+    return this.client.getFundPrice(symbol);
+  }
+}
@@ -0,0 +1,28 @@
+import { SsiStockProvider } from './ssi-stock.provider';
+import { FmarketFundProvider } from './fmarket-fund.provider';
+import { DojiGoldProvider } from './doji-gold.provider';
+import { VietcombankExchangeRateProvider } from './vietcombank-exchange-rate.provider';
+import { CoinGeckoCryptoProvider } from './coingecko-crypto.provider';
+import { SimulatedMarketDataProvider } from './simulated-market-data.provider';
+
+export * from './market-data-provider.interface';
+export * from './registered-market-data-provider.base';
+export {
+  SsiStockProvider,
+  FmarketFundProvider,
+  DojiGoldProvider,
+  VietcombankExchangeRateProvider,
+  CoinGeckoCryptoProvider,
+  SimulatedMarketDataProvider,
+};
+
+// Every provider listed here is instantiated by MarketDataClientsModule and registers itself
+// (the simulated provider only when MARKET_DATA_SIMULATION_ENABLED=true)
+export const MARKET_DATA_PROVIDERS = [
+  SsiStockProvider,
+  FmarketFundProvider,
+  DojiGoldProvider,
+  VietcombankExchangeRateProvider,
+  CoinGeckoCryptoProvider,
+  SimulatedMarketDataProvider,
+];
@@ -0,0 +1,42 @@
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import { BaseMarketData, MarketDataResult } from '../types/market-data.types';
+import { ApiResult } from '../interfaces/api-tracking.interface';
+
+/**
+ * Bucket of MarketDataResult a provider's quotes are collected into
+ */
+export type MarketDataCategory = keyof Pick<MarketDataResult, 'funds' | 'gold' | 'exchangeRates' | 'stocks' | 'crypto'>;
+
+/** Quote buckets of a MarketDataResult, keyed by category */
+export type MarketDataBuckets = Record<MarketDataCategory, BaseMarketData[]>;
+
+/**
+ * A source of market prices. Each provider wraps one API client and declares what it covers;
+ * the registry decides which provider serves each asset.
+ */
+export interface MarketDataProvider {
+  /** Stable code, also stamped as `source` on every quote (e.g. 'SSI') */
+  readonly code: string;
+  readonly name: string;
+  readonly category: MarketDataCategory;
+  /** Asset types this provider can price */
+  readonly assetTypes: AssetType[];
+  /** Lower is preferred when no routing preference is configured */
+  readonly defaultPriority: number;
+  /** Circuit breaker guarding the underlying client; an open circuit takes the provider out of rotation */
+  readonly circuitName: string;
+  /** Provider name recorded in ApiCallDetail by the underlying client */
+  readonly trackingName: string;
+
+  /** Narrow coverage below the asset type level, e.g. a gold provider that only quotes SJC */
+  supportsSymbol?(symbol: string, assetType?: AssetType): boolean;
+
+  /** Fetch every quote the provider offers */
+  fetchAll(): Promise<ApiResult<BaseMarketData[]>>;
+
+  /** Fetch one quote; null when the provider does not know the symbol */
+  fetchSymbol?(symbol: string): Promise<BaseMarketData | null>;
+
+  /** Bucket of one quote, for providers quoting several kinds of asset; category is then only a default */
+  categoryOf?(quote: BaseMarketData): MarketDataCategory;
+}
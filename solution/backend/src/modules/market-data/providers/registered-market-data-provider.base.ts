@@ -0,0 +1,30 @@
+import { OnModuleInit } from '@nestjs/common';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import { BaseMarketData } from '../types/market-data.types';
+import { ApiResult } from '../interfaces/api-tracking.interface';
+import { MarketDataProvider, MarketDataCategory } from './market-data-provider.interface';
+import { MarketDataProviderRegistry } from '../services/market-data-provider-registry.service';
+
+/**
+ * Base class that adds a provider to the registry when its module starts,
+ * so a new source only needs its own class and a line in the module's providers.
+ */
+export abstract class RegisteredMarketDataProvider implements MarketDataProvider, OnModuleInit {
+  abstract readonly code: string;
+  abstract readonly name: string;
+  abstract readonly category: MarketDataCategory;
+  abstract readonly assetTypes: AssetType[];
+  abstract readonly defaultPriority: number;
+  abstract readonly circuitName: string;
+  abstract readonly trackingName: string;
+
+  constructor(protected readonly registry: MarketDataProviderRegistry) {}
+
+  onModuleInit(): void {
+    this.registry.register(this);
+  }
+
+  abstract fetchAll(): Promise<ApiResult<BaseMarketData[]>>;
+
+  fetchSymbol?(symbol: string): Promise<BaseMarketData | null>;
+}
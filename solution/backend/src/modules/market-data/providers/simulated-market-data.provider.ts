@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+import { createSeededRandom } from '../../financial-freedom/utils/monte-carlo.util';
+import { BaseMarketData, MarketDataType } from '../types/market-data.types';
+import { ApiResult } from '../interfaces/api-tracking.interface';
+import { MarketDataProviderRegistry } from '../services/market-data-provider-registry.service';
+import { MarketDataCategory } from './market-data-provider.interface';
+import { RegisteredMarketDataProvider } from './registered-market-data-provider.base';
+import { nextRandomWalkPrice } from '../utils/market-data-fixture.util';
+
+/**
+ * Starting price (VND) of an asset with no stored price
+ */
+const STARTING_PRICES: Partial<Record<AssetType, number>> = {
+  [AssetType.STOCK]: 25000,
+  [AssetType.BOND]: 100000,
+  [AssetType.GOLD]: 8500000,
+  [AssetType.CRYPTO]: 1500000000,
+  [AssetType.CURRENCY]: 25000,
+};
+const DEFAULT_STARTING_PRICE = 10000;
+
+const QUOTE_TYPES: Partial<Record<AssetType, MarketDataType>> = {
+  [AssetType.STOCK]: MarketDataType.STOCK,
+  [AssetType.BOND]: MarketDataType.BOND,
+  [AssetType.GOLD]: MarketDataType.GOLD,
+  [AssetType.CRYPTO]: MarketDataType.CRYPTO,
+  [AssetType.CURRENCY]: MarketDataType.EXCHANGE_RATE,
+};
+
+/**
+ * Synthetic prices for every active global asset, for offline development and CI.
+ * Each fetch moves every asset one step along a zero-drift geometric random walk starting
+ * from its stored price. Only registered when MARKET_DATA_SIMULATION_ENABLED=true, and ranked
+ * after the real providers so it serves whatever they cannot (or what routing sends to it).
+ */
+@Injectable()
+export class SimulatedMarketDataProvider extends RegisteredMarketDataProvider {
+  readonly code = 'SIMULATED';
+  readonly name = 'Simulated random walk';
+  readonly category = 'stocks' as const;
+  readonly assetTypes: AssetType[] = Object.values(AssetType).filter((type) => type !== AssetType.DEPOSIT && type !== AssetType.CASH);
+  readonly defaultPriority = 1000;
+  readonly circuitName = 'simulated-market-data';
+  readonly trackingName = 'Simulated';
+
+  private readonly enabled: boolean;
+  private readonly volatility: number;
+  private readonly random: () => number;
+  private readonly prices = new Map<string, number>();
+
+  constructor(
+    registry: MarketDataProviderRegistry,
+    configService: ConfigService,
+    @InjectRepository(GlobalAsset)
+    private readonly globalAssetRepository: Repository<GlobalAsset>,
+  ) {
+    super(registry);
+    this.enabled = configService.get<string>('MARKET_DATA_SIMULATION_ENABLED', 'false') === 'true';
+    this.volatility = parseFloat(configService.get<string>('MARKET_DATA_SIMULATION_VOLATILITY', '2'));
+    const seed = configService.get<string>('MARKET_DATA_SIMULATION_SEED');
+    this.random = createSeededRandom(seed ? parseInt(seed, 10) : Date.now());
+  }
+
+  onModuleInit(): void {
+    if (this.enabled) {
+      super.onModuleInit();
+    }
+  }
+
+  async fetchAll(): Promise<ApiResult<BaseMarketData[]>> {
+    const startTime = Date.now();
+    // A fixed order keeps the walk reproducible for a given seed
+    const assets = await this.globalAssetRepository.find({
+      where: { isActive: true },
+      relations: ['assetPrice'],
+      order: { symbol: 'ASC', nation: 'ASC' },
+    });
+    const now = new Date();
+    const data = assets
+      .filter((asset) => this.assetTypes.includes(asset.type))
+      .map((asset) => this.toQuote(asset, this.step(asset), now));
+
+    return {
+      data,
+      apiCalls: [{
+        provider: this.trackingName,
+        endpoint: 'simulated://random-walk',
+        method: 'GET',
+        responseTime: Date.now() - startTime,
+        statusCode: 200,
+        symbolsProcessed: data.length,
+        successfulSymbols: data.length,
+        failedSymbols: 0,
+      }],
+      totalSymbols: data.length,
+      successfulSymbols: data.length,
+      failedSymbols: 0,
+    };
+  }
+
+  /**
+   * Current simulated price of a symbol; does not move the walk
+   */
+  async fetchSymbol(symbol: string): Promise<BaseMarketData | null> {
+    const asset = await this.globalAssetRepository.findOne({
+      where: { symbol: symbol.toUpperCase(), isActive: true },
+      relations: ['assetPrice'],
+    });
+    if (!asset) {
+      return null;
+    }
+    return this.toQuote(asset, this.prices.get(asset.id) ?? this.startingPrice(asset), new Date());
+  }
+
+  categoryOf(quote: BaseMarketData): MarketDataCategory {
+    switch (quote.type) {
+      case MarketDataType.STOCK:
+      case MarketDataType.ETF:
+        return 'stocks';
+      case MarketDataType.GOLD:
+        return 'gold';
+      case MarketDataType.EXCHANGE_RATE:
+        return 'exchangeRates';
+      case MarketDataType.CRYPTO:
+        return 'crypto';
+      default:
+        return 'funds';
+    }
+  }
+
+  private step(asset: GlobalAsset): number {
+    const previous = this.prices.get(asset.id) ?? this.startingPrice(asset);
+    const price = Math.round(nextRandomWalkPrice(previous, this.volatility, this.random) * 100) / 100;
+    this.prices.set(asset.id, price);
+    return price;
+  }
+
+  private startingPrice(asset: GlobalAsset): number {
+    const stored = Number(asset.assetPrice?.currentPrice || 0);
+    return stored > 0 ? stored : STARTING_PRICES[asset.type] ?? DEFAULT_STARTING_PRICE;
+  }
+
+  private toQuote(asset: GlobalAsset, price: number, timestamp: Date): BaseMarketData {
+    const quote: BaseMarketData & { currency?: string; transferPrice?: number } = {
+      symbol: asset.symbol,
+      name: asset.name,
+      buyPrice: price,
+      sellPrice: price,
+      lastUpdated: timestamp,
+      source: this.code,
+      type: QUOTE_TYPES[asset.type] ?? MarketDataType.FUND,
+    };
+    if (asset.type === AssetType.CURRENCY) {
+      quote.currency = asset.symbol;
+      quote.transferPrice = price;
+    }
+    return quote;
+  }
+}
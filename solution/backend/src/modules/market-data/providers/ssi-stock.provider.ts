@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import { StockPriceAPIClient } from '../clients';
+import { MarketDataProviderRegistry } from '../services/market-data-provider-registry.service';
+import { RegisteredMarketDataProvider } from './registered-market-data-provider.base';
+
+/**
+ * HOSE, HNX, UPCOM and ETF quotes from the SSI proxy
+ */
+@Injectable()
+export class SsiStockProvider extends RegisteredMarketDataProvider {
+  readonly code = 'SSI';
+  readonly name = 'SSI iBoard';
+  readonly category = 'stocks' as const;
+  readonly assetTypes = [AssetType.STOCK];
+  readonly defaultPriority = 10;
+  readonly circuitName = 'stock-price-api';
+  readonly trackingName = 'SSI';
+
+  constructor(
+    registry: MarketDataProviderRegistry,
+    private readonly client: StockPriceAPIClient,
+  ) {
+    super(registry);
+  }
+
+  fetchAll() {
+    return this.client.getAllStockPrices();
+  }
+
+  fetchSymbol(symbol: string) {
+    return this.client.getStockPriceBySymbol(symbol);
+  }
+}
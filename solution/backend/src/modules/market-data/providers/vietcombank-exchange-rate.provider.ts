@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import { ExchangeRateAPIClient } from '../clients';
+import { MarketDataProviderRegistry } from '../services/market-data-provider-registry.service';
+import { RegisteredMarketDataProvider } from './registered-market-data-provider.base';
+
+/**
+ * Vietcombank exchange rates scraped from tygiausd.org
+ */
+@Injectable()
+export class VietcombankExchangeRateProvider extends RegisteredMarketDataProvider {
+  readonly code = 'VIETCOMBANK';
+  readonly name = 'Vietcombank (tygiausd.org)';
+  readonly category = 'exchangeRates' as const;
+  readonly assetTypes = [AssetType.CURRENCY];
+  readonly defaultPriority = 10;
+  readonly circuitName = 'exchange-rate-api';
+  readonly trackingName = 'Tygia';
+
+  constructor(
+    registry: MarketDataProviderRegistry,
+    private readonly client: ExchangeRateAPIClient,
+  ) {
+    super(registry);
+  }
+
+  fetchAll() {
+    return this.client.getExchangeRates();
+  }
+
+  fetchSymbol(symbol: string) {
+    return this.client.getExchangeRateBySymbol(symbol);
+  }
+}
@@ -0,0 +1,226 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, In, Repository } from 'typeorm';
+import * as moment from 'moment-timezone';
+import { AssetDailyBar } from '../entities/asset-daily-bar.entity';
+import { TradingCalendarService } from '../../shared/services/trading-calendar.service';
+import {
+  DailyBarGapRange,
+  DailyBarInput,
+  DailyBarValues,
+  buildDailyBar,
+  findMissingTradingDays,
+  groupMissingDays,
+  mergeTick,
+  toBarDate,
+} from '../utils/daily-bar.util';
+
+/**
+ * One intraday price of an asset, as seen by a sync
+ */
+export interface IntradayPriceTick {
+  assetId: string;
+  price: number;
+  source: string;
+  volume?: number;
+  timestamp?: Date;
+}
+
+export interface DailyBarGapReport {
+  assetId: string;
+  startDate: string;
+  endDate: string;
+  barCount: number;
+  missingDates: string[];
+  ranges: DailyBarGapRange[];
+}
+
+const SAVE_CHUNK_SIZE = 500;
+const RECENT_CLOSES_HOLIDAY_ALLOWANCE_DAYS = 14;
+
+/**
+ * Daily OHLCV bar store.
+ * Historical imports write whole bars; intraday syncs fold each price into the bar of the
+ * market day (PRICE_UPDATE_TIMEZONE) it was seen on.
+ */
+@Injectable()
+export class DailyBarService {
+  private readonly logger = new Logger(DailyBarService.name);
+  private readonly timezone: string;
+
+  constructor(
+    @InjectRepository(AssetDailyBar)
+    private readonly dailyBarRepository: Repository<AssetDailyBar>,
+    private readonly configService: ConfigService,
+    private readonly tradingCalendarService: TradingCalendarService,
+  ) {
+    this.timezone = this.configService.get<string>('PRICE_UPDATE_TIMEZONE', 'Asia/Ho_Chi_Minh');
+  }
+
+  /**
+   * Store imported daily prices; an imported bar replaces whatever the syncs built for that day
+   * @returns number of bars written
+   */
+  async upsertBars(assetId: string, inputs: DailyBarInput[], source: string): Promise<number> {
+    const byDate = new Map<string, DailyBarValues>();
+    for (const input of inputs) {
+      const barDate = toBarDate(input.date);
+      if (barDate && input.close > 0) {
+        byDate.set(barDate, buildDailyBar(input));
+      }
+    }
+    if (byDate.size === 0) {
+      return 0;
+    }
+
+    const existing = await this.dailyBarRepository.find({
+      where: { assetId, barDate: In([...byDate.keys()]) },
+    });
+    const existingByDate = new Map(existing.map((bar) => [bar.barDate, bar]));
+
+    const bars = [...byDate.entries()].map(([barDate, values]) => {
+      const bar = existingByDate.get(barDate) ?? this.dailyBarRepository.create({ assetId, barDate });
+      return Object.assign(bar, values, { source, tickCount: 0 });
+    });
+    await this.saveInChunks(bars);
+    return bars.length;
+  }
+
+  /**
+   * Fold the prices of a sync into the bars of the current market day
+   */
+  async recordIntradayPrices(ticks: IntradayPriceTick[]): Promise<void> {
+    const validTicks = ticks.filter((tick) => tick.price > 0);
+    if (validTicks.length === 0) {
+      return;
+    }
+
+    const keyOf = (assetId: string, barDate: string) => `${assetId}|${barDate}`;
+    const dated = validTicks.map((tick) => ({
+      ...tick,
+      barDate: moment.tz(tick.timestamp ?? new Date(), this.timezone).format('YYYY-MM-DD'),
+    }));
+
+    const existing = await this.dailyBarRepository.find({
+      where: {
+        assetId: In([...new Set(dated.map((tick) => tick.assetId))]),
+        barDate: In([...new Set(dated.map((tick) => tick.barDate))]),
+      },
+    });
+    // The lookup covers every asset/day pair of the ticks, so it can hold bars no tick touches
+    const existingByKey = new Map(existing.map((bar) => [keyOf(bar.assetId, bar.barDate), bar]));
+    const touched = new Map<string, AssetDailyBar>();
+
+    for (const tick of dated) {
+      const key = keyOf(tick.assetId, tick.barDate);
+      const bar = touched.get(key)
+        ?? existingByKey.get(key)
+        ?? this.dailyBarRepository.create({ assetId: tick.assetId, barDate: tick.barDate, tickCount: 0 });
+      const values = mergeTick(touched.has(key) || existingByKey.has(key) ? this.toValues(bar) : null, tick.price, tick.volume);
+      Object.assign(bar, values, { source: tick.source, tickCount: (bar.tickCount || 0) + 1 });
+      touched.set(key, bar);
+    }
+
+    await this.saveInChunks([...touched.values()]);
+    this.logger.debug(`Recorded ${dated.length} intraday prices into ${touched.size} daily bars`);
+  }
+
+  /**
+   * Bars of an asset, oldest first
+   */
+  async getBars(assetId: string, startDate: string, endDate: string): Promise<AssetDailyBar[]> {
+    const bars = await this.dailyBarRepository.find({
+      where: { assetId, barDate: Between(startDate, endDate) },
+      order: { barDate: 'ASC' },
+    });
+    return bars.map((bar) => Object.assign(bar, this.toValues(bar)));
+  }
+
+  /**
+   * Closes of the sessions before the current market day, newest first
+   * @param sessions Number of closes wanted per asset
+   */
+  async getRecentCloses(assetIds: string[], sessions: number): Promise<Map<string, number[]>> {
+    const closes = new Map<string, number[]>();
+    if (assetIds.length === 0 || sessions <= 0) {
+      return closes;
+    }
+
+    const today = moment.tz(this.timezone);
+    // Calendar days that hold the wanted sessions even across a lunar new year closure
+    const lookbackDays = sessions * 2 + RECENT_CLOSES_HOLIDAY_ALLOWANCE_DAYS;
+    const bars = await this.dailyBarRepository.find({
+      select: ['assetId', 'barDate', 'close'],
+      where: {
+        assetId: In(assetIds),
+        barDate: Between(
+          today.clone().subtract(lookbackDays, 'days').format('YYYY-MM-DD'),
+          today.clone().subtract(1, 'day').format('YYYY-MM-DD'),
+        ),
+      },
+      order: { barDate: 'DESC' },
+    });
+
+    for (const bar of bars) {
+      const list = closes.get(bar.assetId) ?? [];
+      if (list.length < sessions) {
+        list.push(Number(bar.close));
+        closes.set(bar.assetId, list);
+      }
+    }
+    return closes;
+  }
+
+  /**
+   * Trading days without a bar. The range defaults to the first stored bar through yesterday,
+   * since today's bar is still being built by the syncs.
+   */
+  async detectGaps(assetId: string, startDate?: string, endDate?: string): Promise<DailyBarGapReport> {
+    const end = endDate ?? moment.tz(this.timezone).subtract(1, 'day').format('YYYY-MM-DD');
+    let start = startDate;
+    if (!start) {
+      const first = await this.dailyBarRepository.findOne({ where: { assetId }, order: { barDate: 'ASC' } });
+      start = first?.barDate ?? end;
+    }
+
+    const bars = await this.dailyBarRepository.find({
+      select: ['barDate'],
+      where: { assetId, barDate: Between(start, end) },
+    });
+    const isTradingDay = (date: string) => this.isTradingDay(date);
+    const missingDates = findMissingTradingDays(bars.map((bar) => bar.barDate), start, end, isTradingDay);
+
+    return {
+      assetId,
+      startDate: start,
+      endDate: end,
+      barCount: bars.length,
+      missingDates,
+      ranges: groupMissingDays(missingDates, isTradingDay),
+    };
+  }
+
+  /**
+   * Whether the market is expected to produce a bar on a day (default market calendar)
+   */
+  isTradingDay(date: string): boolean {
+    return this.tradingCalendarService.isTradingDay(date);
+  }
+
+  private toValues(bar: AssetDailyBar): DailyBarValues {
+    return {
+      open: Number(bar.open),
+      high: Number(bar.high),
+      low: Number(bar.low),
+      close: Number(bar.close),
+      volume: Number(bar.volume),
+    };
+  }
+
+  private async saveInChunks(bars: AssetDailyBar[]): Promise<void> {
+    for (let i = 0; i < bars.length; i += SAVE_CHUNK_SIZE) {
+      await this.dailyBarRepository.save(bars.slice(i, i + SAVE_CHUNK_SIZE));
+    }
+  }
+}
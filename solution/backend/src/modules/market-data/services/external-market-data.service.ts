@@ -1,37 +1,36 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { 
-  FundPriceAPIClient, 
-  GoldPriceAPIClient, 
-  ExchangeRateAPIClient, 
-  StockPriceAPIClient,
-  CryptoPriceAPIClient
-} from '../clients';
-import { 
-  FundData, 
-  GoldData, 
-  ExchangeRateData, 
-  StockData,
-  CryptoData,
+  BaseMarketData,
   MarketDataResult,
   MarketDataSource,
-  APIError
 } from '../types/market-data.types';
 import { ApiCallDetailService, CreateApiCallDetailDto, UpdateApiCallDetailDto } from '../../asset/services/api-call-detail.service';
 import { ApiCallStatus } from '../../asset/entities/api-call-detail.entity';
 import { ApiResult } from '../interfaces/api-tracking.interface';
 import { ApiTrackingHelper } from '../utils/api-tracking.helper';
+import { MarketDataProviderRegistry } from './market-data-provider-registry.service';
+import { MarketDataProvider, MarketDataCategory, MarketDataBuckets } from '../providers/market-data-provider.interface';
+import { AssetType } from '../../asset/enums/asset-type.enum';
 
 // MarketDataResult is now imported from types
 
 export interface PriceUpdateResult {
   symbol: string;
   price: number;
-  type: 'FUND' | 'GOLD' | 'EXCHANGE_RATE' | 'STOCK';
+  type: 'FUND' | 'GOLD' | 'EXCHANGE_RATE' | 'STOCK' | 'CRYPTO';
   source: string;
   success: boolean;
   error?: string;
 }
 
+const CATEGORY_PRICE_TYPE: Record<MarketDataCategory, PriceUpdateResult['type']> = {
+  funds: 'FUND',
+  gold: 'GOLD',
+  exchangeRates: 'EXCHANGE_RATE',
+  stocks: 'STOCK',
+  crypto: 'CRYPTO',
+};
+
 @Injectable()
 export class ExternalMarketDataService {
   private readonly logger = new Logger(ExternalMarketDataService.name);
@@ -48,11 +47,7 @@ export class ExternalMarketDataService {
   private readonly CACHE_ENABLED = true; // process.env.MARKET_DATA_CACHE_ENABLED !== 'false'; // Default enabled
 
   constructor(
-    private readonly fundPriceAPIClient: FundPriceAPIClient,
-    private readonly goldPriceAPIClient: GoldPriceAPIClient,
-    private readonly exchangeRateAPIClient: ExchangeRateAPIClient,
-    private readonly stockPriceAPIClient: StockPriceAPIClient,
-    private readonly cryptoPriceAPIClient: CryptoPriceAPIClient,
+    private readonly providerRegistry: MarketDataProviderRegistry,
     private readonly apiCallDetailService: ApiCallDetailService,
     private readonly apiTrackingHelper: ApiTrackingHelper,
   ) {
@@ -61,7 +56,9 @@ export class ExternalMarketDataService {
   }
 
   /**
-   * Fetch all market data from external APIs with detailed tracking
+   * Fetch all market data from every registered provider with detailed tracking.
+   * Providers whose circuit breaker is open are skipped and reported as errors,
+   * so the sync falls back to their secondaries for the affected assets.
    */
   async fetchAllMarketData(executionId?: string): Promise<MarketDataResult> {
     const result: MarketDataResult = {
@@ -77,43 +74,27 @@ export class ExternalMarketDataService {
 
     this.logger.log('Starting to fetch all market data from external APIs...');
 
-    // Define API fetch tasks
-    const fetchTasks = [
-      {
-        name: 'funds',
-        source: MarketDataSource.FMARKET,
-        fetchFn: () => this.fundPriceAPIClient.getAllFundPrices(),
-        resultKey: 'funds' as keyof MarketDataResult
-      },
-      {
-        name: 'gold',
-        source: MarketDataSource.DOJI,
-        fetchFn: () => this.goldPriceAPIClient.getAllGoldPrices(),
-        resultKey: 'gold' as keyof MarketDataResult
-      },
-      {
-        name: 'exchangeRates',
-        source: MarketDataSource.VIETCOMBANK,
-        fetchFn: () => this.exchangeRateAPIClient.getExchangeRates(),
-        resultKey: 'exchangeRates' as keyof MarketDataResult
-      },
-      {
-        name: 'stocks',
-        source: MarketDataSource.SSI,
-        fetchFn: () => this.stockPriceAPIClient.getAllStockPrices(),
-        resultKey: 'stocks' as keyof MarketDataResult
-      },
-      {
-        name: 'crypto',
-        source: MarketDataSource.COINGECKO,
-        fetchFn: () => this.cryptoPriceAPIClient.getAllCryptoPrices(),
-        resultKey: 'crypto' as keyof MarketDataResult
+    for (const provider of this.providerRegistry.getProviders()) {
+      if (!this.providerRegistry.isAvailable(provider)) {
+        result.errors.push({
+          source: provider.code,
+          message: `${provider.category}: ${provider.name} skipped, circuit ${provider.circuitName} is open`,
+          timestamp: new Date(),
+        });
+        this.logger.warn(`Skipping market data provider ${provider.code}: circuit ${provider.circuitName} is open`);
+        continue;
       }
-    ];
-
-    // Execute all fetch tasks
-    for (const task of fetchTasks) {
-      await this.executeFetchTask(task, result, executionId);
+      await this.executeFetchTask(
+        {
+          name: provider.category,
+          source: provider.code,
+          fetchFn: () => this.fetchFromProvider(provider),
+          resultKey: provider.category,
+          categorize: provider.categoryOf?.bind(provider),
+        },
+        result,
+        executionId,
+      );
     }
 
     // Update summary
@@ -140,33 +121,56 @@ export class ExternalMarketDataService {
       etfCount: 0,
       cryptoCount: 0,
       lastUpdate: new Date(),
-      sources: {
-        [MarketDataSource.FMARKET]: 0,
-        [MarketDataSource.DOJI]: 0,
-        [MarketDataSource.VIETCOMBANK]: 0,
-        [MarketDataSource.SSI]: 0,
-        [MarketDataSource.COINGECKO]: 0,
-        [MarketDataSource.MANUAL]: 0
-      }
+      sources: this.countBySource([])
     };
   }
 
+  /**
+   * Fetch every quote of a provider, stamping the provider code as the quote source
+   */
+  private async fetchFromProvider(provider: MarketDataProvider): Promise<ApiResult<BaseMarketData[]>> {
+    const apiResult = await provider.fetchAll();
+    return {
+      ...apiResult,
+      data: (apiResult.data || []).map((item) => ({ ...item, source: provider.code })),
+    };
+  }
+
+  /**
+   * Number of quotes per registered provider (plus MANUAL, which never has quotes)
+   */
+  private countBySource(quotes: BaseMarketData[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const provider of this.providerRegistry.getProviders()) {
+      counts[provider.code] = 0;
+    }
+    counts[MarketDataSource.MANUAL] = 0;
+    for (const quote of quotes) {
+      if (quote.source in counts) {
+        counts[quote.source]++;
+      }
+    }
+    return counts;
+  }
+
   /**
    * Execute a single fetch task with error handling and tracking
    */
   private async executeFetchTask(
     task: {
       name: string;
-      source: MarketDataSource;
-      fetchFn: () => Promise<ApiResult<any[]>>;
-      resultKey: keyof MarketDataResult;
+      source: string;
+      fetchFn: () => Promise<ApiResult<BaseMarketData[]>>;
+      resultKey: MarketDataCategory;
+      categorize?: (item: BaseMarketData) => MarketDataCategory;
     },
     result: MarketDataResult,
     executionId?: string
   ): Promise<void> {
     try {
       const apiResult = await task.fetchFn();
-      (result[task.resultKey] as any[]) = apiResult.data;
+      const buckets: MarketDataBuckets = result;
+      apiResult.data.forEach((item) => buckets[task.categorize ? task.categorize(item) : task.resultKey].push(item));
 
       // Record API call details using helper
       if (executionId) {
@@ -226,91 +230,57 @@ export class ExternalMarketDataService {
       etfCount: result.stocks.filter(stock => stock.type === 'ETF').length,
       cryptoCount: result.crypto.length,
       lastUpdate: new Date(),
-      sources: {
-        [MarketDataSource.FMARKET]: result.funds.length,
-        [MarketDataSource.DOJI]: result.gold.length,
-        [MarketDataSource.VIETCOMBANK]: result.exchangeRates.length,
-        [MarketDataSource.SSI]: result.stocks.length,
-        [MarketDataSource.COINGECKO]: result.crypto.length,
-        [MarketDataSource.MANUAL]: 0
-      }
+      sources: this.countBySource([
+        ...result.funds, ...result.gold, ...result.exchangeRates, ...result.stocks, ...result.crypto
+      ])
     };
   }
 
   /**
-   * Get price for a specific symbol - NO CIRCUIT BREAKER HERE
-   * Let individual clients handle their own circuit breakers
+   * Get price for a specific symbol, trying providers in the routing order for the asset.
+   * Providers with an open circuit are skipped; a failing provider falls through to the next one.
    */
-  async getPriceBySymbol(symbol: string): Promise<PriceUpdateResult | null> {
-    const priceCheckers = [
-      {
-        name: 'fund',
-        checker: () => this.fundPriceAPIClient.getFundPrice(symbol),
-        mapper: (data: any) => ({
-          symbol: data.symbol,
-          price: data.buyPrice,
-          type: 'FUND' as const,
-          source: 'fmarket.vn',
-          success: true
-        })
-      },
-      {
-        name: 'gold',
-        checker: () => this.goldPriceAPIClient.getGoldPriceBySymbol(symbol),
-        mapper: (data: any) => ({
-          symbol: symbol,
-          price: data.buyPrice,
-          type: 'GOLD' as const,
-          source: 'doji.vn',
-          success: true
-        })
-      },
-      {
-        name: 'exchangeRate',
-        checker: () => this.exchangeRateAPIClient.getExchangeRateBySymbol(symbol),
-        mapper: (data: any) => ({
-          symbol: symbol,
-          price: data.buyPrice,
-          type: 'EXCHANGE_RATE' as const,
-          source: 'tygiausd.org',
-          success: true
-        })
-      },
-      {
-        name: 'stock',
-        checker: () => this.stockPriceAPIClient.getStockPriceBySymbol(symbol),
-        mapper: (data: any) => ({
-          symbol: data.symbol,
-          price: data.buyPrice,
-          type: 'STOCK' as const,
-          source: data.source,
-          success: true
-        })
-      }
-    ];
-
-    try {
-      for (const checker of priceCheckers) {
-        const result = await checker.checker();
-        if (result) {
-          return checker.mapper(result);
+  async getPriceBySymbol(
+    symbol: string,
+    target: { assetType?: AssetType; globalAssetId?: string } = {},
+  ): Promise<PriceUpdateResult | null> {
+    const chain = this.providerRegistry.resolveChain({ symbol, ...target });
+    let lastError: Error | null = null;
+
+    for (const code of chain.available) {
+      const provider = this.providerRegistry.getProvider(code);
+      if (!provider?.fetchSymbol) continue;
+      try {
+        const data = await provider.fetchSymbol(symbol);
+        if (data) {
+          return {
+            symbol: data.symbol || symbol,
+            price: data.buyPrice,
+            type: CATEGORY_PRICE_TYPE[provider.categoryOf?.(data) ?? provider.category],
+            source: provider.code,
+            success: true
+          };
         }
+      } catch (error) {
+        lastError = error;
+        this.logger.warn(`Provider ${code} failed to price ${symbol}: ${error.message}`);
       }
-      return null;
-    } catch (error) {
-      this.logger.error(`Failed to get price for symbol ${symbol}:`, error.message);
+    }
+
+    if (lastError) {
+      this.logger.error(`Failed to get price for symbol ${symbol}:`, lastError.message);
       return {
         symbol,
         price: 0,
         type: 'STOCK',
         source: 'unknown',
         success: false,
-        error: error.message
+        error: lastError.message
       };
     }
+    return null;
   }
 
-
   /**
    * Test connectivity to all external APIs
    */
@@ -409,22 +379,35 @@ export class ExternalMarketDataService {
     // Cache miss or disabled - fetch from API
     this.logger.log(`Cache miss for market data type: ${type}, fetching from API...`);
     
-    const apiClients = {
-      funds: () => this.fundPriceAPIClient.getAllFundPrices(),
-      gold: () => this.goldPriceAPIClient.getAllGoldPrices(),
-      exchangeRates: () => this.exchangeRateAPIClient.getExchangeRates(),
-      stocks: () => this.stockPriceAPIClient.getAllStockPrices(),
-      crypto: () => this.cryptoPriceAPIClient.getAllCryptoPrices()
-    };
-
-    const fetchFn = apiClients[type];
-    if (!fetchFn) {
+    const providers = this.providerRegistry.getProviders(type).filter((provider) => this.providerRegistry.isAvailable(provider));
+    if (this.providerRegistry.getProviders(type).length === 0) {
       throw new Error(`Unsupported market data type: ${type}`);
     }
 
     try {
-      const result = await fetchFn();
-      const data = result.data || [];
+      // Merge quotes of every provider in priority order; the first provider quoting a symbol wins
+      const data: BaseMarketData[] = [];
+      const seen = new Set<string>();
+      let lastError: Error | null = null;
+      for (const provider of providers) {
+        try {
+          const result = await this.fetchFromProvider(provider);
+          for (const item of result.data) {
+            if (provider.categoryOf && provider.categoryOf(item) !== type) continue;
+            const key = item.symbol?.toUpperCase();
+            if (key && !seen.has(key)) {
+              seen.add(key);
+              data.push(item);
+            }
+          }
+        } catch (error) {
+          lastError = error;
+          this.logger.warn(`Provider ${provider.code} failed for ${type}: ${error.message}`);
+        }
+      }
+      if (data.length === 0 && (lastError || providers.length === 0)) {
+        throw lastError || new Error(`All ${type} providers are unavailable`);
+      }
 
       // Store in cache
       if (this.CACHE_ENABLED && data.length > 0) {
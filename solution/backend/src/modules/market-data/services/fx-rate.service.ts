@@ -0,0 +1,352 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThanOrEqual, MoreThan, Between, FindOptionsWhere } from 'typeorm';
+import { FxRate } from '../entities/fx-rate.entity';
+import { ExchangeRateAPIClient } from '../clients/exchange-rate-api.client';
+import { ExchangeRateData, MarketDataSource } from '../types/market-data.types';
+import { UpsertFxRateDto, FxConversionResult } from '../dto/fx-rate.dto';
+import { DEFAULT_CURRENCY, convertTradeAmounts, normalizeCurrency, ConvertibleTrade } from '../utils/fx-conversion.util';
+import { normalizeDateToString } from '../../portfolio/utils/date-normalization.util';
+
+interface ResolvedRate {
+  rate: number;
+  rateDate: string;
+}
+
+/**
+ * Service for the historical FX rate store.
+ * Rates are stored against VND (the currency quoted by the exchange-rate client);
+ * any other pair is resolved through its inverse or crossed via VND.
+ */
+@Injectable()
+export class FxRateService {
+  private readonly logger = new Logger(FxRateService.name);
+
+  /** Resolved rates keyed by from:to:date, cleared whenever rates are written */
+  private readonly rateCache = new Map<string, ResolvedRate | null>();
+
+  constructor(
+    @InjectRepository(FxRate)
+    private readonly fxRateRepository: Repository<FxRate>,
+    private readonly exchangeRateClient: ExchangeRateAPIClient,
+  ) {}
+
+  /**
+   * Store rates fetched from the exchange-rate client for the given day.
+   * Existing rates for the same pair and day are overwritten.
+   * @param rates - Rates quoted in VND per unit of foreign currency
+   * @param rateDate - Day the rates apply to (defaults to today)
+   * @returns Number of stored rates
+   */
+  async recordRates(rates: ExchangeRateData[], rateDate: Date | string = new Date()): Promise<number> {
+    const date = normalizeDateToString(rateDate);
+    const rows = (rates || [])
+      .map((item) => {
+        const currency = normalizeCurrency(item.currency || item.symbol, '');
+        const rate = this.pickReferenceRate(item);
+        if (!currency || currency === DEFAULT_CURRENCY || !rate) {
+          return null;
+        }
+        return {
+          fromCurrency: currency,
+          toCurrency: DEFAULT_CURRENCY,
+          rateDate: date,
+          rate,
+          buyRate: item.buyPrice > 0 ? item.buyPrice : null,
+          sellRate: item.sellPrice > 0 ? item.sellPrice : null,
+          source: item.source || MarketDataSource.VIETCOMBANK,
+        };
+      })
+      .filter((row) => row !== null);
+
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    await this.fxRateRepository.upsert(rows, ['fromCurrency', 'toCurrency', 'rateDate']);
+    this.rateCache.clear();
+    this.logger.log(`Recorded ${rows.length} FX rates for ${date}`);
+
+    await this.backfillTradeRates();
+    return rows.length;
+  }
+
+  /**
+   * Fetch today's rates from the exchange-rate client and store them
+   * @param bank - Bank to read rates from
+   * @returns Number of stored rates
+   */
+  async syncRates(bank: string = 'vietcombank'): Promise<number> {
+    const result = await this.exchangeRateClient.getExchangeRates(bank);
+    return this.recordRates(result.data);
+  }
+
+  /**
+   * Manually record a rate, typically to backfill historical trade dates
+   * @param dto - Rate data
+   * @returns Stored rate
+   */
+  async upsertRate(dto: UpsertFxRateDto): Promise<FxRate> {
+    const fromCurrency = normalizeCurrency(dto.fromCurrency);
+    const toCurrency = normalizeCurrency(dto.toCurrency);
+    const rateDate = normalizeDateToString(dto.rateDate);
+
+    await this.fxRateRepository.upsert(
+      {
+        fromCurrency,
+        toCurrency,
+        rateDate,
+        rate: dto.rate,
+        buyRate: dto.buyRate ?? null,
+        sellRate: dto.sellRate ?? null,
+        source: MarketDataSource.MANUAL,
+      },
+      ['fromCurrency', 'toCurrency', 'rateDate'],
+    );
+    this.rateCache.clear();
+
+    await this.backfillTradeRates();
+    return this.fxRateRepository.findOne({ where: { fromCurrency, toCurrency, rateDate } });
+  }
+
+  /**
+   * Get stored rates for a currency pair, newest first
+   * @param fromCurrency - Currency being converted from
+   * @param toCurrency - Currency being converted into
+   * @param startDate - Optional inclusive start date
+   * @param endDate - Optional inclusive end date
+   */
+  async getRateHistory(
+    fromCurrency: string,
+    toCurrency: string = DEFAULT_CURRENCY,
+    startDate?: Date | string,
+    endDate?: Date | string,
+  ): Promise<FxRate[]> {
+    const where: FindOptionsWhere<FxRate> = {
+      fromCurrency: normalizeCurrency(fromCurrency),
+      toCurrency: normalizeCurrency(toCurrency),
+    };
+    if (startDate || endDate) {
+      where.rateDate = Between(
+        startDate ? normalizeDateToString(startDate) : '1900-01-01',
+        endDate ? normalizeDateToString(endDate) : normalizeDateToString(new Date()),
+      );
+    }
+
+    return this.fxRateRepository.find({ where, order: { rateDate: 'DESC' } });
+  }
+
+  /**
+   * Get the most recent stored rate of every currency quoted against the given currency
+   * @param toCurrency - Quote currency (defaults to VND)
+   */
+  async getLatestRates(toCurrency: string = DEFAULT_CURRENCY): Promise<FxRate[]> {
+    return this.fxRateRepository
+      .createQueryBuilder('fx')
+      .distinctOn(['fx.from_currency'])
+      .where('fx.to_currency = :toCurrency', { toCurrency: normalizeCurrency(toCurrency) })
+      .orderBy('fx.from_currency', 'ASC')
+      .addOrderBy('fx.rate_date', 'DESC')
+      .getMany();
+  }
+
+  /**
+   * Get the rate converting fromCurrency into toCurrency on a date.
+   * Uses the latest rate on or before the date, falling back to the earliest later rate
+   * when the store has no history that far back.
+   * @returns Rate, 1 for identical currencies, or null when no rate is available
+   */
+  async getRate(fromCurrency: string, toCurrency: string, date: Date | string = new Date()): Promise<number | null> {
+    const resolved = await this.resolveRate(fromCurrency, toCurrency, date);
+    return resolved ? resolved.rate : null;
+  }
+
+  /**
+   * Convert an amount between currencies at the rate of the given date
+   * @throws NotFoundException when no rate is available for the pair
+   */
+  async convert(
+    amount: number,
+    fromCurrency: string,
+    toCurrency: string,
+    date: Date | string = new Date(),
+  ): Promise<FxConversionResult> {
+    const from = normalizeCurrency(fromCurrency);
+    const to = normalizeCurrency(toCurrency);
+    const resolved = await this.resolveRate(from, to, date);
+    if (!resolved) {
+      throw new NotFoundException(`No FX rate available for ${from}/${to}`);
+    }
+
+    return {
+      amount,
+      fromCurrency: from,
+      toCurrency: to,
+      rate: resolved.rate,
+      rateDate: resolved.rateDate,
+      convertedAmount: amount * resolved.rate,
+    };
+  }
+
+  /**
+   * Rate to store on a new trade: null when the asset trades in the portfolio base currency
+   * or when no rate is known yet (it is then resolved at calculation time).
+   */
+  async getTradeRate(assetCurrency: string, baseCurrency: string, tradeDate: Date | string): Promise<number | null> {
+    const from = normalizeCurrency(assetCurrency);
+    const to = normalizeCurrency(baseCurrency);
+    if (from === to) {
+      return null;
+    }
+    return this.getRate(from, to, tradeDate);
+  }
+
+  /**
+   * Convert trade prices, fees and taxes into the base currency at their trade-date rates.
+   * The stored trade rate wins over the rate store; trades without any known rate are kept
+   * unconverted and logged.
+   */
+  async convertTrades<T extends ConvertibleTrade & { tradeDate: Date; fxRate?: number | string | null }>(
+    trades: T[],
+    assetCurrency: string,
+    baseCurrency: string,
+  ): Promise<T[]> {
+    const from = normalizeCurrency(assetCurrency);
+    const to = normalizeCurrency(baseCurrency);
+    if (from === to) {
+      return trades;
+    }
+
+    const converted: T[] = [];
+    for (const trade of trades) {
+      const rate = await this.getTradeRateOrLookup(trade, from, to);
+      converted.push(convertTradeAmounts(trade, rate));
+    }
+    return converted;
+  }
+
+  /**
+   * Stored trade rate, or the rate store value for the trade date
+   */
+  async getTradeRateOrLookup(
+    trade: { tradeDate: Date; fxRate?: number | string | null },
+    assetCurrency: string,
+    baseCurrency: string,
+  ): Promise<number> {
+    if (trade.fxRate !== null && trade.fxRate !== undefined && Number(trade.fxRate) > 0) {
+      return Number(trade.fxRate);
+    }
+    const rate = await this.getRate(assetCurrency, baseCurrency, trade.tradeDate);
+    if (rate === null) {
+      this.logger.warn(`No FX rate for ${assetCurrency}/${baseCurrency} on ${normalizeDateToString(trade.tradeDate)}, using 1`);
+      return 1;
+    }
+    return rate;
+  }
+
+  /**
+   * Fill missing trade rates for trades whose asset currency differs from the portfolio base currency.
+   * Only rates dated on or before the trade date are used so a later backfill can still improve them.
+   * @returns Number of updated trades
+   */
+  async backfillTradeRates(): Promise<number> {
+    const pending: Array<{ tradeId: string; tradeDate: Date; assetCurrency: string; baseCurrency: string }> =
+      await this.fxRateRepository.manager.query(`
+        SELECT t.trade_id AS "tradeId", t.trade_date AS "tradeDate",
+               a.currency AS "assetCurrency", p.base_currency AS "baseCurrency"
+        FROM trades t
+        INNER JOIN assets a ON a.id = t.asset_id
+        INNER JOIN portfolios p ON p.portfolio_id = t.portfolio_id
+        WHERE t.fx_rate IS NULL AND a.currency <> p.base_currency
+      `);
+
+    let updated = 0;
+    for (const row of pending) {
+      const resolved = await this.resolveRate(row.assetCurrency, row.baseCurrency, row.tradeDate);
+      if (!resolved || resolved.rateDate > normalizeDateToString(row.tradeDate)) {
+        continue;
+      }
+      await this.fxRateRepository.manager.query(
+        `UPDATE trades SET fx_rate = $1 WHERE trade_id = $2`,
+        [resolved.rate, row.tradeId],
+      );
+      updated++;
+    }
+
+    if (updated > 0) {
+      this.logger.log(`Backfilled FX rates on ${updated} trades`);
+    }
+    return updated;
+  }
+
+  /**
+   * Resolve a rate directly, through the inverse pair or crossed via VND
+   */
+  private async resolveRate(fromCurrency: string, toCurrency: string, date: Date | string): Promise<ResolvedRate | null> {
+    const from = normalizeCurrency(fromCurrency);
+    const to = normalizeCurrency(toCurrency);
+    const day = normalizeDateToString(date);
+    if (from === to) {
+      return { rate: 1, rateDate: day };
+    }
+
+    const cacheKey = `${from}:${to}:${day}`;
+    if (this.rateCache.has(cacheKey)) {
+      return this.rateCache.get(cacheKey);
+    }
+
+    let resolved = await this.resolvePairRate(from, to, day);
+    if (!resolved && from !== DEFAULT_CURRENCY && to !== DEFAULT_CURRENCY) {
+      const fromLeg = await this.resolvePairRate(from, DEFAULT_CURRENCY, day);
+      const toLeg = fromLeg ? await this.resolvePairRate(DEFAULT_CURRENCY, to, day) : null;
+      if (fromLeg && toLeg) {
+        resolved = {
+          rate: fromLeg.rate * toLeg.rate,
+          rateDate: fromLeg.rateDate < toLeg.rateDate ? fromLeg.rateDate : toLeg.rateDate,
+        };
+      }
+    }
+
+    this.rateCache.set(cacheKey, resolved);
+    return resolved;
+  }
+
+  private async resolvePairRate(from: string, to: string, day: string): Promise<ResolvedRate | null> {
+    const direct = await this.findNearestRate(from, to, day);
+    if (direct) {
+      return { rate: Number(direct.rate), rateDate: direct.rateDate };
+    }
+    const inverse = await this.findNearestRate(to, from, day);
+    if (inverse && Number(inverse.rate) > 0) {
+      return { rate: 1 / Number(inverse.rate), rateDate: inverse.rateDate };
+    }
+    return null;
+  }
+
+  private async findNearestRate(from: string, to: string, day: string): Promise<FxRate | null> {
+    const onOrBefore = await this.fxRateRepository.findOne({
+      where: { fromCurrency: from, toCurrency: to, rateDate: LessThanOrEqual(day) },
+      order: { rateDate: 'DESC' },
+    });
+    if (onOrBefore) {
+      return onOrBefore;
+    }
+    return this.fxRateRepository.findOne({
+      where: { fromCurrency: from, toCurrency: to, rateDate: MoreThan(day) },
+      order: { rateDate: 'ASC' },
+    });
+  }
+
+  /**
+   * Transfer rate is the bank's reference rate; fall back to the mid of buy/sell
+   */
+  private pickReferenceRate(item: ExchangeRateData): number | null {
+    if (item.transferPrice > 0) {
+      return item.transferPrice;
+    }
+    if (item.buyPrice > 0 && item.sellPrice > 0) {
+      return (item.buyPrice + item.sellPrice) / 2;
+    }
+    return item.sellPrice > 0 ? item.sellPrice : item.buyPrice > 0 ? item.buyPrice : null;
+  }
+}
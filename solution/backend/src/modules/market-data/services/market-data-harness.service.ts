@@ -0,0 +1,91 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import { ApiTrackingOptions } from '../interfaces/api-tracking.interface';
+import {
+  MarketDataFixture,
+  MarketDataHarnessMode,
+  buildFixturePath,
+  resolveHarnessMode,
+  reviveFixtureDates,
+} from '../utils/market-data-fixture.util';
+
+/**
+ * Record/replay harness for the market data clients. ApiTrackingBase sends every provider call
+ * through run(): in record mode the response is saved as a JSON fixture, in replay mode the
+ * fixture is served and the network is never touched. The mode is chosen per provider
+ * (MARKET_DATA_MODE_<PROVIDER>, falling back to MARKET_DATA_MODE).
+ */
+@Injectable()
+export class MarketDataHarnessService {
+  private readonly logger = new Logger(MarketDataHarnessService.name);
+  private readonly fixturesDir: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.fixturesDir = resolve(
+      process.cwd(),
+      this.configService.get<string>('MARKET_DATA_FIXTURES_DIR', 'fixtures/market-data'),
+    );
+  }
+
+  getMode(provider: string): MarketDataHarnessMode {
+    return resolveHarnessMode(provider, (key) => this.configService.get<string>(key));
+  }
+
+  getFixturesDir(): string {
+    return this.fixturesDir;
+  }
+
+  /**
+   * Run a provider call in the provider's mode
+   */
+  async run<T>(options: ApiTrackingOptions, apiCall: () => Promise<T>): Promise<T> {
+    const mode = this.getMode(options.provider);
+
+    if (mode === 'replay') {
+      return this.readFixture<T>(options);
+    }
+
+    const data = await apiCall();
+    if (mode === 'record') {
+      await this.writeFixture(options, data);
+    }
+    return data;
+  }
+
+  private async readFixture<T>(options: ApiTrackingOptions): Promise<T> {
+    const file = resolve(this.fixturesDir, buildFixturePath(options));
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      throw new Error(`No recorded fixture for ${options.provider} ${options.endpoint} (${file})`);
+    }
+    const fixture: MarketDataFixture<T> = JSON.parse(content, reviveFixtureDates);
+    this.logger.debug(`Replaying ${options.provider} ${options.endpoint} recorded at ${fixture.recordedAt}`);
+    return fixture.data;
+  }
+
+  /**
+   * Save a response; a failure to write is logged and never fails the live call
+   */
+  private async writeFixture<T>(options: ApiTrackingOptions, data: T): Promise<void> {
+    const file = resolve(this.fixturesDir, buildFixturePath(options));
+    const fixture: MarketDataFixture<T> = {
+      provider: options.provider,
+      endpoint: options.endpoint,
+      method: (options.method || 'GET').toUpperCase(),
+      requestData: options.requestData,
+      recordedAt: new Date().toISOString(),
+      data,
+    };
+    try {
+      await fs.mkdir(dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(fixture, null, 2), 'utf8');
+      this.logger.log(`Recorded ${options.provider} ${options.endpoint} to ${file}`);
+    } catch (error) {
+      this.logger.warn(`Failed to record fixture for ${options.provider} ${options.endpoint}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CircuitBreakerService, CircuitState } from '../../shared/services/circuit-breaker.service';
+import { MarketDataProvider, MarketDataCategory } from '../providers/market-data-provider.interface';
+import { MarketDataProviderPreference } from '../entities/market-data-provider-preference.entity';
+import {
+  ProviderChain,
+  ProviderRoutingPreference,
+  ProviderRoutingTarget,
+  resolveProviderChain,
+  selectQuote,
+} from '../utils/provider-routing.util';
+
+/**
+ * Registry of market data providers. Providers register themselves on module init
+ * (see RegisteredMarketDataProvider), and the registry routes each asset to them
+ * using admin preferences, default priorities and circuit breaker state.
+ */
+@Injectable()
+export class MarketDataProviderRegistry implements OnApplicationBootstrap {
+  private readonly logger = new Logger(MarketDataProviderRegistry.name);
+  private readonly providers = new Map<string, MarketDataProvider>();
+  private preferences: ProviderRoutingPreference[] = [];
+
+  constructor(
+    @InjectRepository(MarketDataProviderPreference)
+    private readonly preferenceRepository: Repository<MarketDataProviderPreference>,
+    private readonly circuitBreakerService: CircuitBreakerService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.reloadPreferences();
+  }
+
+  register(provider: MarketDataProvider): void {
+    if (this.providers.has(provider.code)) {
+      this.logger.warn(`Market data provider ${provider.code} is already registered, replacing it`);
+    }
+    this.providers.set(provider.code, provider);
+    this.logger.log(`Registered market data provider ${provider.code} (${provider.assetTypes.join(', ')})`);
+  }
+
+  /**
+   * Registered providers by default priority; with a category, the providers that may quote into it
+   */
+  getProviders(category?: MarketDataCategory): MarketDataProvider[] {
+    return [...this.providers.values()]
+      .filter((provider) => !category || provider.category === category || !!provider.categoryOf)
+      .sort((a, b) => a.defaultPriority - b.defaultPriority || a.code.localeCompare(b.code));
+  }
+
+  getProvider(code: string): MarketDataProvider | undefined {
+    return this.providers.get(code);
+  }
+
+  /**
+   * A provider is out of rotation while the circuit breaker of its client is open
+   */
+  isAvailable(provider: MarketDataProvider): boolean {
+    return this.circuitBreakerService.getStats(provider.circuitName)?.state !== CircuitState.OPEN;
+  }
+
+  resolveChain(target: ProviderRoutingTarget): ProviderChain {
+    return resolveProviderChain(
+      this.getProviders().map((provider) => ({
+        code: provider.code,
+        assetTypes: provider.assetTypes,
+        defaultPriority: provider.defaultPriority,
+        available: this.isAvailable(provider),
+        supportsSymbol: provider.supportsSymbol?.bind(provider),
+      })),
+      target,
+      this.preferences,
+    );
+  }
+
+  /**
+   * Pick which provider's quote to use for an asset out of the quotes fetched for its symbol
+   */
+  selectQuote<T extends { source: string }>(candidates: T[], target: ProviderRoutingTarget) {
+    return selectQuote(candidates, this.resolveChain(target));
+  }
+
+  /**
+   * Reload admin preferences into the in-memory routing table
+   */
+  async reloadPreferences(): Promise<void> {
+    try {
+      const rows = await this.preferenceRepository.find();
+      this.preferences = rows.map((row) => ({
+        assetType: row.assetType,
+        globalAssetId: row.globalAssetId,
+        providerCodes: row.providerCodes || [],
+      }));
+    } catch (error) {
+      this.logger.warn(`Failed to load market data provider preferences: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, MoreThanOrEqual } from 'typeorm';
+import { MarketDataProviderPreference } from '../entities/market-data-provider-preference.entity';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+import { ApiCallDetail, ApiCallStatus } from '../../asset/entities/api-call-detail.entity';
+import { AssetPriceHistory } from '../../asset/entities/asset-price-history.entity';
+import { CircuitBreakerService, CircuitState } from '../../shared/services/circuit-breaker.service';
+import { MarketDataProviderRegistry } from './market-data-provider-registry.service';
+import { MarketDataProvider } from '../providers/market-data-provider.interface';
+import {
+  UpsertProviderPreferenceDto,
+  ProviderPreferenceResponseDto,
+  MarketDataProviderInfoDto,
+  MarketDataProviderHealthResponseDto,
+} from '../dto/market-data-provider.dto';
+
+const DEFAULT_HEALTH_WINDOW_HOURS = 24;
+
+/**
+ * Admin side of the provider registry: routing preferences and per-provider health
+ */
+@Injectable()
+export class MarketDataProviderService {
+  private readonly logger = new Logger(MarketDataProviderService.name);
+
+  constructor(
+    @InjectRepository(MarketDataProviderPreference)
+    private readonly preferenceRepository: Repository<MarketDataProviderPreference>,
+    @InjectRepository(GlobalAsset)
+    private readonly globalAssetRepository: Repository<GlobalAsset>,
+    @InjectRepository(ApiCallDetail)
+    private readonly apiCallDetailRepository: Repository<ApiCallDetail>,
+    @InjectRepository(AssetPriceHistory)
+    private readonly assetPriceHistoryRepository: Repository<AssetPriceHistory>,
+    private readonly providerRegistry: MarketDataProviderRegistry,
+    private readonly circuitBreakerService: CircuitBreakerService,
+  ) {}
+
+  getProviders(): MarketDataProviderInfoDto[] {
+    return this.providerRegistry.getProviders().map((provider) => this.toProviderInfo(provider));
+  }
+
+  /**
+   * Call statistics, circuit state and prices served per provider over the last windowHours
+   */
+  async getHealth(windowHours: number = DEFAULT_HEALTH_WINDOW_HOURS): Promise<MarketDataProviderHealthResponseDto> {
+    const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+    const providers = this.providerRegistry.getProviders();
+
+    const callRows: Array<{
+      provider: string;
+      total: string;
+      success: string;
+      failed: string;
+      avgResponseTime: string | null;
+      lastSuccessAt: Date | null;
+      lastFailureAt: Date | null;
+    }> = await this.apiCallDetailRepository
+      .createQueryBuilder('call')
+      .select('call.provider', 'provider')
+      .addSelect('COUNT(*)', 'total')
+      .addSelect(`COUNT(*) FILTER (WHERE call.status = '${ApiCallStatus.SUCCESS}')`, 'success')
+      .addSelect(`COUNT(*) FILTER (WHERE call.status IN ('${ApiCallStatus.FAILED}', '${ApiCallStatus.TIMEOUT}'))`, 'failed')
+      .addSelect(`AVG(call.responseTime) FILTER (WHERE call.status = '${ApiCallStatus.SUCCESS}')`, 'avgResponseTime')
+      .addSelect(`MAX(call.createdAt) FILTER (WHERE call.status = '${ApiCallStatus.SUCCESS}')`, 'lastSuccessAt')
+      .addSelect(`MAX(call.createdAt) FILTER (WHERE call.status IN ('${ApiCallStatus.FAILED}', '${ApiCallStatus.TIMEOUT}'))`, 'lastFailureAt')
+      .where('call.createdAt >= :since', { since })
+      .groupBy('call.provider')
+      .getRawMany();
+    const callsByProvider = new Map(callRows.map((row) => [row.provider, row]));
+
+    const lastErrors = new Map<string, string>();
+    for (const provider of providers) {
+      const lastFailure = await this.apiCallDetailRepository.findOne({
+        where: [
+          { provider: provider.trackingName, status: ApiCallStatus.FAILED, createdAt: MoreThanOrEqual(since) },
+          { provider: provider.trackingName, status: ApiCallStatus.TIMEOUT, createdAt: MoreThanOrEqual(since) },
+        ],
+        order: { createdAt: 'DESC' },
+      });
+      if (lastFailure?.errorMessage) {
+        lastErrors.set(provider.code, lastFailure.errorMessage);
+      }
+    }
+
+    // Older history rows only carry the quote source; it holds the provider code as well
+    const servedRows: Array<{ provider: string; served: string; fallback: string }> = await this.assetPriceHistoryRepository.query(
+      `SELECT COALESCE(metadata->>'provider', metadata->>'source') AS "provider",
+              COUNT(*) AS "served",
+              COUNT(*) FILTER (WHERE (metadata->>'fallback')::boolean IS TRUE) AS "fallback"
+       FROM asset_price_history
+       WHERE created_at >= $1 AND metadata IS NOT NULL
+       GROUP BY 1`,
+      [since],
+    );
+    const servedByProvider = new Map(servedRows.map((row) => [row.provider, row]));
+
+    return {
+      windowHours,
+      providers: providers.map((provider) => {
+        const calls = callsByProvider.get(provider.trackingName);
+        const served = servedByProvider.get(provider.code);
+        const totalCalls = Number(calls?.total || 0);
+        const successfulCalls = Number(calls?.success || 0);
+        return {
+          ...this.toProviderInfo(provider),
+          totalCalls,
+          successfulCalls,
+          failedCalls: Number(calls?.failed || 0),
+          successRate: totalCalls > 0 ? Math.round((successfulCalls / totalCalls) * 10000) / 100 : 0,
+          averageResponseTime: Math.round(Number(calls?.avgResponseTime || 0)),
+          lastSuccessAt: calls?.lastSuccessAt || null,
+          lastFailureAt: calls?.lastFailureAt || null,
+          lastError: lastErrors.get(provider.code) || null,
+          pricesServed: Number(served?.served || 0),
+          fallbackPrices: Number(served?.fallback || 0),
+        };
+      }),
+    };
+  }
+
+  async getPreferences(): Promise<ProviderPreferenceResponseDto[]> {
+    const preferences = await this.preferenceRepository.find({
+      relations: ['globalAsset'],
+      order: { assetType: 'ASC', updatedAt: 'DESC' },
+    });
+    return preferences.map((preference) => this.toPreferenceResponse(preference));
+  }
+
+  /**
+   * Create or replace the provider order of an asset type or a global asset
+   */
+  async upsertPreference(dto: UpsertProviderPreferenceDto): Promise<ProviderPreferenceResponseDto> {
+    const unknownCodes = dto.providerCodes.filter((code) => !this.providerRegistry.getProvider(code));
+    if (unknownCodes.length > 0) {
+      throw new BadRequestException(`Unknown market data provider(s): ${unknownCodes.join(', ')}`);
+    }
+
+    const globalAsset = await this.resolveGlobalAsset(dto);
+    if (!globalAsset && !dto.assetType) {
+      throw new BadRequestException('Either assetType, globalAssetId or symbol is required');
+    }
+
+    const targetType = globalAsset ? globalAsset.type : dto.assetType;
+    const unsupported = dto.providerCodes.filter(
+      (code) => !this.providerRegistry.getProvider(code).assetTypes.includes(targetType),
+    );
+    if (unsupported.length > 0) {
+      throw new BadRequestException(`Provider(s) ${unsupported.join(', ')} do not serve ${targetType} assets`);
+    }
+
+    let preference = await this.preferenceRepository.findOne({
+      where: globalAsset
+        ? { globalAssetId: globalAsset.id }
+        : { assetType: dto.assetType, globalAssetId: IsNull() },
+    });
+    if (!preference) {
+      preference = this.preferenceRepository.create({
+        assetType: globalAsset ? null : dto.assetType,
+        globalAssetId: globalAsset ? globalAsset.id : null,
+      });
+    }
+    preference.providerCodes = dto.providerCodes;
+
+    const saved = await this.preferenceRepository.save(preference);
+    await this.providerRegistry.reloadPreferences();
+    this.logger.log(
+      `Provider order for ${globalAsset ? globalAsset.symbol : dto.assetType} set to ${dto.providerCodes.join(' > ')}`,
+    );
+
+    saved.globalAsset = globalAsset || undefined;
+    return this.toPreferenceResponse(saved);
+  }
+
+  async deletePreference(id: string): Promise<void> {
+    const result = await this.preferenceRepository.delete(id);
+    if (!result.affected) {
+      throw new NotFoundException(`Provider preference with ID ${id} not found`);
+    }
+    await this.providerRegistry.reloadPreferences();
+  }
+
+  private async resolveGlobalAsset(dto: UpsertProviderPreferenceDto): Promise<GlobalAsset | null> {
+    if (dto.globalAssetId) {
+      const asset = await this.globalAssetRepository.findOne({ where: { id: dto.globalAssetId } });
+      if (!asset) {
+        throw new NotFoundException(`Global asset with ID ${dto.globalAssetId} not found`);
+      }
+      return asset;
+    }
+    if (dto.symbol) {
+      const assets = await this.globalAssetRepository.find({ where: { symbol: dto.symbol } });
+      if (assets.length === 0) {
+        throw new NotFoundException(`Global asset with symbol ${dto.symbol} not found`);
+      }
+      if (assets.length > 1) {
+        throw new BadRequestException(`Symbol ${dto.symbol} exists in several nations, use globalAssetId instead`);
+      }
+      return assets[0];
+    }
+    return null;
+  }
+
+  private toProviderInfo(provider: MarketDataProvider): MarketDataProviderInfoDto {
+    const circuitState = this.circuitBreakerService.getStats(provider.circuitName)?.state || CircuitState.CLOSED;
+    return {
+      code: provider.code,
+      name: provider.name,
+      category: provider.category,
+      assetTypes: provider.assetTypes,
+      defaultPriority: provider.defaultPriority,
+      circuitState,
+      available: circuitState !== CircuitState.OPEN,
+    };
+  }
+
+  private toPreferenceResponse(preference: MarketDataProviderPreference): ProviderPreferenceResponseDto {
+    return {
+      id: preference.id,
+      assetType: preference.assetType,
+      globalAssetId: preference.globalAssetId,
+      symbol: preference.globalAsset?.symbol || null,
+      assetName: preference.globalAsset?.name || null,
+      providerCodes: preference.providerCodes,
+      updatedAt: preference.updatedAt,
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
 import { format } from 'date-fns';
@@ -9,6 +9,9 @@ import { MarketDataResult } from '../types/market-data.types';
 import { AssetPriceHistory } from '../../asset/entities/asset-price-history.entity';
 import { GlobalAsset } from '../../asset/entities/global-asset.entity';
 import { PriceType, PriceSource } from '../../asset/enums/price-type.enum';
+import { DailyBarService, DailyBarGapReport } from './daily-bar.service';
+import { AssetDailyBar } from '../entities/asset-daily-bar.entity';
+import { addDays } from '../utils/daily-bar.util';
 
 export interface MarketPrice {
   symbol: string;
@@ -24,6 +27,9 @@ export interface MarketDataConfig {
 
 export interface MarketDataPoint {
   date: string;
+  openPrice?: number;
+  highPrice?: number;
+  lowPrice?: number;
   closePrice: number;
   change: number;
   changePercent: number;
@@ -81,7 +87,8 @@ export class MarketDataService {
     @InjectRepository(AssetPriceHistory)
     private readonly assetPriceHistoryRepository: Repository<AssetPriceHistory>,
     @InjectRepository(GlobalAsset)
-    private readonly globalAssetRepository: Repository<GlobalAsset>
+    private readonly globalAssetRepository: Repository<GlobalAsset>,
+    private readonly dailyBarService: DailyBarService
   ) {
     this.logger.log('Market Data Service initialized with external API integration and database storage');
   }
@@ -165,6 +172,32 @@ export class MarketDataService {
     return marketPrice.price;
   }
 
+  /**
+   * Get the market price of a symbol on a date: the latest stored price up to the end of that day,
+   * falling back to the current price when no history is stored
+   * @param symbol - Asset symbol
+   * @param date - Date (YYYY-MM-DD)
+   * @returns Price, or null when no price is known
+   */
+  async getPriceOnDate(symbol: string, date: string): Promise<number | null> {
+    const globalAsset = await this.findGlobalAssetBySymbol(symbol);
+    if (globalAsset) {
+      const record = await this.assetPriceHistoryRepository.findOne({
+        where: {
+          assetId: globalAsset.id,
+          createdAt: LessThanOrEqual(new Date(`${date}T23:59:59.999Z`)),
+        },
+        order: { createdAt: 'DESC' },
+      });
+      if (record && Number(record.price) > 0) {
+        return Number(record.price);
+      }
+    }
+
+    const currentPrice = await this.getCurrentPrice(symbol);
+    return currentPrice > 0 ? currentPrice : null;
+  }
+
   /**
    * Get current market data for a symbol
    */
@@ -729,10 +762,14 @@ export class MarketDataService {
         // Group by date (YYYY-MM-DD) to keep only the latest record per day
         const dateKey = dateString.split('T')[0]; // Get YYYY-MM-DD part
         
-        // Keep the latest record for each day (highest timestamp)
-        if (!dailyDataMap.has(dateKey) || timestamp > dailyDataMap.get(dateKey).originalTimestamp) {
+        // Keep the latest record for each day (highest timestamp), and the day's open/high/low
+        const previousDay = dailyDataMap.get(dateKey);
+        if (!previousDay || timestamp > previousDay.originalTimestamp) {
           dailyDataMap.set(dateKey, {
             date: dateString, // Keep original API date - localtime processing will be handled in savePriceHistoryToDB
+            openPrice: previousDay ? previousDay.openPrice : price,
+            highPrice: previousDay ? Math.max(previousDay.highPrice, price) : price,
+            lowPrice: previousDay ? Math.min(previousDay.lowPrice, price) : price,
             closePrice: price,
             volume: volume,
             value: marketCap,
@@ -740,6 +777,9 @@ export class MarketDataService {
             marketCap: marketCap,
             totalVolume: volume
           });
+        } else {
+          previousDay.highPrice = Math.max(previousDay.highPrice, price);
+          previousDay.lowPrice = Math.min(previousDay.lowPrice, price);
         }
       }
 
@@ -765,6 +805,9 @@ export class MarketDataService {
 
         marketDataPoints.push({
           date: newDate, // Original API date - localtime processing handled in savePriceHistoryToDB
+          openPrice: dayData.openPrice,
+          highPrice: dayData.highPrice,
+          lowPrice: dayData.lowPrice,
           closePrice: dayData.closePrice,
           change: change,
           changePercent: changePercent,
@@ -1124,6 +1167,9 @@ export class MarketDataService {
 
     return {
       date: this.parseVietnameseDate(item.Ngay),
+      openPrice: (item.GiaMoCua || 0) * multiplyBy,
+      highPrice: (item.GiaCaoNhat || 0) * multiplyBy,
+      lowPrice: (item.GiaThapNhat || 0) * multiplyBy,
       closePrice: closePrice,
       change: change,
       changePercent: changePercent,
@@ -1462,6 +1508,63 @@ export class MarketDataService {
     }
   }
 
+  /**
+   * Daily OHLCV bars of a symbol, oldest first
+   * @param symbol - Global asset symbol
+   * @param startDate - Start date (YYYY-MM-DD), defaults to one year before the end date
+   * @param endDate - End date (YYYY-MM-DD), defaults to today
+   */
+  async getDailyBars(symbol: string, startDate?: string, endDate?: string): Promise<AssetDailyBar[]> {
+    const asset = await this.getGlobalAssetOrFail(symbol);
+    const end = endDate || format(new Date(), 'yyyy-MM-dd');
+    const start = startDate || addDays(end, -365);
+    return this.dailyBarService.getBars(asset.id, start, end);
+  }
+
+  /**
+   * Trading days without a daily bar for a symbol
+   */
+  async getDailyBarGaps(symbol: string, startDate?: string, endDate?: string): Promise<DailyBarGapReport> {
+    const asset = await this.getGlobalAssetOrFail(symbol);
+    return this.dailyBarService.detectGaps(asset.id, startDate, endDate);
+  }
+
+  /**
+   * Re-fetch the missing trading days of a symbol from the historical API.
+   * One fetch covers the first through the last missing day; existing history rows are kept
+   * (no cleanup, duplicates skipped) and bars are upserted by date.
+   * @returns Gaps before the backfill, the fetch result and the gaps the source could not fill
+   */
+  async backfillDailyBarGaps(symbol: string, startDate?: string, endDate?: string): Promise<DailyBarBackfillResult> {
+    const asset = await this.getGlobalAssetOrFail(symbol);
+    const before = await this.dailyBarService.detectGaps(asset.id, startDate, endDate);
+    if (before.missingDates.length === 0) {
+      return { before, fetch: null, remaining: before };
+    }
+
+    const fetchStart = before.missingDates[0];
+    const fetchEnd = before.missingDates[before.missingDates.length - 1];
+    this.logger.log(`Backfilling ${before.missingDates.length} missing daily bars for ${symbol} (${fetchStart} to ${fetchEnd})`);
+    const fetch = await this.fetchHistoricalPricesFromAPIAndStoreInDB(
+      [{ symbol: asset.symbol, assetType: asset.type }],
+      new Date(`${fetchStart}T00:00:00Z`),
+      new Date(`${fetchEnd}T23:59:59Z`),
+      asset.id,
+      false,
+      'none',
+    );
+    const remaining = await this.dailyBarService.detectGaps(asset.id, before.startDate, before.endDate);
+    return { before, fetch, remaining };
+  }
+
+  private async getGlobalAssetOrFail(symbol: string): Promise<GlobalAsset> {
+    const asset = await this.findGlobalAssetBySymbol(symbol.toUpperCase());
+    if (!asset) {
+      throw new NotFoundException(`GlobalAsset not found for symbol: ${symbol}`);
+    }
+    return asset;
+  }
+
   /**
    * Save price history data to database
    * @param symbol - Market symbol
@@ -1490,6 +1593,20 @@ export class MarketDataService {
       if (filteredCount > 0) {
         this.logger.warn(`Filtered out ${filteredCount} invalid price records for ${symbol} (price <= 0)`);
       }
+
+      // Daily bars are upserted by date, so they are written even when the history rows are duplicates
+      await this.dailyBarService.upsertBars(
+        assetId,
+        validDataPoints.map(dataPoint => ({
+          date: dataPoint.date,
+          open: dataPoint.openPrice,
+          high: dataPoint.highPrice,
+          low: dataPoint.lowPrice,
+          close: dataPoint.closePrice,
+          volume: dataPoint.volume,
+        })),
+        validDataPoints[0]?.source || 'EXTERNAL_API',
+      );
       
       const priceHistoryRecords = validDataPoints.map(dataPoint => {
           const record = new AssetPriceHistory();
@@ -2006,6 +2123,12 @@ export interface BulkPriceResult {
   processedSymbols: ProcessedSymbol[];
 }
 
+export interface DailyBarBackfillResult {
+  before: DailyBarGapReport;
+  fetch: BulkPriceResult | null;
+  remaining: DailyBarGapReport;
+}
+
 export interface ProcessedSymbol {
   symbol: string;
   recordCount: number;
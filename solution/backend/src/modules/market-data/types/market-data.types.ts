@@ -10,6 +10,8 @@ export interface BaseMarketData {
   source: string;
   type: string;
   name?: string;
+  /** Traded volume of the session, when the provider reports one */
+  volume?: number;
 }
 
 export enum MarketDataType {
@@ -66,6 +68,10 @@ export interface CryptoData extends BaseMarketData {
 
 export type MarketData = FundData | GoldData | ExchangeRateData | StockData | CryptoData;
 
+export function isExchangeRateData(data: BaseMarketData): data is ExchangeRateData {
+  return data.type === MarketDataType.EXCHANGE_RATE;
+}
+
 export interface MarketDataResponse<T extends MarketData> {
   success: boolean;
   data: T[];
@@ -84,13 +90,12 @@ export interface MarketDataSummary {
   etfCount: number;
   cryptoCount: number;
   lastUpdate: Date;
-  sources: {
-    [key in MarketDataSource]: number;
-  };
+  // Quote count per provider code (MarketDataSource values for the built-in providers)
+  sources: Record<string, number>;
 }
 
 export interface APIError {
-  source: MarketDataSource;
+  source: MarketDataSource | string;
   message: string;
   timestamp: Date;
   details?: any;
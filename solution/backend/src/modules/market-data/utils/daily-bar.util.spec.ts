@@ -0,0 +1,61 @@
+import {
+  buildDailyBar,
+  findMissingTradingDays,
+  groupMissingDays,
+  mergeTick,
+  toBarDate,
+} from './daily-bar.util';
+
+describe('daily-bar.util', () => {
+  it('should fill a close-only price and keep high/low around open and close', () => {
+    expect(buildDailyBar({ date: '2025-03-03', close: 25.5 })).toEqual({
+      open: 25.5, high: 25.5, low: 25.5, close: 25.5, volume: 0,
+    });
+    expect(buildDailyBar({ date: '2025-03-03', open: 26, high: 25.8, low: 25.2, close: 25.5, volume: 1200 })).toEqual({
+      open: 26, high: 26, low: 25.2, close: 25.5, volume: 1200,
+    });
+  });
+
+  it('should fold intraday ticks into one bar', () => {
+    let bar = mergeTick(null, 100, 1000);
+    bar = mergeTick(bar, 104.12345678, 1500);
+    bar = mergeTick(bar, 98.5, 900);
+    bar = mergeTick(bar, 101, undefined);
+
+    expect(bar).toEqual({ open: 100, high: 104.12345678, low: 98.5, close: 101, volume: 1500 });
+  });
+
+  it('should read the calendar day of date strings and timestamps', () => {
+    expect(toBarDate('2025-03-03')).toBe('2025-03-03');
+    expect(toBarDate('2025-03-03T23:30:00.000Z')).toBe('2025-03-03');
+    expect(toBarDate(new Date('2025-03-03T10:00:00.000Z'))).toBe('2025-03-03');
+    expect(toBarDate('not a date')).toBeNull();
+  });
+
+  it('should find missing weekdays and group them across weekends', () => {
+    // 2025-03-07 is a Friday
+    const missing = findMissingTradingDays(
+      ['2025-03-03', '2025-03-04', '2025-03-11'],
+      '2025-03-03',
+      '2025-03-14',
+    );
+
+    expect(missing).toEqual(['2025-03-05', '2025-03-06', '2025-03-07', '2025-03-10', '2025-03-12', '2025-03-13', '2025-03-14']);
+    expect(groupMissingDays(missing)).toEqual([
+      { startDate: '2025-03-05', endDate: '2025-03-10', days: 4 },
+      { startDate: '2025-03-12', endDate: '2025-03-14', days: 3 },
+    ]);
+  });
+
+  it('should honour a custom trading calendar', () => {
+    const holidays = new Set(['2025-03-05']);
+    const isTradingDay = (date: string) => !holidays.has(date) && new Date(`${date}T00:00:00Z`).getUTCDay() % 6 !== 0;
+
+    const missing = findMissingTradingDays(['2025-03-03'], '2025-03-03', '2025-03-06', isTradingDay);
+
+    expect(missing).toEqual(['2025-03-04', '2025-03-06']);
+    expect(groupMissingDays(missing, isTradingDay)).toEqual([
+      { startDate: '2025-03-04', endDate: '2025-03-06', days: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Open/high/low/close/volume of one trading day
+ */
+export interface DailyBarValues {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * A daily price as returned by the historical APIs; open/high/low are missing for close-only sources
+ */
+export interface DailyBarInput {
+  date: string;
+  close: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+}
+
+/**
+ * A run of consecutive missing trading days
+ */
+export interface DailyBarGapRange {
+  startDate: string;
+  endDate: string;
+  days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^(\d{4}-\d{2}-\d{2})/;
+
+/**
+ * Default trading day rule: Monday to Friday
+ */
+export function isWeekday(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day !== 0 && day !== 6;
+}
+
+/**
+ * YYYY-MM-DD of a market date; date strings keep their calendar day, other values are read as UTC
+ */
+export function toBarDate(value: string | Date): string | null {
+  if (typeof value === 'string') {
+    const match = value.match(DATE_ONLY);
+    if (match) {
+      return match[1];
+    }
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+}
+
+/**
+ * Bar of a daily price. Missing open/high/low fall back to the close, and high/low are widened
+ * so that they always contain open and close.
+ */
+export function buildDailyBar(input: DailyBarInput): DailyBarValues {
+  const close = input.close;
+  const open = positiveOr(input.open, close);
+  return {
+    open,
+    high: Math.max(positiveOr(input.high, close), open, close),
+    low: Math.min(positiveOr(input.low, close), open, close),
+    close,
+    volume: positiveOr(input.volume, 0),
+  };
+}
+
+/**
+ * Fold an intraday price into the bar of its day: the first tick opens the bar, later ticks move
+ * high/low and the close. Volume is the day's cumulative volume, so the largest one seen is kept.
+ */
+export function mergeTick(bar: DailyBarValues | null, price: number, volume?: number): DailyBarValues {
+  if (!bar) {
+    return buildDailyBar({ date: '', close: price, volume });
+  }
+  return {
+    open: bar.open,
+    high: Math.max(bar.high, price),
+    low: Math.min(bar.low, price),
+    close: price,
+    volume: Math.max(bar.volume, positiveOr(volume, 0)),
+  };
+}
+
+/**
+ * Trading days between start and end (inclusive) that have no bar
+ */
+export function findMissingTradingDays(
+  existingDates: string[],
+  startDate: string,
+  endDate: string,
+  isTradingDay: (date: string) => boolean = isWeekday,
+): string[] {
+  const existing = new Set(existingDates);
+  const missing: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (isTradingDay(date) && !existing.has(date)) {
+      missing.push(date);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Group missing days into ranges; two missing days belong to the same range when no trading day
+ * lies between them, so a gap spanning a weekend is fetched in one call
+ */
+export function groupMissingDays(
+  missingDates: string[],
+  isTradingDay: (date: string) => boolean = isWeekday,
+): DailyBarGapRange[] {
+  const ranges: DailyBarGapRange[] = [];
+  for (const date of [...missingDates].sort()) {
+    const current = ranges[ranges.length - 1];
+    if (current && nextTradingDay(current.endDate, isTradingDay) === date) {
+      current.endDate = date;
+      current.days++;
+    } else {
+      ranges.push({ startDate: date, endDate: date, days: 1 });
+    }
+  }
+  return ranges;
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function nextTradingDay(date: string, isTradingDay: (date: string) => boolean): string {
+  let next = addDays(date, 1);
+  // A year without a trading day means a broken calendar, not a long holiday
+  for (let i = 0; i < 366 && !isTradingDay(next); i++) {
+    next = addDays(next, 1);
+  }
+  return next;
+}
+
+function positiveOr(value: number | undefined, fallback: number): number {
+  return typeof value === 'number' && isFinite(value) && value > 0 ? value : fallback;
+}
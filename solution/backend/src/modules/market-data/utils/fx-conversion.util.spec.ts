@@ -0,0 +1,62 @@
+import {
+  convertTradeAmounts,
+  normalizeCurrency,
+  splitRealizedPnl,
+  splitUnrealizedPnl,
+} from './fx-conversion.util';
+
+describe('fx-conversion.util', () => {
+  describe('normalizeCurrency', () => {
+    it('should upper-case valid codes and fall back for invalid ones', () => {
+      expect(normalizeCurrency(' usd ')).toBe('USD');
+      expect(normalizeCurrency(undefined)).toBe('VND');
+      expect(normalizeCurrency('DOLLAR', 'EUR')).toBe('EUR');
+    });
+  });
+
+  describe('convertTradeAmounts', () => {
+    it('should convert price, fee and tax but keep quantity', () => {
+      const trade = { quantity: 2, price: '100', fee: 1, tax: null };
+
+      const converted = convertTradeAmounts(trade, 25000);
+
+      expect(converted).toEqual({ quantity: 2, price: 2500000, fee: 25000, tax: 0 });
+      expect(trade.price).toBe('100');
+    });
+
+    it('should return the same trade when the rate is 1', () => {
+      const trade = { price: 10, fee: 0, tax: 0 };
+      expect(convertTradeAmounts(trade, 1)).toBe(trade);
+    });
+  });
+
+  describe('splitRealizedPnl', () => {
+    it('should add up to the full base-currency P&L', () => {
+      // Bought 10 @ 100 USD at 24,000; sold 10 @ 110 USD at 25,000 with 5 USD fees
+      const localPnl = 10 * (110 - 100) - 5;
+      const result = splitRealizedPnl(10, 100, localPnl, 24000, 25000);
+
+      const expectedBase = 10 * 110 * 25000 - 10 * 100 * 24000 - 5 * 25000;
+      expect(result.assetPl).toBe(95 * 25000);
+      expect(result.fxPl).toBe(10 * 100 * 1000);
+      expect(result.totalPl).toBe(expectedBase);
+    });
+
+    it('should report no FX P&L when rates are equal', () => {
+      expect(splitRealizedPnl(5, 20, 50, 1, 1)).toEqual({ assetPl: 50, fxPl: 0, totalPl: 50 });
+    });
+  });
+
+  describe('splitUnrealizedPnl', () => {
+    it('should attribute the cost basis revaluation to FX', () => {
+      // 10 units bought @ 100 USD at 24,000, now worth 120 USD at 25,000
+      const baseUnrealized = 10 * 120 * 25000 - 10 * 100 * 24000;
+      const localUnrealized = 10 * (120 - 100);
+
+      const result = splitUnrealizedPnl(baseUnrealized, localUnrealized, 25000);
+
+      expect(result.assetPl).toBe(200 * 25000);
+      expect(result.fxPl).toBe(10 * 100 * 1000);
+    });
+  });
+});
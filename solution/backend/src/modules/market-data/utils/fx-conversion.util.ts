@@ -0,0 +1,90 @@
+/**
+ * Pure helpers for converting trade data between currencies and for
+ * splitting base-currency P&L into its asset and FX components.
+ *
+ * Conventions:
+ * - A rate R converts the asset currency into the portfolio base currency (base = local * R).
+ * - Asset gain/loss is measured in the asset currency and translated at the rate of the
+ *   event that realises it (sale date for realized, valuation date for unrealized).
+ * - FX gain/loss is the revaluation of the local cost basis between the purchase rate
+ *   and that same rate, so asset + FX always equals the full base-currency P&L.
+ */
+
+export const DEFAULT_CURRENCY = 'VND';
+
+/**
+ * Minimal trade shape required for conversion
+ */
+export interface ConvertibleTrade {
+  price: number | string;
+  fee?: number | string | null;
+  tax?: number | string | null;
+}
+
+/**
+ * Normalise a currency code, falling back to the default currency
+ */
+export function normalizeCurrency(currency?: string | null, fallback: string = DEFAULT_CURRENCY): string {
+  const code = (currency || '').trim().toUpperCase();
+  return code.length === 3 ? code : fallback;
+}
+
+/**
+ * Return a copy of the trade with price, fee and tax multiplied by the rate.
+ * Quantities are left untouched.
+ */
+export function convertTradeAmounts<T extends ConvertibleTrade>(trade: T, rate: number): T {
+  if (rate === 1) {
+    return trade;
+  }
+  return {
+    ...trade,
+    price: toNumber(trade.price) * rate,
+    fee: toNumber(trade.fee) * rate,
+    tax: toNumber(trade.tax) * rate,
+  };
+}
+
+/**
+ * Split a realized match (one sell lot matched against one buy lot) into asset and FX P&L.
+ * @param matchedQty - Quantity matched between the lots
+ * @param buyPrice - Buy price in the asset currency
+ * @param localPnl - Realized P&L in the asset currency (after fees and taxes)
+ * @param buyRate - Rate on the buy trade date
+ * @param sellRate - Rate on the sell trade date
+ */
+export function splitRealizedPnl(
+  matchedQty: number,
+  buyPrice: number,
+  localPnl: number,
+  buyRate: number,
+  sellRate: number,
+): { assetPl: number; fxPl: number; totalPl: number } {
+  const assetPl = localPnl * sellRate;
+  const fxPl = matchedQty * buyPrice * (sellRate - buyRate);
+  return { assetPl, fxPl, totalPl: assetPl + fxPl };
+}
+
+/**
+ * Derive the FX part of an unrealized P&L.
+ * @param baseUnrealizedPl - Unrealized P&L computed on trades converted at their trade-date rates
+ *                           and valued at the valuation-date rate
+ * @param localUnrealizedPl - Unrealized P&L computed in the asset currency
+ * @param valuationRate - Rate on the valuation date
+ */
+export function splitUnrealizedPnl(
+  baseUnrealizedPl: number,
+  localUnrealizedPl: number,
+  valuationRate: number,
+): { assetPl: number; fxPl: number } {
+  const assetPl = localUnrealizedPl * valuationRate;
+  return { assetPl, fxPl: baseUnrealizedPl - assetPl };
+}
+
+function toNumber(value: number | string | null | undefined): number {
+  if (value === null || value === undefined || value === '') {
+    return 0;
+  }
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) ? 0 : parsed;
+}
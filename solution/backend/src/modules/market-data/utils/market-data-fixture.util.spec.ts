@@ -0,0 +1,59 @@
+import { createSeededRandom } from '../../financial-freedom/utils/monte-carlo.util';
+import {
+  buildFixturePath,
+  nextRandomWalkPrice,
+  resolveHarnessMode,
+  reviveFixtureDates,
+} from './market-data-fixture.util';
+
+describe('market-data-fixture.util', () => {
+  it('should build a stable path per provider, endpoint and request body', () => {
+    const options = { provider: 'SSI', endpoint: 'https://proxy.example.com/stock/exchange/hose?boardId=MAIN', method: 'GET' };
+    const path = buildFixturePath(options);
+
+    expect(path).toBe(buildFixturePath({ ...options }));
+    expect(path).toMatch(/^ssi\/get-stock-exchange-hose-boardid-main-[0-9a-f]{10}\.json$/);
+    expect(buildFixturePath({ ...options, endpoint: options.endpoint.replace('hose', 'hnx') })).not.toBe(path);
+    expect(buildFixturePath({ ...options, method: 'POST', requestData: { page: 1 } }))
+      .not.toBe(buildFixturePath({ ...options, method: 'POST', requestData: { page: 2 } }));
+  });
+
+  it('should revive ISO timestamps only', () => {
+    const parsed = JSON.parse(
+      JSON.stringify({ lastUpdated: new Date('2025-03-01T02:30:00.000Z'), symbol: '2025-03-01', price: 10 }),
+      reviveFixtureDates,
+    );
+
+    expect(parsed.lastUpdated).toBeInstanceOf(Date);
+    expect(parsed.lastUpdated.toISOString()).toBe('2025-03-01T02:30:00.000Z');
+    expect(parsed.symbol).toBe('2025-03-01');
+    expect(parsed.price).toBe(10);
+  });
+
+  it('should let a provider setting override the global mode', () => {
+    const settings: Record<string, string> = { MARKET_DATA_MODE: 'replay', MARKET_DATA_MODE_COINGECKO: 'record' };
+    const get = (key: string) => settings[key];
+
+    expect(resolveHarnessMode('CoinGecko', get)).toBe('record');
+    expect(resolveHarnessMode('SSI', get)).toBe('replay');
+    expect(resolveHarnessMode('SSI', () => undefined)).toBe('live');
+    expect(resolveHarnessMode('SSI', () => 'bogus')).toBe('live');
+  });
+
+  it('should walk prices reproducibly and keep them positive', () => {
+    const walk = (seed: number) => {
+      const random = createSeededRandom(seed);
+      const prices = [100];
+      for (let i = 0; i < 250; i++) {
+        prices.push(nextRandomWalkPrice(prices[prices.length - 1], 2, random));
+      }
+      return prices;
+    };
+    const prices = walk(7);
+
+    expect(prices).toEqual(walk(7));
+    expect(prices).not.toEqual(walk(8));
+    prices.forEach((price) => expect(price).toBeGreaterThan(0));
+    expect(nextRandomWalkPrice(100, 0, createSeededRandom(1))).toBe(100);
+  });
+});
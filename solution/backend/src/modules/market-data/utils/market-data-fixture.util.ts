@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+import { ApiTrackingOptions } from '../interfaces/api-tracking.interface';
+
+/**
+ * How a provider's API calls are served:
+ * live calls the provider, record calls it and saves the response as a fixture,
+ * replay serves the saved fixture without touching the network
+ */
+export type MarketDataHarnessMode = 'live' | 'record' | 'replay';
+
+export const MARKET_DATA_HARNESS_MODES: MarketDataHarnessMode[] = ['live', 'record', 'replay'];
+
+/**
+ * Content of a fixture file
+ */
+export interface MarketDataFixture<T = unknown> {
+  provider: string;
+  endpoint: string;
+  method: string;
+  requestData?: Record<string, any>;
+  recordedAt: string;
+  data: T;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Relative path of the fixture of one API call: a folder per provider and a file per endpoint.
+ * The hash covers method, endpoint and request body so that calls sharing a URL get separate files.
+ */
+export function buildFixturePath(options: ApiTrackingOptions): string {
+  const method = (options.method || 'GET').toUpperCase();
+  const hash = createHash('sha1')
+    .update(`${method} ${options.endpoint} ${JSON.stringify(options.requestData ?? null)}`)
+    .digest('hex')
+    .slice(0, 10);
+  const slug = options.endpoint
+    .replace(/^[a-z]+:\/\/[^/]+/i, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase()
+    .slice(0, 60);
+  return `${slugify(options.provider)}/${method.toLowerCase()}-${slug || 'root'}-${hash}.json`;
+}
+
+/**
+ * JSON reviver turning the ISO timestamps written by JSON.stringify back into Dates,
+ * so replayed quotes look like the ones the clients build
+ */
+export function reviveFixtureDates(_key: string, value: unknown): unknown {
+  return typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+/**
+ * Harness mode of a provider: MARKET_DATA_MODE_<PROVIDER> when set, else the global mode.
+ * Unknown values fall back to live.
+ */
+export function resolveHarnessMode(
+  provider: string,
+  getSetting: (key: string) => string | undefined,
+): MarketDataHarnessMode {
+  const value = (getSetting(`MARKET_DATA_MODE_${slugify(provider).toUpperCase().replace(/-/g, '_')}`)
+    || getSetting('MARKET_DATA_MODE')
+    || 'live').toLowerCase() as MarketDataHarnessMode;
+  return MARKET_DATA_HARNESS_MODES.includes(value) ? value : 'live';
+}
+
+/**
+ * Next price of a geometric random walk with zero drift; volatility is the daily standard deviation in percent
+ */
+export function nextRandomWalkPrice(previous: number, volatility: number, random: () => number): number {
+  // Box-Muller transform of two uniform draws into a standard normal draw
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  const shock = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  const sigma = volatility / 100;
+  return previous * Math.exp(-0.5 * sigma * sigma + sigma * shock);
+}
+
+function slugify(value: string): string {
+  return value.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'unknown';
+}
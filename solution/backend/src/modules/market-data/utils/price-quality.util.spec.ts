@@ -0,0 +1,38 @@
+import { checkPriceQuality, PriceQualityIssueCode } from './price-quality.util';
+
+describe('price-quality.util', () => {
+  const options = { maxChangePercent: 25, staleSessions: 5, maxSourceDeviationPercent: 3 };
+  const codes = (input: Parameters<typeof checkPriceQuality>[0]) => checkPriceQuality(input, options).map((issue) => issue.code);
+
+  it('should accept an ordinary move', () => {
+    expect(codes({ price: 25500, lastPrice: 25000, previousClose: 25000, priceLimitPercent: 7, recentCloses: [25000, 24800] })).toEqual([]);
+  });
+
+  it('should flag a gold price parsed with a missing zero', () => {
+    expect(codes({ price: 8_500_000, lastPrice: 85_000_000 })).toEqual([PriceQualityIssueCode.PRICE_JUMP]);
+  });
+
+  it('should enforce the exchange daily limit around the previous close', () => {
+    // HOSE ±7%: the ceiling of a 25,000 close is 26,750
+    expect(codes({ price: 26750, previousClose: 25000, priceLimitPercent: 7 })).toEqual([]);
+    expect(codes({ price: 27500, previousClose: 25000, priceLimitPercent: 7 })).toEqual([PriceQualityIssueCode.PRICE_LIMIT]);
+    // UPCOM ±15% lets the same move through
+    expect(codes({ price: 27500, previousClose: 25000, priceLimitPercent: 15 })).toEqual([]);
+  });
+
+  it('should flag a price unchanged for the configured number of sessions', () => {
+    expect(codes({ price: 12000, recentCloses: [12000, 12000, 12000, 12000, 12000] })).toEqual([PriceQualityIssueCode.STALE_PRICE]);
+    expect(codes({ price: 12000, recentCloses: [12000, 12000, 12000, 12000] })).toEqual([]);
+    expect(codes({ price: 12000, recentCloses: [12000, 12000, 12100, 12000, 12000] })).toEqual([]);
+  });
+
+  it('should flag disagreement with another provider and name it', () => {
+    const issues = checkPriceQuality(
+      { price: 100, alternativePrices: [{ source: 'SSI', price: 101 }, { source: 'CAFEF', price: 110 }] },
+      options,
+    );
+    expect(issues.map((issue) => issue.code)).toEqual([PriceQualityIssueCode.SOURCE_DISAGREEMENT]);
+    expect(issues[0].message).toContain('CAFEF (110)');
+    expect(issues[0].message).not.toContain('SSI');
+  });
+});
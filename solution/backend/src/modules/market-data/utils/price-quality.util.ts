@@ -0,0 +1,95 @@
+export enum PriceQualityIssueCode {
+  /** Move against the last applied price beyond the configured threshold */
+  PRICE_JUMP = 'PRICE_JUMP',
+  /** Outside the exchange's daily band around the previous close */
+  PRICE_LIMIT = 'PRICE_LIMIT',
+  /** Same price as every one of the last sessions */
+  STALE_PRICE = 'STALE_PRICE',
+  /** Another provider quotes a materially different price */
+  SOURCE_DISAGREEMENT = 'SOURCE_DISAGREEMENT',
+}
+
+export interface PriceQualityIssue {
+  code: PriceQualityIssueCode;
+  message: string;
+}
+
+export interface PriceQualityInput {
+  price: number;
+  /** Price currently applied to the asset */
+  lastPrice?: number | null;
+  /** Close of the previous session, the reference of exchange price limits */
+  previousClose?: number | null;
+  /** Daily price band of the asset's exchange (e.g. 7 for HOSE) */
+  priceLimitPercent?: number | null;
+  /** Closes of the previous sessions, newest first */
+  recentCloses?: number[];
+  /** Quotes of the other providers for the same symbol */
+  alternativePrices?: Array<{ source: string; price: number }>;
+}
+
+export interface PriceQualityOptions {
+  maxChangePercent: number;
+  /** Sessions without a change before a price counts as stale; 0 disables the check */
+  staleSessions: number;
+  maxSourceDeviationPercent: number;
+}
+
+// Exchange limit prices are rounded to the tick size, so allow a little over the band
+const PRICE_LIMIT_TOLERANCE_PERCENT = 0.1;
+
+export function percentChange(from: number, to: number): number {
+  return from > 0 ? ((to - from) / from) * 100 : 0;
+}
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+/**
+ * Problems with a freshly fetched price; an empty list means it can be applied
+ */
+export function checkPriceQuality(input: PriceQualityInput, options: PriceQualityOptions): PriceQualityIssue[] {
+  const issues: PriceQualityIssue[] = [];
+  const { price } = input;
+
+  if (input.lastPrice && input.lastPrice > 0) {
+    const change = percentChange(input.lastPrice, price);
+    if (Math.abs(change) > options.maxChangePercent) {
+      issues.push({
+        code: PriceQualityIssueCode.PRICE_JUMP,
+        message: `${formatPercent(change)} versus the last price ${input.lastPrice} exceeds ±${options.maxChangePercent}%`,
+      });
+    }
+  }
+
+  if (input.previousClose && input.previousClose > 0 && input.priceLimitPercent) {
+    const change = percentChange(input.previousClose, price);
+    if (Math.abs(change) > input.priceLimitPercent + PRICE_LIMIT_TOLERANCE_PERCENT) {
+      issues.push({
+        code: PriceQualityIssueCode.PRICE_LIMIT,
+        message: `${formatPercent(change)} versus the previous close ${input.previousClose} is outside the ±${input.priceLimitPercent}% daily limit`,
+      });
+    }
+  }
+
+  const recentCloses = input.recentCloses || [];
+  if (options.staleSessions > 0 && recentCloses.length >= options.staleSessions
+    && recentCloses.slice(0, options.staleSessions).every((close) => close === price)) {
+    issues.push({
+      code: PriceQualityIssueCode.STALE_PRICE,
+      message: `Unchanged at ${price} for ${options.staleSessions} sessions`,
+    });
+  }
+
+  const disagreeing = (input.alternativePrices || [])
+    .filter((quote) => quote.price > 0 && Math.abs(percentChange(quote.price, price)) > options.maxSourceDeviationPercent);
+  if (disagreeing.length > 0) {
+    issues.push({
+      code: PriceQualityIssueCode.SOURCE_DISAGREEMENT,
+      message: `Differs by more than ${options.maxSourceDeviationPercent}% from ${disagreeing
+        .map((quote) => `${quote.source} (${quote.price})`)
+        .join(', ')}`,
+    });
+  }
+
+  return issues;
+}
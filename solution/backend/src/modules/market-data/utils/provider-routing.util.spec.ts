@@ -0,0 +1,55 @@
+import { resolveProviderChain, selectQuote, ProviderRoutingInfo } from './provider-routing.util';
+
+describe('provider-routing.util', () => {
+  const providers: ProviderRoutingInfo[] = [
+    { code: 'DOJI', assetTypes: ['GOLD'], defaultPriority: 10, available: true },
+    { code: 'PNJ', assetTypes: ['GOLD'], defaultPriority: 20, available: true, supportsSymbol: (symbol) => symbol.includes('PNJ') || symbol.includes('SJC') },
+    { code: 'SJC', assetTypes: ['GOLD'], defaultPriority: 30, available: true },
+    { code: 'SSI', assetTypes: ['STOCK'], defaultPriority: 10, available: true },
+  ];
+
+  it('should order covering providers by default priority without preferences', () => {
+    expect(resolveProviderChain(providers, { assetType: 'GOLD', symbol: 'GOLDSJC' }, [])).toEqual({
+      ordered: ['DOJI', 'PNJ', 'SJC'],
+      available: ['DOJI', 'PNJ', 'SJC'],
+    });
+    expect(resolveProviderChain(providers, { assetType: 'GOLD', symbol: 'GOLDDOJI' }, []).ordered).toEqual(['DOJI', 'SJC']);
+  });
+
+  it('should put the asset preference before the asset type preference', () => {
+    const preferences = [
+      { assetType: 'GOLD', providerCodes: ['SJC'] },
+      { globalAssetId: 'asset-1', providerCodes: ['PNJ', 'UNKNOWN', 'DOJI'] },
+    ];
+
+    expect(resolveProviderChain(providers, { assetType: 'GOLD', symbol: 'GOLDSJC' }, preferences).ordered)
+      .toEqual(['SJC', 'DOJI', 'PNJ']);
+    expect(resolveProviderChain(providers, { assetType: 'GOLD', symbol: 'GOLDSJC', globalAssetId: 'asset-1' }, preferences).ordered)
+      .toEqual(['PNJ', 'DOJI', 'SJC']);
+  });
+
+  it('should drop providers with an open circuit from the available chain', () => {
+    const chain = resolveProviderChain(
+      providers.map((provider) => (provider.code === 'DOJI' ? { ...provider, available: false } : provider)),
+      { assetType: 'GOLD', symbol: 'GOLDSJC' },
+      [],
+    );
+
+    expect(chain.ordered[0]).toBe('DOJI');
+    expect(chain.available).toEqual(['PNJ', 'SJC']);
+  });
+
+  it('should pick quotes in chain order and flag fallbacks', () => {
+    const chain = { ordered: ['DOJI', 'PNJ'], available: ['PNJ'] };
+    const quotes = [
+      { source: 'DOJI', price: 1 },
+      { source: 'PNJ', price: 2 },
+    ];
+
+    expect(selectQuote(quotes, { ordered: ['DOJI', 'PNJ'], available: ['DOJI', 'PNJ'] })).toEqual({ quote: quotes[0], isFallback: false });
+    expect(selectQuote(quotes, chain)).toEqual({ quote: quotes[1], isFallback: true });
+    expect(selectQuote([{ source: 'OTHER', price: 3 }], chain)).toEqual({ quote: { source: 'OTHER', price: 3 }, isFallback: true });
+    expect(selectQuote([{ source: 'DOJI', price: 1 }], chain)).toBeNull();
+    expect(selectQuote([], chain)).toBeNull();
+  });
+});
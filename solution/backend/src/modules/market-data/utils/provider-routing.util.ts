@@ -0,0 +1,94 @@
+/**
+ * What the router needs to know about a registered provider
+ */
+export interface ProviderRoutingInfo {
+  code: string;
+  assetTypes: string[];
+  defaultPriority: number;
+  /** False while the provider's circuit breaker is open */
+  available: boolean;
+  supportsSymbol?(symbol: string, assetType?: string): boolean;
+}
+
+/**
+ * Admin routing preference, either for an asset type or for one global asset
+ */
+export interface ProviderRoutingPreference {
+  assetType?: string | null;
+  globalAssetId?: string | null;
+  /** Provider codes in order: primary first, then secondaries */
+  providerCodes: string[];
+}
+
+export interface ProviderRoutingTarget {
+  assetType?: string;
+  symbol?: string;
+  globalAssetId?: string;
+}
+
+export interface ProviderChain {
+  /** Every provider that may serve the target, in preference order */
+  ordered: string[];
+  /** The ordered chain without providers whose circuit is open */
+  available: string[];
+}
+
+/**
+ * Order the providers for one asset. A preference for the global asset wins over one for its asset type;
+ * providers it lists come first in the listed order, then every other covering provider by default priority,
+ * so an asset always keeps a fallback when its preferred sources are down.
+ */
+export function resolveProviderChain(
+  providers: ProviderRoutingInfo[],
+  target: ProviderRoutingTarget,
+  preferences: ProviderRoutingPreference[],
+): ProviderChain {
+  const byCode = new Map(providers.map((provider) => [provider.code, provider]));
+  const covers = (provider: ProviderRoutingInfo) =>
+    (!target.assetType || provider.assetTypes.includes(target.assetType)) &&
+    (!provider.supportsSymbol || !target.symbol || provider.supportsSymbol(target.symbol, target.assetType));
+
+  const preference =
+    (target.globalAssetId && preferences.find((item) => item.globalAssetId === target.globalAssetId)) ||
+    (target.assetType && preferences.find((item) => !item.globalAssetId && item.assetType === target.assetType)) ||
+    null;
+
+  const ordered: string[] = [];
+  for (const code of preference?.providerCodes || []) {
+    if (byCode.has(code) && !ordered.includes(code)) {
+      ordered.push(code);
+    }
+  }
+  providers
+    .filter((provider) => !ordered.includes(provider.code) && covers(provider))
+    .sort((a, b) => a.defaultPriority - b.defaultPriority || a.code.localeCompare(b.code))
+    .forEach((provider) => ordered.push(provider.code));
+
+  return {
+    ordered,
+    available: ordered.filter((code) => byCode.get(code)?.available),
+  };
+}
+
+/**
+ * Pick the quote for an asset from the quotes different providers returned for its symbol.
+ * Quotes from providers in the chain are taken in chain order; a quote from a provider outside the chain
+ * is only used when nothing in the chain has the symbol. isFallback is set whenever the primary did not serve it.
+ */
+export function selectQuote<T extends { source: string }>(
+  candidates: T[],
+  chain: ProviderChain,
+): { quote: T; isFallback: boolean } | null {
+  if (candidates.length === 0) {
+    return null;
+  }
+  const primary = chain.ordered[0];
+  for (const code of chain.available) {
+    const quote = candidates.find((candidate) => candidate.source === code);
+    if (quote) {
+      return { quote, isFallback: code !== primary };
+    }
+  }
+  const outsideChain = candidates.find((candidate) => !chain.ordered.includes(candidate.source));
+  return outsideChain ? { quote: outsideChain, isFallback: outsideChain.source !== primary } : null;
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Benchmark } from './entities/benchmark.entity';
+import { BenchmarkData } from './entities/benchmark-data.entity';
+import { BenchmarkService } from './services/benchmark.service';
+import { BenchmarkController } from './controllers/benchmark.controller';
+import { MarketDataModule } from '../market-data/market-data.module';
+
+/**
+ * Benchmark module
+ * Stores daily benchmark levels and serves benchmark series to analytics and performance snapshots.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Benchmark, BenchmarkData]),
+    MarketDataModule,
+  ],
+  controllers: [BenchmarkController],
+  providers: [BenchmarkService],
+  exports: [BenchmarkService],
+})
+export class BenchmarkModule {}
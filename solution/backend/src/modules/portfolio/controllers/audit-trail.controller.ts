@@ -0,0 +1,120 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { AuditTrailService } from '../services/audit-trail.service';
+import { PeriodCloseService } from '../services/period-close.service';
+import { PortfolioService } from '../services/portfolio.service';
+import { AccountValidationService } from '../../shared/services/account-validation.service';
+import { AuditTrailQueryDto, UpdatePeriodLockDto, PeriodLockResponse } from '../dto/audit-trail.dto';
+
+/**
+ * Controller for the audit trail of a portfolio's financial records and its locked period.
+ * Anyone who can view the portfolio can read the trail; only the owner can move the lock.
+ */
+@ApiTags('Audit Trail')
+@Controller('api/v1/portfolios/:id/audit-trail')
+export class AuditTrailController {
+  constructor(
+    private readonly auditTrailService: AuditTrailService,
+    private readonly periodCloseService: PeriodCloseService,
+    private readonly portfolioService: PortfolioService,
+    private readonly accountValidationService: AccountValidationService,
+  ) {}
+
+  /**
+   * Get changes to trades, cash flows, deposits and fund unit transactions, newest first
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the audit trail of a portfolio, newest first' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiResponse({ status: 200, description: 'Audit trail retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'No access to this portfolio' })
+  async getTimeline(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: AuditTrailQueryDto,
+  ) {
+    const hasAccess = await this.portfolioService.checkPortfolioAccess(id, query.accountId, 'view');
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this portfolio');
+    }
+
+    return this.auditTrailService.getTimeline(id, {
+      entityType: query.entityType,
+      entityId: query.entityId,
+      page: query.page,
+      limit: query.limit,
+    });
+  }
+
+  /**
+   * Get the locked period of a portfolio
+   */
+  @Get('lock')
+  @ApiOperation({ summary: 'Get the locked period of a portfolio' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Locked period retrieved successfully' })
+  async getPeriodLock(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<PeriodLockResponse> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    const hasAccess = await this.portfolioService.checkPortfolioAccess(id, accountId, 'view');
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this portfolio');
+    }
+
+    return this.auditTrailService.getPeriodLock(id);
+  }
+
+  /**
+   * Lock records dated on or before a day, or remove the lock
+   */
+  @Put('lock')
+  @ApiOperation({
+    summary: 'Set the locked period of a portfolio',
+    description: 'Trades, cash flows, deposits and fund unit transactions dated on or before lockedThroughDate can no longer be created, edited or deleted.',
+  })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiBody({ type: UpdatePeriodLockDto })
+  @ApiResponse({ status: 200, description: 'Locked period saved' })
+  @ApiResponse({ status: 400, description: 'Unlocking days without a reason' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  @ApiResponse({ status: 409, description: 'Moving the lock back into a closed period' })
+  async setPeriodLock(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Body() lockDto: UpdatePeriodLockDto,
+  ): Promise<PeriodLockResponse> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    await this.accountValidationService.validatePortfolioOwnership(id, accountId);
+    await this.periodCloseService.assertLockOutsideClosedPeriods(id, lockDto.lockedThroughDate);
+    return this.auditTrailService.setPeriodLock(id, lockDto.lockedThroughDate, {
+      actorAccountId: accountId,
+      reason: lockDto.reason,
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  BadRequestException,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBody } from '@nestjs/swagger';
+import { BenchmarkService } from '../services/benchmark.service';
+import { Benchmark } from '../entities/benchmark.entity';
+import { CreateCustomBenchmarkDto, BenchmarkMetrics } from '../dto/benchmark.dto';
+import { BenchmarkPoint } from '../utils/benchmark-series.util';
+
+@ApiTags('Benchmarks')
+@Controller('api/v1/benchmarks')
+export class BenchmarkController {
+  constructor(private readonly benchmarkService: BenchmarkService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List built-in benchmarks and the custom benchmarks of an account' })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account whose custom benchmarks are included' })
+  @ApiResponse({ status: 200, description: 'Benchmarks retrieved successfully', type: [Benchmark] })
+  async listBenchmarks(@Query('accountId') accountId?: string): Promise<Benchmark[]> {
+    return this.benchmarkService.listBenchmarks(accountId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a custom blended benchmark (e.g., 60% VN30 + 40% deposit rate)' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Owner account ID' })
+  @ApiBody({ type: CreateCustomBenchmarkDto })
+  @ApiResponse({ status: 201, description: 'Benchmark created successfully', type: Benchmark })
+  @ApiResponse({ status: 400, description: 'Invalid components or weights' })
+  async createCustomBenchmark(
+    @Body() dto: CreateCustomBenchmarkDto,
+    @Query('accountId') accountId: string,
+  ): Promise<Benchmark> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+    return this.benchmarkService.createCustomBenchmark(dto, accountId);
+  }
+
+  @Post('backfill')
+  @ApiOperation({ summary: 'Backfill daily levels of all built-in benchmarks' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date (YYYY-MM-DD, default: one year ago)' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date (YYYY-MM-DD, default: today)' })
+  @ApiResponse({ status: 201, description: 'Benchmarks backfilled' })
+  async backfillAll(
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ): Promise<Array<{ benchmarkId: string; code: string; count: number; error?: string }>> {
+    return this.benchmarkService.backfillAll(startDate, endDate);
+  }
+
+  @Post(':id/backfill')
+  @ApiOperation({ summary: 'Backfill daily levels of one built-in benchmark' })
+  @ApiParam({ name: 'id', description: 'Benchmark ID' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date (YYYY-MM-DD, default: one year ago)' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date (YYYY-MM-DD, default: today)' })
+  @ApiResponse({ status: 201, description: 'Benchmark backfilled' })
+  @ApiResponse({ status: 404, description: 'Benchmark not found' })
+  async backfillBenchmark(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ): Promise<{ benchmarkId: string; count: number }> {
+    const count = await this.benchmarkService.backfillBenchmark(id, startDate, endDate);
+    return { benchmarkId: id, count };
+  }
+
+  @Get(':id/series')
+  @ApiOperation({ summary: 'Get stored daily levels of a benchmark' })
+  @ApiParam({ name: 'id', description: 'Benchmark ID' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date (YYYY-MM-DD, default: one year ago)' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date (YYYY-MM-DD, default: today)' })
+  @ApiResponse({ status: 200, description: 'Series retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Benchmark not found' })
+  async getSeries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ): Promise<BenchmarkPoint[]> {
+    return this.benchmarkService.getSeries(id, startDate, endDate);
+  }
+
+  @Get(':id/metrics')
+  @ApiOperation({ summary: 'Get return, volatility and max drawdown of a benchmark' })
+  @ApiParam({ name: 'id', description: 'Benchmark ID' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date (YYYY-MM-DD, default: one year ago)' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date (YYYY-MM-DD, default: today)' })
+  @ApiResponse({ status: 200, description: 'Metrics calculated successfully' })
+  @ApiResponse({ status: 404, description: 'Benchmark not found' })
+  async getMetrics(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ): Promise<BenchmarkMetrics> {
+    return this.benchmarkService.getMetrics(id, startDate, endDate);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a custom benchmark' })
+  @ApiParam({ name: 'id', description: 'Benchmark ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Owner account ID' })
+  @ApiResponse({ status: 204, description: 'Benchmark deleted' })
+  @ApiResponse({ status: 403, description: 'Not a custom benchmark of this account' })
+  async deleteCustomBenchmark(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<void> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+    await this.benchmarkService.deleteCustomBenchmark(id, accountId);
+  }
+}
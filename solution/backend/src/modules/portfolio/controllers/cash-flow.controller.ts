@@ -72,6 +72,7 @@ export class CashFlowController {
       createCashFlowDto.description,
       flowDate,
       createCashFlowDto.fundingSource,
+      { actorAccountId: accountId },
     );
   }
 
@@ -216,6 +217,9 @@ export class CashFlowController {
       difference,
       type,
       description,
+      undefined,
+      undefined,
+      { reason: updateCashBalanceDto.reason },
     );
   }
 
@@ -226,6 +230,7 @@ export class CashFlowController {
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Create a deposit and update portfolio balance' })
   @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
   @ApiResponse({ status: 201, description: 'Deposit created successfully' })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
   @ApiResponse({ status: 404, description: 'Portfolio not found' })
@@ -240,6 +245,7 @@ export class CashFlowController {
       currency?: string;
       fundingSource?: string;
     },
+    @Query('accountId') accountId?: string,
   ) {
     // Fix timezone issue: append 'T12:00:00' to ensure local time interpretation
     const flowDate = createDepositDto.flowDate ? new Date(createDepositDto.flowDate + 'T12:00:00') : undefined;
@@ -254,6 +260,8 @@ export class CashFlowController {
       effectiveDate,
       createDepositDto.currency || 'VND',
       createDepositDto.fundingSource,
+      undefined,
+      { actorAccountId: accountId },
     );
   }
 
@@ -264,6 +272,7 @@ export class CashFlowController {
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Create a withdrawal and update portfolio balance' })
   @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
   @ApiResponse({ status: 201, description: 'Withdrawal created successfully' })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
   @ApiResponse({ status: 404, description: 'Portfolio not found' })
@@ -278,6 +287,7 @@ export class CashFlowController {
       currency?: string;
       fundingSource?: string;
     },
+    @Query('accountId') accountId?: string,
   ) {
     // Fix timezone issue: append 'T12:00:00' to ensure local time interpretation
     const flowDate = createWithdrawalDto.flowDate ? new Date(createWithdrawalDto.flowDate + 'T12:00:00') : undefined;
@@ -292,6 +302,8 @@ export class CashFlowController {
       effectiveDate,
       createWithdrawalDto.currency || 'VND',
       createWithdrawalDto.fundingSource,
+      undefined,
+      { actorAccountId: accountId },
     );
   }
 
@@ -302,6 +314,7 @@ export class CashFlowController {
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Create a dividend and update portfolio balance' })
   @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
   @ApiResponse({ status: 201, description: 'Dividend created successfully' })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
   @ApiResponse({ status: 404, description: 'Portfolio not found' })
@@ -315,21 +328,25 @@ export class CashFlowController {
       effectiveDate?: Date;
       currency?: string;
       fundingSource?: string;
+      taxWithheld?: number;
     },
+    @Query('accountId') accountId?: string,
   ) {
     // Fix timezone issue: append 'T12:00:00' to ensure local time interpretation
     const flowDate = createDividendDto.flowDate ? new Date(createDividendDto.flowDate + 'T12:00:00') : undefined;
     const effectiveDate = createDividendDto.effectiveDate || flowDate;
     
-    return await this.cashFlowService.createCashFlow(
+    // amount is the gross dividend, the cash flow is credited net of taxWithheld
+    return await this.cashFlowService.createDividendCashFlow(
       portfolioId,
-      'DIVIDEND' as any,
       createDividendDto.amount,
       createDividendDto.description,
       createDividendDto.reference,
       effectiveDate,
       createDividendDto.currency || 'VND',
       createDividendDto.fundingSource,
+      createDividendDto.taxWithheld,
+      { actorAccountId: accountId },
     );
   }
 
@@ -341,13 +358,18 @@ export class CashFlowController {
   @ApiOperation({ summary: 'Update an existing cash flow' })
   @ApiParam({ name: 'id', description: 'Portfolio ID' })
   @ApiParam({ name: 'cashFlowId', description: 'Cash Flow ID' })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
+  @ApiQuery({ name: 'reason', required: false, description: 'Reason for the change, kept in the audit trail' })
   @ApiResponse({ status: 200, description: 'Cash flow updated successfully' })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
   @ApiResponse({ status: 404, description: 'Portfolio or cash flow not found' })
+  @ApiResponse({ status: 409, description: 'Cash flow date falls in a locked period' })
   async updateCashFlow(
     @Param('id', ParseUUIDPipe) portfolioId: string,
     @Param('cashFlowId', ParseUUIDPipe) cashFlowId: string,
     @Body() updateCashFlowDto: CreateCashFlowDto,
+    @Query('accountId') accountId?: string,
+    @Query('reason') reason?: string,
   ) {
     // Fix timezone issue: process flowDate if provided
     if (updateCashFlowDto.flowDate) {
@@ -362,6 +384,7 @@ export class CashFlowController {
       portfolioId,
       cashFlowId,
       updateCashFlowDto,
+      { actorAccountId: accountId, reason },
     );
   }
 
@@ -373,13 +396,18 @@ export class CashFlowController {
   @ApiOperation({ summary: 'Delete an existing cash flow' })
   @ApiParam({ name: 'id', description: 'Portfolio ID' })
   @ApiParam({ name: 'cashFlowId', description: 'Cash Flow ID' })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
+  @ApiQuery({ name: 'reason', required: false, description: 'Reason for the deletion, kept in the audit trail' })
   @ApiResponse({ status: 204, description: 'Cash flow deleted successfully' })
   @ApiResponse({ status: 404, description: 'Portfolio or cash flow not found' })
+  @ApiResponse({ status: 409, description: 'Cash flow date falls in a locked period' })
   async deleteCashFlow(
     @Param('id', ParseUUIDPipe) portfolioId: string,
     @Param('cashFlowId', ParseUUIDPipe) cashFlowId: string,
+    @Query('accountId') accountId?: string,
+    @Query('reason') reason?: string,
   ) {
-    await this.cashFlowService.deleteCashFlow(portfolioId, cashFlowId);
+    await this.cashFlowService.deleteCashFlow(portfolioId, cashFlowId, { actorAccountId: accountId, reason });
   }
 
   /**
@@ -405,11 +433,13 @@ export class CashFlowController {
       }
     }
   })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
   @ApiResponse({ status: 400, description: 'Invalid input data or same source/destination' })
   @ApiResponse({ status: 404, description: 'Portfolio not found' })
   async transferCash(
     @Param('id', ParseUUIDPipe) portfolioId: string,
     @Body() transferCashDto: TransferCashDto,
+    @Query('accountId') accountId?: string,
   ) {
     // Override portfolioId from URL parameter
     transferCashDto.portfolioId = portfolioId;
@@ -433,6 +463,7 @@ export class CashFlowController {
       transferCashDto.amount,
       transferCashDto.description,
       transferDate,
+      { actorAccountId: accountId },
     );
   }
 
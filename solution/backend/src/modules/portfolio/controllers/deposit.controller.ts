@@ -56,8 +56,16 @@ export class DepositController {
     status: 404, 
     description: 'Portfolio not found'
   })
-  async createDeposit(@Body() createDepositDto: CreateDepositDto): Promise<DepositResponseDto> {
-    return this.depositService.createDeposit(createDepositDto);
+  @ApiResponse({ 
+    status: 409, 
+    description: 'Deposit date falls in a locked period'
+  })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
+  async createDeposit(
+    @Body() createDepositDto: CreateDepositDto,
+    @Query('accountId') accountId?: string,
+  ): Promise<DepositResponseDto> {
+    return this.depositService.createDeposit(createDepositDto, { actorAccountId: accountId });
   }
 
   @Get()
@@ -153,11 +161,19 @@ export class DepositController {
     status: 404, 
     description: 'Deposit not found'
   })
+  @ApiResponse({ 
+    status: 409, 
+    description: 'Deposit date falls in a locked period'
+  })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
+  @ApiQuery({ name: 'reason', required: false, description: 'Reason for the change, kept in the audit trail' })
   async updateDeposit(
     @Param('id') id: string,
     @Body() updateDepositDto: UpdateDepositDto,
+    @Query('accountId') accountId?: string,
+    @Query('reason') reason?: string,
   ): Promise<DepositResponseDto> {
-    return this.depositService.updateDeposit(id, updateDepositDto);
+    return this.depositService.updateDeposit(id, updateDepositDto, { actorAccountId: accountId, reason });
   }
 
   @Post(':id/settle')
@@ -180,11 +196,19 @@ export class DepositController {
     status: 404, 
     description: 'Deposit not found'
   })
+  @ApiResponse({ 
+    status: 409, 
+    description: 'Deposit date falls in a locked period'
+  })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
+  @ApiQuery({ name: 'reason', required: false, description: 'Reason for the change, kept in the audit trail' })
   async settleDeposit(
     @Param('id') id: string,
     @Body() settleDepositDto: SettleDepositDto,
+    @Query('accountId') accountId?: string,
+    @Query('reason') reason?: string,
   ): Promise<DepositResponseDto> {
-    return this.depositService.settleDeposit(id, settleDepositDto);
+    return this.depositService.settleDeposit(id, settleDepositDto, { actorAccountId: accountId, reason });
   }
 
   @Delete(':id')
@@ -206,8 +230,18 @@ export class DepositController {
     status: 404, 
     description: 'Deposit not found'
   })
-  async deleteDeposit(@Param('id') id: string): Promise<void> {
-    return this.depositService.deleteDeposit(id);
+  @ApiResponse({ 
+    status: 409, 
+    description: 'Deposit date falls in a locked period'
+  })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
+  @ApiQuery({ name: 'reason', required: false, description: 'Reason for the deletion, kept in the audit trail' })
+  async deleteDeposit(
+    @Param('id') id: string,
+    @Query('accountId') accountId?: string,
+    @Query('reason') reason?: string,
+  ): Promise<void> {
+    return this.depositService.deleteDeposit(id, { actorAccountId: accountId, reason });
   }
 
   @Get('portfolio/:portfolioId')
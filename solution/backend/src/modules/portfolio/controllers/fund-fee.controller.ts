@@ -0,0 +1,152 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { FundFeeService } from '../services/fund-fee.service';
+import { PortfolioService } from '../services/portfolio.service';
+import { FundFeeSchedule } from '../entities/fund-fee-schedule.entity';
+import { FundFeeCrystallization } from '../entities/fund-fee-crystallization.entity';
+import { UpsertFundFeeScheduleDto, CrystallizeFundFeesDto, FundFeeSummary } from '../dto/fund-fee.dto';
+
+/**
+ * Controller for the management and performance fees of a fund.
+ */
+@ApiTags('Fund Fees')
+@Controller('api/v1/portfolios/:id/fund-fees')
+export class FundFeeController {
+  constructor(
+    private readonly fundFeeService: FundFeeService,
+    private readonly portfolioService: PortfolioService,
+  ) {}
+
+  /**
+   * Get the fee schedule of a fund
+   */
+  @Get('schedule')
+  @ApiOperation({ summary: 'Get the fee schedule of a fund' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Fee schedule retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'The fund has no fee schedule' })
+  async getSchedule(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<FundFeeSchedule> {
+    await this.assertAccess(id, accountId, 'view');
+    const schedule = await this.fundFeeService.getSchedule(id);
+    if (!schedule) {
+      throw new NotFoundException(`No fee schedule for portfolio ${id}`);
+    }
+    return schedule;
+  }
+
+  /**
+   * Create or update the fee schedule of a fund
+   */
+  @Put('schedule')
+  @ApiOperation({
+    summary: 'Create or update the fee schedule of a fund',
+    description: 'Rate changes apply from the next daily accrual; fees already accrued are kept.',
+  })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: UpsertFundFeeScheduleDto })
+  @ApiResponse({ status: 200, description: 'Fee schedule saved' })
+  @ApiResponse({ status: 400, description: 'The portfolio is not a fund' })
+  async upsertSchedule(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Body() scheduleDto: UpsertFundFeeScheduleDto,
+  ): Promise<FundFeeSchedule> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.fundFeeService.upsertSchedule(id, scheduleDto);
+  }
+
+  /**
+   * Get the accrued and crystallized fees of a fund, per investor
+   */
+  @Get('summary')
+  @ApiOperation({ summary: 'Get the accrued and crystallized fees of a fund, per investor' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Fee summary retrieved successfully' })
+  async getSummary(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<FundFeeSummary> {
+    await this.assertAccess(id, accountId, 'view');
+    return this.fundFeeService.getFeeSummary(id);
+  }
+
+  /**
+   * Accrue fees up to today now
+   */
+  @Post('accrue')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Accrue the fees of every day since the last accrual, up to today' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Fees accrued' })
+  @ApiResponse({ status: 404, description: 'The fund has no fee schedule' })
+  async accrueFees(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<FundFeeSummary> {
+    await this.assertAccess(id, accountId, 'update');
+    await this.fundFeeService.accrueFees(id);
+    return this.fundFeeService.getFeeSummary(id);
+  }
+
+  /**
+   * Crystallize the outstanding fees now
+   */
+  @Post('crystallize')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Crystallize the outstanding fees of a fund',
+    description: 'Pays the accrued management and performance fees out of the fund as FEE cash flows and resets the high-water marks of investors that paid a performance fee.',
+  })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: CrystallizeFundFeesDto })
+  @ApiResponse({ status: 200, description: 'Fees crystallized' })
+  @ApiResponse({ status: 400, description: 'Date after the last accrual' })
+  async crystallizeFees(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Body() crystallizeDto: CrystallizeFundFeesDto,
+  ): Promise<FundFeeCrystallization[]> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.fundFeeService.crystallizeFees(id, crystallizeDto.date);
+  }
+
+  private async assertAccess(portfolioId: string, accountId: string, action: 'view' | 'update'): Promise<void> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    const hasAccess = await this.portfolioService.checkPortfolioAccess(portfolioId, accountId, action);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this portfolio');
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { FundOrderService } from '../services/fund-order.service';
+import { PortfolioService } from '../services/portfolio.service';
+import { FundOrder } from '../entities/fund-order.entity';
+import {
+  CreateFundOrderDto,
+  RejectFundOrderDto,
+  UpdateDealingCalendarDto,
+  DealingCalendarResponse,
+} from '../dto/fund-order.dto';
+
+/**
+ * Controller for fund subscription and redemption orders and the dealing calendar of a fund.
+ * Investors place and follow their own orders; accounts that can update the fund price and review them.
+ */
+@ApiTags('Fund Orders')
+@Controller('api/v1/portfolios/:id/fund-orders')
+export class FundOrderController {
+  constructor(
+    private readonly fundOrderService: FundOrderService,
+    private readonly portfolioService: PortfolioService,
+  ) {}
+
+  /**
+   * Get the orders of the requesting investor
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the orders the account placed in a fund, newest first' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Orders retrieved successfully' })
+  async getOrders(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<FundOrder[]> {
+    await this.assertAccess(id, accountId, 'view');
+    return this.fundOrderService.getOrders(id, accountId);
+  }
+
+  /**
+   * Place a subscription or redemption order
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Place a subscription or redemption order',
+    description: 'The order is dealt on the next dealing day whose cut-off has not passed and priced at that day\'s NAV per unit.',
+  })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID of the investor' })
+  @ApiBody({ type: CreateFundOrderDto })
+  @ApiResponse({ status: 201, description: 'Order placed' })
+  @ApiResponse({ status: 400, description: 'Invalid amount or units, or the portfolio is not a fund' })
+  async createOrder(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Body() createDto: CreateFundOrderDto,
+  ): Promise<FundOrder> {
+    await this.assertAccess(id, accountId, 'view');
+    return this.fundOrderService.createOrder(id, accountId, createDto);
+  }
+
+  /**
+   * Get the orders awaiting review
+   */
+  @Get('queue')
+  @ApiOperation({ summary: 'Get the pending and priced orders of a fund, oldest dealing day first' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Approval queue retrieved successfully' })
+  async getApprovalQueue(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<FundOrder[]> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.fundOrderService.getApprovalQueue(id);
+  }
+
+  /**
+   * Price the orders of closed dealing days now
+   */
+  @Post('price')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Price the pending orders whose dealing day cut-off has passed' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Orders priced' })
+  async priceOrders(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<FundOrder[]> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.fundOrderService.priceOrders(id);
+  }
+
+  /**
+   * Approve a priced order
+   */
+  @Post(':orderId/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve a priced order',
+    description: 'Executes the subscription or redemption at the NAV per unit of its dealing day.',
+  })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'orderId', description: 'Order ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Order settled' })
+  @ApiResponse({ status: 400, description: 'The order is not priced' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async approveOrder(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<FundOrder> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.fundOrderService.approveOrder(id, orderId, accountId);
+  }
+
+  /**
+   * Reject a pending or priced order
+   */
+  @Post(':orderId/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a pending or priced order' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'orderId', description: 'Order ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: RejectFundOrderDto })
+  @ApiResponse({ status: 200, description: 'Order rejected' })
+  @ApiResponse({ status: 400, description: 'The order is already settled or rejected' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async rejectOrder(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @Query('accountId') accountId: string,
+    @Body() rejectDto: RejectFundOrderDto,
+  ): Promise<FundOrder> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.fundOrderService.rejectOrder(id, orderId, accountId, rejectDto.reason);
+  }
+
+  /**
+   * Get the dealing calendar of a fund
+   */
+  @Get('dealing-calendar')
+  @ApiOperation({ summary: 'Get the dealing calendar of a fund and the next dealing day' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Dealing calendar retrieved successfully' })
+  async getDealingCalendar(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<DealingCalendarResponse> {
+    await this.assertAccess(id, accountId, 'view');
+    return this.fundOrderService.getDealingCalendar(id);
+  }
+
+  /**
+   * Update the dealing calendar of a fund
+   */
+  @Put('dealing-calendar')
+  @ApiOperation({
+    summary: 'Update the dealing calendar of a fund',
+    description: 'Applies to orders placed from now on; pending orders keep their dealing day.',
+  })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: UpdateDealingCalendarDto })
+  @ApiResponse({ status: 200, description: 'Dealing calendar saved' })
+  async updateDealingCalendar(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Body() calendarDto: UpdateDealingCalendarDto,
+  ): Promise<DealingCalendarResponse> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.fundOrderService.updateDealingCalendar(id, calendarDto);
+  }
+
+  private async assertAccess(portfolioId: string, accountId: string, action: 'view' | 'update'): Promise<void> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    const hasAccess = await this.portfolioService.checkPortfolioAccess(portfolioId, accountId, action);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this portfolio');
+    }
+  }
+}
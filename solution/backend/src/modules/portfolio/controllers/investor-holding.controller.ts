@@ -6,27 +6,36 @@ import {
   Delete,
   Body,
   Param,
+  Query,
+  Res,
   ParseUUIDPipe,
   HttpCode,
   HttpStatus,
   UseGuards,
+  BadRequestException,
+  ForbiddenException,
 } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiParam,
+  ApiQuery,
   ApiBody,
 } from '@nestjs/swagger';
+import { Response } from 'express';
 import { InvestorHoldingService, SubscribeToFundDto, RedeemFromFundDto } from '../services/investor-holding.service';
 import { InvestorHolding } from '../entities/investor-holding.entity';
 import { HoldingDetailDto } from '../dto/holding-detail.dto';
+import { CapitalAccountService } from '../services/capital-account.service';
+import { CapitalAccountLedger } from '../dto/capital-account.dto';
 
 @ApiTags('Investor Holdings')
 @Controller('api/v1/investor-holdings')
 export class InvestorHoldingController {
   constructor(
     private readonly investorHoldingService: InvestorHoldingService,
+    private readonly capitalAccountService: CapitalAccountService,
   ) {}
 
   @Post('subscribe')
@@ -127,6 +136,72 @@ export class InvestorHoldingController {
     return this.investorHoldingService.getHoldingDetail(holdingId);
   }
 
+  @Get(':holdingId/capital-account')
+  @ApiOperation({
+    summary: 'Get the capital account ledger of a holding',
+    description: 'Every subscription and redemption in the period with running units, running cost basis and FIFO realized P&L.',
+  })
+  @ApiParam({ name: 'holdingId', description: 'Holding ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID of the investor or of an account with access to the fund' })
+  @ApiQuery({ name: 'from', required: false, description: 'First day (YYYY-MM-DD), defaults to the first transaction' })
+  @ApiQuery({ name: 'to', required: false, description: 'Last day (YYYY-MM-DD), defaults to today' })
+  @ApiResponse({ status: 200, description: 'Capital account retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'No access to the holding' })
+  @ApiResponse({ status: 404, description: 'Holding not found' })
+  async getCapitalAccount(
+    @Param('holdingId', ParseUUIDPipe) holdingId: string,
+    @Query('accountId') accountId: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<CapitalAccountLedger> {
+    await this.assertCapitalAccountAccess(holdingId, accountId);
+    return this.capitalAccountService.getLedger(holdingId, from, to);
+  }
+
+  @Get(':holdingId/capital-account/csv')
+  @ApiOperation({ summary: 'Download the capital account ledger of a holding as CSV' })
+  @ApiParam({ name: 'holdingId', description: 'Holding ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiQuery({ name: 'from', required: false, description: 'First day (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'to', required: false, description: 'Last day (YYYY-MM-DD)' })
+  @ApiResponse({ status: 200, description: 'CSV document' })
+  async downloadCapitalAccountCsv(
+    @Param('holdingId', ParseUUIDPipe) holdingId: string,
+    @Query('accountId') accountId: string,
+    @Res() res: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<void> {
+    await this.assertCapitalAccountAccess(holdingId, accountId);
+    const document = await this.capitalAccountService.getLedgerCsv(holdingId, from, to);
+
+    res.set('Content-Type', 'text/csv; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="${document.fileName}"`);
+    res.send(document.content);
+  }
+
+  @Get(':holdingId/capital-account/pdf')
+  @ApiOperation({ summary: 'Download the capital account statement of a holding as PDF' })
+  @ApiParam({ name: 'holdingId', description: 'Holding ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiQuery({ name: 'from', required: false, description: 'First day (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'to', required: false, description: 'Last day (YYYY-MM-DD)' })
+  @ApiResponse({ status: 200, description: 'PDF document' })
+  async downloadCapitalAccountPdf(
+    @Param('holdingId', ParseUUIDPipe) holdingId: string,
+    @Query('accountId') accountId: string,
+    @Res() res: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<void> {
+    await this.assertCapitalAccountAccess(holdingId, accountId);
+    const document = await this.capitalAccountService.getLedgerPdf(holdingId, from, to);
+
+    res.set('Content-Type', 'application/pdf');
+    res.set('Content-Disposition', `attachment; filename="${document.fileName}"`);
+    res.send(document.content);
+  }
+
   @Put('fund-unit-transactions/:transactionId')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Update a fund unit transaction' })
@@ -146,6 +221,9 @@ export class InvestorHoldingController {
   @ApiResponse({ status: 200, description: 'Fund unit transaction updated successfully' })
   @ApiResponse({ status: 404, description: 'Transaction not found' })
   @ApiResponse({ status: 400, description: 'Invalid update data' })
+  @ApiResponse({ status: 409, description: 'Transaction date falls in a locked period' })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
+  @ApiQuery({ name: 'reason', required: false, description: 'Reason for the change, kept in the audit trail' })
   async updateHoldingTransaction(
     @Param('transactionId', ParseUUIDPipe) transactionId: string,
     @Body() updateData: {
@@ -153,9 +231,11 @@ export class InvestorHoldingController {
       amount?: number;
       description?: string;
       transactionDate?: string;
-    }
+    },
+    @Query('accountId') accountId?: string,
+    @Query('reason') reason?: string,
   ) {
-    return this.investorHoldingService.updateHoldingTransaction(transactionId, updateData);
+    return this.investorHoldingService.updateHoldingTransaction(transactionId, updateData, { actorAccountId: accountId, reason });
   }
 
   @Delete('fund-unit-transactions/:transactionId')
@@ -164,10 +244,15 @@ export class InvestorHoldingController {
   @ApiParam({ name: 'transactionId', description: 'Fund unit transaction ID' })
   @ApiResponse({ status: 204, description: 'Fund unit transaction deleted successfully' })
   @ApiResponse({ status: 404, description: 'Transaction not found' })
+  @ApiResponse({ status: 409, description: 'Transaction date falls in a locked period' })
+  @ApiQuery({ name: 'accountId', required: false, description: 'Account ID recorded as the actor in the audit trail' })
+  @ApiQuery({ name: 'reason', required: false, description: 'Reason for the deletion, kept in the audit trail' })
   async deleteHoldingTransaction(
     @Param('transactionId', ParseUUIDPipe) transactionId: string,
+    @Query('accountId') accountId?: string,
+    @Query('reason') reason?: string,
   ) {
-    await this.investorHoldingService.deleteHoldingTransaction(transactionId);
+    await this.investorHoldingService.deleteHoldingTransaction(transactionId, { actorAccountId: accountId, reason });
   }
 
   @Post('recalculate-all/:portfolioId')
@@ -191,4 +276,13 @@ export class InvestorHoldingController {
   ) {
     return this.investorHoldingService.recalculateAllHoldings(portfolioId);
   }
+
+  private async assertCapitalAccountAccess(holdingId: string, accountId: string): Promise<void> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+    if (!(await this.capitalAccountService.canView(holdingId, accountId))) {
+      throw new ForbiddenException('You do not have access to this holding');
+    }
+  }
 }
@@ -14,6 +14,7 @@ import { DepositService } from '../services/deposit.service';
 import { PerformanceSnapshotService } from '../services/performance-snapshot.service';
 import { PermissionCheckService } from '../../shared/services/permission-check.service';
 import { AccountService } from '../../shared/services/account.service';
+import { FundFeeService } from '../services/fund-fee.service';
 
 /**
  * Controller for Investor Report - provides fund asset reports for investors
@@ -31,6 +32,7 @@ export class InvestorReportController {
     private readonly performanceSnapshotService: PerformanceSnapshotService,
     private readonly permissionCheckService: PermissionCheckService,
     private readonly accountService: AccountService,
+    private readonly fundFeeService: FundFeeService,
   ) {}
 
   /**
@@ -117,6 +119,7 @@ export class InvestorReportController {
                 depositsValue: reportData.portfolio.depositsValue,
                 lastUpdated: reportData.portfolio.lastUpdated,
                 owner: ownerInfo,
+                isFund: portfolio.isFund,
               },
               performance: reportData.performance,
               userPermission: {
@@ -155,6 +158,7 @@ export class InvestorReportController {
                 depositsValue: 0,
                 lastUpdated: new Date().toISOString(),
                 owner: ownerInfo,
+                isFund: portfolio.isFund,
               },
               performance: {
                 dailyGrowth: 0,
@@ -266,6 +270,22 @@ export class InvestorReportController {
             unrealizedPl: { type: 'number' },
             realizedPl: { type: 'number' }
           }
+        },
+        fees: {
+          type: 'object',
+          nullable: true,
+          description: 'Fund fees of the investor, null when the portfolio is not a fund with a fee schedule',
+          properties: {
+            managementFeeRate: { type: 'number' },
+            performanceFeeRate: { type: 'number' },
+            hurdleRate: { type: 'number' },
+            units: { type: 'number' },
+            highWaterMark: { type: 'number' },
+            hurdleNavPerUnit: { type: 'number' },
+            accruedManagementFee: { type: 'number' },
+            accruedPerformanceFee: { type: 'number' },
+            crystallizedPerformanceFee: { type: 'number' }
+          }
         }
       }
     }
@@ -366,6 +386,9 @@ export class InvestorReportController {
     const totalReturn = totalUnrealizedPl;
     const totalReturnPercentage = totalValue > 0 ? Number(((totalReturn / totalValue) * 100).toFixed(2)) : 0;
 
+    // Fund fees of the investor
+    const fees = portfolio.isFund ? await this.getInvestorFees(portfolioId, accountId) : null;
+
     return {
       portfolio: {
         id: portfolio.portfolioId,
@@ -396,6 +419,27 @@ export class InvestorReportController {
         ytdGrowth: Number(performance.ytdGrowth),
         lastUpdated: performance.lastUpdated,
       },
+      fees,
+    };
+  }
+
+  /**
+   * Get the fund fees of an investor, with the rates of the fee schedule
+   */
+  private async getInvestorFees(portfolioId: string, accountId: string) {
+    const schedule = await this.fundFeeService.getSchedule(portfolioId);
+    const investorFees = await this.fundFeeService.getInvestorFees(portfolioId, accountId);
+    if (!schedule || !investorFees) {
+      return null;
+    }
+
+    return {
+      managementFeeRate: Number(schedule.managementFeeRate),
+      performanceFeeRate: Number(schedule.performanceFeeRate),
+      hurdleRate: Number(schedule.hurdleRate),
+      crystallizationFrequency: schedule.crystallizationFrequency,
+      lastAccrualDate: schedule.lastAccrualDate ?? null,
+      ...investorFees,
     };
   }
 
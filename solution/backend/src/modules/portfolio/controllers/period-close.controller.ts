@@ -0,0 +1,144 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { PeriodCloseService } from '../services/period-close.service';
+import { PortfolioService } from '../services/portfolio.service';
+import { AccountValidationService } from '../../shared/services/account-validation.service';
+import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PermissionGuard } from '../../shared/guards/permission.guard';
+import { RequirePermissions } from '../../shared/decorators/permissions.decorator';
+import { ClosePeriodDto, ReopenPeriodDto, PeriodCloseResponse, PeriodReopenImpact } from '../dto/period-close.dto';
+
+/**
+ * Controller for closing accounting periods of a portfolio.
+ * The owner closes periods; reopening one needs the financial.reconcile permission.
+ */
+@ApiTags('Period Close')
+@Controller('api/v1/portfolios/:id/period-closes')
+export class PeriodCloseController {
+  constructor(
+    private readonly periodCloseService: PeriodCloseService,
+    private readonly portfolioService: PortfolioService,
+    private readonly accountValidationService: AccountValidationService,
+  ) {}
+
+  /**
+   * Get closed and reopened periods of a portfolio
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get closed and reopened periods of a portfolio, latest first' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Periods retrieved successfully' })
+  async getPeriodCloses(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<PeriodCloseResponse[]> {
+    await this.checkViewAccess(id, accountId);
+    return this.periodCloseService.getPeriodCloses(id);
+  }
+
+  /**
+   * Close the period ending on a day
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Close a period',
+    description: 'Locks records dated on or before periodEnd, freezes the snapshots and NAV of the period and keeps its reported figures.',
+  })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiBody({ type: ClosePeriodDto })
+  @ApiResponse({ status: 201, description: 'Period closed' })
+  @ApiResponse({ status: 400, description: 'The period has not ended yet' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  @ApiResponse({ status: 409, description: 'The portfolio is already locked through periodEnd' })
+  async closePeriod(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Body() closeDto: ClosePeriodDto,
+  ): Promise<PeriodCloseResponse> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    await this.accountValidationService.validatePortfolioOwnership(id, accountId);
+    return this.periodCloseService.closePeriod(id, closeDto.periodEnd, accountId);
+  }
+
+  /**
+   * Reopen the latest closed period
+   */
+  @Post(':periodCloseId/reopen')
+  @UseGuards(JwtAuthGuard, PermissionGuard)
+  @RequirePermissions(['financial.reconcile'])
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reopen the latest closed period with a reason' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'periodCloseId', description: 'Period close ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: ReopenPeriodDto })
+  @ApiResponse({ status: 201, description: 'Period reopened' })
+  @ApiResponse({ status: 403, description: 'Missing the financial.reconcile permission' })
+  @ApiResponse({ status: 409, description: 'The period is already reopened or a later period is still closed' })
+  async reopenPeriod(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('periodCloseId', ParseUUIDPipe) periodCloseId: string,
+    @Query('accountId') accountId: string,
+    @Body() reopenDto: ReopenPeriodDto,
+  ): Promise<PeriodCloseResponse> {
+    await this.checkViewAccess(id, accountId);
+    return this.periodCloseService.reopenPeriod(id, periodCloseId, reopenDto.reason, accountId);
+  }
+
+  /**
+   * Get what the changes made since a period was reopened affect
+   */
+  @Get(':periodCloseId/impact')
+  @ApiOperation({
+    summary: 'Get the impact of changes made to a reopened period',
+    description: 'Lists the changes dated inside the period made since it was reopened, the snapshots and NAV of the period they would recalculate, and investors whose units changed.',
+  })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'periodCloseId', description: 'Period close ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Impact retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'The period has not been reopened' })
+  async getReopenImpact(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('periodCloseId', ParseUUIDPipe) periodCloseId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<PeriodReopenImpact> {
+    await this.checkViewAccess(id, accountId);
+    return this.periodCloseService.getReopenImpact(id, periodCloseId);
+  }
+
+  private async checkViewAccess(portfolioId: string, accountId: string): Promise<void> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    const hasAccess = await this.portfolioService.checkPortfolioAccess(portfolioId, accountId, 'view');
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this portfolio');
+    }
+  }
+}
@@ -15,8 +15,8 @@ import { AssetDetailSummaryResponseDto } from '../dto/asset-detail-summary.dto';
 import { PositionManagerService } from '../services/position-manager.service';
 import { PerformanceSnapshotService } from '../services/performance-snapshot.service';
 import { SnapshotGranularity } from '../enums/snapshot-granularity.enum';
-import { MarketDataService } from '../../market-data/services/market-data.service';
 import { RiskMetricsCalculationService } from '../services/risk-metrics-calculation.service';
+import { BenchmarkService, BUILT_IN_BENCHMARK_IDS } from '../services/benchmark.service';
 
 /**
  * Controller for Portfolio analytics and advanced reporting.
@@ -32,8 +32,8 @@ export class PortfolioAnalyticsController {
     private readonly portfolioRepository: PortfolioRepository,
     private readonly positionManagerService: PositionManagerService,
     private readonly performanceSnapshotService: PerformanceSnapshotService,
-    private readonly marketDataService: MarketDataService,
     private readonly riskMetricsCalculationService: RiskMetricsCalculationService,
+    private readonly benchmarkService: BenchmarkService,
   ) {}
 
   /**
@@ -508,21 +508,24 @@ export class PortfolioAnalyticsController {
 
 
   /**
-   * Get benchmark comparison data using real portfolio snapshots and real VNIndex data.
+   * Get benchmark comparison data using real portfolio snapshots and the stored benchmark series.
    */
   @Get('benchmark-comparison')
-  @ApiOperation({ summary: 'Get benchmark comparison data using real portfolio snapshots and real VNIndex data' })
+  @ApiOperation({ summary: 'Get benchmark comparison data using real portfolio snapshots and the stored benchmark series' })
   @ApiParam({ name: 'id', description: 'Portfolio ID' })
   @ApiQuery({ name: 'months', required: false, description: 'Number of months to look back (default: 12, max: 24)' })
   @ApiQuery({ name: 'twrPeriod', required: false, description: 'TWR period to use (1D, 1W, 1M, 3M, 6M, 1Y, YTD, default: 1M)' })
+  @ApiQuery({ name: 'benchmarkId', required: false, description: 'Benchmark to compare against (default: VN30 Index)' })
   @ApiResponse({ status: 200, description: 'Benchmark comparison data retrieved successfully' })
-  @ApiResponse({ status: 404, description: 'Portfolio not found' })
+  @ApiResponse({ status: 404, description: 'Portfolio or benchmark not found' })
   async getBenchmarkComparison(
     @Param('id', ParseUUIDPipe) id: string,
     @Query('months') months?: string,
     @Query('twrPeriod') twrPeriod?: string,
+    @Query('benchmarkId') benchmarkId?: string,
   ): Promise<any> {
     const portfolio = await this.portfolioService.getPortfolioDetails(id);
+    const benchmark = await this.benchmarkService.getBenchmark(benchmarkId || BUILT_IN_BENCHMARK_IDS.VN30);
     
     // Limit to maximum 24 months
     const monthsToLookBack = Math.min(months ? parseInt(months, 10) : 12, 24);
@@ -554,10 +557,7 @@ export class PortfolioAnalyticsController {
       SnapshotGranularity.DAILY
     );
     
-    // Generate benchmark data (VN Index simulation)
     const benchmarkData = [];
-    let portfolioValue = 0;
-    let benchmarkValue = 0; 
     
     // Try to get performance snapshots first (more accurate TWR data)
     let performanceSnapshots = [];
@@ -592,8 +592,8 @@ export class PortfolioAnalyticsController {
       const dateList = this.generateDateList(startDate, endDate, monthsToLookBack);
       console.log(`Generated ${dateList.length} dates for timeframe ${monthsToLookBack} months`);
       
-      // Fetch real VNIndex data for benchmark comparison
-      const dataReturns = await this.getDataForBenchmark(startDate, endDate);
+      // Read the stored benchmark series for the comparison
+      const dataReturns = await this.getDataForBenchmark(benchmark.benchmarkId, startDate, endDate);
       
       // Use TWR data from performance snapshots
       for (let i = 0; i < dateList.length; i++) {
@@ -646,7 +646,7 @@ export class PortfolioAnalyticsController {
           console.log(`Date ${date.toISOString().split('T')[0]}: Using ${twrColumn} = ${portfolioReturn}% (TWR period: ${twrPeriodToUse}, data range: ${monthsToLookBack} months)`);
         }
         
-        // Get real VNIndex return for this date
+        // Get benchmark return for this date
         const benchmarkReturn = this.getDataReturnForDate(date, dataReturns);
         
         benchmarkData.push({
@@ -683,15 +683,15 @@ export class PortfolioAnalyticsController {
       const cumulativeReturns = this.calculateCumulativeReturns(dateList, sortedSnapshots);
       console.log(`Calculated cumulative returns for ${cumulativeReturns.length} dates`);
       
-      // Fetch real VNIndex data for benchmark comparison
-      const dataReturns = await this.getDataForBenchmark(startDate, endDate);
+      // Read the stored benchmark series for the comparison
+      const dataReturns = await this.getDataForBenchmark(benchmark.benchmarkId, startDate, endDate);
       
       // Generate benchmark data based on timeframe
       for (let i = 0; i < dateList.length; i++) {
         const date = dateList[i];
         const portfolioReturn = cumulativeReturns[i] || 0;
         
-        // Get real VNIndex return for this date
+        // Get benchmark return for this date
         const benchmarkReturn = this.getDataReturnForDate(date, dataReturns);
         
         benchmarkData.push({
@@ -704,31 +704,14 @@ export class PortfolioAnalyticsController {
     } else {
       console.log(`Benchmark comparison: No snapshots available for benchmark comparison using 
         daily granularity ${monthsToLookBack} months to look back`);
-      // Fallback to mock data if no snapshots available
-      for (let i = monthsToLookBack - 1; i >= 0; i--) {
-        const date = new Date(endDate.getFullYear(), endDate.getMonth() - i, 1);
-        
-        // Generate monthly returns
-        const portfolioReturn = (Math.random() - 0.4) * 0.2; // TODO: -8% to +12%
-        const benchmarkReturn = (Math.random() - 0.3) * 0.15; // TODO: -4.5% to +10.5%
-        
-        portfolioValue *= (1 + portfolioReturn);
-        benchmarkValue *= (1 + benchmarkReturn);
-        
-        benchmarkData.push({
-          date: date.toISOString().split('T')[0],
-          portfolio: portfolioReturn * 100,
-          benchmark: benchmarkReturn * 100,
-          difference: (portfolioReturn - benchmarkReturn) * 100,
-        });
-      }
     }
 
     return {
       portfolioId: id,
       totalValue: portfolio.totalValue,
       data: benchmarkData,
-      benchmarkName: 'VN30 Index',
+      benchmarkId: benchmark.benchmarkId,
+      benchmarkName: benchmark.name,
       period: {
         startDate: startDate.toISOString(),
         endDate: endDate.toISOString(),
@@ -736,7 +719,7 @@ export class PortfolioAnalyticsController {
       },
       twrPeriod: twrPeriodToUse,
       dataSource: performanceSnapshots && performanceSnapshots.length > 0 ? 'performance_snapshots_twr' : 
-                 (portfolioSnapshots && portfolioSnapshots.length > 0 ? 'portfolio_snapshots_cumulative' : 'simulated'),
+                 (portfolioSnapshots && portfolioSnapshots.length > 0 ? 'portfolio_snapshots_cumulative' : 'none'),
       snapshotCount: performanceSnapshots ? performanceSnapshots.length : (portfolioSnapshots ? portfolioSnapshots.length : 0),
       calculatedAt: new Date().toISOString(),
     };
@@ -750,14 +733,17 @@ export class PortfolioAnalyticsController {
   @ApiParam({ name: 'id', description: 'Portfolio ID' })
   @ApiQuery({ name: 'months', required: false, description: 'Number of months to look back (default: 12, max: 24)' })
   @ApiQuery({ name: 'mwrPeriod', required: false, description: 'MWR period to use (1D, 1W, 1M, 3M, 6M, 1Y, YTD, default: 1M)' })
+  @ApiQuery({ name: 'benchmarkId', required: false, description: 'Benchmark to compare against (default: VN30 Index)' })
   @ApiResponse({ status: 200, description: 'MWR benchmark comparison data retrieved successfully' })
-  @ApiResponse({ status: 404, description: 'Portfolio not found' })
+  @ApiResponse({ status: 404, description: 'Portfolio or benchmark not found' })
   async getMWRBenchmarkComparison(
     @Param('id', ParseUUIDPipe) id: string,
     @Query('months') months?: string,
     @Query('mwrPeriod') mwrPeriod?: string,
+    @Query('benchmarkId') benchmarkId?: string,
   ): Promise<any> {
     const portfolio = await this.portfolioService.getPortfolioDetails(id);
+    const benchmark = await this.benchmarkService.getBenchmark(benchmarkId || BUILT_IN_BENCHMARK_IDS.VN30);
     
     // Limit to maximum 24 months
     const monthsToLookBack = Math.min(months ? parseInt(months, 10) : 12, 24);
@@ -789,10 +775,7 @@ export class PortfolioAnalyticsController {
       SnapshotGranularity.DAILY
     );
     
-    // Generate benchmark data (VN Index simulation)
     const benchmarkData = [];
-    let portfolioValue = 0;
-    let benchmarkValue = 0; 
     
     // Try to get performance snapshots first (more accurate MWR data)
     let performanceSnapshots = [];
@@ -827,8 +810,8 @@ export class PortfolioAnalyticsController {
       const dateList = this.generateDateList(startDate, endDate, monthsToLookBack);
       console.log(`Generated ${dateList.length} dates for timeframe ${monthsToLookBack} months`);
       
-      // Fetch real VNIndex data for benchmark comparison
-      const dataReturns = await this.getDataForBenchmark(startDate, endDate);
+      // Read the stored benchmark series for the comparison
+      const dataReturns = await this.getDataForBenchmark(benchmark.benchmarkId, startDate, endDate);
       
       // Use MWR data from performance snapshots
       for (let i = 0; i < dateList.length; i++) {
@@ -883,7 +866,7 @@ export class PortfolioAnalyticsController {
         //   console.log(`Date ${date.toISOString().split('T')[0]}: Using ${mwrColumn} = ${portfolioReturn}% (MWR period: ${mwrPeriodToUse}, data range: ${monthsToLookBack} months)`);
         // }
         
-        // Get real VNIndex return for this date
+        // Get benchmark return for this date
         const benchmarkReturn = this.getDataReturnForDate(date, dataReturns);
         
         benchmarkData.push({
@@ -920,15 +903,15 @@ export class PortfolioAnalyticsController {
       const cumulativeReturns = this.calculateCumulativeReturns(dateList, sortedSnapshots);
       console.log(`Calculated cumulative returns for ${cumulativeReturns.length} dates`);
       
-      // Fetch real VNIndex data for benchmark comparison
-      const dataReturns = await this.getDataForBenchmark(startDate, endDate);
+      // Read the stored benchmark series for the comparison
+      const dataReturns = await this.getDataForBenchmark(benchmark.benchmarkId, startDate, endDate);
       
       // Generate benchmark data based on timeframe
       for (let i = 0; i < dateList.length; i++) {
         const date = dateList[i];
         const portfolioReturn = cumulativeReturns[i] || 0;
         
-        // Get real VNIndex return for this date
+        // Get benchmark return for this date
         const benchmarkReturn = this.getDataReturnForDate(date, dataReturns);
 
         benchmarkData.push({
@@ -941,31 +924,14 @@ export class PortfolioAnalyticsController {
     } else {
       console.log(`MWR Benchmark comparison: No snapshots available for benchmark comparison using 
         daily granularity ${monthsToLookBack} months to look back`);
-      // Fallback to mock data if no snapshots available
-      for (let i = monthsToLookBack - 1; i >= 0; i--) {
-        const date = new Date(endDate.getFullYear(), endDate.getMonth() - i, 1);
-        
-        // Generate monthly returns
-        const portfolioReturn = (Math.random() - 0.4) * 0.2; // TODO: -8% to +12%
-        const benchmarkReturn = (Math.random() - 0.3) * 0.15; // TODO: -4.5% to +10.5%
-        
-        portfolioValue *= (1 + portfolioReturn);
-        benchmarkValue *= (1 + benchmarkReturn);
-        
-        benchmarkData.push({
-          date: date.toISOString().split('T')[0],
-          portfolio: portfolioReturn * 100,
-          benchmark: benchmarkReturn * 100,
-          difference: (portfolioReturn - benchmarkReturn) * 100,
-        });
-      }
     }
 
     return {
       portfolioId: id,
       totalValue: portfolio.totalValue,
       data: benchmarkData,
-      benchmarkName: 'VN30 Index',
+      benchmarkId: benchmark.benchmarkId,
+      benchmarkName: benchmark.name,
       period: {
         startDate: startDate.toISOString(),
         endDate: endDate.toISOString(),
@@ -973,7 +939,7 @@ export class PortfolioAnalyticsController {
       },
       mwrPeriod: mwrPeriodToUse,
       dataSource: performanceSnapshots && performanceSnapshots.length > 0 ? 'performance_snapshots_mwr' : 
-                 (portfolioSnapshots && portfolioSnapshots.length > 0 ? 'portfolio_snapshots_cumulative' : 'simulated'),
+                 (portfolioSnapshots && portfolioSnapshots.length > 0 ? 'portfolio_snapshots_cumulative' : 'none'),
       snapshotCount: performanceSnapshots ? performanceSnapshots.length : (portfolioSnapshots ? portfolioSnapshots.length : 0),
       calculatedAt: new Date().toISOString(),
     };
@@ -1250,8 +1216,7 @@ export class PortfolioAnalyticsController {
    */
   private getDataReturnForDate(date: Date, dataReturns: Array<{date: string, return: number}>): number {
     if (!dataReturns || dataReturns.length === 0) {
-      // Fallback to simulated data if no data available
-      return Math.random() * 0.15 - 0.03; // -3% to +12% range
+      return 0;
     }
 
     const targetDateStr = date.toISOString().split('T')[0];
@@ -1282,43 +1247,25 @@ export class PortfolioAnalyticsController {
     return closest.return / 100; // Convert percentage to decimal
   }
 
-  // Cache for benchmark data to avoid repeated API calls
-  private benchmarkDataCache = new Map<string, Array<{date: string, return: number}>>();
-  private cacheExpiry = new Map<string, number>();
-  private readonly CACHE_DURATION = 15 * 60 * 1000; // 15 minutes
-
   /**
-   * Get data for benchmark comparison (with caching)
+   * Get cumulative benchmark returns for comparison from the stored series
+   * (levels are backfilled from the market data clients on first use)
+   * @param benchmarkId - Benchmark ID
    * @param startDate - Start date
    * @param endDate - End date
    * @returns Promise<Array<{date: string, return: number}>> data returns
    */
   private async getDataForBenchmark(
+    benchmarkId: string,
     startDate: Date,
     endDate: Date
   ): Promise<Array<{date: string, return: number}>> {
-    const cacheKey = `${startDate.toISOString().split('T')[0]}_${endDate.toISOString().split('T')[0]}`;
-    const now = Date.now();
-    
-    // Check cache first
-    if (this.benchmarkDataCache.has(cacheKey) && this.cacheExpiry.get(cacheKey) > now) {
-      console.log(`Using cached benchmark data for ${cacheKey}`);
-      return this.benchmarkDataCache.get(cacheKey);
-    }
-    
     try {
-      console.log(`Fetching real VNIndex data for benchmark comparison from ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
-      const dataReturns = await this.marketDataService.getMarketDataReturnsHistoryForBenchmarkFromAPI('VN30INDEX', 'STOCK', startDate, endDate);
-      console.log(`Successfully fetched ${dataReturns.length} data return data points`);
-      
-      // Cache the result
-      this.benchmarkDataCache.set(cacheKey, dataReturns);
-      this.cacheExpiry.set(cacheKey, now + this.CACHE_DURATION);
-      
+      const dataReturns = await this.benchmarkService.getCumulativeReturns(benchmarkId, startDate, endDate, true);
+      console.log(`Loaded ${dataReturns.length} benchmark return data points`);
       return dataReturns;
     } catch (error) {
-      console.error(`Error fetching data: ${error.message}`);
-      console.log('Falling back to simulated benchmark data');
+      console.error(`Error loading benchmark data: ${error.message}`);
       return [];
     }
   }
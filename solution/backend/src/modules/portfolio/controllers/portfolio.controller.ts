@@ -16,7 +16,7 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
-import { RequireRoles } from '../../shared/decorators/permissions.decorator';
+import { RequireRoles, RequirePermissions } from '../../shared/decorators/permissions.decorator';
 import { PortfolioService } from '../services/portfolio.service';
 import { PortfolioAnalyticsService } from '../services/portfolio-analytics.service';
 import { PositionManagerService } from '../services/position-manager.service';
@@ -24,14 +24,17 @@ import { InvestorHoldingService } from '../services/investor-holding.service';
 import { PortfolioSnapshotService } from '../services/portfolio-snapshot.service';
 import { AccountValidationService } from '../../shared/services/account-validation.service';
 import { PortfolioPermissionService } from '../services/portfolio-permission.service';
+import { PortfolioArchiveService } from '../services/portfolio-archive.service';
 import { PermissionCheckService } from '../../shared/services/permission-check.service';
 import { RoleGuard } from '../../shared/guards/role.guard';
 import { JwtAuthGuard } from '../../shared/guards/jwt-auth.guard';
+import { PersonalAccessTokenGuard } from '../../shared/guards/personal-access-token.guard';
 import { CreatePortfolioDto } from '../dto/create-portfolio.dto';
 import { UpdatePortfolioDto } from '../dto/update-portfolio.dto';
 import { SubscribeToFundDto } from '../dto/subscribe-to-fund.dto';
 import { RedeemFromFundDto } from '../dto/redeem-from-fund.dto';
 import { CopyPortfolioDto } from '../dto/copy-portfolio.dto';
+import { ImportPortfolioArchiveDto, PortfolioArchive, PortfolioArchiveImportResult } from '../dto/portfolio-archive.dto';
 import { GetPortfolioReturnRequestDto, GetPortfolioReturnResponseDto } from '../dto/portfolio-return.dto';
 import { Portfolio } from '../entities/portfolio.entity';
 import { InvestorHolding } from '../entities/investor-holding.entity';
@@ -51,12 +54,16 @@ export class PortfolioController {
     private readonly accountValidationService: AccountValidationService,
     private readonly portfolioPermissionService: PortfolioPermissionService,
     private readonly permissionCheckService: PermissionCheckService,
+    private readonly portfolioArchiveService: PortfolioArchiveService,
   ) {}
 
   /**
    * Get all portfolios for an account (now includes shared portfolios with permission stats).
    */
   @Get()
+  @UseGuards(PersonalAccessTokenGuard)
+  @RequirePermissions(['portfolios.read'])
+  @ApiBearerAuth()
   @ApiOperation({ 
     summary: 'Get all portfolios for an account',
     description: 'Retrieves all portfolios associated with a specific account ID, including owned portfolios and portfolios shared with the account. Now includes permission statistics for each portfolio.',
@@ -437,6 +444,61 @@ export class PortfolioController {
     );
   }
 
+  /**
+   * Export a portfolio as a versioned JSON archive.
+   */
+  @Get(':id/export')
+  @ApiOperation({
+    summary: 'Export portfolio archive',
+    description: 'Exports the portfolio with its trades, trade details, cash flows, deposits, notes, asset targets and referenced asset definitions as a versioned JSON archive for backup or migration.',
+  })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiResponse({ status: 200, description: 'Portfolio archive exported successfully' })
+  @ApiResponse({ status: 403, description: 'You do not have access to this portfolio' })
+  @ApiResponse({ status: 404, description: 'Portfolio not found' })
+  async exportPortfolio(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<PortfolioArchive> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    const hasAccess = await this.portfolioService.checkPortfolioAccess(id, accountId, 'view');
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this portfolio');
+    }
+
+    return this.portfolioArchiveService.exportPortfolio(id);
+  }
+
+  /**
+   * Import a portfolio archive into an account.
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Import portfolio archive',
+    description: 'Re-creates an exported portfolio under the given account. All IDs are regenerated and assets are re-linked by symbol, creating missing assets for the account.',
+  })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account that will own the imported portfolio' })
+  @ApiBody({ type: ImportPortfolioArchiveDto })
+  @ApiResponse({ status: 201, description: 'Portfolio archive imported successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid or unsupported archive, or portfolio name already exists' })
+  async importPortfolio(
+    @Query('accountId') accountId: string,
+    @Body() importDto: ImportPortfolioArchiveDto,
+  ): Promise<PortfolioArchiveImportResult> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    await this.accountValidationService.validateAccountOwnership(accountId, accountId);
+
+    return this.portfolioArchiveService.importPortfolio(importDto.archive, accountId, importDto.name);
+  }
+
   /**
    * Update portfolio visibility
    */
@@ -537,6 +599,9 @@ export class PortfolioController {
    * Get portfolio details by ID.
    */
   @Get(':id')
+  @UseGuards(PersonalAccessTokenGuard)
+  @RequirePermissions(['portfolios.read'])
+  @ApiBearerAuth()
   @ApiOperation({ summary: 'Get portfolio details by ID' })
   @ApiParam({ name: 'id', description: 'Portfolio ID' })
   @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
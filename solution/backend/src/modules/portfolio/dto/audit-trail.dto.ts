@@ -0,0 +1,57 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, IsUUID, Matches, Max, MaxLength, Min, ValidateIf } from 'class-validator';
+import { AuditEntityType } from '../entities/financial-audit-log.entity';
+
+export class AuditTrailQueryDto {
+  @ApiProperty({ description: 'Account ID for ownership validation' })
+  @IsUUID()
+  accountId: string;
+
+  @ApiPropertyOptional({ enum: AuditEntityType })
+  @IsOptional()
+  @IsEnum(AuditEntityType)
+  entityType?: AuditEntityType;
+
+  @ApiPropertyOptional({ description: 'Only changes of this record' })
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+
+  @ApiPropertyOptional({ description: 'Page number (default: 1)', example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Items per page (default: 20)', example: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class UpdatePeriodLockDto {
+  @ApiProperty({
+    description: 'Last day of the locked period (YYYY-MM-DD); null removes the lock',
+    example: '2024-12-31',
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null)
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'lockedThroughDate must be in YYYY-MM-DD format' })
+  lockedThroughDate: string | null;
+
+  @ApiPropertyOptional({ description: 'Reason for the change, required when unlocking days', example: 'Correcting a March dividend' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export interface PeriodLockResponse {
+  portfolioId: string;
+  lockedThroughDate: string | null;
+}
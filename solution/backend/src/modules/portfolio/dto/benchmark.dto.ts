@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsUUID,
+  MaxLength,
+  Min,
+  Max,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * One leg of a custom blended benchmark.
+ * Set benchmarkId to follow another benchmark, or annualRate for a fixed-rate leg.
+ */
+export class BenchmarkComponentDto {
+  @ApiPropertyOptional({ description: 'Benchmark followed by this leg' })
+  @IsOptional()
+  @IsUUID()
+  benchmarkId?: string;
+
+  @ApiPropertyOptional({ description: 'Fixed annual rate in % (e.g., a deposit rate)', example: 5.5 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  annualRate?: number;
+
+  @ApiProperty({ description: 'Weight of the leg as a fraction; weights must sum to 1', example: 0.6 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  weight: number;
+}
+
+export class CreateCustomBenchmarkDto {
+  @ApiProperty({ description: 'Display name', example: '60% VN30 + 40% Deposit' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ description: 'Legs of the blend', type: [BenchmarkComponentDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => BenchmarkComponentDto)
+  components: BenchmarkComponentDto[];
+}
+
+export interface BenchmarkMetrics {
+  benchmarkId: string;
+  benchmarkName: string;
+  startDate: string | null;
+  endDate: string | null;
+  dataPoints: number;
+  totalReturn: number; // %
+  volatility: number; // annualized %
+  maxDrawdown: number; // %
+}
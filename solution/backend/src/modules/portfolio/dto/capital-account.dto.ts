@@ -0,0 +1,41 @@
+import { CapitalAccountEntry } from '../utils/capital-account.util';
+
+export interface CapitalAccountBalance {
+  date: string;
+  units: number;
+  costBasis: number;
+  navPerUnit: number;
+  value: number;
+}
+
+export interface CapitalAccountSummary {
+  subscriptions: number;
+  redemptions: number;
+  /** FIFO realized P&L of the redemptions in the period */
+  realizedPnl: number;
+  /** Closing value less the cost basis of the units still held */
+  unrealizedPnl: number;
+  /** Closing value less opening value, net of subscriptions and redemptions */
+  investmentResult: number;
+  /** NAV per unit return over the period, in % */
+  periodReturn: number;
+}
+
+/**
+ * Capital account of one investor in one fund over a date range
+ */
+export interface CapitalAccountLedger {
+  holdingId: string;
+  accountId: string;
+  investorName: string;
+  portfolioId: string;
+  portfolioName: string;
+  baseCurrency: string;
+  from: string;
+  to: string;
+  opening: CapitalAccountBalance;
+  entries: CapitalAccountEntry[];
+  closing: CapitalAccountBalance;
+  summary: CapitalAccountSummary;
+  generatedAt: string;
+}
@@ -217,6 +217,9 @@ export class CashFlowResponseDto {
   @ApiProperty({ description: 'Funding source', required: false })
   fundingSource?: string;
 
+  @ApiProperty({ description: 'Tax withheld at source', required: false })
+  taxWithheld?: number;
+
   @ApiProperty({ description: 'Created at' })
   createdAt: Date;
 
@@ -49,6 +49,20 @@ export class CreatePortfolioDto {
   @Transform(({ value }) => typeof value === 'string' ? value.trim() : value)
   fundingSource?: string;
 
+  /**
+   * Broker code used for default trade fees (optional).
+   */
+  @ApiProperty({
+    description: 'Broker code used for default trade fees (optional)',
+    example: 'SSI',
+    required: false,
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().toUpperCase() : value)
+  broker?: string;
+
   /**
    * ID of the account that owns this portfolio.
    */
@@ -216,6 +216,9 @@ export class DepositResponseDto {
   @ApiProperty({ description: 'End date' })
   endDate: string;
 
+  @ApiProperty({ description: 'Maturity date: the end date rolled forward past weekends and market holidays' })
+  maturityDate: string;
+
   @ApiProperty({ description: 'Deposit status', enum: ['ACTIVE', 'SETTLED'] })
   status: 'ACTIVE' | 'SETTLED';
 
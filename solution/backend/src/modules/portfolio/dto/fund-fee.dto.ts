@@ -0,0 +1,79 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNumber, IsOptional, IsEnum, IsBoolean, IsDateString, Min, Max } from 'class-validator';
+import { FeeCrystallizationFrequency } from '../entities/fund-fee-schedule.entity';
+import { FundFeeCrystallization } from '../entities/fund-fee-crystallization.entity';
+
+export class UpsertFundFeeScheduleDto {
+  @ApiProperty({ description: 'Annual management fee in % of NAV', example: 2 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  managementFeeRate: number;
+
+  @ApiProperty({ description: 'Performance fee in % of the gain above the hurdle', example: 20 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  performanceFeeRate: number;
+
+  @ApiPropertyOptional({ description: 'Annual hurdle rate in %', example: 6, default: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  hurdleRate?: number;
+
+  @ApiPropertyOptional({ enum: FeeCrystallizationFrequency, default: FeeCrystallizationFrequency.ANNUALLY })
+  @IsOptional()
+  @IsEnum(FeeCrystallizationFrequency)
+  crystallizationFrequency?: FeeCrystallizationFrequency;
+
+  @ApiPropertyOptional({ description: 'First day fees accrue (YYYY-MM-DD), defaults to today', example: '2025-01-01' })
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Whether fees accrue', default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class CrystallizeFundFeesDto {
+  @ApiPropertyOptional({ description: 'Crystallization date (YYYY-MM-DD), defaults to the last accrual date' })
+  @IsOptional()
+  @IsDateString()
+  date?: string;
+}
+
+export interface InvestorFeeSummary {
+  holdingId: string;
+  accountId: string;
+  investorName: string;
+  units: number;
+  highWaterMark: number;
+  highWaterMarkDate: string;
+  /** High-water mark grown by the hurdle up to the last accrual date */
+  hurdleNavPerUnit: number;
+  /** Share of the fund's accrued management fee, by units */
+  accruedManagementFee: number;
+  accruedPerformanceFee: number;
+  crystallizedPerformanceFee: number;
+}
+
+export interface FundFeeSummary {
+  portfolioId: string;
+  managementFeeRate: number;
+  performanceFeeRate: number;
+  hurdleRate: number;
+  crystallizationFrequency: FeeCrystallizationFrequency | null;
+  isActive: boolean;
+  effectiveFrom: string | null;
+  lastAccrualDate: string | null;
+  accruedManagementFee: number;
+  accruedPerformanceFee: number;
+  crystallizedManagementFee: number;
+  crystallizedPerformanceFee: number;
+  investors: InvestorFeeSummary[];
+  crystallizations: FundFeeCrystallization[];
+}
@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNumber, IsOptional, IsEnum, IsString, IsNotEmpty, IsInt, Matches, Min, Max } from 'class-validator';
+import { FundOrderType } from '../entities/fund-order.entity';
+import { DealingFrequency } from '../enums/dealing-frequency.enum';
+
+export class CreateFundOrderDto {
+  @ApiProperty({ enum: FundOrderType, example: FundOrderType.SUBSCRIPTION })
+  @IsEnum(FundOrderType)
+  orderType: FundOrderType;
+
+  @ApiPropertyOptional({ description: 'Amount to invest, required for subscriptions', example: 10000000 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  amount?: number;
+
+  @ApiPropertyOptional({ description: 'Units to redeem, required for redemptions', example: 100.5 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  units?: number;
+
+  @ApiPropertyOptional({ description: 'Note for the fund manager' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class RejectFundOrderDto {
+  @ApiProperty({ description: 'Reason shown to the investor', example: 'Subscription limit reached' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class UpdateDealingCalendarDto {
+  @ApiProperty({ enum: DealingFrequency, example: DealingFrequency.WEEKLY })
+  @IsEnum(DealingFrequency)
+  frequency: DealingFrequency;
+
+  @ApiPropertyOptional({
+    description: 'Weekday for weekly dealing (1 = Monday ... 5 = Friday) or day of month for monthly dealing (month end when empty)',
+    example: 5,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  dealingDay?: number | null;
+
+  @ApiProperty({ description: 'Cut-off time (HH:mm) in the fund timezone', example: '15:00' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'cutOffTime must be in HH:mm format' })
+  cutOffTime: string;
+}
+
+export interface DealingCalendarResponse {
+  frequency: DealingFrequency;
+  dealingDay: number | null;
+  cutOffTime: string;
+  timezone: string;
+  /** Dealing day of an order placed now */
+  nextDealingDate: string;
+}
@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Matches, MaxLength } from 'class-validator';
+import { ClosedNavValue, ClosedSnapshotValue, PeriodCloseStatus } from '../entities/period-close.entity';
+import { FinancialAuditLog } from '../entities/financial-audit-log.entity';
+import { InvestorUnitsChange } from '../utils/period-close.util';
+
+export class ClosePeriodDto {
+  @ApiProperty({ description: 'Last day of the period to close (YYYY-MM-DD)', example: '2024-12-31' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'periodEnd must be in YYYY-MM-DD format' })
+  periodEnd: string;
+}
+
+export class ReopenPeriodDto {
+  @ApiProperty({ description: 'Why the closed period is reopened', example: 'Correcting a backdated December trade' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export interface PeriodCloseResponse {
+  periodCloseId: string;
+  portfolioId: string;
+  periodEnd: string;
+  previousPeriodEnd: string | null;
+  status: PeriodCloseStatus;
+  closedBy: string | null;
+  closedAt: Date;
+  reopenedBy: string | null;
+  reopenedAt: Date | null;
+  reopenReason: string | null;
+  snapshotCount: number;
+  investorCount: number;
+}
+
+/**
+ * What changed in a reopened period since it was reopened, and which of its reported figures that affects
+ */
+export interface PeriodReopenImpact {
+  periodCloseId: string;
+  periodEnd: string;
+  reopenedAt: Date;
+  /**
+   * Audited changes to records dated inside the period, made since it was reopened
+   */
+  changes: FinancialAuditLog[];
+  /**
+   * Earliest record date inside the period touched by a change; snapshots from it onwards are recalculated
+   */
+  earliestChangedDate: string | null;
+  /**
+   * Portfolio snapshots of the period as closed that the changes would recalculate
+   */
+  snapshots: ClosedSnapshotValue[];
+  /**
+   * Fund NAV of the period as closed that the changes would restate
+   */
+  navSnapshots: ClosedNavValue[];
+  /**
+   * Stored snapshots after the period, which are computed on top of it
+   */
+  laterSnapshotCount: number;
+  /**
+   * Investors whose units at the end of the period differ from the close
+   */
+  investorUnits: InvestorUnitsChange[];
+}
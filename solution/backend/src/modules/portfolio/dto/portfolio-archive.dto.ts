@@ -0,0 +1,178 @@
+import { IsObject, IsOptional, IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AssetType } from '../../asset/enums/asset-type.enum';
+import { PriceMode } from '../../asset/enums/price-mode.enum';
+import { TradeSide, TradeType } from '../../trading/entities/trade.entity';
+import { CashFlowType, CashFlowStatus } from '../entities/cash-flow.entity';
+
+/** Identifies files produced by the portfolio export endpoint */
+export const PORTFOLIO_ARCHIVE_FORMAT = 'mmotion-portfolio-archive';
+
+/**
+ * Current archive schema version.
+ * Bump when a breaking change is made to the archive layout and keep
+ * the importer able to read older versions.
+ */
+export const PORTFOLIO_ARCHIVE_VERSION = 1;
+
+/**
+ * Asset definition referenced by the archived portfolio.
+ * Assets are re-linked by symbol on import, the archived ID is only used
+ * to resolve references inside the archive.
+ */
+export interface ArchivedAsset {
+  id: string;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  priceMode: PriceMode;
+  /** Trading currency, absent in archives exported before multi-currency support */
+  currency?: string;
+  description?: string | null;
+}
+
+export interface ArchivedPortfolio {
+  portfolioId: string;
+  name: string;
+  baseCurrency: string;
+  fundingSource?: string | null;
+  broker?: string | null;
+  description?: string | null;
+  createdAt: string;
+}
+
+export interface ArchivedTrade {
+  tradeId: string;
+  assetId: string;
+  tradeDate: string;
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  fee: number;
+  tax: number;
+  tradeType: TradeType;
+  source?: string | null;
+  exchange?: string | null;
+  fundingSource?: string | null;
+  notes?: string | null;
+  fxRate?: number | null;
+}
+
+export interface ArchivedTradeDetail {
+  sellTradeId: string;
+  buyTradeId: string;
+  assetId: string;
+  matchedQty: number;
+  buyPrice: number;
+  sellPrice: number;
+  feeTax: number;
+  pnl: number;
+}
+
+export interface ArchivedCashFlow {
+  type: CashFlowType;
+  amount: number;
+  /** Tax withheld at source, absent in archives exported before tax rules support */
+  taxWithheld?: number;
+  currency: string;
+  description?: string | null;
+  reference?: string | null;
+  status: CashFlowStatus;
+  flowDate: string;
+  effectiveDate?: string | null;
+  tradeId?: string | null;
+  fundingSource?: string | null;
+}
+
+export interface ArchivedDeposit {
+  depositId: string;
+  bankName: string;
+  accountNumber?: string | null;
+  principal: number;
+  interestRate: number;
+  startDate: string;
+  endDate: string;
+  termMonths?: number | null;
+  status: 'ACTIVE' | 'SETTLED';
+  actualInterest?: number | null;
+  notes?: string | null;
+  settledAt?: string | null;
+}
+
+export interface ArchivedNote {
+  assetId?: string | null;
+  noteDate: string;
+  content: string;
+}
+
+export interface ArchivedAssetTarget {
+  assetId: string;
+  stopLoss?: number | null;
+  takeProfit?: number | null;
+  isActive: boolean;
+}
+
+/**
+ * Versioned, self-contained snapshot of a single portfolio.
+ * IDs inside the archive are the source database IDs and are remapped on import.
+ */
+export interface PortfolioArchive {
+  format: typeof PORTFOLIO_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  portfolio: ArchivedPortfolio;
+  assets: ArchivedAsset[];
+  trades: ArchivedTrade[];
+  tradeDetails: ArchivedTradeDetail[];
+  cashFlows: ArchivedCashFlow[];
+  deposits: ArchivedDeposit[];
+  notes: ArchivedNote[];
+  assetTargets: ArchivedAssetTarget[];
+}
+
+/**
+ * DTO for importing a portfolio archive into an account
+ */
+export class ImportPortfolioArchiveDto {
+  /**
+   * Archive produced by the export endpoint
+   */
+  @ApiProperty({
+    description: 'Archive produced by GET /api/v1/portfolios/:id/export',
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsObject()
+  archive: PortfolioArchive;
+
+  /**
+   * Optional name for the new portfolio, defaults to the archived name
+   */
+  @ApiPropertyOptional({
+    description: 'Name for the new portfolio (defaults to the archived portfolio name)',
+    example: 'Growth Portfolio (restored)',
+    maxLength: 255,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name?: string;
+}
+
+export interface PortfolioArchiveImportResult {
+  portfolioId: string;
+  name: string;
+  counts: {
+    trades: number;
+    tradeDetails: number;
+    cashFlows: number;
+    deposits: number;
+    notes: number;
+    assetTargets: number;
+  };
+  assets: {
+    linked: string[];
+    created: string[];
+  };
+}
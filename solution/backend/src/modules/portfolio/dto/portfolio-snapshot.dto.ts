@@ -624,6 +624,9 @@ export class PortfolioSnapshotResponseDto {
   @ApiProperty({ description: 'Is active', example: true })
   isActive: boolean;
 
+  @ApiProperty({ description: 'Whether the snapshot date is a trading day of the portfolio market', example: true })
+  isTradingDay: boolean;
+
   @ApiProperty({ description: 'Created by', example: 'test' })
   createdBy: string;
 
@@ -32,6 +32,14 @@ export class UpdatePortfolioDto extends PartialType(CreatePortfolioDto) {
   @Transform(({ value }) => typeof value === 'string' ? value.trim() : value)
   fundingSource?: string;
 
+  /**
+   * Updated broker code for default trade fees.
+   */
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => typeof value === 'string' ? value.trim().toUpperCase() : value)
+  broker?: string;
+
   /**
    * Updated portfolio visibility setting.
    */
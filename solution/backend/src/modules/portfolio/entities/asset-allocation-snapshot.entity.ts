@@ -103,6 +103,10 @@ export class AssetAllocationSnapshot {
   @Column({ name: 'is_active', type: 'boolean', default: true })
   isActive: boolean;
 
+  // False for weekend and holiday snapshots, which carry the previous close and are left out of return series
+  @Column({ name: 'is_trading_day', type: 'boolean', default: true })
+  isTradingDay: boolean;
+
   @Column({ name: 'created_by', type: 'varchar', length: 100, nullable: true })
   createdBy: string;
 
@@ -37,7 +37,7 @@ export class BenchmarkData {
   benchmarkType: string; // 'INDEX', 'ETF', 'CUSTOM'
 
   @Column({ name: 'snapshot_date', type: 'date' })
-  snapshotDate: Date;
+  snapshotDate: string; // YYYY-MM-DD
 
   @Column({ name: 'granularity', type: 'varchar', length: 20, default: 'DAILY' })
   granularity: string;
@@ -183,7 +183,7 @@ export class BenchmarkData {
    * Get display name for the benchmark
    */
   getDisplayName(): string {
-    return `${this.benchmarkName} (${this.benchmarkType}) - ${this.snapshotDate.toISOString().split('T')[0]}`;
+    return `${this.benchmarkName} (${this.benchmarkType}) - ${this.snapshotDate}`;
   }
 
   /**
@@ -0,0 +1,80 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BenchmarkSource } from '../enums/benchmark-source.enum';
+
+/**
+ * One leg of a custom blended benchmark.
+ * A leg either follows another benchmark or accrues a fixed annual rate (e.g., a deposit rate).
+ */
+export interface BenchmarkComponent {
+  benchmarkId?: string;
+  annualRate?: number; // % per year, accrued daily on calendar days
+  weight: number; // fraction of the blend, weights sum to 1
+}
+
+/**
+ * Benchmark Entity
+ *
+ * Definition of a benchmark whose daily levels are stored in benchmark_data.
+ * Built-in benchmarks (VN-Index, VN30, HNX-Index, SJC gold, USD/VND) are shared;
+ * custom blended benchmarks belong to the account that created them.
+ */
+@Entity('benchmarks')
+@Index(['accountId'])
+export class Benchmark {
+  @ApiProperty({ description: 'Benchmark ID' })
+  @PrimaryGeneratedColumn('uuid', { name: 'benchmark_id' })
+  benchmarkId: string;
+
+  @ApiProperty({ description: 'Unique benchmark code', example: 'VNINDEX' })
+  @Column({ type: 'varchar', length: 50, unique: true })
+  code: string;
+
+  @ApiProperty({ description: 'Display name', example: 'VN-Index' })
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @ApiProperty({ description: 'Benchmark type stored on benchmark_data', example: 'INDEX' })
+  @Column({ type: 'varchar', length: 50, name: 'benchmark_type' })
+  benchmarkType: string; // 'INDEX', 'COMMODITY', 'FX', 'CUSTOM'
+
+  @ApiProperty({ description: 'Where daily levels come from', enum: BenchmarkSource })
+  @Column({ type: 'varchar', length: 20 })
+  source: BenchmarkSource;
+
+  @ApiPropertyOptional({ description: 'Symbol passed to the historical data client', example: 'VNINDEX' })
+  @Column({ type: 'varchar', length: 50, name: 'source_symbol', nullable: true })
+  sourceSymbol: string | null;
+
+  @ApiPropertyOptional({ description: 'Legs of a custom blended benchmark' })
+  @Column({ type: 'jsonb', nullable: true })
+  components: BenchmarkComponent[] | null;
+
+  @ApiPropertyOptional({ description: 'Owner account of a custom benchmark (null for built-in)' })
+  @Column({ type: 'uuid', name: 'account_id', nullable: true })
+  accountId: string | null;
+
+  @ApiProperty({ description: 'Whether the benchmark is active' })
+  @Column({ type: 'boolean', name: 'is_active', default: true })
+  isActive: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  /**
+   * Check if benchmark is a custom blend
+   */
+  get isCustom(): boolean {
+    return this.source === BenchmarkSource.CUSTOM;
+  }
+}
@@ -73,6 +73,9 @@ export class CashFlow {
   @Column({ type: 'varchar', length: 100, nullable: true, name: 'funding_source' })
   fundingSource?: string;
 
+  @Column({ type: 'decimal', precision: 20, scale: 8, default: 0, name: 'tax_withheld' })
+  taxWithheld: number; // Tax withheld at source on dividends and interest; amount is the net credited
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
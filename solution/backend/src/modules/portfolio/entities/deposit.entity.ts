@@ -128,11 +128,12 @@ export class Deposit {
   }
 
   /**
-   * Check if deposit has matured (current date >= end date)
+   * Check if deposit has matured (current date >= maturity date)
+   * @param maturityDate End date rolled forward to a business day; defaults to the end date
    */
-  isMatured(): boolean {
+  isMatured(maturityDate?: Date | string): boolean {
     const currentDate = new Date();
-    const endDate = new Date(this.endDate);
+    const endDate = new Date(maturityDate ?? this.endDate);
     return currentDate >= endDate;
   }
 
@@ -152,10 +153,11 @@ export class Deposit {
 
   /**
    * Get days until maturity (negative if already matured)
+   * @param maturityDate End date rolled forward to a business day; defaults to the end date
    */
-  getDaysUntilMaturity(): number {
+  getDaysUntilMaturity(maturityDate?: Date | string): number {
     const currentDate = new Date();
-    const endDate = new Date(this.endDate);
+    const endDate = new Date(maturityDate ?? this.endDate);
     const timeDiff = endDate.getTime() - currentDate.getTime();
     return Math.ceil(timeDiff / (1000 * 3600 * 24));
   }
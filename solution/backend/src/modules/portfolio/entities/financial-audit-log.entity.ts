@@ -0,0 +1,84 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum AuditEntityType {
+  TRADE = 'TRADE',
+  CASH_FLOW = 'CASH_FLOW',
+  DEPOSIT = 'DEPOSIT',
+  FUND_UNIT_TRANSACTION = 'FUND_UNIT_TRANSACTION',
+  PORTFOLIO_LOCK = 'PORTFOLIO_LOCK',
+}
+
+export enum AuditAction {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+}
+
+/**
+ * Field-level change of an audited record
+ */
+export interface AuditFieldChange {
+  from: any;
+  to: any;
+}
+
+/**
+ * Append-only record of a change to a financial record of a portfolio.
+ * Rows are never updated or deleted (a database trigger rejects it), and there is no
+ * foreign key to the portfolio so the history outlives the records it describes.
+ */
+@Entity('financial_audit_logs')
+@Index(['portfolioId', 'createdAt'])
+@Index(['entityType', 'entityId'])
+export class FinancialAuditLog {
+  @PrimaryGeneratedColumn('uuid', { name: 'audit_id' })
+  auditId: string;
+
+  @Column('uuid', { name: 'portfolio_id' })
+  portfolioId: string;
+
+  @Column({ type: 'varchar', length: 30, name: 'entity_type' })
+  entityType: AuditEntityType;
+
+  @Column('uuid', { name: 'entity_id' })
+  entityId: string;
+
+  @Column({ type: 'varchar', length: 10, name: 'action' })
+  action: AuditAction;
+
+  /**
+   * Account that made the change; null for changes made by the system
+   */
+  @Column('uuid', { nullable: true, name: 'actor_account_id' })
+  actorAccountId?: string | null;
+
+  @Column({ type: 'text', nullable: true, name: 'reason' })
+  reason?: string | null;
+
+  /**
+   * Record before the change; null for creations
+   */
+  @Column({ type: 'jsonb', nullable: true, name: 'before' })
+  before?: Record<string, any> | null;
+
+  /**
+   * Record after the change; null for deletions
+   */
+  @Column({ type: 'jsonb', nullable: true, name: 'after' })
+  after?: Record<string, any> | null;
+
+  /**
+   * Changed fields with their old and new values
+   */
+  @Column({ type: 'jsonb', name: 'changes' })
+  changes: Record<string, AuditFieldChange>;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
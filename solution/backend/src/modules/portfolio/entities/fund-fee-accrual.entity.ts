@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Portfolio } from './portfolio.entity';
+import { FundFeeCrystallization } from './fund-fee-crystallization.entity';
+
+export enum FundFeeType {
+  MANAGEMENT = 'MANAGEMENT',
+  PERFORMANCE = 'PERFORMANCE',
+}
+
+/**
+ * Daily fee accrual of a fund.
+ * Management accruals belong to the fund; performance accruals belong to one investor holding and
+ * record the change of that investor's outstanding performance fee, so they can be negative.
+ * Accruals without a crystallization are a liability that reduces NAV.
+ */
+@Entity('fund_fee_accruals')
+@Index(['portfolioId', 'accrualDate'])
+@Index(['holdingId'])
+@Index(['crystallizationId'])
+export class FundFeeAccrual {
+  @PrimaryGeneratedColumn('uuid', { name: 'accrual_id' })
+  accrualId: string;
+
+  @Column('uuid', { name: 'portfolio_id' })
+  portfolioId: string;
+
+  @Column('uuid', { nullable: true, name: 'holding_id' })
+  holdingId?: string | null;
+
+  @Column({ type: 'enum', enum: FundFeeType, enumName: 'fund_fee_type_enum', name: 'fee_type' })
+  feeType: FundFeeType;
+
+  @Column({ type: 'date', name: 'accrual_date' })
+  accrualDate: string;
+
+  @Column('decimal', { precision: 20, scale: 3, name: 'amount' })
+  amount: number;
+
+  /**
+   * NAV per unit the fee was calculated on
+   */
+  @Column('decimal', { precision: 20, scale: 3, name: 'nav_per_unit' })
+  navPerUnit: number;
+
+  @Column('uuid', { nullable: true, name: 'crystallization_id' })
+  crystallizationId?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Portfolio, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'portfolio_id' })
+  portfolio: Portfolio;
+
+  @ManyToOne(() => FundFeeCrystallization, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'crystallization_id' })
+  crystallization?: FundFeeCrystallization;
+}
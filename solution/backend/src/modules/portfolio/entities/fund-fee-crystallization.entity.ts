@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Portfolio } from './portfolio.entity';
+import { FundFeeType } from './fund-fee-accrual.entity';
+
+export enum FeeCrystallizationReason {
+  PERIOD_END = 'PERIOD_END',
+  REDEMPTION = 'REDEMPTION',
+}
+
+/**
+ * Fee paid out of a fund, booked as a FEE cash flow.
+ */
+@Entity('fund_fee_crystallizations')
+@Index(['portfolioId', 'crystallizationDate'])
+@Index(['holdingId'])
+export class FundFeeCrystallization {
+  @PrimaryGeneratedColumn('uuid', { name: 'crystallization_id' })
+  crystallizationId: string;
+
+  @Column('uuid', { name: 'portfolio_id' })
+  portfolioId: string;
+
+  @Column('uuid', { nullable: true, name: 'holding_id' })
+  holdingId?: string | null;
+
+  @Column({ type: 'enum', enum: FundFeeType, enumName: 'fund_fee_type_enum', name: 'fee_type' })
+  feeType: FundFeeType;
+
+  @Column({ type: 'enum', enum: FeeCrystallizationReason, name: 'reason' })
+  reason: FeeCrystallizationReason;
+
+  @Column({ type: 'date', name: 'crystallization_date' })
+  crystallizationDate: string;
+
+  @Column('decimal', { precision: 20, scale: 3, name: 'amount' })
+  amount: number;
+
+  /**
+   * Units redeemed, for crystallizations on redemption
+   */
+  @Column('decimal', { precision: 20, scale: 3, nullable: true, name: 'units' })
+  units?: number | null;
+
+  /**
+   * High-water mark of the holding after a performance fee was paid
+   */
+  @Column('decimal', { precision: 20, scale: 3, nullable: true, name: 'high_water_mark' })
+  highWaterMark?: number | null;
+
+  @Column('uuid', { nullable: true, name: 'cash_flow_id' })
+  cashFlowId?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Portfolio, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'portfolio_id' })
+  portfolio: Portfolio;
+}
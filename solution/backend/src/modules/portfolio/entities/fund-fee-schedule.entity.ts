@@ -0,0 +1,80 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  OneToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  JoinColumn,
+} from 'typeorm';
+import { Portfolio } from './portfolio.entity';
+
+export enum FeeCrystallizationFrequency {
+  MONTHLY = 'MONTHLY',
+  QUARTERLY = 'QUARTERLY',
+  ANNUALLY = 'ANNUALLY',
+}
+
+/**
+ * Fee schedule of a fund portfolio.
+ * The management fee accrues daily against NAV; the performance fee accrues on each investor's
+ * gain above their high-water mark grown by the hurdle rate. Both crystallize at period end,
+ * and the performance fee of redeemed units crystallizes on redemption.
+ */
+@Entity('fund_fee_schedules')
+export class FundFeeSchedule {
+  @PrimaryGeneratedColumn('uuid', { name: 'fee_schedule_id' })
+  feeScheduleId: string;
+
+  @Column('uuid', { name: 'portfolio_id', unique: true })
+  portfolioId: string;
+
+  /**
+   * Annual management fee, percent of NAV
+   */
+  @Column('decimal', { precision: 8, scale: 4, default: 0, name: 'management_fee_rate' })
+  managementFeeRate: number;
+
+  /**
+   * Performance fee, percent of the gain above the hurdle
+   */
+  @Column('decimal', { precision: 8, scale: 4, default: 0, name: 'performance_fee_rate' })
+  performanceFeeRate: number;
+
+  /**
+   * Annual hurdle rate, percent; the high-water mark grows by it before a performance fee is due
+   */
+  @Column('decimal', { precision: 8, scale: 4, default: 0, name: 'hurdle_rate' })
+  hurdleRate: number;
+
+  @Column({
+    type: 'enum',
+    enum: FeeCrystallizationFrequency,
+    default: FeeCrystallizationFrequency.ANNUALLY,
+    name: 'crystallization_frequency',
+  })
+  crystallizationFrequency: FeeCrystallizationFrequency;
+
+  /**
+   * First day fees accrue
+   */
+  @Column({ type: 'date', name: 'effective_from' })
+  effectiveFrom: string;
+
+  @Column({ type: 'date', nullable: true, name: 'last_accrual_date' })
+  lastAccrualDate?: string | null;
+
+  @Column({ type: 'boolean', default: true, name: 'is_active' })
+  isActive: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // Relationships
+  @OneToOne(() => Portfolio, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'portfolio_id' })
+  portfolio: Portfolio;
+}
@@ -0,0 +1,111 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Portfolio } from './portfolio.entity';
+import { Account } from '../../shared/entities/account.entity';
+
+export enum FundOrderType {
+  SUBSCRIPTION = 'SUBSCRIPTION',
+  REDEMPTION = 'REDEMPTION',
+}
+
+export enum FundOrderStatus {
+  PENDING = 'PENDING',
+  PRICED = 'PRICED',
+  /** Approved and being executed; only one approval can move an order out of PRICED */
+  SETTLING = 'SETTLING',
+  SETTLED = 'SETTLED',
+  REJECTED = 'REJECTED',
+}
+
+/**
+ * Subscription or redemption request of an investor.
+ * An order waits for the cut-off of its dealing day, is priced at that day's NAV per unit,
+ * and is executed when the fund manager approves it.
+ */
+@Entity('fund_orders')
+@Index(['portfolioId', 'status'])
+@Index(['accountId'])
+export class FundOrder {
+  @PrimaryGeneratedColumn('uuid', { name: 'order_id' })
+  orderId: string;
+
+  @Column('uuid', { name: 'portfolio_id' })
+  portfolioId: string;
+
+  @Column('uuid', { name: 'account_id' })
+  accountId: string;
+
+  @Column({ type: 'enum', enum: FundOrderType, name: 'order_type' })
+  orderType: FundOrderType;
+
+  @Column({ type: 'enum', enum: FundOrderStatus, default: FundOrderStatus.PENDING, name: 'status' })
+  status: FundOrderStatus;
+
+  /**
+   * Amount to invest for subscriptions; amount paid out once a redemption is priced
+   */
+  @Column('decimal', { precision: 20, scale: 3, nullable: true, name: 'amount' })
+  amount?: number | null;
+
+  /**
+   * Units to redeem for redemptions; units issued once a subscription is priced
+   */
+  @Column('decimal', { precision: 20, scale: 3, nullable: true, name: 'units' })
+  units?: number | null;
+
+  /**
+   * Dealing day the order is priced on
+   */
+  @Column({ type: 'date', name: 'dealing_date' })
+  dealingDate: string;
+
+  @Column('decimal', { precision: 20, scale: 3, nullable: true, name: 'nav_per_unit' })
+  navPerUnit?: number | null;
+
+  @Column({ type: 'text', nullable: true, name: 'description' })
+  description?: string | null;
+
+  @Column({ type: 'text', nullable: true, name: 'rejection_reason' })
+  rejectionReason?: string | null;
+
+  /**
+   * Account that approved or rejected the order
+   */
+  @Column('uuid', { nullable: true, name: 'reviewed_by' })
+  reviewedBy?: string | null;
+
+  /**
+   * Fund unit transaction created on settlement
+   */
+  @Column('uuid', { nullable: true, name: 'transaction_id' })
+  transactionId?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true, name: 'priced_at' })
+  pricedAt?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true, name: 'settled_at' })
+  settledAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Portfolio, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'portfolio_id' })
+  portfolio: Portfolio;
+
+  @ManyToOne(() => Account, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'account_id' })
+  account: Account;
+}
@@ -77,6 +77,18 @@ export class InvestorHolding {
   @Column({ name: 'realized_pnl', type: 'decimal', precision: 20, scale: 3, default: 0 })
   realizedPnL: number;
 
+  /**
+   * NAV per unit above which a performance fee is due (before the hurdle); null until first set
+   */
+  @Column({ name: 'high_water_mark', type: 'decimal', precision: 20, scale: 3, nullable: true })
+  highWaterMark?: number | null;
+
+  /**
+   * Date the high-water mark was set, from which the hurdle accrues
+   */
+  @Column({ name: 'high_water_mark_date', type: 'date', nullable: true })
+  highWaterMarkDate?: string | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -0,0 +1,112 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Portfolio } from './portfolio.entity';
+
+export enum PeriodCloseStatus {
+  CLOSED = 'CLOSED',
+  REOPENED = 'REOPENED',
+}
+
+/**
+ * Stored portfolio snapshot of a closed period, as it was when the period was closed
+ */
+export interface ClosedSnapshotValue {
+  snapshotDate: string;
+  granularity: string;
+  totalPortfolioValue: number;
+  navPerUnit: number;
+  totalOutstandingUnits: number;
+}
+
+/**
+ * Fund NAV of a day of a closed period, as it was when the period was closed
+ */
+export interface ClosedNavValue {
+  navDate: string;
+  navValue: number;
+  navPerUnit: number;
+  totalOutstandingUnits: number;
+}
+
+/**
+ * Units an investor held at the end of a closed period
+ */
+export interface ClosedInvestorUnits {
+  holdingId: string;
+  accountId: string;
+  units: number;
+}
+
+export interface PeriodClosingBalances {
+  snapshots: ClosedSnapshotValue[];
+  navSnapshots: ClosedNavValue[];
+  investorUnits: ClosedInvestorUnits[];
+}
+
+/**
+ * Accounting period of a portfolio closed through a day (e.g. month-end).
+ * Closing moves the portfolio's locked period to periodEnd and keeps the reported figures of the period,
+ * so that once it is reopened the figures can be compared with what corrections change.
+ */
+@Entity('period_closes')
+@Index(['portfolioId', 'periodEnd'])
+export class PeriodClose {
+  @PrimaryGeneratedColumn('uuid', { name: 'period_close_id' })
+  periodCloseId: string;
+
+  @Column('uuid', { name: 'portfolio_id' })
+  portfolioId: string;
+
+  /**
+   * Last day of the period
+   */
+  @Column({ type: 'date', name: 'period_end' })
+  periodEnd: string;
+
+  /**
+   * Locked-through date before the period was closed; the period starts the day after,
+   * and reopening moves the lock back to it
+   */
+  @Column({ type: 'date', nullable: true, name: 'previous_period_end' })
+  previousPeriodEnd?: string | null;
+
+  @Column({ type: 'enum', enum: PeriodCloseStatus, default: PeriodCloseStatus.CLOSED, name: 'status' })
+  status: PeriodCloseStatus;
+
+  @Column({ type: 'jsonb', name: 'closing_balances' })
+  closingBalances: PeriodClosingBalances;
+
+  @Column('uuid', { nullable: true, name: 'closed_by' })
+  closedBy?: string | null;
+
+  @Column({ type: 'timestamp', name: 'closed_at' })
+  closedAt: Date;
+
+  @Column('uuid', { nullable: true, name: 'reopened_by' })
+  reopenedBy?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true, name: 'reopened_at' })
+  reopenedAt?: Date | null;
+
+  @Column({ type: 'text', nullable: true, name: 'reopen_reason' })
+  reopenReason?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Portfolio, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'portfolio_id' })
+  portfolio: Portfolio;
+}
@@ -17,6 +17,8 @@ import { Deposit } from './deposit.entity';
 import { InvestorHolding } from './investor-holding.entity';
 import { PortfolioPermission } from './portfolio-permission.entity';
 import { Note } from '../../notes/entities/note.entity';
+import { CostBasisMethod } from '../enums/cost-basis-method.enum';
+import { DealingFrequency } from '../enums/dealing-frequency.enum';
 
 /**
  * Portfolio entity representing investment portfolios.
@@ -55,6 +57,18 @@ export class Portfolio {
   @Column({ type: 'varchar', length: 100, nullable: true, name: 'funding_source' })
   fundingSource?: string;
 
+  /**
+   * Broker code used for default trade fees (see taxRules in nations.json)
+   */
+  @Column({ type: 'varchar', length: 50, nullable: true, name: 'broker' })
+  broker?: string;
+
+  /**
+   * How sells are matched to buy lots
+   */
+  @Column({ type: 'varchar', length: 20, default: CostBasisMethod.FIFO, name: 'cost_basis_method' })
+  costBasisMethod: CostBasisMethod;
+
   /**
    * Current total value of the portfolio in base currency.
    */
@@ -167,6 +181,33 @@ export class Portfolio {
   @Column({ type: 'timestamp', nullable: true, name: 'last_nav_date' })
   lastNavDate: Date;
 
+  /**
+   * How often the fund deals subscription and redemption orders
+   */
+  @Column({ type: 'varchar', length: 10, default: DealingFrequency.DAILY, name: 'dealing_frequency' })
+  dealingFrequency: DealingFrequency;
+
+  /**
+   * Dealing weekday for weekly dealing (1 = Monday ... 5 = Friday) or day of month for monthly dealing
+   */
+  @Column({ type: 'integer', nullable: true, name: 'dealing_day' })
+  dealingDay?: number | null;
+
+  /**
+   * Local time (HH:mm) on a dealing day after which new orders go to the next dealing day
+   */
+  @Column({ type: 'varchar', length: 5, default: '15:00', name: 'dealing_cut_off_time' })
+  dealingCutOffTime: string;
+
+  // ===== AUDIT FIELDS =====
+
+  /**
+   * Last day of the locked period; trades, cash flows, deposits and fund unit transactions
+   * dated on or before it can no longer be created, edited or deleted
+   */
+  @Column({ type: 'date', nullable: true, name: 'locked_through_date' })
+  lockedThroughDate?: string | null;
+
   // ===== VISIBILITY FIELDS =====
   
   /**
@@ -0,0 +1,27 @@
+/**
+ * BenchmarkSource Enum
+ *
+ * Defines where the daily levels of a benchmark come from.
+ */
+export enum BenchmarkSource {
+  /**
+   * Index levels fetched from the stock historical client (CAFEF, FMarket fallback)
+   */
+  STOCK_INDEX = 'STOCK_INDEX',
+
+  /**
+   * Gold prices fetched from the gold historical client (CAFEF)
+   */
+  GOLD = 'GOLD',
+
+  /**
+   * Exchange rates taken from the stored fx_rates history
+   */
+  FX_RATE = 'FX_RATE',
+
+  /**
+   * Blend of other benchmarks and fixed-rate legs (e.g., 60% VN30 + 40% deposit rate).
+   * Levels are derived from the component series and are not stored.
+   */
+  CUSTOM = 'CUSTOM',
+}
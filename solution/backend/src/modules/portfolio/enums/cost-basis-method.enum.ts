@@ -0,0 +1,10 @@
+/**
+ * How sells are matched to buy lots when realizing P&L
+ */
+export enum CostBasisMethod {
+  FIFO = 'FIFO',
+  LIFO = 'LIFO',
+  AVERAGE_COST = 'AVERAGE_COST',
+  HIGHEST_COST = 'HIGHEST_COST',
+  SPECIFIC_LOT = 'SPECIFIC_LOT',
+}
@@ -0,0 +1,8 @@
+/**
+ * How often a fund deals, i.e. prices and executes subscription and redemption orders
+ */
+export enum DealingFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+}
@@ -19,11 +19,10 @@ import { MWRIRRCalculationService } from './services/mwr-irr-calculation.service
 import { AlphaBetaCalculationService } from './services/alpha-beta-calculation.service';
 import { RiskMetricsCalculationService } from './services/risk-metrics-calculation.service';
 import { CashFlowService } from './services/cash-flow.service';
-import { BenchmarkMockService } from './services/benchmark-mock.service';
 import { PortfolioSnapshotController } from './controllers/portfolio-snapshot.controller';
-import { BenchmarkMockController } from './controllers/benchmark-mock.controller';
 import { SnapshotController } from './controllers/snapshot.controller';
 import { SnapshotModule } from './snapshot.module';
+import { BenchmarkModule } from './benchmark.module';
 import { SharedModule } from '../shared/shared.module';
 import { AssetModule } from '../asset/asset.module';
 import { PortfolioModule } from './portfolio.module';
@@ -50,6 +49,7 @@ import { HttpModule } from '@nestjs/axios';
     SharedModule,
     AssetModule,
     MarketDataModule,
+    BenchmarkModule,
     HttpModule,
   ],
   providers: [
@@ -62,10 +62,9 @@ import { HttpModule } from '@nestjs/axios';
     AlphaBetaCalculationService,
     RiskMetricsCalculationService,
     CashFlowService,
-    BenchmarkMockService,
     MarketDataService,
   ],
-  controllers: [PortfolioSnapshotController, SnapshotController, BenchmarkMockController],
+  controllers: [PortfolioSnapshotController, SnapshotController],
   exports: [
     PortfolioSnapshotService,
     PortfolioSnapshotRepository,
@@ -16,12 +16,20 @@ import { BenchmarkData } from './entities/benchmark-data.entity';
 import { Deposit } from './entities/deposit.entity';
 import { InvestorHolding } from './entities/investor-holding.entity';
 import { FundUnitTransaction } from './entities/fund-unit-transaction.entity';
+import { FundFeeSchedule } from './entities/fund-fee-schedule.entity';
+import { FundFeeAccrual } from './entities/fund-fee-accrual.entity';
+import { FundFeeCrystallization } from './entities/fund-fee-crystallization.entity';
+import { FundOrder } from './entities/fund-order.entity';
+import { FinancialAuditLog } from './entities/financial-audit-log.entity';
+import { PeriodClose } from './entities/period-close.entity';
 import { Account } from '../shared/entities/account.entity';
 import { Asset } from '../asset/entities/asset.entity';
 import { GlobalAsset } from '../asset/entities/global-asset.entity';
 import { AssetPrice } from '../asset/entities/asset-price.entity';
 import { Trade } from '../trading/entities/trade.entity';
 import { TradeDetail } from '../trading/entities/trade-detail.entity';
+import { AssetTarget } from '../trading/entities/asset-target.entity';
+import { Note } from '../notes/entities/note.entity';
 import { PortfolioRepository } from './repositories/portfolio.repository';
 import { PortfolioService } from './services/portfolio.service';
 import { PortfolioAnalyticsService } from './services/portfolio-analytics.service';
@@ -31,9 +39,17 @@ import { PortfolioCalculationService } from './services/portfolio-calculation.se
 import { PortfolioValueCalculatorService } from './services/portfolio-value-calculator.service';
 import { CashFlowService } from './services/cash-flow.service';
 import { InvestorHoldingService } from './services/investor-holding.service';
+import { FundFeeService } from './services/fund-fee.service';
+import { FundFeeLiabilityService } from './services/fund-fee-liability.service';
+import { FundFeeCrystallizationService } from './services/fund-fee-crystallization.service';
+import { FundOrderService } from './services/fund-order.service';
+import { CapitalAccountService } from './services/capital-account.service';
+import { AuditTrailService } from './services/audit-trail.service';
+import { PeriodCloseService } from './services/period-close.service';
 import { NavUtilsService } from './services/nav-utils.service';
 import { SnapshotService } from './services/snapshot.service';
 import { PortfolioSnapshotService } from './services/portfolio-snapshot.service';
+import { PortfolioArchiveService } from './services/portfolio-archive.service';
 import { PerformanceSnapshotService } from './services/performance-snapshot.service';
 import { AutomatedSnapshotService } from './services/automated-snapshot.service';
 import { SnapshotTrackingService } from './services/snapshot-tracking.service';
@@ -49,6 +65,10 @@ import { PerformanceSnapshotController } from './controllers/performance-snapsho
 import { AutomatedSnapshotController } from './controllers/automated-snapshot.controller';
 import { SnapshotTrackingController } from './controllers/snapshot-tracking.controller';
 import { InvestorReportController } from './controllers/investor-report.controller';
+import { FundFeeController } from './controllers/fund-fee.controller';
+import { FundOrderController } from './controllers/fund-order.controller';
+import { AuditTrailController } from './controllers/audit-trail.controller';
+import { PeriodCloseController } from './controllers/period-close.controller';
 import { SnapshotTracking } from './entities/snapshot-tracking.entity';
 import { TradeRepository } from '../trading/repositories/trade.repository';
 import { SnapshotRepository } from './repositories/snapshot.repository';
@@ -58,7 +78,9 @@ import { MarketDataModule } from '../market-data/market-data.module';
 import { AssetModule } from '../asset/asset.module';
 import { DepositModule } from './deposit.module';
 import { PortfolioSnapshotModule } from './portfolio-snapshot.module';
+import { BenchmarkModule } from './benchmark.module';
 import { SharedModule } from '../shared/shared.module';
+import { NotificationModule } from '../../notification/notification.module';
 import { PermissionCheckService } from '../shared/services/permission-check.service';
 
 /**
@@ -81,6 +103,12 @@ import { PermissionCheckService } from '../shared/services/permission-check.serv
       Deposit,
       InvestorHolding,
       FundUnitTransaction,
+      FundFeeSchedule,
+      FundFeeAccrual,
+      FundFeeCrystallization,
+      FundOrder,
+      FinancialAuditLog,
+      PeriodClose,
       Account,
       Asset,
       GlobalAsset,
@@ -88,6 +116,8 @@ import { PermissionCheckService } from '../shared/services/permission-check.serv
       Trade,
       TradeDetail,
       SnapshotTracking,
+      Note,
+      AssetTarget,
     ]),
     // Import CacheModule conditionally
     ...(process.env.CACHE_ENABLED === 'true' ? [CacheModule.register({
@@ -99,7 +129,9 @@ import { PermissionCheckService } from '../shared/services/permission-check.serv
     AssetModule,
     DepositModule,
     PortfolioSnapshotModule,
+    BenchmarkModule,
     SharedModule,
+    NotificationModule,
   ],
   controllers: [
     PortfolioController,
@@ -110,6 +142,10 @@ import { PermissionCheckService } from '../shared/services/permission-check.serv
     AutomatedSnapshotController,
     SnapshotTrackingController,
     InvestorReportController,
+    FundFeeController,
+    FundOrderController,
+    AuditTrailController,
+    PeriodCloseController,
   ],
   providers: [
     PortfolioRepository,
@@ -122,9 +158,17 @@ import { PermissionCheckService } from '../shared/services/permission-check.serv
     PortfolioValueCalculatorService,
     CashFlowService,
     InvestorHoldingService,
+    FundFeeService,
+    FundFeeLiabilityService,
+    FundFeeCrystallizationService,
+    FundOrderService,
+    CapitalAccountService,
+    AuditTrailService,
+    PeriodCloseService,
     NavUtilsService,
     SnapshotService,
     PortfolioSnapshotService,
+    PortfolioArchiveService,
     PerformanceSnapshotService,
     AutomatedSnapshotService,
     SnapshotTrackingService,
@@ -157,6 +201,8 @@ import { PermissionCheckService } from '../shared/services/permission-check.serv
     PortfolioValueCalculatorService,
     CashFlowService,
     InvestorHoldingService,
+    FundFeeService,
+    AuditTrailService,
     PerformanceSnapshotService,
     AutomatedSnapshotService,
     SnapshotTrackingService,
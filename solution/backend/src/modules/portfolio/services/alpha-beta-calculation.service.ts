@@ -2,8 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
 import { PortfolioSnapshot } from '../entities/portfolio-snapshot.entity';
-import { BenchmarkData } from '../entities/benchmark-data.entity';
 import { SnapshotGranularity } from '../enums/snapshot-granularity.enum';
+import { BenchmarkService } from './benchmark.service';
 
 export interface AlphaBetaCalculationResult {
   alpha1M: number;
@@ -39,10 +39,8 @@ export class AlphaBetaCalculationService {
     @InjectRepository(PortfolioSnapshot)
     private readonly portfolioSnapshotRepo: Repository<PortfolioSnapshot>,
     
-    @InjectRepository(BenchmarkData)
-    private readonly benchmarkDataRepo: Repository<BenchmarkData>,
-    
     private readonly dataSource: DataSource,
+    private readonly benchmarkService: BenchmarkService,
   ) {}
 
   /**
@@ -156,7 +154,7 @@ export class AlphaBetaCalculationService {
     const portfolioReturns = await this.getPortfolioReturnsForPeriod(portfolioId, startDate, snapshotDate, granularity);
     
     // Get benchmark returns
-    const benchmarkReturns = await this.getBenchmarkReturnsForPeriod(benchmarkId, startDate, snapshotDate, granularity);
+    const benchmarkReturns = await this.getBenchmarkReturnsForPeriod(benchmarkId, startDate, snapshotDate);
 
     this.logger.log(`Portfolio returns: ${portfolioReturns.length}, Benchmark returns: ${benchmarkReturns.length}`);
     
@@ -225,6 +223,7 @@ export class AlphaBetaCalculationService {
       .andWhere('snapshot.snapshotDate <= :endDate', { endDate })
       .andWhere('snapshot.granularity = :granularity', { granularity })
       .andWhere('snapshot.isActive = :isActive', { isActive: true })
+      .andWhere('snapshot.isTradingDay = :isTradingDay', { isTradingDay: true })
       .orderBy('snapshot.snapshotDate', 'ASC')
       .getMany();
 
@@ -250,15 +249,21 @@ export class AlphaBetaCalculationService {
   }
 
   /**
-   * Get benchmark returns for period from price history
-   * FIXED: Get data from price history table, if multiple records per day, get the latest one
+   * Get benchmark returns for period.
+   * Uses the stored benchmark series when benchmarkId is a benchmark; otherwise treats it
+   * as an asset and reads its price history (latest record per day).
    */
   private async getBenchmarkReturnsForPeriod(
     benchmarkId: string,
     startDate: Date,
-    endDate: Date,
-    granularity: SnapshotGranularity
+    endDate: Date
   ): Promise<Array<{ date: Date; return: number }>> {
+    const storedReturns = await this.benchmarkService.findDailyReturns(benchmarkId, startDate, endDate);
+    if (storedReturns) {
+      this.logger.log(`Calculated ${storedReturns.length} benchmark returns from stored series`);
+      return storedReturns;
+    }
+
     // Get price history data for the benchmark asset
     // SIMPLIFIED: Use simple query first, then group by date in code
     const priceHistoryData = await this.dataSource
@@ -275,73 +280,33 @@ export class AlphaBetaCalculationService {
       .orderBy('aph.created_at', 'ASC')
       .getRawMany();
 
-    // If no price history data, try to get from benchmark data as fallback
-    let benchmarkData = [];
-    if (priceHistoryData.length === 0) {
-      this.logger.warn(`No price history data found for benchmark ${benchmarkId}, falling back to benchmark data`);
-      benchmarkData = await this.benchmarkDataRepo
-        .createQueryBuilder('benchmark')
-        .where('benchmark.benchmarkId = :benchmarkId', { benchmarkId })
-        .andWhere('benchmark.snapshotDate >= :startDate', { startDate })
-        .andWhere('benchmark.snapshotDate <= :endDate', { endDate })
-        .andWhere('benchmark.granularity = :granularity', { granularity })
-        .andWhere('benchmark.isActive = :isActive', { isActive: true })
-        .orderBy('benchmark.snapshotDate', 'ASC')
-        .getMany();
-    }
-
     const returns: Array<{ date: Date; return: number }> = [];
 
-    this.logger.log(`Found ${priceHistoryData.length} price history records, ${benchmarkData.length} benchmark data records`);
+    this.logger.log(`Found ${priceHistoryData.length} price history records`);
 
-    // Process price history data
-    if (priceHistoryData.length > 0) {
-      console.log('📊 First few price history records:', priceHistoryData.slice(0, 3));
-      
-      // Group by date and get latest record per day
-      const groupedByDate = new Map<string, any>();
-      priceHistoryData.forEach(record => {
-        const dateKey = record.date;
-        if (!groupedByDate.has(dateKey) || new Date(record.created_at) > new Date(groupedByDate.get(dateKey).created_at)) {
-          groupedByDate.set(dateKey, record);
-        }
-      });
-      
-      const dailyRecords = Array.from(groupedByDate.values()).sort((a, b) => 
-        new Date(a.date).getTime() - new Date(b.date).getTime()
-      );
-      
-      console.log(`📊 Grouped to ${dailyRecords.length} daily records`);
-      
-      for (let i = 1; i < dailyRecords.length; i++) {
-        const prevValue = Number(dailyRecords[i - 1].price || 0);
-        const currValue = Number(dailyRecords[i].price || 0);
-        
-        if (i <= 3) {
-          console.log(`📊 Price comparison [${i}]: prev=${prevValue}, curr=${currValue}`);
-        }
-        
-        if (prevValue > 0) {
-          const returnValue = (currValue - prevValue) / prevValue;
-          returns.push({
-            date: new Date(dailyRecords[i].date),
-            return: returnValue
-          });
-        }
+    // Group by date and get latest record per day
+    const groupedByDate = new Map<string, any>();
+    priceHistoryData.forEach(record => {
+      const dateKey = record.date;
+      if (!groupedByDate.has(dateKey) || new Date(record.created_at) > new Date(groupedByDate.get(dateKey).created_at)) {
+        groupedByDate.set(dateKey, record);
       }
-    } else {
-      // Fallback to benchmark data
-      for (let i = 1; i < benchmarkData.length; i++) {
-        const prevValue = Number(benchmarkData[i - 1].benchmarkValue || 0);
-        const currValue = Number(benchmarkData[i].benchmarkValue || 0);
-        
-        if (prevValue > 0) {
-          const returnValue = (currValue - prevValue) / prevValue;
-          returns.push({
-            date: benchmarkData[i].snapshotDate instanceof Date ? benchmarkData[i].snapshotDate : new Date(benchmarkData[i].snapshotDate),
-            return: returnValue
-          });
-        }
+    });
+    
+    const dailyRecords = Array.from(groupedByDate.values()).sort((a, b) => 
+      new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+    
+    for (let i = 1; i < dailyRecords.length; i++) {
+      const prevValue = Number(dailyRecords[i - 1].price || 0);
+      const currValue = Number(dailyRecords[i].price || 0);
+      
+      if (prevValue > 0) {
+        const returnValue = (currValue - prevValue) / prevValue;
+        returns.push({
+          date: new Date(dailyRecords[i].date),
+          return: returnValue
+        });
       }
     }
 
@@ -470,7 +435,7 @@ export class AlphaBetaCalculationService {
     startDate.setDate(startDate.getDate() - days);
 
     const portfolioReturns = await this.getPortfolioReturnsForPeriod(portfolioId, startDate, snapshotDate, granularity);
-    const benchmarkReturns = await this.getBenchmarkReturnsForPeriod(benchmarkId, startDate, snapshotDate, granularity);
+    const benchmarkReturns = await this.getBenchmarkReturnsForPeriod(benchmarkId, startDate, snapshotDate);
     
     const alignedReturns = this.alignReturnsByDate(portfolioReturns, benchmarkReturns);
 
@@ -537,7 +502,7 @@ export class AlphaBetaCalculationService {
     const assetReturns = await this.getAssetReturnsForPeriod(portfolioId, assetId, startDate, snapshotDate, granularity);
     
     // Get benchmark returns
-    const benchmarkReturns = await this.getBenchmarkReturnsForPeriod(benchmarkId, startDate, snapshotDate, granularity);
+    const benchmarkReturns = await this.getBenchmarkReturnsForPeriod(benchmarkId, startDate, snapshotDate);
 
     if (assetReturns.length < 2 || benchmarkReturns.length < 2) {
       this.logger.warn(`Insufficient data for asset Alpha/Beta calculation: ${assetReturns.length} asset returns, ${benchmarkReturns.length} benchmark returns`);
@@ -603,6 +568,7 @@ export class AlphaBetaCalculationService {
       .andWhere('s.snapshot_date <= :endDate', { endDate })
       .andWhere('s.granularity = :granularity', { granularity })
       .andWhere('s.is_active = :isActive', { isActive: true })
+      .andWhere('s.is_trading_day = :isTradingDay', { isTradingDay: true })
       .orderBy('s.snapshot_date', 'ASC')
       .getMany();
 
@@ -694,7 +660,7 @@ export class AlphaBetaCalculationService {
     const assetGroupReturns = await this.getAssetGroupReturnsForPeriod(portfolioId, assetType, startDate, snapshotDate, granularity);
     
     // Get benchmark returns
-    const benchmarkReturns = await this.getBenchmarkReturnsForPeriod(benchmarkId, startDate, snapshotDate, granularity);
+    const benchmarkReturns = await this.getBenchmarkReturnsForPeriod(benchmarkId, startDate, snapshotDate);
 
     if (assetGroupReturns.length < 2 || benchmarkReturns.length < 2) {
       this.logger.warn(`Insufficient data for asset group Alpha/Beta calculation: ${assetGroupReturns.length} asset group returns, ${benchmarkReturns.length} benchmark returns`);
@@ -762,6 +728,7 @@ export class AlphaBetaCalculationService {
       .andWhere('s.snapshot_date <= :endDate', { endDate })
       .andWhere('s.granularity = :granularity', { granularity })
       .andWhere('s.is_active = :isActive', { isActive: true })
+      .andWhere('s.is_trading_day = :isTradingDay', { isTradingDay: true })
       .orderBy('s.snapshot_date', 'ASC')
       .getMany();
 
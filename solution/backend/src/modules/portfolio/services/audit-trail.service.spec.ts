@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { AuditTrailService } from './audit-trail.service';
+import { FinancialAuditLog, AuditAction, AuditEntityType } from '../entities/financial-audit-log.entity';
+import { Portfolio } from '../entities/portfolio.entity';
+
+describe('AuditTrailService', () => {
+  let service: AuditTrailService;
+  let entries: FinancialAuditLog[];
+  let portfolio: Partial<Portfolio>;
+  const portfolioId = 'bbbbbbbb-0000-4000-8000-000000000002';
+  const accountId = 'aaaaaaaa-0000-4000-8000-000000000001';
+
+  beforeEach(async () => {
+    entries = [];
+    portfolio = { portfolioId, lockedThroughDate: null };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditTrailService,
+        {
+          provide: getRepositoryToken(FinancialAuditLog),
+          useValue: {
+            create: (data: Partial<FinancialAuditLog>) => Object.assign(new FinancialAuditLog(), data),
+            save: async (entry: FinancialAuditLog) => {
+              entries.push(entry);
+              return entry;
+            },
+          },
+        },
+        {
+          provide: getRepositoryToken(Portfolio),
+          useValue: {
+            findOne: async () => portfolio,
+            update: async (_id: string, data: Partial<Portfolio>) => Object.assign(portfolio, data),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditTrailService>(AuditTrailService);
+  });
+
+  it('should record the actor, reason and changed fields of an update', async () => {
+    await service.record({
+      portfolioId,
+      entityType: AuditEntityType.TRADE,
+      entityId: 'trade-1',
+      action: AuditAction.UPDATE,
+      before: { quantity: '10', price: '100.00' },
+      after: { quantity: 12, price: 100 },
+    }, { actorAccountId: accountId, reason: ' Broker correction ' });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      actorAccountId: accountId,
+      reason: 'Broker correction',
+      changes: { quantity: { from: '10', to: 12 } },
+    });
+  });
+
+  it('should skip updates that change nothing', async () => {
+    const entry = await service.record({
+      portfolioId,
+      entityType: AuditEntityType.CASH_FLOW,
+      entityId: 'cash-flow-1',
+      action: AuditAction.UPDATE,
+      before: { amount: '5.00' },
+      after: { amount: 5 },
+    });
+
+    expect(entry).toBeNull();
+    expect(entries).toHaveLength(0);
+  });
+
+  it('should reject changes dated inside the locked period', async () => {
+    await service.setPeriodLock(portfolioId, '2024-03-31', { actorAccountId: accountId });
+
+    await expect(service.assertPeriodOpen(portfolioId, '2024-03-31')).rejects.toThrow(ConflictException);
+    await expect(service.assertPeriodOpen(portfolioId, '2024-04-01', undefined)).resolves.toBeUndefined();
+    expect(entries[0]).toMatchObject({
+      entityType: AuditEntityType.PORTFOLIO_LOCK,
+      changes: { lockedThroughDate: { from: null, to: '2024-03-31' } },
+    });
+  });
+
+  it('should require a reason to unlock days', async () => {
+    portfolio.lockedThroughDate = '2024-03-31';
+
+    await expect(service.setPeriodLock(portfolioId, '2024-02-29')).rejects.toThrow(BadRequestException);
+    await expect(service.setPeriodLock(portfolioId, null, { reason: 'Reopen Q1' }))
+      .resolves.toEqual({ portfolioId, lockedThroughDate: null });
+    await expect(service.setPeriodLock(portfolioId, '2024-06-30')).resolves.toBeDefined();
+  });
+});
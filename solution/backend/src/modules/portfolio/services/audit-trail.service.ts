@@ -0,0 +1,202 @@
+import { Injectable, BadRequestException, ConflictException, NotFoundException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { FinancialAuditLog, AuditAction, AuditEntityType } from '../entities/financial-audit-log.entity';
+import { Portfolio } from '../entities/portfolio.entity';
+import { diffAuditSnapshots, isInLockedPeriod, toAuditSnapshot } from '../utils/audit-trail.util';
+import { normalizeDateToString } from '../utils/date-normalization.util';
+import { PeriodLockResponse } from '../dto/audit-trail.dto';
+
+/**
+ * Who made a change and why
+ */
+export interface AuditContext {
+  actorAccountId?: string | null;
+  reason?: string | null;
+}
+
+export interface AuditRecordInput {
+  portfolioId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  before?: object | null;
+  after?: object | null;
+}
+
+export interface AuditTimelineFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Service for the append-only audit trail of financial records and the per-portfolio locked period.
+ */
+@Injectable()
+export class AuditTrailService {
+  private readonly logger = new Logger(AuditTrailService.name);
+
+  constructor(
+    @InjectRepository(FinancialAuditLog)
+    private readonly auditLogRepository: Repository<FinancialAuditLog>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+  ) {}
+
+  /**
+   * Append a change to the audit trail. Updates that change nothing are not recorded.
+   * @param manager Optional transaction manager, to record the change with the write it describes
+   */
+  async record(
+    input: AuditRecordInput,
+    context: AuditContext = {},
+    manager?: EntityManager,
+  ): Promise<FinancialAuditLog | null> {
+    const before = toAuditSnapshot(input.before);
+    const after = toAuditSnapshot(input.after);
+    const changes = diffAuditSnapshots(before, after);
+    if (input.action === AuditAction.UPDATE && Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    const auditLogRepository = manager ? manager.getRepository(FinancialAuditLog) : this.auditLogRepository;
+    const entry = await auditLogRepository.save(auditLogRepository.create({
+      portfolioId: input.portfolioId,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      action: input.action,
+      actorAccountId: context.actorAccountId || null,
+      reason: context.reason?.trim() || null,
+      before,
+      after,
+      changes,
+    }));
+
+    this.logger.log(`${input.action} ${input.entityType} ${input.entityId} recorded for portfolio ${input.portfolioId}`);
+    return entry;
+  }
+
+  /**
+   * Audit trail of a portfolio, newest first
+   */
+  async getTimeline(portfolioId: string, filters: AuditTimelineFilters = {}): Promise<{
+    data: FinancialAuditLog[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const { entityType, entityId, page = 1, limit = 20 } = filters;
+    const [data, total] = await this.auditLogRepository.findAndCount({
+      where: {
+        portfolioId,
+        ...(entityType ? { entityType } : {}),
+        ...(entityId ? { entityId } : {}),
+      },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Reject a change to records dated inside the portfolio's locked period
+   * @param dates Dates of the record before and after the change
+   */
+  async assertPeriodOpen(portfolioId: string, ...dates: Array<Date | string | null | undefined>): Promise<void> {
+    const { lockedDate, lockedThroughDate } = await this.findLockedDate(portfolioId, dates);
+    if (lockedDate) {
+      throw new ConflictException(
+        `Records dated ${normalizeDateToString(lockedDate)} are locked; the portfolio is locked through ${lockedThroughDate}`,
+      );
+    }
+  }
+
+  /**
+   * Reject creating, recalculating or deleting snapshots dated inside the locked period, which are frozen
+   */
+  async assertSnapshotsOpen(portfolioId: string, ...dates: Array<Date | string | null | undefined>): Promise<void> {
+    const { lockedDate, lockedThroughDate } = await this.findLockedDate(portfolioId, dates);
+    if (lockedDate) {
+      throw new ConflictException(
+        `Snapshots dated ${normalizeDateToString(lockedDate)} are frozen; the portfolio is closed through ${lockedThroughDate}`,
+      );
+    }
+  }
+
+  async getPeriodLock(portfolioId: string): Promise<PeriodLockResponse> {
+    const portfolio = await this.findPortfolio(portfolioId);
+    return { portfolioId, lockedThroughDate: portfolio.lockedThroughDate ?? null };
+  }
+
+  /**
+   * Move or remove the locked period. Unlocking days needs a reason, and every change is audited.
+   * @param manager Optional transaction manager
+   */
+  async setPeriodLock(
+    portfolioId: string,
+    lockedThroughDate: string | null,
+    context: AuditContext = {},
+    manager?: EntityManager,
+  ): Promise<PeriodLockResponse> {
+    const portfolioRepository = manager ? manager.getRepository(Portfolio) : this.portfolioRepository;
+    const portfolio = await this.findPortfolio(portfolioId, portfolioRepository);
+    const current = portfolio.lockedThroughDate ?? null;
+    const unlocksDays = !!current && (!lockedThroughDate || lockedThroughDate < current);
+    if (unlocksDays && !context.reason?.trim()) {
+      throw new BadRequestException('A reason is required to unlock a locked period');
+    }
+
+    await portfolioRepository.update(portfolioId, { lockedThroughDate });
+    await this.record({
+      portfolioId,
+      entityType: AuditEntityType.PORTFOLIO_LOCK,
+      entityId: portfolioId,
+      action: AuditAction.UPDATE,
+      before: { lockedThroughDate: current },
+      after: { lockedThroughDate },
+    }, context, manager);
+
+    return { portfolioId, lockedThroughDate };
+  }
+
+  private async findLockedDate(
+    portfolioId: string,
+    dates: Array<Date | string | null | undefined>,
+  ): Promise<{ lockedDate?: Date | string; lockedThroughDate: string | null }> {
+    const portfolio = await this.portfolioRepository.findOne({
+      where: { portfolioId },
+      select: ['portfolioId', 'lockedThroughDate'],
+    });
+    const lockedThroughDate = portfolio?.lockedThroughDate ?? null;
+    return {
+      lockedDate: dates.find(date => isInLockedPeriod(lockedThroughDate, date)),
+      lockedThroughDate,
+    };
+  }
+
+  private async findPortfolio(
+    portfolioId: string,
+    portfolioRepository: Repository<Portfolio> = this.portfolioRepository,
+  ): Promise<Portfolio> {
+    const portfolio = await portfolioRepository.findOne({ where: { portfolioId } });
+    if (!portfolio) {
+      throw new NotFoundException(`Portfolio with ID ${portfolioId} not found`);
+    }
+    return portfolio;
+  }
+}
@@ -0,0 +1,499 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, Between, In, IsNull, FindOptionsWhere } from 'typeorm';
+import * as cron from 'node-cron';
+import { randomUUID } from 'crypto';
+import { Benchmark, BenchmarkComponent } from '../entities/benchmark.entity';
+import { BenchmarkData } from '../entities/benchmark-data.entity';
+import { BenchmarkSource } from '../enums/benchmark-source.enum';
+import { SnapshotGranularity } from '../enums/snapshot-granularity.enum';
+import { CreateCustomBenchmarkDto, BenchmarkMetrics } from '../dto/benchmark.dto';
+import { MarketDataService } from '../../market-data/services/market-data.service';
+import { FxRateService } from '../../market-data/services/fx-rate.service';
+import { normalizeDateToString } from '../utils/date-normalization.util';
+import {
+  BenchmarkPoint,
+  BlendLeg,
+  blendSeries,
+  calculateMaxDrawdown,
+  calculateTotalReturn,
+  calculateVolatility,
+  toDailyReturns,
+} from '../utils/benchmark-series.util';
+
+/**
+ * IDs of the built-in benchmarks seeded by the AddBenchmarkSeriesStore migration
+ */
+export const BUILT_IN_BENCHMARK_IDS = {
+  VNINDEX: '00000000-0000-0000-0000-000000000001',
+  VN30: '00000000-0000-0000-0000-000000000002',
+  HNXINDEX: '00000000-0000-0000-0000-000000000003',
+  SJC: '00000000-0000-0000-0000-000000000004',
+  USDVND: '00000000-0000-0000-0000-000000000005',
+};
+
+export const DEFAULT_BENCHMARK_ID = BUILT_IN_BENCHMARK_IDS.VNINDEX;
+
+/**
+ * MarketDataService.getStockHistoricalDataFromCAFEF multiplies every CAFEF close by 1000 because CAFEF quotes
+ * stock prices in thousands of VND. Index closes (e.g. VNINDEX) are already in index points, so the scaling
+ * is undone for STOCK_INDEX benchmarks.
+ */
+const CAFEF_STOCK_PRICE_SCALE = 1000;
+const WEIGHT_TOLERANCE = 0.0001;
+
+/**
+ * Service for the benchmark series store.
+ * Daily levels of built-in benchmarks are backfilled from the historical market data
+ * clients into benchmark_data; custom benchmarks are blended from those series on read.
+ */
+@Injectable()
+export class BenchmarkService {
+  private readonly logger = new Logger(BenchmarkService.name);
+  private readonly cronExpression: string;
+  private readonly timezone: string;
+  private cronJob: cron.ScheduledTask | null = null;
+
+  constructor(
+    @InjectRepository(Benchmark)
+    private readonly benchmarkRepository: Repository<Benchmark>,
+    @InjectRepository(BenchmarkData)
+    private readonly benchmarkDataRepository: Repository<BenchmarkData>,
+    private readonly marketDataService: MarketDataService,
+    private readonly fxRateService: FxRateService,
+    private readonly configService: ConfigService,
+  ) {
+    this.cronExpression = this.configService.get<string>('BENCHMARK_SYNC_CRON', '40 18 * * 1-5');
+    this.timezone = this.configService.get<string>('BENCHMARK_SYNC_TIMEZONE', 'Asia/Ho_Chi_Minh');
+    this.setupCronJob();
+  }
+
+  /**
+   * Refresh recent levels after market close, before the daily performance snapshots run
+   */
+  private setupCronJob(): void {
+    try {
+      this.cronJob = cron.schedule(this.cronExpression, () => {
+        setImmediate(() => {
+          const endDate = new Date();
+          const startDate = new Date();
+          startDate.setDate(endDate.getDate() - 7);
+          this.backfillAll(startDate, endDate).catch(error =>
+            this.logger.error(`Scheduled benchmark sync failed: ${error.message}`),
+          );
+        });
+      }, {
+        scheduled: true,
+        timezone: this.timezone,
+      });
+      this.logger.log(`Benchmark sync scheduled with expression: ${this.cronExpression}, timezone: ${this.timezone}`);
+    } catch (error) {
+      this.logger.error('Failed to setup benchmark sync cron job:', error);
+    }
+  }
+
+  /**
+   * List built-in benchmarks plus the custom benchmarks of an account
+   */
+  async listBenchmarks(accountId?: string): Promise<Benchmark[]> {
+    const where: FindOptionsWhere<Benchmark>[] = [{ accountId: IsNull(), isActive: true }];
+    if (accountId) {
+      where.push({ accountId, isActive: true });
+    }
+    const benchmarks = await this.benchmarkRepository.find({ where, order: { createdAt: 'ASC' } });
+    return benchmarks.sort((a, b) => Number(a.isCustom) - Number(b.isCustom));
+  }
+
+  async getBenchmark(benchmarkId: string): Promise<Benchmark> {
+    const benchmark = await this.benchmarkRepository.findOne({ where: { benchmarkId } });
+    if (!benchmark) {
+      throw new NotFoundException(`Benchmark with ID ${benchmarkId} not found`);
+    }
+    return benchmark;
+  }
+
+  /**
+   * Create a blended benchmark such as 60% VN30 + 40% deposit rate
+   */
+  async createCustomBenchmark(dto: CreateCustomBenchmarkDto, accountId: string): Promise<Benchmark> {
+    const components: BenchmarkComponent[] = dto.components.map(component => {
+      const hasBenchmark = !!component.benchmarkId;
+      const hasRate = component.annualRate !== undefined && component.annualRate !== null;
+      if (hasBenchmark === hasRate) {
+        throw new BadRequestException('Each component must set exactly one of benchmarkId or annualRate');
+      }
+      return hasBenchmark
+        ? { benchmarkId: component.benchmarkId, weight: component.weight }
+        : { annualRate: component.annualRate, weight: component.weight };
+    });
+
+    const totalWeight = components.reduce((sum, component) => sum + component.weight, 0);
+    if (Math.abs(totalWeight - 1) > WEIGHT_TOLERANCE) {
+      throw new BadRequestException(`Component weights must sum to 1 (got ${totalWeight})`);
+    }
+
+    const referencedIds = [...new Set(components.filter(c => c.benchmarkId).map(c => c.benchmarkId))];
+    if (referencedIds.length > 0) {
+      const referenced = await this.benchmarkRepository.find({ where: { benchmarkId: In(referencedIds) } });
+      const missing = referencedIds.filter(id => !referenced.some(b => b.benchmarkId === id));
+      if (missing.length > 0) {
+        throw new NotFoundException(`Benchmark with ID ${missing[0]} not found`);
+      }
+      if (referenced.some(b => b.isCustom)) {
+        throw new BadRequestException('Custom benchmarks cannot be blended into other custom benchmarks');
+      }
+    }
+
+    const benchmark = this.benchmarkRepository.create({
+      code: `CUSTOM-${randomUUID().slice(0, 8).toUpperCase()}`,
+      name: dto.name,
+      benchmarkType: 'CUSTOM',
+      source: BenchmarkSource.CUSTOM,
+      sourceSymbol: null,
+      components,
+      accountId,
+      isActive: true,
+    });
+    return this.benchmarkRepository.save(benchmark);
+  }
+
+  async deleteCustomBenchmark(benchmarkId: string, accountId: string): Promise<void> {
+    const benchmark = await this.getBenchmark(benchmarkId);
+    if (!benchmark.isCustom || benchmark.accountId !== accountId) {
+      throw new ForbiddenException('Only the owner can delete a custom benchmark');
+    }
+    await this.benchmarkRepository.remove(benchmark);
+  }
+
+  /**
+   * Fetch daily levels of a built-in benchmark from its historical client and store them.
+   * Rolling returns, volatility and drawdown of the affected rows are recomputed from the stored series.
+   * @returns Number of stored levels
+   */
+  async backfillBenchmark(benchmarkId: string, startDate?: Date | string, endDate?: Date | string): Promise<number> {
+    const benchmark = await this.getBenchmark(benchmarkId);
+    if (benchmark.isCustom) {
+      throw new BadRequestException('Custom benchmarks are derived from their components and are not stored');
+    }
+
+    const { start, end } = this.resolveRange(startDate, endDate);
+    const points = await this.fetchLevels(benchmark, start, end);
+    if (points.length === 0) {
+      this.logger.warn(`No levels returned for benchmark ${benchmark.code} from ${start} to ${end}`);
+      return 0;
+    }
+
+    await this.saveLevels(benchmark, points);
+    await this.refreshStoredMetrics(benchmark, points[0].date, end);
+    this.logger.log(`Stored ${points.length} levels for benchmark ${benchmark.code}`);
+    return points.length;
+  }
+
+  /**
+   * Backfill every built-in benchmark, one at a time to go easy on the providers
+   */
+  async backfillAll(
+    startDate?: Date | string,
+    endDate?: Date | string,
+  ): Promise<Array<{ benchmarkId: string; code: string; count: number; error?: string }>> {
+    const benchmarks = (await this.listBenchmarks()).filter(b => !b.isCustom);
+    const results = [];
+    for (const benchmark of benchmarks) {
+      try {
+        const count = await this.backfillBenchmark(benchmark.benchmarkId, startDate, endDate);
+        results.push({ benchmarkId: benchmark.benchmarkId, code: benchmark.code, count });
+      } catch (error) {
+        this.logger.error(`Failed to backfill benchmark ${benchmark.code}: ${error.message}`);
+        results.push({ benchmarkId: benchmark.benchmarkId, code: benchmark.code, count: 0, error: error.message });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Daily levels of a benchmark between two dates
+   * @param autoBackfill - Fetch and store levels first when nothing is stored for the range
+   */
+  async getSeries(
+    benchmarkId: string,
+    startDate?: Date | string,
+    endDate?: Date | string,
+    autoBackfill: boolean = false,
+  ): Promise<BenchmarkPoint[]> {
+    const benchmark = await this.getBenchmark(benchmarkId);
+    const { start, end } = this.resolveRange(startDate, endDate);
+
+    if (benchmark.isCustom) {
+      return this.getBlendedSeries(benchmark, start, end, autoBackfill);
+    }
+
+    let points = await this.getStoredSeries(benchmark.benchmarkId, start, end);
+    if (points.length === 0 && autoBackfill) {
+      await this.backfillBenchmark(benchmark.benchmarkId, start, end);
+      points = await this.getStoredSeries(benchmark.benchmarkId, start, end);
+    }
+    return points;
+  }
+
+  /**
+   * Cumulative returns (%) since the first level in the range, in the shape used by benchmark comparisons
+   */
+  async getCumulativeReturns(
+    benchmarkId: string,
+    startDate: Date | string,
+    endDate: Date | string,
+    autoBackfill: boolean = false,
+  ): Promise<Array<{ date: string; return: number }>> {
+    const points = await this.getSeries(benchmarkId, startDate, endDate, autoBackfill);
+    if (points.length < 2 || points[0].value <= 0) {
+      return [];
+    }
+    const base = points[0].value;
+    return points.map(point => ({
+      date: point.date,
+      return: Number(((point.value / base - 1) * 100).toFixed(4)),
+    }));
+  }
+
+  /**
+   * Day-over-day returns (decimal) of a benchmark, or null when the ID is not a benchmark
+   */
+  async findDailyReturns(
+    benchmarkId: string,
+    startDate: Date | string,
+    endDate: Date | string,
+  ): Promise<Array<{ date: Date; return: number }> | null> {
+    const exists = await this.benchmarkRepository.exists({ where: { benchmarkId } });
+    if (!exists) {
+      return null;
+    }
+    const points = await this.getSeries(benchmarkId, startDate, endDate);
+    return toDailyReturns(points).map(item => ({ date: new Date(item.date), return: item.return }));
+  }
+
+  /**
+   * Return, volatility and drawdown of a benchmark over a range, computed from the stored series
+   */
+  async getMetrics(
+    benchmarkId: string,
+    startDate?: Date | string,
+    endDate?: Date | string,
+    autoBackfill: boolean = false,
+  ): Promise<BenchmarkMetrics> {
+    const benchmark = await this.getBenchmark(benchmarkId);
+    const points = await this.getSeries(benchmarkId, startDate, endDate, autoBackfill);
+
+    return {
+      benchmarkId: benchmark.benchmarkId,
+      benchmarkName: benchmark.name,
+      startDate: points[0]?.date ?? null,
+      endDate: points[points.length - 1]?.date ?? null,
+      dataPoints: points.length,
+      totalReturn: Number(calculateTotalReturn(points).toFixed(4)),
+      volatility: Number(calculateVolatility(points).toFixed(4)),
+      maxDrawdown: Number(calculateMaxDrawdown(points).toFixed(4)),
+    };
+  }
+
+  private async getBlendedSeries(
+    benchmark: Benchmark,
+    start: string,
+    end: string,
+    autoBackfill: boolean,
+  ): Promise<BenchmarkPoint[]> {
+    const legs: BlendLeg[] = [];
+    for (const component of benchmark.components || []) {
+      if (component.benchmarkId) {
+        const points = await this.getSeries(component.benchmarkId, start, end, autoBackfill);
+        legs.push({ points, weight: Number(component.weight) });
+      } else {
+        legs.push({ annualRate: Number(component.annualRate), weight: Number(component.weight) });
+      }
+    }
+
+    const marketDates = new Set<string>();
+    legs.forEach(leg => leg.points?.forEach(point => marketDates.add(point.date)));
+    const hasMarketLeg = legs.some(leg => leg.points);
+    // A blend of fixed-rate legs only accrues on calendar days
+    const dates = hasMarketLeg ? [...marketDates] : this.calendarDays(start, end);
+
+    return blendSeries(legs, dates);
+  }
+
+  private async getStoredSeries(benchmarkId: string, start: string, end: string): Promise<BenchmarkPoint[]> {
+    const rows = await this.benchmarkDataRepository.find({
+      where: {
+        benchmarkId,
+        granularity: SnapshotGranularity.DAILY,
+        isActive: true,
+        snapshotDate: Between(start, end),
+      },
+      order: { snapshotDate: 'ASC' },
+    });
+    return rows.map(row => ({ date: normalizeDateToString(row.snapshotDate), value: Number(row.benchmarkValue) }));
+  }
+
+  /**
+   * Fetch levels from the client matching the benchmark source, one level per day
+   */
+  private async fetchLevels(benchmark: Benchmark, start: string, end: string): Promise<BenchmarkPoint[]> {
+    let points: BenchmarkPoint[] = [];
+
+    switch (benchmark.source) {
+      case BenchmarkSource.STOCK_INDEX:
+      case BenchmarkSource.GOLD: {
+        const assetType = benchmark.source === BenchmarkSource.GOLD ? 'GOLD' : 'STOCK';
+        const data = await this.marketDataService.getHistoricalMarketDataForDateRangeFromAPI(
+          benchmark.sourceSymbol,
+          assetType,
+          new Date(start),
+          new Date(end),
+        );
+        points = data.map(item => ({
+          date: item.date,
+          value: benchmark.source === BenchmarkSource.STOCK_INDEX && item.source === 'CAFEF_API'
+            ? Number(item.closePrice) / CAFEF_STOCK_PRICE_SCALE
+            : Number(item.closePrice),
+        }));
+        break;
+      }
+      case BenchmarkSource.FX_RATE: {
+        const rates = await this.fxRateService.getRateHistory(benchmark.sourceSymbol, undefined, start, end);
+        points = rates.map(rate => ({ date: normalizeDateToString(rate.rateDate), value: Number(rate.rate) }));
+        break;
+      }
+      default:
+        throw new BadRequestException(`Benchmark source ${benchmark.source} cannot be backfilled`);
+    }
+
+    // Keep the last level per day, drop empty ones
+    const byDate = new Map<string, number>();
+    points
+      .filter(point => point.date && point.value > 0 && point.date >= start && point.date <= end)
+      .forEach(point => byDate.set(point.date, point.value));
+
+    return [...byDate.entries()]
+      .map(([date, value]) => ({ date, value }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private async saveLevels(benchmark: Benchmark, points: BenchmarkPoint[]): Promise<void> {
+    const existing = await this.benchmarkDataRepository.find({
+      where: {
+        benchmarkId: benchmark.benchmarkId,
+        granularity: SnapshotGranularity.DAILY,
+        snapshotDate: Between(points[0].date, points[points.length - 1].date),
+      },
+    });
+    const existingByDate = new Map(existing.map(row => [normalizeDateToString(row.snapshotDate), row]));
+
+    const rows = points.map(point => {
+      const row = existingByDate.get(point.date) || this.benchmarkDataRepository.create({
+        benchmarkId: benchmark.benchmarkId,
+        snapshotDate: point.date,
+        granularity: SnapshotGranularity.DAILY,
+      });
+      row.benchmarkName = benchmark.name;
+      row.benchmarkType = benchmark.benchmarkType;
+      row.benchmarkValue = point.value;
+      row.isActive = true;
+      return row;
+    });
+
+    await this.benchmarkDataRepository.save(rows, { chunk: 200 });
+  }
+
+  /**
+   * Recompute the rolling metric columns of stored rows from `from` to `to`
+   */
+  private async refreshStoredMetrics(benchmark: Benchmark, from: string, to: string): Promise<void> {
+    const rows = await this.benchmarkDataRepository.find({
+      where: {
+        benchmarkId: benchmark.benchmarkId,
+        granularity: SnapshotGranularity.DAILY,
+        isActive: true,
+        snapshotDate: Between(this.shiftDate(from, -400), to),
+      },
+      order: { snapshotDate: 'ASC' },
+    });
+    const points = rows.map(row => ({ date: normalizeDateToString(row.snapshotDate), value: Number(row.benchmarkValue) }));
+
+    const updated: BenchmarkData[] = [];
+    rows.forEach((row, index) => {
+      const date = points[index].date;
+      if (date < from) {
+        return;
+      }
+      const window = (days: number) => points.slice(0, index + 1).filter(point => point.date > this.shiftDate(date, -days));
+      const returnOver = (days: number) => this.returnSince(points, index, this.shiftDate(date, -days));
+
+      row.benchmarkReturn1D = index > 0 && points[index - 1].value > 0
+        ? Number(((points[index].value / points[index - 1].value - 1) * 100).toFixed(6))
+        : 0;
+      row.benchmarkReturn1W = returnOver(7);
+      row.benchmarkReturn1M = returnOver(30);
+      row.benchmarkReturn3M = returnOver(90);
+      row.benchmarkReturn6M = returnOver(180);
+      row.benchmarkReturn1Y = returnOver(365);
+      row.benchmarkReturnYTD = this.returnSince(points, index, `${Number(date.slice(0, 4)) - 1}-12-31`);
+      row.benchmarkVolatility1M = Number(calculateVolatility(window(30)).toFixed(6));
+      row.benchmarkVolatility3M = Number(calculateVolatility(window(90)).toFixed(6));
+      row.benchmarkVolatility1Y = Number(calculateVolatility(window(365)).toFixed(6));
+      row.benchmarkMaxDrawdown1M = Number(calculateMaxDrawdown(window(30)).toFixed(6));
+      row.benchmarkMaxDrawdown3M = Number(calculateMaxDrawdown(window(90)).toFixed(6));
+      row.benchmarkMaxDrawdown1Y = Number(calculateMaxDrawdown(window(365)).toFixed(6));
+      updated.push(row);
+    });
+
+    if (updated.length > 0) {
+      await this.benchmarkDataRepository.save(updated, { chunk: 200 });
+    }
+  }
+
+  /**
+   * Return (%) from the last level on or before baseDate to points[index]; 0 when the series starts later
+   */
+  private returnSince(points: BenchmarkPoint[], index: number, baseDate: string): number {
+    let baseIndex = -1;
+    for (let i = index; i >= 0; i--) {
+      if (points[i].date <= baseDate) {
+        baseIndex = i;
+        break;
+      }
+    }
+    if (baseIndex < 0 || points[baseIndex].value <= 0) {
+      return 0;
+    }
+    return Number(((points[index].value / points[baseIndex].value - 1) * 100).toFixed(6));
+  }
+
+  private resolveRange(startDate?: Date | string, endDate?: Date | string): { start: string; end: string } {
+    const end = normalizeDateToString(endDate || new Date());
+    const start = startDate ? normalizeDateToString(startDate) : this.shiftDate(end, -365);
+    if (start > end) {
+      throw new BadRequestException('startDate must be on or before endDate');
+    }
+    return { start, end };
+  }
+
+  private shiftDate(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().split('T')[0];
+  }
+
+  private calendarDays(start: string, end: string): string[] {
+    const days: string[] = [];
+    for (let date = start; date <= end; date = this.shiftDate(date, 1)) {
+      days.push(date);
+    }
+    return days;
+  }
+}
@@ -0,0 +1,164 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { InvestorHolding } from '../entities/investor-holding.entity';
+import { FundUnitTransaction, HoldingType } from '../entities/fund-unit-transaction.entity';
+import { FundFeeService } from './fund-fee.service';
+import { PortfolioService } from './portfolio.service';
+import { normalizeDateToString } from '../utils/date-normalization.util';
+import { addDays } from '../utils/dealing-calendar.util';
+import {
+  CapitalAccountEntry,
+  applyMovement,
+  emptyCapitalAccount,
+  navPeriodReturn,
+} from '../utils/capital-account.util';
+import { CapitalAccountLedger, CapitalAccountBalance } from '../dto/capital-account.dto';
+import { CapitalAccountRenderer } from '../../report/renderers/capital-account-renderer';
+
+/**
+ * Service for investor capital accounts: the unit ledger of a holding rebuilt from its fund unit transactions,
+ * with FIFO realized P&L and balances valued at the NAV per unit struck at each end of the period.
+ */
+@Injectable()
+export class CapitalAccountService {
+  private readonly renderer = new CapitalAccountRenderer();
+
+  constructor(
+    @InjectRepository(InvestorHolding)
+    private readonly investorHoldingRepository: Repository<InvestorHolding>,
+    @InjectRepository(FundUnitTransaction)
+    private readonly fundUnitTransactionRepository: Repository<FundUnitTransaction>,
+    private readonly fundFeeService: FundFeeService,
+    private readonly portfolioService: PortfolioService,
+  ) {}
+
+  /**
+   * Whether an account can see the capital account of a holding: the investor, or an account with access to the fund
+   */
+  async canView(holdingId: string, accountId: string): Promise<boolean> {
+    const holding = await this.investorHoldingRepository.findOne({ where: { holdingId } });
+    if (!holding) {
+      throw new NotFoundException(`Holding with ID ${holdingId} not found`);
+    }
+    return holding.accountId === accountId
+      || this.portfolioService.checkPortfolioAccess(holding.portfolioId, accountId, 'view');
+  }
+
+  /**
+   * Capital account of a holding between two dates (inclusive)
+   * @param from - First day, defaults to the first transaction
+   * @param to - Last day, defaults to today
+   */
+  async getLedger(holdingId: string, from?: string, to?: string): Promise<CapitalAccountLedger> {
+    const holding = await this.investorHoldingRepository.findOne({
+      where: { holdingId },
+      relations: ['account', 'portfolio'],
+    });
+    if (!holding) {
+      throw new NotFoundException(`Holding with ID ${holdingId} not found`);
+    }
+
+    const transactions = await this.fundUnitTransactionRepository.find({
+      where: { holdingId },
+      order: { createdAt: 'ASC' },
+    });
+    const movements = transactions.map(transaction => ({
+      transactionId: transaction.transactionId,
+      date: normalizeDateToString(transaction.createdAt),
+      type: transaction.holdingType,
+      units: Number(transaction.units),
+      navPerUnit: Number(transaction.navPerUnit),
+      amount: Number(transaction.amount),
+    }));
+
+    const endDate = to || normalizeDateToString(new Date());
+    const startDate = from || movements[0]?.date || endDate;
+    if (startDate > endDate) {
+      throw new BadRequestException('from must be on or before to');
+    }
+
+    const state = emptyCapitalAccount();
+    movements.filter(movement => movement.date < startDate).forEach(movement => applyMovement(state, movement));
+    const openingDate = addDays(startDate, -1);
+    const opening = await this.balance(holding.portfolioId, openingDate, state.units, state.costBasis, state.units > 0);
+
+    const entries: CapitalAccountEntry[] = movements
+      .filter(movement => movement.date >= startDate && movement.date <= endDate)
+      .map(movement => applyMovement(state, movement));
+    const closing = await this.balance(
+      holding.portfolioId, endDate, state.units, state.costBasis, state.units > 0 || entries.length > 0,
+    );
+
+    const subscriptions = sum(entries.filter(entry => entry.type === HoldingType.SUBSCRIBE).map(entry => entry.amount));
+    const redemptions = sum(entries.filter(entry => entry.type === HoldingType.REDEEM).map(entry => entry.amount));
+    // A holding opened during the period earns from its first subscription price
+    const startNavPerUnit = opening.units > 0 ? opening.navPerUnit : entries[0]?.navPerUnit || 0;
+
+    return {
+      holdingId,
+      accountId: holding.accountId,
+      investorName: holding.account?.name || '',
+      portfolioId: holding.portfolioId,
+      portfolioName: holding.portfolio?.name || '',
+      baseCurrency: holding.portfolio?.baseCurrency || 'VND',
+      from: startDate,
+      to: endDate,
+      opening,
+      entries,
+      closing,
+      summary: {
+        subscriptions: round2(subscriptions),
+        redemptions: round2(redemptions),
+        realizedPnl: round2(sum(entries.map(entry => entry.realizedPnl || 0))),
+        unrealizedPnl: round2(closing.value - closing.costBasis),
+        investmentResult: round2(closing.value - opening.value - subscriptions + redemptions),
+        periodReturn: navPeriodReturn(startNavPerUnit, closing.navPerUnit),
+      },
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  async getLedgerCsv(holdingId: string, from?: string, to?: string): Promise<{ fileName: string; content: string }> {
+    const ledger = await this.getLedger(holdingId, from, to);
+    return { fileName: this.fileName(ledger, 'csv'), content: this.renderer.toCsv(ledger) };
+  }
+
+  async getLedgerPdf(holdingId: string, from?: string, to?: string): Promise<{ fileName: string; content: Buffer }> {
+    const ledger = await this.getLedger(holdingId, from, to);
+    return { fileName: this.fileName(ledger, 'pdf'), content: this.renderer.toPdf(ledger) };
+  }
+
+  /**
+   * @param priced - Whether to look up the NAV per unit of the date; not needed for an empty balance outside any activity
+   */
+  private async balance(
+    portfolioId: string,
+    date: string,
+    units: number,
+    costBasis: number,
+    priced: boolean,
+  ): Promise<CapitalAccountBalance> {
+    const navPerUnit = priced ? await this.fundFeeService.getNetNavPerUnit(portfolioId, date) : 0;
+    return {
+      date,
+      units: Math.round(units * 1000) / 1000,
+      costBasis: round2(costBasis),
+      navPerUnit,
+      value: round2(units * navPerUnit),
+    };
+  }
+
+  private fileName(ledger: CapitalAccountLedger, extension: string): string {
+    const investor = ledger.investorName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]+/g, '-');
+    return `capital-account-${investor || ledger.holdingId}-${ledger.from}-${ledger.to}.${extension}`;
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -8,6 +8,9 @@ import { Trade, TradeSide } from '../../trading/entities/trade.entity';
 import { Asset } from '../../asset/entities/asset.entity';
 import { CreateCashFlowDto } from '../dto/cash-flow.dto';
 import { Deposit } from '../entities/deposit.entity';
+import { TaxFeeCalculationService } from '../../shared/services/tax-fee-calculation.service';
+import { AuditTrailService, AuditContext } from './audit-trail.service';
+import { AuditAction, AuditEntityType } from '../entities/financial-audit-log.entity';
 
 export interface CashFlowUpdateResult {
   portfolioId: string;
@@ -27,6 +30,8 @@ export interface CashFlowCreateResult {
 /**
  * Service for managing cash flows and portfolio cash balance.
  * Handles cash balance updates from trades and manual cash flow operations.
+ * Methods taking an AuditContext audit the change and respect the locked period only when one
+ * is passed; cash flows derived from trades, deposits and fund transactions are audited with their source.
  */
 @Injectable()
 export class CashFlowService {
@@ -42,6 +47,8 @@ export class CashFlowService {
     @InjectRepository(Asset)
     private readonly assetRepository: Repository<Asset>,
     private readonly dataSource: DataSource,
+    private readonly taxFeeCalculationService: TaxFeeCalculationService,
+    private readonly auditTrailService: AuditTrailService,
   ) {}
 
   /**
@@ -59,9 +66,11 @@ export class CashFlowService {
     }
 
     const oldCashBalance = parseFloat(portfolio.cashBalance.toString());
-    const tradeAmount = parseFloat(trade.totalAmount.toString());
-    const fee = parseFloat(trade.fee.toString()) || 0;
-    const tax = parseFloat(trade.tax.toString()) || 0;
+    // Trade amounts are in the asset currency, cash is held in the portfolio base currency
+    const fxRate = Number(trade.fxRate) || 1;
+    const tradeAmount = parseFloat(trade.totalAmount.toString()) * fxRate;
+    const fee = (parseFloat(trade.fee.toString()) || 0) * fxRate;
+    const tax = (parseFloat(trade.tax.toString()) || 0) * fxRate;
     const totalCost = tradeAmount + fee + tax;
 
     let cashFlowAmount: number;
@@ -88,7 +97,7 @@ export class CashFlowService {
       portfolioId: trade.portfolioId,
       flowDate: trade.tradeDate,
       amount: cashFlowAmount,
-      currency: 'VND', // Default currency, should be from portfolio
+      currency: portfolio.baseCurrency || 'VND',
       type: cashFlowType as any,
       description: `${trade.side} ${trade.quantity} shares of ${trade.asset?.symbol || 'asset'} at ${trade.price}`,
     });
@@ -205,6 +214,7 @@ export class CashFlowService {
    * @param type Cash flow type
    * @param description Description
    * @param flowDate Flow date (optional, defaults to now)
+   * @param audit Who adds the cash flow and why
    * @returns Promise<CashFlowUpdateResult>
    */
   async addManualCashFlow(
@@ -214,6 +224,7 @@ export class CashFlowService {
     description: string,
     flowDate: Date = new Date(),
     fundingSource?: string,
+    audit?: AuditContext,
   ): Promise<CashFlowUpdateResult> {
     const portfolio = await this.portfolioRepository.findOne({
       where: { portfolioId }
@@ -226,6 +237,10 @@ export class CashFlowService {
     if (amount === 0) {
       throw new BadRequestException('Cash flow amount cannot be zero');
     }
+
+    if (audit) {
+      await this.auditTrailService.assertPeriodOpen(portfolioId, flowDate);
+    }
     
     // Create cash flow record
     const cashFlow = this.cashFlowRepository.create({
@@ -239,6 +254,9 @@ export class CashFlowService {
     });
 
     await this.cashFlowRepository.save(cashFlow);
+    if (audit) {
+      await this.recordCashFlowAudit(AuditAction.CREATE, null, cashFlow, audit);
+    }
 
     // implement get cashbalance from all cash flows
     const cashBalance = await this.recalculateCashBalance(portfolioId);
@@ -426,6 +444,8 @@ export class CashFlowService {
     effectiveDate?: Date,
     currency?: string,
     fundingSource?: string,
+    taxWithheld?: number,
+    audit?: AuditContext,
   ): Promise<CashFlowCreateResult> {
     // Validate portfolio exists
     const portfolio = await this.portfolioRepository.findOne({
@@ -442,8 +462,12 @@ export class CashFlowService {
       throw new BadRequestException('Amount cannot be zero');
     }
 
+    if (audit) {
+      await this.auditTrailService.assertPeriodOpen(portfolioId, effectiveDate || new Date());
+    }
+
     // Use transaction to ensure consistency
-    return await this.dataSource.transaction(async (manager) => {
+    const result = await this.dataSource.transaction(async (manager) => {
       // Get current cash balance
       const currentCashBalance = parseFloat(portfolio.cashBalance.toString());
 
@@ -459,6 +483,7 @@ export class CashFlowService {
         effectiveDate: effectiveDate || new Date(),
         currency: currency || portfolio.baseCurrency || 'VND',
         fundingSource: fundingSource?.toUpperCase().trim(),
+        taxWithheld: taxWithheld || 0,
       });
 
       const savedCashFlow = await manager.save(cashFlow);
@@ -501,6 +526,46 @@ export class CashFlowService {
         portfolioUpdated: true,
       };
     });
+
+    if (audit) {
+      await this.recordCashFlowAudit(AuditAction.CREATE, null, result.cashFlow, audit);
+    }
+    return result;
+  }
+
+  /**
+   * Create a dividend cash flow credited net of withholding tax
+   * @param grossAmount Dividend before tax
+   * @param taxWithheld Tax withheld at source, defaults to the nation dividend tax rate
+   */
+  async createDividendCashFlow(
+    portfolioId: string,
+    grossAmount: number,
+    description: string,
+    reference?: string,
+    effectiveDate?: Date,
+    currency?: string,
+    fundingSource?: string,
+    taxWithheld?: number,
+    audit?: AuditContext,
+  ): Promise<CashFlowCreateResult> {
+    const tax = taxWithheld ?? this.taxFeeCalculationService.calculateWithholdingTax('DIVIDEND', grossAmount, currency).taxAmount;
+    if (tax < 0 || tax > grossAmount) {
+      throw new BadRequestException('Tax withheld must be between zero and the dividend amount');
+    }
+
+    return this.createCashFlow(
+      portfolioId,
+      CashFlowType.DIVIDEND,
+      grossAmount - tax,
+      description,
+      reference,
+      effectiveDate,
+      currency,
+      fundingSource,
+      tax,
+      audit,
+    );
   }
 
   /**
@@ -511,9 +576,11 @@ export class CashFlowService {
     // Delete existing cash flows for this trade first to avoid duplicates (silent - no balance recalculation)
     await this.deleteCashFlowByReferenceIdSilent(trade.tradeId);
 
-    const tradeAmount = parseFloat(trade.totalAmount.toString());
-    const fee = parseFloat(trade.fee.toString()) || 0;
-    const tax = parseFloat(trade.tax.toString()) || 0;
+    // Trade amounts are in the asset currency, cash is held in the portfolio base currency
+    const fxRate = Number(trade.fxRate) || 1;
+    const tradeAmount = parseFloat(trade.totalAmount.toString()) * fxRate;
+    const fee = (parseFloat(trade.fee.toString()) || 0) * fxRate;
+    const tax = (parseFloat(trade.tax.toString()) || 0) * fxRate;
 
 
     // If trade has zero price and no fees/taxes, no cash flow is needed
@@ -526,10 +593,13 @@ export class CashFlowService {
       };
     }
 
-    // Load asset information
+    // Load asset and portfolio information
     const asset = await this.assetRepository.findOne({
       where: { id: trade.assetId }
     });
+    const portfolio = await this.portfolioRepository.findOne({
+      where: { portfolioId: trade.portfolioId }
+    });
 
     let type: CashFlowType;
     let amount: number;
@@ -552,7 +622,7 @@ export class CashFlowService {
       description,
       trade.tradeId,
       trade.tradeDate, // Use trade date as flowDate
-      'VND', // TODO: Default currency for trades
+      portfolio?.baseCurrency || 'VND',
       trade.fundingSource, // Pass fundingSource from trade
     );
   }
@@ -602,6 +672,7 @@ export class CashFlowService {
     portfolioId: string,
     cashFlowId: string,
     updateData: CreateCashFlowDto,
+    audit?: AuditContext,
   ): Promise<CashFlow> {
     const cashFlow = await this.cashFlowRepository.findOne({
       where: { cashFlowId, portfolioId },
@@ -615,7 +686,12 @@ export class CashFlowService {
       throw new BadRequestException('Cannot update cancelled cash flow');
     }
 
-    return await this.dataSource.transaction(async (manager) => {
+    const newFlowDate = updateData.flowDate ? new Date(updateData.flowDate + 'T12:00:00') : cashFlow.flowDate;
+    if (audit) {
+      await this.auditTrailService.assertPeriodOpen(portfolioId, cashFlow.flowDate, newFlowDate);
+    }
+
+    const updatedCashFlow = await this.dataSource.transaction(async (manager) => {
       // Update cash flow
       await manager.update(CashFlow, 
         { cashFlowId }, 
@@ -625,7 +701,7 @@ export class CashFlowService {
           currency: updateData.currency,
           description: updateData.description,
           // Fix timezone issue: append 'T12:00:00' to ensure local time interpretation
-          flowDate: updateData.flowDate ? new Date(updateData.flowDate + 'T12:00:00') : cashFlow.flowDate,
+          flowDate: newFlowDate,
           status: updateData.status as CashFlowStatus || cashFlow.status,
           reference: updateData.reference || cashFlow.reference,
           effectiveDate: updateData.effectiveDate ? new Date(updateData.effectiveDate) : cashFlow.effectiveDate,
@@ -640,12 +716,17 @@ export class CashFlowService {
       // Return updated cash flow
       return await manager.findOne(CashFlow, { where: { cashFlowId } });
     });
+
+    if (audit) {
+      await this.recordCashFlowAudit(AuditAction.UPDATE, cashFlow, updatedCashFlow, audit);
+    }
+    return updatedCashFlow;
   }
 
   /**
    * Delete an existing cash flow.
    */
-  async deleteCashFlow(portfolioId: string, cashFlowId: string): Promise<void> {
+  async deleteCashFlow(portfolioId: string, cashFlowId: string, audit?: AuditContext): Promise<void> {
     const cashFlow = await this.cashFlowRepository.findOne({
       where: { cashFlowId, portfolioId },
     });
@@ -658,6 +739,10 @@ export class CashFlowService {
     // Only prevent deletion if it's a critical business rule violation
     // For now, we allow deletion of any cash flow regardless of status
 
+    if (audit) {
+      await this.auditTrailService.assertPeriodOpen(portfolioId, cashFlow.flowDate);
+    }
+
     await this.dataSource.transaction(async (manager) => {
       // Delete cash flow
       await manager.delete(CashFlow, { cashFlowId });
@@ -665,6 +750,10 @@ export class CashFlowService {
       // Recalculate portfolio balance from all cash flows
       await this.recalculateCashBalance(portfolioId);
     });
+
+    if (audit) {
+      await this.recordCashFlowAudit(AuditAction.DELETE, cashFlow, null, audit);
+    }
   }
 
   /**
@@ -718,8 +807,12 @@ export class CashFlowService {
    * Deletes existing cash flows for the deposit before creating new ones
    */
   async createCashFlowFromDeposit( deposit: Deposit ): Promise<void> {
-    const amount = (Number(deposit.principal) + Number(deposit.actualInterest || 0));
     const type = deposit.status === 'ACTIVE' ? CashFlowType.DEPOSIT_CREATION : CashFlowType.DEPOSIT_SETTLEMENT;
+    // Interest is withheld at source on settlement
+    const taxWithheld = type === CashFlowType.DEPOSIT_SETTLEMENT
+      ? this.taxFeeCalculationService.calculateWithholdingTax('INTEREST', Number(deposit.actualInterest || 0), 'VND').taxAmount
+      : 0;
+    const amount = (Number(deposit.principal) + Number(deposit.actualInterest || 0)) - taxWithheld;
     
     
     const referenceId = this.formatReferenceId(deposit.depositId, deposit.status);
@@ -739,6 +832,7 @@ export class CashFlowService {
       type === CashFlowType.DEPOSIT_CREATION ? deposit.startDate : deposit.settledAt,
       'VND', // Default currency for deposits
       deposit.bankName, // Pass fundingSource from deposit
+      taxWithheld,
     );
     
   }
@@ -784,6 +878,7 @@ export class CashFlowService {
     amount: number,
     description?: string,
     transferDate?: Date,
+    audit?: AuditContext,
   ): Promise<{
     withdrawalCashFlow: CashFlow;
     depositCashFlow: CashFlow;
@@ -810,7 +905,11 @@ export class CashFlowService {
     const transferDateToUse = transferDate || new Date();
     const transferDescription = description || `Transfer from ${fromSource} to ${toSource}`;
 
-    return await this.dataSource.transaction(async (manager) => {
+    if (audit) {
+      await this.auditTrailService.assertPeriodOpen(portfolioId, transferDateToUse);
+    }
+
+    const result = await this.dataSource.transaction(async (manager) => {
       // Create withdrawal cash flow from source
       const withdrawalCashFlow = manager.create(CashFlow, {
         portfolioId,
@@ -871,6 +970,12 @@ export class CashFlowService {
         newCashBalance,
       };
     });
+
+    if (audit) {
+      await this.recordCashFlowAudit(AuditAction.CREATE, null, result.withdrawalCashFlow, audit);
+      await this.recordCashFlowAudit(AuditAction.CREATE, null, result.depositCashFlow, audit);
+    }
+    return result;
   }
 
   /**
@@ -917,4 +1022,21 @@ export class CashFlowService {
       return null;
     }
   }
+
+  private async recordCashFlowAudit(
+    action: AuditAction,
+    before: CashFlow | null,
+    after: CashFlow | null,
+    audit: AuditContext,
+  ): Promise<void> {
+    const cashFlow = after || before;
+    await this.auditTrailService.record({
+      portfolioId: cashFlow.portfolioId,
+      entityType: AuditEntityType.CASH_FLOW,
+      entityId: cashFlow.cashFlowId,
+      action,
+      before,
+      after,
+    }, audit);
+  }
 }
@@ -12,6 +12,9 @@ import {
   PaginatedDepositResponseDto
 } from '../dto/deposit.dto';
 import { Deposit } from '../entities/deposit.entity';
+import { AuditTrailService, AuditContext } from './audit-trail.service';
+import { AuditAction, AuditEntityType } from '../entities/financial-audit-log.entity';
+import { TradingCalendarService } from '../../shared/services/trading-calendar.service';
 
 @Injectable()
 export class DepositService {
@@ -19,17 +22,20 @@ export class DepositService {
     private readonly depositRepository: DepositRepository,
     @Inject(forwardRef(() => CashFlowService))
     private readonly cashFlowService: CashFlowService,
+    private readonly auditTrailService: AuditTrailService,
+    private readonly tradingCalendarService: TradingCalendarService,
   ) {}
 
   /**
    * Create a new deposit
    */
-  async createDeposit(createDepositDto: CreateDepositDto): Promise<DepositResponseDto> {
+  async createDeposit(createDepositDto: CreateDepositDto, audit?: AuditContext): Promise<DepositResponseDto> {
     // Validate portfolio exists
     // await this.portfolioService.getPortfolioDetails(createDepositDto.portfolioId);
 
     // Validate dates
     this.validateDepositDates(createDepositDto.startDate, createDepositDto.endDate);
+    await this.auditTrailService.assertPeriodOpen(createDepositDto.portfolioId, createDepositDto.startDate);
 
     // Create deposit
     const depositData = {
@@ -42,6 +48,7 @@ export class DepositService {
 
     // Create cash flow entry for deposit creation (money out)
     await this.cashFlowService.createCashFlowFromDeposit(savedDeposit);
+    await this.recordDepositAudit(AuditAction.CREATE, null, savedDeposit, audit);
 
     return this.mapToResponseDto(savedDeposit);
   }
@@ -72,7 +79,7 @@ export class DepositService {
   /**
    * Update deposit
    */
-  async updateDeposit(id: string, updateDepositDto: UpdateDepositDto): Promise<DepositResponseDto> {
+  async updateDeposit(id: string, updateDepositDto: UpdateDepositDto, audit?: AuditContext): Promise<DepositResponseDto> {
     const deposit = await this.depositRepository.findByIdOrFail(id);
     
     if (!deposit.canBeEdited()) {
@@ -97,6 +104,8 @@ export class DepositService {
     if (updateDepositDto.endDate !== undefined) updateData.endDate = new Date(updateDepositDto.endDate);
     if (updateDepositDto.notes !== undefined) updateData.notes = updateDepositDto.notes;
 
+    await this.auditTrailService.assertPeriodOpen(deposit.portfolioId, deposit.startDate, updateData.startDate);
+
     const updatedDeposit = await this.depositRepository.update(id, updateData);
 
     // Update cash flow if principal or bank name changed
@@ -104,6 +113,7 @@ export class DepositService {
       // Create new cash flow with updated information (automatically deletes old ones)
       await this.cashFlowService.createCashFlowFromDeposit(updatedDeposit);
     }
+    await this.recordDepositAudit(AuditAction.UPDATE, deposit, updatedDeposit, audit);
 
     return this.mapToResponseDto(updatedDeposit);
   }
@@ -111,13 +121,16 @@ export class DepositService {
   /**
    * Settle deposit
    */
-  async settleDeposit(id: string, settleDepositDto: SettleDepositDto): Promise<DepositResponseDto> {
+  async settleDeposit(id: string, settleDepositDto: SettleDepositDto, audit?: AuditContext): Promise<DepositResponseDto> {
     const deposit = await this.depositRepository.findByIdOrFail(id);
     
     if (!deposit.canBeSettled()) {
       throw new BadRequestException('Deposit cannot be settled');
     }
 
+    await this.auditTrailService.assertPeriodOpen(deposit.portfolioId, settleDepositDto.settlementDate);
+    const before = { ...deposit };
+
     // Update deposit
     deposit.status = 'SETTLED';
     deposit.actualInterest = settleDepositDto.actualInterest;
@@ -130,6 +143,7 @@ export class DepositService {
 
     // Create cash flow entry for deposit settlement (money + interest in)
     await this.cashFlowService.createCashFlowFromDeposit(settledDeposit);
+    await this.recordDepositAudit(AuditAction.UPDATE, before, settledDeposit, audit);
 
     return this.mapToResponseDto(settledDeposit);
   }
@@ -137,8 +151,9 @@ export class DepositService {
   /**
    * Delete deposit
    */
-  async deleteDeposit(id: string): Promise<void> {
+  async deleteDeposit(id: string, audit?: AuditContext): Promise<void> {
     const deposit = await this.depositRepository.findByIdOrFail(id);
+    await this.auditTrailService.assertPeriodOpen(deposit.portfolioId, deposit.startDate, deposit.settledAt);
     
     // Allow deletion of both ACTIVE and SETTLED deposits
 
@@ -153,7 +168,7 @@ export class DepositService {
     await this.cashFlowService.recalculateCashBalance(deposit.portfolioId);
     
     await this.depositRepository.delete(id);
-    
+    await this.recordDepositAudit(AuditAction.DELETE, deposit, null, audit);
   }
 
   /**
@@ -265,6 +280,9 @@ export class DepositService {
     const principal = typeof deposit.principal === 'string' ? parseFloat(deposit.principal) : deposit.principal;
     const interestRate = typeof deposit.interestRate === 'string' ? parseFloat(deposit.interestRate) : deposit.interestRate;
     const actualInterest = deposit.actualInterest ? (typeof deposit.actualInterest === 'string' ? parseFloat(deposit.actualInterest) : deposit.actualInterest) : undefined;
+    const endDate = deposit.endDate instanceof Date ? deposit.endDate.toISOString().split('T')[0] : deposit.endDate;
+    // Banks pay out on the next business day when the term ends on a weekend or holiday
+    const maturityDate = this.tradingCalendarService.rollForward(endDate);
     
     return {
       depositId: deposit.depositId,
@@ -274,16 +292,17 @@ export class DepositService {
       principal: principal,
       interestRate: interestRate,
       startDate: deposit.startDate instanceof Date ? deposit.startDate.toISOString().split('T')[0] : deposit.startDate,
-      endDate: deposit.endDate instanceof Date ? deposit.endDate.toISOString().split('T')[0] : deposit.endDate,
+      endDate,
+      maturityDate,
       status: deposit.status,
       actualInterest: actualInterest,
       notes: deposit.notes,
       accruedInterest: Math.round((deposit.calculateAccruedInterest() || 0) * 100) / 100,
       totalValue: Math.round((deposit.calculateTotalValue() || 0) * 100) / 100,
-      isMatured: deposit.isMatured(),
+      isMatured: deposit.isMatured(maturityDate),
       canBeEdited: deposit.canBeEdited(),
       canBeSettled: deposit.canBeSettled(),
-      daysUntilMaturity: deposit.getDaysUntilMaturity(),
+      daysUntilMaturity: deposit.getDaysUntilMaturity(maturityDate),
       termDescription: deposit.getTermDescription(),
       createdAt: deposit.createdAt.toISOString(),
       updatedAt: deposit.updatedAt.toISOString(),
@@ -382,4 +401,21 @@ export class DepositService {
       smallestDepositAmount,
     };
   }
+
+  private async recordDepositAudit(
+    action: AuditAction,
+    before: Partial<Deposit> | null,
+    after: Deposit | null,
+    audit?: AuditContext,
+  ): Promise<void> {
+    const deposit = after || before;
+    await this.auditTrailService.record({
+      portfolioId: deposit.portfolioId,
+      entityType: AuditEntityType.DEPOSIT,
+      entityId: deposit.depositId,
+      action,
+      before,
+      after,
+    }, audit);
+  }
 }
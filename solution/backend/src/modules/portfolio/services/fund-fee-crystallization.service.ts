@@ -0,0 +1,149 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { FundFeeSchedule } from '../entities/fund-fee-schedule.entity';
+import { FundFeeAccrual, FundFeeType } from '../entities/fund-fee-accrual.entity';
+import { FundFeeCrystallization, FeeCrystallizationReason } from '../entities/fund-fee-crystallization.entity';
+import { InvestorHolding } from '../entities/investor-holding.entity';
+import { Portfolio } from '../entities/portfolio.entity';
+import { CashFlowType } from '../entities/cash-flow.entity';
+import { CashFlowService } from './cash-flow.service';
+import { FundFeeLiabilityService } from './fund-fee-liability.service';
+import { normalizeDateToString } from '../utils/date-normalization.util';
+
+/** Smallest fee booked as a cash flow; cash flows are rounded to 2 decimals */
+export const MIN_FEE_AMOUNT = 0.01;
+
+/**
+ * Books fund fee crystallizations as FEE cash flows.
+ * Kept apart from FundFeeService so that redemptions can pay the performance fee without depending on the accrual job.
+ */
+@Injectable()
+export class FundFeeCrystallizationService {
+  constructor(
+    @InjectRepository(FundFeeSchedule)
+    private readonly feeScheduleRepository: Repository<FundFeeSchedule>,
+    @InjectRepository(FundFeeAccrual)
+    private readonly feeAccrualRepository: Repository<FundFeeAccrual>,
+    @InjectRepository(FundFeeCrystallization)
+    private readonly feeCrystallizationRepository: Repository<FundFeeCrystallization>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    private readonly cashFlowService: CashFlowService,
+    private readonly fundFeeLiabilityService: FundFeeLiabilityService,
+  ) {}
+
+  /**
+   * Pay the performance fee of redeemed units out of the fund.
+   * The redeemed share of the holding's outstanding performance fee crystallizes; the rest carries forward.
+   * @param unitsBefore Units of the holding before the redemption
+   */
+  async crystallizeOnRedemption(
+    holding: InvestorHolding,
+    units: number,
+    unitsBefore: number,
+    redemptionDate: Date,
+  ): Promise<FundFeeCrystallization | null> {
+    const schedule = await this.feeScheduleRepository.findOne({ where: { portfolioId: holding.portfolioId } });
+    if (!schedule || unitsBefore <= 0) {
+      return null;
+    }
+
+    const date = normalizeDateToString(redemptionDate);
+    const outstanding = await this.fundFeeLiabilityService.getAccruedFeeLiability(
+      holding.portfolioId,
+      date,
+      FundFeeType.PERFORMANCE,
+      holding.holdingId,
+    );
+    const fee = round3((outstanding * Math.min(units, unitsBefore)) / unitsBefore);
+    if (fee < MIN_FEE_AMOUNT) {
+      return null;
+    }
+
+    const pending = await this.fundFeeLiabilityService.getPendingAccruals(
+      holding.portfolioId,
+      date,
+      FundFeeType.PERFORMANCE,
+      holding.holdingId,
+    );
+    const navPerUnit = pending.length ? Number(pending[pending.length - 1].navPerUnit) : 0;
+    const crystallization = await this.bookCrystallization(
+      holding.portfolioId,
+      FundFeeType.PERFORMANCE,
+      FeeCrystallizationReason.REDEMPTION,
+      date,
+      fee,
+      pending,
+      { holdingId: holding.holdingId, units },
+    );
+
+    const remaining = round3(outstanding - fee);
+    if (Math.abs(remaining) >= 0.001) {
+      await this.feeAccrualRepository.save({
+        portfolioId: holding.portfolioId,
+        holdingId: holding.holdingId,
+        feeType: FundFeeType.PERFORMANCE,
+        accrualDate: date,
+        amount: remaining,
+        navPerUnit,
+      });
+    }
+
+    return crystallization;
+  }
+
+  /**
+   * Record a crystallization, book its FEE cash flow and settle the accruals it pays
+   */
+  async bookCrystallization(
+    portfolioId: string,
+    feeType: FundFeeType,
+    reason: FeeCrystallizationReason,
+    date: string,
+    amount: number,
+    accruals: FundFeeAccrual[],
+    details: { holdingId?: string; units?: number; highWaterMark?: number } = {},
+  ): Promise<FundFeeCrystallization> {
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    const crystallization = await this.feeCrystallizationRepository.save({
+      portfolioId,
+      holdingId: details.holdingId ?? null,
+      feeType,
+      reason,
+      crystallizationDate: date,
+      amount,
+      units: details.units ?? null,
+      highWaterMark: details.highWaterMark ?? null,
+    });
+
+    const label = feeType === FundFeeType.MANAGEMENT ? 'Management fee' : 'Performance fee';
+    const { cashFlow } = await this.cashFlowService.createCashFlow(
+      portfolioId,
+      CashFlowType.FEE,
+      amount,
+      reason === FeeCrystallizationReason.REDEMPTION
+        ? `${label} on redemption of ${Number(details.units).toFixed(3)} units`
+        : `${label} through ${date}`,
+      crystallization.crystallizationId,
+      new Date(`${date}T12:00:00`),
+      portfolio?.baseCurrency,
+      portfolio?.fundingSource,
+    );
+
+    crystallization.cashFlowId = cashFlow.cashFlowId;
+    await this.feeCrystallizationRepository.update(crystallization.crystallizationId, { cashFlowId: cashFlow.cashFlowId });
+    if (accruals.length > 0) {
+      await this.feeAccrualRepository.update(
+        { accrualId: In(accruals.map(accrual => accrual.accrualId)) },
+        { crystallizationId: crystallization.crystallizationId },
+      );
+    }
+
+    return crystallization;
+  }
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { FundFeeAccrual, FundFeeType } from '../entities/fund-fee-accrual.entity';
+import { normalizeDateToString } from '../utils/date-normalization.util';
+import { toDateInTimezone } from '../../report/utils/statement-period.util';
+
+/**
+ * Read-only view of the fund fee accruals, for the NAV calculations that deduct unpaid fees
+ */
+@Injectable()
+export class FundFeeLiabilityService {
+  private readonly timezone: string;
+
+  constructor(
+    @InjectRepository(FundFeeAccrual)
+    private readonly feeAccrualRepository: Repository<FundFeeAccrual>,
+    private readonly configService: ConfigService,
+  ) {
+    this.timezone = this.configService.get<string>('FUND_FEE_TIMEZONE', 'Asia/Ho_Chi_Minh');
+  }
+
+  /**
+   * Fees accrued and not yet paid on a date, which NAV is reduced by
+   * @param holdingId Only the performance fee of one holding
+   */
+  async getAccruedFeeLiability(
+    portfolioId: string,
+    date?: Date | string,
+    feeType?: FundFeeType,
+    holdingId?: string,
+  ): Promise<number> {
+    const asOf = date ? normalizeDateToString(date) : toDateInTimezone(new Date(), this.timezone);
+    const query = this.feeAccrualRepository
+      .createQueryBuilder('accrual')
+      .leftJoin('accrual.crystallization', 'crystallization')
+      .select('COALESCE(SUM(accrual.amount), 0)', 'total')
+      .where('accrual.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('accrual.accrualDate <= :asOf', { asOf })
+      .andWhere('(accrual.crystallizationId IS NULL OR crystallization.crystallizationDate > :asOf)', { asOf });
+
+    if (feeType) {
+      query.andWhere('accrual.feeType = :feeType', { feeType });
+    }
+    if (holdingId) {
+      query.andWhere('accrual.holdingId = :holdingId', { holdingId });
+    }
+
+    const result = await query.getRawOne();
+    return Number(result?.total) || 0;
+  }
+
+  /**
+   * Accruals of a fee type through a date that no crystallization has paid yet, oldest first
+   */
+  async getPendingAccruals(
+    portfolioId: string,
+    date: string,
+    feeType: FundFeeType,
+    holdingId?: string,
+  ): Promise<FundFeeAccrual[]> {
+    const query = this.feeAccrualRepository
+      .createQueryBuilder('accrual')
+      .where('accrual.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('accrual.feeType = :feeType', { feeType })
+      .andWhere('accrual.accrualDate <= :date', { date })
+      .andWhere('accrual.crystallizationId IS NULL')
+      .orderBy('accrual.accrualDate', 'ASC')
+      .addOrderBy('accrual.createdAt', 'ASC');
+
+    if (holdingId) {
+      query.andWhere('accrual.holdingId = :holdingId', { holdingId });
+    }
+    return query.getMany();
+  }
+}
@@ -0,0 +1,543 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import * as cron from 'node-cron';
+import { FundFeeSchedule } from '../entities/fund-fee-schedule.entity';
+import { FundFeeAccrual, FundFeeType } from '../entities/fund-fee-accrual.entity';
+import { FundFeeCrystallization, FeeCrystallizationReason } from '../entities/fund-fee-crystallization.entity';
+import { InvestorHolding } from '../entities/investor-holding.entity';
+import { FundUnitTransaction, HoldingType } from '../entities/fund-unit-transaction.entity';
+import { Portfolio } from '../entities/portfolio.entity';
+import { NavSnapshot } from '../entities/nav-snapshot.entity';
+import { PortfolioSnapshot } from '../entities/portfolio-snapshot.entity';
+import { CashFlow } from '../entities/cash-flow.entity';
+import { SnapshotGranularity } from '../enums/snapshot-granularity.enum';
+import { CashFlowService } from './cash-flow.service';
+import { InvestorHoldingService } from './investor-holding.service';
+import { FundFeeLiabilityService } from './fund-fee-liability.service';
+import { FundFeeCrystallizationService, MIN_FEE_AMOUNT } from './fund-fee-crystallization.service';
+import { normalizeDateToString } from '../utils/date-normalization.util';
+import { addDays } from '../utils/dealing-calendar.util';
+import { toDateInTimezone } from '../../report/utils/statement-period.util';
+import {
+  daysBetween,
+  dailyManagementFee,
+  hurdleNavPerUnit,
+  performanceFeeOutstanding,
+  isCrystallizationDate,
+} from '../utils/fund-fee.util';
+import {
+  UpsertFundFeeScheduleDto,
+  FundFeeSummary,
+  InvestorFeeSummary,
+} from '../dto/fund-fee.dto';
+
+/** Longest gap the scheduled accrual catches up on in one run */
+const MAX_CATCH_UP_DAYS = 366;
+
+/**
+ * Service for fund management and performance fees.
+ * Fees accrue daily as a liability that reduces NAV per unit, and crystallize into FEE cash flows
+ * at the end of each period of the schedule and, for the performance fee of redeemed units, on redemption.
+ */
+@Injectable()
+export class FundFeeService {
+  private readonly logger = new Logger(FundFeeService.name);
+  private readonly cronExpression: string;
+  private readonly timezone: string;
+  private cronJob: cron.ScheduledTask | null = null;
+
+  constructor(
+    @InjectRepository(FundFeeSchedule)
+    private readonly feeScheduleRepository: Repository<FundFeeSchedule>,
+    @InjectRepository(FundFeeAccrual)
+    private readonly feeAccrualRepository: Repository<FundFeeAccrual>,
+    @InjectRepository(FundFeeCrystallization)
+    private readonly feeCrystallizationRepository: Repository<FundFeeCrystallization>,
+    @InjectRepository(InvestorHolding)
+    private readonly investorHoldingRepository: Repository<InvestorHolding>,
+    @InjectRepository(FundUnitTransaction)
+    private readonly fundUnitTransactionRepository: Repository<FundUnitTransaction>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    @InjectRepository(NavSnapshot)
+    private readonly navSnapshotRepository: Repository<NavSnapshot>,
+    @InjectRepository(PortfolioSnapshot)
+    private readonly portfolioSnapshotRepository: Repository<PortfolioSnapshot>,
+    private readonly cashFlowService: CashFlowService,
+    private readonly investorHoldingService: InvestorHoldingService,
+    private readonly fundFeeLiabilityService: FundFeeLiabilityService,
+    private readonly fundFeeCrystallizationService: FundFeeCrystallizationService,
+    private readonly configService: ConfigService,
+  ) {
+    this.cronExpression = this.configService.get<string>('FUND_FEE_CRON', '0 18 * * *');
+    this.timezone = this.configService.get<string>('FUND_FEE_TIMEZONE', 'Asia/Ho_Chi_Minh');
+    this.setupCronJob();
+  }
+
+  /**
+   * Accrue the fees of every active schedule up to today
+   */
+  private setupCronJob(): void {
+    try {
+      this.cronJob = cron.schedule(this.cronExpression, () => {
+        setImmediate(() => {
+          this.accrueScheduledFees().catch(error =>
+            this.logger.error(`Scheduled fee accrual failed: ${error.message}`),
+          );
+        });
+      }, {
+        scheduled: true,
+        timezone: this.timezone,
+      });
+      this.logger.log(`Fund fee accrual scheduled with expression: ${this.cronExpression}, timezone: ${this.timezone}`);
+    } catch (error) {
+      this.logger.error('Failed to setup fund fee cron job:', error);
+    }
+  }
+
+  async getSchedule(portfolioId: string): Promise<FundFeeSchedule | null> {
+    return this.feeScheduleRepository.findOne({ where: { portfolioId } });
+  }
+
+  /**
+   * Create or update the fee schedule of a fund.
+   * Rate changes apply from the next accrual; days already accrued are not recalculated.
+   */
+  async upsertSchedule(portfolioId: string, dto: UpsertFundFeeScheduleDto): Promise<FundFeeSchedule> {
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    if (!portfolio) {
+      throw new NotFoundException(`Portfolio ${portfolioId} not found`);
+    }
+    if (!portfolio.isFund) {
+      throw new BadRequestException('Fees can only be set on a fund');
+    }
+
+    const existing = await this.getSchedule(portfolioId);
+    const schedule = existing || this.feeScheduleRepository.create({
+      portfolioId,
+      effectiveFrom: dto.effectiveFrom || this.today(),
+    });
+
+    if (existing && dto.effectiveFrom && dto.effectiveFrom !== existing.effectiveFrom) {
+      if (existing.lastAccrualDate) {
+        throw new BadRequestException('The effective date cannot change once fees have accrued');
+      }
+      schedule.effectiveFrom = dto.effectiveFrom;
+    }
+
+    schedule.managementFeeRate = dto.managementFeeRate;
+    schedule.performanceFeeRate = dto.performanceFeeRate;
+    schedule.hurdleRate = dto.hurdleRate ?? schedule.hurdleRate ?? 0;
+    schedule.crystallizationFrequency = dto.crystallizationFrequency ?? schedule.crystallizationFrequency;
+    schedule.isActive = dto.isActive ?? schedule.isActive ?? true;
+
+    return this.feeScheduleRepository.save(schedule);
+  }
+
+  /**
+   * Accrue the fees of every active schedule up to today
+   * @returns Number of fund-days accrued
+   */
+  async accrueScheduledFees(): Promise<number> {
+    const schedules = await this.feeScheduleRepository.find({ where: { isActive: true } });
+    let accrued = 0;
+
+    for (const schedule of schedules) {
+      try {
+        accrued += await this.accrueFees(schedule.portfolioId);
+      } catch (error) {
+        this.logger.error(`Fee accrual failed for portfolio ${schedule.portfolioId}: ${error.message}`);
+      }
+    }
+
+    return accrued;
+  }
+
+  /**
+   * Accrue the fees of a fund for every day since the last accrual, up to a date
+   * @param untilDate YYYY-MM-DD, defaults to today
+   * @returns Number of days accrued
+   */
+  async accrueFees(portfolioId: string, untilDate?: string): Promise<number> {
+    const schedule = await this.getSchedule(portfolioId);
+    if (!schedule) {
+      throw new NotFoundException(`No fee schedule for portfolio ${portfolioId}`);
+    }
+    if (!schedule.isActive) {
+      return 0;
+    }
+
+    const today = this.today();
+    const until = untilDate && untilDate < today ? untilDate : today;
+    let date = schedule.lastAccrualDate ? addDays(schedule.lastAccrualDate, 1) : schedule.effectiveFrom;
+    if (daysBetween(date, until) >= MAX_CATCH_UP_DAYS) {
+      date = addDays(until, 1 - MAX_CATCH_UP_DAYS);
+    }
+    // NAV of a closed period is frozen, so accrual resumes the day after it
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId }, select: ['portfolioId', 'lockedThroughDate'] });
+    if (portfolio?.lockedThroughDate && date <= portfolio.lockedThroughDate) {
+      date = addDays(portfolio.lockedThroughDate, 1);
+    }
+
+    let days = 0;
+    const skipped: string[] = [];
+    while (date <= until) {
+      if (!await this.accrueDay(schedule, date, today)) {
+        skipped.push(date);
+      }
+      schedule.lastAccrualDate = date;
+      await this.feeScheduleRepository.update(schedule.feeScheduleId, { lastAccrualDate: date });
+
+      if (isCrystallizationDate(date, schedule.crystallizationFrequency)) {
+        await this.crystallizePeriod(schedule, date);
+      }
+      date = addDays(date, 1);
+      days++;
+    }
+
+    if (skipped.length > 0) {
+      this.logger.warn(
+        `No fees accrued for portfolio ${portfolioId} on ${skipped.length} day(s) without a daily snapshot: ${skipped.join(', ')}`,
+      );
+    }
+    if (days > 0) {
+      await this.investorHoldingService.updatePortfolioNavPerUnit(portfolioId);
+      this.logger.log(`Accrued ${days} day(s) of fees for portfolio ${portfolioId} through ${until}`);
+    }
+    return days;
+  }
+
+  /**
+   * Crystallize the outstanding fees of a fund now, as at a period end
+   * @param date YYYY-MM-DD, defaults to the last accrual date
+   */
+  async crystallizeFees(portfolioId: string, date?: string): Promise<FundFeeCrystallization[]> {
+    const schedule = await this.getSchedule(portfolioId);
+    if (!schedule) {
+      throw new NotFoundException(`No fee schedule for portfolio ${portfolioId}`);
+    }
+    const crystallizationDate = date || schedule.lastAccrualDate;
+    if (!crystallizationDate) {
+      throw new BadRequestException('No fees have accrued yet');
+    }
+    if (schedule.lastAccrualDate && crystallizationDate > schedule.lastAccrualDate) {
+      throw new BadRequestException(`Fees have only accrued through ${schedule.lastAccrualDate}`);
+    }
+
+    const crystallizations = await this.crystallizePeriod(schedule, crystallizationDate);
+    await this.investorHoldingService.updatePortfolioNavPerUnit(portfolioId);
+    return crystallizations;
+  }
+
+  /**
+   * Fees of a fund with the per-investor breakdown
+   */
+  async getFeeSummary(portfolioId: string): Promise<FundFeeSummary> {
+    const schedule = await this.getSchedule(portfolioId);
+    const holdings = await this.investorHoldingRepository.find({
+      where: { portfolioId },
+      relations: ['account'],
+      order: { createdAt: 'ASC' },
+    });
+
+    const accruedManagementFee = await this.fundFeeLiabilityService.getAccruedFeeLiability(portfolioId, undefined, FundFeeType.MANAGEMENT);
+    const accruedPerformanceFee = await this.fundFeeLiabilityService.getAccruedFeeLiability(portfolioId, undefined, FundFeeType.PERFORMANCE);
+    const crystallizations = await this.feeCrystallizationRepository.find({
+      where: { portfolioId },
+      order: { crystallizationDate: 'DESC', createdAt: 'DESC' },
+    });
+    const crystallizedTotal = (feeType: FundFeeType) => round3(
+      crystallizations.filter(item => item.feeType === feeType).reduce((sum, item) => sum + Number(item.amount), 0),
+    );
+
+    const investors = await Promise.all(
+      holdings.map(holding => this.buildInvestorFeeSummary(holding, schedule, accruedManagementFee, holdings, crystallizations)),
+    );
+
+    return {
+      portfolioId,
+      managementFeeRate: Number(schedule?.managementFeeRate) || 0,
+      performanceFeeRate: Number(schedule?.performanceFeeRate) || 0,
+      hurdleRate: Number(schedule?.hurdleRate) || 0,
+      crystallizationFrequency: schedule?.crystallizationFrequency ?? null,
+      isActive: !!schedule?.isActive,
+      effectiveFrom: schedule?.effectiveFrom ?? null,
+      lastAccrualDate: schedule?.lastAccrualDate ?? null,
+      accruedManagementFee: round3(accruedManagementFee),
+      accruedPerformanceFee: round3(accruedPerformanceFee),
+      crystallizedManagementFee: crystallizedTotal(FundFeeType.MANAGEMENT),
+      crystallizedPerformanceFee: crystallizedTotal(FundFeeType.PERFORMANCE),
+      investors,
+      crystallizations,
+    };
+  }
+
+  /**
+   * Fees of one investor in a fund, or null when the fund has no fee schedule or the account no holding
+   */
+  async getInvestorFees(portfolioId: string, accountId: string): Promise<InvestorFeeSummary | null> {
+    const schedule = await this.getSchedule(portfolioId);
+    if (!schedule) {
+      return null;
+    }
+
+    const holdings = await this.investorHoldingRepository.find({ where: { portfolioId }, relations: ['account'] });
+    const holding = holdings.find(item => item.accountId === accountId);
+    if (!holding) {
+      return null;
+    }
+
+    const accruedManagementFee = await this.fundFeeLiabilityService.getAccruedFeeLiability(portfolioId, undefined, FundFeeType.MANAGEMENT);
+    const crystallizations = await this.feeCrystallizationRepository.find({
+      where: { portfolioId, holdingId: holding.holdingId },
+    });
+    return this.buildInvestorFeeSummary(holding, schedule, accruedManagementFee, holdings, crystallizations);
+  }
+
+  /**
+   * Accrue one day: the management fee on NAV net of fees, then each holding's performance fee
+   * on NAV per unit net of management fees, then record the net NAV.
+   * @returns false when the day was skipped because its gross NAV is unknown
+   */
+  private async accrueDay(schedule: FundFeeSchedule, date: string, today: string): Promise<boolean> {
+    const portfolioId = schedule.portfolioId;
+    const navDate = new Date(`${date}T12:00:00`);
+    const holdingUnits = await this.getHoldingUnits(portfolioId, date);
+    const totalUnits = Array.from(holdingUnits.values()).reduce((sum, units) => sum + units, 0);
+    if (totalUnits <= 0) {
+      return true;
+    }
+
+    const grossNav = await this.getGrossNav(portfolioId, date, today);
+    if (grossNav === null) {
+      return false;
+    }
+    const liability = await this.fundFeeLiabilityService.getAccruedFeeLiability(portfolioId, date);
+
+    const managementFee = round3(dailyManagementFee(grossNav - liability, Number(schedule.managementFeeRate)));
+    const navBeforeManagement = round3((grossNav - liability) / totalUnits);
+    if (managementFee > 0) {
+      await this.feeAccrualRepository.save({
+        portfolioId,
+        feeType: FundFeeType.MANAGEMENT,
+        accrualDate: date,
+        amount: managementFee,
+        navPerUnit: navBeforeManagement,
+      });
+    }
+
+    const managementLiability = await this.fundFeeLiabilityService.getAccruedFeeLiability(portfolioId, date, FundFeeType.MANAGEMENT);
+    const navBeforePerformance = round3((grossNav - managementLiability) / totalUnits);
+
+    if (Number(schedule.performanceFeeRate) > 0) {
+      const holdings = await this.investorHoldingRepository.find({ where: { portfolioId } });
+      for (const holding of holdings) {
+        const { highWaterMark, highWaterMarkDate } = resolveHighWaterMark(holding);
+        const target = round3(performanceFeeOutstanding({
+          navPerUnit: navBeforePerformance,
+          highWaterMark,
+          days: daysBetween(highWaterMarkDate, date),
+          units: holdingUnits.get(holding.holdingId) || 0,
+          performanceFeeRate: Number(schedule.performanceFeeRate),
+          hurdleRate: Number(schedule.hurdleRate),
+        }));
+        const outstanding = await this.fundFeeLiabilityService.getAccruedFeeLiability(portfolioId, date, FundFeeType.PERFORMANCE, holding.holdingId);
+        const change = round3(target - outstanding);
+
+        if (Math.abs(change) >= 0.001) {
+          await this.feeAccrualRepository.save({
+            portfolioId,
+            holdingId: holding.holdingId,
+            feeType: FundFeeType.PERFORMANCE,
+            accrualDate: date,
+            amount: change,
+            navPerUnit: navBeforePerformance,
+          });
+        }
+      }
+    }
+
+    const netNav = grossNav - await this.fundFeeLiabilityService.getAccruedFeeLiability(portfolioId, date);
+    const cashBalance = await this.cashFlowService.getCashBalance(portfolioId, navDate);
+    await this.navSnapshotRepository
+      .createQueryBuilder()
+      .insert()
+      .into(NavSnapshot)
+      .values({
+        portfolioId,
+        navDate,
+        navValue: round2(netNav),
+        cashBalance: round2(Number(cashBalance)),
+        totalValue: round2(grossNav),
+        totalOutstandingUnits: round3(totalUnits),
+        navPerUnit: round3(netNav / totalUnits),
+      })
+      .orUpdate(['nav_value', 'cash_balance', 'total_value', 'total_outstanding_units', 'nav_per_unit'], ['portfolioId', 'nav_date'])
+      .execute();
+    return true;
+  }
+
+  /**
+   * NAV of a date before fees. Today is valued live; current positions and prices say nothing about
+   * past dates, so those come from the daily portfolio snapshot and are null when it is missing.
+   */
+  private async getGrossNav(portfolioId: string, date: string, today: string): Promise<number | null> {
+    if (date >= today) {
+      return this.investorHoldingService.calculateRealTimeNavValue(portfolioId, new Date(`${date}T12:00:00`));
+    }
+
+    const snapshot = await this.portfolioSnapshotRepository
+      .createQueryBuilder('snapshot')
+      .where('snapshot.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('snapshot.snapshotDate = :date', { date })
+      .andWhere('snapshot.granularity = :granularity', { granularity: SnapshotGranularity.DAILY })
+      .andWhere('snapshot.isActive = true')
+      .getOne();
+    return snapshot ? Number(snapshot.totalPortfolioValue) : null;
+  }
+
+  /**
+   * Pay out the outstanding management fee and each holding's outstanding performance fee.
+   * A holding that pays a performance fee gets a new high-water mark at the NAV per unit of the date.
+   */
+  private async crystallizePeriod(schedule: FundFeeSchedule, date: string): Promise<FundFeeCrystallization[]> {
+    const portfolioId = schedule.portfolioId;
+    const crystallizations: FundFeeCrystallization[] = [];
+
+    const managementAccruals = await this.fundFeeLiabilityService.getPendingAccruals(portfolioId, date, FundFeeType.MANAGEMENT);
+    const managementFee = round3(managementAccruals.reduce((sum, accrual) => sum + Number(accrual.amount), 0));
+    if (managementFee >= MIN_FEE_AMOUNT) {
+      crystallizations.push(await this.fundFeeCrystallizationService.bookCrystallization(
+        portfolioId,
+        FundFeeType.MANAGEMENT,
+        FeeCrystallizationReason.PERIOD_END,
+        date,
+        managementFee,
+        managementAccruals,
+      ));
+    }
+
+    const navPerUnit = await this.getNetNavPerUnit(portfolioId, date);
+    const holdings = await this.investorHoldingRepository.find({ where: { portfolioId } });
+    for (const holding of holdings) {
+      const accruals = await this.fundFeeLiabilityService.getPendingAccruals(portfolioId, date, FundFeeType.PERFORMANCE, holding.holdingId);
+      const fee = round3(accruals.reduce((sum, accrual) => sum + Number(accrual.amount), 0));
+      if (fee < MIN_FEE_AMOUNT) {
+        continue;
+      }
+
+      crystallizations.push(await this.fundFeeCrystallizationService.bookCrystallization(
+        portfolioId,
+        FundFeeType.PERFORMANCE,
+        FeeCrystallizationReason.PERIOD_END,
+        date,
+        fee,
+        accruals,
+        { holdingId: holding.holdingId, highWaterMark: navPerUnit },
+      ));
+      await this.investorHoldingRepository.update(holding.holdingId, {
+        highWaterMark: navPerUnit,
+        highWaterMarkDate: date,
+      });
+    }
+
+    if (crystallizations.length > 0) {
+      this.logger.log(`Crystallized ${crystallizations.length} fee(s) for portfolio ${portfolioId} on ${date}`);
+    }
+    return crystallizations;
+  }
+
+  /**
+   * NAV per unit struck for a date, net of fees; computed when no snapshot exists for the date
+   */
+  async getNetNavPerUnit(portfolioId: string, date: string): Promise<number> {
+    const snapshot = await this.navSnapshotRepository
+      .createQueryBuilder('snapshot')
+      .where('snapshot.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('snapshot.navDate = :date', { date })
+      .getOne();
+    if (snapshot && Number(snapshot.navPerUnit) > 0) {
+      return Number(snapshot.navPerUnit);
+    }
+    return this.investorHoldingService.calculateNavPerUnit(portfolioId, new Date(`${date}T12:00:00`));
+  }
+
+  /**
+   * Units of each holding at the end of a date, from its unit transactions dated by their cash flow
+   */
+  private async getHoldingUnits(portfolioId: string, date: string): Promise<Map<string, number>> {
+    const rows = await this.fundUnitTransactionRepository
+      .createQueryBuilder('transaction')
+      .innerJoin('transaction.holding', 'holding')
+      .leftJoin(CashFlow, 'cashFlow', 'cashFlow.cashFlowId = transaction.cashFlowId')
+      .select('transaction.holdingId', 'holdingId')
+      .addSelect(
+        `SUM(CASE WHEN transaction.holdingType = :redeem THEN -transaction.units ELSE transaction.units END)`,
+        'units',
+      )
+      .where('holding.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('DATE(COALESCE(cashFlow.flowDate, transaction.createdAt)) <= :date', { date })
+      .setParameter('redeem', HoldingType.REDEEM)
+      .groupBy('transaction.holdingId')
+      .getRawMany();
+
+    return new Map(rows.map(row => [row.holdingId, Math.max(Number(row.units) || 0, 0)]));
+  }
+
+  private async buildInvestorFeeSummary(
+    holding: InvestorHolding,
+    schedule: FundFeeSchedule | null,
+    accruedManagementFee: number,
+    holdings: InvestorHolding[],
+    crystallizations: FundFeeCrystallization[],
+  ): Promise<InvestorFeeSummary> {
+    const totalUnits = holdings.reduce((sum, item) => sum + Number(item.totalUnits), 0);
+    const units = Number(holding.totalUnits);
+    const { highWaterMark, highWaterMarkDate } = resolveHighWaterMark(holding);
+    const asOf = schedule?.lastAccrualDate || this.today();
+
+    return {
+      holdingId: holding.holdingId,
+      accountId: holding.accountId,
+      investorName: holding.account?.name || '',
+      units,
+      highWaterMark,
+      highWaterMarkDate,
+      hurdleNavPerUnit: round3(hurdleNavPerUnit(highWaterMark, Number(schedule?.hurdleRate) || 0, daysBetween(highWaterMarkDate, asOf))),
+      accruedManagementFee: totalUnits > 0 ? round3((accruedManagementFee * units) / totalUnits) : 0,
+      accruedPerformanceFee: round3(
+        await this.fundFeeLiabilityService.getAccruedFeeLiability(holding.portfolioId, undefined, FundFeeType.PERFORMANCE, holding.holdingId),
+      ),
+      crystallizedPerformanceFee: round3(
+        crystallizations
+          .filter(item => item.holdingId === holding.holdingId && item.feeType === FundFeeType.PERFORMANCE)
+          .reduce((sum, item) => sum + Number(item.amount), 0),
+      ),
+    };
+  }
+
+  private today(): string {
+    return toDateInTimezone(new Date(), this.timezone);
+  }
+}
+
+/**
+ * High-water mark of a holding; holdings from before fees were introduced start at their average cost
+ */
+function resolveHighWaterMark(holding: InvestorHolding): { highWaterMark: number; highWaterMarkDate: string } {
+  const highWaterMark = Number(holding.highWaterMark) || Number(holding.avgCostPerUnit) || 0;
+  const highWaterMarkDate = holding.highWaterMarkDate
+    ? normalizeDateToString(holding.highWaterMarkDate)
+    : normalizeDateToString(holding.createdAt);
+  return { highWaterMark, highWaterMarkDate };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
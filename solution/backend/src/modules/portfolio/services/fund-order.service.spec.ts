@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import { FundOrderService } from './fund-order.service';
+import { InvestorHoldingService } from './investor-holding.service';
+import { FundFeeService } from './fund-fee.service';
+import { FundOrder, FundOrderType, FundOrderStatus } from '../entities/fund-order.entity';
+import { Portfolio } from '../entities/portfolio.entity';
+import { InvestorHolding } from '../entities/investor-holding.entity';
+import { NotificationGateway } from '../../../notification/notification.gateway';
+
+jest.mock('node-cron', () => ({ schedule: jest.fn(() => ({ stop: jest.fn() })) }));
+
+describe('FundOrderService', () => {
+  let service: FundOrderService;
+  let orders: FundOrder[];
+  let holdingUnits: number;
+  let redeemFromFund: jest.Mock;
+  const portfolioId = 'bbbbbbbb-0000-4000-8000-000000000002';
+  const investorId = 'aaaaaaaa-0000-4000-8000-000000000001';
+  const managerId = 'cccccccc-0000-4000-8000-000000000003';
+
+  const matches = (order: FundOrder, criteria: string | Partial<FundOrder>) => (typeof criteria === 'string'
+    ? order.orderId === criteria
+    : Object.entries(criteria).every(([key, value]) => (value instanceof FindOperator
+      ? (value.value as unknown[]).includes(order[key])
+      : order[key] === value)));
+
+  const pricedRedemption = (orderId: string, units: number): FundOrder => Object.assign(new FundOrder(), {
+    orderId,
+    portfolioId,
+    accountId: investorId,
+    orderType: FundOrderType.REDEMPTION,
+    status: FundOrderStatus.PRICED,
+    units,
+    navPerUnit: 10,
+    amount: units * 10,
+    dealingDate: '2024-03-15',
+  });
+
+  beforeEach(async () => {
+    orders = [];
+    holdingUnits = 10;
+    // Settles asynchronously like the real service, and rejects redemptions above the holding before writing
+    redeemFromFund = jest.fn(async (dto: { units: number }) => {
+      await new Promise(resolve => setImmediate(resolve));
+      if (holdingUnits < dto.units) {
+        throw new BadRequestException(`Insufficient units to redeem. Available: ${holdingUnits}, Requested: ${dto.units}`);
+      }
+      holdingUnits -= dto.units;
+      return { amountReceived: dto.units * 10, transaction: { transactionId: `transaction-${redeemFromFund.mock.calls.length}` } };
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FundOrderService,
+        {
+          provide: getRepositoryToken(FundOrder),
+          useValue: {
+            // Separate requests load separate entities
+            findOne: async ({ where }: any) => {
+              const order = orders.find(item => matches(item, where));
+              return order ? Object.assign(new FundOrder(), order) : null;
+            },
+            update: async (criteria: string | Partial<FundOrder>, data: Partial<FundOrder>) => {
+              const matched = orders.filter(order => matches(order, criteria));
+              matched.forEach(order => Object.assign(order, data));
+              return { affected: matched.length };
+            },
+            save: async (order: FundOrder) => Object.assign(orders.find(item => item.orderId === order.orderId), order),
+          },
+        },
+        { provide: getRepositoryToken(Portfolio), useValue: {} },
+        { provide: getRepositoryToken(InvestorHolding), useValue: {} },
+        { provide: InvestorHoldingService, useValue: { redeemFromFund } },
+        { provide: FundFeeService, useValue: {} },
+        { provide: NotificationGateway, useValue: { sendPortfolioNotification: jest.fn() } },
+        { provide: ConfigService, useValue: { get: (_key: string, defaultValue: string) => defaultValue } },
+      ],
+    }).compile();
+
+    service = module.get<FundOrderService>(FundOrderService);
+  });
+
+  it('should settle an order once when it is approved twice at the same time', async () => {
+    const stored = pricedRedemption('order-1', 4);
+    orders.push(stored);
+
+    const results = await Promise.allSettled([
+      service.approveOrder(portfolioId, 'order-1', managerId),
+      service.approveOrder(portfolioId, 'order-1', managerId),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(redeemFromFund).toHaveBeenCalledTimes(1);
+    expect(holdingUnits).toBe(6);
+    expect(stored.status).toBe(FundOrderStatus.SETTLED);
+  });
+
+  it('should leave the second of two redemptions exceeding the holding priced', async () => {
+    const first = pricedRedemption('order-1', 6);
+    const second = pricedRedemption('order-2', 6);
+    orders.push(first, second);
+
+    await service.approveOrder(portfolioId, 'order-1', managerId);
+    await expect(service.approveOrder(portfolioId, 'order-2', managerId)).rejects.toThrow(BadRequestException);
+
+    expect(holdingUnits).toBe(4);
+    expect(first.status).toBe(FundOrderStatus.SETTLED);
+    expect(second).toMatchObject({ status: FundOrderStatus.PRICED, reviewedBy: null });
+  });
+
+  it('should not reject an order whose approval has already started', async () => {
+    const stored = pricedRedemption('order-1', 4);
+    orders.push(stored);
+
+    const results = await Promise.allSettled([
+      service.approveOrder(portfolioId, 'order-1', managerId),
+      service.rejectOrder(portfolioId, 'order-1', managerId, 'NAV error'),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(BadRequestException);
+    expect(redeemFromFund).toHaveBeenCalledTimes(1);
+    expect(stored.status).toBe(FundOrderStatus.SETTLED);
+    expect(stored.rejectionReason).toBeUndefined();
+  });
+
+  it('should reject an open order', async () => {
+    const stored = pricedRedemption('order-1', 4);
+    orders.push(stored);
+
+    const rejected = await service.rejectOrder(portfolioId, 'order-1', managerId, 'NAV error');
+
+    expect(rejected.status).toBe(FundOrderStatus.REJECTED);
+    expect(stored).toMatchObject({ status: FundOrderStatus.REJECTED, rejectionReason: 'NAV error', reviewedBy: managerId });
+  });
+});
@@ -0,0 +1,438 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, HttpException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import * as cron from 'node-cron';
+import { FundOrder, FundOrderType, FundOrderStatus } from '../entities/fund-order.entity';
+import { Portfolio } from '../entities/portfolio.entity';
+import { InvestorHolding } from '../entities/investor-holding.entity';
+import { DealingFrequency } from '../enums/dealing-frequency.enum';
+import { InvestorHoldingService } from './investor-holding.service';
+import { FundFeeService } from './fund-fee.service';
+import { NotificationGateway } from '../../../notification/notification.gateway';
+import {
+  DealingCalendar,
+  toLocalDateTime,
+  resolveDealingDate,
+  isDealingClosed,
+} from '../utils/dealing-calendar.util';
+import {
+  CreateFundOrderDto,
+  UpdateDealingCalendarDto,
+  DealingCalendarResponse,
+} from '../dto/fund-order.dto';
+
+const OPEN_STATUSES = [FundOrderStatus.PENDING, FundOrderStatus.PRICED];
+/** Orders whose units are not yet reflected in the holding */
+const UNSETTLED_STATUSES = [...OPEN_STATUSES, FundOrderStatus.SETTLING];
+const INVESTOR_ACTION_URL = '/investor';
+
+/**
+ * Service for fund subscription and redemption orders.
+ * Orders wait for the cut-off of their dealing day, are priced at the NAV per unit struck for that day,
+ * and settle through InvestorHoldingService once the fund manager approves them.
+ */
+@Injectable()
+export class FundOrderService {
+  private readonly logger = new Logger(FundOrderService.name);
+  private readonly cronExpression: string;
+  private readonly timezone: string;
+  private cronJob: cron.ScheduledTask | null = null;
+
+  constructor(
+    @InjectRepository(FundOrder)
+    private readonly fundOrderRepository: Repository<FundOrder>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    @InjectRepository(InvestorHolding)
+    private readonly investorHoldingRepository: Repository<InvestorHolding>,
+    private readonly investorHoldingService: InvestorHoldingService,
+    private readonly fundFeeService: FundFeeService,
+    private readonly notificationGateway: NotificationGateway,
+    private readonly configService: ConfigService,
+  ) {
+    this.cronExpression = this.configService.get<string>('FUND_ORDER_CRON', '30 18 * * *');
+    this.timezone = this.configService.get<string>('FUND_ORDER_TIMEZONE', 'Asia/Ho_Chi_Minh');
+    this.setupCronJob();
+  }
+
+  /**
+   * Price the pending orders of every dealing day whose cut-off has passed
+   */
+  private setupCronJob(): void {
+    try {
+      this.cronJob = cron.schedule(this.cronExpression, () => {
+        setImmediate(() => {
+          this.priceDueOrders().catch(error =>
+            this.logger.error(`Scheduled fund order pricing failed: ${error.message}`),
+          );
+        });
+      }, {
+        scheduled: true,
+        timezone: this.timezone,
+      });
+      this.logger.log(`Fund order pricing scheduled with expression: ${this.cronExpression}, timezone: ${this.timezone}`);
+    } catch (error) {
+      this.logger.error('Failed to setup fund order cron job:', error);
+    }
+  }
+
+  /**
+   * Place a subscription or redemption order for the next dealing day
+   */
+  async createOrder(portfolioId: string, accountId: string, dto: CreateFundOrderDto): Promise<FundOrder> {
+    const portfolio = await this.getFund(portfolioId);
+
+    if (dto.orderType === FundOrderType.SUBSCRIPTION) {
+      if (!dto.amount || dto.amount <= 0) {
+        throw new BadRequestException('Subscription amount must be greater than 0');
+      }
+    } else {
+      if (!dto.units || dto.units <= 0) {
+        throw new BadRequestException('Redemption units must be greater than 0');
+      }
+      const availableUnits = await this.getRedeemableUnits(portfolioId, accountId);
+      if (dto.units > availableUnits) {
+        throw new BadRequestException(
+          `Insufficient units. Available: ${availableUnits}, Requested: ${dto.units}`,
+        );
+      }
+    }
+
+    const now = toLocalDateTime(new Date(), this.timezone);
+    const order = await this.fundOrderRepository.save(
+      this.fundOrderRepository.create({
+        portfolioId,
+        accountId,
+        orderType: dto.orderType,
+        status: FundOrderStatus.PENDING,
+        amount: dto.orderType === FundOrderType.SUBSCRIPTION ? dto.amount : null,
+        units: dto.orderType === FundOrderType.REDEMPTION ? dto.units : null,
+        dealingDate: resolveDealingDate(now.date, now.time, this.toCalendar(portfolio)),
+        description: dto.description,
+      }),
+    );
+
+    await this.notify(
+      accountId,
+      'Fund order received',
+      `Your ${this.describe(order)} in ${portfolio.name} will be priced on ${order.dealingDate}`,
+      order,
+    );
+    if (portfolio.accountId !== accountId) {
+      await this.notify(
+        portfolio.accountId,
+        'New fund order',
+        `New ${this.describe(order)} in ${portfolio.name} for dealing day ${order.dealingDate}`,
+        order,
+      );
+    }
+
+    return order;
+  }
+
+  /**
+   * Orders of a fund, newest first; limited to one investor when accountId is given
+   */
+  async getOrders(portfolioId: string, accountId?: string): Promise<FundOrder[]> {
+    return this.fundOrderRepository.find({
+      where: accountId ? { portfolioId, accountId } : { portfolioId },
+      relations: ['account'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Pending, priced and settling orders awaiting the fund manager, oldest dealing day first
+   */
+  async getApprovalQueue(portfolioId: string): Promise<FundOrder[]> {
+    return this.fundOrderRepository.find({
+      where: { portfolioId, status: In(UNSETTLED_STATUSES) },
+      relations: ['account'],
+      order: { dealingDate: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Price the pending orders of every fund whose dealing day has closed
+   * @returns Number of orders priced
+   */
+  async priceDueOrders(): Promise<number> {
+    const rows = await this.fundOrderRepository
+      .createQueryBuilder('fundOrder')
+      .select('DISTINCT fundOrder.portfolioId', 'portfolioId')
+      .where('fundOrder.status = :status', { status: FundOrderStatus.PENDING })
+      .getRawMany();
+
+    let priced = 0;
+    for (const row of rows) {
+      try {
+        priced += (await this.priceOrders(row.portfolioId)).length;
+      } catch (error) {
+        this.logger.error(`Failed to price orders of portfolio ${row.portfolioId}: ${error.message}`);
+      }
+    }
+    return priced;
+  }
+
+  /**
+   * Price the pending orders of a fund whose dealing day has closed at the NAV per unit of that day
+   */
+  async priceOrders(portfolioId: string): Promise<FundOrder[]> {
+    const portfolio = await this.getFund(portfolioId);
+    const now = toLocalDateTime(new Date(), this.timezone);
+    const pending = await this.fundOrderRepository.find({
+      where: { portfolioId, status: FundOrderStatus.PENDING },
+      order: { dealingDate: 'ASC', createdAt: 'ASC' },
+    });
+    const due = pending.filter(order =>
+      isDealingClosed(order.dealingDate, now.date, now.time, portfolio.dealingCutOffTime),
+    );
+
+    const navByDate = new Map<string, number>();
+    const priced: FundOrder[] = [];
+    for (const order of due) {
+      if (!navByDate.has(order.dealingDate)) {
+        navByDate.set(order.dealingDate, await this.fundFeeService.getNetNavPerUnit(portfolioId, order.dealingDate));
+      }
+      const navPerUnit = navByDate.get(order.dealingDate);
+      if (!navPerUnit || navPerUnit <= 0) {
+        this.logger.warn(`No NAV per unit for portfolio ${portfolioId} on ${order.dealingDate}, order ${order.orderId} left pending`);
+        continue;
+      }
+
+      order.navPerUnit = navPerUnit;
+      if (order.orderType === FundOrderType.SUBSCRIPTION) {
+        order.units = round3(Number(order.amount) / navPerUnit);
+      } else {
+        order.amount = round3(Number(order.units) * navPerUnit);
+      }
+      order.status = FundOrderStatus.PRICED;
+      order.pricedAt = new Date();
+      priced.push(await this.fundOrderRepository.save(order));
+
+      await this.notify(
+        order.accountId,
+        'Fund order priced',
+        `Your ${this.describe(order)} in ${portfolio.name} was priced at ${navPerUnit} per unit and awaits approval`,
+        order,
+      );
+    }
+
+    if (priced.length > 0) {
+      this.logger.log(`Priced ${priced.length} orders of portfolio ${portfolioId}`);
+    }
+    return priced;
+  }
+
+  /**
+   * Approve a priced order, executing the subscription or redemption at its dealing-day price.
+   * The order moves to SETTLING first, so a repeated or concurrent approval cannot settle it twice.
+   */
+  async approveOrder(portfolioId: string, orderId: string, reviewerAccountId: string): Promise<FundOrder> {
+    const order = await this.getOrder(portfolioId, orderId);
+    if (order.status !== FundOrderStatus.PRICED) {
+      throw new BadRequestException(`Only priced orders can be approved, order is ${order.status}`);
+    }
+
+    const claimed = await this.fundOrderRepository.update(
+      { orderId, portfolioId, status: FundOrderStatus.PRICED },
+      { status: FundOrderStatus.SETTLING, reviewedBy: reviewerAccountId },
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('Order is already being settled');
+    }
+    order.status = FundOrderStatus.SETTLING;
+
+    try {
+      await this.settleOrder(order, reviewerAccountId);
+    } catch (error) {
+      // Validation errors are raised before anything is written, so the order can be approved again;
+      // anything else may have settled part of it and is left SETTLING for the fund manager to check
+      if (error instanceof HttpException) {
+        await this.fundOrderRepository.update(order.orderId, { status: FundOrderStatus.PRICED, reviewedBy: null });
+      } else {
+        this.logger.error(`Settlement of fund order ${order.orderId} failed and needs review: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const navPerUnit = Number(order.navPerUnit);
+    order.status = FundOrderStatus.SETTLED;
+    order.reviewedBy = reviewerAccountId;
+    order.settledAt = new Date();
+    const saved = await this.fundOrderRepository.save(order);
+
+    await this.notify(
+      order.accountId,
+      'Fund order settled',
+      `Your ${this.describe(order)} was settled: ${Number(order.units)} units at ${navPerUnit} per unit`,
+      order,
+    );
+    return saved;
+  }
+
+  /**
+   * Execute the subscription or redemption of an order and record the resulting units, amount and transaction
+   */
+  private async settleOrder(order: FundOrder, reviewerAccountId: string): Promise<void> {
+    const navPerUnit = Number(order.navPerUnit);
+    const description = order.description || `Fund order ${order.orderId}`;
+    const audit = { actorAccountId: reviewerAccountId, reason: `Fund order ${order.orderId} approved` };
+    if (order.orderType === FundOrderType.SUBSCRIPTION) {
+      const result = await this.investorHoldingService.subscribeToFund(
+        { accountId: order.accountId, portfolioId: order.portfolioId, amount: Number(order.amount), description },
+        order.dealingDate,
+        navPerUnit,
+        audit,
+      );
+      order.units = result.unitsIssued;
+      order.transactionId = result.transaction.transactionId;
+    } else {
+      const result = await this.investorHoldingService.redeemFromFund(
+        { accountId: order.accountId, portfolioId: order.portfolioId, units: Number(order.units), description },
+        order.dealingDate,
+        navPerUnit,
+        audit,
+      );
+      order.amount = result.amountReceived;
+      order.transactionId = result.transaction.transactionId;
+    }
+  }
+
+  /**
+   * Reject a pending or priced order
+   */
+  async rejectOrder(portfolioId: string, orderId: string, reviewerAccountId: string, reason: string): Promise<FundOrder> {
+    const order = await this.getOrder(portfolioId, orderId);
+    if (!OPEN_STATUSES.includes(order.status)) {
+      throw new BadRequestException(`Order is already ${order.status}`);
+    }
+
+    // Only an order that is still open can be rejected, so this cannot overwrite an approval that has started
+    const rejected = await this.fundOrderRepository.update(
+      { orderId, portfolioId, status: In(OPEN_STATUSES) },
+      { status: FundOrderStatus.REJECTED, rejectionReason: reason, reviewedBy: reviewerAccountId },
+    );
+    if (!rejected.affected) {
+      throw new BadRequestException('Order is already being settled');
+    }
+    order.status = FundOrderStatus.REJECTED;
+    order.rejectionReason = reason;
+    order.reviewedBy = reviewerAccountId;
+
+    await this.notify(
+      order.accountId,
+      'Fund order rejected',
+      `Your ${this.describe(order)} was rejected: ${reason}`,
+      order,
+    );
+    return order;
+  }
+
+  async getDealingCalendar(portfolioId: string): Promise<DealingCalendarResponse> {
+    const portfolio = await this.getFund(portfolioId);
+    return this.toCalendarResponse(portfolio);
+  }
+
+  /**
+   * Change the dealing calendar of a fund; pending orders keep their dealing day
+   */
+  async updateDealingCalendar(portfolioId: string, dto: UpdateDealingCalendarDto): Promise<DealingCalendarResponse> {
+    const portfolio = await this.getFund(portfolioId);
+    if (dto.frequency === DealingFrequency.WEEKLY && dto.dealingDay && dto.dealingDay > 5) {
+      throw new BadRequestException('Weekly dealing day must be between 1 (Monday) and 5 (Friday)');
+    }
+
+    portfolio.dealingFrequency = dto.frequency;
+    portfolio.dealingDay = dto.frequency === DealingFrequency.DAILY ? null : dto.dealingDay ?? null;
+    portfolio.dealingCutOffTime = dto.cutOffTime;
+    await this.portfolioRepository.save(portfolio);
+
+    return this.toCalendarResponse(portfolio);
+  }
+
+  /**
+   * Units an investor can still redeem: holding units less units in unsettled redemption orders
+   */
+  private async getRedeemableUnits(portfolioId: string, accountId: string): Promise<number> {
+    const holding = await this.investorHoldingRepository.findOne({ where: { portfolioId, accountId } });
+    if (!holding) {
+      throw new NotFoundException('No holding found for this investor in this fund');
+    }
+
+    const result = await this.fundOrderRepository
+      .createQueryBuilder('fundOrder')
+      .select('COALESCE(SUM(fundOrder.units), 0)', 'total')
+      .where('fundOrder.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('fundOrder.accountId = :accountId', { accountId })
+      .andWhere('fundOrder.orderType = :orderType', { orderType: FundOrderType.REDEMPTION })
+      .andWhere('fundOrder.status IN (:...statuses)', { statuses: UNSETTLED_STATUSES })
+      .getRawOne();
+
+    return round3(Number(holding.totalUnits) - Number(result?.total || 0));
+  }
+
+  private async getFund(portfolioId: string): Promise<Portfolio> {
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    if (!portfolio) {
+      throw new NotFoundException(`Portfolio ${portfolioId} not found`);
+    }
+    if (!portfolio.isFund) {
+      throw new BadRequestException('Portfolio is not a fund');
+    }
+    return portfolio;
+  }
+
+  private async getOrder(portfolioId: string, orderId: string): Promise<FundOrder> {
+    const order = await this.fundOrderRepository.findOne({ where: { portfolioId, orderId } });
+    if (!order) {
+      throw new NotFoundException(`Fund order ${orderId} not found`);
+    }
+    return order;
+  }
+
+  private toCalendar(portfolio: Portfolio): DealingCalendar {
+    return {
+      frequency: portfolio.dealingFrequency || DealingFrequency.DAILY,
+      dealingDay: portfolio.dealingDay,
+      cutOffTime: portfolio.dealingCutOffTime,
+    };
+  }
+
+  private toCalendarResponse(portfolio: Portfolio): DealingCalendarResponse {
+    const calendar = this.toCalendar(portfolio);
+    const now = toLocalDateTime(new Date(), this.timezone);
+    return {
+      frequency: calendar.frequency,
+      dealingDay: calendar.dealingDay ?? null,
+      cutOffTime: calendar.cutOffTime,
+      timezone: this.timezone,
+      nextDealingDate: resolveDealingDate(now.date, now.time, calendar),
+    };
+  }
+
+  private describe(order: FundOrder): string {
+    return order.orderType === FundOrderType.SUBSCRIPTION
+      ? `subscription of ${Number(order.amount)}`
+      : `redemption of ${Number(order.units)} units`;
+  }
+
+  private async notify(accountId: string, title: string, message: string, order: FundOrder): Promise<void> {
+    try {
+      await this.notificationGateway.sendPortfolioNotification(accountId, title, message, INVESTOR_ACTION_URL, {
+        orderId: order.orderId,
+        portfolioId: order.portfolioId,
+        orderType: order.orderType,
+        status: order.status,
+        dealingDate: order.dealingDate,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to send notification for fund order ${order.orderId}: ${error.message}`);
+    }
+  }
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
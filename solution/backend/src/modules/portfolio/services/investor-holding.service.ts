@@ -11,6 +11,11 @@ import { CashFlowService } from './cash-flow.service';
 import { NavUtilsService } from './nav-utils.service';
 import { PortfolioCalculationService } from './portfolio-calculation.service';
 import { DepositCalculationService } from '../../shared/services/deposit-calculation.service';
+import { FundFeeLiabilityService } from './fund-fee-liability.service';
+import { FundFeeCrystallizationService } from './fund-fee-crystallization.service';
+import { AuditTrailService, AuditContext } from './audit-trail.service';
+import { AuditAction, AuditEntityType } from '../entities/financial-audit-log.entity';
+import { blendHighWaterMark } from '../utils/fund-fee.util';
 import { HoldingDetailDto, FundUnitTransactionWithCashFlow, HoldingSummaryDto } from '../dto/holding-detail.dto';
 
 export interface SubscribeToFundDto {
@@ -63,13 +68,22 @@ export class InvestorHoldingService {
     private readonly navUtilsService: NavUtilsService,
     private readonly portfolioCalculationService: PortfolioCalculationService,
     private readonly depositCalculationService: DepositCalculationService,
+    private readonly fundFeeLiabilityService: FundFeeLiabilityService,
+    private readonly fundFeeCrystallizationService: FundFeeCrystallizationService,
+    private readonly auditTrailService: AuditTrailService,
   ) {}
 
   /**
    * Subscribe to a fund (buy fund units)
    * FIXED: Removed double update, fixed average cost calculation, added transaction wrapper
+   * @param pricedNavPerUnit - NAV per unit of a priced fund order; defaults to the NAV of the day before the subscription
    */
-  async subscribeToFund(dto: SubscribeToFundDto, subscriptionDate?: string): Promise<SubscriptionResult> {
+  async subscribeToFund(
+    dto: SubscribeToFundDto,
+    subscriptionDate?: string,
+    pricedNavPerUnit?: number,
+    audit?: AuditContext,
+  ): Promise<SubscriptionResult> {
     // this.logger.log(`Processing fund subscription: ${dto.accountId} -> ${dto.portfolioId}, amount: ${dto.amount}`);
 
     // Fix timezone issue: append 'T12:00:00' to ensure local time interpretation
@@ -77,6 +91,7 @@ export class InvestorHoldingService {
 
     // 1. Validate inputs
     await this.validateSubscription(dto);
+    await this.auditTrailService.assertPeriodOpen(dto.portfolioId, subDate, dto.subscriptionDate);
 
     // 2. Get portfolio and account
     const portfolio = await this.portfolioRepository.findOne({
@@ -97,7 +112,7 @@ export class InvestorHoldingService {
     // Ngày nhận tiền hôm nay thì tính theo nav của ngày trước
     // VD: khách đăng ký: 20/10, ghi nhận cash in: 21/10, NAV/Unit: 20/10
     const navDate = new Date(subDate.getTime() - (24 * 60 * 60 * 1000));
-    const navPerUnit = Number(await this.calculateNavPerUnit(dto.portfolioId, navDate));
+    const navPerUnit = pricedNavPerUnit ?? Number(await this.calculateNavPerUnit(dto.portfolioId, navDate));
     if (navPerUnit <= 0) {
       throw new BadRequestException('Invalid NAV per unit. Fund may not be properly initialized.');
     }
@@ -125,6 +140,8 @@ export class InvestorHoldingService {
           currentValue: Math.round(dto.amount * 1000) / 1000,
           unrealizedPnL: 0,
           realizedPnL: 0,
+          highWaterMark: Math.round(navPerUnit * 1000) / 1000,
+          highWaterMarkDate: normalizeDateToString(subDate),
         });
       } else {
         // FIXED: Calculate weighted average cost correctly
@@ -142,6 +159,10 @@ export class InvestorHoldingService {
         
         const newCurrentValue = newTotalUnits * navPerUnit;
         const newUnrealizedPnL = newCurrentValue - newTotalInvestment;
+
+        // New units start at the subscription NAV, so the performance fee only applies to their own gain
+        const currentHighWaterMark = Number(holding.highWaterMark) || currentAvgCostPerUnit;
+        const newHighWaterMark = blendHighWaterMark(currentTotalUnits, currentHighWaterMark, unitsIssued, navPerUnit);
         
         // Validate calculated values
         if (isNaN(newTotalUnits) || isNaN(newTotalInvestment) || isNaN(newAvgCost) || isNaN(newCurrentValue) || isNaN(newUnrealizedPnL)) {
@@ -156,6 +177,8 @@ export class InvestorHoldingService {
           totalInvestment: Math.round(newTotalInvestment * 1000) / 1000,
           currentValue: Math.round(newCurrentValue * 1000) / 1000,
           unrealizedPnL: Math.round(newUnrealizedPnL * 1000) / 1000,
+          highWaterMark: Math.round(newHighWaterMark * 1000) / 1000,
+          highWaterMarkDate: holding.highWaterMarkDate || normalizeDateToString(subDate),
         });
 
         // Reload holding to get updated values
@@ -200,6 +223,8 @@ export class InvestorHoldingService {
       await this.updatePortfolioNavPerUnit(dto.portfolioId, subDate);
       await this.updatePortfolioNumberOfInvestors(dto.portfolioId, subDate);
 
+      await this.recordTransactionAudit(dto.portfolioId, AuditAction.CREATE, null, { ...transaction, cashFlowId: cashFlow.cashFlowId }, audit);
+
       this.logger.log(`Fund subscription completed: ${unitsIssued.toFixed(3)} units issued at ${navPerUnit.toFixed(3)} per unit`);
 
       return {
@@ -237,8 +262,14 @@ export class InvestorHoldingService {
   /**
    * Redeem from a fund (sell fund units)
    * FIXED: Corrected total investment calculation, added transaction wrapper, fixed P&L logic
+   * @param pricedNavPerUnit - NAV per unit of a priced fund order; defaults to the NAV of the redemption date
    */
-  async redeemFromFund(dto: RedeemFromFundDto, redemptionDate?: string): Promise<RedemptionResult> {
+  async redeemFromFund(
+    dto: RedeemFromFundDto,
+    redemptionDate?: string,
+    pricedNavPerUnit?: number,
+    audit?: AuditContext,
+  ): Promise<RedemptionResult> {
     this.logger.log(`Processing fund redemption: ${dto.accountId} -> ${dto.portfolioId}, units: ${dto.units}`);
 
     // Fix timezone issue: append 'T12:00:00' to ensure local time interpretation
@@ -246,6 +277,7 @@ export class InvestorHoldingService {
 
     // 1. Validate inputs
     await this.validateRedemption(dto);
+    await this.auditTrailService.assertPeriodOpen(dto.portfolioId, rdDate, dto.redemptionDate);
 
     // 2. Get holding and portfolio
     const holding = await this.investorHoldingRepository.findOne({
@@ -270,7 +302,7 @@ export class InvestorHoldingService {
     }
 
     // 3. Calculate NAV per unit
-    const navPerUnit = Number(await this.calculateNavPerUnit(dto.portfolioId, rdDate));
+    const navPerUnit = pricedNavPerUnit ?? Number(await this.calculateNavPerUnit(dto.portfolioId, rdDate));
     if (navPerUnit <= 0) {
       throw new BadRequestException('Invalid NAV per unit. Fund may not be properly initialized.');
     }
@@ -351,11 +383,16 @@ export class InvestorHoldingService {
         where: { holdingId: holding.holdingId }
       });
 
-      // 9. Update Portfolio metrics
+      // 9. Pay the performance fee accrued on the redeemed units
+      await this.fundFeeCrystallizationService.crystallizeOnRedemption(holding, dto.units, currentTotalUnits, rdDate);
+
+      // 10. Update Portfolio metrics
       await this.updateTotalOutstandingUnits(dto.portfolioId, rdDate);
       await this.updatePortfolioNavPerUnit(dto.portfolioId, rdDate);
       await this.updatePortfolioNumberOfInvestors(dto.portfolioId, rdDate);
 
+      await this.recordTransactionAudit(dto.portfolioId, AuditAction.CREATE, null, { ...transaction, cashFlowId: cashFlow.cashFlowId }, audit);
+
       this.logger.log(`Fund redemption completed: ${dto.units.toFixed(3)} units redeemed at ${navPerUnit.toFixed(3)} per unit`);
 
       return {
@@ -652,9 +689,10 @@ export class InvestorHoldingService {
       return Number(portfolio.navPerUnit) || 0;
     }
 
-    // Use real-time calculated NAV value instead of stored database value
+    // Use real-time calculated NAV value instead of stored database value, net of accrued fund fees
     const realTimeNavValue = await this.calculateRealTimeNavValue(portfolioId, snapshotDate);
-    const navPerUnit = realTimeNavValue / Number(portfolio.totalOutstandingUnits);
+    const accruedFees = await this.fundFeeLiabilityService.getAccruedFeeLiability(portfolioId, snapshotDate);
+    const navPerUnit = Math.max(realTimeNavValue - accruedFees, 0) / Number(portfolio.totalOutstandingUnits);
 
     // this.logger.debug(`Nav per unit for portfolio ${portfolioId} at snapshot date ${snapshotDate ? snapshotDate.toISOString() : new Date().toISOString()} :
     // ${navPerUnit} (Real-time NAV: ${realTimeNavValue} / Total outstanding units: ${portfolio.totalOutstandingUnits})`);
@@ -944,9 +982,9 @@ export class InvestorHoldingService {
 
 
   /**
-   * Calculate real-time NAV value for portfolio
+   * Calculate real-time NAV value for portfolio, before accrued fund fees
    */
-  private async calculateRealTimeNavValue(portfolioId: string, snapshotDate?: Date): Promise<number> {
+  async calculateRealTimeNavValue(portfolioId: string, snapshotDate?: Date): Promise<number> {
     // Get portfolio
     const portfolio = await this.portfolioRepository.findOne({
       where: { portfolioId }
@@ -1008,8 +1046,9 @@ export class InvestorHoldingService {
     let realTimeNavValue = 0;
     
     if (!isNavPerUnitValid || isNavPerUnitStale || forceRefresh) {
-      // Calculate real-time NAV value
+      // Calculate real-time NAV value, net of accrued fund fees
       realTimeNavValue = await this.calculateRealTimeNavValue(portfolioId);
+      realTimeNavValue = Math.max(realTimeNavValue - await this.fundFeeLiabilityService.getAccruedFeeLiability(portfolioId), 0);
       const outstandingUnits = typeof portfolio.totalOutstandingUnits === 'string' 
         ? parseFloat(portfolio.totalOutstandingUnits) 
         : portfolio.totalOutstandingUnits;
@@ -1190,15 +1229,18 @@ export class InvestorHoldingService {
       amount?: number;
       description?: string;
       transactionDate?: string;
-    }
+    },
+    audit?: AuditContext,
   ): Promise<FundUnitTransaction> {
     const transaction = await this.fundUnitTransactionRepository.findOne({
-      where: { transactionId }
+      where: { transactionId },
+      relations: ['holding']
     });
 
     if (!transaction) {
       throw new NotFoundException(`Fund unit transaction with ID ${transactionId} not found`);
     }
+    const before = { ...transaction };
 
     // Update transaction fields
     if (updateData.units !== undefined) {
@@ -1224,6 +1266,7 @@ export class InvestorHoldingService {
       transaction.updatedAt = transactionDate;
     }
 
+    await this.auditTrailService.assertPeriodOpen(transaction.holding.portfolioId, before.createdAt, transactionDate);
 
     // Update cash flow if it exists and we have updates for it
     if (transaction.cashFlowId && (updateData.description !== undefined || updateData.transactionDate !== undefined)) {
@@ -1269,6 +1312,8 @@ export class InvestorHoldingService {
       }
     }
 
+    await this.recordTransactionAudit(transaction.holding.portfolioId, AuditAction.UPDATE, before, updatedTransaction, audit);
+
     // this.logger.log(`Updated fund unit transaction ${transactionId}`);
     return updatedTransaction;
   }
@@ -1276,7 +1321,7 @@ export class InvestorHoldingService {
   /**
    * Delete a fund unit transaction
    */
-  async deleteHoldingTransaction(transactionId: string): Promise<void> {
+  async deleteHoldingTransaction(transactionId: string, audit?: AuditContext): Promise<void> {
     const transaction = await this.fundUnitTransactionRepository.findOne({
       where: { transactionId },
       relations: ['holding']
@@ -1286,6 +1331,8 @@ export class InvestorHoldingService {
       throw new NotFoundException(`Fund unit transaction with ID ${transactionId} not found`);
     }
 
+    await this.auditTrailService.assertPeriodOpen(transaction.holding.portfolioId, transaction.createdAt);
+
     // Delete associated cash flow if it exists
     if (transaction.cashFlowId) {
       try {
@@ -1311,10 +1358,29 @@ export class InvestorHoldingService {
     // Recalculate holding metrics after transaction deletion
     await this.recalculateHoldingMetrics(transaction.holdingId);
 
+    await this.recordTransactionAudit(portfolioId, AuditAction.DELETE, transaction, null, audit);
+
     this.logger.log(`Updated portfolio metrics after transaction ${transactionId} deletion`);
     this.logger.log(`Deleted fund unit transaction ${transactionId}`);
   }
 
+  private async recordTransactionAudit(
+    portfolioId: string,
+    action: AuditAction,
+    before: Partial<FundUnitTransaction> | null,
+    after: Partial<FundUnitTransaction> | null,
+    audit?: AuditContext,
+  ): Promise<void> {
+    await this.auditTrailService.record({
+      portfolioId,
+      entityType: AuditEntityType.FUND_UNIT_TRANSACTION,
+      entityId: (after || before).transactionId,
+      action,
+      before,
+      after,
+    }, audit);
+  }
+
   /**
    * Recalculate holding metrics after transaction changes
    */
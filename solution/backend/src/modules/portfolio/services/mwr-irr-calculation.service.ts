@@ -88,6 +88,32 @@ export class MWRIRRCalculationService {
     }
   }
 
+  /**
+   * Calculate portfolio MWR between two dates, starting from the value at the end of the day before startDate
+   * @returns MWR in percent
+   */
+  async calculatePortfolioMWRForRange(
+    portfolioId: string,
+    startDate: Date,
+    endDate: Date,
+    granularity: SnapshotGranularity = SnapshotGranularity.DAILY
+  ): Promise<number> {
+    const from = new Date(startDate);
+    from.setDate(from.getDate() - 1);
+    from.setHours(0, 0, 0, 0);
+    const to = new Date(endDate);
+    to.setHours(23, 59, 59, 999);
+
+    const cashFlows = await this.getCashFlowsForPeriod(portfolioId, from, to);
+    const portfolioValues = await this.getPortfolioValuesForPeriod(portfolioId, from, to, granularity);
+
+    if (cashFlows.length === 0 || portfolioValues.length < 2) {
+      return 0;
+    }
+
+    return Number(this.calculateMWRFromData(cashFlows, portfolioValues, to).toFixed(4));
+  }
+
   /**
    * Calculate MWR and IRR for specific asset across multiple timeframes
    */
@@ -1,4 +1,4 @@
-import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
 import { PortfolioPerformanceSnapshot } from '../entities/portfolio-performance-snapshot.entity';
@@ -14,6 +14,8 @@ import { MWRIRRCalculationService } from './mwr-irr-calculation.service';
 import { AlphaBetaCalculationService } from './alpha-beta-calculation.service';
 import { RiskMetricsCalculationService } from './risk-metrics-calculation.service';
 import { CashFlowService } from './cash-flow.service';
+import { AuditTrailService } from './audit-trail.service';
+import { BenchmarkService, DEFAULT_BENCHMARK_ID } from './benchmark.service';
 import { normalizeDateToString, compareDates } from '../utils/date-normalization.util';
 import { PaginationDto, PaginatedResponseDto } from '../dto/pagination.dto';
 
@@ -68,7 +70,9 @@ export class PerformanceSnapshotService {
     private readonly mwrIrrCalculationService: MWRIRRCalculationService,
     private readonly alphaBetaCalculationService: AlphaBetaCalculationService,
     private readonly riskMetricsCalculationService: RiskMetricsCalculationService,
+    private readonly benchmarkService: BenchmarkService,
     private readonly cashFlowService: CashFlowService,
+    private readonly auditTrailService: AuditTrailService,
   ) {}
 
   /**
@@ -85,6 +89,7 @@ export class PerformanceSnapshotService {
     if (!date || isNaN(date.getTime())) {
       throw new Error(`Invalid snapshot date: ${snapshotDate}`);
     }
+    await this.auditTrailService.assertSnapshotsOpen(portfolioId, date);
     
     this.logger.log(`Creating performance snapshots for portfolio ${portfolioId} on ${date.toISOString().split('T')[0]}`);
 
@@ -147,11 +152,11 @@ export class PerformanceSnapshotService {
       granularity
     });
 
-    // Calculate Alpha/Beta metrics (using default benchmark for now)
+    // Calculate Alpha/Beta metrics (against the default VN-Index benchmark)
     console.log('� Calculating portfolio Alpha/Beta...');
     const alphaBetaMetrics = await this.alphaBetaCalculationService.calculatePortfolioAlphaBeta({
       portfolioId,
-      benchmarkId: '6aedff6c-69e5-440f-8813-c1c3bf1f96df', // Default benchmark UUID
+      benchmarkId: DEFAULT_BENCHMARK_ID,
       snapshotDate,
       granularity
     });
@@ -267,11 +272,11 @@ export class PerformanceSnapshotService {
         portfolioId, asset.id, snapshotDate, granularity
       );
 
-      // Calculate asset Alpha/Beta metrics (using default benchmark for now)
+      // Calculate asset Alpha/Beta metrics (against the default VN-Index benchmark)
       const alphaBetaMetrics = await this.alphaBetaCalculationService.calculateAssetAlphaBeta({
         portfolioId,
         assetId: asset.id,
-        benchmarkId: '6aedff6c-69e5-440f-8813-c1c3bf1f96df', // vietcombank
+        benchmarkId: DEFAULT_BENCHMARK_ID,
         snapshotDate,
         granularity
       });
@@ -380,11 +385,11 @@ export class PerformanceSnapshotService {
         portfolioId, assetType, snapshotDate, granularity
       );
 
-      // Calculate group Alpha/Beta metrics (using default benchmark for now)
+      // Calculate group Alpha/Beta metrics (against the default VN-Index benchmark)
       const alphaBetaMetrics = await this.alphaBetaCalculationService.calculateAssetGroupAlphaBeta({
         portfolioId,
         assetType,
-        benchmarkId: '6aedff6c-69e5-440f-8813-c1c3bf1f96df', // Vietcombank
+        benchmarkId: DEFAULT_BENCHMARK_ID,
         snapshotDate,
         granularity
       });
@@ -554,54 +559,23 @@ export class PerformanceSnapshotService {
   }
 
   /**
-   * Get benchmark data for specific date
-   */
-  /**
-   * Get benchmark data using market data API
-   * FIXED: Implement benchmark data retrieval using getMarketDataReturnsHistoryForBenchmarkFromAPI
+   * Get 1-year return, volatility and drawdown of the default benchmark up to the snapshot date,
+   * computed from the stored benchmark series
    */
   private async getBenchmarkData(snapshotDate: Date): Promise<any> {
     try {
-      // TODO: Implement benchmark data retrieval logic
-      return {};
-
-      const benchmarkData = [];
-
-      // Calculate benchmark metrics from raw data
-      const returns = benchmarkData.map(item => Number(item.return || 0));
-      const benchmarkReturn = returns.length > 0 ? returns.reduce((sum, ret) => sum + ret, 0) / returns.length : 0;
-      
-      // Calculate volatility (standard deviation)
-      const mean = benchmarkReturn;
-      const variance = returns.length > 0 ? 
-        returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / returns.length : 0;
-      const benchmarkVolatility = Math.sqrt(variance);
-
-      // Calculate Sharpe ratio (simplified - assuming risk-free rate = 0)
-      const benchmarkSharpeRatio = benchmarkVolatility > 0 ? benchmarkReturn / benchmarkVolatility : 0;
-
-      // Calculate max drawdown (simplified)
-      let maxDrawdown = 0;
-      let peak = 0;
-      let cumulativeReturn = 0;
-      
-      for (const ret of returns) {
-        cumulativeReturn += ret;
-        if (cumulativeReturn > peak) {
-          peak = cumulativeReturn;
-        }
-        const drawdown = peak - cumulativeReturn;
-        if (drawdown > maxDrawdown) {
-          maxDrawdown = drawdown;
-        }
-      }
+      const startDate = new Date(snapshotDate);
+      startDate.setFullYear(startDate.getFullYear() - 1);
+      const metrics = await this.benchmarkService.getMetrics(DEFAULT_BENCHMARK_ID, startDate, snapshotDate);
 
       return {
-        benchmarkReturn: Number(benchmarkReturn.toFixed(4)),
-        benchmarkVolatility: Number(benchmarkVolatility.toFixed(4)),
-        benchmarkSharpeRatio: Number(benchmarkSharpeRatio.toFixed(4)),
-        benchmarkMaxDrawdown: Number(maxDrawdown.toFixed(4)),
-        dataPoints: returns.length
+        benchmarkId: metrics.benchmarkId,
+        benchmarkName: metrics.benchmarkName,
+        benchmarkReturn: metrics.totalReturn,
+        benchmarkVolatility: metrics.volatility,
+        benchmarkSharpeRatio: metrics.volatility > 0 ? Number((metrics.totalReturn / metrics.volatility).toFixed(4)) : 0,
+        benchmarkMaxDrawdown: metrics.maxDrawdown,
+        dataPoints: metrics.dataPoints
       };
 
     } catch (error) {
@@ -918,6 +892,7 @@ export class PerformanceSnapshotService {
     endDate: Date,
     granularity?: SnapshotGranularity
   ): Promise<{ deletedCount: number; message: string }> {
+    await this.auditTrailService.assertSnapshotsOpen(portfolioId, startDate);
     this.logger.log(`Deleting performance snapshots for portfolio ${portfolioId} from ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
 
     let deletedCount = 0;
@@ -980,6 +955,10 @@ export class PerformanceSnapshotService {
     portfolioId: string,
     granularity: SnapshotGranularity
   ): Promise<{ deletedCount: number; message: string }> {
+    const { lockedThroughDate } = await this.auditTrailService.getPeriodLock(portfolioId);
+    if (lockedThroughDate) {
+      throw new ConflictException(`Snapshots through ${lockedThroughDate} are frozen; delete a date range after the closed period instead`);
+    }
     this.logger.log(`Deleting performance snapshots for portfolio ${portfolioId} with granularity ${granularity}`);
 
     let deletedCount = 0;
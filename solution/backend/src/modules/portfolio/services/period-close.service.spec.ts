@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { PeriodCloseService } from './period-close.service';
+import { AuditTrailService } from './audit-trail.service';
+import { PeriodClose, PeriodCloseStatus } from '../entities/period-close.entity';
+import { PortfolioSnapshot } from '../entities/portfolio-snapshot.entity';
+import { NavSnapshot } from '../entities/nav-snapshot.entity';
+import { FundUnitTransaction } from '../entities/fund-unit-transaction.entity';
+import { FinancialAuditLog } from '../entities/financial-audit-log.entity';
+
+describe('PeriodCloseService', () => {
+  let service: PeriodCloseService;
+  let closes: PeriodClose[];
+  let lockedThroughDate: string | null;
+  let setPeriodLock: jest.Mock;
+  let manager: { getRepository: () => any };
+  const portfolioId = 'bbbbbbbb-0000-4000-8000-000000000002';
+  const accountId = 'aaaaaaaa-0000-4000-8000-000000000001';
+
+  // Query builder that chains every call and returns no rows
+  const emptyQueryBuilder = () => {
+    const query: any = new Proxy({}, {
+      get: (_target, key) => (key === 'getMany' || key === 'getRawMany' ? async () => [] : () => query),
+    });
+    return query;
+  };
+
+  beforeEach(async () => {
+    closes = [];
+    lockedThroughDate = null;
+    setPeriodLock = jest.fn(async (_portfolioId: string, date: string | null) => {
+      lockedThroughDate = date;
+      return { portfolioId, lockedThroughDate: date };
+    });
+
+    const periodCloseRepository = {
+      create: (data: Partial<PeriodClose>) => Object.assign(new PeriodClose(), data),
+      save: async (close: PeriodClose) => {
+        if (!close.periodCloseId) {
+          close.periodCloseId = `close-${closes.length + 1}`;
+          closes.push(close);
+        }
+        return close;
+      },
+      findOne: async ({ where, order }: any) => closes
+        .filter(close => Object.entries(where).every(([key, value]) => close[key] === value))
+        .sort((a, b) => (order ? b.periodEnd.localeCompare(a.periodEnd) : 0))[0] || null,
+    };
+    manager = { getRepository: () => periodCloseRepository };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PeriodCloseService,
+        { provide: getRepositoryToken(PeriodClose), useValue: periodCloseRepository },
+        { provide: getRepositoryToken(PortfolioSnapshot), useValue: { createQueryBuilder: emptyQueryBuilder } },
+        { provide: getRepositoryToken(NavSnapshot), useValue: { createQueryBuilder: emptyQueryBuilder } },
+        { provide: getRepositoryToken(FundUnitTransaction), useValue: { createQueryBuilder: emptyQueryBuilder } },
+        { provide: getRepositoryToken(FinancialAuditLog), useValue: { find: async () => [] } },
+        {
+          provide: AuditTrailService,
+          useValue: {
+            getPeriodLock: async () => ({ portfolioId, lockedThroughDate }),
+            setPeriodLock,
+          },
+        },
+        { provide: DataSource, useValue: { transaction: async (work: (manager: any) => Promise<any>) => work(manager) } },
+      ],
+    }).compile();
+
+    service = module.get<PeriodCloseService>(PeriodCloseService);
+  });
+
+  it('should lock the portfolio through the end of a closed period', async () => {
+    const close = await service.closePeriod(portfolioId, '2024-01-31', accountId);
+
+    expect(close).toMatchObject({ periodEnd: '2024-01-31', previousPeriodEnd: null, status: PeriodCloseStatus.CLOSED });
+    expect(setPeriodLock).toHaveBeenCalledWith(
+      portfolioId,
+      '2024-01-31',
+      expect.objectContaining({ actorAccountId: accountId }),
+      manager,
+    );
+    await expect(service.closePeriod(portfolioId, '2024-01-15', accountId)).rejects.toThrow(ConflictException);
+    await expect(service.closePeriod(portfolioId, '2999-12-31', accountId)).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reopen the latest period first and move the lock back', async () => {
+    const january = await service.closePeriod(portfolioId, '2024-01-31', accountId);
+    const february = await service.closePeriod(portfolioId, '2024-02-29', accountId);
+
+    await expect(service.reopenPeriod(portfolioId, february.periodCloseId, ' ', accountId))
+      .rejects.toThrow(BadRequestException);
+    await expect(service.reopenPeriod(portfolioId, january.periodCloseId, 'Fix January', accountId))
+      .rejects.toThrow(ConflictException);
+
+    const reopened = await service.reopenPeriod(portfolioId, february.periodCloseId, 'Backdated trade', accountId);
+    expect(reopened).toMatchObject({ status: PeriodCloseStatus.REOPENED, reopenReason: 'Backdated trade' });
+    expect(lockedThroughDate).toBe('2024-01-31');
+    await expect(service.assertLockOutsideClosedPeriods(portfolioId, null)).rejects.toThrow(ConflictException);
+  });
+
+  it('should move the lock and save the close record in one transaction', async () => {
+    const writes: string[] = [];
+    const repository = manager.getRepository();
+    manager.getRepository = () => ({
+      ...repository,
+      save: async (close: PeriodClose) => {
+        writes.push(`save ${close.status}`);
+        return repository.save(close);
+      },
+    });
+    setPeriodLock.mockImplementation(async (_portfolioId: string, date: string | null, _context: unknown, lockManager: unknown) => {
+      writes.push(`lock ${date} ${lockManager === manager ? 'in transaction' : 'outside transaction'}`);
+      lockedThroughDate = date;
+      return { portfolioId, lockedThroughDate: date };
+    });
+
+    const close = await service.closePeriod(portfolioId, '2024-01-31', accountId);
+    await service.reopenPeriod(portfolioId, close.periodCloseId, 'Backdated trade', accountId);
+
+    expect(writes).toEqual([
+      'lock 2024-01-31 in transaction',
+      `save ${PeriodCloseStatus.CLOSED}`,
+      'lock null in transaction',
+      `save ${PeriodCloseStatus.REOPENED}`,
+    ]);
+  });
+});
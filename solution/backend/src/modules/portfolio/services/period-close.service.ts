@@ -0,0 +1,301 @@
+import { Injectable, BadRequestException, ConflictException, NotFoundException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, MoreThanOrEqual, Repository } from 'typeorm';
+import {
+  PeriodClose,
+  PeriodCloseStatus,
+  PeriodClosingBalances,
+  ClosedInvestorUnits,
+} from '../entities/period-close.entity';
+import { PortfolioSnapshot } from '../entities/portfolio-snapshot.entity';
+import { NavSnapshot } from '../entities/nav-snapshot.entity';
+import { FundUnitTransaction, HoldingType } from '../entities/fund-unit-transaction.entity';
+import { CashFlow } from '../entities/cash-flow.entity';
+import { FinancialAuditLog, AuditEntityType } from '../entities/financial-audit-log.entity';
+import { AuditTrailService } from './audit-trail.service';
+import { PeriodCloseResponse, PeriodReopenImpact } from '../dto/period-close.dto';
+import {
+  RECORD_DATE_FIELDS,
+  auditedRecordDates,
+  diffInvestorUnits,
+  earliestDateInPeriod,
+} from '../utils/period-close.util';
+import { normalizeDateToString } from '../utils/date-normalization.util';
+
+/**
+ * Service for closing accounting periods of a portfolio.
+ * Closing a period locks its trades, cash flows, deposits and fund unit transactions, freezes its snapshots
+ * and NAV, and keeps its reported figures. Periods are reopened latest first, with a reason.
+ */
+@Injectable()
+export class PeriodCloseService {
+  private readonly logger = new Logger(PeriodCloseService.name);
+
+  constructor(
+    @InjectRepository(PeriodClose)
+    private readonly periodCloseRepository: Repository<PeriodClose>,
+    @InjectRepository(PortfolioSnapshot)
+    private readonly portfolioSnapshotRepository: Repository<PortfolioSnapshot>,
+    @InjectRepository(NavSnapshot)
+    private readonly navSnapshotRepository: Repository<NavSnapshot>,
+    @InjectRepository(FundUnitTransaction)
+    private readonly fundUnitTransactionRepository: Repository<FundUnitTransaction>,
+    @InjectRepository(FinancialAuditLog)
+    private readonly auditLogRepository: Repository<FinancialAuditLog>,
+    private readonly auditTrailService: AuditTrailService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Closed and reopened periods of a portfolio, latest first
+   */
+  async getPeriodCloses(portfolioId: string): Promise<PeriodCloseResponse[]> {
+    const closes = await this.periodCloseRepository.find({
+      where: { portfolioId },
+      order: { periodEnd: 'DESC', closedAt: 'DESC' },
+    });
+    return closes.map(close => this.mapToResponse(close));
+  }
+
+  /**
+   * Close the period that ends on periodEnd and starts after the current locked period
+   */
+  async closePeriod(portfolioId: string, periodEnd: string, actorAccountId?: string): Promise<PeriodCloseResponse> {
+    if (periodEnd > normalizeDateToString(new Date())) {
+      throw new BadRequestException('A period can only be closed once it has ended');
+    }
+
+    const { lockedThroughDate } = await this.auditTrailService.getPeriodLock(portfolioId);
+    if (lockedThroughDate && periodEnd <= lockedThroughDate) {
+      throw new ConflictException(`The portfolio is already locked through ${lockedThroughDate}`);
+    }
+
+    const closingBalances = await this.captureClosingBalances(portfolioId, lockedThroughDate, periodEnd);
+    // The lock and the close record move together, so a failed save leaves the period open
+    const close = await this.dataSource.transaction(async (manager) => {
+      await this.auditTrailService.setPeriodLock(portfolioId, periodEnd, {
+        actorAccountId,
+        reason: `Period closed through ${periodEnd}`,
+      }, manager);
+
+      const periodCloseRepository = manager.getRepository(PeriodClose);
+      return periodCloseRepository.save(periodCloseRepository.create({
+        portfolioId,
+        periodEnd,
+        previousPeriodEnd: lockedThroughDate,
+        status: PeriodCloseStatus.CLOSED,
+        closingBalances,
+        closedBy: actorAccountId || null,
+        closedAt: new Date(),
+      }));
+    });
+
+    this.logger.log(`Closed period through ${periodEnd} for portfolio ${portfolioId}`);
+    return this.mapToResponse(close);
+  }
+
+  /**
+   * Reopen the latest closed period; the lock moves back to where it was before the period was closed
+   */
+  async reopenPeriod(
+    portfolioId: string,
+    periodCloseId: string,
+    reason: string,
+    actorAccountId?: string,
+  ): Promise<PeriodCloseResponse> {
+    if (!reason?.trim()) {
+      throw new BadRequestException('A reason is required to reopen a closed period');
+    }
+
+    const close = await this.findPeriodClose(portfolioId, periodCloseId);
+    if (close.status !== PeriodCloseStatus.CLOSED) {
+      throw new ConflictException(`The period through ${close.periodEnd} is already reopened`);
+    }
+    const latest = await this.findLatestClosed(portfolioId);
+    if (latest && latest.periodCloseId !== close.periodCloseId) {
+      throw new ConflictException(`Reopen the period closed through ${latest.periodEnd} first`);
+    }
+
+    close.status = PeriodCloseStatus.REOPENED;
+    close.reopenedBy = actorAccountId || null;
+    close.reopenedAt = new Date();
+    close.reopenReason = reason.trim();
+    const reopened = await this.dataSource.transaction(async (manager) => {
+      await this.auditTrailService.setPeriodLock(portfolioId, close.previousPeriodEnd ?? null, { actorAccountId, reason }, manager);
+      return manager.getRepository(PeriodClose).save(close);
+    });
+
+    this.logger.log(`Reopened period through ${close.periodEnd} for portfolio ${portfolioId}`);
+    return this.mapToResponse(reopened);
+  }
+
+  /**
+   * Snapshots, NAV and investor units of a reopened period that the changes made since it was reopened affect
+   */
+  async getReopenImpact(portfolioId: string, periodCloseId: string): Promise<PeriodReopenImpact> {
+    const close = await this.findPeriodClose(portfolioId, periodCloseId);
+    if (close.status !== PeriodCloseStatus.REOPENED) {
+      throw new BadRequestException(`The period through ${close.periodEnd} has not been reopened`);
+    }
+
+    const entries = await this.auditLogRepository.find({
+      where: {
+        portfolioId,
+        entityType: In(Object.keys(RECORD_DATE_FIELDS) as AuditEntityType[]),
+        createdAt: MoreThanOrEqual(close.reopenedAt),
+      },
+      order: { createdAt: 'ASC' },
+    });
+
+    const changes: FinancialAuditLog[] = [];
+    let earliestChangedDate: string | null = null;
+    for (const entry of entries) {
+      const date = earliestDateInPeriod(auditedRecordDates(entry), close.previousPeriodEnd, close.periodEnd);
+      if (!date) {
+        continue;
+      }
+      changes.push(entry);
+      if (!earliestChangedDate || date < earliestChangedDate) {
+        earliestChangedDate = date;
+      }
+    }
+
+    const laterSnapshotCount = earliestChangedDate
+      ? await this.portfolioSnapshotRepository.createQueryBuilder('snapshot')
+        .where('snapshot.portfolioId = :portfolioId', { portfolioId })
+        .andWhere('snapshot.isActive = true')
+        .andWhere('snapshot.snapshotDate > :periodEnd', { periodEnd: close.periodEnd })
+        .getCount()
+      : 0;
+    const { snapshots, navSnapshots, investorUnits } = close.closingBalances;
+
+    return {
+      periodCloseId: close.periodCloseId,
+      periodEnd: close.periodEnd,
+      reopenedAt: close.reopenedAt,
+      changes,
+      earliestChangedDate,
+      snapshots: earliestChangedDate ? snapshots.filter(snapshot => snapshot.snapshotDate >= earliestChangedDate) : [],
+      navSnapshots: earliestChangedDate ? navSnapshots.filter(nav => nav.navDate >= earliestChangedDate) : [],
+      laterSnapshotCount,
+      investorUnits: diffInvestorUnits(investorUnits, await this.getInvestorUnits(portfolioId, close.periodEnd)),
+    };
+  }
+
+  /**
+   * Reject moving the locked period back into a closed period, which has to be reopened instead
+   */
+  async assertLockOutsideClosedPeriods(portfolioId: string, lockedThroughDate: string | null): Promise<void> {
+    const latest = await this.findLatestClosed(portfolioId);
+    if (latest && (!lockedThroughDate || lockedThroughDate < latest.periodEnd)) {
+      throw new ConflictException(`Days through ${latest.periodEnd} belong to a closed period; reopen the period instead`);
+    }
+  }
+
+  /**
+   * Stored snapshots and NAV of the period, and investor units at its end
+   */
+  private async captureClosingBalances(
+    portfolioId: string,
+    previousPeriodEnd: string | null,
+    periodEnd: string,
+  ): Promise<PeriodClosingBalances> {
+    const snapshotQuery = this.portfolioSnapshotRepository.createQueryBuilder('snapshot')
+      .where('snapshot.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('snapshot.isActive = true')
+      .andWhere('snapshot.snapshotDate <= :periodEnd', { periodEnd })
+      .orderBy('snapshot.snapshotDate', 'ASC');
+    const navQuery = this.navSnapshotRepository.createQueryBuilder('nav')
+      .where('nav.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('nav.navDate <= :periodEnd', { periodEnd })
+      .orderBy('nav.navDate', 'ASC');
+    if (previousPeriodEnd) {
+      snapshotQuery.andWhere('snapshot.snapshotDate > :previousPeriodEnd', { previousPeriodEnd });
+      navQuery.andWhere('nav.navDate > :previousPeriodEnd', { previousPeriodEnd });
+    }
+
+    const [snapshots, navSnapshots, investorUnits] = await Promise.all([
+      snapshotQuery.getMany(),
+      navQuery.getMany(),
+      this.getInvestorUnits(portfolioId, periodEnd),
+    ]);
+
+    return {
+      snapshots: snapshots.map(snapshot => ({
+        snapshotDate: normalizeDateToString(snapshot.snapshotDate),
+        granularity: snapshot.granularity,
+        totalPortfolioValue: Number(snapshot.totalPortfolioValue) || 0,
+        navPerUnit: Number(snapshot.navPerUnit) || 0,
+        totalOutstandingUnits: Number(snapshot.totalOutstandingUnits) || 0,
+      })),
+      navSnapshots: navSnapshots.map(nav => ({
+        navDate: normalizeDateToString(nav.navDate),
+        navValue: Number(nav.navValue) || 0,
+        navPerUnit: Number(nav.navPerUnit) || 0,
+        totalOutstandingUnits: Number(nav.totalOutstandingUnits) || 0,
+      })),
+      investorUnits,
+    };
+  }
+
+  /**
+   * Units of each investor at the end of a date, from their unit transactions dated by the flow date
+   * of their cash flow; transactions without one fall back to their own date
+   */
+  private async getInvestorUnits(portfolioId: string, date: string): Promise<ClosedInvestorUnits[]> {
+    const rows = await this.fundUnitTransactionRepository
+      .createQueryBuilder('transaction')
+      .innerJoin('transaction.holding', 'holding')
+      .leftJoin(CashFlow, 'cashFlow', 'cashFlow.cashFlowId = transaction.cashFlowId')
+      .select('transaction.holdingId', 'holdingId')
+      .addSelect('holding.accountId', 'accountId')
+      .addSelect(
+        `SUM(CASE WHEN transaction.holdingType = :redeem THEN -transaction.units ELSE transaction.units END)`,
+        'units',
+      )
+      .where('holding.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('DATE(COALESCE(cashFlow.flowDate, transaction.createdAt)) <= :date', { date })
+      .setParameter('redeem', HoldingType.REDEEM)
+      .groupBy('transaction.holdingId')
+      .addGroupBy('holding.accountId')
+      .getRawMany();
+
+    return rows.map(row => ({
+      holdingId: row.holdingId,
+      accountId: row.accountId,
+      units: Math.round(Math.max(Number(row.units) || 0, 0) * 1000) / 1000,
+    }));
+  }
+
+  private async findPeriodClose(portfolioId: string, periodCloseId: string): Promise<PeriodClose> {
+    const close = await this.periodCloseRepository.findOne({ where: { portfolioId, periodCloseId } });
+    if (!close) {
+      throw new NotFoundException(`Period close with ID ${periodCloseId} not found`);
+    }
+    return close;
+  }
+
+  private async findLatestClosed(portfolioId: string): Promise<PeriodClose | null> {
+    return this.periodCloseRepository.findOne({
+      where: { portfolioId, status: PeriodCloseStatus.CLOSED },
+      order: { periodEnd: 'DESC' },
+    });
+  }
+
+  private mapToResponse(close: PeriodClose): PeriodCloseResponse {
+    return {
+      periodCloseId: close.periodCloseId,
+      portfolioId: close.portfolioId,
+      periodEnd: close.periodEnd,
+      previousPeriodEnd: close.previousPeriodEnd ?? null,
+      status: close.status,
+      closedBy: close.closedBy ?? null,
+      closedAt: close.closedAt,
+      reopenedBy: close.reopenedBy ?? null,
+      reopenedAt: close.reopenedAt ?? null,
+      reopenReason: close.reopenReason ?? null,
+      snapshotCount: close.closingBalances?.snapshots?.length || 0,
+      investorCount: close.closingBalances?.investorUnits?.length || 0,
+    };
+  }
+}
@@ -0,0 +1,431 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, EntityManager, In } from 'typeorm';
+import { Portfolio } from '../entities/portfolio.entity';
+import { CashFlow } from '../entities/cash-flow.entity';
+import { Deposit } from '../entities/deposit.entity';
+import { Trade } from '../../trading/entities/trade.entity';
+import { TradeDetail } from '../../trading/entities/trade-detail.entity';
+import { AssetTarget } from '../../trading/entities/asset-target.entity';
+import { Asset } from '../../asset/entities/asset.entity';
+import { Note } from '../../notes/entities/note.entity';
+import { CashFlowService } from './cash-flow.service';
+import {
+  PORTFOLIO_ARCHIVE_FORMAT,
+  PORTFOLIO_ARCHIVE_VERSION,
+  PortfolioArchive,
+  PortfolioArchiveImportResult,
+} from '../dto/portfolio-archive.dto';
+
+/**
+ * Service for exporting a single portfolio to a versioned JSON archive
+ * and re-creating it under another account.
+ */
+@Injectable()
+export class PortfolioArchiveService {
+  private readonly logger = new Logger(PortfolioArchiveService.name);
+
+  constructor(
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    @InjectRepository(Trade)
+    private readonly tradeRepository: Repository<Trade>,
+    @InjectRepository(TradeDetail)
+    private readonly tradeDetailRepository: Repository<TradeDetail>,
+    @InjectRepository(CashFlow)
+    private readonly cashFlowRepository: Repository<CashFlow>,
+    @InjectRepository(Deposit)
+    private readonly depositRepository: Repository<Deposit>,
+    @InjectRepository(Note)
+    private readonly noteRepository: Repository<Note>,
+    @InjectRepository(AssetTarget)
+    private readonly assetTargetRepository: Repository<AssetTarget>,
+    @InjectRepository(Asset)
+    private readonly assetRepository: Repository<Asset>,
+    private readonly cashFlowService: CashFlowService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Export a portfolio with its trades, cash flows, deposits, notes and asset targets.
+   * @param portfolioId - Portfolio ID
+   * @returns Promise<PortfolioArchive>
+   */
+  async exportPortfolio(portfolioId: string): Promise<PortfolioArchive> {
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    if (!portfolio) {
+      throw new NotFoundException(`Portfolio with ID ${portfolioId} not found`);
+    }
+
+    const [trades, cashFlows, deposits, notes] = await Promise.all([
+      this.tradeRepository.find({ where: { portfolioId }, order: { tradeDate: 'ASC', createdAt: 'ASC' } }),
+      this.cashFlowRepository.find({ where: { portfolioId }, order: { flowDate: 'ASC', createdAt: 'ASC' } }),
+      this.depositRepository.find({ where: { portfolioId }, order: { startDate: 'ASC' } }),
+      this.noteRepository.find({ where: { portfolioId }, order: { noteDate: 'ASC' } }),
+    ]);
+
+    const tradeIds = trades.map((trade) => trade.tradeId);
+    const tradeDetails = tradeIds.length > 0
+      ? await this.tradeDetailRepository.find({ where: { sellTradeId: In(tradeIds) } })
+      : [];
+
+    const assetIds = Array.from(new Set([
+      ...trades.map((trade) => trade.assetId),
+      ...notes.filter((note) => note.assetId).map((note) => note.assetId),
+    ]));
+    const [assets, assetTargets] = assetIds.length > 0
+      ? await Promise.all([
+        this.assetRepository.find({ where: { id: In(assetIds) } }),
+        this.assetTargetRepository.find({ where: { assetId: In(assetIds) } }),
+      ])
+      : [[], []];
+
+    return {
+      format: PORTFOLIO_ARCHIVE_FORMAT,
+      version: PORTFOLIO_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      portfolio: {
+        portfolioId: portfolio.portfolioId,
+        name: portfolio.name,
+        baseCurrency: portfolio.baseCurrency,
+        fundingSource: portfolio.fundingSource ?? null,
+        broker: portfolio.broker ?? null,
+        description: portfolio.description ?? null,
+        createdAt: this.toIso(portfolio.createdAt),
+      },
+      assets: assets.map((asset) => ({
+        id: asset.id,
+        symbol: asset.symbol,
+        name: asset.name,
+        type: asset.type,
+        priceMode: asset.priceMode,
+        currency: asset.currency,
+        description: asset.description ?? null,
+      })),
+      trades: trades.map((trade) => ({
+        tradeId: trade.tradeId,
+        assetId: trade.assetId,
+        tradeDate: this.toIso(trade.tradeDate),
+        side: trade.side,
+        quantity: Number(trade.quantity),
+        price: Number(trade.price),
+        fee: Number(trade.fee || 0),
+        tax: Number(trade.tax || 0),
+        tradeType: trade.tradeType,
+        source: trade.source ?? null,
+        exchange: trade.exchange ?? null,
+        fundingSource: trade.fundingSource ?? null,
+        notes: trade.notes ?? null,
+        fxRate: trade.fxRate != null ? Number(trade.fxRate) : null,
+      })),
+      tradeDetails: tradeDetails.map((detail) => ({
+        sellTradeId: detail.sellTradeId,
+        buyTradeId: detail.buyTradeId,
+        assetId: detail.assetId,
+        matchedQty: Number(detail.matchedQty),
+        buyPrice: Number(detail.buyPrice),
+        sellPrice: Number(detail.sellPrice),
+        feeTax: Number(detail.feeTax || 0),
+        pnl: Number(detail.pnl),
+      })),
+      cashFlows: cashFlows.map((cashFlow) => ({
+        type: cashFlow.type,
+        amount: Number(cashFlow.amount),
+        taxWithheld: Number(cashFlow.taxWithheld || 0),
+        currency: cashFlow.currency,
+        description: cashFlow.description ?? null,
+        reference: cashFlow.reference ?? null,
+        status: cashFlow.status,
+        flowDate: this.toIso(cashFlow.flowDate),
+        effectiveDate: cashFlow.effectiveDate ? this.toIso(cashFlow.effectiveDate) : null,
+        tradeId: cashFlow.tradeId ?? null,
+        fundingSource: cashFlow.fundingSource ?? null,
+      })),
+      deposits: deposits.map((deposit) => ({
+        depositId: deposit.depositId,
+        bankName: deposit.bankName,
+        accountNumber: deposit.accountNumber ?? null,
+        principal: Number(deposit.principal),
+        interestRate: Number(deposit.interestRate),
+        startDate: this.toIso(deposit.startDate),
+        endDate: this.toIso(deposit.endDate),
+        termMonths: deposit.termMonths ?? null,
+        status: deposit.status,
+        actualInterest: deposit.actualInterest !== null && deposit.actualInterest !== undefined
+          ? Number(deposit.actualInterest)
+          : null,
+        notes: deposit.notes ?? null,
+        settledAt: deposit.settledAt ? this.toIso(deposit.settledAt) : null,
+      })),
+      notes: notes.map((note) => ({
+        assetId: note.assetId ?? null,
+        noteDate: this.toIso(note.noteDate),
+        content: note.content,
+      })),
+      assetTargets: assetTargets.map((target) => ({
+        assetId: target.assetId,
+        stopLoss: target.stopLoss !== null ? Number(target.stopLoss) : null,
+        takeProfit: target.takeProfit !== null ? Number(target.takeProfit) : null,
+        isActive: target.isActive,
+      })),
+    };
+  }
+
+  /**
+   * Re-create an archived portfolio under the target account.
+   * All IDs are regenerated; assets are re-linked by symbol to the target account's
+   * assets and created when missing. Everything is written in one transaction.
+   * @param archive - Archive produced by exportPortfolio
+   * @param targetAccountId - Account that will own the new portfolio
+   * @param name - Optional name for the new portfolio
+   * @returns Promise<PortfolioArchiveImportResult>
+   */
+  async importPortfolio(
+    archive: PortfolioArchive,
+    targetAccountId: string,
+    name?: string,
+  ): Promise<PortfolioArchiveImportResult> {
+    this.validateArchive(archive);
+
+    const portfolioName = (name || archive.portfolio.name).trim();
+    const existingPortfolio = await this.portfolioRepository.findOne({
+      where: { accountId: targetAccountId, name: portfolioName },
+    });
+    if (existingPortfolio) {
+      throw new BadRequestException(
+        `Portfolio with name "${portfolioName}" already exists for this account`,
+      );
+    }
+
+    const result = await this.dataSource.transaction(async (manager) => {
+      const portfolio = await manager.save(manager.create(Portfolio, {
+        accountId: targetAccountId,
+        name: portfolioName,
+        baseCurrency: archive.portfolio.baseCurrency || 'VND',
+        fundingSource: archive.portfolio.fundingSource ?? undefined,
+        broker: archive.portfolio.broker ?? undefined,
+        description: archive.portfolio.description ?? undefined,
+        visibility: 'PRIVATE',
+      }));
+
+      const { assetIdMap, linked, created } = await this.relinkAssets(manager, archive, targetAccountId);
+
+      // Old ID -> new ID for every record that can be referenced from another record
+      const tradeIdMap = new Map<string, string>();
+      const depositIdMap = new Map<string, string>();
+
+      for (const archivedTrade of archive.trades) {
+        const savedTrade = await manager.save(manager.create(Trade, {
+          portfolioId: portfolio.portfolioId,
+          assetId: assetIdMap.get(archivedTrade.assetId),
+          tradeDate: new Date(archivedTrade.tradeDate),
+          side: archivedTrade.side,
+          quantity: archivedTrade.quantity,
+          price: archivedTrade.price,
+          fee: archivedTrade.fee || 0,
+          tax: archivedTrade.tax || 0,
+          tradeType: archivedTrade.tradeType,
+          source: archivedTrade.source ?? undefined,
+          exchange: archivedTrade.exchange ?? undefined,
+          fundingSource: archivedTrade.fundingSource ?? undefined,
+          notes: archivedTrade.notes ?? undefined,
+          fxRate: archivedTrade.fxRate ?? null,
+        }));
+        tradeIdMap.set(archivedTrade.tradeId, savedTrade.tradeId);
+      }
+
+      let tradeDetailCount = 0;
+      for (const archivedDetail of archive.tradeDetails) {
+        const sellTradeId = tradeIdMap.get(archivedDetail.sellTradeId);
+        const buyTradeId = tradeIdMap.get(archivedDetail.buyTradeId);
+        if (!sellTradeId || !buyTradeId) {
+          this.logger.warn(`Skipping trade detail with unknown trade reference (${archivedDetail.buyTradeId} -> ${archivedDetail.sellTradeId})`);
+          continue;
+        }
+        await manager.save(manager.create(TradeDetail, {
+          sellTradeId,
+          buyTradeId,
+          assetId: assetIdMap.get(archivedDetail.assetId),
+          matchedQty: archivedDetail.matchedQty,
+          buyPrice: archivedDetail.buyPrice,
+          sellPrice: archivedDetail.sellPrice,
+          feeTax: archivedDetail.feeTax || 0,
+          pnl: archivedDetail.pnl,
+        }));
+        tradeDetailCount++;
+      }
+
+      for (const archivedDeposit of archive.deposits) {
+        const savedDeposit = await manager.save(manager.create(Deposit, {
+          portfolioId: portfolio.portfolioId,
+          bankName: archivedDeposit.bankName,
+          accountNumber: archivedDeposit.accountNumber ?? undefined,
+          principal: archivedDeposit.principal,
+          interestRate: archivedDeposit.interestRate,
+          startDate: new Date(archivedDeposit.startDate),
+          endDate: new Date(archivedDeposit.endDate),
+          termMonths: archivedDeposit.termMonths ?? undefined,
+          status: archivedDeposit.status,
+          actualInterest: archivedDeposit.actualInterest ?? undefined,
+          notes: archivedDeposit.notes ?? undefined,
+          settledAt: archivedDeposit.settledAt ? new Date(archivedDeposit.settledAt) : undefined,
+        }));
+        depositIdMap.set(archivedDeposit.depositId, savedDeposit.depositId);
+      }
+
+      // Deposit cash flows reference the deposit ID inside reference/description
+      const idMap = new Map<string, string>([...tradeIdMap, ...depositIdMap]);
+      for (const archivedCashFlow of archive.cashFlows) {
+        await manager.save(manager.create(CashFlow, {
+          portfolioId: portfolio.portfolioId,
+          type: archivedCashFlow.type,
+          amount: archivedCashFlow.amount,
+          taxWithheld: archivedCashFlow.taxWithheld || 0,
+          currency: archivedCashFlow.currency || 'VND',
+          description: this.remapIds(archivedCashFlow.description, idMap),
+          reference: this.remapIds(archivedCashFlow.reference, idMap),
+          status: archivedCashFlow.status,
+          flowDate: new Date(archivedCashFlow.flowDate),
+          effectiveDate: archivedCashFlow.effectiveDate ? new Date(archivedCashFlow.effectiveDate) : undefined,
+          tradeId: archivedCashFlow.tradeId ? tradeIdMap.get(archivedCashFlow.tradeId) : undefined,
+          fundingSource: archivedCashFlow.fundingSource ?? undefined,
+        }));
+      }
+
+      for (const archivedNote of archive.notes) {
+        await manager.save(manager.create(Note, {
+          portfolioId: portfolio.portfolioId,
+          assetId: archivedNote.assetId ? assetIdMap.get(archivedNote.assetId) : undefined,
+          noteDate: new Date(archivedNote.noteDate),
+          content: archivedNote.content,
+        }));
+      }
+
+      // Asset targets are per asset, never overwrite targets the account already configured
+      let assetTargetCount = 0;
+      for (const archivedTarget of archive.assetTargets) {
+        const assetId = assetIdMap.get(archivedTarget.assetId);
+        if (!assetId) continue;
+        const existingTarget = await manager.findOne(AssetTarget, { where: { assetId } });
+        if (existingTarget) continue;
+        await manager.save(manager.create(AssetTarget, {
+          assetId,
+          stopLoss: archivedTarget.stopLoss ?? null,
+          takeProfit: archivedTarget.takeProfit ?? null,
+          isActive: archivedTarget.isActive,
+        }));
+        assetTargetCount++;
+      }
+
+      return {
+        portfolioId: portfolio.portfolioId,
+        name: portfolio.name,
+        counts: {
+          trades: tradeIdMap.size,
+          tradeDetails: tradeDetailCount,
+          cashFlows: archive.cashFlows.length,
+          deposits: depositIdMap.size,
+          notes: archive.notes.length,
+          assetTargets: assetTargetCount,
+        },
+        assets: { linked, created },
+      };
+    });
+
+    await this.cashFlowService.recalculateCashBalance(result.portfolioId);
+
+    this.logger.log(
+      `Portfolio archive imported: ${archive.portfolio.portfolioId} -> ${result.portfolioId} (account: ${targetAccountId})`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Map archived asset IDs to assets owned by the target account, matched by symbol.
+   */
+  private async relinkAssets(
+    manager: EntityManager,
+    archive: PortfolioArchive,
+    targetAccountId: string,
+  ): Promise<{ assetIdMap: Map<string, string>; linked: string[]; created: string[] }> {
+    const assetIdMap = new Map<string, string>();
+    const linked: string[] = [];
+    const created: string[] = [];
+
+    for (const archivedAsset of archive.assets) {
+      const symbol = archivedAsset.symbol.toUpperCase();
+      let asset = await manager.findOne(Asset, {
+        where: { symbol, createdBy: targetAccountId },
+      });
+
+      if (asset) {
+        linked.push(symbol);
+      } else {
+        asset = await manager.save(manager.create(Asset, {
+          symbol,
+          name: archivedAsset.name,
+          type: archivedAsset.type,
+          priceMode: archivedAsset.priceMode,
+          currency: archivedAsset.currency || 'VND',
+          description: archivedAsset.description ?? undefined,
+          createdBy: targetAccountId,
+          updatedBy: targetAccountId,
+        }));
+        created.push(symbol);
+      }
+
+      assetIdMap.set(archivedAsset.id, asset.id);
+    }
+
+    return { assetIdMap, linked, created };
+  }
+
+  /**
+   * Reject archives that were not produced by the exporter or use an unknown version.
+   */
+  private validateArchive(archive: PortfolioArchive): void {
+    if (!archive || archive.format !== PORTFOLIO_ARCHIVE_FORMAT) {
+      throw new BadRequestException('File is not a portfolio archive');
+    }
+    if (!Number.isInteger(archive.version) || archive.version < 1 || archive.version > PORTFOLIO_ARCHIVE_VERSION) {
+      throw new BadRequestException(
+        `Unsupported portfolio archive version ${archive.version} (supported: 1-${PORTFOLIO_ARCHIVE_VERSION})`,
+      );
+    }
+    if (!archive.portfolio?.name) {
+      throw new BadRequestException('Portfolio archive is missing portfolio information');
+    }
+
+    const collections = ['assets', 'trades', 'tradeDetails', 'cashFlows', 'deposits', 'notes', 'assetTargets'];
+    for (const key of collections) {
+      if (!Array.isArray(archive[key])) {
+        throw new BadRequestException(`Portfolio archive is missing "${key}"`);
+      }
+    }
+
+    const assetIds = new Set(archive.assets.map((asset) => asset.id));
+    const unknownAsset = archive.trades.find((trade) => !assetIds.has(trade.assetId));
+    if (unknownAsset) {
+      throw new BadRequestException(`Trade ${unknownAsset.tradeId} references an asset that is not in the archive`);
+    }
+  }
+
+  /**
+   * Replace archived IDs embedded in free text (e.g. deposit cash flow references).
+   */
+  private remapIds(value: string | null | undefined, idMap: Map<string, string>): string | undefined {
+    if (!value) return undefined;
+    let result = value;
+    for (const [oldId, newId] of idMap) {
+      if (result.includes(oldId)) {
+        result = result.split(oldId).join(newId);
+      }
+    }
+    return result;
+  }
+
+  private toIso(value: Date | string): string {
+    return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+  }
+}
@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Between, LessThanOrEqual, Repository } from 'typeorm';
 import { Trade } from '../../trading/entities/trade.entity';
@@ -9,21 +9,43 @@ import { GlobalAsset } from '../../asset/entities/global-asset.entity';
 import { AssetPrice } from '../../asset/entities/asset-price.entity';
 import { AssetValueCalculatorService } from '../../asset/services/asset-value-calculator.service';
 import { PriceHistoryService } from '../../asset/services/price-history.service';
+import { Portfolio } from '../entities/portfolio.entity';
+import { FxRateService } from '../../market-data/services/fx-rate.service';
+import { normalizeCurrency, splitRealizedPnl, splitUnrealizedPnl } from '../../market-data/utils/fx-conversion.util';
+
+/**
+ * Asset position valued in the portfolio base currency
+ */
+export interface PortfolioAssetPosition {
+  assetId: string;
+  symbol: string;
+  assetType: string;
+  quantity: number;
+  avgCost: number;
+  currentValue: number;
+  unrealizedPl: number;
+  currentPrice: number;
+  /** Currency the asset trades in */
+  currency: string;
+  /** Valuation-date rate from the asset currency to the base currency (1 when identical) */
+  fxRate: number;
+  /** Current price in the asset currency */
+  localCurrentPrice: number;
+  /** Part of unrealizedPl caused by exchange rate moves since purchase */
+  unrealizedFxPl: number;
+}
 
 export interface PortfolioAssetsCalculationResult {
   totalValue: number;
   unrealizedPl: number;
   realizedPl: number;
-  assetPositions: Array<{
-    assetId: string;
-    symbol: string;
-    assetType: string;
-    quantity: number;
-    avgCost: number;
-    currentValue: number;
-    unrealizedPl: number;
-    currentPrice: number;
-  }>;
+  /** Currency all amounts are expressed in */
+  baseCurrency: string;
+  /** Part of unrealizedPl caused by exchange rate moves */
+  unrealizedFxPl: number;
+  /** Part of realizedPl caused by exchange rate moves */
+  realizedFxPl: number;
+  assetPositions: PortfolioAssetPosition[];
 }
 
 /**
@@ -31,6 +53,8 @@ export interface PortfolioAssetsCalculationResult {
  */
 @Injectable()
 export class PortfolioCalculationService {
+  private readonly logger = new Logger(PortfolioCalculationService.name);
+
   constructor(
     @InjectRepository(Trade)
     private readonly tradeRepository: Repository<Trade>,
@@ -42,15 +66,18 @@ export class PortfolioCalculationService {
     private readonly globalAssetRepository: Repository<GlobalAsset>,
     @InjectRepository(AssetPrice)
     private readonly assetPriceRepository: Repository<AssetPrice>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
     private readonly marketDataService: MarketDataService,
     private readonly assetValueCalculator: AssetValueCalculatorService,
     private readonly priceHistoryService: PriceHistoryService,
+    private readonly fxRateService: FxRateService,
   ) {}
 
   /**
-   * Calculate portfolio values from trades
+   * Calculate portfolio values from trades, converted into the portfolio base currency
    * @param portfolioId - Portfolio ID
-   * @param currentCashBalance - Current cash balance
+   * @param snapshotDate - Valuation date (defaults to now)
    * @returns Promise<PortfolioCalculationResult>
    */
   async calculatePortfolioAssetValues(
@@ -74,48 +101,79 @@ export class PortfolioCalculationService {
     });
 
 
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    const baseCurrency = normalizeCurrency(portfolio?.baseCurrency);
+
     if (trades.length === 0) {
       return {
         totalValue: 0,
         unrealizedPl: 0,
         realizedPl: 0,
+        baseCurrency,
+        unrealizedFxPl: 0,
+        realizedFxPl: 0,
         assetPositions: [],
       };
     }
 
 
     // Calculate realized P&L from trade details
-    const realizedPl = await this.calculateRealizedPl(portfolioId, snapshotDate);
+    const { realizedPl, realizedFxPl } = await this.calculateRealizedPl(portfolioId, baseCurrency, snapshotDate);
 
     // Calculate current positions and unrealized P&L
-    const positions = await this.calculateCurrentPositions(portfolioId, trades, snapshotDate);
+    const positions = await this.calculateCurrentPositions(portfolioId, trades, baseCurrency, snapshotDate);
 
     // Calculate total value (only asset positions, excluding cash balance)
     const totalValue = positions.reduce((sum, pos) => sum + parseFloat(pos.currentValue.toString()), 0);
 
     // Calculate total unrealized P&L
     const unrealizedPl = positions.reduce((sum, pos) => sum + parseFloat(pos.unrealizedPl.toString()), 0);
+    const unrealizedFxPl = positions.reduce((sum, pos) => sum + pos.unrealizedFxPl, 0);
 
     const result = {
       totalValue,
       unrealizedPl,
       realizedPl,
+      baseCurrency,
+      unrealizedFxPl,
+      realizedFxPl,
       assetPositions: positions
     };
     
     return result;
   }
 
+  /**
+   * Calculate realized P&L of a portfolio in its base currency, with the FX part split out
+   * @param portfolioId - Portfolio ID
+   * @param snapshotDate - Only include sells up to this date
+   */
+  async calculateRealizedPlInBaseCurrency(
+    portfolioId: string,
+    snapshotDate?: Date,
+  ): Promise<{ realizedPl: number; realizedFxPl: number }> {
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    return this.calculateRealizedPl(portfolioId, normalizeCurrency(portfolio?.baseCurrency), snapshotDate);
+  }
+
   /**
    * Calculate realized P&L from trade details
+   * Matches of foreign-currency assets are converted at their buy and sell trade-date rates.
    * @param portfolioId - Portfolio ID
-   * @returns Promise<number>
+   * @param baseCurrency - Portfolio base currency
+   * @returns Promise<{ realizedPl: number; realizedFxPl: number }>
    */
-  private async calculateRealizedPl(portfolioId: string, snapshotDate?: Date): Promise<number> {
+  private async calculateRealizedPl(
+    portfolioId: string,
+    baseCurrency: string,
+    snapshotDate?: Date,
+  ): Promise<{ realizedPl: number; realizedFxPl: number }> {
     const queryBuilder = this.tradeDetailRepository
       .createQueryBuilder('td')
       .innerJoin('trades', 't', 'td.sellTradeId = t.tradeId')
-      .where('t.portfolio_id = :portfolioId', { portfolioId });
+      .innerJoin('td.asset', 'a')
+      .where('t.portfolio_id = :portfolioId', { portfolioId })
+      .andWhere('a.currency = :baseCurrency', { baseCurrency });
     
     if (snapshotDate) {
       queryBuilder.andWhere('t.tradeDate <= :snapshotDate', { snapshotDate });
@@ -125,7 +183,39 @@ export class PortfolioCalculationService {
       .select('COALESCE(SUM(td.pnl), 0)', 'totalRealizedPl')
       .getRawOne();
 
-    return parseFloat(result.totalRealizedPl) || 0;
+    let realizedPl = parseFloat(result.totalRealizedPl) || 0;
+    let realizedFxPl = 0;
+
+    const foreignQuery = this.tradeDetailRepository
+      .createQueryBuilder('td')
+      .innerJoinAndSelect('td.sellTrade', 'st')
+      .innerJoinAndSelect('td.buyTrade', 'bt')
+      .innerJoinAndSelect('td.asset', 'a')
+      .where('st.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('a.currency <> :baseCurrency', { baseCurrency });
+
+    if (snapshotDate) {
+      foreignQuery.andWhere('st.tradeDate <= :snapshotDate', { snapshotDate });
+    }
+
+    for (const detail of await foreignQuery.getMany()) {
+      const assetCurrency = normalizeCurrency(detail.asset.currency);
+      const [buyRate, sellRate] = await Promise.all([
+        this.fxRateService.getTradeRateOrLookup(detail.buyTrade, assetCurrency, baseCurrency),
+        this.fxRateService.getTradeRateOrLookup(detail.sellTrade, assetCurrency, baseCurrency),
+      ]);
+      const split = splitRealizedPnl(
+        Number(detail.matchedQty),
+        Number(detail.buyPrice),
+        Number(detail.pnl),
+        buyRate,
+        sellRate,
+      );
+      realizedPl += split.totalPl;
+      realizedFxPl += split.fxPl;
+    }
+
+    return { realizedPl, realizedFxPl };
   }
 
   /**
@@ -137,17 +227,9 @@ export class PortfolioCalculationService {
   private async calculateCurrentPositions(
     portfolioId: string,
     trades: Trade[],
+    baseCurrency: string,
     snapshotDate?: Date,
-  ): Promise<Array<{
-    assetId: string;
-    symbol: string;
-    assetType: string;
-    quantity: number;
-    avgCost: number;
-    currentValue: number;
-    unrealizedPl: number;
-    currentPrice: number;
-  }>> {
+  ): Promise<PortfolioAssetPosition[]> {
     // Group trades by asset
     const assetTrades = new Map<string, Trade[]>();
     for (const trade of trades) {
@@ -160,7 +242,7 @@ export class PortfolioCalculationService {
     const positions = [];
 
     for (const [assetId, assetTradesList] of assetTrades) {
-      const position = await this.calculateAssetPosition(assetId, assetTradesList, snapshotDate);
+      const position = await this.calculateAssetPosition(assetId, assetTradesList, baseCurrency, snapshotDate);
       // Filter out positions with quantity <= 0 (including very small floating point values)
       // Threshold: 0.00000001 (1e-8) - any quantity smaller than this is considered zero
       const QUANTITY_THRESHOLD = 0.00000001;
@@ -174,30 +256,26 @@ export class PortfolioCalculationService {
 
   /**
    * Calculate position for a specific asset
+   * Foreign-currency assets are costed at trade-date rates and valued at the valuation-date rate.
    * @param assetId - Asset ID
    * @param trades - Trades for this asset
+   * @param baseCurrency - Portfolio base currency
    * @returns AssetPosition
    */
   private async calculateAssetPosition(
     assetId: string,
     trades: Trade[],
+    baseCurrency: string,
     snapshotDate?: Date,
-  ): Promise<{
-    assetId: string;
-    symbol: string;
-    assetType: string;
-    quantity: number;
-    avgCost: number;
-    currentValue: number;
-    unrealizedPl: number;
-    currentPrice: number;
-  }> {
+  ): Promise<PortfolioAssetPosition> {
     let symbol = '';
     let assetType = 'UNKNOWN';
+    let currency = baseCurrency;
 
     for (const trade of trades) {
       symbol = trade.asset?.symbol || '';
       assetType = trade.asset?.type || 'UNKNOWN';
+      currency = normalizeCurrency(trade.asset?.currency, baseCurrency);
     }
 
     // Get price for snapshot date (use endDate as snapshot date if not provided)
@@ -205,15 +283,46 @@ export class PortfolioCalculationService {
     
     const position = this.assetValueCalculator.calculateAssetPositionFIFOFinal( trades, currentPrice);
 
+    if (currency === baseCurrency) {
+      return {
+        assetId,
+        symbol,
+        assetType,
+        quantity: position.quantity,
+        avgCost: position.avgCost,
+        currentValue: position.currentValue,
+        unrealizedPl: position.unrealizedPl,
+        currentPrice: currentPrice,
+        currency,
+        fxRate: 1,
+        localCurrentPrice: currentPrice,
+        unrealizedFxPl: 0,
+      };
+    }
+
+    let fxRate = await this.fxRateService.getRate(currency, baseCurrency, snapshotDate || new Date());
+    if (fxRate === null) {
+      this.logger.warn(`No FX rate for ${currency}/${baseCurrency}, valuing ${symbol} at 1`);
+      fxRate = 1;
+    }
+
+    const baseTrades = await this.fxRateService.convertTrades(trades, currency, baseCurrency);
+    const basePosition = this.assetValueCalculator.calculateAssetPositionFIFOFinal(baseTrades, currentPrice * fxRate);
+    const { fxPl } = splitUnrealizedPnl(basePosition.unrealizedPl, position.unrealizedPl, fxRate);
+
     return {
       assetId,
       symbol,
       assetType,
-      quantity: position.quantity,
-      avgCost: position.avgCost,
-      currentValue: position.currentValue,
-      unrealizedPl: position.unrealizedPl,
-      currentPrice: currentPrice,
+      quantity: basePosition.quantity,
+      avgCost: basePosition.avgCost,
+      currentValue: basePosition.currentValue,
+      unrealizedPl: basePosition.unrealizedPl,
+      currentPrice: currentPrice * fxRate,
+      currency,
+      fxRate,
+      localCurrentPrice: currentPrice,
+      unrealizedFxPl: fxPl,
     };
   }
   
@@ -8,6 +8,7 @@ import { AssetAllocationSnapshot } from '../entities/asset-allocation-snapshot.e
 import { Portfolio } from '../entities/portfolio.entity';
 import { CreatePortfolioSnapshotDto, UpdatePortfolioSnapshotDto } from '../dto/portfolio-snapshot.dto';
 import { DepositCalculationService } from '../../shared/services/deposit-calculation.service';
+import { TradingCalendarService } from '../../shared/services/trading-calendar.service';
 import { CashFlowService } from './cash-flow.service';
 import { InvestorHoldingService } from './investor-holding.service';
 import { normalizeDateToString } from '../utils/date-normalization.util';
@@ -33,6 +34,7 @@ export class PortfolioSnapshotService {
     @InjectRepository(Portfolio)
     private readonly portfolioRepository: Repository<Portfolio>,
     private readonly depositCalculationService: DepositCalculationService,
+    private readonly tradingCalendarService: TradingCalendarService,
     private readonly cashFlowService: CashFlowService,
     private readonly investorHoldingService: InvestorHoldingService,
     private readonly dataSource: DataSource,
@@ -83,6 +85,10 @@ export class PortfolioSnapshotService {
       ...createDto,
       snapshotDate: snapshotDate,
       isActive: createDto.isActive ?? true,
+      isTradingDay: this.tradingCalendarService.isTradingDay(
+        normalizeDateToString(snapshotDate),
+        { currency: portfolio.baseCurrency },
+      ),
     });
 
     this.logger.log(`Portfolio snapshot created successfully with ID ${snapshot.id}`);
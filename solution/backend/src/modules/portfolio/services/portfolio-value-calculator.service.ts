@@ -62,15 +62,8 @@ export class PortfolioValueCalculatorService {
    */
   async calculateRealizedPL(portfolioId: string): Promise<number> {
     try {
-      const result = await this.portfolioRepository.manager.query(`
-        SELECT COALESCE(SUM(td.pnl), 0) as "totalRealizedPl"
-        FROM trade_details td
-        INNER JOIN trades t ON td.sell_trade_id = t.trade_id
-        WHERE t.portfolio_id = $1 AND t.side = 'SELL'
-      `, [portfolioId]);
-
-      const rawValue = result?.[0]?.totalRealizedPl || 0;
-      const realizedPl = parseFloat(String(rawValue));
+      // Foreign-currency matches are converted at their trade-date rates
+      const { realizedPl } = await this.portfolioCalculationService.calculateRealizedPlInBaseCurrency(portfolioId);
       
       return realizedPl;
     } catch (error) {
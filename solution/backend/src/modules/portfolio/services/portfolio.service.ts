@@ -88,7 +88,7 @@ export class PortfolioService {
    * @returns Promise<Portfolio>
    */
   async createPortfolio(createPortfolioDto: CreatePortfolioDto): Promise<Portfolio> {
-    const { name, baseCurrency, accountId, cashBalance = 0, fundingSource } = createPortfolioDto;
+    const { name, baseCurrency, accountId, cashBalance = 0, fundingSource, broker } = createPortfolioDto;
 
     // Validate account exists
     const account = await this.accountRepository.findOne({
@@ -117,6 +117,7 @@ export class PortfolioService {
       baseCurrency,
       accountId,
       fundingSource,
+      broker,
       totalValue: cashBalance,
       cashBalance: cashBalance,
       unrealizedPl: 0,
@@ -709,15 +710,8 @@ export class PortfolioService {
    * @returns Promise<number> Total realized P&L
    */
   async updatePortfolioRealizedPL(portfolioId: string): Promise<number> {
-    // Get total realized P&L from trade details for all sell trades in this portfolio
-    const result = await this.portfolioRepository.manager.query(`
-      SELECT COALESCE(SUM(td.pnl), 0) as totalRealizedPl
-      FROM trade_details td
-      INNER JOIN trades t ON td.sell_trade_id = t.trade_id
-      WHERE t.portfolio_id = $1 AND t.side = 'SELL'
-    `, [portfolioId]);
-
-    const totalRealizedPL = parseFloat((result[0]?.totalRealizedPl || 0).toString());
+    // Get total realized P&L from trade details for all sell trades in this portfolio (in base currency)
+    const { realizedPl: totalRealizedPL } = await this.portfolioCalculationService.calculateRealizedPlInBaseCurrency(portfolioId);
 
     // Update portfolio realized P&L
     await this.portfolioRepository.manager.query(`
@@ -868,8 +862,9 @@ export class PortfolioService {
         0
       );
 
-      // Calculate total realized P&L from trade details
-      const totalRealizedPL = await this.portfolioValueCalculator.calculateRealizedPL(portfolio.portfolioId);
+      // Calculate total realized P&L from trade details, with the FX part split out
+      const { realizedPl: totalRealizedPL, realizedFxPl } =
+        await this.portfolioCalculationService.calculateRealizedPlInBaseCurrency(portfolio.portfolioId);
 
       // Calculate total value (cash + assets)
       const totalAssetValue = calculation.assetPositions.reduce(
@@ -921,6 +916,9 @@ export class PortfolioService {
         unrealizedAssetPnL: newFields.unrealizedAssetPnL,
         unrealizedInvestPnL: newFields.unrealizedInvestPnL,
         unrealizedAllPnL: newFields.unrealizedAllPnL,
+        // FX part of the P&L for assets traded outside the base currency
+        unrealizedFxPnL: calculation.unrealizedFxPl,
+        realizedFxPnL: realizedFxPl,
         // Update NAV per unit for funds
         navPerUnit: navPerUnit,
       };
@@ -275,6 +275,7 @@ export class RiskMetricsCalculationService {
       .andWhere('snapshot.snapshotDate <= :endDate', { endDate })
       .andWhere('snapshot.granularity = :granularity', { granularity })
       .andWhere('snapshot.isActive = :isActive', { isActive: true })
+      .andWhere('snapshot.isTradingDay = :isTradingDay', { isTradingDay: true })
       .orderBy('snapshot.snapshotDate', 'ASC')
       .getMany();
 
@@ -311,6 +312,7 @@ export class RiskMetricsCalculationService {
       .andWhere('snapshot.snapshotDate <= :endDate', { endDate })
       .andWhere('snapshot.granularity = :granularity', { granularity })
       .andWhere('snapshot.isActive = :isActive', { isActive: true })
+      .andWhere('snapshot.isTradingDay = :isTradingDay', { isTradingDay: true })
       .orderBy('snapshot.snapshotDate', 'ASC')
       .getMany();
 
@@ -349,6 +351,7 @@ export class RiskMetricsCalculationService {
       .andWhere('snapshot.snapshotDate <= :endDate', { endDate })
       .andWhere('snapshot.granularity = :granularity', { granularity })
       .andWhere('snapshot.isActive = :isActive', { isActive: true })
+      .andWhere('snapshot.isTradingDay = :isTradingDay', { isTradingDay: true })
       .orderBy('snapshot.snapshotDate', 'ASC')
       .getMany();
 
@@ -1,4 +1,4 @@
-import { Injectable, Logger, NotFoundException, BadRequestException, forwardRef, Inject } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException, forwardRef, Inject } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { AssetAllocationSnapshot } from '../entities/asset-allocation-snapshot.entity';
@@ -14,6 +14,11 @@ import { Asset } from '../../asset/entities/asset.entity';
 import { normalizeDateToString, compareDates, getDateCondition, getDateRangeConditionSQL } from '../utils/date-normalization.util';
 import { Trade } from '../../trading/entities/trade.entity';
 import { PortfolioSnapshotService } from './portfolio-snapshot.service';
+import { AuditTrailService } from './audit-trail.service';
+import { Portfolio } from '../entities/portfolio.entity';
+import { FxRateService } from '../../market-data/services/fx-rate.service';
+import { normalizeCurrency } from '../../market-data/utils/fx-conversion.util';
+import { TradingCalendarService } from '../../shared/services/trading-calendar.service';
 
 export interface CreateSnapshotDto {
   portfolioId: string;
@@ -81,9 +86,14 @@ export class SnapshotService {
     private readonly assetRepository: AssetRepository,
     @InjectRepository(Trade)
     private readonly tradeRepository: Repository<Trade>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
     @Inject(forwardRef(() => PortfolioSnapshotService))
     private readonly portfolioSnapshotService: PortfolioSnapshotService,
     private readonly priceHistoryService: PriceHistoryService,
+    private readonly fxRateService: FxRateService,
+    private readonly auditTrailService: AuditTrailService,
+    private readonly tradingCalendarService: TradingCalendarService,
   ) {}
 
 
@@ -161,10 +171,29 @@ export class SnapshotService {
     const priceMap = new Map(priceResults.map(result => [result.asset.id, result.price]));
     const tradesMap = new Map(tradesResults.map(result => [result.asset.id, result.trades]));
     
+    // Snapshot values are stored in the portfolio base currency
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    const baseCurrency = normalizeCurrency(portfolio?.baseCurrency);
+    const isTradingDay = this.tradingCalendarService.isTradingDay(
+      normalizeDateToString(snapshotDate),
+      { currency: baseCurrency },
+    );
+
     // Step 3: Process all assets with pre-fetched data
     for (const asset of assets) {
-      const currentPrice = priceMap.get(asset.id) || 0;
-      const trades = tradesMap.get(asset.id) || [];
+      const assetCurrency = normalizeCurrency(asset.currency, baseCurrency);
+      let currentPrice = priceMap.get(asset.id) || 0;
+      let trades = tradesMap.get(asset.id) || [];
+
+      // Foreign-currency assets: cost at trade-date rates, value at the snapshot-date rate
+      if (assetCurrency !== baseCurrency) {
+        const valuationRate = await this.fxRateService.getRate(assetCurrency, baseCurrency, snapshotDate);
+        if (valuationRate === null) {
+          this.logger.warn(`No FX rate for ${assetCurrency}/${baseCurrency}, valuing ${asset.symbol} at 1`);
+        }
+        currentPrice = currentPrice * (valuationRate ?? 1);
+        trades = await this.fxRateService.convertTrades(trades, assetCurrency, baseCurrency);
+      }
       
       // Use FIFO calculation to get all values at once
       const positionData = this.assetValueCalculator.calculateAssetPositionFIFOFinal(trades, currentPrice);
@@ -222,6 +251,7 @@ export class SnapshotService {
         dailyReturn,
         cumulativeReturn,
         isActive: true,
+        isTradingDay,
         createdBy,
         notes: `Portfolio snapshot for ${snapshotDate.toISOString().split('T')[0]}`,
       };
@@ -233,7 +263,8 @@ export class SnapshotService {
   }
 
   /**
-   * Create snapshots for all assets in a portfolio
+   * Create snapshots for all assets in a portfolio.
+   * Snapshots dated inside the portfolio's closed period are frozen and are not recreated.
    */
   async createPortfolioSnapshot(
     portfolioId: string,
@@ -242,6 +273,7 @@ export class SnapshotService {
     createdBy?: string
   ): Promise<AssetAllocationSnapshot[]> {
     snapshotDate = typeof snapshotDate === 'string' ? new Date(snapshotDate) : snapshotDate;
+    await this.auditTrailService.assertSnapshotsOpen(portfolioId, snapshotDate);
 
     // Step 0: Prepare asset allocation snapshots
     const assetSnapshots = await this.prepareAssetSnapshots(portfolioId, snapshotDate, granularity, createdBy);
@@ -987,6 +1019,7 @@ export class SnapshotService {
   async updateSnapshot(id: string, updateDto: UpdateSnapshotDto): Promise<AssetAllocationSnapshot> {
 
     const snapshot = await this.getSnapshotById(id);
+    await this.auditTrailService.assertSnapshotsOpen(snapshot.portfolioId, snapshot.snapshotDate);
     
     // Recalculate derived fields if needed
     if (updateDto.currentValue !== undefined || updateDto.costBasis !== undefined) {
@@ -1015,6 +1048,8 @@ export class SnapshotService {
    */
   async deleteSnapshot(id: string): Promise<boolean> {
 
+    const snapshot = await this.getSnapshotById(id);
+    await this.auditTrailService.assertSnapshotsOpen(snapshot.portfolioId, snapshot.snapshotDate);
     const success = await this.snapshotRepo.softDelete(id);
     if (!success) {
       throw new NotFoundException(`Snapshot with ID ${id} not found`);
@@ -1028,6 +1063,8 @@ export class SnapshotService {
    */
   async hardDeleteSnapshot(id: string): Promise<boolean> {
 
+    const snapshot = await this.getSnapshotById(id);
+    await this.auditTrailService.assertSnapshotsOpen(snapshot.portfolioId, snapshot.snapshotDate);
     const success = await this.snapshotRepo.delete(id);
     if (!success) {
       throw new NotFoundException(`Snapshot with ID ${id} not found`);
@@ -1280,6 +1317,7 @@ export class SnapshotService {
     endDate: Date,
     granularity?: SnapshotGranularity
   ): Promise<{ deletedCount: number; message: string }> {
+    await this.auditTrailService.assertSnapshotsOpen(portfolioId, startDate);
 
     const deletedCount = await this.snapshotRepo.deleteAssetAllocationByPortfolioAndDateRange(
       portfolioId,
@@ -1314,6 +1352,7 @@ export class SnapshotService {
     snapshotDate: Date,
     granularity?: SnapshotGranularity
   ): Promise<{ deletedCount: number; message: string }> {
+    await this.auditTrailService.assertSnapshotsOpen(portfolioId, snapshotDate);
     const deletedCount = await this.snapshotRepo.deleteByPortfolioAndDate(
       portfolioId,
       snapshotDate,
@@ -1343,6 +1382,11 @@ export class SnapshotService {
     portfolioId: string,
     granularity: SnapshotGranularity
   ): Promise<{ deletedCount: number; message: string }> {
+    const { lockedThroughDate } = await this.auditTrailService.getPeriodLock(portfolioId);
+    if (lockedThroughDate) {
+      throw new ConflictException(`Snapshots through ${lockedThroughDate} are frozen; delete a date range after the closed period instead`);
+    }
+
     // Get all snapshots with this granularity first to count them
     const snapshots = await this.snapshotRepo.findMany({
       portfolioId,
@@ -74,6 +74,40 @@ export class TWRCalculationService {
     }
   }
 
+  /**
+   * Calculate portfolio TWR between two dates, starting from the value at the end of the day before startDate
+   * @returns TWR in percent
+   */
+  async calculatePortfolioTWRForRange(
+    portfolioId: string,
+    startDate: Date,
+    endDate: Date,
+    granularity: SnapshotGranularity = SnapshotGranularity.DAILY
+  ): Promise<number> {
+    const from = new Date(startDate);
+    from.setDate(from.getDate() - 1);
+    from.setHours(0, 0, 0, 0);
+    const to = new Date(endDate);
+    to.setHours(23, 59, 59, 999);
+
+    const snapshots = await this.portfolioSnapshotRepo
+      .createQueryBuilder('snapshot')
+      .where('snapshot.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('snapshot.snapshotDate >= :startDate', { startDate: from })
+      .andWhere('snapshot.snapshotDate <= :endDate', { endDate: to })
+      .andWhere('snapshot.granularity = :granularity', { granularity })
+      .andWhere('snapshot.isActive = :isActive', { isActive: true })
+      .orderBy('snapshot.snapshotDate', 'ASC')
+      .getMany();
+
+    if (snapshots.length < 2) {
+      return 0;
+    }
+
+    const twr = await this.calculateTWRFromSnapshots(snapshots, portfolioId);
+    return Number(twr.toFixed(4));
+  }
+
   /**
    * Calculate TWR for specific asset
    */
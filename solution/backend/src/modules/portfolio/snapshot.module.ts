@@ -14,11 +14,14 @@ import { MarketDataService } from '../asset/services/market-data.service';
 import { AssetValueCalculatorService } from '../asset/services/asset-value-calculator.service';
 import { PortfolioSnapshotModule } from './portfolio-snapshot.module';
 import { PortfolioModule } from './portfolio.module';
+import { Portfolio } from './entities/portfolio.entity';
+import { MarketDataModule } from '../market-data/market-data.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([AssetAllocationSnapshot, Trade, TradeDetail]),
+    TypeOrmModule.forFeature([AssetAllocationSnapshot, Trade, TradeDetail, Portfolio]),
     AssetModule,
+    MarketDataModule,
     LoggingModule,
     SharedModule,
     forwardRef(() => PortfolioSnapshotModule),
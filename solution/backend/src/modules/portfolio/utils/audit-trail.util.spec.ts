@@ -0,0 +1,50 @@
+import { diffAuditSnapshots, isInLockedPeriod, toAuditSnapshot } from './audit-trail.util';
+
+class Asset {
+  constructor(public symbol: string) {}
+}
+
+describe('audit-trail.util', () => {
+  it('should snapshot columns without loaded relations', () => {
+    const snapshot = toAuditSnapshot({
+      tradeId: 'trade-1',
+      price: '100.50',
+      tradeDate: new Date('2024-03-01T05:00:00Z'),
+      lotSelections: [{ buyTradeId: 'trade-0', quantity: 5 }],
+      asset: new Asset('VNM'),
+      sellDetails: [new Asset('VNM')],
+      notes: undefined,
+    });
+
+    expect(snapshot).toEqual({
+      tradeId: 'trade-1',
+      price: '100.50',
+      tradeDate: '2024-03-01T05:00:00.000Z',
+      lotSelections: [{ buyTradeId: 'trade-0', quantity: 5 }],
+    });
+    expect(toAuditSnapshot(null)).toBeNull();
+  });
+
+  it('should list only changed fields and treat decimal strings as numbers', () => {
+    const before = { price: '100.00', quantity: '10', notes: 'old', updatedAt: '2024-01-01' };
+    const after = { price: 100, quantity: 12, notes: 'new', updatedAt: '2024-02-01' };
+
+    expect(diffAuditSnapshots(before, after)).toEqual({
+      quantity: { from: '10', to: 12 },
+      notes: { from: 'old', to: 'new' },
+    });
+  });
+
+  it('should list every field for creations and deletions', () => {
+    expect(diffAuditSnapshots(null, { amount: 5 })).toEqual({ amount: { from: null, to: 5 } });
+    expect(diffAuditSnapshots({ amount: 5 }, null)).toEqual({ amount: { from: 5, to: null } });
+  });
+
+  it('should lock dates up to and including the locked-through date', () => {
+    expect(isInLockedPeriod('2024-03-31', '2024-03-31')).toBe(true);
+    expect(isInLockedPeriod('2024-03-31', new Date('2024-03-15T05:00:00Z'))).toBe(true);
+    expect(isInLockedPeriod('2024-03-31', '2024-04-01')).toBe(false);
+    expect(isInLockedPeriod(null, '2020-01-01')).toBe(false);
+    expect(isInLockedPeriod('2024-03-31', undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { AuditFieldChange } from '../entities/financial-audit-log.entity';
+import { normalizeDateToString } from './date-normalization.util';
+
+/**
+ * Fields left out of audit diffs because every write changes them
+ */
+export const AUDIT_IGNORED_FIELDS = ['updatedAt'];
+
+function isRelation(value: any): boolean {
+  if (Array.isArray(value)) {
+    return value.some(item => isRelation(item));
+  }
+  return value !== null && typeof value === 'object' && !(value instanceof Date)
+    && Object.getPrototypeOf(value) !== Object.prototype;
+}
+
+/**
+ * Column values of an entity as plain JSON; loaded relations and methods are left out
+ */
+export function toAuditSnapshot(record: object | null | undefined): Record<string, any> | null {
+  if (!record) {
+    return null;
+  }
+  const snapshot: Record<string, any> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (value === undefined || typeof value === 'function' || isRelation(value)) {
+      continue;
+    }
+    snapshot[key] = value instanceof Date ? value.toISOString() : value;
+  }
+  return snapshot;
+}
+
+function isNumeric(value: any): boolean {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+}
+
+/**
+ * Decimal columns load as strings, so '100.00' and 100 are the same value
+ */
+function sameValue(a: any, b: any): boolean {
+  if (isNumeric(a) && isNumeric(b)) {
+    return Number(a) === Number(b);
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Changed fields between two snapshots; a creation or deletion lists every field
+ */
+export function diffAuditSnapshots(
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+  ignoredFields: string[] = AUDIT_IGNORED_FIELDS,
+): Record<string, AuditFieldChange> {
+  const changes: Record<string, AuditFieldChange> = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  for (const field of fields) {
+    if (ignoredFields.includes(field)) {
+      continue;
+    }
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (!sameValue(from, to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Whether a date falls in the locked period, which runs up to and including lockedThroughDate
+ */
+export function isInLockedPeriod(
+  lockedThroughDate: string | null | undefined,
+  date: Date | string | null | undefined,
+): boolean {
+  if (!lockedThroughDate || !date) {
+    return false;
+  }
+  return normalizeDateToString(date) <= lockedThroughDate.slice(0, 10);
+}
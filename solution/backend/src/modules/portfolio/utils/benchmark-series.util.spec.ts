@@ -0,0 +1,84 @@
+import {
+  blendSeries,
+  calculateMaxDrawdown,
+  calculateTotalReturn,
+  calculateVolatility,
+  toDailyReturns,
+} from './benchmark-series.util';
+
+describe('benchmark-series.util', () => {
+  const series = [
+    { date: '2025-01-01', value: 100 },
+    { date: '2025-01-02', value: 110 },
+    { date: '2025-01-03', value: 99 },
+    { date: '2025-01-04', value: 104.5 },
+  ];
+
+  describe('toDailyReturns', () => {
+    it('should compute day-over-day returns', () => {
+      const returns = toDailyReturns(series);
+
+      expect(returns.map(r => r.date)).toEqual(['2025-01-02', '2025-01-03', '2025-01-04']);
+      expect(returns[0].return).toBeCloseTo(0.1);
+      expect(returns[1].return).toBeCloseTo(-0.1);
+    });
+  });
+
+  describe('calculateTotalReturn', () => {
+    it('should compare last and first levels', () => {
+      expect(calculateTotalReturn(series)).toBeCloseTo(4.5);
+      expect(calculateTotalReturn(series.slice(0, 1))).toBe(0);
+    });
+  });
+
+  describe('calculateMaxDrawdown', () => {
+    it('should report the largest peak-to-trough decline as a positive percentage', () => {
+      expect(calculateMaxDrawdown(series)).toBeCloseTo(10);
+    });
+  });
+
+  describe('calculateVolatility', () => {
+    it('should be zero for a constant growth series and positive otherwise', () => {
+      const steady = [
+        { date: '2025-01-01', value: 100 },
+        { date: '2025-01-02', value: 101 },
+        { date: '2025-01-03', value: 102.01 },
+      ];
+
+      expect(calculateVolatility(steady)).toBeCloseTo(0);
+      expect(calculateVolatility(series)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('blendSeries', () => {
+    it('should weight market and fixed-rate legs', () => {
+      const index = [
+        { date: '2025-01-01', value: 1000 },
+        { date: '2025-01-02', value: 1100 },
+      ];
+
+      const blended = blendSeries(
+        [
+          { points: index, weight: 0.6 },
+          { annualRate: 36.5, weight: 0.4 },
+        ],
+        ['2025-01-01', '2025-01-02'],
+      );
+
+      const depositDaily = Math.pow(1.365, 1 / 365) - 1;
+      expect(blended[0].value).toBe(100);
+      expect(blended[1].value).toBeCloseTo(100 * (1 + 0.6 * 0.1 + 0.4 * depositDaily), 6);
+    });
+
+    it('should forward-fill legs that have no observation on a date', () => {
+      const index = [
+        { date: '2025-01-01', value: 100 },
+        { date: '2025-01-03', value: 120 },
+      ];
+
+      const blended = blendSeries([{ points: index, weight: 1 }], ['2025-01-01', '2025-01-02', '2025-01-03']);
+
+      expect(blended.map(p => p.value)).toEqual([100, 100, 120]);
+    });
+  });
+});
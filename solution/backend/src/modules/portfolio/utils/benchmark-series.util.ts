@@ -0,0 +1,116 @@
+import { RiskMetricsConfig } from '../../../config/risk-metrics.config';
+
+/**
+ * A daily benchmark level (date in YYYY-MM-DD)
+ */
+export interface BenchmarkPoint {
+  date: string;
+  value: number;
+}
+
+/**
+ * One leg of a blend: either a level series or a fixed annual rate (%)
+ */
+export interface BlendLeg {
+  points?: BenchmarkPoint[];
+  annualRate?: number;
+  weight: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Simple day-over-day returns (decimal) of a level series
+ */
+export function toDailyReturns(points: BenchmarkPoint[]): Array<{ date: string; return: number }> {
+  const returns: Array<{ date: string; return: number }> = [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1].value;
+    if (prev > 0) {
+      returns.push({ date: points[i].date, return: points[i].value / prev - 1 });
+    }
+  }
+  return returns;
+}
+
+/**
+ * Total return (%) between the first and last point
+ */
+export function calculateTotalReturn(points: BenchmarkPoint[]): number {
+  if (points.length < 2 || points[0].value <= 0) return 0;
+  return (points[points.length - 1].value / points[0].value - 1) * 100;
+}
+
+/**
+ * Annualized volatility (%) of daily returns, same convention as RiskMetricsCalculationService
+ */
+export function calculateVolatility(points: BenchmarkPoint[]): number {
+  const returns = toDailyReturns(points).map(r => r.return);
+  if (returns.length < 2) return 0;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+  return Math.sqrt(variance) * Math.sqrt(RiskMetricsConfig.TRADING_DAYS_PER_YEAR) * 100;
+}
+
+/**
+ * Maximum peak-to-trough decline (%) of the level series, reported as a positive number
+ */
+export function calculateMaxDrawdown(points: BenchmarkPoint[]): number {
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const point of points) {
+    if (point.value > peak) {
+      peak = point.value;
+    }
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - point.value) / peak);
+    }
+  }
+  return maxDrawdown * 100;
+}
+
+/**
+ * Build a blended level series on the given dates.
+ * Weights are rebalanced at every observation: each step applies the weighted
+ * sum of the legs' returns since the previous date. Market legs are forward-filled
+ * and contribute nothing until their first observation; rate legs accrue on calendar days.
+ */
+export function blendSeries(legs: BlendLeg[], dates: string[], baseLevel: number = 100): BenchmarkPoint[] {
+  const sortedDates = [...dates].sort();
+  const cursors = legs.map(() => ({ index: -1, value: undefined as number | undefined }));
+  const sortedLegs = legs.map(leg => ({
+    ...leg,
+    points: leg.points ? [...leg.points].sort((a, b) => a.date.localeCompare(b.date)) : undefined,
+  }));
+
+  const result: BenchmarkPoint[] = [];
+  let level = baseLevel;
+
+  for (let i = 0; i < sortedDates.length; i++) {
+    const date = sortedDates[i];
+    let stepReturn = 0;
+
+    sortedLegs.forEach((leg, legIndex) => {
+      if (leg.points) {
+        const cursor = cursors[legIndex];
+        const previousValue = cursor.value;
+        while (cursor.index + 1 < leg.points.length && leg.points[cursor.index + 1].date <= date) {
+          cursor.index++;
+          cursor.value = leg.points[cursor.index].value;
+        }
+        if (i > 0 && previousValue && cursor.value !== undefined) {
+          stepReturn += leg.weight * (cursor.value / previousValue - 1);
+        }
+      } else if (i > 0 && leg.annualRate) {
+        const days = (new Date(date).getTime() - new Date(sortedDates[i - 1]).getTime()) / MS_PER_DAY;
+        stepReturn += leg.weight * (Math.pow(1 + leg.annualRate / 100, days / 365) - 1);
+      }
+    });
+
+    level = level * (1 + stepReturn);
+    result.push({ date, value: Number(level.toFixed(8)) });
+  }
+
+  return result;
+}
@@ -0,0 +1,57 @@
+import { HoldingType } from '../entities/fund-unit-transaction.entity';
+import { applyMovement, emptyCapitalAccount, navPeriodReturn } from './capital-account.util';
+
+describe('capital-account.util', () => {
+  const subscribe = (transactionId: string, units: number, navPerUnit: number) => ({
+    transactionId,
+    date: '2025-01-01',
+    type: HoldingType.SUBSCRIBE,
+    units,
+    navPerUnit,
+    amount: units * navPerUnit,
+  });
+  const redeem = (transactionId: string, units: number, navPerUnit: number) => ({
+    ...subscribe(transactionId, units, navPerUnit),
+    type: HoldingType.REDEEM,
+  });
+
+  it('should open a lot per subscription', () => {
+    const state = emptyCapitalAccount();
+    applyMovement(state, subscribe('s1', 100, 10_000));
+    const entry = applyMovement(state, subscribe('s2', 50, 12_000));
+
+    expect(state.lots).toHaveLength(2);
+    expect(entry.runningUnits).toBe(150);
+    expect(entry.runningCostBasis).toBe(1_600_000);
+    expect(entry.realizedPnl).toBeNull();
+  });
+
+  it('should realize redemptions against the oldest lots first', () => {
+    const state = emptyCapitalAccount();
+    applyMovement(state, subscribe('s1', 100, 10_000));
+    applyMovement(state, subscribe('s2', 100, 12_000));
+
+    const entry = applyMovement(state, redeem('r1', 150, 13_000));
+
+    expect(entry.redeemedCost).toBe(1_600_000);
+    expect(entry.realizedPnl).toBe(350_000);
+    expect(entry.runningUnits).toBe(50);
+    expect(entry.runningCostBasis).toBe(600_000);
+    expect(state.lots).toEqual([expect.objectContaining({ transactionId: 's2', units: 50 })]);
+  });
+
+  it('should close every lot on a full redemption', () => {
+    const state = emptyCapitalAccount();
+    applyMovement(state, subscribe('s1', 33.333, 9_000));
+    const entry = applyMovement(state, redeem('r1', 33.333, 8_000));
+
+    expect(state.lots).toHaveLength(0);
+    expect(entry.runningCostBasis).toBe(0);
+    expect(entry.realizedPnl).toBeCloseTo(-33_333, 0);
+  });
+
+  it('should measure the period return from NAV per unit', () => {
+    expect(navPeriodReturn(10_000, 11_000)).toBeCloseTo(10, 6);
+    expect(navPeriodReturn(0, 11_000)).toBe(0);
+  });
+});
@@ -0,0 +1,106 @@
+import { HoldingType } from '../entities/fund-unit-transaction.entity';
+
+/**
+ * Subscription or redemption of a holding, in the order it happened
+ */
+export interface CapitalAccountMovement {
+  transactionId: string;
+  date: string;
+  type: HoldingType;
+  units: number;
+  navPerUnit: number;
+  amount: number;
+}
+
+/**
+ * Units bought by one subscription that have not been redeemed yet
+ */
+export interface UnitLot {
+  transactionId: string;
+  date: string;
+  units: number;
+  cost: number;
+}
+
+export interface CapitalAccountEntry extends CapitalAccountMovement {
+  runningUnits: number;
+  runningCostBasis: number;
+  /** Cost of the redeemed units, taken from the oldest lots first */
+  redeemedCost: number | null;
+  /** Redemption proceeds less the FIFO cost of the redeemed units */
+  realizedPnl: number | null;
+}
+
+export interface CapitalAccountState {
+  lots: UnitLot[];
+  units: number;
+  costBasis: number;
+}
+
+const UNIT_EPSILON = 0.0005;
+
+export function emptyCapitalAccount(): CapitalAccountState {
+  return { lots: [], units: 0, costBasis: 0 };
+}
+
+/**
+ * Apply one movement to a capital account: subscriptions open a lot, redemptions consume lots first in, first out.
+ * The state is updated in place.
+ */
+export function applyMovement(state: CapitalAccountState, movement: CapitalAccountMovement): CapitalAccountEntry {
+  const units = Number(movement.units);
+  const amount = Number(movement.amount);
+  let redeemedCost: number | null = null;
+
+  if (movement.type === HoldingType.SUBSCRIBE) {
+    state.lots.push({ transactionId: movement.transactionId, date: movement.date, units, cost: amount });
+  } else {
+    redeemedCost = 0;
+    let remaining = units;
+    while (remaining > UNIT_EPSILON && state.lots.length > 0) {
+      const lot = state.lots[0];
+      const taken = Math.min(lot.units, remaining);
+      const cost = lot.units > 0 ? lot.cost * (taken / lot.units) : 0;
+      redeemedCost += cost;
+      lot.units -= taken;
+      lot.cost -= cost;
+      remaining -= taken;
+      if (lot.units <= UNIT_EPSILON) {
+        state.lots.shift();
+      }
+    }
+  }
+
+  state.units = state.lots.reduce((sum, lot) => sum + lot.units, 0);
+  state.costBasis = state.lots.reduce((sum, lot) => sum + lot.cost, 0);
+
+  return {
+    ...movement,
+    units,
+    navPerUnit: Number(movement.navPerUnit),
+    amount,
+    runningUnits: round3(state.units),
+    runningCostBasis: round2(state.costBasis),
+    redeemedCost: redeemedCost === null ? null : round2(redeemedCost),
+    realizedPnl: redeemedCost === null ? null : round2(amount - redeemedCost),
+  };
+}
+
+/**
+ * Return of a holding over a period from the NAV per unit at both ends.
+ * Every unit is bought and sold at NAV, so this is the time-weighted return of the investor's capital.
+ */
+export function navPeriodReturn(openingNavPerUnit: number, closingNavPerUnit: number): number {
+  if (!openingNavPerUnit || openingNavPerUnit <= 0) {
+    return 0;
+  }
+  return ((closingNavPerUnit - openingNavPerUnit) / openingNavPerUnit) * 100;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
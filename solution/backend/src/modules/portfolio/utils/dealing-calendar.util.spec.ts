@@ -0,0 +1,56 @@
+import { DealingFrequency } from '../enums/dealing-frequency.enum';
+import {
+  addDays,
+  toLocalDateTime,
+  isDealingDate,
+  resolveDealingDate,
+  isDealingClosed,
+} from './dealing-calendar.util';
+
+describe('dealing-calendar.util', () => {
+  const daily = { frequency: DealingFrequency.DAILY, cutOffTime: '15:00' };
+
+  it('should add days across month ends', () => {
+    expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+    expect(addDays('2025-03-01', -1)).toBe('2025-02-28');
+  });
+
+  it('should convert an instant to the local date and time of a timezone', () => {
+    expect(toLocalDateTime(new Date('2025-03-10T18:30:00Z'), 'Asia/Ho_Chi_Minh')).toEqual({ date: '2025-03-11', time: '01:30' });
+  });
+
+  describe('resolveDealingDate', () => {
+    it('should deal daily orders on the same business day before the cut-off', () => {
+      expect(resolveDealingDate('2025-03-10', '14:59', daily)).toBe('2025-03-10');
+    });
+
+    it('should move orders after the cut-off or on weekends to the next business day', () => {
+      expect(resolveDealingDate('2025-03-10', '15:00', daily)).toBe('2025-03-11');
+      expect(resolveDealingDate('2025-03-14', '16:00', daily)).toBe('2025-03-17');
+      expect(resolveDealingDate('2025-03-15', '09:00', daily)).toBe('2025-03-17');
+    });
+
+    it('should deal weekly orders on the configured weekday', () => {
+      const weekly = { frequency: DealingFrequency.WEEKLY, dealingDay: 3, cutOffTime: '11:00' };
+      expect(resolveDealingDate('2025-03-10', '09:00', weekly)).toBe('2025-03-12');
+      expect(resolveDealingDate('2025-03-12', '11:30', weekly)).toBe('2025-03-19');
+    });
+
+    it('should deal monthly orders on the configured day, moved back from weekends', () => {
+      const monthEnd = { frequency: DealingFrequency.MONTHLY, cutOffTime: '15:00' };
+      expect(resolveDealingDate('2025-05-20', '09:00', monthEnd)).toBe('2025-05-30');
+      expect(isDealingDate('2025-05-31', monthEnd)).toBe(false);
+
+      const fifteenth = { frequency: DealingFrequency.MONTHLY, dealingDay: 15, cutOffTime: '15:00' };
+      expect(resolveDealingDate('2025-03-15', '09:00', fifteenth)).toBe('2025-04-15');
+      expect(resolveDealingDate('2025-03-10', '09:00', fifteenth)).toBe('2025-03-14');
+    });
+  });
+
+  it('should close a dealing day once its cut-off has passed', () => {
+    expect(isDealingClosed('2025-03-10', '2025-03-10', '14:00', '15:00')).toBe(false);
+    expect(isDealingClosed('2025-03-10', '2025-03-10', '15:00', '15:00')).toBe(true);
+    expect(isDealingClosed('2025-03-10', '2025-03-11', '08:00', '15:00')).toBe(true);
+    expect(isDealingClosed('2025-03-11', '2025-03-10', '23:00', '15:00')).toBe(false);
+  });
+});
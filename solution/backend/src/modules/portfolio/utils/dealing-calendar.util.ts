@@ -0,0 +1,103 @@
+import { DealingFrequency } from '../enums/dealing-frequency.enum';
+
+/**
+ * Dealing calendar of a fund; dates are YYYY-MM-DD strings and times HH:mm in the fund's timezone
+ */
+export interface DealingCalendar {
+  frequency: DealingFrequency;
+  /** Weekday for weekly dealing (1 = Monday ... 5 = Friday) or day of month for monthly dealing */
+  dealingDay?: number | null;
+  cutOffTime: string;
+}
+
+const DEFAULT_WEEKLY_DAY = 5;
+/** Longest search for the next dealing day; a monthly calendar deals at least once in this window */
+const MAX_SEARCH_DAYS = 62;
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Local date and time of an instant in a timezone
+ */
+export function toLocalDateTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(item => item.type === type)?.value || '00';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+  };
+}
+
+function weekday(date: string): number {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+}
+
+function isBusinessDay(date: string): boolean {
+  const day = weekday(date);
+  return day >= 1 && day <= 5;
+}
+
+/**
+ * Monthly dealing day of the month of a date: the configured day (month end when unset or past it),
+ * moved back to the previous business day when it falls on a weekend
+ */
+function monthlyDealingDate(date: string, dealingDay?: number | null): string {
+  const [year, month] = date.slice(0, 10).split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const day = Math.min(dealingDay || lastDay, lastDay);
+  let result = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  while (!isBusinessDay(result)) {
+    result = addDays(result, -1);
+  }
+  return result;
+}
+
+export function isDealingDate(date: string, calendar: DealingCalendar): boolean {
+  switch (calendar.frequency) {
+    case DealingFrequency.WEEKLY:
+      return weekday(date) === (calendar.dealingDay || DEFAULT_WEEKLY_DAY);
+    case DealingFrequency.MONTHLY:
+      return date.slice(0, 10) === monthlyDealingDate(date, calendar.dealingDay);
+    case DealingFrequency.DAILY:
+    default:
+      return isBusinessDay(date);
+  }
+}
+
+/**
+ * Dealing day of an order received at a local date and time:
+ * the same day when it is a dealing day and the cut-off has not passed, otherwise the next dealing day
+ */
+export function resolveDealingDate(requestDate: string, requestTime: string, calendar: DealingCalendar): string {
+  let date = requestDate.slice(0, 10);
+  if (isDealingDate(date, calendar) && requestTime < calendar.cutOffTime) {
+    return date;
+  }
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    date = addDays(date, 1);
+    if (isDealingDate(date, calendar)) {
+      return date;
+    }
+  }
+  throw new Error(`No dealing day within ${MAX_SEARCH_DAYS} days of ${requestDate}`);
+}
+
+/**
+ * Whether orders of a dealing day can be priced: the day is past, or it is today and the cut-off has passed
+ */
+export function isDealingClosed(dealingDate: string, today: string, now: string, cutOffTime: string): boolean {
+  return dealingDate < today || (dealingDate === today && now >= cutOffTime);
+}
@@ -0,0 +1,49 @@
+import { FeeCrystallizationFrequency } from '../entities/fund-fee-schedule.entity';
+import {
+  daysBetween,
+  dailyManagementFee,
+  hurdleNavPerUnit,
+  performanceFeeOutstanding,
+  blendHighWaterMark,
+  isCrystallizationDate,
+} from './fund-fee.util';
+
+describe('fund-fee.util', () => {
+  it('should accrue one 365th of the annual management fee per day', () => {
+    expect(dailyManagementFee(365_000_000, 2)).toBeCloseTo(20_000, 6);
+    expect(dailyManagementFee(-1, 2)).toBe(0);
+  });
+
+  it('should grow the high-water mark by a simple hurdle', () => {
+    expect(daysBetween('2025-01-01', '2026-01-01')).toBe(365);
+    expect(hurdleNavPerUnit(10_000, 6, 365)).toBeCloseTo(10_600, 6);
+    expect(hurdleNavPerUnit(10_000, 6, -5)).toBe(10_000);
+  });
+
+  describe('performanceFeeOutstanding', () => {
+    const base = { highWaterMark: 10_000, days: 365, units: 1_000, performanceFeeRate: 20, hurdleRate: 6 };
+
+    it('should charge only on the gain above the hurdle', () => {
+      expect(performanceFeeOutstanding({ ...base, navPerUnit: 12_000 })).toBeCloseTo(280_000, 6);
+    });
+
+    it('should charge nothing below the hurdle', () => {
+      expect(performanceFeeOutstanding({ ...base, navPerUnit: 10_500 })).toBe(0);
+      expect(performanceFeeOutstanding({ ...base, navPerUnit: 12_000, units: 0 })).toBe(0);
+    });
+  });
+
+  it('should weight the high-water mark of new units by their NAV', () => {
+    expect(blendHighWaterMark(100, 12_000, 100, 10_000)).toBe(11_000);
+    expect(blendHighWaterMark(0, 0, 50, 10_000)).toBe(10_000);
+  });
+
+  it('should detect the last day of each crystallization period', () => {
+    expect(isCrystallizationDate('2025-01-31', FeeCrystallizationFrequency.MONTHLY)).toBe(true);
+    expect(isCrystallizationDate('2025-01-31', FeeCrystallizationFrequency.QUARTERLY)).toBe(false);
+    expect(isCrystallizationDate('2025-03-31', FeeCrystallizationFrequency.QUARTERLY)).toBe(true);
+    expect(isCrystallizationDate('2025-12-31', FeeCrystallizationFrequency.ANNUALLY)).toBe(true);
+    expect(isCrystallizationDate('2025-06-30', FeeCrystallizationFrequency.ANNUALLY)).toBe(false);
+    expect(isCrystallizationDate('2025-06-29', FeeCrystallizationFrequency.MONTHLY)).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { FeeCrystallizationFrequency } from '../entities/fund-fee-schedule.entity';
+
+/**
+ * Fund fee calculations; rates are percentages and dates YYYY-MM-DD strings
+ */
+
+const DAYS_PER_YEAR = 365;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface PerformanceFeeInput {
+  /** NAV per unit after management fees, before performance fees */
+  navPerUnit: number;
+  highWaterMark: number;
+  /** Days since the high-water mark was set */
+  days: number;
+  units: number;
+  performanceFeeRate: number;
+  hurdleRate: number;
+}
+
+export function daysBetween(from: string, to: string): number {
+  const start = Date.parse(`${from.slice(0, 10)}T00:00:00Z`);
+  const end = Date.parse(`${to.slice(0, 10)}T00:00:00Z`);
+  return Math.round((end - start) / MS_PER_DAY);
+}
+
+/**
+ * One day of management fee on the NAV
+ */
+export function dailyManagementFee(netAssetValue: number, managementFeeRate: number): number {
+  if (netAssetValue <= 0 || managementFeeRate <= 0) {
+    return 0;
+  }
+  return (netAssetValue * managementFeeRate) / 100 / DAYS_PER_YEAR;
+}
+
+/**
+ * High-water mark grown by a simple annual hurdle over a number of days
+ */
+export function hurdleNavPerUnit(highWaterMark: number, hurdleRate: number, days: number): number {
+  return highWaterMark * (1 + (hurdleRate / 100) * (Math.max(days, 0) / DAYS_PER_YEAR));
+}
+
+/**
+ * Performance fee owed by a holding if it crystallized now
+ */
+export function performanceFeeOutstanding(input: PerformanceFeeInput): number {
+  if (input.units <= 0 || input.performanceFeeRate <= 0 || input.highWaterMark <= 0) {
+    return 0;
+  }
+  const hurdle = hurdleNavPerUnit(input.highWaterMark, input.hurdleRate, input.days);
+  const gainPerUnit = input.navPerUnit - hurdle;
+  if (gainPerUnit <= 0) {
+    return 0;
+  }
+  return (gainPerUnit * input.units * input.performanceFeeRate) / 100;
+}
+
+/**
+ * Unit-weighted high-water mark after new units are issued at a NAV per unit
+ */
+export function blendHighWaterMark(
+  units: number,
+  highWaterMark: number,
+  newUnits: number,
+  navPerUnit: number,
+): number {
+  const totalUnits = units + newUnits;
+  if (totalUnits <= 0) {
+    return navPerUnit;
+  }
+  return (units * highWaterMark + newUnits * navPerUnit) / totalUnits;
+}
+
+/**
+ * Whether a date is the last day of a crystallization period
+ */
+export function isCrystallizationDate(date: string, frequency: FeeCrystallizationFrequency): boolean {
+  const next = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  if (next.getUTCDate() !== 1) {
+    return false;
+  }
+
+  const nextMonth = next.getUTCMonth();
+  switch (frequency) {
+    case FeeCrystallizationFrequency.MONTHLY:
+      return true;
+    case FeeCrystallizationFrequency.QUARTERLY:
+      return nextMonth % 3 === 0;
+    case FeeCrystallizationFrequency.ANNUALLY:
+      return nextMonth === 0;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,46 @@
+import { AuditEntityType } from '../entities/financial-audit-log.entity';
+import { auditedRecordDates, diffInvestorUnits, earliestDateInPeriod } from './period-close.util';
+
+describe('period-close.util', () => {
+  it('should collect the dates of a record before and after a change', () => {
+    expect(auditedRecordDates({
+      entityType: AuditEntityType.TRADE,
+      before: { tradeDate: '2024-03-20T00:00:00.000Z', price: '10' },
+      after: { tradeDate: '2024-04-02T00:00:00.000Z', price: '10' },
+    })).toEqual(['2024-03-20', '2024-04-02']);
+
+    expect(auditedRecordDates({
+      entityType: AuditEntityType.DEPOSIT,
+      before: null,
+      after: { startDate: '2024-01-15', settledAt: null },
+    })).toEqual(['2024-01-15']);
+
+    expect(auditedRecordDates({ entityType: AuditEntityType.PORTFOLIO_LOCK, after: { lockedThroughDate: '2024-03-31' } }))
+      .toEqual([]);
+  });
+
+  it('should find the earliest date inside a period', () => {
+    const dates = ['2024-02-29', '2024-03-05', '2024-03-31', '2024-04-01'];
+
+    expect(earliestDateInPeriod(dates, '2024-02-29', '2024-03-31')).toBe('2024-03-05');
+    expect(earliestDateInPeriod(dates, null, '2024-03-31')).toBe('2024-02-29');
+    expect(earliestDateInPeriod(['2024-04-01'], '2024-02-29', '2024-03-31')).toBeNull();
+  });
+
+  it('should list investors whose units changed since the close', () => {
+    const atClose = [
+      { holdingId: 'holding-1', accountId: 'account-1', units: 100 },
+      { holdingId: 'holding-2', accountId: 'account-2', units: 50 },
+    ];
+    const now = [
+      { holdingId: 'holding-1', accountId: 'account-1', units: 100.0001 },
+      { holdingId: 'holding-2', accountId: 'account-2', units: 40 },
+      { holdingId: 'holding-3', accountId: 'account-3', units: 5 },
+    ];
+
+    expect(diffInvestorUnits(atClose, now)).toEqual([
+      { holdingId: 'holding-2', accountId: 'account-2', unitsAtClose: 50, unitsNow: 40, difference: -10 },
+      { holdingId: 'holding-3', accountId: 'account-3', unitsAtClose: 0, unitsNow: 5, difference: 5 },
+    ]);
+  });
+});
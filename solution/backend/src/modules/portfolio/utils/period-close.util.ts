@@ -0,0 +1,91 @@
+import { AuditEntityType } from '../entities/financial-audit-log.entity';
+import { ClosedInvestorUnits } from '../entities/period-close.entity';
+import { normalizeDateToString } from './date-normalization.util';
+
+/**
+ * Fields that date each audited record type, i.e. the fields the locked period is checked against
+ */
+export const RECORD_DATE_FIELDS: Partial<Record<AuditEntityType, string[]>> = {
+  [AuditEntityType.TRADE]: ['tradeDate'],
+  [AuditEntityType.CASH_FLOW]: ['flowDate'],
+  [AuditEntityType.DEPOSIT]: ['startDate', 'settledAt'],
+  [AuditEntityType.FUND_UNIT_TRANSACTION]: ['createdAt'],
+};
+
+/**
+ * Change in the units of an investor between the close of a period and now
+ */
+export interface InvestorUnitsChange {
+  holdingId: string;
+  accountId: string;
+  unitsAtClose: number;
+  unitsNow: number;
+  difference: number;
+}
+
+/**
+ * Dates (YYYY-MM-DD) of an audited record before and after the change
+ */
+export function auditedRecordDates(entry: {
+  entityType: AuditEntityType;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}): string[] {
+  const dates = new Set<string>();
+  for (const field of RECORD_DATE_FIELDS[entry.entityType] || []) {
+    for (const value of [entry.before?.[field], entry.after?.[field]]) {
+      if (value) {
+        dates.add(normalizeDateToString(value));
+      }
+    }
+  }
+  return Array.from(dates).sort();
+}
+
+/**
+ * Earliest of the dates that falls after periodStart (exclusive) and up to periodEnd, or null
+ */
+export function earliestDateInPeriod(
+  dates: string[],
+  periodStart: string | null | undefined,
+  periodEnd: string,
+): string | null {
+  const inPeriod = dates
+    .filter(date => (!periodStart || date > periodStart) && date <= periodEnd)
+    .sort();
+  return inPeriod[0] ?? null;
+}
+
+/**
+ * Investors whose units differ between two balances; units are compared to 3 decimals like fund units are stored
+ */
+export function diffInvestorUnits(
+  atClose: ClosedInvestorUnits[],
+  now: ClosedInvestorUnits[],
+): InvestorUnitsChange[] {
+  const holdings = new Map<string, InvestorUnitsChange>();
+  for (const balance of atClose) {
+    holdings.set(balance.holdingId, {
+      holdingId: balance.holdingId,
+      accountId: balance.accountId,
+      unitsAtClose: balance.units,
+      unitsNow: 0,
+      difference: 0,
+    });
+  }
+  for (const balance of now) {
+    const change = holdings.get(balance.holdingId) || {
+      holdingId: balance.holdingId,
+      accountId: balance.accountId,
+      unitsAtClose: 0,
+      unitsNow: 0,
+      difference: 0,
+    };
+    change.unitsNow = balance.units;
+    holdings.set(balance.holdingId, change);
+  }
+
+  return Array.from(holdings.values())
+    .map(change => ({ ...change, difference: Math.round((change.unitsNow - change.unitsAtClose) * 1000) / 1000 }))
+    .filter(change => change.difference !== 0);
+}
@@ -0,0 +1,158 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Res,
+  HttpStatus,
+  HttpCode,
+  ParseUUIDPipe,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { StatementService } from '../services/statement.service';
+import { PortfolioService } from '../../portfolio/services/portfolio.service';
+import { StatementPeriodType } from '../entities/portfolio-statement.entity';
+import { GenerateStatementDto, StatementListItem } from '../dto/statement.dto';
+
+/**
+ * Controller for the archived periodic statements of a portfolio.
+ * Accounts with access to the portfolio see every statement; fund investors see only their own.
+ */
+@ApiTags('Statements')
+@Controller('api/v1/portfolios/:id/statements')
+export class StatementController {
+  constructor(
+    private readonly statementService: StatementService,
+    private readonly portfolioService: PortfolioService,
+  ) {}
+
+  /**
+   * Get the archived statements of a portfolio
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the archived statements of a portfolio, newest period first' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiQuery({ name: 'periodType', required: false, enum: StatementPeriodType })
+  @ApiResponse({ status: 200, description: 'Statements retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'No access to the portfolio' })
+  async getStatements(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Query('periodType') periodType?: StatementPeriodType,
+  ): Promise<StatementListItem[]> {
+    const investorAccountId = await this.resolveViewer(id, accountId);
+    return this.statementService.getStatements(id, periodType, investorAccountId);
+  }
+
+  /**
+   * Generate the statements of a period now
+   */
+  @Post('generate')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Generate the statements of a period',
+    description: 'Generates the portfolio statement and, for funds, one statement per investor. Existing statements of the period are replaced.',
+  })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: GenerateStatementDto })
+  @ApiResponse({ status: 201, description: 'Statements generated' })
+  @ApiResponse({ status: 400, description: 'Future period' })
+  async generateStatements(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Body() generateDto: GenerateStatementDto,
+  ): Promise<StatementListItem[]> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.statementService.generateStatements(id, generateDto);
+  }
+
+  /**
+   * Download a statement as HTML
+   */
+  @Get(':statementId/html')
+  @ApiOperation({ summary: 'Download a statement as HTML' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'statementId', description: 'Statement ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'HTML document' })
+  @ApiResponse({ status: 404, description: 'Statement not found' })
+  async downloadHtml(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('statementId', ParseUUIDPipe) statementId: string,
+    @Query('accountId') accountId: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const investorAccountId = await this.resolveViewer(id, accountId);
+    const document = await this.statementService.getStatementDocument(id, statementId, 'html', investorAccountId);
+
+    res.set('Content-Type', 'text/html; charset=utf-8');
+    res.set('Content-Disposition', `inline; filename="${document.fileName}"`);
+    res.send(document.content);
+  }
+
+  /**
+   * Download a statement as PDF
+   */
+  @Get(':statementId/pdf')
+  @ApiOperation({ summary: 'Download a statement as PDF' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'statementId', description: 'Statement ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'PDF document' })
+  @ApiResponse({ status: 404, description: 'Statement not found' })
+  async downloadPdf(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('statementId', ParseUUIDPipe) statementId: string,
+    @Query('accountId') accountId: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const investorAccountId = await this.resolveViewer(id, accountId);
+    const document = await this.statementService.getStatementDocument(id, statementId, 'pdf', investorAccountId);
+
+    res.set('Content-Type', 'application/pdf');
+    res.set('Content-Disposition', `attachment; filename="${document.fileName}"`);
+    res.send(document.content);
+  }
+
+  /**
+   * @returns undefined for accounts with portfolio access, or the account itself for fund investors
+   */
+  private async resolveViewer(portfolioId: string, accountId: string): Promise<string | undefined> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    if (await this.portfolioService.checkPortfolioAccess(portfolioId, accountId, 'view')) {
+      return undefined;
+    }
+    if (await this.statementService.isInvestor(portfolioId, accountId)) {
+      return accountId;
+    }
+    throw new ForbiddenException('You do not have access to this portfolio');
+  }
+
+  private async assertAccess(portfolioId: string, accountId: string, action: 'view' | 'update'): Promise<void> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    const hasAccess = await this.portfolioService.checkPortfolioAccess(portfolioId, accountId, action);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this portfolio');
+    }
+  }
+}
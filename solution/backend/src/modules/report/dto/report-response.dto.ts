@@ -61,6 +61,9 @@ export class AssetsReportDto {
   @ApiProperty({ description: 'Total assets value' })
   totalValue: number;
 
+  @ApiProperty({ description: 'Currency asset values are expressed in', example: 'VND' })
+  currency: string;
+
   @ApiProperty({ type: [ReportSummaryDto], description: 'Summary by exchange/platform' })
   byExchange: ReportSummaryDto[];
 
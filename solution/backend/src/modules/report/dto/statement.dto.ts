@@ -0,0 +1,125 @@
+import { IsEnum, IsOptional, IsDateString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { StatementPeriodType } from '../entities/portfolio-statement.entity';
+
+/**
+ * Data Transfer Object for generating the statements of a period on demand.
+ * Without a reference date the last completed period is generated.
+ */
+export class GenerateStatementDto {
+  @ApiProperty({ description: 'Statement period', enum: StatementPeriodType })
+  @IsEnum(StatementPeriodType, { message: 'Invalid period type' })
+  periodType: StatementPeriodType;
+
+  @ApiPropertyOptional({ description: 'Any date inside the period to generate', example: '2025-03-15' })
+  @IsOptional()
+  @IsDateString({}, { message: 'Reference date must be a valid date' })
+  referenceDate?: string;
+}
+
+export interface StatementPeriod {
+  type: StatementPeriodType;
+  /** First day of the period, YYYY-MM-DD */
+  start: string;
+  /** Last day of the period, YYYY-MM-DD */
+  end: string;
+  /** 2025-03 for a month, 2025-Q1 for a quarter */
+  label: string;
+}
+
+export interface StatementSummary {
+  openingValue: number;
+  closingValue: number;
+  contributions: number;
+  withdrawals: number;
+  /** Closing value minus opening value minus net contributions */
+  investmentResult: number;
+  twr: number;
+  mwr: number;
+  realizedPnl: number;
+  tradingFees: number;
+  tradingTaxes: number;
+  otherFees: number;
+  dividends: number;
+}
+
+export interface StatementAllocationItem {
+  assetType: string;
+  value: number;
+  percentage: number;
+}
+
+export interface StatementMover {
+  symbol: string;
+  openingPrice: number;
+  closingPrice: number;
+  changePercent: number;
+  closingValue: number;
+}
+
+export interface StatementInvestorLine {
+  accountId: string;
+  name: string;
+  openingUnits: number;
+  closingUnits: number;
+  closingValue: number;
+  ownershipPercent: number;
+}
+
+export interface StatementFundSection {
+  openingNavPerUnit: number;
+  closingNavPerUnit: number;
+  closingOutstandingUnits: number;
+  investors: StatementInvestorLine[];
+}
+
+export interface StatementInvestorSection {
+  accountId: string;
+  name: string;
+  openingUnits: number;
+  closingUnits: number;
+  subscribedUnits: number;
+  subscribedAmount: number;
+  redeemedUnits: number;
+  redeemedAmount: number;
+  openingValue: number;
+  closingValue: number;
+  ownershipPercent: number;
+}
+
+/**
+ * Everything a statement shows, archived as issued
+ */
+export interface StatementData {
+  portfolio: {
+    portfolioId: string;
+    name: string;
+    baseCurrency: string;
+    isFund: boolean;
+  };
+  period: StatementPeriod;
+  summary: StatementSummary;
+  allocation: StatementAllocationItem[];
+  topMovers: StatementMover[];
+  fund?: StatementFundSection;
+  investor?: StatementInvestorSection;
+  generatedAt: string;
+}
+
+/**
+ * Statement list entry, without the rendered documents
+ */
+export interface StatementListItem {
+  statementId: string;
+  portfolioId: string;
+  investorAccountId?: string | null;
+  investorName?: string;
+  periodType: StatementPeriodType;
+  periodStart: string;
+  periodEnd: string;
+  label: string;
+  openingValue: number;
+  closingValue: number;
+  twr: number;
+  generatedAt: Date;
+}
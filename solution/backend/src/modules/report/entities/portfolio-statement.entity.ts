@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { StatementData } from '../dto/statement.dto';
+
+export enum StatementPeriodType {
+  MONTHLY = 'MONTHLY',
+  QUARTERLY = 'QUARTERLY',
+}
+
+/**
+ * Archived periodic statement of a portfolio, or of one investor's units in a fund portfolio.
+ * The rendered HTML and PDF are stored so a statement always downloads as it was issued.
+ */
+@Entity('portfolio_statements')
+@Index(['portfolioId', 'periodType', 'periodStart'])
+@Index(['investorAccountId'])
+export class PortfolioStatement {
+  @PrimaryGeneratedColumn('uuid', { name: 'statement_id' })
+  statementId: string;
+
+  @Column('uuid', { name: 'portfolio_id' })
+  portfolioId: string;
+
+  /**
+   * Investor the statement is issued to; null for the statement of the whole portfolio
+   */
+  @Column('uuid', { nullable: true, name: 'investor_account_id' })
+  investorAccountId?: string | null;
+
+  @Column({ type: 'enum', enum: StatementPeriodType, name: 'period_type' })
+  periodType: StatementPeriodType;
+
+  @Column({ type: 'date', name: 'period_start' })
+  periodStart: string;
+
+  @Column({ type: 'date', name: 'period_end' })
+  periodEnd: string;
+
+  @Column('jsonb', { name: 'data' })
+  data: StatementData;
+
+  @Column('text', { name: 'html', select: false })
+  html: string;
+
+  @Column('bytea', { name: 'pdf', select: false })
+  pdf: Buffer;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'generated_at' })
+  generatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Portfolio, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'portfolio_id' })
+  portfolio: Portfolio;
+}
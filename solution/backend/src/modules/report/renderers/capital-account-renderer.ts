@@ -0,0 +1,102 @@
+import { CapitalAccountLedger } from '../../portfolio/dto/capital-account.dto';
+import { HoldingType } from '../../portfolio/entities/fund-unit-transaction.entity';
+import { PdfWriter, PdfAlign } from './pdf-writer';
+import { formatAmount, formatUnits, formatPercent } from './statement-renderer';
+
+const CSV_HEADERS = [
+  'Date',
+  'Type',
+  'Units',
+  'NAV per unit',
+  'Amount',
+  'Running units',
+  'Running cost basis',
+  'Redeemed cost',
+  'Realized P&L',
+  'Transaction ID',
+];
+
+const LEDGER_WIDTHS = [0.1, 0.1, 0.1, 0.12, 0.15, 0.11, 0.16, 0.16];
+const LEDGER_ALIGNS: PdfAlign[] = ['left', 'left', 'right', 'right', 'right', 'right', 'right', 'right'];
+
+/**
+ * Renders an investor capital account as CSV for spreadsheets and as a PDF statement.
+ * CSV amounts are plain numbers; the PDF formats them in the fund currency.
+ */
+export class CapitalAccountRenderer {
+  toCsv(ledger: CapitalAccountLedger): string {
+    const lines = [CSV_HEADERS];
+    lines.push([ledger.opening.date, 'OPENING', ledger.opening.units, ledger.opening.navPerUnit, ledger.opening.value, ledger.opening.units, ledger.opening.costBasis, '', '', '']
+      .map(String));
+    ledger.entries.forEach(entry => lines.push([
+      entry.date,
+      entry.type,
+      entry.units,
+      entry.navPerUnit,
+      entry.amount,
+      entry.runningUnits,
+      entry.runningCostBasis,
+      entry.redeemedCost ?? '',
+      entry.realizedPnl ?? '',
+      entry.transactionId,
+    ].map(String)));
+    lines.push([ledger.closing.date, 'CLOSING', ledger.closing.units, ledger.closing.navPerUnit, ledger.closing.value, ledger.closing.units, ledger.closing.costBasis, '', '', '']
+      .map(String));
+
+    return lines.map(cells => cells.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+  }
+
+  toPdf(ledger: CapitalAccountLedger): Buffer {
+    const currency = ledger.baseCurrency;
+    const amount = (value: number) => formatAmount(value, currency);
+    const pdf = new PdfWriter();
+
+    pdf.text(`Capital account statement: ${ledger.portfolioName} - ${ledger.investorName}`, { size: 16, bold: true });
+    pdf.text(`Period: ${ledger.from} to ${ledger.to}`);
+    pdf.text(`Currency: ${currency}`);
+    pdf.text(`Generated: ${ledger.generatedAt.replace('T', ' ').slice(0, 19)} UTC`);
+
+    pdf.heading('Summary');
+    const summaryRows: string[][] = [
+      ['Opening units', formatUnits(ledger.opening.units)],
+      ['Opening value', amount(ledger.opening.value)],
+      ['Subscriptions', amount(ledger.summary.subscriptions)],
+      ['Redemptions', amount(ledger.summary.redemptions)],
+      ['Realized P&L (FIFO)', amount(ledger.summary.realizedPnl)],
+      ['Unrealized P&L', amount(ledger.summary.unrealizedPnl)],
+      ['Investment result', amount(ledger.summary.investmentResult)],
+      ['Period return (NAV/unit)', formatPercent(ledger.summary.periodReturn)],
+      ['Closing units', formatUnits(ledger.closing.units)],
+      ['Closing cost basis', amount(ledger.closing.costBasis)],
+      ['Closing NAV/unit', amount(ledger.closing.navPerUnit)],
+      ['Closing value', amount(ledger.closing.value)],
+    ];
+    summaryRows.forEach(row => pdf.row(row, [0.6, 0.4], { aligns: ['left', 'right'] }));
+
+    pdf.heading('Unit ledger');
+    pdf.row(
+      ['Date', 'Type', 'Units', 'NAV/unit', 'Amount', 'Units held', 'Cost basis', 'Realized P&L'],
+      LEDGER_WIDTHS,
+      { aligns: LEDGER_ALIGNS, bold: true, shaded: true, size: 7.5 },
+    );
+    if (ledger.entries.length === 0) {
+      pdf.text('No subscriptions or redemptions in this period');
+    }
+    ledger.entries.forEach(entry => pdf.row([
+      entry.date,
+      entry.type === HoldingType.SUBSCRIBE ? 'Subscription' : 'Redemption',
+      formatUnits(entry.units),
+      amount(entry.navPerUnit),
+      amount(entry.amount),
+      formatUnits(entry.runningUnits),
+      amount(entry.runningCostBasis),
+      entry.realizedPnl === null ? '' : amount(entry.realizedPnl),
+    ], LEDGER_WIDTHS, { aligns: LEDGER_ALIGNS, size: 7.5 }));
+
+    return pdf.toBuffer();
+  }
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,41 @@
+import { PdfWriter, toPdfText } from './pdf-writer';
+
+describe('PdfWriter', () => {
+  it('should produce a PDF whose cross-reference offsets point at the objects', () => {
+    const output = new PdfWriter().text('Statement', { bold: true }).toBuffer().toString('latin1');
+
+    expect(output.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(output.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const xrefOffset = Number(output.match(/startxref\n(\d+)/)[1]);
+    expect(output.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+    const offsets = output
+      .slice(xrefOffset)
+      .split('\n')
+      .filter(line => line.endsWith(' 00000 n '))
+      .map(line => Number(line.slice(0, 10)));
+    offsets.forEach((offset, index) => {
+      expect(output.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('should break onto new pages and number them', () => {
+    const pdf = new PdfWriter();
+    for (let index = 0; index < 80; index++) {
+      pdf.row([`Row ${index}`, '1,000'], [0.5, 0.5], { aligns: ['left', 'right'] });
+    }
+    const output = pdf.toBuffer().toString('latin1');
+
+    expect(pdf.pageCount).toBe(2);
+    expect(output).toContain('/Count 2');
+    expect(output).toContain('(2 / 2) Tj');
+  });
+
+  it('should strip diacritics and escape string delimiters', () => {
+    expect(toPdfText('Đầu tư định kỳ')).toBe('Dau tu dinh ky');
+
+    const output = new PdfWriter().text('Realized P&L (net) \\ fees').toBuffer().toString('latin1');
+    expect(output).toContain('(Realized P&L \\(net\\) \\\\ fees) Tj');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Minimal PDF 1.4 writer for tabular documents such as statements.
+ * Uses the standard Helvetica fonts, so text is reduced to printable ASCII
+ * (Vietnamese diacritics are stripped); the HTML rendition keeps the full text.
+ */
+
+export type PdfAlign = 'left' | 'right';
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+}
+
+export interface PdfRowOptions extends PdfTextOptions {
+  aligns?: PdfAlign[];
+  shaded?: boolean;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const DEFAULT_SIZE = 9;
+const LINE_SPACING = 1.45;
+
+const NARROW_CHARS = ' ,.:;!|il\'';
+const DIGIT_WIDTH = 556;
+
+/**
+ * Approximate Helvetica glyph width in 1/1000 em, close enough to right-align numbers
+ */
+function charWidth(char: string, bold: boolean): number {
+  if (/[0-9]/.test(char)) return DIGIT_WIDTH;
+  if (NARROW_CHARS.includes(char)) return 278;
+  if (char === '%') return 889;
+  if (char === '-' || char === '(' || char === ')') return 333;
+  if (/[A-Z]/.test(char)) return bold ? 722 : 667;
+  if (char === 'm' || char === 'w') return 833;
+  return bold ? 611 : 556;
+}
+
+/**
+ * Reduce text to what the standard fonts can show: strip diacritics, map đ/Đ, replace anything else non-ASCII
+ */
+export function toPdfText(text: string): string {
+  return String(text ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+export function measurePdfText(text: string, size: number, bold = false): number {
+  let width = 0;
+  for (const char of toPdfText(text)) {
+    width += charWidth(char, bold);
+  }
+  return (width * size) / 1000;
+}
+
+function escapePdfString(text: string): string {
+  return toPdfText(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+export class PdfWriter {
+  private readonly pages: string[][] = [];
+  private cursorY = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  get contentWidth(): number {
+    return PAGE_WIDTH - MARGIN * 2;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Write a line of text, wrapping onto a new page when the current one is full
+   */
+  text(text: string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? DEFAULT_SIZE;
+    this.ensureSpace(size * LINE_SPACING);
+    this.cursorY -= size * LINE_SPACING;
+    this.drawText(text, MARGIN, this.cursorY, size, !!options.bold);
+    return this;
+  }
+
+  heading(text: string, size = 12): this {
+    this.space(size * 0.5);
+    this.text(text, { size, bold: true });
+    this.rule();
+    return this;
+  }
+
+  /**
+   * Write a table row; widths are fractions of the content width and must sum to at most 1
+   */
+  row(cells: string[], widths: number[], options: PdfRowOptions = {}): this {
+    const size = options.size ?? DEFAULT_SIZE;
+    const bold = !!options.bold;
+    const height = size * LINE_SPACING + 2;
+    this.ensureSpace(height);
+    this.cursorY -= height;
+
+    if (options.shaded) {
+      this.current.push(
+        `0.93 g ${MARGIN} ${this.cursorY - 2} ${this.contentWidth} ${height} re f 0 g`,
+      );
+    }
+
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      const cellWidth = (widths[index] ?? 0) * this.contentWidth;
+      const align = options.aligns?.[index] ?? 'left';
+      const textWidth = measurePdfText(cell, size, bold);
+      const textX = align === 'right' ? x + cellWidth - textWidth - 2 : x + 2;
+      this.drawText(cell, textX, this.cursorY + 2, size, bold);
+      x += cellWidth;
+    });
+    return this;
+  }
+
+  space(height: number): this {
+    this.ensureSpace(height);
+    this.cursorY -= height;
+    return this;
+  }
+
+  rule(): this {
+    this.space(3);
+    this.current.push(`0.5 w ${MARGIN} ${this.cursorY} m ${PAGE_WIDTH - MARGIN} ${this.cursorY} l S`);
+    return this;
+  }
+
+  /**
+   * Serialize the document, with page numbers in the footer
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    const firstPageObject = 5;
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    const kids = this.pages.map((_, index) => `${firstPageObject + index * 2} 0 R`).join(' ');
+    objects.push(`<< /Type /Pages /Kids [${kids}] /Count ${pageCount} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    this.pages.forEach((operations, index) => {
+      const footer = `${index + 1} / ${pageCount}`;
+      const footerX = PAGE_WIDTH - MARGIN - measurePdfText(footer, 8);
+      const content = [
+        ...operations,
+        `BT /F1 8 Tf ${footerX.toFixed(2)} ${MARGIN / 2} Td (${escapePdfString(footer)}) Tj ET`,
+      ].join('\n');
+
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPageObject + index * 2 + 1} 0 R >>`,
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private addPage(): void {
+    this.pages.push([]);
+    this.cursorY = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.cursorY - height < MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private drawText(text: string, x: number, y: number, size: number, bold: boolean): void {
+    this.current.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfString(text)}) Tj ET`,
+    );
+  }
+}
@@ -0,0 +1,222 @@
+import { StatementData } from '../dto/statement.dto';
+import { StatementPeriodType } from '../entities/portfolio-statement.entity';
+import { PdfWriter, PdfAlign } from './pdf-writer';
+
+interface StatementTable {
+  title: string;
+  headers: string[];
+  widths: number[];
+  aligns: PdfAlign[];
+  rows: string[][];
+  emptyMessage: string;
+}
+
+/**
+ * Renders archived statement data as a standalone HTML page and as a PDF document.
+ * Both renditions show the same sections in the same order.
+ */
+export class StatementRenderer {
+  toHtml(data: StatementData): string {
+    const sections = this.buildTables(data)
+      .map(table => {
+        const head = table.headers
+          .map((header, index) => `<th class="${table.aligns[index]}">${escapeHtml(header)}</th>`)
+          .join('');
+        const body = table.rows.length
+          ? table.rows
+              .map(row => `<tr>${row.map((cell, index) => `<td class="${table.aligns[index]}">${escapeHtml(cell)}</td>`).join('')}</tr>`)
+              .join('\n')
+          : `<tr><td colspan="${table.headers.length}" class="empty">${escapeHtml(table.emptyMessage)}</td></tr>`;
+        return `<h2>${escapeHtml(table.title)}</h2>\n<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+      })
+      .join('\n');
+
+    return [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapeHtml(this.title(data))}</title>`,
+      '<style>',
+      'body { font-family: Helvetica, Arial, sans-serif; font-size: 13px; color: #222; max-width: 900px; margin: 24px auto; }',
+      'h1 { font-size: 20px; margin-bottom: 4px; }',
+      'h2 { font-size: 15px; border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 24px; }',
+      'table { width: 100%; border-collapse: collapse; }',
+      'th, td { padding: 4px 6px; border-bottom: 1px solid #eee; }',
+      'th { background: #f3f3f3; }',
+      '.left { text-align: left; } .right { text-align: right; } .empty { color: #888; text-align: center; }',
+      '.meta { color: #666; }',
+      '</style>',
+      '</head>',
+      '<body>',
+      `<h1>${escapeHtml(this.title(data))}</h1>`,
+      ...this.headerLines(data).map(line => `<div class="meta">${escapeHtml(line)}</div>`),
+      sections,
+      '</body>',
+      '</html>',
+    ].join('\n');
+  }
+
+  toPdf(data: StatementData): Buffer {
+    const pdf = new PdfWriter();
+    pdf.text(this.title(data), { size: 16, bold: true });
+    this.headerLines(data).forEach(line => pdf.text(line));
+
+    for (const table of this.buildTables(data)) {
+      pdf.heading(table.title);
+      pdf.row(table.headers, table.widths, { aligns: table.aligns, bold: true, shaded: true });
+      if (table.rows.length === 0) {
+        pdf.text(table.emptyMessage);
+      }
+      table.rows.forEach(row => pdf.row(row, table.widths, { aligns: table.aligns }));
+    }
+
+    return pdf.toBuffer();
+  }
+
+  private title(data: StatementData): string {
+    const kind = data.period.type === StatementPeriodType.QUARTERLY ? 'Quarterly' : 'Monthly';
+    const owner = data.investor ? ` - ${data.investor.name}` : '';
+    return `${kind} statement ${data.period.label}: ${data.portfolio.name}${owner}`;
+  }
+
+  private headerLines(data: StatementData): string[] {
+    return [
+      `Period: ${data.period.start} to ${data.period.end}`,
+      `Currency: ${data.portfolio.baseCurrency}`,
+      `Generated: ${data.generatedAt.replace('T', ' ').slice(0, 19)} UTC`,
+    ];
+  }
+
+  private buildTables(data: StatementData): StatementTable[] {
+    const currency = data.portfolio.baseCurrency;
+    const amount = (value: number) => formatAmount(value, currency);
+    const summary = data.summary;
+    const tables: StatementTable[] = [];
+
+    if (data.investor) {
+      const investor = data.investor;
+      tables.push({
+        title: 'Your holding',
+        headers: ['Item', 'Units', 'Amount'],
+        widths: [0.5, 0.25, 0.25],
+        aligns: ['left', 'right', 'right'],
+        emptyMessage: '',
+        rows: [
+          ['Opening balance', formatUnits(investor.openingUnits), amount(investor.openingValue)],
+          ['Subscriptions', formatUnits(investor.subscribedUnits), amount(investor.subscribedAmount)],
+          ['Redemptions', formatUnits(investor.redeemedUnits), amount(investor.redeemedAmount)],
+          ['Closing balance', formatUnits(investor.closingUnits), amount(investor.closingValue)],
+          ['Share of the fund', '', formatPercent(investor.ownershipPercent, false)],
+        ],
+      });
+    }
+
+    tables.push({
+      title: data.investor ? 'Fund summary' : 'Summary',
+      headers: ['Item', 'Value'],
+      widths: [0.6, 0.4],
+      aligns: ['left', 'right'],
+      emptyMessage: '',
+      rows: [
+        ['Opening value', amount(summary.openingValue)],
+        ['Contributions', amount(summary.contributions)],
+        ['Withdrawals', amount(summary.withdrawals)],
+        ['Investment result', amount(summary.investmentResult)],
+        ['Closing value', amount(summary.closingValue)],
+        ['Time-weighted return (TWR)', formatPercent(summary.twr)],
+        ['Money-weighted return (MWR)', formatPercent(summary.mwr)],
+        ['Realized P&L', amount(summary.realizedPnl)],
+        ['Dividends and interest', amount(summary.dividends)],
+        ['Trading fees', amount(summary.tradingFees)],
+        ['Trading taxes', amount(summary.tradingTaxes)],
+        ['Other fees and taxes', amount(summary.otherFees)],
+      ],
+    });
+
+    if (data.fund) {
+      tables.push({
+        title: 'NAV per unit',
+        headers: ['Item', 'Value'],
+        widths: [0.6, 0.4],
+        aligns: ['left', 'right'],
+        emptyMessage: '',
+        rows: [
+          ['Opening NAV/unit', amount(data.fund.openingNavPerUnit)],
+          ['Closing NAV/unit', amount(data.fund.closingNavPerUnit)],
+          ['Outstanding units', formatUnits(data.fund.closingOutstandingUnits)],
+        ],
+      });
+    }
+
+    tables.push({
+      title: 'Allocation at period end',
+      headers: ['Asset type', 'Value', 'Weight'],
+      widths: [0.5, 0.3, 0.2],
+      aligns: ['left', 'right', 'right'],
+      emptyMessage: 'No allocation data for this period',
+      rows: data.allocation.map(item => [item.assetType, amount(item.value), formatPercent(item.percentage, false)]),
+    });
+
+    tables.push({
+      title: 'Top movers',
+      headers: ['Symbol', 'Opening price', 'Closing price', 'Change', 'Closing value'],
+      widths: [0.2, 0.2, 0.2, 0.15, 0.25],
+      aligns: ['left', 'right', 'right', 'right', 'right'],
+      emptyMessage: 'No price changes for this period',
+      rows: data.topMovers.map(mover => [
+        mover.symbol,
+        amount(mover.openingPrice),
+        amount(mover.closingPrice),
+        formatPercent(mover.changePercent),
+        amount(mover.closingValue),
+      ]),
+    });
+
+    if (data.fund && !data.investor) {
+      tables.push({
+        title: 'Investors',
+        headers: ['Investor', 'Opening units', 'Closing units', 'Value', 'Share'],
+        widths: [0.3, 0.17, 0.17, 0.22, 0.14],
+        aligns: ['left', 'right', 'right', 'right', 'right'],
+        emptyMessage: 'No investors',
+        rows: data.fund.investors.map(investor => [
+          investor.name,
+          formatUnits(investor.openingUnits),
+          formatUnits(investor.closingUnits),
+          amount(investor.closingValue),
+          formatPercent(investor.ownershipPercent, false),
+        ]),
+      });
+    }
+
+    return tables;
+  }
+}
+
+export function escapeHtml(text: string): string {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function formatAmount(value: number, currency: string): string {
+  const digits = currency === 'VND' ? 0 : 2;
+  const formatted = Number(value || 0).toLocaleString('en-US', {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+  return `${formatted} ${currency}`;
+}
+
+export function formatUnits(value: number): string {
+  return Number(value || 0).toLocaleString('en-US', { minimumFractionDigits: 3, maximumFractionDigits: 3 });
+}
+
+export function formatPercent(value: number, signed = true): string {
+  const number = Number(value || 0);
+  const sign = signed && number > 0 ? '+' : '';
+  return `${sign}${number.toFixed(2)}%`;
+}
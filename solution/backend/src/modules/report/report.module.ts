@@ -1,14 +1,23 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ReportController } from './controllers/report.controller';
+import { StatementController } from './controllers/statement.controller';
 import { ReportService } from './services/report.service';
+import { StatementService } from './services/statement.service';
+import { PortfolioStatement } from './entities/portfolio-statement.entity';
 import { Portfolio } from '../portfolio/entities/portfolio.entity';
 import { Deposit } from '../portfolio/entities/deposit.entity';
 import { Asset } from '../asset/entities/asset.entity';
 import { Trade } from '../trading/entities/trade.entity';
 import { CashFlow } from '../portfolio/entities/cash-flow.entity';
+import { PortfolioSnapshot } from '../portfolio/entities/portfolio-snapshot.entity';
+import { AssetAllocationSnapshot } from '../portfolio/entities/asset-allocation-snapshot.entity';
+import { InvestorHolding } from '../portfolio/entities/investor-holding.entity';
+import { FundUnitTransaction } from '../portfolio/entities/fund-unit-transaction.entity';
+import { TradeDetail } from '../trading/entities/trade-detail.entity';
 import { AssetModule } from '../asset/asset.module';
 import { PortfolioModule } from '../portfolio/portfolio.module';
+import { MarketDataModule } from '../market-data/market-data.module';
 
 @Module({
   imports: [
@@ -18,12 +27,19 @@ import { PortfolioModule } from '../portfolio/portfolio.module';
       Asset,
       Trade,
       CashFlow,
+      PortfolioStatement,
+      PortfolioSnapshot,
+      AssetAllocationSnapshot,
+      InvestorHolding,
+      FundUnitTransaction,
+      TradeDetail,
     ]),
     AssetModule,
     PortfolioModule,
+    MarketDataModule,
   ],
-  controllers: [ReportController],
-  providers: [ReportService],
-  exports: [ReportService],
+  controllers: [ReportController, StatementController],
+  providers: [ReportService, StatementService],
+  exports: [ReportService, StatementService],
 })
 export class ReportModule {}
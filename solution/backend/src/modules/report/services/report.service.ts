@@ -10,6 +10,8 @@ import { CashFlow } from '../../portfolio/entities/cash-flow.entity';
 import { AssetGlobalSyncService } from '../../asset/services/asset-global-sync.service';
 import { AssetValueCalculatorService } from '../../asset/services/asset-value-calculator.service';
 import { PermissionCheckService } from '../../shared/services/permission-check.service';
+import { FxRateService } from '../../market-data/services/fx-rate.service';
+import { DEFAULT_CURRENCY, normalizeCurrency } from '../../market-data/utils/fx-conversion.util';
 
 @Injectable()
 export class ReportService {
@@ -29,6 +31,7 @@ export class ReportService {
     private assetGlobalSyncService: AssetGlobalSyncService,
     private assetValueCalculator: AssetValueCalculatorService,
     private permissionCheckService: PermissionCheckService,
+    private fxRateService: FxRateService,
   ) {}
 
   /**
@@ -123,7 +126,7 @@ export class ReportService {
         return {
           cashBalance: { total: 0, byExchange: [], byFundingSource: [], byAssetGroup: [] },
           deposits: { total: 0, totalValue: 0, byExchange: [], byFundingSource: [], byAssetGroup: [] },
-          assets: { total: 0, totalValue: 0, byExchange: [], byFundingSource: [], byAssetGroup: [] },
+          assets: { total: 0, totalValue: 0, currency: DEFAULT_CURRENCY, byExchange: [], byFundingSource: [], byAssetGroup: [] },
         };
       }
 
@@ -330,6 +333,7 @@ export class ReportService {
       return {
         total: 0,
         totalValue: 0,
+        currency: DEFAULT_CURRENCY,
         byExchange: [],
         byFundingSource: [],
         byAssetGroup: [],
@@ -341,9 +345,14 @@ export class ReportService {
       .leftJoin('trade.portfolio', 'portfolio')
       .leftJoin('trade.asset', 'asset')
       .where('portfolio.portfolioId IN (:...portfolioIds)', { portfolioIds })
-      .addSelect(['asset.id', 'asset.symbol', 'asset.type', 'asset.initialValue']);
+      .addSelect(['asset.id', 'asset.symbol', 'asset.type', 'asset.initialValue', 'asset.currency'])
+      .addSelect(['portfolio.portfolioId', 'portfolio.baseCurrency']);
     
     const trades = await tradeQuery.getMany();
+
+    // Values are reported in the shared base currency of the selected portfolios (VND when they differ)
+    const baseCurrencies = new Set(trades.map(trade => normalizeCurrency(trade.portfolio?.baseCurrency)));
+    const reportCurrency = baseCurrencies.size === 1 ? [...baseCurrencies][0] : DEFAULT_CURRENCY;
     
     // Group trades by asset and calculate FIFO positions
     const assetTradesMap = new Map<string, { asset: any; trades: any[] }>();
@@ -366,9 +375,21 @@ export class ReportService {
     // Calculate FIFO positions for each asset
     const assets = [];
     for (const [assetId, assetData] of assetTradesMap) {
-      const currentPrice = await this.getAssetCurrentPrice(assetData.asset);
+      let currentPrice = await this.getAssetCurrentPrice(assetData.asset);
+      let assetTrades = assetData.trades;
+
+      const assetCurrency = normalizeCurrency(assetData.asset.currency, reportCurrency);
+      if (assetCurrency !== reportCurrency) {
+        // Stored trade rates target the trade's own portfolio base currency
+        const reportTrades = assetTrades.map(trade =>
+          normalizeCurrency(trade.portfolio?.baseCurrency) === reportCurrency ? trade : { ...trade, fxRate: null }
+        );
+        assetTrades = await this.fxRateService.convertTrades(reportTrades, assetCurrency, reportCurrency);
+        currentPrice = currentPrice * ((await this.fxRateService.getRate(assetCurrency, reportCurrency)) ?? 1);
+      }
+
       const fifoPosition = this.assetValueCalculator.calculateAssetPositionFIFOFinal(
-        assetData.trades,
+        assetTrades,
         currentPrice
       );
       
@@ -377,7 +398,7 @@ export class ReportService {
         assets.push({
           ...assetData.asset,
           currentQuantity: fifoPosition.quantity.toString(),
-          trades: assetData.trades,
+          trades: assetTrades,
           fifoPosition: fifoPosition
         });
       }
@@ -561,6 +582,7 @@ export class ReportService {
     return {
       total: totalAssets,
       totalValue,
+      currency: reportCurrency,
       byExchange,
       byFundingSource,
       byAssetGroup,
@@ -0,0 +1,634 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, IsNull } from 'typeorm';
+import * as cron from 'node-cron';
+import { PortfolioStatement, StatementPeriodType } from '../entities/portfolio-statement.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { PortfolioSnapshot } from '../../portfolio/entities/portfolio-snapshot.entity';
+import { AssetAllocationSnapshot } from '../../portfolio/entities/asset-allocation-snapshot.entity';
+import { CashFlow, CashFlowType, CashFlowStatus } from '../../portfolio/entities/cash-flow.entity';
+import { InvestorHolding } from '../../portfolio/entities/investor-holding.entity';
+import { FundUnitTransaction, HoldingType } from '../../portfolio/entities/fund-unit-transaction.entity';
+import { Trade, TradeSide } from '../../trading/entities/trade.entity';
+import { TradeDetail } from '../../trading/entities/trade-detail.entity';
+import { SnapshotGranularity } from '../../portfolio/enums/snapshot-granularity.enum';
+import { TWRCalculationService } from '../../portfolio/services/twr-calculation.service';
+import { MWRIRRCalculationService } from '../../portfolio/services/mwr-irr-calculation.service';
+import { PortfolioValueCalculatorService } from '../../portfolio/services/portfolio-value-calculator.service';
+import { normalizeDateToString } from '../../portfolio/utils/date-normalization.util';
+import { StatementRenderer } from '../renderers/statement-renderer';
+import { toPdfText } from '../renderers/pdf-writer';
+import {
+  resolveStatementPeriod,
+  lastCompletedStatementPeriod,
+  previousDate,
+  toDateInTimezone,
+} from '../utils/statement-period.util';
+import {
+  GenerateStatementDto,
+  StatementData,
+  StatementPeriod,
+  StatementSummary,
+  StatementAllocationItem,
+  StatementMover,
+  StatementFundSection,
+  StatementInvestorSection,
+  StatementListItem,
+} from '../dto/statement.dto';
+
+const TOP_MOVERS = 5;
+
+interface InvestorUnitMovement {
+  accountId: string;
+  name: string;
+  openingUnits: number;
+  closingUnits: number;
+  subscribedUnits: number;
+  subscribedAmount: number;
+  redeemedUnits: number;
+  redeemedAmount: number;
+}
+
+export interface StatementDocument {
+  fileName: string;
+  content: string | Buffer;
+}
+
+/**
+ * Service for periodic portfolio statements.
+ * A statement covers a calendar month or quarter; fund portfolios also get one statement per investor.
+ * Statements are archived with their rendered HTML and PDF, and generated on a schedule once a period has ended.
+ */
+@Injectable()
+export class StatementService {
+  private readonly logger = new Logger(StatementService.name);
+  private readonly renderer = new StatementRenderer();
+  private readonly cronExpression: string;
+  private readonly timezone: string;
+  private cronJob: cron.ScheduledTask | null = null;
+
+  constructor(
+    @InjectRepository(PortfolioStatement)
+    private readonly statementRepository: Repository<PortfolioStatement>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    @InjectRepository(PortfolioSnapshot)
+    private readonly portfolioSnapshotRepository: Repository<PortfolioSnapshot>,
+    @InjectRepository(AssetAllocationSnapshot)
+    private readonly assetSnapshotRepository: Repository<AssetAllocationSnapshot>,
+    @InjectRepository(CashFlow)
+    private readonly cashFlowRepository: Repository<CashFlow>,
+    @InjectRepository(InvestorHolding)
+    private readonly investorHoldingRepository: Repository<InvestorHolding>,
+    @InjectRepository(FundUnitTransaction)
+    private readonly fundUnitTransactionRepository: Repository<FundUnitTransaction>,
+    @InjectRepository(Trade)
+    private readonly tradeRepository: Repository<Trade>,
+    @InjectRepository(TradeDetail)
+    private readonly tradeDetailRepository: Repository<TradeDetail>,
+    private readonly twrCalculationService: TWRCalculationService,
+    private readonly mwrIrrCalculationService: MWRIRRCalculationService,
+    private readonly portfolioValueCalculatorService: PortfolioValueCalculatorService,
+    private readonly configService: ConfigService,
+  ) {
+    this.cronExpression = this.configService.get<string>('STATEMENT_CRON', '30 6 * * *');
+    this.timezone = this.configService.get<string>('STATEMENT_TIMEZONE', 'Asia/Ho_Chi_Minh');
+    this.setupCronJob();
+  }
+
+  /**
+   * Generate the statements of periods that ended since the last run
+   */
+  private setupCronJob(): void {
+    try {
+      this.cronJob = cron.schedule(this.cronExpression, () => {
+        setImmediate(() => {
+          this.generateScheduledStatements().catch(error =>
+            this.logger.error(`Scheduled statement run failed: ${error.message}`),
+          );
+        });
+      }, {
+        scheduled: true,
+        timezone: this.timezone,
+      });
+      this.logger.log(`Statements scheduled with expression: ${this.cronExpression}, timezone: ${this.timezone}`);
+    } catch (error) {
+      this.logger.error('Failed to setup statement cron job:', error);
+    }
+  }
+
+  /**
+   * Generate the last completed monthly and quarterly statements of every portfolio that does not have them yet
+   * @returns Number of portfolio statements generated
+   */
+  async generateScheduledStatements(): Promise<number> {
+    const today = toDateInTimezone(new Date(), this.timezone);
+    const portfolios = await this.portfolioRepository.find();
+    let generated = 0;
+
+    for (const periodType of [StatementPeriodType.MONTHLY, StatementPeriodType.QUARTERLY]) {
+      const period = lastCompletedStatementPeriod(periodType, today);
+
+      for (const portfolio of portfolios) {
+        if (toDateInTimezone(portfolio.createdAt, this.timezone) > period.end) {
+          continue;
+        }
+        const existing = await this.statementRepository.count({
+          where: {
+            portfolioId: portfolio.portfolioId,
+            periodType,
+            periodStart: period.start,
+            investorAccountId: IsNull(),
+          },
+        });
+        if (existing > 0) {
+          continue;
+        }
+
+        try {
+          await this.generateForPortfolio(portfolio, period);
+          generated++;
+        } catch (error) {
+          this.logger.error(
+            `Failed to generate ${period.label} statement for portfolio ${portfolio.portfolioId}: ${error.message}`,
+          );
+        }
+      }
+    }
+
+    if (generated > 0) {
+      this.logger.log(`Generated ${generated} scheduled portfolio statements`);
+    }
+    return generated;
+  }
+
+  /**
+   * Generate (or regenerate) the statements of a portfolio for one period
+   * @returns The portfolio statement followed by the investor statements
+   */
+  async generateStatements(portfolioId: string, generateDto: GenerateStatementDto): Promise<StatementListItem[]> {
+    const portfolio = await this.getPortfolio(portfolioId);
+    const today = toDateInTimezone(new Date(), this.timezone);
+    const period = generateDto.referenceDate
+      ? resolveStatementPeriod(generateDto.periodType, generateDto.referenceDate)
+      : lastCompletedStatementPeriod(generateDto.periodType, today);
+
+    if (period.start > today) {
+      throw new BadRequestException('Statements cannot be generated for a future period');
+    }
+
+    const statements = await this.generateForPortfolio(portfolio, period);
+    return statements.map(statement => this.toListItem(statement));
+  }
+
+  /**
+   * Get archived statements of a portfolio, newest period first
+   * @param investorAccountId Only the statements issued to this investor
+   */
+  async getStatements(
+    portfolioId: string,
+    periodType?: StatementPeriodType,
+    investorAccountId?: string,
+  ): Promise<StatementListItem[]> {
+    const where: any = { portfolioId };
+    if (periodType) where.periodType = periodType;
+    if (investorAccountId) where.investorAccountId = investorAccountId;
+
+    const statements = await this.statementRepository.find({
+      where,
+      order: { periodStart: 'DESC', periodType: 'ASC', investorAccountId: 'ASC' },
+    });
+    return statements.map(statement => this.toListItem(statement));
+  }
+
+  /**
+   * Get the rendered HTML or PDF of an archived statement
+   * @param investorAccountId Restrict to statements issued to this investor
+   */
+  async getStatementDocument(
+    portfolioId: string,
+    statementId: string,
+    format: 'html' | 'pdf',
+    investorAccountId?: string,
+  ): Promise<StatementDocument> {
+    const query = this.statementRepository
+      .createQueryBuilder('statement')
+      .addSelect(format === 'pdf' ? 'statement.pdf' : 'statement.html')
+      .where('statement.statementId = :statementId', { statementId })
+      .andWhere('statement.portfolioId = :portfolioId', { portfolioId });
+    if (investorAccountId) {
+      query.andWhere('statement.investorAccountId = :investorAccountId', { investorAccountId });
+    }
+
+    const statement = await query.getOne();
+    if (!statement) {
+      throw new NotFoundException(`Statement with ID ${statementId} not found`);
+    }
+
+    const owner = statement.data.investor ? `-${statement.data.investor.name}` : '';
+    const baseName = toPdfText(`statement-${statement.data.portfolio.name}${owner}-${statement.data.period.label}`)
+      .replace(/[^A-Za-z0-9.-]+/g, '-');
+
+    return {
+      fileName: `${baseName}.${format}`,
+      content: format === 'pdf' ? statement.pdf : statement.html,
+    };
+  }
+
+  /**
+   * Whether an account holds (or held) units of a fund portfolio
+   */
+  async isInvestor(portfolioId: string, accountId: string): Promise<boolean> {
+    const count = await this.investorHoldingRepository.count({ where: { portfolioId, accountId } });
+    return count > 0;
+  }
+
+  private async generateForPortfolio(portfolio: Portfolio, period: StatementPeriod): Promise<PortfolioStatement[]> {
+    const data = await this.buildStatementData(portfolio, period);
+    const statements = [await this.archive(data, null)];
+
+    for (const movement of data.fund ? await this.getInvestorUnitMovements(portfolio.portfolioId, period) : []) {
+      if (movement.openingUnits <= 0 && movement.closingUnits <= 0 && movement.subscribedUnits <= 0) {
+        continue;
+      }
+      const investorData: StatementData = {
+        ...data,
+        fund: { ...data.fund, investors: [] },
+        investor: this.buildInvestorSection(movement, data.fund),
+      };
+      statements.push(await this.archive(investorData, movement.accountId));
+    }
+
+    this.logger.log(`Generated ${period.label} statements for portfolio ${portfolio.portfolioId} (${statements.length})`);
+    return statements;
+  }
+
+  private async archive(data: StatementData, investorAccountId: string | null): Promise<PortfolioStatement> {
+    const existing = await this.statementRepository.findOne({
+      where: {
+        portfolioId: data.portfolio.portfolioId,
+        periodType: data.period.type,
+        periodStart: data.period.start,
+        investorAccountId: investorAccountId ?? IsNull(),
+      },
+    });
+
+    const statement = existing ?? this.statementRepository.create({
+      portfolioId: data.portfolio.portfolioId,
+      investorAccountId,
+      periodType: data.period.type,
+      periodStart: data.period.start,
+    });
+    statement.periodEnd = data.period.end;
+    statement.data = data;
+    statement.html = this.renderer.toHtml(data);
+    statement.pdf = this.renderer.toPdf(data);
+
+    return this.statementRepository.save(statement);
+  }
+
+  private async buildStatementData(portfolio: Portfolio, period: StatementPeriod): Promise<StatementData> {
+    const portfolioId = portfolio.portfolioId;
+    const openingSnapshot = await this.findSnapshot(portfolioId, previousDate(period.start));
+    const closingSnapshot = await this.findSnapshot(portfolioId, period.end);
+    const today = toDateInTimezone(new Date(), this.timezone);
+
+    let closingValue = closingSnapshot ? Number(closingSnapshot.totalPortfolioValue) : 0;
+    if (period.end >= today) {
+      closingValue = await this.portfolioValueCalculatorService.calculateTotalValue(portfolioId);
+    }
+
+    const summary: StatementSummary = {
+      openingValue: openingSnapshot ? Number(openingSnapshot.totalPortfolioValue) : 0,
+      closingValue,
+      contributions: 0,
+      withdrawals: 0,
+      investmentResult: 0,
+      twr: 0,
+      mwr: 0,
+      realizedPnl: 0,
+      tradingFees: 0,
+      tradingTaxes: 0,
+      otherFees: 0,
+      dividends: 0,
+    };
+
+    await this.addCashFlowTotals(portfolioId, period, summary);
+    await this.addTradeTotals(portfolioId, period, summary);
+    summary.investmentResult =
+      summary.closingValue - summary.openingValue - (summary.contributions - summary.withdrawals);
+
+    const periodStart = new Date(`${period.start}T00:00:00`);
+    const periodEnd = new Date(`${period.end}T00:00:00`);
+    summary.twr = await this.twrCalculationService.calculatePortfolioTWRForRange(portfolioId, periodStart, periodEnd);
+    summary.mwr = await this.mwrIrrCalculationService.calculatePortfolioMWRForRange(portfolioId, periodStart, periodEnd);
+
+    const data: StatementData = {
+      portfolio: {
+        portfolioId,
+        name: portfolio.name,
+        baseCurrency: portfolio.baseCurrency,
+        isFund: !!portfolio.isFund,
+      },
+      period,
+      summary,
+      allocation: this.buildAllocation(closingSnapshot),
+      topMovers: await this.getTopMovers(portfolioId, period),
+      generatedAt: new Date().toISOString(),
+    };
+
+    if (portfolio.isFund) {
+      data.fund = await this.buildFundSection(portfolio, period, openingSnapshot, closingSnapshot);
+    }
+
+    return data;
+  }
+
+  /**
+   * Latest daily snapshot on or before a date
+   */
+  private async findSnapshot(portfolioId: string, date: string): Promise<PortfolioSnapshot | null> {
+    return this.portfolioSnapshotRepository
+      .createQueryBuilder('snapshot')
+      .where('snapshot.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('snapshot.granularity = :granularity', { granularity: SnapshotGranularity.DAILY })
+      .andWhere('snapshot.isActive = :isActive', { isActive: true })
+      .andWhere('snapshot.snapshotDate <= :date', { date })
+      .orderBy('snapshot.snapshotDate', 'DESC')
+      .getOne();
+  }
+
+  private async addCashFlowTotals(portfolioId: string, period: StatementPeriod, summary: StatementSummary): Promise<void> {
+    const rows = await this.cashFlowRepository
+      .createQueryBuilder('cashFlow')
+      .select('cashFlow.type', 'type')
+      .addSelect('SUM(ABS(cashFlow.amount))', 'total')
+      .where('cashFlow.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('cashFlow.status = :status', { status: CashFlowStatus.COMPLETED })
+      .andWhere('cashFlow.flowDate >= :start', { start: `${period.start} 00:00:00` })
+      .andWhere('cashFlow.flowDate <= :end', { end: `${period.end} 23:59:59.999` })
+      .groupBy('cashFlow.type')
+      .getRawMany();
+
+    for (const row of rows) {
+      const total = Number(row.total) || 0;
+      switch (row.type) {
+        case CashFlowType.DEPOSIT:
+          summary.contributions += total;
+          break;
+        case CashFlowType.WITHDRAWAL:
+          summary.withdrawals += total;
+          break;
+        case CashFlowType.DIVIDEND:
+        case CashFlowType.INTEREST:
+          summary.dividends += total;
+          break;
+        case CashFlowType.FEE:
+        case CashFlowType.TAX:
+          summary.otherFees += total;
+          break;
+      }
+    }
+  }
+
+  /**
+   * Trading fees and taxes, and realized P&L of sells in the period, in the portfolio base currency
+   */
+  private async addTradeTotals(portfolioId: string, period: StatementPeriod, summary: StatementSummary): Promise<void> {
+    const range = { start: `${period.start} 00:00:00`, end: `${period.end} 23:59:59.999` };
+
+    const costs = await this.tradeRepository
+      .createQueryBuilder('trade')
+      .select('COALESCE(SUM(trade.fee * COALESCE(trade.fxRate, 1)), 0)', 'fees')
+      .addSelect('COALESCE(SUM(trade.tax * COALESCE(trade.fxRate, 1)), 0)', 'taxes')
+      .where('trade.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('trade.tradeDate >= :start AND trade.tradeDate <= :end', range)
+      .getRawOne();
+
+    const realized = await this.tradeDetailRepository
+      .createQueryBuilder('detail')
+      .innerJoin('detail.sellTrade', 'sellTrade')
+      .select('COALESCE(SUM(detail.pnl * COALESCE(sellTrade.fxRate, 1)), 0)', 'pnl')
+      .where('sellTrade.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('sellTrade.side = :side', { side: TradeSide.SELL })
+      .andWhere('sellTrade.tradeDate >= :start AND sellTrade.tradeDate <= :end', range)
+      .getRawOne();
+
+    summary.tradingFees = Number(costs?.fees) || 0;
+    summary.tradingTaxes = Number(costs?.taxes) || 0;
+    summary.realizedPnl = Number(realized?.pnl) || 0;
+  }
+
+  /**
+   * Asset types, deposits and cash as weights of the closing portfolio value
+   */
+  private buildAllocation(snapshot: PortfolioSnapshot | null): StatementAllocationItem[] {
+    if (!snapshot) {
+      return [];
+    }
+
+    const items = Object.entries(snapshot.assetAllocation || {}).map(([assetType, allocation]) => ({
+      assetType,
+      value: Number(allocation.value) || 0,
+    }));
+    items.push({ assetType: 'DEPOSIT', value: Number(snapshot.totalDepositValue) || 0 });
+    items.push({ assetType: 'CASH', value: Number(snapshot.cashBalance) || 0 });
+
+    const total = items.reduce((sum, item) => sum + item.value, 0);
+    return items
+      .filter(item => item.value !== 0)
+      .map(item => ({ ...item, percentage: total > 0 ? Number(((item.value / total) * 100).toFixed(2)) : 0 }))
+      .sort((a, b) => b.value - a.value);
+  }
+
+  /**
+   * Holdings with the largest price change between the opening and closing asset snapshots
+   */
+  private async getTopMovers(portfolioId: string, period: StatementPeriod): Promise<StatementMover[]> {
+    const openingDate = await this.findAssetSnapshotDate(portfolioId, previousDate(period.start));
+    const closingDate = await this.findAssetSnapshotDate(portfolioId, period.end);
+    if (!openingDate || !closingDate || openingDate === closingDate) {
+      return [];
+    }
+
+    const snapshots = await this.assetSnapshotRepository
+      .createQueryBuilder('snapshot')
+      .where('snapshot.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('snapshot.granularity = :granularity', { granularity: SnapshotGranularity.DAILY })
+      .andWhere('snapshot.isActive = :isActive', { isActive: true })
+      .andWhere('snapshot.snapshotDate IN (:...dates)', { dates: [openingDate, closingDate] })
+      .getMany();
+
+    const openingPrices = new Map<string, number>();
+    snapshots
+      .filter(snapshot => normalizeDateToString(snapshot.snapshotDate) === openingDate)
+      .forEach(snapshot => openingPrices.set(snapshot.assetSymbol, Number(snapshot.currentPrice) || 0));
+
+    return snapshots
+      .filter(snapshot => normalizeDateToString(snapshot.snapshotDate) === closingDate)
+      .filter(snapshot => (openingPrices.get(snapshot.assetSymbol) || 0) > 0 && Number(snapshot.quantity) > 0)
+      .map(snapshot => {
+        const openingPrice = openingPrices.get(snapshot.assetSymbol);
+        const closingPrice = Number(snapshot.currentPrice) || 0;
+        return {
+          symbol: snapshot.assetSymbol,
+          openingPrice,
+          closingPrice,
+          changePercent: Number((((closingPrice - openingPrice) / openingPrice) * 100).toFixed(2)),
+          closingValue: Number(snapshot.currentValue) || 0,
+        };
+      })
+      .sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent))
+      .slice(0, TOP_MOVERS);
+  }
+
+  private async findAssetSnapshotDate(portfolioId: string, date: string): Promise<string | null> {
+    const row = await this.assetSnapshotRepository
+      .createQueryBuilder('snapshot')
+      .select("TO_CHAR(MAX(snapshot.snapshotDate), 'YYYY-MM-DD')", 'date')
+      .where('snapshot.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('snapshot.granularity = :granularity', { granularity: SnapshotGranularity.DAILY })
+      .andWhere('snapshot.isActive = :isActive', { isActive: true })
+      .andWhere('snapshot.snapshotDate <= :date', { date })
+      .getRawOne();
+    return row?.date || null;
+  }
+
+  private async buildFundSection(
+    portfolio: Portfolio,
+    period: StatementPeriod,
+    openingSnapshot: PortfolioSnapshot | null,
+    closingSnapshot: PortfolioSnapshot | null,
+  ): Promise<StatementFundSection> {
+    const movements = await this.getInvestorUnitMovements(portfolio.portfolioId, period);
+    const totalUnits = movements.reduce((sum, movement) => sum + movement.closingUnits, 0);
+    const closingNavPerUnit = Number(closingSnapshot?.navPerUnit ?? portfolio.navPerUnit) || 0;
+
+    return {
+      openingNavPerUnit: Number(openingSnapshot?.navPerUnit) || 0,
+      closingNavPerUnit,
+      closingOutstandingUnits: Number(closingSnapshot?.totalOutstandingUnits) || totalUnits,
+      investors: movements
+        .filter(movement => movement.openingUnits > 0 || movement.closingUnits > 0)
+        .map(movement => ({
+          accountId: movement.accountId,
+          name: movement.name,
+          openingUnits: movement.openingUnits,
+          closingUnits: movement.closingUnits,
+          closingValue: movement.closingUnits * closingNavPerUnit,
+          ownershipPercent: totalUnits > 0 ? Number(((movement.closingUnits / totalUnits) * 100).toFixed(2)) : 0,
+        }))
+        .sort((a, b) => b.closingUnits - a.closingUnits),
+    };
+  }
+
+  private buildInvestorSection(movement: InvestorUnitMovement, fund: StatementFundSection): StatementInvestorSection {
+    const totalUnits = fund.investors.reduce((sum, investor) => sum + investor.closingUnits, 0);
+    return {
+      accountId: movement.accountId,
+      name: movement.name,
+      openingUnits: movement.openingUnits,
+      closingUnits: movement.closingUnits,
+      subscribedUnits: movement.subscribedUnits,
+      subscribedAmount: movement.subscribedAmount,
+      redeemedUnits: movement.redeemedUnits,
+      redeemedAmount: movement.redeemedAmount,
+      openingValue: movement.openingUnits * fund.openingNavPerUnit,
+      closingValue: movement.closingUnits * fund.closingNavPerUnit,
+      ownershipPercent: totalUnits > 0 ? Number(((movement.closingUnits / totalUnits) * 100).toFixed(2)) : 0,
+    };
+  }
+
+  /**
+   * Units of every investor at the start and end of the period, and their subscriptions and redemptions in it.
+   * A unit transaction takes effect on the date of its cash flow.
+   */
+  private async getInvestorUnitMovements(portfolioId: string, period: StatementPeriod): Promise<InvestorUnitMovement[]> {
+    const holdings = await this.investorHoldingRepository.find({
+      where: { portfolioId },
+      relations: ['account'],
+    });
+    if (holdings.length === 0) {
+      return [];
+    }
+
+    const transactions = await this.fundUnitTransactionRepository.find({
+      where: { holdingId: In(holdings.map(holding => holding.holdingId)) },
+    });
+    const cashFlowIds = transactions.map(transaction => transaction.cashFlowId).filter(Boolean);
+    const cashFlows = cashFlowIds.length > 0
+      ? await this.cashFlowRepository.find({ where: { cashFlowId: In(cashFlowIds) } })
+      : [];
+    const flowDates = new Map(cashFlows.map(cashFlow => [cashFlow.cashFlowId, cashFlow.flowDate]));
+
+    const movements = new Map<string, InvestorUnitMovement>(
+      holdings.map(holding => [
+        holding.holdingId,
+        {
+          accountId: holding.accountId,
+          name: holding.account?.name || holding.accountId,
+          openingUnits: 0,
+          closingUnits: 0,
+          subscribedUnits: 0,
+          subscribedAmount: 0,
+          redeemedUnits: 0,
+          redeemedAmount: 0,
+        },
+      ]),
+    );
+
+    for (const transaction of transactions) {
+      const movement = movements.get(transaction.holdingId);
+      const date = toDateInTimezone(
+        new Date(flowDates.get(transaction.cashFlowId) ?? transaction.createdAt),
+        this.timezone,
+      );
+      if (!movement || date > period.end) {
+        continue;
+      }
+
+      const units = Math.abs(Number(transaction.units) || 0);
+      const amount = Math.abs(Number(transaction.amount) || 0);
+      const signedUnits = transaction.holdingType === HoldingType.REDEEM ? -units : units;
+      movement.closingUnits += signedUnits;
+
+      if (date < period.start) {
+        movement.openingUnits += signedUnits;
+      } else if (transaction.holdingType === HoldingType.REDEEM) {
+        movement.redeemedUnits += units;
+        movement.redeemedAmount += amount;
+      } else {
+        movement.subscribedUnits += units;
+        movement.subscribedAmount += amount;
+      }
+    }
+
+    return Array.from(movements.values());
+  }
+
+  private async getPortfolio(portfolioId: string): Promise<Portfolio> {
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    if (!portfolio) {
+      throw new NotFoundException(`Portfolio with ID ${portfolioId} not found`);
+    }
+    return portfolio;
+  }
+
+  private toListItem(statement: PortfolioStatement): StatementListItem {
+    return {
+      statementId: statement.statementId,
+      portfolioId: statement.portfolioId,
+      investorAccountId: statement.investorAccountId,
+      investorName: statement.data.investor?.name,
+      periodType: statement.periodType,
+      periodStart: statement.periodStart,
+      periodEnd: statement.periodEnd,
+      label: statement.data.period.label,
+      openingValue: statement.data.investor?.openingValue ?? statement.data.summary.openingValue,
+      closingValue: statement.data.investor?.closingValue ?? statement.data.summary.closingValue,
+      twr: statement.data.summary.twr,
+      generatedAt: statement.generatedAt,
+    };
+  }
+}
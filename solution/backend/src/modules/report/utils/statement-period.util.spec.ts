@@ -0,0 +1,46 @@
+import { StatementPeriodType } from '../entities/portfolio-statement.entity';
+import {
+  resolveStatementPeriod,
+  lastCompletedStatementPeriod,
+  previousDate,
+  toDateInTimezone,
+} from './statement-period.util';
+
+describe('statement-period.util', () => {
+  describe('resolveStatementPeriod', () => {
+    it('should resolve the calendar month, including leap February', () => {
+      expect(resolveStatementPeriod(StatementPeriodType.MONTHLY, '2024-02-10')).toEqual({
+        type: StatementPeriodType.MONTHLY,
+        start: '2024-02-01',
+        end: '2024-02-29',
+        label: '2024-02',
+      });
+    });
+
+    it('should resolve the calendar quarter', () => {
+      expect(resolveStatementPeriod(StatementPeriodType.QUARTERLY, '2025-11-30')).toEqual({
+        type: StatementPeriodType.QUARTERLY,
+        start: '2025-10-01',
+        end: '2025-12-31',
+        label: '2025-Q4',
+      });
+    });
+  });
+
+  describe('lastCompletedStatementPeriod', () => {
+    it('should return the previous month, across a year boundary', () => {
+      const period = lastCompletedStatementPeriod(StatementPeriodType.MONTHLY, '2025-01-01');
+      expect(period.label).toBe('2024-12');
+      expect(period.end).toBe('2024-12-31');
+    });
+
+    it('should return the previous quarter', () => {
+      expect(lastCompletedStatementPeriod(StatementPeriodType.QUARTERLY, '2025-07-15').label).toBe('2025-Q2');
+    });
+  });
+
+  it('should step back one day and convert instants to local dates', () => {
+    expect(previousDate('2025-03-01')).toBe('2025-02-28');
+    expect(toDateInTimezone(new Date('2025-03-31T20:00:00Z'), 'Asia/Ho_Chi_Minh')).toBe('2025-04-01');
+  });
+});
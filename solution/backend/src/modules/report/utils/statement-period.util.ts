@@ -0,0 +1,66 @@
+import { StatementPeriodType } from '../entities/portfolio-statement.entity';
+import { StatementPeriod } from '../dto/statement.dto';
+
+/**
+ * Statement period helpers; dates are YYYY-MM-DD strings so periods never shift with the server timezone
+ */
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function toDateInTimezone(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+/**
+ * The month or quarter containing a date
+ * @param referenceDate Any date in the period, YYYY-MM-DD
+ */
+export function resolveStatementPeriod(type: StatementPeriodType, referenceDate: string): StatementPeriod {
+  const [year, month] = referenceDate.slice(0, 10).split('-').map(Number);
+
+  if (type === StatementPeriodType.QUARTERLY) {
+    const quarter = Math.floor((month - 1) / 3);
+    const startMonth = quarter * 3 + 1;
+    const endMonth = startMonth + 2;
+    return {
+      type,
+      start: `${year}-${pad(startMonth)}-01`,
+      end: `${year}-${pad(endMonth)}-${pad(lastDayOfMonth(year, endMonth))}`,
+      label: `${year}-Q${quarter + 1}`,
+    };
+  }
+
+  return {
+    type,
+    start: `${year}-${pad(month)}-01`,
+    end: `${year}-${pad(month)}-${pad(lastDayOfMonth(year, month))}`,
+    label: `${year}-${pad(month)}`,
+  };
+}
+
+/**
+ * The last period that ended before a date
+ * @param today YYYY-MM-DD
+ */
+export function lastCompletedStatementPeriod(type: StatementPeriodType, today: string): StatementPeriod {
+  const current = resolveStatementPeriod(type, today);
+  return resolveStatementPeriod(type, previousDate(current.start));
+}
+
+/**
+ * The day before a YYYY-MM-DD date
+ */
+export function previousDate(date: string): string {
+  const value = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() - 1);
+  return value.toISOString().slice(0, 10);
+}
@@ -1,6 +1,8 @@
-import { Controller, Post, Get, Put, Body, Param, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import { Controller, Post, Get, Put, Delete, Body, Param, ParseUUIDPipe, Headers, Ip, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
 import { AuthService } from '../services/auth.service';
+import { TwoFactorService } from '../services/two-factor.service';
+import { SessionService } from '../services/session.service';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
 import { Public } from '../decorators/public.decorator';
 import { CurrentUser } from '../decorators/user.decorator';
@@ -10,6 +12,10 @@ import {
   SetPasswordDto, 
   ChangePasswordDto, 
   VerifyEmailDto,
+  TwoFactorCodeDto,
+  RequestPasswordResetDto,
+  ResetPasswordDto,
+  RefreshTokenDto,
   AuthResponseDto 
 } from '../dto/auth.dto';
 
@@ -17,7 +23,11 @@ import {
 @Controller('api/v1/auth')
 @UseGuards(JwtAuthGuard)
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly sessionService: SessionService,
+  ) {}
 
   /**
    * Login or register user with progressive authentication
@@ -35,12 +45,18 @@ export class AuthController {
     type: AuthResponseDto 
   })
   @ApiResponse({ status: 400, description: 'Invalid input or password required' })
-  @ApiResponse({ status: 401, description: 'Invalid password' })
-  async loginOrRegister(@Body() loginDto: LoginOrRegisterDto): Promise<AuthResponseDto> {
+  @ApiResponse({ status: 401, description: 'Invalid password, or two-factor code required (error TWO_FACTOR_REQUIRED) or invalid' })
+  async loginOrRegister(
+    @Body() loginDto: LoginOrRegisterDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<AuthResponseDto> {
     const result = await this.authService.loginOrRegister(
       loginDto.username, 
       loginDto.password,
-      loginDto.deviceInfo
+      loginDto.deviceInfo,
+      loginDto.twoFactorCode,
+      { ipAddress, userAgent }
     );
 
     return {
@@ -67,9 +83,80 @@ export class AuthController {
         isMainAccount: result.account.isMainAccount,
       },
       token: result.token,
+      refreshToken: result.refreshToken,
     };
   }
 
+  /**
+   * Exchange a refresh token for a new token pair
+   */
+  @Post('refresh')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: 'Refresh access token',
+    description: 'Exchange a refresh token for a new access token and refresh token. Each refresh token can be used once; reusing one revokes its session.'
+  })
+  @ApiResponse({ status: 200, description: 'New access and refresh tokens' })
+  @ApiResponse({ status: 401, description: 'Invalid, expired or revoked refresh token' })
+  async refresh(@Body() refreshDto: RefreshTokenDto, @Ip() ipAddress: string) {
+    const { token, refreshToken } = await this.sessionService.refresh(refreshDto.refreshToken, { ipAddress });
+    return { token, refreshToken };
+  }
+
+  /**
+   * Log out the current session
+   */
+  @Post('logout')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Log out the current session' })
+  @ApiResponse({ status: 200, description: 'Session revoked' })
+  async logout(@CurrentUser() user: any) {
+    await this.sessionService.revokeSession(user.sessionId, user.userId);
+    return { message: 'Logged out successfully' };
+  }
+
+  /**
+   * Get active sessions
+   */
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({ 
+    summary: 'Get active sessions',
+    description: 'List active sessions of the current user with device, IP and last seen time'
+  })
+  @ApiResponse({ status: 200, description: 'Active sessions retrieved successfully' })
+  async getSessions(@CurrentUser() user: any) {
+    return await this.sessionService.getActiveSessions(user.userId, user.sessionId);
+  }
+
+  /**
+   * Revoke all sessions except the current one
+   */
+  @Delete('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke all other sessions' })
+  @ApiResponse({ status: 200, description: 'Sessions revoked' })
+  async revokeAllSessions(@CurrentUser() user: any) {
+    const revoked = await this.sessionService.revokeAllSessions(user.userId, user.sessionId);
+    return { message: 'Other sessions revoked', revoked };
+  }
+
+  /**
+   * Revoke a session
+   */
+  @Delete('sessions/:sessionId')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke a session' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(@CurrentUser() user: any, @Param('sessionId', ParseUUIDPipe) sessionId: string) {
+    await this.sessionService.revokeSession(sessionId, user.userId);
+  }
+
   /**
    * Check user status by username
    */
@@ -161,11 +248,11 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
     summary: 'Change password for current user',
-    description: 'Change password for user who already has one set'
+    description: 'Change password for user who already has one set. Other sessions are logged out.'
   })
   @ApiResponse({ status: 200, description: 'Password changed successfully' })
   @ApiResponse({ status: 404, description: 'User not found' })
-  @ApiResponse({ status: 401, description: 'Invalid current password' })
+  @ApiResponse({ status: 401, description: 'Invalid current password or two-factor code' })
   @ApiResponse({ status: 400, description: 'Invalid password format' })
   async changePassword(
     @CurrentUser() user: any,
@@ -174,7 +261,9 @@ export class AuthController {
     await this.authService.changePassword(
       user.userId, 
       changePasswordDto.currentPassword, 
-      changePasswordDto.newPassword
+      changePasswordDto.newPassword,
+      changePasswordDto.twoFactorCode,
+      user.sessionId
     );
     return { message: 'Password changed successfully' };
   }
@@ -224,4 +313,113 @@ export class AuthController {
       }
     };
   }
+
+  /**
+   * Request a password reset email
+   */
+  @Post('request-password-reset')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: 'Request password reset',
+    description: 'Email a password reset link to the account with this email or username. The response does not reveal whether the account exists.'
+  })
+  @ApiResponse({ status: 200, description: 'Reset email sent if the account exists' })
+  async requestPasswordReset(@Body() requestDto: RequestPasswordResetDto) {
+    await this.authService.requestPasswordReset(requestDto.identifier);
+    return { message: 'If an account matches, a password reset email has been sent' };
+  }
+
+  /**
+   * Reset password with token
+   */
+  @Post('reset-password')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: 'Reset password with token',
+    description: 'Set a new password using the token from the reset email. All trusted devices are expired and all sessions logged out.'
+  })
+  @ApiResponse({ status: 200, description: 'Password reset successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token, or invalid password format' })
+  @ApiResponse({ status: 401, description: 'Two-factor code required or invalid' })
+  async resetPassword(@Body() resetDto: ResetPasswordDto) {
+    await this.authService.resetPassword(resetDto.token, resetDto.newPassword, resetDto.twoFactorCode);
+    return { message: 'Password reset successfully' };
+  }
+
+  /**
+   * Get two-factor authentication status
+   */
+  @Get('two-factor')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get two-factor authentication status' })
+  @ApiResponse({ status: 200, description: 'Two-factor status retrieved successfully' })
+  async getTwoFactorStatus(@CurrentUser() user: any) {
+    return await this.twoFactorService.getStatus(user.userId);
+  }
+
+  /**
+   * Start two-factor enrollment
+   */
+  @Post('two-factor/enroll')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: 'Start two-factor enrollment',
+    description: 'Generate a TOTP secret with its otpauth URI and QR code. Two-factor is enabled once a code is confirmed.'
+  })
+  @ApiResponse({ status: 200, description: 'Secret, otpauth URI and QR code' })
+  @ApiResponse({ status: 400, description: 'Already enabled or no password set' })
+  async enrollTwoFactor(@CurrentUser() user: any) {
+    return await this.twoFactorService.enroll(user.userId);
+  }
+
+  /**
+   * Confirm two-factor enrollment
+   */
+  @Post('two-factor/confirm')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: 'Confirm two-factor enrollment',
+    description: 'Enable two-factor with a code from the authenticator app. Returns recovery codes, shown only once.'
+  })
+  @ApiResponse({ status: 200, description: 'Two-factor enabled' })
+  @ApiResponse({ status: 401, description: 'Invalid two-factor code' })
+  async confirmTwoFactor(@CurrentUser() user: any, @Body() codeDto: TwoFactorCodeDto) {
+    const recoveryCodes = await this.twoFactorService.confirm(user.userId, codeDto.code);
+    return { message: 'Two-factor authentication enabled', recoveryCodes };
+  }
+
+  /**
+   * Disable two-factor authentication
+   */
+  @Post('two-factor/disable')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiResponse({ status: 200, description: 'Two-factor disabled' })
+  @ApiResponse({ status: 401, description: 'Invalid two-factor code' })
+  async disableTwoFactor(@CurrentUser() user: any, @Body() codeDto: TwoFactorCodeDto) {
+    await this.twoFactorService.disable(user.userId, codeDto.code);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Regenerate recovery codes
+   */
+  @Post('two-factor/recovery-codes')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: 'Regenerate recovery codes',
+    description: 'Replace the recovery codes; the previous ones stop working'
+  })
+  @ApiResponse({ status: 200, description: 'New recovery codes' })
+  @ApiResponse({ status: 401, description: 'Invalid two-factor code' })
+  async regenerateRecoveryCodes(@CurrentUser() user: any, @Body() codeDto: TwoFactorCodeDto) {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(user.userId, codeDto.code);
+    return { recoveryCodes };
+  }
 }
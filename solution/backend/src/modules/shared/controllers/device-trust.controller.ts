@@ -5,14 +5,16 @@ import {
   Delete, 
   Body, 
   Param, 
+  Headers,
   UseGuards,
   HttpCode,
   HttpStatus,
   Logger
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
 import { DeviceTrustService, DeviceInfo } from '../services/device-trust.service';
+import { TwoFactorService } from '../services/two-factor.service';
 import { CurrentUser } from '../decorators/current-user.decorator';
 import { Public } from '../decorators/public.decorator';
 
@@ -24,6 +26,8 @@ export class AddTrustedDeviceDto {
   location: string;
 }
 
+const TWO_FACTOR_HEADER = 'x-two-factor-code';
+
 export class RevokeDeviceDto {
   deviceId: string;
 }
@@ -35,7 +39,10 @@ export class RevokeDeviceDto {
 export class DeviceTrustController {
   private readonly logger = new Logger(DeviceTrustController.name);
 
-  constructor(private readonly deviceTrustService: DeviceTrustService) {}
+  constructor(
+    private readonly deviceTrustService: DeviceTrustService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
 
   /**
    * Get all trusted devices for current user
@@ -94,11 +101,15 @@ export class DeviceTrustController {
     }
   })
   @ApiResponse({ status: 400, description: 'Invalid device information' })
+  @ApiResponse({ status: 401, description: 'Two-factor code required or invalid' })
+  @ApiHeader({ name: TWO_FACTOR_HEADER, required: false, description: 'TOTP or recovery code when two-factor is enabled' })
   async addTrustedDevice(
     @CurrentUser() user: any,
-    @Body() addDeviceDto: AddTrustedDeviceDto
+    @Body() addDeviceDto: AddTrustedDeviceDto,
+    @Headers(TWO_FACTOR_HEADER) twoFactorCode?: string
   ) {
     this.logger.log(`Adding trusted device for user ${user.userId}`);
+    await this.twoFactorService.assertCode(user.userId, twoFactorCode);
     
     const deviceInfo: DeviceInfo = {
       deviceFingerprint: addDeviceDto.deviceFingerprint,
@@ -125,15 +136,19 @@ export class DeviceTrustController {
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ 
     summary: 'Revoke trusted device',
-    description: 'Revoke trust for a specific device'
+    description: 'Revoke trust for a specific device and log out its sessions'
   })
   @ApiResponse({ status: 204, description: 'Device revoked successfully' })
   @ApiResponse({ status: 404, description: 'Device not found' })
+  @ApiResponse({ status: 401, description: 'Two-factor code required or invalid' })
+  @ApiHeader({ name: TWO_FACTOR_HEADER, required: false, description: 'TOTP or recovery code when two-factor is enabled' })
   async revokeDevice(
     @CurrentUser() user: any,
-    @Param('deviceId') deviceId: string
+    @Param('deviceId') deviceId: string,
+    @Headers(TWO_FACTOR_HEADER) twoFactorCode?: string
   ) {
     this.logger.log(`Revoking device ${deviceId} for user ${user.userId}`);
+    await this.twoFactorService.assertCode(user.userId, twoFactorCode);
     await this.deviceTrustService.revokeDevice(deviceId, user.userId);
   }
 
@@ -165,12 +180,18 @@ export class DeviceTrustController {
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ 
     summary: 'Revoke all trusted devices',
-    description: 'Revoke trust for all devices of the current user'
+    description: 'Revoke trust for all devices of the current user and log out their other sessions'
   })
   @ApiResponse({ status: 204, description: 'All devices revoked successfully' })
-  async revokeAllDevices(@CurrentUser() user: any) {
+  @ApiResponse({ status: 401, description: 'Two-factor code required or invalid' })
+  @ApiHeader({ name: TWO_FACTOR_HEADER, required: false, description: 'TOTP or recovery code when two-factor is enabled' })
+  async revokeAllDevices(
+    @CurrentUser() user: any,
+    @Headers(TWO_FACTOR_HEADER) twoFactorCode?: string
+  ) {
     this.logger.log(`Revoking all devices for user ${user.userId}`);
-    await this.deviceTrustService.revokeAllDevices(user.userId);
+    await this.twoFactorService.assertCode(user.userId, twoFactorCode);
+    await this.deviceTrustService.revokeAllDevices(user.userId, user.sessionId);
   }
 
 
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { PersonalAccessTokenService } from '../services/personal-access-token.service';
+import {
+  CreatePersonalAccessTokenDto,
+  CreatedPersonalAccessTokenDto,
+  PersonalAccessTokenResponseDto,
+} from '../dto/personal-access-token.dto';
+
+@ApiTags('Personal Access Tokens')
+@Controller('api/v1/personal-access-tokens')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class PersonalAccessTokenController {
+  constructor(private readonly personalAccessTokenService: PersonalAccessTokenService) {}
+
+  /**
+   * Get personal access tokens of the current user
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get personal access tokens' })
+  @ApiResponse({ status: 200, description: 'Tokens retrieved successfully', type: [PersonalAccessTokenResponseDto] })
+  async getTokens(@CurrentUser() user: any): Promise<PersonalAccessTokenResponseDto[]> {
+    return await this.personalAccessTokenService.list(user.userId);
+  }
+
+  /**
+   * Get permissions that can be granted to a token
+   */
+  @Get('scopes')
+  @ApiOperation({ summary: 'Get available token scopes' })
+  @ApiResponse({ status: 200, description: 'Scopes retrieved successfully' })
+  async getScopes() {
+    return await this.personalAccessTokenService.listScopes();
+  }
+
+  /**
+   * Create a personal access token
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create personal access token',
+    description: 'Create a token for scripts calling the REST API. The token is only returned in this response.'
+  })
+  @ApiResponse({ status: 201, description: 'Token created', type: CreatedPersonalAccessTokenDto })
+  @ApiResponse({ status: 400, description: 'Unknown scopes or portfolios' })
+  @ApiResponse({ status: 401, description: 'Two-factor code required or invalid' })
+  async createToken(
+    @CurrentUser() user: any,
+    @Body() createDto: CreatePersonalAccessTokenDto,
+  ): Promise<CreatedPersonalAccessTokenDto> {
+    return await this.personalAccessTokenService.create(user.userId, createDto);
+  }
+
+  /**
+   * Revoke a personal access token
+   */
+  @Delete(':tokenId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke personal access token' })
+  @ApiParam({ name: 'tokenId', description: 'Token ID' })
+  @ApiResponse({ status: 204, description: 'Token revoked' })
+  @ApiResponse({ status: 404, description: 'Token not found' })
+  async revokeToken(@CurrentUser() user: any, @Param('tokenId', ParseUUIDPipe) tokenId: string): Promise<void> {
+    await this.personalAccessTokenService.revoke(user.userId, tokenId);
+  }
+
+  /**
+   * Get requests made with a personal access token
+   */
+  @Get(':tokenId/usage')
+  @ApiOperation({ summary: 'Get personal access token usage' })
+  @ApiParam({ name: 'tokenId', description: 'Token ID' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Request logs retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Token not found' })
+  async getUsage(
+    @CurrentUser() user: any,
+    @Param('tokenId', ParseUUIDPipe) tokenId: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    return await this.personalAccessTokenService.getUsage(user.userId, tokenId, page, Math.min(limit, 100));
+  }
+}
@@ -68,6 +68,14 @@ export class LoginOrRegisterDto {
   })
   @IsOptional()
   deviceInfo?: DeviceInfoDto;
+  @ApiProperty({
+    description: 'TOTP or recovery code (required when two-factor authentication is enabled)',
+    example: '123456',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  twoFactorCode?: string;
 }
 
 export class UpdateProfileDto {
@@ -145,6 +153,14 @@ export class ChangePasswordDto {
   @IsString()
   @MinLength(6)
   newPassword: string;
+  @ApiProperty({
+    description: 'TOTP or recovery code (required when two-factor authentication is enabled)',
+    example: '123456',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  twoFactorCode?: string;
 }
 
 export class VerifyEmailDto {
@@ -156,6 +172,60 @@ export class VerifyEmailDto {
   token: string;
 }
 
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'TOTP code from the authenticator app, or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  code: string;
+}
+
+export class RequestPasswordResetDto {
+  @ApiProperty({
+    description: 'Email or username of the account',
+    example: 'john.doe@example.com',
+  })
+  @IsString()
+  @MinLength(3)
+  identifier: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Password reset token from the reset email',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsString()
+  token: string;
+
+  @ApiProperty({
+    description: 'New password (min 6 chars, any characters)',
+    example: 'newpass123',
+    minLength: 6,
+  })
+  @IsString()
+  @MinLength(6)
+  newPassword: string;
+
+  @ApiProperty({
+    description: 'TOTP or recovery code (required when two-factor authentication is enabled)',
+    example: '123456',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  twoFactorCode?: string;
+}
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token from login or the previous refresh',
+  })
+  @IsString()
+  refreshToken: string;
+}
+
 export class AuthResponseDto {
   @ApiProperty({
     description: 'User information',
@@ -192,4 +262,10 @@ export class AuthResponseDto {
     required: false,
   })
   token?: string;
+
+  @ApiProperty({
+    description: 'Refresh token for obtaining new access tokens (if applicable)',
+    required: false,
+  })
+  refreshToken?: string;
 }
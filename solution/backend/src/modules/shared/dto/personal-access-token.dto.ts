@@ -0,0 +1,106 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsUUID,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+  MinLength,
+  ArrayNotEmpty,
+} from 'class-validator';
+
+export class CreatePersonalAccessTokenDto {
+  @ApiProperty({
+    description: 'Name of the token, e.g. the script that uses it',
+    example: 'Daily price import',
+    maxLength: 100,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Permission names the token may use',
+    example: ['trades.read', 'trades.create'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  scopes: string[];
+
+  @ApiProperty({
+    description: 'Restrict the token to these portfolios (all portfolios when omitted)',
+    example: ['550e8400-e29b-41d4-a716-446655440000'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  portfolioIds?: string[];
+
+  @ApiProperty({
+    description: 'Days until the token expires',
+    example: 90,
+    minimum: 1,
+    maximum: 365,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expiresInDays: number;
+
+  @ApiProperty({
+    description: 'TOTP or recovery code (required when two-factor authentication is enabled)',
+    example: '123456',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  twoFactorCode?: string;
+}
+
+export class PersonalAccessTokenResponseDto {
+  @ApiProperty()
+  tokenId: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ description: 'First characters of the token', example: 'mmp_AbC12' })
+  tokenPrefix: string;
+
+  @ApiProperty({ type: [String] })
+  scopes: string[];
+
+  @ApiProperty({ type: [String], nullable: true })
+  portfolioIds: string[] | null;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiProperty({ nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  lastUsedIp: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  isActive: boolean;
+}
+
+export class CreatedPersonalAccessTokenDto extends PersonalAccessTokenResponseDto {
+  @ApiProperty({ description: 'The token; shown only once' })
+  token: string;
+}
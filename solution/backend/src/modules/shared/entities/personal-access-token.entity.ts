@@ -0,0 +1,100 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+  JoinColumn
+} from 'typeorm';
+import { User } from './user.entity';
+
+@Entity('personal_access_tokens')
+@Index(['userId'])
+export class PersonalAccessToken {
+  /**
+   * Unique identifier for the token
+   */
+  @PrimaryGeneratedColumn('uuid', { name: 'token_id' })
+  tokenId: string;
+
+  /**
+   * User ID who owns this token; requests made with it act as this user
+   */
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  /**
+   * User relationship
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * Name given by the user, e.g. the script that uses it
+   */
+  @Column({ name: 'name', type: 'varchar', length: 100 })
+  name: string;
+
+  /**
+   * First characters of the token, shown so users can tell their tokens apart
+   */
+  @Column({ name: 'token_prefix', type: 'varchar', length: 16 })
+  tokenPrefix: string;
+
+  /**
+   * SHA-256 hash of the token; the token itself is only shown once
+   */
+  @Column({ name: 'token_hash', type: 'varchar', length: 64, unique: true, select: false })
+  tokenHash: string;
+
+  /**
+   * Permission names (from the permissions table) the token may use
+   */
+  @Column({ name: 'scopes', type: 'jsonb' })
+  scopes: string[];
+
+  /**
+   * Portfolios the token is restricted to; null for all of the user's portfolios
+   */
+  @Column({ name: 'portfolio_ids', type: 'jsonb', nullable: true })
+  portfolioIds: string[] | null;
+
+  /**
+   * When the token stops working
+   */
+  @Column({ name: 'expires_at' })
+  expiresAt: Date;
+
+  /**
+   * Last time the token authenticated a request
+   */
+  @Column({ name: 'last_used_at', type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  /**
+   * IP address of the last request made with the token
+   */
+  @Column({ name: 'last_used_ip', type: 'varchar', nullable: true })
+  lastUsedIp: string | null;
+
+  /**
+   * When the user revoked the token
+   */
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  /**
+   * When the token was created
+   */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  /**
+   * Check if token can still be used
+   */
+  get isActive(): boolean {
+    return !this.revokedAt && new Date() < this.expiresAt;
+  }
+}
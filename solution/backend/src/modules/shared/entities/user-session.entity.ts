@@ -0,0 +1,109 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+  JoinColumn
+} from 'typeorm';
+import { User } from './user.entity';
+import { TrustedDevice } from './trusted-device.entity';
+
+@Entity('user_sessions')
+@Index(['userId', 'revokedAt'])
+@Index(['deviceId'])
+export class UserSession {
+  /**
+   * Unique identifier for the session, carried in access tokens as sessionId
+   */
+  @PrimaryGeneratedColumn('uuid', { name: 'session_id' })
+  sessionId: string;
+
+  /**
+   * User ID who owns this session
+   */
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  /**
+   * User relationship
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * Trusted device the session was started on, if the client sent device info
+   */
+  @Column({ name: 'device_id', type: 'uuid', nullable: true })
+  deviceId: string | null;
+
+  /**
+   * Trusted device relationship
+   */
+  @ManyToOne(() => TrustedDevice, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'device_id' })
+  device: TrustedDevice | null;
+
+  /**
+   * SHA-256 hash of the current refresh token secret; replaced on every refresh
+   */
+  @Column({ name: 'refresh_token_hash', type: 'varchar', length: 64, select: false })
+  refreshTokenHash: string;
+
+  /**
+   * SHA-256 hash of the refresh token secret the current one replaced, accepted for a short grace window
+   */
+  @Column({ name: 'previous_refresh_token_hash', type: 'varchar', length: 64, nullable: true, select: false })
+  previousRefreshTokenHash: string | null;
+
+  /**
+   * When the refresh token was last rotated
+   */
+  @Column({ name: 'refresh_token_rotated_at', type: 'timestamp', nullable: true })
+  refreshTokenRotatedAt: Date | null;
+
+  /**
+   * IP address the session was last refreshed from
+   */
+  @Column({ name: 'ip_address', type: 'varchar', nullable: true })
+  ipAddress: string | null;
+
+  /**
+   * User agent of the client that started the session
+   */
+  @Column({ name: 'user_agent', type: 'text', nullable: true })
+  userAgent: string | null;
+
+  /**
+   * Last time the session was used
+   */
+  @Column({ name: 'last_seen_at' })
+  lastSeenAt: Date;
+
+  /**
+   * When the refresh token expires; extended on every refresh
+   */
+  @Column({ name: 'expires_at' })
+  expiresAt: Date;
+
+  /**
+   * When the session was revoked (logout, device revoked, refresh token reuse)
+   */
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  /**
+   * When the session was started
+   */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  /**
+   * Check if session can still be used
+   */
+  get isActive(): boolean {
+    return !this.revokedAt && new Date() < this.expiresAt;
+  }
+}
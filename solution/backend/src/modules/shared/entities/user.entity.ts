@@ -96,6 +96,54 @@ export class User {
   @Column({ type: 'varchar', length: 255, nullable: true, name: 'email_verification_token' })
   emailVerificationToken?: string;
 
+  /**
+   * Whether TOTP two-factor authentication is active.
+   */
+  @Column({ type: 'boolean', default: false, name: 'two_factor_enabled' })
+  twoFactorEnabled: boolean;
+
+  /**
+   * Base32 TOTP secret; set on enrollment and only active once confirmed.
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true, name: 'two_factor_secret', select: false })
+  twoFactorSecret?: string;
+
+  /**
+   * SHA-256 hashes of the unused recovery codes.
+   */
+  @Column({ type: 'jsonb', nullable: true, name: 'two_factor_recovery_codes', select: false })
+  twoFactorRecoveryCodes?: string[];
+
+  /**
+   * Time step of the last accepted TOTP code, so a code cannot be replayed.
+   */
+  @Column({ type: 'integer', nullable: true, name: 'two_factor_last_step', select: false })
+  twoFactorLastStep?: number;
+
+  /**
+   * Invalid two-factor codes since the last accepted one or the last lockout.
+   */
+  @Column({ type: 'integer', default: 0, name: 'two_factor_failed_attempts', select: false })
+  twoFactorFailedAttempts?: number;
+
+  /**
+   * Until when two-factor codes are refused after too many invalid ones.
+   */
+  @Column({ type: 'timestamp', nullable: true, name: 'two_factor_locked_until', select: false })
+  twoFactorLockedUntil?: Date;
+
+  /**
+   * SHA-256 hash of the outstanding password reset token.
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true, name: 'password_reset_token_hash', select: false })
+  passwordResetTokenHash?: string;
+
+  /**
+   * Expiry of the outstanding password reset token.
+   */
+  @Column({ type: 'timestamp', nullable: true, name: 'password_reset_expires_at', select: false })
+  passwordResetExpiresAt?: Date;
+
   /**
    * Timestamp of last login.
    */
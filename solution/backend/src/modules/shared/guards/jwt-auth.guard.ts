@@ -1,14 +1,19 @@
 import { Injectable, ExecutionContext, UnauthorizedException } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
+import { PersonalAccessTokenService } from '../services/personal-access-token.service';
+import { bearerPersonalAccessToken } from '../utils/personal-access-token.util';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
-  constructor(private reflector: Reflector) {
+  constructor(
+    private reflector: Reflector,
+    private personalAccessTokenService: PersonalAccessTokenService,
+  ) {
     super();
   }
 
-  canActivate(context: ExecutionContext) {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     // Check if route is marked as public
     const isPublic = this.reflector.getAllAndOverride<boolean>('isPublic', [
       context.getHandler(),
@@ -19,7 +24,25 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       return true;
     }
 
-    return super.canActivate(context);
+    const request = context.switchToHttp().getRequest();
+    const token = bearerPersonalAccessToken(request);
+
+    // Personal access tokens are looked up in the database rather than verified as JWTs
+    if (token) {
+      const requiredPermissions = this.reflector.getAllAndOverride<string[]>('permissions', [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+      request.user = await this.personalAccessTokenService.authorizeRequest(
+        token,
+        requiredPermissions,
+        request,
+        context.switchToHttp().getResponse(),
+      );
+      return true;
+    }
+
+    return super.canActivate(context) as Promise<boolean>;
   }
 
   handleRequest(err: any, user: any, info: any) {
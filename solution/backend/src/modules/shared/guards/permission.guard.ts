@@ -1,6 +1,7 @@
 import { Injectable, CanActivate, ExecutionContext, ForbiddenException, Logger } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { UserRoleService } from '../services/user-role.service';
+import { missingScopes } from '../utils/personal-access-token.util';
 
 /**
  * Permission guard that checks if user has required permissions
@@ -32,6 +33,15 @@ export class PermissionGuard implements CanActivate {
       throw new ForbiddenException('Authentication required');
     }
 
+    // A personal access token is limited to its scopes on top of the user's own permissions
+    if (user.personalAccessTokenId) {
+      const missing = missingScopes(user.scopes || [], requiredPermissions);
+      if (missing.length > 0) {
+        this.logger.warn(`Personal access token ${user.personalAccessTokenId} lacks scopes: ${missing.join(', ')}`);
+        throw new ForbiddenException(`Personal access token lacks scopes: ${missing.join(', ')}`);
+      }
+    }
+
     try {
       // Check if user has all required permissions
       const hasAllPermissions = await this.userRoleService.userHasAllPermissions(
@@ -0,0 +1,37 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PersonalAccessTokenService } from '../services/personal-access-token.service';
+import { bearerPersonalAccessToken } from '../utils/personal-access-token.util';
+
+/**
+ * Guard for routes that stay open to browser clients but also serve personal access tokens.
+ * A request carrying a personal access token is held to the token's scopes, portfolios and
+ * accounts for the route's declared permissions; any other request passes through unchanged.
+ */
+@Injectable()
+export class PersonalAccessTokenGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private personalAccessTokenService: PersonalAccessTokenService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const token = bearerPersonalAccessToken(request);
+    if (!token) {
+      return true;
+    }
+
+    const requiredPermissions = this.reflector.getAllAndOverride<string[]>('permissions', [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    request.user = await this.personalAccessTokenService.authorizeRequest(
+      token,
+      requiredPermissions,
+      request,
+      context.switchToHttp().getResponse(),
+    );
+    return true;
+  }
+}
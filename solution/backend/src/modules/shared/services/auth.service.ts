@@ -1,27 +1,40 @@
-import { Injectable, NotFoundException, BadRequestException, UnauthorizedException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { JwtService } from '@nestjs/jwt';
+import { Repository, MoreThan } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
 import { User } from '../entities/user.entity';
 import { Account } from '../entities/account.entity';
 import { AutoRoleAssignmentService } from './auto-role-assignment.service';
 import { NotificationGateway } from '../../../notification/notification.gateway';
+import { EmailService } from '../../../notification/email.service';
 import { DeviceTrustService, DeviceInfo } from './device-trust.service';
+import { TwoFactorService } from './two-factor.service';
+import { SessionService, SessionContext } from './session.service';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { UserCreatedEvent } from '../events/user-created.event';
 import * as bcrypt from 'bcrypt';
-import { randomUUID } from 'crypto';
+import { randomUUID, createHash } from 'crypto';
 
 export interface LoginResult {
   user: User;
   account: Account;
   token?: string;
+  refreshToken?: string;
 }
 
 export interface RegisterResult {
   user: User;
   account: Account;
   token?: string;
+  refreshToken?: string;
 }
 
 @Injectable()
@@ -33,17 +46,28 @@ export class AuthService {
     private readonly userRepository: Repository<User>,
     @InjectRepository(Account)
     private readonly accountRepository: Repository<Account>,
-    private readonly jwtService: JwtService,
     private readonly autoRoleAssignmentService: AutoRoleAssignmentService,
     private readonly notificationGateway: NotificationGateway,
     private readonly deviceTrustService: DeviceTrustService,
     private readonly eventEmitter: EventEmitter2,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+    private readonly sessionService: SessionService,
   ) {}
 
   /**
-   * Login or register user with progressive authentication
+   * Login or register user with progressive authentication.
+   * Users with two-factor enabled also need a TOTP or recovery code on untrusted devices.
+   * A successful login starts a session tied to the trusted device.
    */
-  async loginOrRegister(username: string, password?: string, deviceInfo?: DeviceInfo): Promise<LoginResult> {
+  async loginOrRegister(
+    username: string,
+    password?: string,
+    deviceInfo?: DeviceInfo,
+    twoFactorCode?: string,
+    sessionContext?: SessionContext,
+  ): Promise<LoginResult> {
     // Normalize username: lowercase, trim, and remove all spaces
     const normalizedUsername = username.toLowerCase().trim().replace(/\s+/g, '');
     this.logger.log(`Login/Register attempt for username: ${normalizedUsername}`);
@@ -67,22 +91,22 @@ export class AuthService {
       const result = await this.createUserWithMainAccount(normalizedUsername);
       
       // Add device to trusted devices if device info provided
-      if (deviceInfo) {
-        await this.deviceTrustService.addTrustedDevice(result.user.userId, deviceInfo);
-      }
+      const newDevice = deviceInfo
+        ? await this.deviceTrustService.addTrustedDevice(result.user.userId, deviceInfo)
+        : null;
       
-      return result;
+      const { token, refreshToken } = await this.sessionService.startSession(result.user, newDevice, sessionContext);
+      return { ...result, token, refreshToken };
     }
 
     // Step 1: Check if device is trusted
-    let isDeviceTrusted = false;
     if (deviceInfo) {
-      isDeviceTrusted = await this.deviceTrustService.isDeviceTrusted(
+      const trustedDevice = await this.deviceTrustService.findTrustedDevice(
         user.userId, 
         deviceInfo.deviceFingerprint
       );
       
-      if (isDeviceTrusted) {
+      if (trustedDevice) {
         // Trusted device - allow login without password
         this.logger.log(`Trusted device login for user: ${normalizedUsername}`);
         user.lastLogin = new Date();
@@ -93,8 +117,8 @@ export class AuthService {
           throw new NotFoundException('Main account not found for user');
         }
         
-        const token = this.generateToken(user);
-        return { user, account: mainAccount, token };
+        const { token, refreshToken } = await this.sessionService.startSession(user, trustedDevice, sessionContext);
+        return { user, account: mainAccount, token, refreshToken };
       }
     }
 
@@ -108,16 +132,18 @@ export class AuthService {
         throw new UnauthorizedException('Invalid password');
       }
     }
-    // Step 4: User doesn't need password - allow login
+    // Step 4: Second factor on untrusted devices
+    await this.twoFactorService.assertCode(user.userId, twoFactorCode);
+    // Step 5: Credentials accepted - allow login
 
     // Update last login
     user.lastLogin = new Date();
     await this.userRepository.save(user);
 
     // Add device to trusted devices if device info provided and login successful
-    if (deviceInfo) {
-      await this.deviceTrustService.addTrustedDevice(user.userId, deviceInfo);
-    }
+    const device = deviceInfo
+      ? await this.deviceTrustService.addTrustedDevice(user.userId, deviceInfo)
+      : null;
 
     // Get main account
     const mainAccount = await this.getMainAccount(user.userId);
@@ -125,11 +151,11 @@ export class AuthService {
       throw new NotFoundException('Main account not found for user');
     }
 
-    // Generate JWT token
-    const token = this.generateToken(user);
+    // Start session with access and refresh tokens
+    const { token, refreshToken } = await this.sessionService.startSession(user, device, sessionContext);
 
     this.logger.log(`User ${normalizedUsername} logged in successfully`);
-    return { user, account: mainAccount, token };
+    return { user, account: mainAccount, token, refreshToken };
   }
 
   /**
@@ -217,11 +243,8 @@ export class AuthService {
       // Don't throw error - user creation should succeed even if event emission fails
     }
 
-    // Generate JWT token
-    const token = this.generateToken(user);
-
     this.logger.log(`Created user ${username} with main account ${mainAccount.accountId}`);
-    return { user, account: mainAccount, token };
+    return { user, account: mainAccount };
   }
 
 
@@ -305,9 +328,16 @@ export class AuthService {
   }
 
   /**
-   * Change password for user
+   * Change password for user; needs a two-factor code when two-factor is enabled.
+   * Sessions other than the current one are logged out.
    */
-  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    twoFactorCode?: string,
+    currentSessionId?: string,
+  ): Promise<void> {
     this.logger.log(`Changing password for user: ${userId}`);
 
     const user = await this.userRepository.findOne({ where: { userId } });
@@ -323,6 +353,7 @@ export class AuthService {
     if (!await this.validatePassword(currentPassword, user.passwordHash)) {
       throw new UnauthorizedException('Current password is incorrect');
     }
+    await this.twoFactorService.assertCode(userId, twoFactorCode);
 
     // Validate new password
     this.validatePasswordFormat(newPassword);
@@ -339,6 +370,7 @@ export class AuthService {
       this.logger.warn(`Failed to expire trusted devices for user ${userId}: ${error.message}`);
       // Don't throw error here as password change should still succeed
     }
+    await this.sessionService.revokeAllSessions(userId, currentSessionId);
     
     this.logger.log(`Password changed for user: ${userId}`);
   }
@@ -360,6 +392,104 @@ export class AuthService {
     return token;
   }
 
+  /**
+   * Generate password reset token; only its hash is stored, valid for PASSWORD_RESET_TTL_MINUTES
+   */
+  async generatePasswordResetToken(userId: string): Promise<string> {
+    const user = await this.userRepository.findOne({ where: { userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const token = randomUUID();
+    const ttlMinutes = Number(this.configService.get('PASSWORD_RESET_TTL_MINUTES', 30));
+    await this.userRepository.update(userId, {
+      passwordResetTokenHash: this.hashToken(token),
+      passwordResetExpiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    });
+
+    this.logger.log(`Generated password reset token for user: ${userId}`);
+    return token;
+  }
+
+  /**
+   * Email a password reset link to the user with this email or username.
+   * Always succeeds so callers cannot probe which accounts exist.
+   */
+  async requestPasswordReset(identifier: string): Promise<void> {
+    const normalized = identifier.toLowerCase().trim();
+    const user = await this.userRepository.findOne({
+      where: [{ email: normalized }, { username: normalized.replace(/\s+/g, '') }],
+    });
+
+    if (!user?.email) {
+      this.logger.log(`Password reset requested for unknown user or user without email: ${normalized}`);
+      return;
+    }
+
+    const token = await this.generatePasswordResetToken(user.userId);
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3001').replace(/\/+$/, '');
+    const link = `${frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    const ttlMinutes = Number(this.configService.get('PASSWORD_RESET_TTL_MINUTES', 30));
+
+    await this.emailService.send({
+      to: user.email,
+      subject: 'MMOTION - Đặt lại mật khẩu / Password reset',
+      text: [
+        `Xin chào ${user.fullName || user.username},`,
+        '',
+        `Mở liên kết sau để đặt lại mật khẩu (hết hạn sau ${ttlMinutes} phút):`,
+        `Open this link to reset your password (expires in ${ttlMinutes} minutes):`,
+        link,
+        '',
+        'Nếu bạn không yêu cầu, hãy bỏ qua email này. / If you did not request this, ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Reset password with a token from the reset email.
+   * Needs a two-factor code when two-factor is enabled, expires all trusted devices and logs out all sessions.
+   */
+  async resetPassword(token: string, newPassword: string, twoFactorCode?: string): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: {
+        passwordResetTokenHash: this.hashToken(token),
+        passwordResetExpiresAt: MoreThan(new Date()),
+      },
+    });
+    if (!user) {
+      throw new BadRequestException('Invalid or expired password reset token');
+    }
+
+    this.validatePasswordFormat(newPassword);
+    try {
+      await this.twoFactorService.assertCode(user.userId, twoFactorCode);
+    } catch (error) {
+      // A link whose two-factor codes locked the account is used up, so guessing cannot resume after the lockout
+      if (error instanceof HttpException && error.getStatus() === HttpStatus.TOO_MANY_REQUESTS) {
+        await this.userRepository.update(user.userId, { passwordResetTokenHash: null, passwordResetExpiresAt: null });
+      }
+      throw error;
+    }
+
+    user.passwordHash = await this.hashPassword(newPassword);
+    user.isPasswordSet = true;
+    user.passwordResetTokenHash = null;
+    user.passwordResetExpiresAt = null;
+    user.updateProfileCompletion();
+    await this.userRepository.save(user);
+
+    try {
+      await this.deviceTrustService.expireAllDevices(user.userId);
+    } catch (error) {
+      this.logger.warn(`Failed to expire trusted devices for user ${user.userId}: ${error.message}`);
+    }
+    await this.sessionService.revokeAllSessions(user.userId);
+
+    this.logger.log(`Password reset for user: ${user.userId}`);
+  }
+
   /**
    * Verify email with token
    */
@@ -433,6 +563,13 @@ export class AuthService {
     }
   }
 
+  /**
+   * Hash a one-time token for storage
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
   /**
    * Generate avatar text from name
    */
@@ -493,20 +630,4 @@ export class AuthService {
       isProfileComplete: user.isProfileComplete,
     };
   }
-
-  /**
-   * Generate JWT token for user
-   */
-  private generateToken(user: User): string {
-    const payload = {
-      userId: user.userId,
-      username: user.username,
-      authState: user.authState,
-      isPasswordSet: user.isPasswordSet,
-    };
-
-    return this.jwtService.sign(payload, {
-      expiresIn: '24h', // Token expires in 24 hours
-    });
-  }
 }
@@ -2,6 +2,7 @@ import { Injectable, Logger, NotFoundException, BadRequestException } from '@nes
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, MoreThan } from 'typeorm';
 import { TrustedDevice } from '../entities/trusted-device.entity';
+import { SessionService } from './session.service';
 
 export interface DeviceInfo {
   deviceFingerprint: string;
@@ -31,12 +32,20 @@ export class DeviceTrustService {
   constructor(
     @InjectRepository(TrustedDevice)
     private readonly trustedDeviceRepository: Repository<TrustedDevice>,
+    private readonly sessionService: SessionService,
   ) {}
 
   /**
    * Check if device is trusted for a user
    */
   async isDeviceTrusted(userId: string, deviceFingerprint: string): Promise<boolean> {
+    return !!(await this.findTrustedDevice(userId, deviceFingerprint));
+  }
+
+  /**
+   * Find the user's trusted, unexpired device with this fingerprint and mark it as used
+   */
+  async findTrustedDevice(userId: string, deviceFingerprint: string): Promise<TrustedDevice | null> {
     try {
       const device = await this.trustedDeviceRepository.findOne({
         where: {
@@ -52,13 +61,13 @@ export class DeviceTrustService {
         device.lastUsed = new Date();
         await this.trustedDeviceRepository.save(device);
         this.logger.log(`Device ${device.deviceId} used for user ${userId}`);
-        return true;
+        return device;
       }
 
-      return false;
+      return null;
     } catch (error) {
       this.logger.error(`Error checking device trust: ${error.message}`);
-      return false;
+      return null;
     }
   }
 
@@ -146,7 +155,7 @@ export class DeviceTrustService {
   }
 
   /**
-   * Revoke trust for a specific device (delete from database)
+   * Revoke trust for a specific device (delete from database) and log out its sessions
    */
   async revokeDevice(deviceId: string, userId: string): Promise<void> {
     try {
@@ -158,6 +167,7 @@ export class DeviceTrustService {
         throw new NotFoundException('Device not found');
       }
 
+      await this.sessionService.revokeDeviceSessions([device.deviceId]);
       // Delete device from database
       await this.trustedDeviceRepository.remove(device);
       
@@ -169,10 +179,13 @@ export class DeviceTrustService {
   }
 
   /**
-   * Revoke all devices for a user (delete from database)
+   * Revoke all devices for a user (delete from database) and log out their sessions,
+   * except the session making the request
    */
-  async revokeAllDevices(userId: string): Promise<void> {
+  async revokeAllDevices(userId: string, currentSessionId?: string): Promise<void> {
     try {
+      const devices = await this.trustedDeviceRepository.find({ where: { userId } });
+      await this.sessionService.revokeDeviceSessions(devices.map(device => device.deviceId), currentSessionId);
       // Delete all devices for user
       await this.trustedDeviceRepository.delete({ userId });
       
@@ -211,6 +224,7 @@ export class DeviceTrustService {
         throw new NotFoundException('Device not found for this user');
       }
 
+      await this.sessionService.revokeDeviceSessions([device.deviceId]);
       // Delete device from database
       await this.trustedDeviceRepository.remove(device);
       
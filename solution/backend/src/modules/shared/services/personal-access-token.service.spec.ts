@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+import { TwoFactorService } from './two-factor.service';
+import { PersonalAccessToken } from '../entities/personal-access-token.entity';
+import { User } from '../entities/user.entity';
+import { Account } from '../entities/account.entity';
+import { Permission } from '../entities/permission.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { LogRepository } from '../../logging/repositories/log.repository';
+
+describe('PersonalAccessTokenService', () => {
+  let service: PersonalAccessTokenService;
+  let tokens: PersonalAccessToken[];
+  const user = { userId: 'user-1', username: 'john', authState: 'COMPLETE', isPasswordSet: true } as User;
+  const accountId = 'aaaaaaaa-0000-4000-8000-000000000001';
+  const portfolioId = 'bbbbbbbb-0000-4000-8000-000000000002';
+
+  beforeEach(async () => {
+    tokens = [];
+    const tokenRepository = {
+      create: (data: Partial<PersonalAccessToken>) => Object.assign(new PersonalAccessToken(), data),
+      save: async (token: PersonalAccessToken) => {
+        token.tokenId = `token-${tokens.length + 1}`;
+        token.createdAt = new Date();
+        tokens.push(token);
+        return token;
+      },
+      update: async (id: string, data: Partial<PersonalAccessToken>) => {
+        Object.assign(tokens.find(token => token.tokenId === id), data);
+        return { affected: 1 };
+      },
+      findOne: async ({ where }: any) =>
+        tokens.find(token => Object.entries(where).every(([key, value]) => token[key] === value)) ?? null,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PersonalAccessTokenService,
+        { provide: getRepositoryToken(PersonalAccessToken), useValue: tokenRepository },
+        { provide: getRepositoryToken(User), useValue: { findOne: async () => user } },
+        {
+          provide: getRepositoryToken(Account),
+          useValue: { find: async () => [{ accountId, isMainAccount: true }] },
+        },
+        {
+          provide: getRepositoryToken(Permission),
+          useValue: { find: async () => [{ name: 'trades.read' }, { name: 'trades.create' }] },
+        },
+        { provide: getRepositoryToken(Portfolio), useValue: { find: async () => [{ portfolioId }] } },
+        { provide: LogRepository, useValue: { storeRequestLog: jest.fn(), findRequestLogs: jest.fn() } },
+        { provide: TwoFactorService, useValue: { assertCode: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<PersonalAccessTokenService>(PersonalAccessTokenService);
+  });
+
+  it('should store only a hash and authenticate with the returned token', async () => {
+    const created = await service.create(user.userId, {
+      name: 'Price import',
+      scopes: ['trades.read'],
+      portfolioIds: [portfolioId],
+      expiresInDays: 30,
+    });
+
+    expect(tokens[0].tokenHash).not.toContain(created.token);
+    expect(created.tokenPrefix).toBe(created.token.substring(0, 9));
+
+    const principal = await service.authenticate(created.token, '10.0.0.1');
+    expect(principal).toMatchObject({
+      userId: user.userId,
+      personalAccessTokenId: created.tokenId,
+      scopes: ['trades.read'],
+      portfolioIds: [portfolioId],
+      mainAccountId: accountId,
+    });
+    expect(tokens[0].lastUsedIp).toBe('10.0.0.1');
+  });
+
+  it('should reject unknown scopes', async () => {
+    await expect(service.create(user.userId, {
+      name: 'Admin script',
+      scopes: ['users.delete'],
+      expiresInDays: 30,
+    })).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject revoked tokens', async () => {
+    const created = await service.create(user.userId, { name: 'Script', scopes: ['trades.read'], expiresInDays: 1 });
+    await service.revoke(user.userId, created.tokenId);
+
+    await expect(service.authenticate(created.token)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should limit requests to the granted scopes, portfolios and accounts', async () => {
+    const created = await service.create(user.userId, {
+      name: 'Script',
+      scopes: ['trades.read'],
+      portfolioIds: [portfolioId],
+      expiresInDays: 30,
+    });
+    const principal = await service.authenticate(created.token);
+
+    expect(() => service.assertAccess(principal, ['trades.read'], { query: { portfolioId, accountId } })).not.toThrow();
+    expect(() => service.assertAccess(principal, undefined, {})).toThrow(ForbiddenException);
+    expect(() => service.assertAccess(principal, ['trades.create'], { body: { portfolioId } })).toThrow(ForbiddenException);
+    expect(() => service.assertAccess(principal, ['trades.read'], { query: { portfolioId: accountId } })).toThrow(ForbiddenException);
+    expect(() => service.assertAccess(principal, ['trades.read'], { query: { portfolioId, accountId: portfolioId } }))
+      .toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,295 @@
+import { Injectable, BadRequestException, ForbiddenException, NotFoundException, UnauthorizedException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+import { isUUID } from 'class-validator';
+import { PersonalAccessToken } from '../entities/personal-access-token.entity';
+import { User } from '../entities/user.entity';
+import { Account } from '../entities/account.entity';
+import { Permission } from '../entities/permission.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { LogRepository, PaginatedResult } from '../../logging/repositories/log.repository';
+import { RequestLog } from '../../logging/entities/request-log.entity';
+import { TwoFactorService } from './two-factor.service';
+import {
+  CreatePersonalAccessTokenDto,
+  CreatedPersonalAccessTokenDto,
+  PersonalAccessTokenResponseDto,
+} from '../dto/personal-access-token.dto';
+import {
+  generatePersonalAccessToken,
+  isPortfolioAllowed,
+  missingScopes,
+  ScopedRequest,
+} from '../utils/personal-access-token.util';
+
+/**
+ * User attached to requests authenticated with a personal access token
+ */
+export interface PersonalAccessTokenPrincipal {
+  userId: string;
+  username: string;
+  authState: string;
+  isPasswordSet: boolean;
+  personalAccessTokenId: string;
+  scopes: string[];
+  portfolioIds: string[] | null;
+  accountIds: string[];
+  mainAccountId: string | null;
+}
+
+/** How often authenticating a request may write lastUsedAt */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/** Characters of the token kept in clear so users can tell their tokens apart */
+const TOKEN_PREFIX_LENGTH = 9;
+
+/**
+ * Service for personal access tokens: long-lived, scoped tokens that users
+ * create for scripts calling the REST API.
+ */
+@Injectable()
+export class PersonalAccessTokenService {
+  private readonly logger = new Logger(PersonalAccessTokenService.name);
+
+  constructor(
+    @InjectRepository(PersonalAccessToken)
+    private readonly tokenRepository: Repository<PersonalAccessToken>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Account)
+    private readonly accountRepository: Repository<Account>,
+    @InjectRepository(Permission)
+    private readonly permissionRepository: Repository<Permission>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    private readonly logRepository: LogRepository,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
+
+  /**
+   * List a user's tokens, newest first
+   */
+  async list(userId: string): Promise<PersonalAccessTokenResponseDto[]> {
+    const tokens = await this.tokenRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+    return tokens.map(token => this.toResponse(token));
+  }
+
+  /**
+   * Permissions that can be granted to a token
+   */
+  async listScopes(): Promise<Pick<Permission, 'name' | 'displayName' | 'category'>[]> {
+    return this.permissionRepository.find({
+      select: ['name', 'displayName', 'category'],
+      order: { category: 'ASC', priority: 'DESC', name: 'ASC' },
+    });
+  }
+
+  /**
+   * Create a token. The token itself is returned here only; just its hash is stored.
+   */
+  async create(userId: string, dto: CreatePersonalAccessTokenDto): Promise<CreatedPersonalAccessTokenDto> {
+    await this.twoFactorService.assertCode(userId, dto.twoFactorCode);
+
+    const scopes = [...new Set(dto.scopes)];
+    const permissions = await this.permissionRepository.find({ where: { name: In(scopes) } });
+    const unknownScopes = scopes.filter(scope => !permissions.some(permission => permission.name === scope));
+    if (unknownScopes.length > 0) {
+      throw new BadRequestException(`Unknown scopes: ${unknownScopes.join(', ')}`);
+    }
+
+    const portfolioIds = dto.portfolioIds ? [...new Set(dto.portfolioIds)] : null;
+    if (portfolioIds) {
+      const accountIds = await this.getAccountIds(userId);
+      const portfolios = accountIds.length > 0
+        ? await this.portfolioRepository.find({
+            where: { portfolioId: In(portfolioIds), accountId: In(accountIds) },
+            select: ['portfolioId'],
+          })
+        : [];
+      const unknownPortfolios = portfolioIds.filter(id => !portfolios.some(portfolio => portfolio.portfolioId === id));
+      if (unknownPortfolios.length > 0) {
+        throw new BadRequestException(`Portfolios not found: ${unknownPortfolios.join(', ')}`);
+      }
+    }
+
+    const token = generatePersonalAccessToken();
+    const expiresAt = new Date(Date.now() + dto.expiresInDays * 24 * 60 * 60 * 1000);
+    const saved = await this.tokenRepository.save(this.tokenRepository.create({
+      userId,
+      name: dto.name.trim(),
+      tokenPrefix: token.substring(0, TOKEN_PREFIX_LENGTH),
+      tokenHash: hashToken(token),
+      scopes,
+      portfolioIds,
+      expiresAt,
+      lastUsedAt: null,
+      lastUsedIp: null,
+      revokedAt: null,
+    }));
+
+    this.logger.log(`Personal access token ${saved.tokenId} created for user ${userId} with scopes: ${scopes.join(', ')}`);
+    return { ...this.toResponse(saved), token };
+  }
+
+  /**
+   * Revoke one of the user's tokens
+   */
+  async revoke(userId: string, tokenId: string): Promise<void> {
+    const token = await this.findOwnedToken(userId, tokenId);
+    if (!token.revokedAt) {
+      await this.tokenRepository.update(token.tokenId, { revokedAt: new Date() });
+      this.logger.log(`Personal access token ${tokenId} revoked for user ${userId}`);
+    }
+  }
+
+  /**
+   * Requests made with one of the user's tokens, newest first
+   */
+  async getUsage(userId: string, tokenId: string, page = 1, limit = 50): Promise<PaginatedResult<RequestLog>> {
+    await this.findOwnedToken(userId, tokenId);
+    return this.logRepository.findRequestLogs({
+      personalAccessTokenId: tokenId,
+      page,
+      limit,
+    });
+  }
+
+  /**
+   * Resolve a bearer token to the user it acts for
+   */
+  async authenticate(token: string, ipAddress?: string): Promise<PersonalAccessTokenPrincipal> {
+    const record = await this.tokenRepository.findOne({ where: { tokenHash: hashToken(token) } });
+    if (!record || !record.isActive) {
+      throw new UnauthorizedException('Personal access token expired or revoked');
+    }
+
+    const user = await this.userRepository.findOne({ where: { userId: record.userId } });
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const accounts = await this.accountRepository.find({
+      where: { userId: user.userId },
+      select: ['accountId', 'isMainAccount'],
+    });
+
+    const now = new Date();
+    if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+      || record.lastUsedIp !== (ipAddress ?? null)) {
+      await this.tokenRepository.update(record.tokenId, { lastUsedAt: now, lastUsedIp: ipAddress ?? null });
+    }
+
+    return {
+      userId: user.userId,
+      username: user.username,
+      authState: user.authState,
+      isPasswordSet: user.isPasswordSet,
+      personalAccessTokenId: record.tokenId,
+      scopes: record.scopes,
+      portfolioIds: record.portfolioIds,
+      accountIds: accounts.map(account => account.accountId),
+      mainAccountId: accounts.find(account => account.isMainAccount)?.accountId ?? accounts[0]?.accountId ?? null,
+    };
+  }
+
+  /**
+   * Authenticate a personal access token for a route, log the call and check the token's access
+   * @returns Principal to attach to the request
+   */
+  async authorizeRequest(
+    token: string,
+    requiredPermissions: string[] | undefined,
+    request: any,
+    response: any,
+  ): Promise<PersonalAccessTokenPrincipal> {
+    const principal = await this.authenticate(token, request.ip);
+    this.recordUsage(principal, request, response);
+    this.assertAccess(principal, requiredPermissions, request);
+    return principal;
+  }
+
+  /**
+   * Check that a token may call a route. Tokens only reach routes that declare
+   * their permissions, and only with the scopes, portfolios and accounts it was granted.
+   */
+  assertAccess(principal: PersonalAccessTokenPrincipal, requiredPermissions: string[] | undefined, request: ScopedRequest): void {
+    if (!requiredPermissions || requiredPermissions.length === 0) {
+      throw new ForbiddenException('This endpoint cannot be used with a personal access token');
+    }
+
+    const missing = missingScopes(principal.scopes, requiredPermissions);
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Personal access token lacks scopes: ${missing.join(', ')}`);
+    }
+
+    if (!isPortfolioAllowed(principal.portfolioIds, request, requiredPermissions)) {
+      throw new ForbiddenException('Personal access token is not allowed to access this portfolio');
+    }
+
+    const accountId = request.query?.accountId ?? request.body?.accountId;
+    if (accountId && !principal.accountIds.includes(String(accountId))) {
+      throw new ForbiddenException('Personal access token is not allowed to access this account');
+    }
+  }
+
+  /**
+   * Write the request to the request logs once the response has been sent.
+   * Headers and body are left out so the token never reaches the logs.
+   */
+  recordUsage(principal: PersonalAccessTokenPrincipal, request: any, response: any): void {
+    const startTime = Date.now();
+    response.on('finish', () => {
+      const requestId = response.getHeader?.('X-Request-ID');
+      this.logRepository.storeRequestLog({
+        requestId: typeof requestId === 'string' && isUUID(requestId) ? requestId : randomUUID(),
+        method: request.method,
+        url: request.originalUrl || request.url,
+        queryParams: request.query,
+        userId: principal.mainAccountId,
+        personalAccessTokenId: principal.personalAccessTokenId,
+        ipAddress: request.ip || null,
+        userAgent: request.headers?.['user-agent'] || null,
+        responseStatus: response.statusCode,
+        responseTimeMs: Date.now() - startTime,
+      }).catch(error => {
+        this.logger.warn(`Failed to log request for personal access token ${principal.personalAccessTokenId}: ${error.message}`);
+      });
+    });
+  }
+
+  private async findOwnedToken(userId: string, tokenId: string): Promise<PersonalAccessToken> {
+    const token = await this.tokenRepository.findOne({ where: { tokenId, userId } });
+    if (!token) {
+      throw new NotFoundException('Personal access token not found');
+    }
+    return token;
+  }
+
+  private async getAccountIds(userId: string): Promise<string[]> {
+    const accounts = await this.accountRepository.find({ where: { userId }, select: ['accountId'] });
+    return accounts.map(account => account.accountId);
+  }
+
+  private toResponse(token: PersonalAccessToken): PersonalAccessTokenResponseDto {
+    return {
+      tokenId: token.tokenId,
+      name: token.name,
+      tokenPrefix: token.tokenPrefix,
+      scopes: token.scopes,
+      portfolioIds: token.portfolioIds,
+      expiresAt: token.expiresAt,
+      lastUsedAt: token.lastUsedAt,
+      lastUsedIp: token.lastUsedIp,
+      createdAt: token.createdAt,
+      isActive: token.isActive,
+    };
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
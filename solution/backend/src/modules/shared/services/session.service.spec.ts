@@ -0,0 +1,97 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { UnauthorizedException } from '@nestjs/common';
+import { SessionService } from './session.service';
+import { UserSession } from '../entities/user-session.entity';
+import { User } from '../entities/user.entity';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let sessions: Map<string, UserSession>;
+  const user = { userId: 'user-1', username: 'john', authState: 'COMPLETE', isPasswordSet: true } as User;
+  const sessionId = '11111111-2222-4333-8444-555555555555';
+
+  beforeEach(async () => {
+    sessions = new Map();
+    const sessionRepository = {
+      create: (data: Partial<UserSession>) => Object.assign(new UserSession(), data),
+      save: async (session: UserSession) => {
+        session.sessionId = sessionId;
+        sessions.set(session.sessionId, session);
+        return session;
+      },
+      update: async (id: string, data: Partial<UserSession>) => {
+        Object.assign(sessions.get(id), data);
+        return { affected: 1 };
+      },
+      findOne: async ({ where }: any) => sessions.get(where.sessionId) ?? null,
+      createQueryBuilder: () => {
+        let id: string;
+        const builder = {
+          addSelect: () => builder,
+          where: (_: string, params: any) => { id = params.sessionId; return builder; },
+          getOne: async () => sessions.get(id) ?? null,
+        };
+        return builder;
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: getRepositoryToken(UserSession), useValue: sessionRepository },
+        { provide: getRepositoryToken(User), useValue: { findOne: async () => user } },
+        { provide: JwtService, useValue: { sign: (payload: any) => `jwt:${payload.sessionId}` } },
+        { provide: ConfigService, useValue: { get: (_: string, defaultValue: any) => defaultValue } },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  it('should issue an access token bound to the new session', async () => {
+    const tokens = await service.startSession(user, null, { ipAddress: '10.0.0.1' });
+
+    expect(tokens.token).toBe(`jwt:${sessionId}`);
+    expect(tokens.refreshToken.startsWith(`${sessionId}.`)).toBe(true);
+    expect(sessions.get(sessionId).ipAddress).toBe('10.0.0.1');
+    expect(await service.validateSession(sessionId, user.userId)).toBe(true);
+  });
+
+  it('should rotate the refresh token on every refresh', async () => {
+    const first = await service.startSession(user);
+    const second = await service.refresh(first.refreshToken);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    await expect(service.refresh(second.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('should give concurrent refreshes with the same token the same token pair', async () => {
+    const first = await service.startSession(user);
+
+    const [tabA, tabB] = await Promise.all([service.refresh(first.refreshToken), service.refresh(first.refreshToken)]);
+    const retry = await service.refresh(first.refreshToken);
+
+    expect(tabB.refreshToken).toBe(tabA.refreshToken);
+    expect(retry.refreshToken).toBe(tabA.refreshToken);
+    expect(sessions.get(sessionId).revokedAt).toBeNull();
+    await expect(service.refresh(tabA.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('should revoke the session when a rotated refresh token is reused after the grace window', async () => {
+    const first = await service.startSession(user);
+    const second = await service.refresh(first.refreshToken);
+    sessions.get(sessionId).refreshTokenRotatedAt = new Date(Date.now() - 31 * 1000);
+
+    await expect(service.refresh(first.refreshToken)).rejects.toThrow(UnauthorizedException);
+    expect(sessions.get(sessionId).revokedAt).toBeInstanceOf(Date);
+    await expect(service.refresh(second.refreshToken)).rejects.toThrow('Session expired or revoked');
+    expect(await service.validateSession(sessionId, user.userId)).toBe(false);
+  });
+
+  it('should reject malformed refresh tokens', async () => {
+    await expect(service.refresh('not-a-token')).rejects.toThrow('Invalid refresh token');
+  });
+});
@@ -0,0 +1,271 @@
+import { Injectable, NotFoundException, UnauthorizedException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { In, IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { isUUID } from 'class-validator';
+import { User } from '../entities/user.entity';
+import { UserSession } from '../entities/user-session.entity';
+import { TrustedDevice } from '../entities/trusted-device.entity';
+
+export interface AuthTokens {
+  /** Short-lived access token (JWT) */
+  token: string;
+  /** Opaque refresh token, rotated on every use */
+  refreshToken: string;
+  sessionId: string;
+}
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SessionResponse {
+  sessionId: string;
+  deviceId: string | null;
+  deviceName: string | null;
+  browserInfo: string | null;
+  location: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastSeenAt: Date;
+  createdAt: Date;
+  expiresAt: Date;
+  isCurrent: boolean;
+}
+
+/** How often validating an access token may write lastSeenAt */
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Service for server-side login sessions: issues access/refresh token pairs,
+ * rotates refresh tokens and revokes sessions.
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+  private readonly refreshTokenTtlDays: number;
+  private readonly refreshTokenGraceMs: number;
+  private readonly rotationKey: string;
+
+  constructor(
+    @InjectRepository(UserSession)
+    private readonly sessionRepository: Repository<UserSession>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {
+    this.refreshTokenTtlDays = Number(this.configService.get('REFRESH_TOKEN_TTL_DAYS', 30));
+    this.refreshTokenGraceMs = Number(this.configService.get('REFRESH_TOKEN_REUSE_GRACE_SECONDS', 30)) * 1000;
+    this.rotationKey = this.configService.get<string>('JWT_SECRET', 'your-secret-key');
+  }
+
+  /**
+   * Start a session for a user who has just authenticated
+   */
+  async startSession(user: User, device?: TrustedDevice | null, context: SessionContext = {}): Promise<AuthTokens> {
+    const secret = this.generateSecret();
+    const now = new Date();
+    const session = await this.sessionRepository.save(this.sessionRepository.create({
+      userId: user.userId,
+      deviceId: device?.deviceId ?? null,
+      refreshTokenHash: hashSecret(secret),
+      ipAddress: context.ipAddress ?? device?.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+      lastSeenAt: now,
+      expiresAt: this.refreshExpiry(now),
+      revokedAt: null,
+    }));
+
+    this.logger.log(`Session ${session.sessionId} started for user ${user.userId}`);
+    return {
+      token: this.signAccessToken(user, session.sessionId),
+      refreshToken: `${session.sessionId}.${secret}`,
+      sessionId: session.sessionId,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The next secret is derived from the presented one,
+   * so the token just rotated out gets the same pair back during a short grace window, as happens when
+   * several tabs or a retry refresh at once. Presenting a rotated token after that revokes the whole
+   * session, since it means the token was copied.
+   */
+  async refresh(refreshToken: string, context: SessionContext = {}): Promise<AuthTokens> {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+    if (!sessionId || !secret || !isUUID(sessionId)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.sessionRepository
+      .createQueryBuilder('session')
+      .addSelect('session.refreshTokenHash')
+      .addSelect('session.previousRefreshTokenHash')
+      .where('session.sessionId = :sessionId', { sessionId })
+      .getOne();
+    if (!session || !session.isActive) {
+      throw new UnauthorizedException('Session expired or revoked');
+    }
+
+    const presentedHash = hashSecret(secret);
+    const isCurrent = session.refreshTokenHash === presentedHash;
+    if (!isCurrent && !this.isInGraceWindow(session, presentedHash)) {
+      await this.sessionRepository.update(session.sessionId, { revokedAt: new Date() });
+      this.logger.warn(`Refresh token reuse on session ${session.sessionId}, session revoked`);
+      throw new UnauthorizedException('Session expired or revoked');
+    }
+
+    const user = await this.userRepository.findOne({ where: { userId: session.userId } });
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    const nextSecret = this.deriveNextSecret(sessionId, secret);
+    const now = new Date();
+    await this.sessionRepository.update(session.sessionId, {
+      // A token in its grace window already rotated to nextSecret, which stays current
+      ...(isCurrent ? {
+        refreshTokenHash: hashSecret(nextSecret),
+        previousRefreshTokenHash: presentedHash,
+        refreshTokenRotatedAt: now,
+      } : {}),
+      lastSeenAt: now,
+      expiresAt: this.refreshExpiry(now),
+      ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+    });
+
+    return {
+      token: this.signAccessToken(user, session.sessionId),
+      refreshToken: `${session.sessionId}.${nextSecret}`,
+      sessionId: session.sessionId,
+    };
+  }
+
+  /**
+   * Check that the session behind an access token is still active
+   */
+  async validateSession(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.sessionRepository.findOne({ where: { sessionId, userId } });
+    if (!session || !session.isActive) {
+      return false;
+    }
+
+    const now = new Date();
+    if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+      await this.sessionRepository.update(sessionId, { lastSeenAt: now });
+    }
+    return true;
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  async getActiveSessions(userId: string, currentSessionId?: string): Promise<SessionResponse[]> {
+    const sessions = await this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      relations: ['device'],
+      order: { lastSeenAt: 'DESC' },
+    });
+
+    return sessions.map(session => ({
+      sessionId: session.sessionId,
+      deviceId: session.deviceId,
+      deviceName: session.device?.deviceName ?? null,
+      browserInfo: session.device?.browserInfo ?? null,
+      location: session.device?.location ?? null,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      lastSeenAt: session.lastSeenAt,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      isCurrent: session.sessionId === currentSessionId,
+    }));
+  }
+
+  async revokeSession(sessionId: string, userId: string): Promise<void> {
+    const result = await this.sessionRepository.update(
+      { sessionId, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Session not found');
+    }
+    this.logger.log(`Session ${sessionId} revoked for user ${userId}`);
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping the current one
+   * @returns Number of sessions revoked
+   */
+  async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const query = this.sessionRepository
+      .createQueryBuilder()
+      .update(UserSession)
+      .set({ revokedAt: () => 'CURRENT_TIMESTAMP' })
+      .where('user_id = :userId', { userId })
+      .andWhere('revoked_at IS NULL');
+    if (exceptSessionId) {
+      query.andWhere('session_id != :exceptSessionId', { exceptSessionId });
+    }
+
+    const result = await query.execute();
+    this.logger.log(`${result.affected ?? 0} sessions revoked for user ${userId}`);
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Revoke every session started on the given trusted devices, optionally keeping the current one
+   */
+  async revokeDeviceSessions(deviceIds: string[], exceptSessionId?: string): Promise<void> {
+    if (deviceIds.length === 0) {
+      return;
+    }
+    await this.sessionRepository.update(
+      {
+        deviceId: In(deviceIds),
+        revokedAt: IsNull(),
+        ...(exceptSessionId ? { sessionId: Not(exceptSessionId) } : {}),
+      },
+      { revokedAt: new Date() },
+    );
+  }
+
+  private signAccessToken(user: User, sessionId: string): string {
+    return this.jwtService.sign({
+      userId: user.userId,
+      username: user.username,
+      authState: user.authState,
+      isPasswordSet: user.isPasswordSet,
+      sessionId,
+    });
+  }
+
+  private refreshExpiry(from: Date): Date {
+    return new Date(from.getTime() + this.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * Secret that replaces a refresh token secret; keyed so that a copied token cannot be rolled forward offline
+   */
+  private deriveNextSecret(sessionId: string, secret: string): string {
+    return createHmac('sha256', this.rotationKey).update(`${sessionId}.${secret}`).digest('base64url');
+  }
+
+  private isInGraceWindow(session: UserSession, presentedHash: string): boolean {
+    return !!session.previousRefreshTokenHash
+      && session.previousRefreshTokenHash === presentedHash
+      && !!session.refreshTokenRotatedAt
+      && Date.now() - session.refreshTokenRotatedAt.getTime() <= this.refreshTokenGraceMs;
+  }
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TaxFeeCalculationService } from './tax-fee-calculation.service';
+
+describe('TaxFeeCalculationService', () => {
+  let service: TaxFeeCalculationService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TaxFeeCalculationService],
+    }).compile();
+
+    service = module.get<TaxFeeCalculationService>(TaxFeeCalculationService);
+  });
+
+  describe('calculateTradeCharges', () => {
+    it('should charge the broker fee but no tax on a stock buy', () => {
+      const estimate = service.calculateTradeCharges({
+        side: 'BUY', quantity: 1000, price: 50000, assetType: 'STOCK', currency: 'VND',
+      });
+
+      expect(estimate.nation).toBe('VN');
+      expect(estimate.broker).toBe('DEFAULT');
+      expect(estimate.fee).toBe(75000);
+      expect(estimate.tax).toBe(0);
+    });
+
+    it('should charge 0.1% sale tax on a stock sell', () => {
+      const estimate = service.calculateTradeCharges({
+        side: 'SELL', quantity: 1000, price: 50000, assetType: 'STOCK', currency: 'VND',
+      });
+
+      expect(estimate.taxRate).toBe(0.001);
+      expect(estimate.tax).toBe(50000);
+    });
+
+    it('should pick the broker tier matching the trade value', () => {
+      const small = service.calculateTradeCharges({
+        side: 'BUY', quantity: 1000, price: 50000, assetType: 'STOCK', broker: 'ssi', currency: 'VND',
+      });
+      const large = service.calculateTradeCharges({
+        side: 'BUY', quantity: 10000, price: 60000, assetType: 'STOCK', broker: 'SSI', currency: 'VND',
+      });
+
+      expect(small.feeRate).toBe(0.0025);
+      expect(large.feeRate).toBe(0.0015);
+      expect(large.fee).toBe(900000);
+    });
+
+    it('should fall back to the default broker for an unknown broker', () => {
+      const estimate = service.calculateTradeCharges({
+        side: 'BUY', quantity: 100, price: 10000, assetType: 'STOCK', broker: 'UNKNOWN', currency: 'VND',
+      });
+
+      expect(estimate.broker).toBe('DEFAULT');
+    });
+
+    it('should not charge assets outside the securities types', () => {
+      const estimate = service.calculateTradeCharges({
+        side: 'SELL', quantity: 10, price: 2000000, assetType: 'GOLD', currency: 'VND',
+      });
+
+      expect(estimate.fee).toBe(0);
+      expect(estimate.tax).toBe(0);
+    });
+  });
+
+  describe('calculateWithholdingTax', () => {
+    it('should withhold 5% on a cash dividend', () => {
+      const estimate = service.calculateWithholdingTax('DIVIDEND', 1000000, 'VND');
+
+      expect(estimate.taxAmount).toBe(50000);
+      expect(estimate.netAmount).toBe(950000);
+    });
+
+    it('should withhold the deposit interest rate on interest', () => {
+      const estimate = service.calculateWithholdingTax('INTEREST', 2000000, 'VND');
+
+      expect(estimate.taxRate).toBe(0.05);
+      expect(estimate.taxAmount).toBe(100000);
+    });
+  });
+});
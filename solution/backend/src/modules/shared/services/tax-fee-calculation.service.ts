@@ -0,0 +1,118 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NationConfigUtils } from '../../../config/nation-config.utils';
+import { BrokerFeeSchedule, NationCode, TaxRules } from '../../../config/nation-config.interface';
+
+export type WithholdingIncomeType = 'DIVIDEND' | 'INTEREST';
+
+export interface TradeChargeInput {
+  side: 'BUY' | 'SELL' | string;
+  quantity: number;
+  price: number;
+  assetType?: string;
+  broker?: string | null;
+  currency?: string;
+}
+
+export interface TradeChargeEstimate {
+  nation: string | null;
+  broker: string | null;
+  tradeValue: number;
+  feeRate: number;
+  fee: number;
+  taxRate: number;
+  tax: number;
+}
+
+export interface WithholdingTaxEstimate {
+  nation: string | null;
+  grossAmount: number;
+  taxRate: number;
+  taxAmount: number;
+  netAmount: number;
+}
+
+/**
+ * Shared service for default broker fees and securities taxes.
+ * Rules come from the taxRules block of nations.json; the nation is chosen by currency
+ * and falls back to the configured default nation. Nations without rules charge nothing.
+ */
+@Injectable()
+export class TaxFeeCalculationService {
+  private readonly logger = new Logger(TaxFeeCalculationService.name);
+
+  /**
+   * Get the tax rules that apply to a currency
+   * @param currency Asset or portfolio currency
+   * @returns Nation code and its rules (null when the nation has none)
+   */
+  getTaxRules(currency?: string): { nation: string | null; rules: TaxRules | null } {
+    try {
+      const config = NationConfigUtils.loadConfig();
+      const nation = Object.keys(config.nations).find(code => config.nations[code].currency === currency?.toUpperCase())
+        || config.defaults.nation;
+      return { nation, rules: NationConfigUtils.getNationConfig(nation as NationCode).taxRules || null };
+    } catch (error) {
+      this.logger.warn(`Tax rules unavailable: ${error.message}`);
+      return { nation: null, rules: null };
+    }
+  }
+
+  /**
+   * Default broker fee and sale tax of a trade
+   * @param input Trade side, size, asset type and broker
+   * @returns Fee and tax in the trade currency
+   */
+  calculateTradeCharges(input: TradeChargeInput): TradeChargeEstimate {
+    const { nation, rules } = this.getTaxRules(input.currency);
+    const tradeValue = (Number(input.quantity) || 0) * (Number(input.price) || 0);
+    const estimate: TradeChargeEstimate = { nation, broker: null, tradeValue, feeRate: 0, fee: 0, taxRate: 0, tax: 0 };
+
+    if (!rules || tradeValue <= 0 || !rules.securitiesAssetTypes.includes(input.assetType || '')) {
+      return estimate;
+    }
+
+    const brokerCode = input.broker && rules.brokers[input.broker.toUpperCase()]
+      ? input.broker.toUpperCase()
+      : rules.defaultBroker;
+    const schedule = rules.brokers[brokerCode];
+
+    estimate.broker = brokerCode;
+    if (schedule) {
+      estimate.feeRate = this.getTierRate(schedule, tradeValue);
+      estimate.fee = this.round(Math.max(tradeValue * estimate.feeRate, schedule.minFee || 0));
+    }
+    if (input.side === 'SELL') {
+      estimate.taxRate = rules.securitiesSaleTaxRate;
+      estimate.tax = this.round(tradeValue * rules.securitiesSaleTaxRate);
+    }
+
+    return estimate;
+  }
+
+  /**
+   * Tax withheld at source on a cash dividend or interest payment
+   * @param type Income type
+   * @param grossAmount Amount before tax
+   * @param currency Payment currency
+   * @returns Withheld tax and the net amount credited
+   */
+  calculateWithholdingTax(type: WithholdingIncomeType, grossAmount: number, currency?: string): WithholdingTaxEstimate {
+    const { nation, rules } = this.getTaxRules(currency);
+    const gross = Number(grossAmount) || 0;
+    const taxRate = !rules ? 0 : type === 'DIVIDEND' ? rules.cashDividendTaxRate : rules.depositInterestTaxRate;
+    const taxAmount = gross > 0 ? this.round(gross * taxRate) : 0;
+
+    return { nation, grossAmount: gross, taxRate, taxAmount, netAmount: gross - taxAmount };
+  }
+
+  private getTierRate(schedule: BrokerFeeSchedule, tradeValue: number): number {
+    const tier = [...schedule.tiers]
+      .sort((a, b) => b.minTradeValue - a.minTradeValue)
+      .find(candidate => tradeValue >= candidate.minTradeValue);
+    return tier?.rate || 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,42 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TradingCalendarService } from './trading-calendar.service';
+
+describe('TradingCalendarService', () => {
+  let service: TradingCalendarService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TradingCalendarService],
+    }).compile();
+
+    service = module.get<TradingCalendarService>(TradingCalendarService);
+  });
+
+  it('should use the default nation calendar', () => {
+    expect(service.getCalendar().timezone).toBe('Asia/Ho_Chi_Minh');
+    expect(service.isTradingDay('2025-09-02')).toBe(false);
+    expect(service.isTradingDay('2025-09-03')).toBe(true);
+  });
+
+  it('should pick the nation by currency', () => {
+    expect(service.isTradingDay('2025-07-04', { currency: 'USD' })).toBe(false);
+    expect(service.isTradingDay('2025-07-04', { currency: 'VND' })).toBe(true);
+    expect(service.getCloseTime('2025-11-28', { currency: 'USD' })).toBe('13:00');
+  });
+
+  it('should use the sessions of a market', () => {
+    expect(service.getCloseTime('2025-09-03', { nation: 'VN', marketCode: 'HOSE' })).toBe('14:45');
+    expect(service.getCloseTime('2025-09-03', { nation: 'VN', marketCode: 'UPCOM' })).toBe('15:00');
+  });
+
+  it('should tell whether the market is open at an instant', () => {
+    // 10:00 and 20:00 on a Wednesday in Ho Chi Minh City
+    expect(service.isMarketOpen(new Date('2025-09-03T03:00:00Z'))).toBe(true);
+    expect(service.isMarketOpen(new Date('2025-09-03T13:00:00Z'))).toBe(false);
+  });
+
+  it('should roll holidays forward to the next trading day', () => {
+    expect(service.rollForward('2025-01-27')).toBe('2025-02-03');
+    expect(service.rollForward('2025-12-25', { nation: 'UK' })).toBe('2025-12-29');
+  });
+});
@@ -0,0 +1,123 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NationConfigUtils } from '../../../config/nation-config.utils';
+import { NationCode } from '../../../config/nation-config.interface';
+import {
+  ResolvedTradingCalendar,
+  getCloseTime,
+  isTradingDay,
+  isWithinSession,
+  isWithinTradingHours,
+  resolveTradingCalendar,
+  rollForwardToTradingDay,
+} from '../utils/trading-calendar.util';
+import { toLocalDateTime } from '../../portfolio/utils/dealing-calendar.util';
+
+/**
+ * Market to look up: by nation code, or by currency like the tax rules; an optional market code
+ * (HOSE, NYSE, ...) picks the exchange-specific sessions and holidays
+ */
+export interface TradingCalendarQuery {
+  nation?: string;
+  currency?: string;
+  marketCode?: string;
+}
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+
+/**
+ * Shared service for market sessions, holidays and half days.
+ * Calendars come from the tradingCalendar block of nations.json; without a nation or currency
+ * the configured default nation is used. When the configuration cannot be read, every weekday
+ * is a full trading day so callers keep working.
+ */
+@Injectable()
+export class TradingCalendarService {
+  private readonly logger = new Logger(TradingCalendarService.name);
+  private readonly calendars = new Map<string, ResolvedTradingCalendar>();
+
+  /**
+   * Get the calendar of a nation or market
+   * @param query Nation, currency and market code
+   * @returns Resolved calendar
+   */
+  getCalendar(query: TradingCalendarQuery = {}): ResolvedTradingCalendar {
+    const nation = this.resolveNation(query);
+    const key = `${nation}|${query.marketCode?.toUpperCase() || ''}`;
+    const cached = this.calendars.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    let calendar: ResolvedTradingCalendar;
+    try {
+      calendar = resolveTradingCalendar(NationConfigUtils.getNationConfig(nation as NationCode), query.marketCode);
+    } catch (error) {
+      this.logger.warn(`Trading calendar unavailable for ${nation}: ${error.message}`);
+      calendar = {
+        timezone: 'Asia/Ho_Chi_Minh',
+        sessions: [{ name: 'Weekday', start: '00:00', end: '23:59', days: WEEKDAYS }],
+        holidays: new Map(),
+        halfDays: new Map(),
+      };
+    }
+    this.calendars.set(key, calendar);
+    return calendar;
+  }
+
+  /**
+   * Whether the market trades on a date (YYYY-MM-DD, or an instant taken in the market timezone)
+   */
+  isTradingDay(date: string | Date, query: TradingCalendarQuery = {}): boolean {
+    const calendar = this.getCalendar(query);
+    return isTradingDay(calendar, this.toMarketDate(date, calendar));
+  }
+
+  /**
+   * Whether an instant falls inside a market session
+   * @param graceMinutes Minutes after each session close that still count as open
+   */
+  isMarketOpen(at: Date = new Date(), query: TradingCalendarQuery = {}, graceMinutes = 0): boolean {
+    return isWithinSession(this.getCalendar(query), at, graceMinutes);
+  }
+
+  /**
+   * Whether an instant falls between the first open and the last close of a trading day
+   * @param graceMinutes Minutes after the close that still count, e.g. for end-of-day price updates
+   */
+  isWithinTradingHours(at: Date = new Date(), query: TradingCalendarQuery = {}, graceMinutes = 0): boolean {
+    return isWithinTradingHours(this.getCalendar(query), at, graceMinutes);
+  }
+
+  /**
+   * Close time (HH:mm) of a date, or null when the market does not trade
+   */
+  getCloseTime(date: string | Date, query: TradingCalendarQuery = {}): string | null {
+    const calendar = this.getCalendar(query);
+    return getCloseTime(calendar, this.toMarketDate(date, calendar));
+  }
+
+  /**
+   * The date itself when the market trades on it, otherwise the next trading day
+   */
+  rollForward(date: string | Date, query: TradingCalendarQuery = {}): string {
+    const calendar = this.getCalendar(query);
+    return rollForwardToTradingDay(calendar, this.toMarketDate(date, calendar));
+  }
+
+  private resolveNation(query: TradingCalendarQuery): string {
+    try {
+      const config = NationConfigUtils.loadConfig();
+      if (query.nation && config.nations[query.nation.toUpperCase()]) {
+        return query.nation.toUpperCase();
+      }
+      return Object.keys(config.nations).find(code => config.nations[code].currency === query.currency?.toUpperCase())
+        || config.defaults.nation;
+    } catch (error) {
+      return query.nation?.toUpperCase() || 'VN';
+    }
+  }
+
+  private toMarketDate(date: string | Date, calendar: ResolvedTradingCalendar): string {
+    return typeof date === 'string' ? date.slice(0, 10) : toLocalDateTime(date, calendar.timezone).date;
+  }
+}
@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { HttpStatus, UnauthorizedException } from '@nestjs/common';
+import { TwoFactorService } from './two-factor.service';
+import { User } from '../entities/user.entity';
+import { generateTotpSecret, totpCode, totpStep } from '../utils/totp.util';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let user: User;
+  const secret = generateTotpSecret();
+
+  const expectLocked = (promise: Promise<unknown>) =>
+    expect(promise).rejects.toMatchObject({ status: HttpStatus.TOO_MANY_REQUESTS });
+
+  beforeEach(async () => {
+    user = Object.assign(new User(), {
+      userId: 'user-1',
+      username: 'john',
+      isPasswordSet: true,
+      twoFactorEnabled: true,
+      twoFactorSecret: secret,
+      twoFactorRecoveryCodes: [],
+      twoFactorLastStep: totpStep() - 10,
+      twoFactorFailedAttempts: 0,
+      twoFactorLockedUntil: null,
+    });
+    const userRepository = {
+      update: async (_id: string, data: Partial<User>) => Object.assign(user, data),
+      increment: async (_where: unknown, field: keyof User, value: number) => {
+        Object.assign(user, { [field]: Number(user[field] || 0) + value });
+      },
+      createQueryBuilder: () => {
+        const builder = {
+          addSelect: () => builder,
+          where: () => builder,
+          getOne: async () => ({ ...user }),
+        };
+        return builder;
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: getRepositoryToken(User), useValue: userRepository },
+        { provide: ConfigService, useValue: { get: (_: string, defaultValue: any) => defaultValue } },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  it('should lock two-factor codes after five invalid ones', async () => {
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await expect(service.assertCode(user.userId, '000000')).rejects.toThrow(UnauthorizedException);
+    }
+    await expectLocked(service.assertCode(user.userId, 'not-a-recovery-code'));
+
+    expect(user.twoFactorLockedUntil.getTime()).toBeGreaterThan(Date.now());
+    await expectLocked(service.assertCode(user.userId, totpCode(secret)));
+  });
+
+  it('should accept codes again once the lockout has passed', async () => {
+    user.twoFactorLockedUntil = new Date(Date.now() - 1000);
+
+    await expect(service.assertCode(user.userId, totpCode(secret))).resolves.toBeUndefined();
+  });
+
+  it('should reset the count of invalid codes when a code is accepted', async () => {
+    await expect(service.assertCode(user.userId, '000000')).rejects.toThrow(UnauthorizedException);
+    await expect(service.assertCode(user.userId, '000000')).rejects.toThrow(UnauthorizedException);
+    await service.assertCode(user.userId, totpCode(secret));
+
+    expect(user.twoFactorFailedAttempts).toBe(0);
+  });
+
+  it('should clear the invalid code count and lockout when two-factor is disabled', async () => {
+    await expect(service.assertCode(user.userId, '000000')).rejects.toThrow(UnauthorizedException);
+    user.twoFactorLockedUntil = new Date(Date.now() - 1000);
+
+    await service.disable(user.userId, totpCode(secret));
+
+    expect(user).toMatchObject({ twoFactorEnabled: false, twoFactorFailedAttempts: 0, twoFactorLockedUntil: null });
+  });
+});
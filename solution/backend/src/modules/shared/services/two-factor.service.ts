@@ -0,0 +1,251 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { User } from '../entities/user.entity';
+import { generateTotpSecret, totpUri, verifyTotp } from '../utils/totp.util';
+import { qrCodeDataUrl } from '../utils/qr-code.util';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+  /** SVG data URL of the otpauth URI for authenticator apps to scan */
+  qrCode: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Error code returned when a request needs a two-factor code, so clients can prompt for one
+ */
+export const TWO_FACTOR_REQUIRED = 'TWO_FACTOR_REQUIRED';
+
+/**
+ * Error code returned while two-factor codes are refused after too many invalid ones
+ */
+export const TWO_FACTOR_LOCKED = 'TWO_FACTOR_LOCKED';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Service for optional TOTP two-factor authentication: enrollment, verification and recovery codes
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+  private readonly issuer: string;
+  private readonly maxFailedAttempts: number;
+  private readonly lockoutMs: number;
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly configService: ConfigService,
+  ) {
+    this.issuer = this.configService.get<string>('TWO_FACTOR_ISSUER', 'MMOTION');
+    this.maxFailedAttempts = Number(this.configService.get('TWO_FACTOR_MAX_ATTEMPTS', 5));
+    this.lockoutMs = Number(this.configService.get('TWO_FACTOR_LOCKOUT_MINUTES', 15)) * 60 * 1000;
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.getUserWithSecrets(userId);
+    return {
+      enabled: user.twoFactorEnabled,
+      recoveryCodesRemaining: user.twoFactorEnabled ? (user.twoFactorRecoveryCodes || []).length : 0,
+    };
+  }
+
+  /**
+   * Start enrollment with a new secret; two-factor stays off until a code from it is confirmed
+   */
+  async enroll(userId: string): Promise<TwoFactorEnrollment> {
+    const user = await this.getUserWithSecrets(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+    if (!user.isPasswordSet) {
+      throw new BadRequestException('Set a password before enabling two-factor authentication');
+    }
+
+    const secret = generateTotpSecret();
+    await this.userRepository.update(userId, { twoFactorSecret: secret, twoFactorLastStep: null });
+
+    this.logger.log(`Two-factor enrollment started for user: ${userId}`);
+    const otpauthUri = totpUri(secret, user.username, this.issuer);
+    return { secret, otpauthUri, qrCode: qrCodeDataUrl(otpauthUri) };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   * @returns The recovery codes, shown to the user only once
+   */
+  async confirm(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUserWithSecrets(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('Two-factor enrollment has not been started');
+    }
+    this.assertNotLocked(user);
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null) {
+      return this.recordFailure(userId);
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userRepository.update(userId, {
+      twoFactorEnabled: true,
+      twoFactorLastStep: step,
+      twoFactorRecoveryCodes: recoveryCodes.map(hashCode),
+      twoFactorFailedAttempts: 0,
+      twoFactorLockedUntil: null,
+    });
+
+    this.logger.log(`Two-factor authentication enabled for user: ${userId}`);
+    return recoveryCodes;
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    await this.assertCode(userId, code);
+    await this.userRepository.update(userId, {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastStep: null,
+      twoFactorFailedAttempts: 0,
+      twoFactorLockedUntil: null,
+    });
+    this.logger.log(`Two-factor authentication disabled for user: ${userId}`);
+  }
+
+  /**
+   * Replace the recovery codes; the previous ones stop working
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUserWithSecrets(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    await this.assertCode(userId, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userRepository.update(userId, { twoFactorRecoveryCodes: recoveryCodes.map(hashCode) });
+    return recoveryCodes;
+  }
+
+  /**
+   * Require a valid TOTP or recovery code when the user has two-factor enabled; no-op otherwise.
+   * A recovery code is used up, and a TOTP code cannot be reused. After TWO_FACTOR_MAX_ATTEMPTS
+   * invalid codes, every code is refused for TWO_FACTOR_LOCKOUT_MINUTES.
+   */
+  async assertCode(userId: string, code?: string): Promise<void> {
+    const user = await this.getUserWithSecrets(userId);
+    if (!user.twoFactorEnabled) {
+      return;
+    }
+    if (!code) {
+      throw new UnauthorizedException({
+        statusCode: 401,
+        message: 'Two-factor code required',
+        error: TWO_FACTOR_REQUIRED,
+      });
+    }
+    this.assertNotLocked(user);
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step !== null && step > (user.twoFactorLastStep ?? -1)) {
+      await this.userRepository.update(userId, { twoFactorLastStep: step, twoFactorFailedAttempts: 0 });
+      return;
+    }
+
+    const hashed = hashCode(normalizeRecoveryCode(code));
+    const recoveryCodes = user.twoFactorRecoveryCodes || [];
+    if (recoveryCodes.includes(hashed)) {
+      await this.userRepository.update(userId, {
+        twoFactorRecoveryCodes: recoveryCodes.filter(existing => existing !== hashed),
+        twoFactorFailedAttempts: 0,
+      });
+      this.logger.log(`Recovery code used for user: ${userId}, ${recoveryCodes.length - 1} left`);
+      return;
+    }
+
+    return this.recordFailure(userId);
+  }
+
+  private assertNotLocked(user: User): void {
+    if (user.twoFactorLockedUntil && user.twoFactorLockedUntil > new Date()) {
+      throw this.lockedException(user.twoFactorLockedUntil);
+    }
+  }
+
+  /**
+   * Count an invalid code; the one that reaches the limit starts the lockout
+   */
+  private async recordFailure(userId: string): Promise<never> {
+    await this.userRepository.increment({ userId }, 'twoFactorFailedAttempts', 1);
+    const { twoFactorFailedAttempts } = await this.getUserWithSecrets(userId);
+    if (twoFactorFailedAttempts >= this.maxFailedAttempts) {
+      const lockedUntil = new Date(Date.now() + this.lockoutMs);
+      await this.userRepository.update(userId, { twoFactorFailedAttempts: 0, twoFactorLockedUntil: lockedUntil });
+      this.logger.warn(`Two-factor locked for user: ${userId} after ${twoFactorFailedAttempts} invalid codes`);
+      throw this.lockedException(lockedUntil);
+    }
+    throw new UnauthorizedException('Invalid two-factor code');
+  }
+
+  private lockedException(lockedUntil: Date): HttpException {
+    return new HttpException({
+      statusCode: HttpStatus.TOO_MANY_REQUESTS,
+      message: `Too many invalid two-factor codes, try again after ${lockedUntil.toISOString()}`,
+      error: TWO_FACTOR_LOCKED,
+    }, HttpStatus.TOO_MANY_REQUESTS);
+  }
+
+  private async getUserWithSecrets(userId: string): Promise<User> {
+    const user = await this.userRepository
+      .createQueryBuilder('user')
+      .addSelect([
+        'user.twoFactorSecret',
+        'user.twoFactorRecoveryCodes',
+        'user.twoFactorLastStep',
+        'user.twoFactorFailedAttempts',
+        'user.twoFactorLockedUntil',
+      ])
+      .where('user.userId = :userId', { userId })
+      .getOne();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+}
+
+function normalizeRecoveryCode(code: string): string {
+  const compact = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+  return `${compact.slice(0, 5)}-${compact.slice(5)}`;
+}
+
+function hashCode(code: string): string {
+  return createHash('sha256').update(code).digest('hex');
+}
@@ -10,6 +10,8 @@ import { Role } from './entities/role.entity';
 import { Permission } from './entities/permission.entity';
 import { UserRole } from './entities/user-role.entity';
 import { TrustedDevice } from './entities/trusted-device.entity';
+import { UserSession } from './entities/user-session.entity';
+import { PersonalAccessToken } from './entities/personal-access-token.entity';
 import { AccountService } from './services/account.service';
 import { AuthService } from './services/auth.service';
 import { RoleService } from './services/role.service';
@@ -19,6 +21,9 @@ import { UserService } from './services/user.service';
 import { SettingsService } from './services/settings.service';
 import { AutoRoleAssignmentService } from './services/auto-role-assignment.service';
 import { DeviceTrustService } from './services/device-trust.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { SessionService } from './services/session.service';
+import { PersonalAccessTokenService } from './services/personal-access-token.service';
 import { AccountController } from './controllers/account.controller';
 import { AuthController } from './controllers/auth.controller';
 import { RoleController } from './controllers/role.controller';
@@ -29,8 +34,11 @@ import { SettingsController } from './controllers/settings.controller';
 import { CurrentUserController } from './controllers/current-user.controller';
 import { CircuitBreakerController } from './controllers/circuit-breaker.controller';
 import { DeviceTrustController } from './controllers/device-trust.controller';
+import { PersonalAccessTokenController } from './controllers/personal-access-token.controller';
 import { DepositCalculationService } from './services/deposit-calculation.service';
 import { AccountValidationService } from './services/account-validation.service';
+import { TaxFeeCalculationService } from './services/tax-fee-calculation.service';
+import { TradingCalendarService } from './services/trading-calendar.service';
 import { CircuitBreakerService } from './services/circuit-breaker.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { PermissionGuard } from './guards/permission.guard';
@@ -39,6 +47,7 @@ import { Deposit } from '../portfolio/entities/deposit.entity';
 import { Portfolio } from '../portfolio/entities/portfolio.entity';
 import { PortfolioPermission } from '../portfolio/entities/portfolio-permission.entity';
 import { NotificationModule } from '../../notification/notification.module';
+import { LoggingModule } from '../logging/logging.module';
 
 /**
  * Shared module for common entities and services.
@@ -46,15 +55,16 @@ import { NotificationModule } from '../../notification/notification.module';
  */
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Account, User, Role, Permission, UserRole, Deposit, Portfolio, PortfolioPermission, TrustedDevice]),
+    TypeOrmModule.forFeature([Account, User, Role, Permission, UserRole, Deposit, Portfolio, PortfolioPermission, TrustedDevice, UserSession, PersonalAccessToken]),
     PassportModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'your-secret-key',
-      signOptions: { expiresIn: '24h' },
+      signOptions: { expiresIn: process.env.JWT_EXPIRES_IN || '15m' },
     }),
     HttpModule,
     EventEmitterModule.forRoot(),
     NotificationModule,
+    LoggingModule,
   ],
   controllers: [
     AccountController, 
@@ -66,7 +76,8 @@ import { NotificationModule } from '../../notification/notification.module';
     SettingsController,
     CurrentUserController,
     CircuitBreakerController,
-    DeviceTrustController
+    DeviceTrustController,
+    PersonalAccessTokenController
   ],
   providers: [
     AccountService, 
@@ -79,8 +90,13 @@ import { NotificationModule } from '../../notification/notification.module';
     AutoRoleAssignmentService,
     DepositCalculationService, 
     AccountValidationService,
+    TaxFeeCalculationService,
+    TradingCalendarService,
     CircuitBreakerService,
     DeviceTrustService,
+    TwoFactorService,
+    SessionService,
+    PersonalAccessTokenService,
     JwtStrategy,
     PermissionGuard,
     RoleGuard
@@ -96,8 +112,13 @@ import { NotificationModule } from '../../notification/notification.module';
     AutoRoleAssignmentService,
     DepositCalculationService, 
     AccountValidationService,
+    TaxFeeCalculationService,
+    TradingCalendarService,
     CircuitBreakerService,
     DeviceTrustService,
+    TwoFactorService,
+    SessionService,
+    PersonalAccessTokenService,
     PermissionGuard,
     RoleGuard
   ],
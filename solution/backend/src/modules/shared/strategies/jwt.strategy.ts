@@ -2,10 +2,14 @@ import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { AuthService } from '../services/auth.service';
+import { SessionService } from '../services/session.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private readonly authService: AuthService) {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionService: SessionService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -14,7 +18,12 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: any) {
-    const { userId } = payload;
+    const { userId, sessionId } = payload;
+
+    // Access tokens are only honoured while their session is active, so revoking a session takes effect immediately
+    if (!sessionId || !await this.sessionService.validateSession(sessionId, userId)) {
+      throw new UnauthorizedException('Session expired or revoked');
+    }
     
     try {
       const user = await this.authService.getUserById(userId);
@@ -27,6 +36,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         username: user.username,
         authState: user.authState,
         isPasswordSet: user.isPasswordSet,
+        sessionId,
       };
     } catch (error) {
       throw new UnauthorizedException('Invalid token');
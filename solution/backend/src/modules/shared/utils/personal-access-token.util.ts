@@ -0,0 +1,82 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Prefix of personal access tokens, which tells them apart from session JWTs
+ */
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'mmp_';
+
+/**
+ * Resources whose data belongs to a portfolio, so portfolio restrictions apply to them
+ */
+export const PORTFOLIO_SCOPED_RESOURCES = ['portfolios', 'trades'];
+
+export interface ScopedRequest {
+  params?: Record<string, any>;
+  query?: Record<string, any>;
+  body?: Record<string, any>;
+}
+
+export function generatePersonalAccessToken(): string {
+  return `${PERSONAL_ACCESS_TOKEN_PREFIX}${randomBytes(30).toString('base64url')}`;
+}
+
+export function isPersonalAccessToken(token: string | undefined | null): boolean {
+  return !!token && token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+}
+
+/**
+ * Personal access token sent as the request's bearer token, if any
+ */
+export function bearerPersonalAccessToken(request: { headers?: Record<string, any> }): string | undefined {
+  const [scheme, token] = String(request.headers?.authorization || '').split(' ');
+  return scheme === 'Bearer' && isPersonalAccessToken(token) ? token : undefined;
+}
+
+/**
+ * Resource part of a permission name, e.g. 'trades' for 'trades.create'
+ */
+export function permissionResource(permission: string): string {
+  return permission.split('.')[0];
+}
+
+export function missingScopes(scopes: string[], requiredPermissions: string[]): string[] {
+  return requiredPermissions.filter(permission => !scopes.includes(permission));
+}
+
+/**
+ * Portfolio a request acts on, from a portfolioId route parameter, query parameter or body field.
+ * On portfolio routes the :id parameter is the portfolio itself.
+ */
+export function requestPortfolioId(request: ScopedRequest, requiredPermissions: string[]): string | undefined {
+  const { params = {}, query = {}, body } = request;
+  const portfolioId = params.portfolioId ?? query.portfolioId ?? body?.portfolioId;
+  if (portfolioId) {
+    return String(portfolioId);
+  }
+  if (requiredPermissions.some(permission => permissionResource(permission) === 'portfolios') && params.id) {
+    return String(params.id);
+  }
+  return undefined;
+}
+
+/**
+ * Check a portfolio-restricted token against the portfolio a request acts on.
+ * Requests for portfolio data that do not name a portfolio are refused, since they could span several.
+ */
+export function isPortfolioAllowed(
+  portfolioIds: string[] | null,
+  request: ScopedRequest,
+  requiredPermissions: string[],
+): boolean {
+  if (!portfolioIds) {
+    return true;
+  }
+  const portfolioScoped = requiredPermissions.some(permission =>
+    PORTFOLIO_SCOPED_RESOURCES.includes(permissionResource(permission)),
+  );
+  if (!portfolioScoped) {
+    return true;
+  }
+  const portfolioId = requestPortfolioId(request, requiredPermissions);
+  return !!portfolioId && portfolioIds.includes(portfolioId);
+}
@@ -0,0 +1,48 @@
+import { encodeQr, qrCodeDataUrl } from './qr-code.util';
+
+describe('qr-code.util', () => {
+  // Level M format strings by mask, most significant bit first (ISO/IEC 18004 table C.1)
+  const FORMAT_M = [
+    '101010000010010', '101000100100101', '101111001111100', '101101101001011',
+    '100010111111001', '100000011001110', '100111110010111', '100101010100000',
+  ];
+
+  const readFormat = (modules: boolean[][]): string => {
+    const bits: number[] = [];
+    for (let i = 0; i <= 5; i++) bits.push(Number(modules[i][8]));
+    bits.push(Number(modules[7][8]), Number(modules[8][8]), Number(modules[8][7]));
+    for (let i = 9; i < 15; i++) bits.push(Number(modules[8][14 - i]));
+    return bits.reverse().join('');
+  };
+
+  it('should pick the smallest version that fits', () => {
+    expect(encodeQr('hello').version).toBe(1);
+    expect(encodeQr('hello').size).toBe(21);
+
+    const uri = 'otpauth://totp/MMOTION%3Ajohn_doe?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=MMOTION&algorithm=SHA1&digits=6&period=30';
+    const qr = encodeQr(uri);
+    expect(qr.version).toBe(7);
+    expect(qr.size).toBe(45);
+  });
+
+  it('should draw finder patterns and a valid level M format string', () => {
+    const { modules, size } = encodeQr('otpauth://totp/MMOTION%3Ajohn_doe?secret=ABC');
+
+    expect(modules[0].slice(0, 7)).toEqual([true, true, true, true, true, true, true]);
+    expect(modules[1].slice(0, 7)).toEqual([true, false, false, false, false, false, true]);
+    expect(modules[3].slice(0, 7)).toEqual([true, false, true, true, true, false, true]);
+    expect(modules[0].slice(size - 7)).toEqual([true, true, true, true, true, true, true]);
+    expect(modules[size - 8][8]).toBe(true);
+    expect(FORMAT_M).toContain(readFormat(modules));
+  });
+
+  it('should reject text beyond version 10', () => {
+    expect(() => encodeQr('x'.repeat(214))).toThrow('Text too long');
+  });
+
+  it('should render an SVG data URL', () => {
+    const url = qrCodeDataUrl('hello');
+    expect(url.startsWith('data:image/svg+xml;base64,')).toBe(true);
+    expect(Buffer.from(url.split(',')[1], 'base64').toString()).toContain('viewBox="0 0 29 29"');
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * QR code encoder for short texts such as otpauth:// URIs.
+ * Byte mode, error correction level M, versions 1-10 (up to 213 bytes), rendered as SVG.
+ */
+
+interface VersionInfo {
+  /** Error correction codewords per block */
+  ecPerBlock: number;
+  /** Data codewords of each block */
+  blocks: number[];
+  alignment: number[];
+}
+
+const VERSIONS: VersionInfo[] = [
+  { ecPerBlock: 10, blocks: [16], alignment: [] },
+  { ecPerBlock: 16, blocks: [28], alignment: [6, 18] },
+  { ecPerBlock: 26, blocks: [44], alignment: [6, 22] },
+  { ecPerBlock: 18, blocks: [32, 32], alignment: [6, 26] },
+  { ecPerBlock: 24, blocks: [43, 43], alignment: [6, 30] },
+  { ecPerBlock: 16, blocks: [27, 27, 27, 27], alignment: [6, 34] },
+  { ecPerBlock: 18, blocks: [31, 31, 31, 31], alignment: [6, 22, 38] },
+  { ecPerBlock: 22, blocks: [38, 38, 39, 39], alignment: [6, 24, 42] },
+  { ecPerBlock: 22, blocks: [36, 36, 36, 37, 37], alignment: [6, 26, 46] },
+  { ecPerBlock: 26, blocks: [43, 43, 43, 43, 44], alignment: [6, 28, 50] },
+];
+
+/** Format bits of error correction level M */
+const EC_LEVEL_M = 0;
+
+export interface QrCode {
+  version: number;
+  size: number;
+  /** modules[y][x], true for dark */
+  modules: boolean[][];
+}
+
+export function encodeQr(text: string): QrCode {
+  const bytes = Buffer.from(text, 'utf8');
+  const versionIndex = VERSIONS.findIndex((info, index) => capacityBits(info) >= 4 + countBits(index + 1) + bytes.length * 8);
+  if (versionIndex === -1) {
+    throw new Error(`Text too long for a QR code: ${bytes.length} bytes`);
+  }
+
+  const version = versionIndex + 1;
+  const info = VERSIONS[versionIndex];
+  const codewords = interleave(info, dataCodewords(bytes, version, capacityBits(info) / 8));
+  const matrix = new Matrix(version, info);
+  matrix.drawCodewords(codewords);
+
+  let best: { mask: number; penalty: number } | null = null;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penalty();
+    if (!best || penalty < best.penalty) {
+      best = { mask, penalty };
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(best.mask);
+  matrix.drawFormatBits(best.mask);
+
+  return { version, size: matrix.size, modules: matrix.modules };
+}
+
+/**
+ * SVG image of a QR code with the standard 4-module quiet zone
+ */
+export function qrCodeSvg(text: string, quietZone = 4): string {
+  const qr = encodeQr(text);
+  const dimension = qr.size + quietZone * 2;
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) {
+      path.push(`M${x + quietZone},${y + quietZone}h1v1h-1z`);
+    }
+  }));
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">`
+    + `<rect width="100%" height="100%" fill="#ffffff"/><path d="${path.join('')}" fill="#000000"/></svg>`;
+}
+
+export function qrCodeDataUrl(text: string): string {
+  return `data:image/svg+xml;base64,${Buffer.from(qrCodeSvg(text)).toString('base64')}`;
+}
+
+function capacityBits(info: VersionInfo): number {
+  return info.blocks.reduce((total, count) => total + count, 0) * 8;
+}
+
+function countBits(version: number): number {
+  return version < 10 ? 8 : 16;
+}
+
+function dataCodewords(bytes: Buffer, version: number, capacity: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, countBits(version));
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const result: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    result.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; result.length < capacity; pad ^= 0xec ^ 0x11) {
+    result.push(pad);
+  }
+  return result;
+}
+
+function interleave(info: VersionInfo, data: number[]): number[] {
+  const divisor = reedSolomonDivisor(info.ecPerBlock);
+  let offset = 0;
+  const blocks = info.blocks.map(length => {
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    return { data: block, ec: reedSolomonRemainder(block, divisor) };
+  });
+
+  const result: number[] = [];
+  const longest = Math.max(...info.blocks);
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach(block => {
+      if (i < block.data.length) {
+        result.push(block.data[i]);
+      }
+    });
+  }
+  for (let i = 0; i < info.ecPerBlock; i++) {
+    blocks.forEach(block => result.push(block.ec[i]));
+  }
+  return result;
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array(degree - 1).fill(0).concat([1]);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  data.forEach(byte => {
+    const factor = byte ^ result.shift();
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+}
+
+class Matrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly version: number, info: VersionInfo) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = info.alignment;
+    positions.forEach((y, i) => positions.forEach((x, j) => {
+      const overlapsFinder = (i === 0 && j === 0)
+        || (i === 0 && j === positions.length - 1)
+        || (i === positions.length - 1 && j === 0);
+      if (!overlapsFinder) {
+        this.drawAlignment(x, y);
+      }
+    }));
+
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (EC_LEVEL_M << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    for (let i = 0; i <= 5; i++) {
+      this.setFunction(8, i, bit(i));
+    }
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunction(14 - i, 8, bit(i));
+    }
+
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(this.size - 1 - i, 8, bit(i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, this.size - 15 + i, bit(i));
+    }
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let index = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && index < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) !== 0;
+            index++;
+          }
+        }
+      }
+    }
+  }
+
+  /** XOR the data modules with a mask pattern; applying it twice restores them */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskBit(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty for mask selection from runs, 2x2 blocks and dark/light balance; any mask scans, this only picks a cleaner one
+   */
+  penalty(): number {
+    let result = 0;
+    const runPenalty = (line: boolean[]) => {
+      let run = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) {
+            result += run - 2;
+          }
+          run = 1;
+        }
+      }
+    };
+
+    let dark = 0;
+    for (let y = 0; y < this.size; y++) {
+      runPenalty(this.modules[y]);
+      runPenalty(this.modules.map(row => row[y]));
+      for (let x = 0; x < this.size; x++) {
+        dark += this.modules[y][x] ? 1 : 0;
+        if (x + 1 < this.size && y + 1 < this.size) {
+          const color = this.modules[y][x];
+          if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+            result += 3;
+          }
+        }
+      }
+    }
+
+    const total = this.size * this.size;
+    result += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+    return result;
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) {
+      return;
+    }
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  private drawFinder(centerX: number, centerY: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = centerX + dx;
+        const y = centerY + dy;
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignment(centerX: number, centerY: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(centerX + dx, centerY + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
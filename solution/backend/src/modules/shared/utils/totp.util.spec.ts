@@ -0,0 +1,37 @@
+import { base32Decode, base32Encode, generateTotpSecret, totpCode, totpStep, totpUri, verifyTotp } from './totp.util';
+
+describe('totp.util', () => {
+  // RFC 6238 appendix B seed for SHA1
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should round-trip base32', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(totpCode(secret, totpStep(59_000))).toBe('287082');
+    expect(totpCode(secret, totpStep(1_111_111_109_000))).toBe('081804');
+    expect(totpCode(secret, totpStep(1_234_567_890_000))).toBe('005924');
+    expect(totpCode(secret, totpStep(20_000_000_000_000))).toBe('353130');
+  });
+
+  it('should accept codes within the drift window only', () => {
+    const time = 1_234_567_890_000;
+    const previous = totpCode(secret, totpStep(time) - 1);
+    const stale = totpCode(secret, totpStep(time) - 2);
+
+    expect(verifyTotp(secret, '005924', 1, time)).toBe(totpStep(time));
+    expect(verifyTotp(secret, previous, 1, time)).toBe(totpStep(time) - 1);
+    expect(verifyTotp(secret, stale, 1, time)).toBeNull();
+    expect(verifyTotp(secret, '12345', 1, time)).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = totpUri('ABC', 'john_doe', 'MMOTION');
+    expect(uri.startsWith('otpauth://totp/MMOTION%3Ajohn_doe?')).toBe(true);
+    expect(uri).toContain('secret=ABC');
+    expect(uri).toContain('issuer=MMOTION');
+  });
+});
@@ -0,0 +1,88 @@
+import { NationConfig } from '../../../config/nation-config.interface';
+import {
+  resolveTradingCalendar,
+  isTradingDay,
+  getSessionsForDate,
+  getCloseTime,
+  isWithinSession,
+  isWithinTradingHours,
+  nextTradingDay,
+  rollForwardToTradingDay,
+} from './trading-calendar.util';
+
+describe('trading-calendar.util', () => {
+  const weekdays = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+  const nation = {
+    tradingHours: {
+      timezone: 'Asia/Ho_Chi_Minh',
+      sessions: [
+        { name: 'Morning', start: '09:00', end: '11:30', days: weekdays },
+        { name: 'Afternoon', start: '13:00', end: '15:00', days: weekdays },
+      ],
+    },
+    tradingCalendar: {
+      holidays: [
+        { date: '2025-04-30', name: 'Reunification Day' },
+        { date: '2025-05-01', name: 'Labour Day' },
+      ],
+      halfDays: [{ date: '2025-12-31', closeTime: '11:00' }],
+      markets: {
+        HOSE: {
+          sessions: [
+            { name: 'Morning', start: '09:00', end: '11:30', days: weekdays },
+            { name: 'Afternoon', start: '13:00', end: '14:45', days: weekdays },
+          ],
+          holidays: [{ date: '2025-06-02', name: 'System upgrade' }],
+        },
+      },
+    },
+  } as unknown as NationConfig;
+  const calendar = resolveTradingCalendar(nation);
+
+  it('should skip weekends and holidays', () => {
+    expect(isTradingDay(calendar, '2025-04-29')).toBe(true);
+    expect(isTradingDay(calendar, '2025-04-30')).toBe(false);
+    expect(isTradingDay(calendar, '2025-05-03')).toBe(false);
+  });
+
+  it('should replace sessions and add holidays for a configured market', () => {
+    const hose = resolveTradingCalendar(nation, 'hose');
+    expect(getCloseTime(hose, '2025-06-03')).toBe('14:45');
+    expect(isTradingDay(hose, '2025-06-02')).toBe(false);
+    expect(isTradingDay(hose, '2025-04-30')).toBe(false);
+    expect(getCloseTime(resolveTradingCalendar(nation, 'UPCOM'), '2025-06-03')).toBe('15:00');
+  });
+
+  it('should cut sessions at the close time of a half day', () => {
+    expect(getSessionsForDate(calendar, '2025-12-31')).toEqual([
+      { name: 'Morning', start: '09:00', end: '11:00', days: weekdays },
+    ]);
+    expect(getCloseTime(calendar, '2025-12-31')).toBe('11:00');
+    expect(getCloseTime(calendar, '2025-12-28')).toBeNull();
+  });
+
+  it('should tell whether an instant is inside a session in the market timezone', () => {
+    // 10:00 and 12:00 in Ho Chi Minh City
+    expect(isWithinSession(calendar, new Date('2025-03-10T03:00:00Z'))).toBe(true);
+    expect(isWithinSession(calendar, new Date('2025-03-10T05:00:00Z'))).toBe(false);
+    // 15:30 falls in the grace period after the close
+    expect(isWithinSession(calendar, new Date('2025-03-10T08:30:00Z'))).toBe(false);
+    expect(isWithinSession(calendar, new Date('2025-03-10T08:30:00Z'), 60)).toBe(true);
+    // Saturday
+    expect(isWithinSession(calendar, new Date('2025-03-08T03:00:00Z'), 60)).toBe(false);
+  });
+
+  it('should count the lunch break and the grace period as trading hours', () => {
+    expect(isWithinTradingHours(calendar, new Date('2025-03-10T05:00:00Z'))).toBe(true);
+    expect(isWithinTradingHours(calendar, new Date('2025-03-10T01:30:00Z'))).toBe(false);
+    expect(isWithinTradingHours(calendar, new Date('2025-03-10T11:00:00Z'), 240)).toBe(true);
+    expect(isWithinTradingHours(calendar, new Date('2025-03-10T12:30:00Z'), 240)).toBe(false);
+    expect(isWithinTradingHours(calendar, new Date('2025-04-30T03:00:00Z'), 240)).toBe(false);
+  });
+
+  it('should roll dates forward to the next trading day', () => {
+    expect(rollForwardToTradingDay(calendar, '2025-04-29')).toBe('2025-04-29');
+    expect(rollForwardToTradingDay(calendar, '2025-04-30')).toBe('2025-05-02');
+    expect(nextTradingDay(calendar, '2025-05-02')).toBe('2025-05-05');
+  });
+});
@@ -0,0 +1,130 @@
+import { MarketHalfDay, NationConfig, TradingSession } from '../../../config/nation-config.interface';
+import { addDays, toLocalDateTime } from '../../portfolio/utils/dealing-calendar.util';
+
+/**
+ * Trading calendar of one market; dates are YYYY-MM-DD strings and times HH:mm in the market's timezone
+ */
+export interface ResolvedTradingCalendar {
+  timezone: string;
+  sessions: TradingSession[];
+  holidays: Map<string, string>;
+  halfDays: Map<string, MarketHalfDay>;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+/** Longest search for the next trading day; covers the longest lunar new year closure */
+const MAX_SEARCH_DAYS = 30;
+
+function weekdayName(date: string): string {
+  return WEEKDAYS[new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Calendar of a nation, or of one of its markets when the nation configures it.
+ * A market replaces the nation's sessions and adds its holidays and half days to the nation-wide ones.
+ */
+export function resolveTradingCalendar(nation: NationConfig, marketCode?: string): ResolvedTradingCalendar {
+  const calendar = nation.tradingCalendar || {};
+  const market = marketCode ? calendar.markets?.[marketCode.toUpperCase()] : undefined;
+  const holidays = [...(calendar.holidays || []), ...(market?.holidays || [])];
+  const halfDays = [...(calendar.halfDays || []), ...(market?.halfDays || [])];
+
+  return {
+    timezone: nation.tradingHours.timezone,
+    sessions: market?.sessions || calendar.sessions || nation.tradingHours.sessions,
+    holidays: new Map(holidays.map(holiday => [holiday.date, holiday.name])),
+    halfDays: new Map(halfDays.map(halfDay => [halfDay.date, halfDay])),
+  };
+}
+
+export function isTradingDay(calendar: ResolvedTradingCalendar, date: string): boolean {
+  const day = date.slice(0, 10);
+  if (calendar.holidays.has(day)) {
+    return false;
+  }
+  const name = weekdayName(day);
+  return calendar.sessions.some(session => session.days.includes(name));
+}
+
+/**
+ * Sessions held on a date, cut at the close time of a half day; empty on non-trading days
+ */
+export function getSessionsForDate(calendar: ResolvedTradingCalendar, date: string): TradingSession[] {
+  const day = date.slice(0, 10);
+  if (!isTradingDay(calendar, day)) {
+    return [];
+  }
+  const name = weekdayName(day);
+  const closeTime = calendar.halfDays.get(day)?.closeTime;
+
+  return calendar.sessions
+    .filter(session => session.days.includes(name))
+    .filter(session => !closeTime || session.start < closeTime)
+    .map(session => (closeTime && session.end > closeTime ? { ...session, end: closeTime } : session));
+}
+
+/**
+ * Close of the last session held on a date, or null on non-trading days
+ */
+export function getCloseTime(calendar: ResolvedTradingCalendar, date: string): string | null {
+  const ends = getSessionsForDate(calendar, date).map(session => session.end).sort();
+  return ends.length > 0 ? ends[ends.length - 1] : null;
+}
+
+/**
+ * Whether an instant falls inside a session, optionally extended by a number of minutes after each session closes
+ */
+export function isWithinSession(calendar: ResolvedTradingCalendar, instant: Date, graceMinutes = 0): boolean {
+  const { date, time } = toLocalDateTime(instant, calendar.timezone);
+  return getSessionsForDate(calendar, date).some(
+    session => time >= session.start && time <= addMinutes(session.end, graceMinutes),
+  );
+}
+
+/**
+ * Whether an instant falls between the first open and the last close of its day (lunch breaks included),
+ * optionally extended by a number of minutes after the close
+ */
+export function isWithinTradingHours(calendar: ResolvedTradingCalendar, instant: Date, graceMinutes = 0): boolean {
+  const { date, time } = toLocalDateTime(instant, calendar.timezone);
+  const sessions = getSessionsForDate(calendar, date);
+  if (sessions.length === 0) {
+    return false;
+  }
+  const open = sessions.map(session => session.start).sort()[0];
+  const close = getCloseTime(calendar, date) as string;
+  return time >= open && time <= addMinutes(close, graceMinutes);
+}
+
+/**
+ * First trading day strictly after a date
+ */
+export function nextTradingDay(calendar: ResolvedTradingCalendar, date: string): string {
+  return rollForwardToTradingDay(calendar, addDays(date, 1));
+}
+
+/**
+ * The date itself when it is a trading day, otherwise the next trading day
+ */
+export function rollForwardToTradingDay(calendar: ResolvedTradingCalendar, date: string): string {
+  let day = date.slice(0, 10);
+  for (let i = 0; i <= MAX_SEARCH_DAYS; i++) {
+    if (isTradingDay(calendar, day)) {
+      return day;
+    }
+    day = addDays(day, 1);
+  }
+  throw new Error(`No trading day within ${MAX_SEARCH_DAYS} days of ${date}`);
+}
+
+/**
+ * HH:mm shifted by a number of minutes, capped at 23:59 so it stays on the same day
+ */
+function addMinutes(time: string, minutes: number): string {
+  if (minutes <= 0) {
+    return time;
+  }
+  const [hours, mins] = time.split(':').map(Number);
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,121 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { CorporateActionService } from '../services/corporate-action.service';
+import { CorporateAction } from '../entities/corporate-action.entity';
+import {
+  CreateCorporateActionDto,
+  CorporateActionQueryDto,
+  CorporateActionApplyResult,
+} from '../dto/corporate-action.dto';
+
+@ApiTags('Corporate Actions')
+@Controller('api/v1/corporate-actions')
+export class CorporateActionController {
+  constructor(private readonly corporateActionService: CorporateActionService) {}
+
+  /**
+   * Get corporate actions
+   * @param query Asset and status filters
+   * @returns Corporate actions, latest ex-date first
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get corporate actions' })
+  @ApiResponse({ status: 200, description: 'Corporate actions retrieved successfully', type: [CorporateAction] })
+  async getCorporateActions(@Query() query: CorporateActionQueryDto): Promise<CorporateAction[]> {
+    return this.corporateActionService.getCorporateActions(query);
+  }
+
+  /**
+   * Get a corporate action with its portfolio adjustments
+   * @param id Corporate action ID
+   * @returns Corporate action
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a corporate action with its portfolio adjustments' })
+  @ApiParam({ name: 'id', description: 'Corporate action ID' })
+  @ApiResponse({ status: 200, description: 'Corporate action retrieved successfully', type: CorporateAction })
+  @ApiResponse({ status: 404, description: 'Corporate action not found' })
+  async getCorporateAction(@Param('id', ParseUUIDPipe) id: string): Promise<CorporateAction> {
+    return this.corporateActionService.getCorporateAction(id);
+  }
+
+  /**
+   * Record a corporate action; applied immediately when the ex-date has been reached
+   * @param createDto Corporate action data
+   * @returns Recorded corporate action
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Record a corporate action (applied immediately when the ex-date has been reached)' })
+  @ApiBody({ type: CreateCorporateActionDto })
+  @ApiResponse({ status: 201, description: 'Corporate action recorded successfully', type: CorporateAction })
+  @ApiResponse({ status: 400, description: 'Invalid corporate action data' })
+  @ApiResponse({ status: 404, description: 'Global asset not found' })
+  async createCorporateAction(@Body() createDto: CreateCorporateActionDto): Promise<CorporateAction> {
+    return this.corporateActionService.createCorporateAction(createDto);
+  }
+
+  /**
+   * Apply a pending or reversed corporate action to the affected portfolios
+   * @param id Corporate action ID
+   * @returns Summary of the adjustments
+   */
+  @Post(':id/apply')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Apply a corporate action to the open lots of every affected portfolio' })
+  @ApiParam({ name: 'id', description: 'Corporate action ID' })
+  @ApiResponse({ status: 200, description: 'Corporate action applied successfully' })
+  @ApiResponse({ status: 400, description: 'Already applied or ex-date not reached' })
+  @ApiResponse({ status: 404, description: 'Corporate action not found' })
+  async applyCorporateAction(@Param('id', ParseUUIDPipe) id: string): Promise<CorporateActionApplyResult> {
+    return this.corporateActionService.applyCorporateAction(id);
+  }
+
+  /**
+   * Reverse an applied corporate action
+   * @param id Corporate action ID
+   * @returns Reversed corporate action
+   */
+  @Post(':id/reverse')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reverse an applied corporate action' })
+  @ApiParam({ name: 'id', description: 'Corporate action ID' })
+  @ApiResponse({ status: 200, description: 'Corporate action reversed successfully', type: CorporateAction })
+  @ApiResponse({ status: 400, description: 'Not applied, or a later action of the asset is still applied' })
+  @ApiResponse({ status: 404, description: 'Corporate action not found' })
+  async reverseCorporateAction(@Param('id', ParseUUIDPipe) id: string): Promise<CorporateAction> {
+    return this.corporateActionService.reverseCorporateAction(id);
+  }
+
+  /**
+   * Delete a corporate action that is not applied
+   * @param id Corporate action ID
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a corporate action that is not applied' })
+  @ApiParam({ name: 'id', description: 'Corporate action ID' })
+  @ApiResponse({ status: 204, description: 'Corporate action deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Corporate action is applied' })
+  @ApiResponse({ status: 404, description: 'Corporate action not found' })
+  async deleteCorporateAction(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.corporateActionService.deleteCorporateAction(id);
+  }
+}
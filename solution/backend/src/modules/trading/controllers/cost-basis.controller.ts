@@ -0,0 +1,140 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+  ParseUUIDPipe,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { CostBasisService } from '../services/cost-basis.service';
+import { PortfolioService } from '../../portfolio/services/portfolio.service';
+import { CostBasisMethod } from '../../portfolio/enums/cost-basis-method.enum';
+import {
+  ChangeCostBasisMethodDto,
+  CostBasisPreviewResponse,
+  OpenLotResponse,
+} from '../dto/cost-basis.dto';
+
+/**
+ * Controller for the cost basis method of a portfolio.
+ */
+@ApiTags('Cost Basis')
+@Controller('api/v1/portfolios/:id/cost-basis')
+export class CostBasisController {
+  constructor(
+    private readonly costBasisService: CostBasisService,
+    private readonly portfolioService: PortfolioService,
+  ) {}
+
+  /**
+   * Get the cost basis method of a portfolio
+   * @param id Portfolio ID
+   * @returns Current method
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the cost basis method of a portfolio' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiResponse({ status: 200, description: 'Cost basis method retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  async getMethod(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<{ portfolioId: string; method: CostBasisMethod }> {
+    await this.assertAccess(id, accountId, 'view');
+    return { portfolioId: id, method: await this.costBasisService.getMethod(id) };
+  }
+
+  /**
+   * Preview the realized P&L change of switching method
+   * @param id Portfolio ID
+   * @param dto Method to preview
+   * @returns Before/after realized P&L
+   */
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Preview the realized P&L change of switching cost basis method' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiBody({ type: ChangeCostBasisMethodDto })
+  @ApiResponse({ status: 200, description: 'Preview generated successfully' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  async previewMethodChange(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Body() dto: ChangeCostBasisMethodDto,
+  ): Promise<CostBasisPreviewResponse> {
+    await this.assertAccess(id, accountId, 'view');
+    return this.costBasisService.previewMethodChange(id, dto.method);
+  }
+
+  /**
+   * Switch the cost basis method and re-run matching for the whole portfolio
+   * @param id Portfolio ID
+   * @param dto New method
+   * @returns Before/after realized P&L
+   */
+  @Put()
+  @ApiOperation({ summary: 'Switch the cost basis method and re-run matching for the whole portfolio' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiBody({ type: ChangeCostBasisMethodDto })
+  @ApiResponse({ status: 200, description: 'Cost basis method changed successfully' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  @ApiResponse({ status: 404, description: 'Portfolio not found' })
+  async changeMethod(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Body() dto: ChangeCostBasisMethodDto,
+  ): Promise<CostBasisPreviewResponse> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.costBasisService.changeMethod(id, dto.method);
+  }
+
+  /**
+   * Get the open buy lots of an asset
+   * @param id Portfolio ID
+   * @param assetId Asset ID
+   * @returns Open lots, oldest first
+   */
+  @Get('open-lots')
+  @ApiOperation({ summary: 'Get the open buy lots of an asset for specific-lot selection' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiQuery({ name: 'assetId', required: true, description: 'Asset ID' })
+  @ApiResponse({ status: 200, description: 'Open lots retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  async getOpenLots(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Query('assetId', ParseUUIDPipe) assetId: string,
+  ): Promise<OpenLotResponse[]> {
+    await this.assertAccess(id, accountId, 'view');
+    return this.costBasisService.getOpenLots(id, assetId);
+  }
+
+  private async assertAccess(portfolioId: string, accountId: string, action: 'view' | 'update'): Promise<void> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    const hasAccess = await this.portfolioService.checkPortfolioAccess(portfolioId, accountId, action);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this portfolio');
+    }
+  }
+}
@@ -0,0 +1,262 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+  ParseUUIDPipe,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { RecurringTransactionService } from '../services/recurring-transaction.service';
+import { PortfolioService } from '../../portfolio/services/portfolio.service';
+import { RecurringTransaction } from '../entities/recurring-transaction.entity';
+import { RecurringTransactionOccurrence } from '../entities/recurring-transaction-occurrence.entity';
+import {
+  CreateRecurringTransactionDto,
+  UpdateRecurringTransactionDto,
+  UpdateRecurringOccurrenceDto,
+  RecurringOccurrenceQueryDto,
+  RecurringGenerationResult,
+} from '../dto/recurring-transaction.dto';
+
+/**
+ * Controller for the recurring transactions of a portfolio and the occurrences they generate.
+ */
+@ApiTags('Recurring Transactions')
+@Controller('api/v1/portfolios/:id/recurring-transactions')
+export class RecurringTransactionController {
+  constructor(
+    private readonly recurringTransactionService: RecurringTransactionService,
+    private readonly portfolioService: PortfolioService,
+  ) {}
+
+  /**
+   * Get the recurring transactions of a portfolio
+   * @param id Portfolio ID
+   * @returns Plans, active first
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the recurring transactions of a portfolio' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiResponse({ status: 200, description: 'Recurring transactions retrieved successfully', type: [RecurringTransaction] })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  async getPlans(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<RecurringTransaction[]> {
+    await this.assertAccess(id, accountId, 'view');
+    return this.recurringTransactionService.getPlans(id);
+  }
+
+  /**
+   * Create a recurring transaction; occurrences already due are generated right away
+   * @param id Portfolio ID
+   * @param createDto Plan data
+   * @returns Created plan
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a recurring trade or cash flow' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiBody({ type: CreateRecurringTransactionDto })
+  @ApiResponse({ status: 201, description: 'Recurring transaction created successfully', type: RecurringTransaction })
+  @ApiResponse({ status: 400, description: 'Invalid recurring transaction data' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  async createPlan(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Body() createDto: CreateRecurringTransactionDto,
+  ): Promise<RecurringTransaction> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.recurringTransactionService.createPlan(id, createDto);
+  }
+
+  /**
+   * Generate the due occurrences of the portfolio's plans now instead of waiting for the scheduler
+   * @param id Portfolio ID
+   * @returns Number of occurrences created
+   */
+  @Post('generate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Generate the due occurrences of the portfolio plans' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiResponse({ status: 200, description: 'Occurrences generated successfully' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  async generate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+  ): Promise<RecurringGenerationResult> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.recurringTransactionService.generateForPortfolio(id);
+  }
+
+  /**
+   * Get the generated occurrences of a portfolio
+   * @param id Portfolio ID
+   * @param query Status filter
+   * @returns Occurrences, latest first
+   */
+  @Get('occurrences')
+  @ApiOperation({ summary: 'Get the generated occurrences of a portfolio' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiResponse({ status: 200, description: 'Occurrences retrieved successfully', type: [RecurringTransactionOccurrence] })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  async getOccurrences(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('accountId') accountId: string,
+    @Query() query: RecurringOccurrenceQueryDto,
+  ): Promise<RecurringTransactionOccurrence[]> {
+    await this.assertAccess(id, accountId, 'view');
+    return this.recurringTransactionService.getOccurrences(id, query.status);
+  }
+
+  /**
+   * Edit the date, quantity, price or amount of a pending occurrence
+   * @param id Portfolio ID
+   * @param occurrenceId Occurrence ID
+   * @param updateDto Changes
+   * @returns Updated occurrence
+   */
+  @Put('occurrences/:occurrenceId')
+  @ApiOperation({ summary: 'Edit a pending occurrence' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'occurrenceId', description: 'Occurrence ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiBody({ type: UpdateRecurringOccurrenceDto })
+  @ApiResponse({ status: 200, description: 'Occurrence updated successfully', type: RecurringTransactionOccurrence })
+  @ApiResponse({ status: 400, description: 'Occurrence is not pending' })
+  @ApiResponse({ status: 404, description: 'Occurrence not found' })
+  async updateOccurrence(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('occurrenceId', ParseUUIDPipe) occurrenceId: string,
+    @Query('accountId') accountId: string,
+    @Body() updateDto: UpdateRecurringOccurrenceDto,
+  ): Promise<RecurringTransactionOccurrence> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.recurringTransactionService.updateOccurrence(id, occurrenceId, updateDto, { actorAccountId: accountId });
+  }
+
+  /**
+   * Confirm a pending occurrence, creating the trade or completing the cash flow
+   * @param id Portfolio ID
+   * @param occurrenceId Occurrence ID
+   * @returns Confirmed occurrence
+   */
+  @Post('occurrences/:occurrenceId/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm a pending occurrence' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'occurrenceId', description: 'Occurrence ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiResponse({ status: 200, description: 'Occurrence confirmed successfully', type: RecurringTransactionOccurrence })
+  @ApiResponse({ status: 400, description: 'Occurrence is not pending or has no price' })
+  @ApiResponse({ status: 404, description: 'Occurrence not found' })
+  async confirmOccurrence(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('occurrenceId', ParseUUIDPipe) occurrenceId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<RecurringTransactionOccurrence> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.recurringTransactionService.confirmOccurrence(id, occurrenceId, { actorAccountId: accountId });
+  }
+
+  /**
+   * Skip a pending occurrence
+   * @param id Portfolio ID
+   * @param occurrenceId Occurrence ID
+   * @returns Skipped occurrence
+   */
+  @Post('occurrences/:occurrenceId/skip')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Skip a pending occurrence' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'occurrenceId', description: 'Occurrence ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiResponse({ status: 200, description: 'Occurrence skipped successfully', type: RecurringTransactionOccurrence })
+  @ApiResponse({ status: 400, description: 'Occurrence is not pending' })
+  @ApiResponse({ status: 404, description: 'Occurrence not found' })
+  async skipOccurrence(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('occurrenceId', ParseUUIDPipe) occurrenceId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<RecurringTransactionOccurrence> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.recurringTransactionService.skipOccurrence(id, occurrenceId, { actorAccountId: accountId });
+  }
+
+  /**
+   * Update a recurring transaction
+   * @param id Portfolio ID
+   * @param planId Recurring transaction ID
+   * @param updateDto Changes
+   * @returns Updated plan
+   */
+  @Put(':planId')
+  @ApiOperation({ summary: 'Update, pause or resume a recurring transaction' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'planId', description: 'Recurring transaction ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiBody({ type: UpdateRecurringTransactionDto })
+  @ApiResponse({ status: 200, description: 'Recurring transaction updated successfully', type: RecurringTransaction })
+  @ApiResponse({ status: 404, description: 'Recurring transaction not found' })
+  async updatePlan(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('planId', ParseUUIDPipe) planId: string,
+    @Query('accountId') accountId: string,
+    @Body() updateDto: UpdateRecurringTransactionDto,
+  ): Promise<RecurringTransaction> {
+    await this.assertAccess(id, accountId, 'update');
+    return this.recurringTransactionService.updatePlan(id, planId, updateDto);
+  }
+
+  /**
+   * Delete a recurring transaction and its pending occurrences
+   * @param id Portfolio ID
+   * @param planId Recurring transaction ID
+   */
+  @Delete(':planId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a recurring transaction and its pending occurrences' })
+  @ApiParam({ name: 'id', description: 'Portfolio ID' })
+  @ApiParam({ name: 'planId', description: 'Recurring transaction ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiResponse({ status: 204, description: 'Recurring transaction deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Recurring transaction not found' })
+  async deletePlan(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('planId', ParseUUIDPipe) planId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<void> {
+    await this.assertAccess(id, accountId, 'update');
+    await this.recurringTransactionService.deletePlan(id, planId);
+  }
+
+  private async assertAccess(portfolioId: string, accountId: string, action: 'view' | 'update'): Promise<void> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    const hasAccess = await this.portfolioService.checkPortfolioAccess(portfolioId, accountId, action);
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this portfolio');
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Query,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { TaxSummaryService } from '../services/tax-summary.service';
+import { AccountValidationService } from '../../shared/services/account-validation.service';
+import { AnnualTaxSummaryResponse, TaxRulesResponse } from '../dto/tax-summary.dto';
+
+/**
+ * Controller for tax rules and yearly tax summaries.
+ */
+@ApiTags('Tax')
+@Controller('api/v1/tax')
+export class TaxController {
+  constructor(
+    private readonly taxSummaryService: TaxSummaryService,
+    private readonly accountValidationService: AccountValidationService,
+  ) {}
+
+  /**
+   * Get the annual tax summary of an account
+   * @param accountId Account ID
+   * @param year Calendar year, defaults to the current year
+   * @returns Tax paid per portfolio and account totals
+   */
+  @Get('annual-summary')
+  @ApiOperation({ summary: 'Get tax paid per portfolio and per account for a year' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiQuery({ name: 'year', required: false, description: 'Calendar year (default: current year)' })
+  @ApiResponse({ status: 200, description: 'Annual tax summary retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid query parameters' })
+  async getAnnualSummary(
+    @Query('accountId') accountId: string,
+    @Query('year') year?: string,
+  ): Promise<AnnualTaxSummaryResponse> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+    const summaryYear = year ? Number(year) : new Date().getFullYear();
+    if (!Number.isInteger(summaryYear) || summaryYear < 1900 || summaryYear > 9999) {
+      throw new BadRequestException('year must be a valid calendar year');
+    }
+
+    await this.accountValidationService.validateAccountOwnership(accountId, accountId);
+
+    return this.taxSummaryService.getAnnualSummary(accountId, summaryYear);
+  }
+
+  /**
+   * Get the tax rates and broker fee schedules of a currency
+   * @param currency Currency code, defaults to the default nation
+   * @returns Tax rules
+   */
+  @Get('rules')
+  @ApiOperation({ summary: 'Get tax rates and broker fee schedules' })
+  @ApiQuery({ name: 'currency', required: false, description: 'Currency code (default: default nation)' })
+  @ApiResponse({ status: 200, description: 'Tax rules retrieved successfully' })
+  getRules(@Query('currency') currency?: string): TaxRulesResponse {
+    return this.taxSummaryService.getRules(currency);
+  }
+}
@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import * as request from 'supertest';
+import { TradingController } from './trading.controller';
+import { TradingService } from '../services/trading.service';
+import { TradeImportService } from '../services/trade-import.service';
+import { TradeSide } from '../entities/trade.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { Asset } from '../../asset/entities/asset.entity';
+import { Account } from '../../shared/entities/account.entity';
+import { User } from '../../shared/entities/user.entity';
+import { Permission } from '../../shared/entities/permission.entity';
+import { PersonalAccessToken } from '../../shared/entities/personal-access-token.entity';
+import { PortfolioService } from '../../portfolio/services/portfolio.service';
+import { AccountValidationService } from '../../shared/services/account-validation.service';
+import { PersonalAccessTokenService } from '../../shared/services/personal-access-token.service';
+import { TwoFactorService } from '../../shared/services/two-factor.service';
+import { LogRepository } from '../../logging/repositories/log.repository';
+
+describe('TradingController with personal access tokens', () => {
+  let app: INestApplication;
+  let tokenService: PersonalAccessTokenService;
+  let tokens: PersonalAccessToken[];
+  let createTrade: jest.Mock;
+  const user = { userId: 'user-1', username: 'john', authState: 'COMPLETE', isPasswordSet: true } as User;
+  const accountId = 'aaaaaaaa-0000-4000-8000-000000000001';
+  const portfolioId = 'bbbbbbbb-0000-4000-8000-000000000002';
+  const otherPortfolioId = 'bbbbbbbb-0000-4000-8000-000000000003';
+  const trade = {
+    portfolioId,
+    assetId: 'cccccccc-0000-4000-8000-000000000004',
+    tradeDate: '2024-03-15',
+    side: TradeSide.BUY,
+    quantity: 100,
+    price: 25000,
+  };
+
+  const createToken = async (scopes: string[], portfolioIds?: string[]) =>
+    (await tokenService.create(user.userId, { name: 'Script', scopes, portfolioIds, expiresInDays: 30 })).token;
+
+  beforeEach(async () => {
+    tokens = [];
+    createTrade = jest.fn(async (dto) => ({ tradeId: 'trade-1', ...dto }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TradingController],
+      providers: [
+        PersonalAccessTokenService,
+        {
+          provide: getRepositoryToken(PersonalAccessToken),
+          useValue: {
+            create: (data: Partial<PersonalAccessToken>) => Object.assign(new PersonalAccessToken(), data),
+            save: async (token: PersonalAccessToken) => {
+              token.tokenId = `token-${tokens.length + 1}`;
+              tokens.push(token);
+              return token;
+            },
+            update: async () => ({ affected: 1 }),
+            findOne: async ({ where }: any) =>
+              tokens.find(token => Object.entries(where).every(([key, value]) => token[key] === value)) ?? null,
+          },
+        },
+        { provide: getRepositoryToken(User), useValue: { findOne: async () => user } },
+        {
+          provide: getRepositoryToken(Account),
+          useValue: { find: async () => [{ accountId, isMainAccount: true }] },
+        },
+        {
+          provide: getRepositoryToken(Permission),
+          useValue: { find: async () => [{ name: 'trades.read' }, { name: 'trades.create' }] },
+        },
+        {
+          provide: getRepositoryToken(Portfolio),
+          useValue: { find: async () => [{ portfolioId }, { portfolioId: otherPortfolioId }] },
+        },
+        { provide: getRepositoryToken(Asset), useValue: {} },
+        { provide: LogRepository, useValue: { storeRequestLog: jest.fn(async () => undefined) } },
+        { provide: TwoFactorService, useValue: { assertCode: jest.fn() } },
+        { provide: TradingService, useValue: { createTrade, getTrades: jest.fn(async () => []) } },
+        { provide: TradeImportService, useValue: {} },
+        { provide: AccountValidationService, useValue: {} },
+        { provide: PortfolioService, useValue: { checkPortfolioAccess: jest.fn(async () => true) } },
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    await app.init();
+    tokenService = module.get<PersonalAccessTokenService>(PersonalAccessTokenService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should create a trade with a token that has the trades.create scope', async () => {
+    const token = await createToken(['trades.create'], [portfolioId]);
+
+    const response = await request(app.getHttpServer())
+      .post(`/api/v1/trades?accountId=${accountId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(trade)
+      .expect(201);
+
+    expect(response.body).toMatchObject({ tradeId: 'trade-1', portfolioId });
+    expect(createTrade).toHaveBeenCalledWith(expect.objectContaining(trade), { actorAccountId: accountId });
+  });
+
+  it('should refuse a trade with a read-only token', async () => {
+    const token = await createToken(['trades.read']);
+
+    await request(app.getHttpServer())
+      .post(`/api/v1/trades?accountId=${accountId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(trade)
+      .expect(403);
+
+    expect(createTrade).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a trade in a portfolio the token is not limited to', async () => {
+    const token = await createToken(['trades.create'], [otherPortfolioId]);
+
+    await request(app.getHttpServer())
+      .post(`/api/v1/trades?accountId=${accountId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(trade)
+      .expect(403);
+  });
+
+  it('should keep serving requests without a personal access token', async () => {
+    await request(app.getHttpServer())
+      .get(`/api/v1/trades?portfolioId=${portfolioId}&accountId=${accountId}`)
+      .expect(200);
+  });
+});
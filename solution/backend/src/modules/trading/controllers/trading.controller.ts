@@ -14,7 +14,11 @@ import {
   ParseUUIDPipe,
   ValidationPipe,
   UsePipes,
+  UseInterceptors,
+  UploadedFile,
+  UseGuards,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { IsUUID, IsOptional, IsDateString, IsString, IsIn } from 'class-validator';
 import {
   ApiTags,
@@ -23,9 +27,20 @@ import {
   ApiParam,
   ApiQuery,
   ApiBody,
+  ApiConsumes,
+  ApiBearerAuth,
 } from '@nestjs/swagger';
 import { TradingService } from '../services/trading.service';
+import { TradeImportService } from '../services/trade-import.service';
 import { CreateTradeDto, UpdateTradeDto } from '../dto/trade.dto';
+import {
+  TradeImportPreviewDto,
+  TradeImportCommitDto,
+  TradeImportPreviewResponse,
+  TradeImportCommitResponse,
+} from '../dto/trade-import.dto';
+import { BrokerLayoutDefinition } from '../importers/broker-statement-layouts';
+import { StatementFile } from '../importers/broker-statement.parser';
 import { TradeResponseDto } from '../dto/trade-response.dto';
 import { Trade, TradeSide } from '../entities/trade.entity';
 import { InjectRepository } from '@nestjs/typeorm';
@@ -35,6 +50,8 @@ import { Portfolio } from '../../portfolio/entities/portfolio.entity';
 import { Asset } from '../../asset/entities/asset.entity';
 import { Account } from '../../shared/entities/account.entity';
 import { AccountValidationService } from '../../shared/services/account-validation.service';
+import { PersonalAccessTokenGuard } from '../../shared/guards/personal-access-token.guard';
+import { RequirePermissions } from '../../shared/decorators/permissions.decorator';
 
 export interface TradeQueryDto {
   portfolioId: string;
@@ -82,6 +99,7 @@ export class TradeAnalysisQueryDto {
 export class TradingController {
   constructor(
     private readonly tradingService: TradingService,
+    private readonly tradeImportService: TradeImportService,
     @InjectRepository(Portfolio)
     private readonly portfolioRepository: Repository<Portfolio>,
     @InjectRepository(Asset)
@@ -98,6 +116,9 @@ export class TradingController {
    * @returns Array of trades
    */
   @Get()
+  @UseGuards(PersonalAccessTokenGuard)
+  @RequirePermissions(['trades.read'])
+  @ApiBearerAuth()
   @ApiOperation({ summary: 'Get all trades with optional filtering' })
   @ApiResponse({
     status: 200,
@@ -156,6 +177,9 @@ export class TradingController {
    */
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @UseGuards(PersonalAccessTokenGuard)
+  @RequirePermissions(['trades.create'])
+  @ApiBearerAuth()
   @ApiOperation({ summary: 'Create a new trade' })
   @ApiResponse({
     status: 201,
@@ -188,7 +212,138 @@ export class TradingController {
       throw new ForbiddenException('You do not have permission to create trades for this portfolio');
     }
     
-    return this.tradingService.createTrade(createTradeDto);
+    return this.tradingService.createTrade(createTradeDto, { actorAccountId: accountId });
+  }
+
+  /**
+   * Get supported broker statement layouts for trade import
+   * @returns Layout definitions
+   */
+  @Get('import/layouts')
+  @ApiOperation({ summary: 'Get supported broker statement layouts for trade import' })
+  @ApiResponse({ status: 200, description: 'Layouts retrieved successfully' })
+  getImportLayouts(): BrokerLayoutDefinition[] {
+    return this.tradeImportService.getLayouts();
+  }
+
+  /**
+   * Parse a broker statement and return a dry-run preview
+   * @param file Statement file (CSV or XLSX)
+   * @param previewDto Layout and mapping options
+   * @returns Parsed rows flagged as valid, duplicate or invalid
+   */
+  @Post('import/preview')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 5 * 1024 * 1024 } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Preview trades parsed from a broker statement (dry run)' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file', 'portfolioId', 'layout'],
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        portfolioId: { type: 'string', format: 'uuid' },
+        layout: { type: 'string', enum: ['SSI', 'VPS', 'TCBS', 'GENERIC'] },
+        columnMapping: { type: 'string', description: 'JSON object of field to column header' },
+        dateFormat: { type: 'string' },
+        priceMultiplier: { type: 'number' },
+        decimalSeparator: { type: 'string', enum: ['.', ','] },
+      },
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Statement parsed successfully' })
+  @ApiResponse({ status: 400, description: 'Missing or unreadable file' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  async previewTradeImport(
+    @UploadedFile() file: StatementFile,
+    @Body() previewDto: TradeImportPreviewDto,
+    @Query('accountId') accountId: string,
+  ): Promise<TradeImportPreviewResponse> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    const hasUpdateAccess = await this.portfolioService.checkPortfolioAccess(previewDto.portfolioId, accountId, 'update');
+    if (!hasUpdateAccess) {
+      throw new ForbiddenException('You do not have permission to import trades into this portfolio');
+    }
+
+    return this.tradeImportService.previewImport(file, previewDto);
+  }
+
+  /**
+   * Commit previewed rows as trades
+   * @param commitDto Accepted rows
+   * @returns Import result
+   */
+  @Post('import/commit')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(PersonalAccessTokenGuard)
+  @RequirePermissions(['trades.create'])
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Import accepted statement rows as trades in one transaction' })
+  @ApiBody({ type: TradeImportCommitDto })
+  @ApiResponse({ status: 201, description: 'Trades imported successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid rows' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  async commitTradeImport(
+    @Body() commitDto: TradeImportCommitDto,
+    @Query('accountId') accountId: string,
+  ): Promise<TradeImportCommitResponse> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+
+    const hasUpdateAccess = await this.portfolioService.checkPortfolioAccess(commitDto.portfolioId, accountId, 'update');
+    if (!hasUpdateAccess) {
+      throw new ForbiddenException('You do not have permission to import trades into this portfolio');
+    }
+
+    return this.tradeImportService.commitImport(commitDto, { actorAccountId: accountId });
+  }
+
+  /**
+   * Estimate the default fee and tax of a trade
+   * @returns Fee and tax pre-filled from the nation tax rules
+   */
+  @Get('charges/estimate')
+  @ApiOperation({ summary: 'Estimate default broker fee and sale tax of a trade' })
+  @ApiResponse({ status: 200, description: 'Fee and tax estimate retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid query parameters' })
+  @ApiResponse({ status: 403, description: 'Portfolio does not belong to account' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiQuery({ name: 'portfolioId', required: true, description: 'Portfolio ID' })
+  @ApiQuery({ name: 'assetId', required: true, description: 'Asset ID' })
+  @ApiQuery({ name: 'side', required: true, enum: TradeSide, description: 'Trade side' })
+  @ApiQuery({ name: 'quantity', required: true, description: 'Trade quantity' })
+  @ApiQuery({ name: 'price', required: true, description: 'Trade price' })
+  async estimateTradeCharges(
+    @Query('accountId') accountId: string,
+    @Query('portfolioId', ParseUUIDPipe) portfolioId: string,
+    @Query('assetId', ParseUUIDPipe) assetId: string,
+    @Query('side') side: TradeSide,
+    @Query('quantity') quantity: string,
+    @Query('price') price: string,
+  ) {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+    if (!Object.values(TradeSide).includes(side)) {
+      throw new BadRequestException(`side must be one of ${Object.values(TradeSide).join(', ')}`);
+    }
+    if (isNaN(Number(quantity)) || isNaN(Number(price))) {
+      throw new BadRequestException('quantity and price must be numbers');
+    }
+
+    const hasAccess = await this.portfolioService.checkPortfolioAccess(portfolioId, accountId, 'view');
+    if (!hasAccess) {
+      throw new ForbiddenException('You do not have access to this portfolio');
+    }
+
+    return this.tradingService.estimateTradeCharges(portfolioId, assetId, side, Number(quantity), Number(price));
   }
 
   /**
@@ -508,11 +663,14 @@ export class TradingController {
   @ApiResponse({ status: 403, description: 'Trade does not belong to account' })
   @ApiParam({ name: 'id', description: 'Trade ID' })
   @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiQuery({ name: 'reason', required: false, description: 'Reason for the change, kept in the audit trail' })
+  @ApiResponse({ status: 409, description: 'Trade date falls in a locked period' })
   @ApiBody({ type: UpdateTradeDto })
   async updateTrade(
     @Param('id', ParseUUIDPipe) id: string,
     @Query('accountId') accountId: string,
     @Body() updateTradeDto: UpdateTradeDto,
+    @Query('reason') reason?: string,
   ): Promise<Trade> {
     if (!accountId) {
       throw new BadRequestException('accountId query parameter is required');
@@ -525,7 +683,7 @@ export class TradingController {
       throw new ForbiddenException('You do not have permission to update trades for this portfolio');
     }
     
-    return this.tradingService.updateTrade(id, updateTradeDto);
+    return this.tradingService.updateTrade(id, updateTradeDto, { actorAccountId: accountId, reason });
   }
 
   /**
@@ -547,9 +705,12 @@ export class TradingController {
   @ApiResponse({ status: 403, description: 'Trade does not belong to account' })
   @ApiParam({ name: 'id', description: 'Trade ID' })
   @ApiQuery({ name: 'accountId', required: true, description: 'Account ID for ownership validation' })
+  @ApiQuery({ name: 'reason', required: false, description: 'Reason for the deletion, kept in the audit trail' })
+  @ApiResponse({ status: 409, description: 'Trade date falls in a locked period' })
   async deleteTrade(
     @Param('id', ParseUUIDPipe) id: string,
     @Query('accountId') accountId: string,
+    @Query('reason') reason?: string,
   ): Promise<void> {
     if (!accountId) {
       throw new BadRequestException('accountId query parameter is required');
@@ -562,7 +723,7 @@ export class TradingController {
       throw new ForbiddenException('You do not have permission to delete trades for this portfolio');
     }
     
-    return this.tradingService.deleteTrade(id);
+    return this.tradingService.deleteTrade(id, { actorAccountId: accountId, reason });
   }
 
   /**
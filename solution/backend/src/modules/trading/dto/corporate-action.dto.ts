@@ -0,0 +1,124 @@
+import { IsUUID, IsEnum, IsNumber, IsString, IsOptional, IsDateString, Min, Max, IsPositive, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CorporateActionType, CorporateActionStatus } from '../entities/corporate-action.entity';
+
+/**
+ * Data Transfer Object for recording a corporate action.
+ * Only the fields of the chosen action type are used.
+ */
+export class CreateCorporateActionDto {
+  @ApiProperty({
+    description: 'Global asset the action applies to',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    format: 'uuid',
+  })
+  @IsUUID(4, { message: 'Global asset ID must be a valid UUID' })
+  globalAssetId: string;
+
+  @ApiProperty({
+    description: 'Corporate action type',
+    enum: CorporateActionType,
+    example: CorporateActionType.STOCK_DIVIDEND,
+  })
+  @IsEnum(CorporateActionType, { message: 'Action type must be a valid corporate action type' })
+  actionType: CorporateActionType;
+
+  @ApiPropertyOptional({
+    description: 'Shares held after the split per share held before (STOCK_SPLIT)',
+    example: 2,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Split ratio must be a number' })
+  @IsPositive({ message: 'Split ratio must be positive' })
+  splitRatio?: number;
+
+  @ApiPropertyOptional({
+    description: 'New shares per 100 shares held (STOCK_DIVIDEND)',
+    example: 15,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Stock dividend percent must be a number' })
+  @IsPositive({ message: 'Stock dividend percent must be positive' })
+  @Max(1000, { message: 'Stock dividend percent must not exceed 1000' })
+  stockDividendPercent?: number;
+
+  @ApiPropertyOptional({
+    description: 'Cash paid per share held, in the asset currency (CASH_DIVIDEND)',
+    example: 1000,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Cash dividend per share must be a number' })
+  @IsPositive({ message: 'Cash dividend per share must be positive' })
+  cashDividendPerShare?: number;
+
+  @ApiPropertyOptional({
+    description: 'Shares that may be subscribed per share held (RIGHTS_ISSUE)',
+    example: 0.2,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Rights ratio must be a number' })
+  @IsPositive({ message: 'Rights ratio must be positive' })
+  rightsRatio?: number;
+
+  @ApiPropertyOptional({
+    description: 'Subscription price per new share (RIGHTS_ISSUE)',
+    example: 10000,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Subscription price must be a number' })
+  @Min(0, { message: 'Subscription price must be non-negative' })
+  subscriptionPrice?: number;
+
+  @ApiProperty({
+    description: 'Ex-date (YYYY-MM-DD); holdings before this date are entitled',
+    example: '2024-06-10',
+  })
+  @IsDateString({}, { message: 'Ex-date must be a valid date' })
+  exDate: string;
+
+  @ApiPropertyOptional({
+    description: 'Record date (YYYY-MM-DD)',
+    example: '2024-06-11',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Record date must be a valid date' })
+  recordDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment or share credit date (YYYY-MM-DD); defaults to the ex-date',
+    example: '2024-07-01',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'Payment date must be a valid date' })
+  paymentDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Notes',
+    example: 'Stock dividend 2023, ratio 100:15',
+  })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  @MaxLength(1000, { message: 'Notes must not exceed 1000 characters' })
+  notes?: string;
+}
+
+export class CorporateActionQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by global asset', format: 'uuid' })
+  @IsOptional()
+  @IsUUID(4, { message: 'Global asset ID must be a valid UUID' })
+  globalAssetId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by status', enum: CorporateActionStatus })
+  @IsOptional()
+  @IsEnum(CorporateActionStatus, { message: 'Status must be a valid corporate action status' })
+  status?: CorporateActionStatus;
+}
+
+export interface CorporateActionApplyResult {
+  corporateActionId: string;
+  status: CorporateActionStatus;
+  affectedPortfolios: number;
+  adjustedLots: number;
+  createdTrades: number;
+  cashFlows: number;
+}
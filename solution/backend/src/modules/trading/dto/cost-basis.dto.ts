@@ -0,0 +1,49 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CostBasisMethod } from '../../portfolio/enums/cost-basis-method.enum';
+
+/**
+ * Data Transfer Object for previewing or changing a portfolio's cost basis method
+ */
+export class ChangeCostBasisMethodDto {
+  @ApiProperty({
+    description: 'Cost basis method used to match sells to buy lots',
+    enum: CostBasisMethod,
+    example: CostBasisMethod.LIFO,
+  })
+  @IsEnum(CostBasisMethod, { message: 'Method must be a valid cost basis method' })
+  method: CostBasisMethod;
+}
+
+/**
+ * Realized P&L of one asset, in the asset currency
+ */
+export interface CostBasisAssetDiff {
+  assetId: string;
+  symbol: string;
+  currency: string;
+  currentRealizedPnl: number;
+  newRealizedPnl: number;
+  difference: number;
+}
+
+/**
+ * Before/after realized P&L of a method change; totals are in the portfolio base currency
+ */
+export interface CostBasisPreviewResponse {
+  portfolioId: string;
+  currentMethod: CostBasisMethod;
+  newMethod: CostBasisMethod;
+  assets: CostBasisAssetDiff[];
+  totalCurrentRealizedPnl: number;
+  totalNewRealizedPnl: number;
+  totalDifference: number;
+}
+
+export interface OpenLotResponse {
+  buyTradeId: string;
+  tradeDate: Date;
+  quantity: number;
+  remainingQuantity: number;
+  price: number;
+}
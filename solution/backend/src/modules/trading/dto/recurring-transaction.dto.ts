@@ -0,0 +1,167 @@
+import {
+  IsUUID,
+  IsEnum,
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsDateString,
+  IsBoolean,
+  IsInt,
+  IsIn,
+  Min,
+  Max,
+  IsPositive,
+  MaxLength,
+  IsNotEmpty,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType, OmitType } from '@nestjs/swagger';
+import { RecurringTransactionKind, RecurrenceFrequency } from '../entities/recurring-transaction.entity';
+import { TradeSide } from '../entities/trade.entity';
+import { CashFlowType, CashFlowStatus } from '../../portfolio/entities/cash-flow.entity';
+
+export const RECURRING_CASH_FLOW_TYPES = [CashFlowType.DEPOSIT, CashFlowType.WITHDRAWAL, CashFlowType.FEE];
+
+/**
+ * Data Transfer Object for creating a recurring transaction.
+ * Trade plans need an asset, a side and either a quantity or an amount to invest;
+ * cash flow plans need a cash flow type and an amount.
+ */
+export class CreateRecurringTransactionDto {
+  @ApiProperty({ description: 'Plan name', example: 'Monthly VFMVN30 investment' })
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(255, { message: 'Name must not exceed 255 characters' })
+  name: string;
+
+  @ApiProperty({ description: 'What each occurrence generates', enum: RecurringTransactionKind })
+  @IsEnum(RecurringTransactionKind, { message: 'Kind must be TRADE or CASH_FLOW' })
+  kind: RecurringTransactionKind;
+
+  @ApiProperty({ description: 'Schedule frequency', enum: RecurrenceFrequency })
+  @IsEnum(RecurrenceFrequency, { message: 'Frequency must be WEEKLY, MONTHLY or QUARTERLY' })
+  frequency: RecurrenceFrequency;
+
+  @ApiPropertyOptional({
+    description: 'Day of the month (MONTHLY, QUARTERLY); defaults to the day of the start date',
+    example: 5,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Day of month must be an integer' })
+  @Min(1, { message: 'Day of month must be between 1 and 31' })
+  @Max(31, { message: 'Day of month must be between 1 and 31' })
+  dayOfMonth?: number;
+
+  @ApiPropertyOptional({
+    description: 'Day of the week, 0 = Sunday (WEEKLY); defaults to the weekday of the start date',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Day of week must be an integer' })
+  @Min(0, { message: 'Day of week must be between 0 and 6' })
+  @Max(6, { message: 'Day of week must be between 0 and 6' })
+  dayOfWeek?: number;
+
+  @ApiProperty({ description: 'First date of the schedule (YYYY-MM-DD)', example: '2024-01-05' })
+  @IsDateString({}, { message: 'Start date must be a valid date' })
+  startDate: string;
+
+  @ApiPropertyOptional({ description: 'Last date of the schedule (YYYY-MM-DD)', example: '2025-12-31' })
+  @IsOptional()
+  @IsDateString({}, { message: 'End date must be a valid date' })
+  endDate?: string;
+
+  @ApiPropertyOptional({ description: 'Asset to trade (TRADE)', format: 'uuid' })
+  @IsOptional()
+  @IsUUID(4, { message: 'Asset ID must be a valid UUID' })
+  assetId?: string;
+
+  @ApiPropertyOptional({ description: 'Trade side (TRADE)', enum: TradeSide })
+  @IsOptional()
+  @IsEnum(TradeSide, { message: 'Side must be BUY or SELL' })
+  side?: TradeSide;
+
+  @ApiPropertyOptional({ description: 'Fixed quantity per trade (TRADE)', example: 100 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Quantity must be a number' })
+  @IsPositive({ message: 'Quantity must be positive' })
+  quantity?: number;
+
+  @ApiPropertyOptional({ description: 'Cash flow type (CASH_FLOW)', enum: RECURRING_CASH_FLOW_TYPES })
+  @IsOptional()
+  @IsIn(RECURRING_CASH_FLOW_TYPES, { message: 'Cash flow type must be DEPOSIT, WITHDRAWAL or FEE' })
+  cashFlowType?: CashFlowType;
+
+  @ApiPropertyOptional({
+    description: 'Cash flow amount, or amount invested per trade when no quantity is set',
+    example: 5000000,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Amount must be a number' })
+  @IsPositive({ message: 'Amount must be positive' })
+  amount?: number;
+
+  @ApiPropertyOptional({ description: 'Cash flow currency; defaults to the portfolio base currency', example: 'VND' })
+  @IsOptional()
+  @IsString({ message: 'Currency must be a string' })
+  @MaxLength(3, { message: 'Currency must be a 3-letter code' })
+  currency?: string;
+
+  @ApiPropertyOptional({ description: 'Funding source of cash flows', example: 'VIETCOMBANK' })
+  @IsOptional()
+  @IsString({ message: 'Funding source must be a string' })
+  @MaxLength(100, { message: 'Funding source must not exceed 100 characters' })
+  fundingSource?: string;
+
+  @ApiPropertyOptional({ description: 'Description copied to generated items' })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(1000, { message: 'Description must not exceed 1000 characters' })
+  description?: string;
+}
+
+export class UpdateRecurringTransactionDto extends PartialType(OmitType(CreateRecurringTransactionDto, ['kind'] as const)) {
+  @ApiPropertyOptional({ description: 'Pause or resume the plan' })
+  @IsOptional()
+  @IsBoolean({ message: 'isActive must be a boolean' })
+  isActive?: boolean;
+}
+
+/**
+ * Edits to a pending occurrence before it is confirmed
+ */
+export class UpdateRecurringOccurrenceDto {
+  @ApiPropertyOptional({ description: 'Date of the trade or cash flow (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString({}, { message: 'Scheduled date must be a valid date' })
+  scheduledDate?: string;
+
+  @ApiPropertyOptional({ description: 'Trade quantity' })
+  @IsOptional()
+  @IsNumber({}, { message: 'Quantity must be a number' })
+  @IsPositive({ message: 'Quantity must be positive' })
+  quantity?: number;
+
+  @ApiPropertyOptional({ description: 'Trade price' })
+  @IsOptional()
+  @IsNumber({}, { message: 'Price must be a number' })
+  @IsPositive({ message: 'Price must be positive' })
+  price?: number;
+
+  @ApiPropertyOptional({ description: 'Cash flow amount' })
+  @IsOptional()
+  @IsNumber({}, { message: 'Amount must be a number' })
+  @IsPositive({ message: 'Amount must be positive' })
+  amount?: number;
+}
+
+export class RecurringOccurrenceQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by status', enum: CashFlowStatus })
+  @IsOptional()
+  @IsEnum(CashFlowStatus, { message: 'Status must be PENDING, COMPLETED or CANCELLED' })
+  status?: CashFlowStatus;
+}
+
+export interface RecurringGenerationResult {
+  plansProcessed: number;
+  occurrencesCreated: number;
+}
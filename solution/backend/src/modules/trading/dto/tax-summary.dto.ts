@@ -0,0 +1,58 @@
+import { BrokerFeeSchedule } from '../../../config/nation-config.interface';
+
+/**
+ * Tax and fees of one portfolio for a calendar year, in the portfolio base currency
+ */
+export interface PortfolioTaxSummary {
+  portfolioId: string;
+  portfolioName: string;
+  baseCurrency: string;
+  broker: string | null;
+  tradeCount: number;
+  grossSaleValue: number;
+  saleTax: number;
+  tradingFees: number;
+  grossDividends: number;
+  dividendTaxWithheld: number;
+  interestTaxWithheld: number;
+  otherTaxPaid: number;
+  totalTaxPaid: number;
+}
+
+/**
+ * Account-wide totals of one base currency
+ */
+export interface TaxSummaryTotals {
+  currency: string;
+  grossSaleValue: number;
+  saleTax: number;
+  tradingFees: number;
+  grossDividends: number;
+  dividendTaxWithheld: number;
+  interestTaxWithheld: number;
+  otherTaxPaid: number;
+  totalTaxPaid: number;
+}
+
+/**
+ * Annual tax summary of an account, used to reconcile against the broker's yearly tax statement
+ */
+export interface AnnualTaxSummaryResponse {
+  accountId: string;
+  year: number;
+  portfolios: PortfolioTaxSummary[];
+  totals: TaxSummaryTotals[];
+}
+
+/**
+ * Tax rates and broker fee schedules that apply to a currency
+ */
+export interface TaxRulesResponse {
+  nation: string | null;
+  securitiesAssetTypes: string[];
+  securitiesSaleTaxRate: number;
+  cashDividendTaxRate: number;
+  depositInterestTaxRate: number;
+  defaultBroker: string | null;
+  brokers: Record<string, BrokerFeeSchedule>;
+}
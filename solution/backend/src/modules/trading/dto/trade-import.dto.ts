@@ -0,0 +1,226 @@
+import { Type } from 'class-transformer';
+import {
+  IsUUID,
+  IsEnum,
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsDateString,
+  IsBoolean,
+  IsArray,
+  IsIn,
+  Min,
+  IsPositive,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TradeSide } from '../entities/trade.entity';
+import { BrokerStatementLayout, TradeImportField } from '../importers/broker-statement-layouts';
+
+/** Maximum number of rows accepted by a single import commit */
+export const MAX_IMPORT_ROWS = 2000;
+
+export enum TradeImportRowStatus {
+  VALID = 'VALID',
+  DUPLICATE = 'DUPLICATE',
+  INVALID = 'INVALID',
+}
+
+/**
+ * Form fields sent along with the statement file for a dry-run preview.
+ * The file itself is sent as multipart field "file".
+ */
+export class TradeImportPreviewDto {
+  @ApiProperty({
+    description: 'Portfolio the trades will be imported into',
+    example: 'fe4690dc-42b3-4a34-a665-89b4ca93d5a1',
+    format: 'uuid',
+  })
+  @IsUUID(4, { message: 'Portfolio ID must be a valid UUID' })
+  portfolioId: string;
+
+  @ApiProperty({
+    description: 'Broker statement layout',
+    enum: BrokerStatementLayout,
+    example: BrokerStatementLayout.SSI,
+  })
+  @IsEnum(BrokerStatementLayout, { message: 'Layout must be one of SSI, VPS, TCBS, GENERIC' })
+  layout: BrokerStatementLayout;
+
+  @ApiPropertyOptional({
+    description: 'JSON object mapping trade fields to file column headers, e.g. {"tradeDate":"Date","symbol":"Ticker"}',
+    example: '{"tradeDate":"Date","symbol":"Ticker","side":"Side","quantity":"Qty","price":"Price"}',
+  })
+  @IsOptional()
+  @IsString()
+  columnMapping?: string;
+
+  @ApiPropertyOptional({
+    description: 'Date format of the date column (date-fns tokens)',
+    example: 'dd/MM/yyyy',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  dateFormat?: string;
+
+  @ApiPropertyOptional({
+    description: 'Multiplier applied to prices, e.g. 1000 when the statement quotes prices in thousands',
+    example: 1000,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Price multiplier must be a number' })
+  @IsPositive({ message: 'Price multiplier must be positive' })
+  priceMultiplier?: number;
+
+  @ApiPropertyOptional({
+    description: 'Decimal separator used in numeric columns',
+    enum: ['.', ','],
+    example: '.',
+  })
+  @IsOptional()
+  @IsIn(['.', ','])
+  decimalSeparator?: '.' | ',';
+}
+
+/**
+ * A single row accepted by the user for import.
+ */
+export class TradeImportRowDto {
+  @ApiProperty({ description: 'Row number in the source file', example: 5 })
+  @IsNumber()
+  rowNumber: number;
+
+  @ApiProperty({ description: 'Asset symbol', example: 'HPG' })
+  @IsString()
+  @MaxLength(50)
+  symbol: string;
+
+  @ApiProperty({ description: 'Trade date', example: '2024-01-15T00:00:00.000Z', format: 'date-time' })
+  @IsDateString({}, { message: 'Trade date must be a valid date' })
+  tradeDate: string;
+
+  @ApiProperty({ description: 'Trade side', enum: TradeSide, example: TradeSide.BUY })
+  @IsEnum(TradeSide, { message: 'Trade side must be either BUY or SELL' })
+  side: TradeSide;
+
+  @ApiProperty({ description: 'Quantity', example: 1000 })
+  @IsNumber({}, { message: 'Quantity must be a number' })
+  @IsPositive({ message: 'Quantity must be positive' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Price per unit', example: 25000 })
+  @IsNumber({}, { message: 'Price must be a number' })
+  @Min(0, { message: 'Price must be non-negative' })
+  price: number;
+
+  @ApiPropertyOptional({ description: 'Trading fee', example: 37500, default: 0 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Fee must be a number' })
+  @Min(0, { message: 'Fee must be non-negative' })
+  fee?: number;
+
+  @ApiPropertyOptional({ description: 'Tax amount', example: 0, default: 0 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Tax must be a number' })
+  @Min(0, { message: 'Tax must be non-negative' })
+  tax?: number;
+
+  @ApiPropertyOptional({ description: 'Exchange/platform', example: 'HOSE' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  exchange?: string;
+
+  @ApiPropertyOptional({ description: 'Notes', example: 'Order 123456' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+
+  @ApiPropertyOptional({
+    description: 'Import the row even if it duplicates an existing trade',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowDuplicate?: boolean;
+}
+
+/**
+ * Rows confirmed in the preview, committed in one transaction.
+ */
+export class TradeImportCommitDto {
+  @ApiProperty({
+    description: 'Portfolio the trades will be imported into',
+    example: 'fe4690dc-42b3-4a34-a665-89b4ca93d5a1',
+    format: 'uuid',
+  })
+  @IsUUID(4, { message: 'Portfolio ID must be a valid UUID' })
+  portfolioId: string;
+
+  @ApiPropertyOptional({
+    description: 'Broker the statement came from, stored as the trade exchange when a row has none',
+    example: 'SSI',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  broker?: string;
+
+  @ApiProperty({ description: 'Accepted rows', type: [TradeImportRowDto] })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one row is required' })
+  @ArrayMaxSize(MAX_IMPORT_ROWS, { message: `At most ${MAX_IMPORT_ROWS} rows can be imported at once` })
+  @ValidateNested({ each: true })
+  @Type(() => TradeImportRowDto)
+  rows: TradeImportRowDto[];
+}
+
+export interface TradeImportPreviewRow {
+  rowNumber: number;
+  tradeDate: string | null;
+  symbol: string | null;
+  side: TradeSide | null;
+  quantity: number | null;
+  price: number | null;
+  fee: number;
+  tax: number;
+  exchange?: string;
+  notes?: string;
+  assetId?: string;
+  assetName?: string;
+  /** True when the symbol only exists in the global asset catalog and an asset will be created on commit */
+  createsAsset: boolean;
+  status: TradeImportRowStatus;
+  errors: string[];
+  /** Trade ID (existing trade) or "row N" (earlier row in the same file) this row duplicates */
+  duplicateOf?: string;
+}
+
+export interface TradeImportPreviewResponse {
+  portfolioId: string;
+  fileName: string;
+  layout: BrokerStatementLayout;
+  headers: string[];
+  columnMapping: Partial<Record<TradeImportField, string>>;
+  missingFields: TradeImportField[];
+  rows: TradeImportPreviewRow[];
+  summary: {
+    total: number;
+    valid: number;
+    duplicates: number;
+    invalid: number;
+  };
+}
+
+export interface TradeImportCommitResponse {
+  portfolioId: string;
+  importedCount: number;
+  tradeIds: string[];
+  skipped: Array<{ rowNumber: number; reason: string }>;
+  realizedPnl: number;
+}
@@ -1,7 +1,29 @@
-import { IsUUID, IsEnum, IsNumber, IsString, IsOptional, IsDateString, Min, Max, IsPositive, MaxLength, IsNotIn } from 'class-validator';
+import { IsUUID, IsEnum, IsNumber, IsString, IsOptional, IsDateString, Min, Max, IsPositive, MaxLength, IsNotIn, IsArray, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { TradeSide, TradeType, TradeSource } from '../entities/trade.entity';
 
+/**
+ * Buy lot picked for a sell under specific-lot identification.
+ */
+export class LotSelectionDto {
+  @ApiProperty({
+    description: 'BUY trade (lot) to sell from',
+    example: 'b1c9a597-9cd4-476d-8f4c-a33191e8abe4',
+    format: 'uuid',
+  })
+  @IsUUID(4, { message: 'Buy trade ID must be a valid UUID' })
+  buyTradeId: string;
+
+  @ApiProperty({
+    description: 'Quantity sold from this lot',
+    example: 500,
+  })
+  @IsNumber({}, { message: 'Lot quantity must be a number' })
+  @IsPositive({ message: 'Lot quantity must be positive' })
+  quantity: number;
+}
+
 /**
  * Data Transfer Object for creating a new trade.
  * Contains validation rules and API documentation for trade creation.
@@ -59,26 +81,24 @@ export class CreateTradeDto {
   price: number;
 
   @ApiPropertyOptional({
-    description: 'Trading fee',
+    description: 'Trading fee. Defaults to the portfolio broker fee from the tax rules when omitted',
     example: 2500,
     minimum: 0,
-    default: 0,
   })
   @IsOptional()
   @IsNumber({}, { message: 'Fee must be a number' })
   @Min(0, { message: 'Fee must be non-negative' })
-  fee?: number = 0;
+  fee?: number;
 
   @ApiPropertyOptional({
-    description: 'Tax amount',
+    description: 'Tax amount. Defaults to the securities sale tax from the tax rules when omitted',
     example: 500,
     minimum: 0,
-    default: 0,
   })
   @IsOptional()
   @IsNumber({}, { message: 'Tax must be a number' })
   @Min(0, { message: 'Tax must be non-negative' })
-  tax?: number = 0;
+  tax?: number;
 
   @ApiPropertyOptional({
     description: 'Trade type',
@@ -129,6 +149,25 @@ export class CreateTradeDto {
   @IsString({ message: 'Notes must be a string' })
   @MaxLength(1000, { message: 'Notes must not exceed 1000 characters' })
   notes?: string;
+
+  @ApiPropertyOptional({
+    description: 'Rate converting the asset currency into the portfolio base currency on the trade date. Looked up from the FX rate store when omitted.',
+    example: 25350,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'FX rate must be a number' })
+  @IsPositive({ message: 'FX rate must be positive' })
+  fxRate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Buy lots to sell from (SELL trades in portfolios using specific-lot identification)',
+    type: [LotSelectionDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Lot selections must be an array' })
+  @ValidateNested({ each: true })
+  @Type(() => LotSelectionDto)
+  lotSelections?: LotSelectionDto[];
 }
 
 /**
@@ -260,4 +299,23 @@ export class UpdateTradeDto {
   @IsString({ message: 'Notes must be a string' })
   @MaxLength(1000, { message: 'Notes must not exceed 1000 characters' })
   notes?: string;
+
+  @ApiPropertyOptional({
+    description: 'Rate converting the asset currency into the portfolio base currency on the trade date. Looked up from the FX rate store when omitted.',
+    example: 25350,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'FX rate must be a number' })
+  @IsPositive({ message: 'FX rate must be positive' })
+  fxRate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Buy lots to sell from (SELL trades in portfolios using specific-lot identification)',
+    type: [LotSelectionDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Lot selections must be an array' })
+  @ValidateNested({ each: true })
+  @Type(() => LotSelectionDto)
+  lotSelections?: LotSelectionDto[];
 }
@@ -0,0 +1,71 @@
+import { CorporateActionEngine } from './corporate-action-engine';
+import { Trade, TradeSide } from '../entities/trade.entity';
+
+describe('CorporateActionEngine', () => {
+  let engine: CorporateActionEngine;
+
+  const trade = (side: TradeSide, quantity: number, tradeDate: string): Trade =>
+    ({ side, quantity, tradeDate: new Date(tradeDate) } as Trade);
+
+  beforeEach(() => {
+    engine = new CorporateActionEngine();
+  });
+
+  describe('planLotAdjustments', () => {
+    it('should scale an unmatched lot and keep its total cost', () => {
+      const [plan] = engine.planLotAdjustments(
+        [{ tradeId: 'lot-1', quantity: 1000, price: 30000, fee: 45000, tax: 0, matchedQty: 0 }],
+        1.15,
+      );
+
+      expect(plan.newQuantity).toBe(1150);
+      expect(plan.newQuantity * plan.newPrice).toBeCloseTo(1000 * 30000, 4);
+      expect(plan.newFee).toBe(45000);
+      expect(plan.splitOff).toBeUndefined();
+    });
+
+    it('should move the open part of a partially sold lot to a new lot', () => {
+      const [plan] = engine.planLotAdjustments(
+        [{ tradeId: 'lot-1', quantity: 1000, price: 20000, fee: 1000, tax: 0, matchedQty: 400 }],
+        2,
+      );
+
+      expect(plan.newQuantity).toBe(400);
+      expect(plan.newPrice).toBe(20000);
+      expect(plan.newFee).toBeCloseTo(400);
+      expect(plan.splitOff).toEqual({ quantity: 1200, price: 10000, fee: 600, tax: 0 });
+    });
+
+    it('should skip fully sold lots', () => {
+      const plans = engine.planLotAdjustments(
+        [{ tradeId: 'lot-1', quantity: 500, price: 10000, fee: 0, tax: 0, matchedQty: 500 }],
+        2,
+      );
+
+      expect(plans).toEqual([]);
+    });
+
+    it('should reject a non-positive factor', () => {
+      expect(() => engine.planLotAdjustments([], 0)).toThrow('Quantity factor must be positive');
+    });
+  });
+
+  describe('calculateEligibleQuantity', () => {
+    it('should count holdings before the ex-date only', () => {
+      const trades = [
+        trade(TradeSide.BUY, 1000, '2024-01-10T09:30:00'),
+        trade(TradeSide.BONUS, 100, '2024-03-01T09:30:00'),
+        trade(TradeSide.SELL, 300, '2024-05-02T10:00:00'),
+        trade(TradeSide.BUY, 500, '2024-06-10T09:30:00'),
+      ];
+
+      expect(engine.calculateEligibleQuantity(trades, '2024-06-10')).toBe(800);
+    });
+  });
+
+  describe('calculateRightsQuantity', () => {
+    it('should drop fractional rights', () => {
+      expect(engine.calculateRightsQuantity(1234, 0.2)).toBe(246);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { Trade, TradeSide } from '../entities/trade.entity';
+
+export interface OpenLot {
+  tradeId: string;
+  quantity: number;
+  price: number;
+  fee: number;
+  tax: number;
+  matchedQty: number;
+}
+
+export interface LotAdjustmentPlan {
+  tradeId: string;
+  previousQuantity: number;
+  previousPrice: number;
+  previousFee: number;
+  previousTax: number;
+  newQuantity: number;
+  newPrice: number;
+  newFee: number;
+  newTax: number;
+  /**
+   * New lot holding the open part of a partially sold lot
+   */
+  splitOff?: {
+    quantity: number;
+    price: number;
+    fee: number;
+    tax: number;
+  };
+}
+
+const QUANTITY_SCALE = 1e8;
+
+export class CorporateActionEngine {
+  /**
+   * Plan quantity and cost adjustments of open lots for a quantity factor.
+   * Total cost of every lot is preserved. A lot that is already partially sold keeps
+   * its matched part and the open part moves to a new lot, so existing matches stay valid.
+   * @param lots Lots held before the ex-date with the quantity matched by earlier sells
+   * @param factor Shares held after the action per share held before
+   * @returns Adjustment plan per open lot
+   */
+  planLotAdjustments(lots: OpenLot[], factor: number): LotAdjustmentPlan[] {
+    if (!(factor > 0)) {
+      throw new Error('Quantity factor must be positive');
+    }
+
+    const plans: LotAdjustmentPlan[] = [];
+    for (const lot of lots) {
+      const quantity = Number(lot.quantity);
+      const price = Number(lot.price);
+      const fee = Number(lot.fee) || 0;
+      const tax = Number(lot.tax) || 0;
+      const matchedQty = Math.min(Number(lot.matchedQty) || 0, quantity);
+      const openQty = quantity - matchedQty;
+
+      if (openQty <= 0) continue;
+
+      const base = {
+        tradeId: lot.tradeId,
+        previousQuantity: quantity,
+        previousPrice: price,
+        previousFee: fee,
+        previousTax: tax,
+      };
+
+      if (matchedQty === 0) {
+        plans.push({
+          ...base,
+          newQuantity: this.roundQuantity(quantity * factor),
+          newPrice: price / factor,
+          newFee: fee,
+          newTax: tax,
+        });
+        continue;
+      }
+
+      const matchedShare = matchedQty / quantity;
+      plans.push({
+        ...base,
+        newQuantity: matchedQty,
+        newPrice: price,
+        newFee: fee * matchedShare,
+        newTax: tax * matchedShare,
+        splitOff: {
+          quantity: this.roundQuantity(openQty * factor),
+          price: price / factor,
+          fee: fee * (1 - matchedShare),
+          tax: tax * (1 - matchedShare),
+        },
+      });
+    }
+
+    return plans;
+  }
+
+  /**
+   * Net quantity held before the ex-date
+   * @param trades Trades of one asset in one portfolio
+   * @param exDate Ex-date (YYYY-MM-DD)
+   * @returns Shares entitled to the action
+   */
+  calculateEligibleQuantity(trades: Trade[], exDate: string): number {
+    const exTime = new Date(`${exDate}T00:00:00`).getTime();
+    const quantity = trades
+      .filter(trade => new Date(trade.tradeDate).getTime() < exTime)
+      .reduce((sum, trade) => {
+        const qty = Number(trade.quantity) || 0;
+        return trade.side === TradeSide.SELL ? sum - qty : sum + qty;
+      }, 0);
+    return Math.max(0, this.roundQuantity(quantity));
+  }
+
+  /**
+   * Shares that may be subscribed in a rights issue (fractional rights are dropped)
+   */
+  calculateRightsQuantity(eligibleQuantity: number, rightsRatio: number): number {
+    return Math.floor(this.roundQuantity(eligibleQuantity * rightsRatio));
+  }
+
+  private roundQuantity(value: number): number {
+    return Math.round(value * QUANTITY_SCALE) / QUANTITY_SCALE;
+  }
+}
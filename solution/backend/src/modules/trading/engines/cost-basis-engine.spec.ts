@@ -0,0 +1,84 @@
+import { CostBasisEngine } from './cost-basis-engine';
+import { Trade, TradeSide } from '../entities/trade.entity';
+import { CostBasisMethod } from '../../portfolio/enums/cost-basis-method.enum';
+
+describe('CostBasisEngine', () => {
+  let engine: CostBasisEngine;
+
+  const trade = (tradeId: string, side: TradeSide, quantity: number, price: number, tradeDate: string): Trade =>
+    ({ tradeId, assetId: 'asset-1', side, quantity, price, fee: 0, tax: 0, tradeDate: new Date(tradeDate) } as Trade);
+
+  const trades = [
+    trade('buy-1', TradeSide.BUY, 100, 10000, '2024-01-10'),
+    trade('buy-2', TradeSide.BUY, 100, 30000, '2024-02-10'),
+    trade('buy-3', TradeSide.BUY, 100, 20000, '2024-03-10'),
+    trade('sell-1', TradeSide.SELL, 100, 25000, '2024-04-10'),
+  ];
+
+  const realizedPnl = (method: CostBasisMethod, input: Trade[] = trades) =>
+    engine.replay(input, method).reduce((sum, detail) => sum + detail.pnl, 0);
+
+  beforeEach(() => {
+    engine = new CostBasisEngine();
+  });
+
+  describe('replay', () => {
+    it('should match the oldest lot with FIFO', () => {
+      const [detail] = engine.replay(trades, CostBasisMethod.FIFO);
+
+      expect(detail.buyTradeId).toBe('buy-1');
+      expect(realizedPnl(CostBasisMethod.FIFO)).toBe(1500000);
+    });
+
+    it('should match the newest lot with LIFO', () => {
+      const [detail] = engine.replay(trades, CostBasisMethod.LIFO);
+
+      expect(detail.buyTradeId).toBe('buy-3');
+      expect(realizedPnl(CostBasisMethod.LIFO)).toBe(500000);
+    });
+
+    it('should match the most expensive lot with HIGHEST_COST', () => {
+      const [detail] = engine.replay(trades, CostBasisMethod.HIGHEST_COST);
+
+      expect(detail.buyTradeId).toBe('buy-2');
+      expect(realizedPnl(CostBasisMethod.HIGHEST_COST)).toBe(-500000);
+    });
+
+    it('should use the weighted average price with AVERAGE_COST', () => {
+      const details = engine.replay(trades, CostBasisMethod.AVERAGE_COST);
+
+      expect(details.every(detail => detail.buyPrice === 20000)).toBe(true);
+      expect(realizedPnl(CostBasisMethod.AVERAGE_COST)).toBe(500000);
+    });
+
+    it('should consume picked lots first and the rest FIFO with SPECIFIC_LOT', () => {
+      const sell = { ...trades[3], quantity: 150, lotSelections: [{ buyTradeId: 'buy-3', quantity: 100 }] } as Trade;
+      const details = engine.replay([...trades.slice(0, 3), sell], CostBasisMethod.SPECIFIC_LOT);
+
+      expect(details.map(detail => [detail.buyTradeId, detail.matchedQty])).toEqual([
+        ['buy-3', 100],
+        ['buy-1', 50],
+      ]);
+    });
+
+    it('should not match a sell against lots bought after it', () => {
+      const details = engine.replay(
+        [trade('sell-1', TradeSide.SELL, 50, 25000, '2024-01-01'), ...trades.slice(0, 1)],
+        CostBasisMethod.FIFO,
+      );
+
+      expect(details).toEqual([]);
+    });
+  });
+
+  describe('validateSelections', () => {
+    it('should reject unknown lots and quantities above the open or sell quantity', () => {
+      const lots = engine.toOpenLots(trades.slice(0, 2));
+
+      expect(engine.validateSelections(lots, [{ buyTradeId: 'buy-1', quantity: 50 }], 50)).toEqual([]);
+      expect(engine.validateSelections(lots, [{ buyTradeId: 'buy-9', quantity: 10 }], 50)).toHaveLength(1);
+      expect(engine.validateSelections(lots, [{ buyTradeId: 'buy-1', quantity: 150 }], 200)).toHaveLength(1);
+      expect(engine.validateSelections(lots, [{ buyTradeId: 'buy-1', quantity: 60 }], 50)).toHaveLength(1);
+    });
+  });
+});
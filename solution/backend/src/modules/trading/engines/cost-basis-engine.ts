@@ -0,0 +1,206 @@
+import { Trade, TradeSide } from '../entities/trade.entity';
+import { TradeDetail } from '../entities/trade-detail.entity';
+import { TradeMatchResult } from './fifo-engine';
+import { CostBasisMethod } from '../../portfolio/enums/cost-basis-method.enum';
+
+export interface CostBasisLot {
+  tradeId: string;
+  tradeDate: Date;
+  quantity: number;
+  price: number;
+  fee: number;
+  tax: number;
+  remainingQty: number;
+}
+
+export interface LotSelection {
+  buyTradeId: string;
+  quantity: number;
+}
+
+const QUANTITY_EPSILON = 1e-8;
+
+export class CostBasisEngine {
+  /**
+   * Build open lots from buy trades loaded with their buyDetails
+   * @param buyTrades BUY trades of one asset in one portfolio
+   * @returns Lots with remaining quantity, oldest first
+   */
+  toOpenLots(buyTrades: Trade[]): CostBasisLot[] {
+    return buyTrades
+      .filter(trade => trade.side === TradeSide.BUY)
+      .map(trade => {
+        const matchedQty = (trade.buyDetails || []).reduce((sum, detail) => sum + Number(detail.matchedQty), 0);
+        return this.toLot(trade, Number(trade.quantity) - matchedQty);
+      })
+      .filter(lot => lot.remainingQty > QUANTITY_EPSILON)
+      .sort((a, b) => a.tradeDate.getTime() - b.tradeDate.getTime());
+  }
+
+  /**
+   * Match a sell against open lots with the given method.
+   * Consumes remainingQty of the lots in place.
+   * @param sellTrade The sell trade to match
+   * @param lots Open lots dated on or before the sell
+   * @param method Cost basis method
+   * @param selections Lots picked by the user (SPECIFIC_LOT); the rest is matched FIFO
+   * @returns TradeMatchResult with matched details and remaining quantity
+   */
+  matchSell(
+    sellTrade: Trade,
+    lots: CostBasisLot[],
+    method: CostBasisMethod,
+    selections?: LotSelection[] | null,
+  ): TradeMatchResult {
+    if (sellTrade.side !== TradeSide.SELL) {
+      throw new Error('Cost basis matching can only be applied to SELL trades');
+    }
+
+    const matchedDetails: TradeDetail[] = [];
+    let remainingQuantity = Number(sellTrade.quantity);
+    let totalPnl = 0;
+
+    const averageCost = method === CostBasisMethod.AVERAGE_COST ? this.calculateAverageCost(lots) : null;
+
+    const consume = (lot: CostBasisLot, requestedQty: number) => {
+      const matchedQty = Math.min(requestedQty, lot.remainingQty, remainingQuantity);
+      if (matchedQty <= QUANTITY_EPSILON) return;
+
+      const buyPrice = averageCost ?? lot.price;
+      const detail = new TradeDetail();
+      detail.sellTradeId = sellTrade.tradeId;
+      detail.buyTradeId = lot.tradeId;
+      detail.assetId = sellTrade.assetId;
+      detail.matchedQty = matchedQty;
+      detail.buyPrice = buyPrice;
+      detail.sellPrice = Number(sellTrade.price);
+      detail.feeTax = this.calculateFeeTax(lot, sellTrade, matchedQty);
+      detail.pnl = (Number(sellTrade.price) - buyPrice) * matchedQty - detail.feeTax;
+
+      matchedDetails.push(detail);
+      totalPnl += detail.pnl;
+      remainingQuantity -= matchedQty;
+      lot.remainingQty -= matchedQty;
+    };
+
+    if (method === CostBasisMethod.SPECIFIC_LOT && selections?.length) {
+      for (const selection of selections) {
+        const lot = lots.find(candidate => candidate.tradeId === selection.buyTradeId);
+        if (lot) consume(lot, Number(selection.quantity));
+      }
+    }
+
+    for (const lot of this.orderLots(lots, method)) {
+      if (remainingQuantity <= QUANTITY_EPSILON) break;
+      consume(lot, remainingQuantity);
+    }
+
+    return {
+      matchedDetails,
+      remainingQuantity: Math.max(0, remainingQuantity),
+      totalPnl,
+    };
+  }
+
+  /**
+   * Re-run matching for every sell of one asset in one portfolio
+   * @param trades All trades of the asset in the portfolio
+   * @param method Cost basis method
+   * @returns Matched details of every sell
+   */
+  replay(trades: Trade[], method: CostBasisMethod): TradeDetail[] {
+    const ordered = [...trades].sort((a, b) => {
+      const dateDiff = new Date(a.tradeDate).getTime() - new Date(b.tradeDate).getTime();
+      if (dateDiff !== 0) return dateDiff;
+      if (a.side === b.side) return 0;
+      return a.side === TradeSide.SELL ? 1 : -1;
+    });
+
+    const lots: CostBasisLot[] = [];
+    const details: TradeDetail[] = [];
+    for (const trade of ordered) {
+      if (trade.side === TradeSide.BUY) {
+        lots.push(this.toLot(trade, Number(trade.quantity)));
+      } else if (trade.side === TradeSide.SELL) {
+        const openLots = lots.filter(lot => lot.remainingQty > QUANTITY_EPSILON);
+        details.push(...this.matchSell(trade, openLots, method, trade.lotSelections).matchedDetails);
+      }
+    }
+    return details;
+  }
+
+  /**
+   * Check that picked lots exist and hold enough quantity
+   * @returns Validation errors (empty when valid)
+   */
+  validateSelections(lots: CostBasisLot[], selections: LotSelection[], sellQuantity: number): string[] {
+    const errors: string[] = [];
+    let selectedTotal = 0;
+
+    for (const selection of selections) {
+      const lot = lots.find(candidate => candidate.tradeId === selection.buyTradeId);
+      if (!lot) {
+        errors.push(`Lot ${selection.buyTradeId} is not an open lot of this asset`);
+        continue;
+      }
+      if (Number(selection.quantity) - lot.remainingQty > QUANTITY_EPSILON) {
+        errors.push(`Lot ${selection.buyTradeId} has only ${lot.remainingQty} units left`);
+      }
+      selectedTotal += Number(selection.quantity);
+    }
+
+    if (selectedTotal - sellQuantity > QUANTITY_EPSILON) {
+      errors.push(`Selected quantity ${selectedTotal} exceeds sell quantity ${sellQuantity}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Order in which lots are consumed (SPECIFIC_LOT falls back to FIFO for unpicked quantity)
+   */
+  orderLots(lots: CostBasisLot[], method: CostBasisMethod): CostBasisLot[] {
+    const byDate = (a: CostBasisLot, b: CostBasisLot) => a.tradeDate.getTime() - b.tradeDate.getTime();
+
+    switch (method) {
+      case CostBasisMethod.LIFO:
+        return [...lots].sort((a, b) => byDate(b, a));
+      case CostBasisMethod.HIGHEST_COST:
+        return [...lots].sort((a, b) => (b.price - a.price) || byDate(a, b));
+      default:
+        return [...lots].sort(byDate);
+    }
+  }
+
+  /**
+   * Weighted average price of the open quantity (zero-price bonus lots lower the average)
+   */
+  calculateAverageCost(lots: CostBasisLot[]): number {
+    const openQty = lots.reduce((sum, lot) => sum + lot.remainingQty, 0);
+    if (openQty <= QUANTITY_EPSILON) return 0;
+    return lots.reduce((sum, lot) => sum + lot.remainingQty * lot.price, 0) / openQty;
+  }
+
+  /**
+   * Proportional buy and sell fee/tax for the matched quantity (same split as FIFOEngine)
+   */
+  private calculateFeeTax(lot: CostBasisLot, sellTrade: Trade, matchedQty: number): number {
+    const buyFeeTax = lot.quantity > 0 ? (lot.fee + lot.tax) * (matchedQty / lot.quantity) : 0;
+    const sellFee = Number(sellTrade.fee) || 0;
+    const sellTax = Number(sellTrade.tax) || 0;
+    const sellFeeTax = (sellFee + sellTax) * (matchedQty / Number(sellTrade.quantity));
+    return buyFeeTax + sellFeeTax;
+  }
+
+  private toLot(trade: Trade, remainingQty: number): CostBasisLot {
+    return {
+      tradeId: trade.tradeId,
+      tradeDate: new Date(trade.tradeDate),
+      quantity: Number(trade.quantity),
+      price: Number(trade.price),
+      fee: Number(trade.fee) || 0,
+      tax: Number(trade.tax) || 0,
+      remainingQty,
+    };
+  }
+}
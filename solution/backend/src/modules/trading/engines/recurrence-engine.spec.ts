@@ -0,0 +1,55 @@
+import { RecurrenceEngine } from './recurrence-engine';
+import { RecurrenceFrequency } from '../entities/recurring-transaction.entity';
+
+describe('RecurrenceEngine', () => {
+  let engine: RecurrenceEngine;
+
+  beforeEach(() => {
+    engine = new RecurrenceEngine();
+  });
+
+  describe('monthly', () => {
+    it('should run on the given day of every month', () => {
+      const rule = { frequency: RecurrenceFrequency.MONTHLY, startDate: '2024-01-20', dayOfMonth: 5 };
+
+      expect(engine.firstRunDate(rule)).toBe('2024-02-05');
+      expect(engine.nextRunDate(rule, '2024-02-05')).toBe('2024-03-05');
+    });
+
+    it('should fall on the last day of shorter months', () => {
+      const rule = { frequency: RecurrenceFrequency.MONTHLY, startDate: '2024-01-31', dayOfMonth: 31 };
+
+      expect(engine.dueDates(rule, '2024-04-30')).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+    });
+
+    it('should stop after the end date', () => {
+      const rule = { frequency: RecurrenceFrequency.MONTHLY, startDate: '2024-11-10', endDate: '2025-01-09' };
+
+      expect(engine.dueDates(rule, '2025-12-31')).toEqual(['2024-11-10', '2024-12-10']);
+      expect(engine.nextRunDate(rule, '2024-12-10')).toBeNull();
+    });
+  });
+
+  describe('weekly', () => {
+    it('should run on the given weekday', () => {
+      // 2024-03-06 is a Wednesday
+      const rule = { frequency: RecurrenceFrequency.WEEKLY, startDate: '2024-03-06', dayOfWeek: 1 };
+
+      expect(engine.dueDates(rule, '2024-03-25')).toEqual(['2024-03-11', '2024-03-18', '2024-03-25']);
+    });
+  });
+
+  describe('quarterly', () => {
+    it('should run every three months from the start month', () => {
+      const rule = { frequency: RecurrenceFrequency.QUARTERLY, startDate: '2024-02-15', dayOfMonth: 15 };
+
+      expect(engine.dueDates(rule, '2025-02-15')).toEqual(['2024-02-15', '2024-05-15', '2024-08-15', '2024-11-15', '2025-02-15']);
+    });
+
+    it('should skip to the next quarter when the day has passed', () => {
+      const rule = { frequency: RecurrenceFrequency.QUARTERLY, startDate: '2024-01-20', dayOfMonth: 10 };
+
+      expect(engine.firstRunDate(rule)).toBe('2024-04-10');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { RecurrenceFrequency } from '../entities/recurring-transaction.entity';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  startDate: string;
+  endDate?: string | null;
+  dayOfMonth?: number | null;
+  dayOfWeek?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RecurrenceEngine {
+  /**
+   * First due date of a rule
+   * @param rule Recurrence rule
+   * @returns Date (YYYY-MM-DD), or null when the rule ends before its first due date
+   */
+  firstRunDate(rule: RecurrenceRule): string | null {
+    return this.onOrAfter(rule, rule.startDate);
+  }
+
+  /**
+   * Due date following a given due date
+   * @param rule Recurrence rule
+   * @param after Previous due date (YYYY-MM-DD)
+   * @returns Date (YYYY-MM-DD), or null when the rule has ended
+   */
+  nextRunDate(rule: RecurrenceRule, after: string): string | null {
+    return this.onOrAfter(rule, this.addDays(after, 1));
+  }
+
+  /**
+   * Due dates from the start of a rule up to and including a date
+   * @param rule Recurrence rule
+   * @param until Last date (YYYY-MM-DD)
+   * @param limit Maximum number of dates returned
+   */
+  dueDates(rule: RecurrenceRule, until: string, limit = 120): string[] {
+    const dates: string[] = [];
+    let date = this.firstRunDate(rule);
+    while (date && date <= until && dates.length < limit) {
+      dates.push(date);
+      date = this.nextRunDate(rule, date);
+    }
+    return dates;
+  }
+
+  /**
+   * First due date on or after a date, bounded by the start and end of the rule
+   */
+  onOrAfter(rule: RecurrenceRule, date: string): string | null {
+    const from = date < rule.startDate ? rule.startDate : date;
+    let candidate: string;
+
+    switch (rule.frequency) {
+      case RecurrenceFrequency.WEEKLY:
+        candidate = this.nextWeekday(from, rule.dayOfWeek ?? this.parse(rule.startDate).getUTCDay());
+        break;
+      case RecurrenceFrequency.MONTHLY:
+        candidate = this.nextMonthDay(from, this.dayOfMonth(rule), 1, this.parse(rule.startDate).getUTCMonth());
+        break;
+      case RecurrenceFrequency.QUARTERLY:
+        candidate = this.nextMonthDay(from, this.dayOfMonth(rule), 3, this.parse(rule.startDate).getUTCMonth());
+        break;
+      default:
+        throw new Error(`Unsupported recurrence frequency: ${rule.frequency}`);
+    }
+
+    if (rule.endDate && candidate > rule.endDate) {
+      return null;
+    }
+    return candidate;
+  }
+
+  private dayOfMonth(rule: RecurrenceRule): number {
+    return rule.dayOfMonth ?? this.parse(rule.startDate).getUTCDate();
+  }
+
+  private nextWeekday(from: string, dayOfWeek: number): string {
+    const offset = (dayOfWeek - this.parse(from).getUTCDay() + 7) % 7;
+    return this.addDays(from, offset);
+  }
+
+  /**
+   * First month day on or after a date in months aligned to an anchor month every `step` months.
+   * Days past the end of a month fall on its last day.
+   */
+  private nextMonthDay(from: string, day: number, step: number, anchorMonth: number): string {
+    const fromDate = this.parse(from);
+    let year = fromDate.getUTCFullYear();
+    let month = fromDate.getUTCMonth();
+
+    const misalignment = (((month - anchorMonth) % step) + step) % step;
+    if (misalignment > 0) {
+      month += step - misalignment;
+    }
+
+    for (;;) {
+      year += Math.floor(month / 12);
+      month = month % 12;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      const candidate = this.format(new Date(Date.UTC(year, month, Math.min(day, lastDay))));
+      if (candidate >= from) {
+        return candidate;
+      }
+      month += step;
+    }
+  }
+
+  private addDays(date: string, days: number): string {
+    return this.format(new Date(this.parse(date).getTime() + days * DAY_MS));
+  }
+
+  private parse(date: string): Date {
+    return new Date(`${date}T00:00:00.000Z`);
+  }
+
+  private format(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { CorporateAction } from './corporate-action.entity';
+
+/**
+ * One change made to a portfolio when a corporate action was applied.
+ * Lot adjustments keep the previous quantity, price, fee and tax of the lot;
+ * created trades and cash flows are referenced so reversal can delete them.
+ */
+@Entity('corporate_action_adjustments')
+@Index(['corporateActionId'])
+@Index(['portfolioId'])
+export class CorporateActionAdjustment {
+  @PrimaryGeneratedColumn('uuid', { name: 'adjustment_id' })
+  adjustmentId: string;
+
+  @Column('uuid', { name: 'corporate_action_id' })
+  corporateActionId: string;
+
+  @Column('uuid', { name: 'portfolio_id' })
+  portfolioId: string;
+
+  @Column('uuid', { name: 'asset_id' })
+  assetId: string;
+
+  /**
+   * Adjusted lot (null for adjustments that only created a trade or cash flow)
+   */
+  @Column('uuid', { nullable: true, name: 'trade_id' })
+  tradeId?: string | null;
+
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'previous_quantity' })
+  previousQuantity?: number | null;
+
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'previous_price' })
+  previousPrice?: number | null;
+
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'previous_fee' })
+  previousFee?: number | null;
+
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'previous_tax' })
+  previousTax?: number | null;
+
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'new_quantity' })
+  newQuantity?: number | null;
+
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'new_price' })
+  newPrice?: number | null;
+
+  @Column('uuid', { nullable: true, name: 'created_trade_id' })
+  createdTradeId?: string | null;
+
+  @Column('uuid', { nullable: true, name: 'cash_flow_id' })
+  cashFlowId?: string | null;
+
+  /**
+   * Shares held as of the ex-date that the adjustment was based on
+   */
+  @Column('decimal', { precision: 18, scale: 8, default: 0, name: 'eligible_quantity' })
+  eligibleQuantity: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => CorporateAction, (action) => action.adjustments, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'corporate_action_id' })
+  corporateAction: CorporateAction;
+}
@@ -0,0 +1,128 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+import { CorporateActionAdjustment } from './corporate-action-adjustment.entity';
+
+export enum CorporateActionType {
+  STOCK_SPLIT = 'STOCK_SPLIT',
+  STOCK_DIVIDEND = 'STOCK_DIVIDEND',
+  CASH_DIVIDEND = 'CASH_DIVIDEND',
+  RIGHTS_ISSUE = 'RIGHTS_ISSUE',
+}
+
+export enum CorporateActionStatus {
+  PENDING = 'PENDING',
+  APPLIED = 'APPLIED',
+  REVERSED = 'REVERSED',
+}
+
+/**
+ * Corporate action of a global asset (split, stock dividend, cash dividend, rights issue).
+ * Applying it adjusts the open lots of every portfolio holding the asset as of the ex-date;
+ * each change is recorded in CorporateActionAdjustment so the action can be reversed.
+ */
+@Entity('corporate_actions')
+@Index(['globalAssetId'])
+@Index(['exDate'])
+@Index(['status'])
+export class CorporateAction {
+  @PrimaryGeneratedColumn('uuid', { name: 'corporate_action_id' })
+  corporateActionId: string;
+
+  @Column('uuid', { name: 'global_asset_id' })
+  globalAssetId: string;
+
+  @Column({
+    type: 'enum',
+    enum: CorporateActionType,
+    name: 'action_type'
+  })
+  actionType: CorporateActionType;
+
+  /**
+   * Shares held after the split per share held before (e.g., 2 for a 1:2 split)
+   */
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'split_ratio' })
+  splitRatio?: number | null;
+
+  /**
+   * New shares per 100 shares held (e.g., 15 for a 15% stock dividend)
+   */
+  @Column('decimal', { precision: 10, scale: 4, nullable: true, name: 'stock_dividend_percent' })
+  stockDividendPercent?: number | null;
+
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'cash_dividend_per_share' })
+  cashDividendPerShare?: number | null;
+
+  /**
+   * Shares that may be subscribed per share held (e.g., 0.2 for a 5:1 rights issue)
+   */
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'rights_ratio' })
+  rightsRatio?: number | null;
+
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'subscription_price' })
+  subscriptionPrice?: number | null;
+
+  @Column('date', { name: 'ex_date' })
+  exDate: string;
+
+  @Column('date', { nullable: true, name: 'record_date' })
+  recordDate?: string | null;
+
+  /**
+   * Date the cash is paid or the new shares are credited; defaults to the ex-date
+   */
+  @Column('date', { nullable: true, name: 'payment_date' })
+  paymentDate?: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: CorporateActionStatus,
+    default: CorporateActionStatus.PENDING,
+    name: 'status'
+  })
+  status: CorporateActionStatus;
+
+  @Column('timestamp', { nullable: true, name: 'applied_at' })
+  appliedAt?: Date | null;
+
+  @Column('text', { nullable: true, name: 'notes' })
+  notes?: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => GlobalAsset)
+  @JoinColumn({ name: 'global_asset_id' })
+  globalAsset: GlobalAsset;
+
+  @OneToMany(() => CorporateActionAdjustment, (adjustment) => adjustment.corporateAction)
+  adjustments: CorporateActionAdjustment[];
+
+  /**
+   * Quantity multiplier applied to open lots (1 when the action does not change lot quantities)
+   */
+  get quantityFactor(): number {
+    switch (this.actionType) {
+      case CorporateActionType.STOCK_SPLIT:
+        return Number(this.splitRatio) || 1;
+      case CorporateActionType.STOCK_DIVIDEND:
+        return 1 + (Number(this.stockDividendPercent) || 0) / 100;
+      default:
+        return 1;
+    }
+  }
+}
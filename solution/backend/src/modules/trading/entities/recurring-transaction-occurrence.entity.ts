@@ -0,0 +1,75 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { CashFlowStatus } from '../../portfolio/entities/cash-flow.entity';
+import { RecurringTransaction } from './recurring-transaction.entity';
+
+/**
+ * One generated item of a recurring transaction.
+ * Cash flow occurrences own a PENDING cash flow that is completed on confirmation;
+ * trade occurrences hold the proposed quantity and price until the trade is created.
+ * COMPLETED means confirmed and CANCELLED means skipped.
+ */
+@Entity('recurring_transaction_occurrences')
+@Index(['recurringTransactionId', 'scheduledDate'], { unique: true })
+@Index(['portfolioId', 'status'])
+export class RecurringTransactionOccurrence {
+  @PrimaryGeneratedColumn('uuid', { name: 'occurrence_id' })
+  occurrenceId: string;
+
+  @Column('uuid', { name: 'recurring_transaction_id' })
+  recurringTransactionId: string;
+
+  @Column('uuid', { name: 'portfolio_id' })
+  portfolioId: string;
+
+  @Column('date', { name: 'scheduled_date' })
+  scheduledDate: string;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: CashFlowStatus.PENDING,
+    name: 'status'
+  })
+  status: CashFlowStatus;
+
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'quantity' })
+  quantity?: number | null;
+
+  /**
+   * Market price on the scheduled date; null when no price was available
+   */
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'price' })
+  price?: number | null;
+
+  @Column('decimal', { precision: 20, scale: 2, nullable: true, name: 'amount' })
+  amount?: number | null;
+
+  @Column('uuid', { nullable: true, name: 'cash_flow_id' })
+  cashFlowId?: string | null;
+
+  @Column('uuid', { nullable: true, name: 'trade_id' })
+  tradeId?: string | null;
+
+  @Column('timestamp', { nullable: true, name: 'resolved_at' })
+  resolvedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => RecurringTransaction, (plan) => plan.occurrences, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'recurring_transaction_id' })
+  recurringTransaction: RecurringTransaction;
+}
@@ -0,0 +1,140 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { Asset } from '../../asset/entities/asset.entity';
+import { TradeSide } from './trade.entity';
+import { RecurringTransactionOccurrence } from './recurring-transaction-occurrence.entity';
+
+export enum RecurringTransactionKind {
+  TRADE = 'TRADE',
+  CASH_FLOW = 'CASH_FLOW',
+}
+
+export enum RecurrenceFrequency {
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  QUARTERLY = 'QUARTERLY',
+}
+
+/**
+ * Recurring trade or cash flow of a portfolio (periodic investment plan, monthly salary deposit, ...).
+ * Every due date generates a pending occurrence that the user confirms, skips or edits.
+ */
+@Entity('recurring_transactions')
+@Index(['portfolioId'])
+@Index(['isActive', 'nextRunDate'])
+export class RecurringTransaction {
+  @PrimaryGeneratedColumn('uuid', { name: 'recurring_transaction_id' })
+  recurringTransactionId: string;
+
+  @Column('uuid', { name: 'portfolio_id' })
+  portfolioId: string;
+
+  @Column('varchar', { length: 255, name: 'name' })
+  name: string;
+
+  @Column({
+    type: 'enum',
+    enum: RecurringTransactionKind,
+    name: 'kind'
+  })
+  kind: RecurringTransactionKind;
+
+  @Column({
+    type: 'enum',
+    enum: RecurrenceFrequency,
+    name: 'frequency'
+  })
+  frequency: RecurrenceFrequency;
+
+  /**
+   * Day of the month for MONTHLY and QUARTERLY plans, clamped to the last day of shorter months
+   */
+  @Column('int', { nullable: true, name: 'day_of_month' })
+  dayOfMonth?: number | null;
+
+  /**
+   * Day of the week for WEEKLY plans (0 = Sunday)
+   */
+  @Column('int', { nullable: true, name: 'day_of_week' })
+  dayOfWeek?: number | null;
+
+  @Column('date', { name: 'start_date' })
+  startDate: string;
+
+  @Column('date', { nullable: true, name: 'end_date' })
+  endDate?: string | null;
+
+  /**
+   * Next date an occurrence is due; null once the plan has ended
+   */
+  @Column('date', { nullable: true, name: 'next_run_date' })
+  nextRunDate?: string | null;
+
+  @Column('boolean', { default: true, name: 'is_active' })
+  isActive: boolean;
+
+  // Trade plans
+  @Column('uuid', { nullable: true, name: 'asset_id' })
+  assetId?: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: TradeSide,
+    nullable: true,
+    name: 'side'
+  })
+  side?: TradeSide | null;
+
+  /**
+   * Fixed quantity per trade; when empty the quantity is amount / price on the due date
+   */
+  @Column('decimal', { precision: 18, scale: 8, nullable: true, name: 'quantity' })
+  quantity?: number | null;
+
+  // Cash flow plans (DEPOSIT, WITHDRAWAL, FEE)
+  @Column('varchar', { length: 50, nullable: true, name: 'cash_flow_type' })
+  cashFlowType?: string | null;
+
+  /**
+   * Cash flow amount, or the amount invested per trade when no quantity is set
+   */
+  @Column('decimal', { precision: 20, scale: 2, nullable: true, name: 'amount' })
+  amount?: number | null;
+
+  @Column('varchar', { length: 3, nullable: true, name: 'currency' })
+  currency?: string | null;
+
+  @Column('varchar', { length: 100, nullable: true, name: 'funding_source' })
+  fundingSource?: string | null;
+
+  @Column('text', { nullable: true, name: 'description' })
+  description?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Portfolio, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'portfolio_id' })
+  portfolio: Portfolio;
+
+  @ManyToOne(() => Asset, { nullable: true })
+  @JoinColumn({ name: 'asset_id' })
+  asset?: Asset;
+
+  @OneToMany(() => RecurringTransactionOccurrence, (occurrence) => occurrence.recurringTransaction)
+  occurrences: RecurringTransactionOccurrence[];
+}
@@ -32,6 +32,8 @@ export enum TradeSource {
   MANUAL = 'MANUAL',
   API = 'API',
   IMPORT = 'IMPORT',
+  CORPORATE_ACTION = 'CORPORATE_ACTION',
+  RECURRING = 'RECURRING',
 }
 
 @Entity('trades')
@@ -91,6 +93,19 @@ export class Trade {
   @Column('text', { nullable: true, name: 'notes' })
   notes?: string;
 
+  /**
+   * Rate converting the asset currency into the portfolio base currency on the trade date.
+   * Null when the asset is traded in the portfolio base currency.
+   */
+  @Column('decimal', { precision: 20, scale: 8, nullable: true, name: 'fx_rate' })
+  fxRate?: number | null;
+
+  /**
+   * Buy lots picked for this sell when the portfolio uses specific-lot identification
+   */
+  @Column('jsonb', { nullable: true, name: 'lot_selections' })
+  lotSelections?: Array<{ buyTradeId: string; quantity: number }> | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -0,0 +1,144 @@
+/**
+ * Column layouts of the broker statements supported by the trade importer.
+ * Header aliases are compared after normalization (lowercase, accents stripped,
+ * whitespace collapsed), so Vietnamese and English headers can share one list.
+ */
+
+export enum BrokerStatementLayout {
+  SSI = 'SSI',
+  VPS = 'VPS',
+  TCBS = 'TCBS',
+  GENERIC = 'GENERIC',
+}
+
+export type TradeImportField =
+  | 'tradeDate'
+  | 'symbol'
+  | 'side'
+  | 'quantity'
+  | 'price'
+  | 'fee'
+  | 'tax'
+  | 'exchange'
+  | 'notes';
+
+export const REQUIRED_IMPORT_FIELDS: TradeImportField[] = ['tradeDate', 'symbol', 'side', 'quantity', 'price'];
+
+export const OPTIONAL_IMPORT_FIELDS: TradeImportField[] = ['fee', 'tax', 'exchange', 'notes'];
+
+export interface BrokerLayoutDefinition {
+  layout: BrokerStatementLayout;
+  name: string;
+  description: string;
+  headerAliases: Partial<Record<TradeImportField, string[]>>;
+  /** Accepted date formats (date-fns tokens), tried in order */
+  dateFormats: string[];
+  /** Decimal separator used by the broker for numeric cells */
+  decimalSeparator: '.' | ',';
+  /** Multiplier applied to prices (some statements quote prices in thousands of VND) */
+  priceMultiplier: number;
+}
+
+/**
+ * Words used in the side column to mark buy and sell orders.
+ * Compared after normalization, same as headers.
+ */
+export const BUY_SIDE_KEYWORDS = ['buy', 'b', 'mua', 'm', 'nb'];
+export const SELL_SIDE_KEYWORDS = ['sell', 's', 'ban', 'nm'];
+
+const COMMON_DATE_FORMATS = ['dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'yyyy-MM-dd', 'dd/MM/yyyy HH:mm:ss', 'yyyy-MM-dd HH:mm:ss'];
+
+export const BROKER_LAYOUTS: Record<BrokerStatementLayout, BrokerLayoutDefinition> = {
+  [BrokerStatementLayout.SSI]: {
+    layout: BrokerStatementLayout.SSI,
+    name: 'SSI',
+    description: 'SSI iBoard order matching history (Lịch sử khớp lệnh)',
+    headerAliases: {
+      tradeDate: ['ngay gd', 'ngay giao dich', 'ngay khop'],
+      symbol: ['ma ck', 'ma chung khoan'],
+      side: ['loai gd', 'loai lenh', 'mua/ban'],
+      quantity: ['kl khop', 'khoi luong khop'],
+      price: ['gia khop', 'gia khop tb'],
+      fee: ['phi', 'phi gd', 'phi giao dich'],
+      tax: ['thue', 'thue tncn'],
+      exchange: ['san', 'san gd'],
+      notes: ['so hieu lenh', 'so hieu', 'ghi chu'],
+    },
+    dateFormats: COMMON_DATE_FORMATS,
+    decimalSeparator: '.',
+    priceMultiplier: 1,
+  },
+  [BrokerStatementLayout.VPS]: {
+    layout: BrokerStatementLayout.VPS,
+    name: 'VPS',
+    description: 'VPS SmartOne order history (Sổ lệnh khớp)',
+    headerAliases: {
+      tradeDate: ['ngay giao dich', 'ngay gd', 'ngay'],
+      symbol: ['ma ck', 'ma'],
+      side: ['lenh', 'mua/ban', 'loai lenh'],
+      quantity: ['khoi luong khop', 'kl khop', 'kl'],
+      price: ['gia khop', 'gia'],
+      fee: ['phi gd', 'phi giao dich', 'phi'],
+      tax: ['thue tncn', 'thue ban', 'thue'],
+      exchange: ['san'],
+      notes: ['so hieu lenh', 'ghi chu'],
+    },
+    dateFormats: COMMON_DATE_FORMATS,
+    decimalSeparator: '.',
+    priceMultiplier: 1,
+  },
+  [BrokerStatementLayout.TCBS]: {
+    layout: BrokerStatementLayout.TCBS,
+    name: 'TCBS',
+    description: 'TCInvest matched order export',
+    headerAliases: {
+      tradeDate: ['trading date', 'trade date', 'matched date'],
+      symbol: ['ticker', 'symbol'],
+      side: ['side', 'order side', 'buy/sell'],
+      quantity: ['matched volume', 'matched quantity', 'volume'],
+      price: ['matched price', 'avg matched price', 'price'],
+      fee: ['fee', 'trading fee'],
+      tax: ['tax', 'selling tax', 'pit'],
+      exchange: ['exchange', 'market'],
+      notes: ['order no', 'order id', 'note'],
+    },
+    dateFormats: COMMON_DATE_FORMATS,
+    decimalSeparator: '.',
+    priceMultiplier: 1,
+  },
+  [BrokerStatementLayout.GENERIC]: {
+    layout: BrokerStatementLayout.GENERIC,
+    name: 'Generic CSV',
+    description: 'Any CSV/XLSX file with a user-defined column mapping',
+    headerAliases: {
+      tradeDate: ['date', 'trade date', 'tradedate', 'ngay'],
+      symbol: ['symbol', 'ticker', 'asset', 'ma'],
+      side: ['side', 'type', 'action'],
+      quantity: ['quantity', 'qty', 'volume', 'units'],
+      price: ['price', 'unit price'],
+      fee: ['fee', 'fees', 'commission'],
+      tax: ['tax', 'taxes'],
+      exchange: ['exchange', 'broker'],
+      notes: ['notes', 'note', 'memo', 'description'],
+    },
+    dateFormats: COMMON_DATE_FORMATS,
+    decimalSeparator: '.',
+    priceMultiplier: 1,
+  },
+};
+
+/**
+ * Normalize a header or keyword for alias comparison.
+ * Strips Vietnamese diacritics so "Ngày GD" and "ngay gd" match.
+ */
+export function normalizeHeader(value: string): string {
+  return (value || '')
+    .toString()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
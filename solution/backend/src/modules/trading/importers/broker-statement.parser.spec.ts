@@ -0,0 +1,129 @@
+import { BrokerStatementParser } from './broker-statement.parser';
+import { BrokerStatementLayout } from './broker-statement-layouts';
+import { TradeSide } from '../entities/trade.entity';
+
+describe('BrokerStatementParser', () => {
+  let parser: BrokerStatementParser;
+
+  const csvFile = (content: string) => ({
+    originalname: 'statement.csv',
+    buffer: Buffer.from(content, 'utf8'),
+  });
+
+  beforeEach(() => {
+    parser = new BrokerStatementParser();
+  });
+
+  describe('parseCsv', () => {
+    it('should split quoted fields and detect semicolon delimiter', () => {
+      const rows = parser.parseCsv('a;"b;c";"say ""hi"""\r\n1;2;3\n');
+      expect(rows).toEqual([
+        ['a', 'b;c', 'say "hi"'],
+        ['1', '2', '3'],
+      ]);
+    });
+  });
+
+  describe('parseNumber', () => {
+    it('should strip thousands separators', () => {
+      expect(parser.parseNumber('1,250,000')).toBe(1250000);
+      expect(parser.parseNumber('1.250.000,5', ',')).toBe(1250000.5);
+    });
+
+    it('should return undefined for non-numeric cells', () => {
+      expect(parser.parseNumber('')).toBeUndefined();
+      expect(parser.parseNumber('abc')).toBeUndefined();
+    });
+  });
+
+  describe('parseSide', () => {
+    it('should map Vietnamese and English side labels', () => {
+      expect(parser.parseSide('Mua')).toBe(TradeSide.BUY);
+      expect(parser.parseSide('Bán')).toBe(TradeSide.SELL);
+      expect(parser.parseSide('BUY')).toBe(TradeSide.BUY);
+      expect(parser.parseSide('S')).toBe(TradeSide.SELL);
+      expect(parser.parseSide('Chuyển khoản')).toBeUndefined();
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse an SSI statement with a title block and totals row', () => {
+      const content = [
+        'LỊCH SỬ KHỚP LỆNH',
+        'Tài khoản: 123456',
+        'Ngày GD,Mã CK,Loại GD,KL khớp,Giá khớp,Phí,Thuế',
+        '15/01/2024,HPG,Mua,"1,000","25,500","38,250",0',
+        '20/02/2024,HPG,Bán,500,"28,000","21,000","14,000"',
+        'Tổng,,,"1,500",,"59,250","14,000"',
+      ].join('\n');
+
+      const result = parser.parse(csvFile(content), { layout: BrokerStatementLayout.SSI });
+
+      expect(result.missingFields).toEqual([]);
+      expect(result.columnMapping.symbol).toBe('Mã CK');
+      expect(result.rows).toHaveLength(2);
+      expect(result.rows[0]).toMatchObject({
+        rowNumber: 4,
+        symbol: 'HPG',
+        side: TradeSide.BUY,
+        quantity: 1000,
+        price: 25500,
+        fee: 38250,
+        tax: 0,
+        errors: [],
+      });
+      expect(result.rows[0].tradeDate.toISOString()).toBe('2024-01-15T00:00:00.000Z');
+      expect(result.rows[1]).toMatchObject({ side: TradeSide.SELL, quantity: 500, tax: 14000 });
+    });
+
+    it('should use an explicit column mapping for generic files', () => {
+      const content = [
+        'When,Code,Action,Units,Unit Cost',
+        '2024-03-01,btc,buy,0.5,42000',
+      ].join('\n');
+
+      const result = parser.parse(csvFile(content), {
+        layout: BrokerStatementLayout.GENERIC,
+        columnMapping: {
+          tradeDate: 'When',
+          symbol: 'Code',
+          side: 'Action',
+          quantity: 'Units',
+          price: 'Unit Cost',
+        },
+      });
+
+      expect(result.rows).toHaveLength(1);
+      expect(result.rows[0]).toMatchObject({
+        symbol: 'BTC',
+        side: TradeSide.BUY,
+        quantity: 0.5,
+        price: 42000,
+        errors: [],
+      });
+    });
+
+    it('should report row errors and apply the price multiplier', () => {
+      const content = [
+        'Trading date,Ticker,Side,Matched volume,Matched price',
+        '31/13/2024,FPT,Buy,100,95.5',
+        '01/04/2024,FPT,Transfer,100,96',
+      ].join('\n');
+
+      const result = parser.parse(csvFile(content), {
+        layout: BrokerStatementLayout.TCBS,
+        priceMultiplier: 1000,
+      });
+
+      expect(result.rows[0].price).toBe(95500);
+      expect(result.rows[0].errors).toEqual(['Invalid trade date "31/13/2024"']);
+      expect(result.rows[1].errors).toEqual(['Unknown trade side "Transfer"']);
+    });
+
+    it('should report missing required columns', () => {
+      const result = parser.parse(csvFile('Foo,Bar\n1,2'), { layout: BrokerStatementLayout.VPS });
+      expect(result.rows).toEqual([]);
+      expect(result.missingFields).toEqual(['tradeDate', 'symbol', 'side', 'quantity', 'price']);
+    });
+  });
+});
@@ -0,0 +1,395 @@
+import * as XLSX from 'xlsx';
+import { parse as parseDateFns, isValid } from 'date-fns';
+import { TradeSide } from '../entities/trade.entity';
+import {
+  BrokerStatementLayout,
+  BrokerLayoutDefinition,
+  BROKER_LAYOUTS,
+  BUY_SIDE_KEYWORDS,
+  SELL_SIDE_KEYWORDS,
+  REQUIRED_IMPORT_FIELDS,
+  OPTIONAL_IMPORT_FIELDS,
+  TradeImportField,
+  normalizeHeader,
+} from './broker-statement-layouts';
+
+export type ColumnMapping = Partial<Record<TradeImportField, string>>;
+
+export interface StatementFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+export interface StatementParseOptions {
+  layout: BrokerStatementLayout;
+  columnMapping?: ColumnMapping;
+  dateFormat?: string;
+  priceMultiplier?: number;
+  decimalSeparator?: '.' | ',';
+}
+
+export interface ParsedStatementRow {
+  /** 1-based row number in the source file, for error reporting */
+  rowNumber: number;
+  tradeDate?: Date;
+  symbol?: string;
+  side?: TradeSide;
+  quantity?: number;
+  price?: number;
+  fee: number;
+  tax: number;
+  exchange?: string;
+  notes?: string;
+  errors: string[];
+}
+
+export interface ParsedStatement {
+  headers: string[];
+  columnMapping: ColumnMapping;
+  missingFields: TradeImportField[];
+  rows: ParsedStatementRow[];
+}
+
+/** Number of leading rows scanned for the header row (statements often start with a title block) */
+const HEADER_SCAN_LIMIT = 20;
+
+/**
+ * Parses broker statement files (CSV or XLSX) into normalized trade rows.
+ * The parser is stateless and does not touch the database; asset resolution
+ * and duplicate detection are done by TradeImportService.
+ */
+export class BrokerStatementParser {
+  /**
+   * Parse a statement file using the given layout and optional column mapping
+   * @param file Uploaded statement file
+   * @param options Layout and parsing overrides
+   * @returns Detected headers, column mapping and parsed rows
+   */
+  parse(file: StatementFile, options: StatementParseOptions): ParsedStatement {
+    const layoutDef = BROKER_LAYOUTS[options.layout] || BROKER_LAYOUTS[BrokerStatementLayout.GENERIC];
+    const table = this.readTable(file);
+
+    const headerIndex = this.findHeaderRow(table, layoutDef, options.columnMapping);
+    if (headerIndex === -1) {
+      return {
+        headers: table[0]?.map(cell => cell.trim()) || [],
+        columnMapping: options.columnMapping || {},
+        missingFields: [...REQUIRED_IMPORT_FIELDS],
+        rows: [],
+      };
+    }
+
+    const headers = table[headerIndex].map(cell => cell.trim());
+    const columnMapping = this.resolveColumnMapping(headers, layoutDef, options.columnMapping);
+    const missingFields = REQUIRED_IMPORT_FIELDS.filter(field => !columnMapping[field]);
+
+    const columnIndexes: Partial<Record<TradeImportField, number>> = {};
+    for (const [field, header] of Object.entries(columnMapping)) {
+      columnIndexes[field as TradeImportField] = headers.indexOf(header);
+    }
+
+    const dateFormats = options.dateFormat ? [options.dateFormat, ...layoutDef.dateFormats] : layoutDef.dateFormats;
+    const decimalSeparator = options.decimalSeparator || layoutDef.decimalSeparator;
+    const priceMultiplier = options.priceMultiplier || layoutDef.priceMultiplier;
+
+    const rows: ParsedStatementRow[] = [];
+    for (let i = headerIndex + 1; i < table.length; i++) {
+      const cells = table[i];
+      if (cells.every(cell => !cell || !cell.trim())) {
+        continue;
+      }
+
+      const cell = (field: TradeImportField): string => {
+        const index = columnIndexes[field];
+        return index !== undefined && index >= 0 ? (cells[index] || '').trim() : '';
+      };
+
+      // Statements usually end with a totals row that has no symbol or side
+      if (!cell('symbol') && !cell('side')) {
+        continue;
+      }
+
+      rows.push(this.parseRow(i + 1, cell, dateFormats, decimalSeparator, priceMultiplier));
+    }
+
+    return { headers, columnMapping, missingFields, rows };
+  }
+
+  /**
+   * Read a CSV or XLSX file into a table of string cells
+   */
+  readTable(file: StatementFile): string[][] {
+    const fileName = (file.originalname || '').toLowerCase();
+
+    if (fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) {
+      const workbook = XLSX.read(file.buffer, { type: 'buffer', cellDates: true });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      if (!sheet) {
+        return [];
+      }
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+        header: 1,
+        raw: false,
+        defval: '',
+        dateNF: 'yyyy-mm-dd',
+      });
+      return rows.map(row => row.map(value => (value === null || value === undefined ? '' : String(value))));
+    }
+
+    return this.parseCsv(file.buffer.toString('utf8'));
+  }
+
+  /**
+   * Parse CSV text (RFC 4180 quoting) with delimiter auto-detection (comma, semicolon or tab)
+   */
+  parseCsv(text: string): string[][] {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.split(/\r?\n/).find(line => line.trim().length > 0) || '';
+    const delimiter = [',', ';', '\t']
+      .map(candidate => ({ candidate, count: firstLine.split(candidate).length - 1 }))
+      .sort((a, b) => b.count - a.count)[0].candidate;
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (content[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field.length > 0 || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Parse a numeric cell, honouring the broker's decimal separator
+   * @returns Parsed number or undefined when the cell is not numeric
+   */
+  parseNumber(value: string, decimalSeparator: '.' | ',' = '.'): number | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    let text = String(value).trim();
+    if (!text) {
+      return undefined;
+    }
+
+    const isNegative = /^\(.*\)$/.test(text) || text.startsWith('-');
+    text = text.replace(/[^\d.,]/g, '');
+
+    if (decimalSeparator === ',') {
+      text = text.replace(/\./g, '').replace(',', '.');
+    } else {
+      text = text.replace(/,/g, '');
+    }
+
+    if (!text) {
+      return undefined;
+    }
+
+    const parsed = Number(text);
+    if (isNaN(parsed)) {
+      return undefined;
+    }
+    return isNegative ? -parsed : parsed;
+  }
+
+  /**
+   * Parse a date cell using the layout's formats, falling back to ISO parsing.
+   * The result is normalized to UTC midnight of the trade day.
+   */
+  parseDate(value: string, formats: string[]): Date | undefined {
+    const text = (value || '').trim();
+    if (!text) {
+      return undefined;
+    }
+
+    for (const format of formats) {
+      const parsed = parseDateFns(text, format, new Date());
+      if (isValid(parsed)) {
+        return new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+      }
+    }
+
+    const fallback = new Date(text);
+    if (!isNaN(fallback.getTime())) {
+      return new Date(Date.UTC(fallback.getFullYear(), fallback.getMonth(), fallback.getDate()));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Map a side cell (Mua/Bán, Buy/Sell, B/S, NB/NM) to a trade side
+   */
+  parseSide(value: string): TradeSide | undefined {
+    const normalized = normalizeHeader(value);
+    if (!normalized) {
+      return undefined;
+    }
+
+    if (BUY_SIDE_KEYWORDS.includes(normalized) || normalized.startsWith('mua') || normalized.startsWith('buy')) {
+      return TradeSide.BUY;
+    }
+    if (SELL_SIDE_KEYWORDS.includes(normalized) || normalized.startsWith('ban') || normalized.startsWith('sell')) {
+      return TradeSide.SELL;
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the header row: the first row that contains most required columns
+   */
+  private findHeaderRow(table: string[][], layoutDef: BrokerLayoutDefinition, explicitMapping?: ColumnMapping): number {
+    const limit = Math.min(table.length, HEADER_SCAN_LIMIT);
+    const mappedHeaders = Object.values(explicitMapping || {}).filter(Boolean).map(normalizeHeader);
+
+    for (let i = 0; i < limit; i++) {
+      const normalizedCells = table[i].map(normalizeHeader);
+
+      if (mappedHeaders.length > 0) {
+        if (mappedHeaders.every(header => normalizedCells.includes(header))) {
+          return i;
+        }
+        continue;
+      }
+
+      const matchedFields = REQUIRED_IMPORT_FIELDS.filter(field =>
+        (layoutDef.headerAliases[field] || []).some(alias => normalizedCells.includes(alias)),
+      );
+      if (matchedFields.length >= REQUIRED_IMPORT_FIELDS.length - 1) {
+        return i;
+      }
+    }
+
+    // Generic files without recognizable headers: treat the first non-empty row as header
+    if (layoutDef.layout === BrokerStatementLayout.GENERIC) {
+      return table.findIndex(row => row.some(cell => cell && cell.trim()));
+    }
+    return -1;
+  }
+
+  /**
+   * Resolve which file column feeds each trade field.
+   * Explicit mappings win; remaining fields are matched by the layout's header aliases.
+   */
+  private resolveColumnMapping(
+    headers: string[],
+    layoutDef: BrokerLayoutDefinition,
+    explicitMapping?: ColumnMapping,
+  ): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const normalizedHeaders = headers.map(normalizeHeader);
+
+    for (const field of [...REQUIRED_IMPORT_FIELDS, ...OPTIONAL_IMPORT_FIELDS]) {
+      const explicit = explicitMapping?.[field];
+      if (explicit) {
+        const index = normalizedHeaders.indexOf(normalizeHeader(explicit));
+        if (index >= 0) {
+          mapping[field] = headers[index];
+        }
+        continue;
+      }
+
+      const aliases = layoutDef.headerAliases[field] || [];
+      const alias = aliases.find(candidate => normalizedHeaders.includes(candidate));
+      if (alias) {
+        mapping[field] = headers[normalizedHeaders.indexOf(alias)];
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Convert one statement row into a normalized trade row, collecting validation errors
+   */
+  private parseRow(
+    rowNumber: number,
+    cell: (field: TradeImportField) => string,
+    dateFormats: string[],
+    decimalSeparator: '.' | ',',
+    priceMultiplier: number,
+  ): ParsedStatementRow {
+    const errors: string[] = [];
+
+    const tradeDate = this.parseDate(cell('tradeDate'), dateFormats);
+    if (!tradeDate) {
+      errors.push(`Invalid trade date "${cell('tradeDate')}"`);
+    }
+
+    const symbol = cell('symbol').toUpperCase().replace(/\s+/g, '');
+    if (!symbol) {
+      errors.push('Symbol is required');
+    }
+
+    const side = this.parseSide(cell('side'));
+    if (!side) {
+      errors.push(`Unknown trade side "${cell('side')}"`);
+    }
+
+    const quantity = this.parseNumber(cell('quantity'), decimalSeparator);
+    if (quantity === undefined || Math.abs(quantity) <= 0) {
+      errors.push(`Invalid quantity "${cell('quantity')}"`);
+    }
+
+    const rawPrice = this.parseNumber(cell('price'), decimalSeparator);
+    if (rawPrice === undefined || rawPrice < 0) {
+      errors.push(`Invalid price "${cell('price')}"`);
+    }
+
+    const fee = Math.abs(this.parseNumber(cell('fee'), decimalSeparator) || 0);
+    const tax = Math.abs(this.parseNumber(cell('tax'), decimalSeparator) || 0);
+
+    return {
+      rowNumber,
+      tradeDate,
+      symbol: symbol || undefined,
+      side,
+      quantity: quantity !== undefined ? Math.abs(quantity) : undefined,
+      price: rawPrice !== undefined ? rawPrice * priceMultiplier : undefined,
+      fee,
+      tax,
+      exchange: cell('exchange') || undefined,
+      notes: cell('notes') || undefined,
+      errors,
+    };
+  }
+}
@@ -0,0 +1,782 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, EntityManager, In, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
+import * as cron from 'node-cron';
+import {
+  CorporateAction,
+  CorporateActionType,
+  CorporateActionStatus,
+} from '../entities/corporate-action.entity';
+import { CorporateActionAdjustment } from '../entities/corporate-action-adjustment.entity';
+import { Trade, TradeSide, TradeSource, TradeType } from '../entities/trade.entity';
+import { TradeDetail } from '../entities/trade-detail.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { CashFlow, CashFlowType, CashFlowStatus } from '../../portfolio/entities/cash-flow.entity';
+import { Asset } from '../../asset/entities/asset.entity';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+import { CorporateActionEngine } from '../engines/corporate-action-engine';
+import { TradingService } from './trading.service';
+import { FxRateService } from '../../market-data/services/fx-rate.service';
+import { TaxFeeCalculationService } from '../../shared/services/tax-fee-calculation.service';
+import { normalizeDateToString } from '../../portfolio/utils/date-normalization.util';
+import { AuditTrailService, AuditRecordInput } from '../../portfolio/services/audit-trail.service';
+import { AuditAction, AuditEntityType } from '../../portfolio/entities/financial-audit-log.entity';
+import {
+  CreateCorporateActionDto,
+  CorporateActionQueryDto,
+  CorporateActionApplyResult,
+} from '../dto/corporate-action.dto';
+
+interface HoldingGroup {
+  portfolioId: string;
+  asset: Asset;
+  trades: Trade[];
+}
+
+/**
+ * Service for corporate actions.
+ * Applying an action adjusts the open lots of every portfolio holding the asset as of the
+ * ex-date, creates DIVIDEND cash flows or subscription trades, and re-runs cost basis matching
+ * for the sells it affects. Every change is recorded so the action can be reversed, and every
+ * trade and cash flow it writes goes to the audit trail.
+ */
+@Injectable()
+export class CorporateActionService {
+  private readonly logger = new Logger(CorporateActionService.name);
+  private readonly cronExpression: string;
+  private readonly timezone: string;
+  private cronJob: cron.ScheduledTask | null = null;
+
+  constructor(
+    @InjectRepository(CorporateAction)
+    private readonly corporateActionRepository: Repository<CorporateAction>,
+    @InjectRepository(Trade)
+    private readonly tradeRepository: Repository<Trade>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    @InjectRepository(Asset)
+    private readonly assetRepository: Repository<Asset>,
+    @InjectRepository(GlobalAsset)
+    private readonly globalAssetRepository: Repository<GlobalAsset>,
+    private readonly dataSource: DataSource,
+    private readonly corporateActionEngine: CorporateActionEngine,
+    private readonly tradingService: TradingService,
+    private readonly fxRateService: FxRateService,
+    private readonly configService: ConfigService,
+    private readonly taxFeeCalculationService: TaxFeeCalculationService,
+    private readonly auditTrailService: AuditTrailService,
+  ) {
+    this.cronExpression = this.configService.get<string>('CORPORATE_ACTION_CRON', '0 8 * * *');
+    this.timezone = this.configService.get<string>('CORPORATE_ACTION_TIMEZONE', 'Asia/Ho_Chi_Minh');
+    this.setupCronJob();
+  }
+
+  /**
+   * Apply pending actions once their ex-date is reached
+   */
+  private setupCronJob(): void {
+    try {
+      this.cronJob = cron.schedule(this.cronExpression, () => {
+        setImmediate(() => {
+          this.applyDueActions().catch(error =>
+            this.logger.error(`Scheduled corporate action run failed: ${error.message}`),
+          );
+        });
+      }, {
+        scheduled: true,
+        timezone: this.timezone,
+      });
+      this.logger.log(`Corporate actions scheduled with expression: ${this.cronExpression}, timezone: ${this.timezone}`);
+    } catch (error) {
+      this.logger.error('Failed to setup corporate action cron job:', error);
+    }
+  }
+
+  async getCorporateActions(query: CorporateActionQueryDto): Promise<CorporateAction[]> {
+    const where: any = {};
+    if (query.globalAssetId) where.globalAssetId = query.globalAssetId;
+    if (query.status) where.status = query.status;
+
+    return this.corporateActionRepository.find({
+      where,
+      relations: ['globalAsset'],
+      order: { exDate: 'DESC', createdAt: 'DESC' },
+    });
+  }
+
+  async getCorporateAction(corporateActionId: string): Promise<CorporateAction> {
+    const action = await this.corporateActionRepository.findOne({
+      where: { corporateActionId },
+      relations: ['globalAsset', 'adjustments'],
+    });
+
+    if (!action) {
+      throw new NotFoundException(`Corporate action with ID ${corporateActionId} not found`);
+    }
+
+    return action;
+  }
+
+  /**
+   * Record a corporate action; it is applied right away when the ex-date has been reached
+   * @param dto Action details
+   * @returns Recorded action
+   */
+  async createCorporateAction(dto: CreateCorporateActionDto): Promise<CorporateAction> {
+    const globalAsset = await this.globalAssetRepository.findOne({ where: { id: dto.globalAssetId } });
+    if (!globalAsset) {
+      throw new NotFoundException(`Global asset with ID ${dto.globalAssetId} not found`);
+    }
+
+    this.validateActionFields(dto);
+
+    const action = await this.corporateActionRepository.save(
+      this.corporateActionRepository.create({
+        globalAssetId: dto.globalAssetId,
+        actionType: dto.actionType,
+        splitRatio: dto.actionType === CorporateActionType.STOCK_SPLIT ? dto.splitRatio : null,
+        stockDividendPercent: dto.actionType === CorporateActionType.STOCK_DIVIDEND ? dto.stockDividendPercent : null,
+        cashDividendPerShare: dto.actionType === CorporateActionType.CASH_DIVIDEND ? dto.cashDividendPerShare : null,
+        rightsRatio: dto.actionType === CorporateActionType.RIGHTS_ISSUE ? dto.rightsRatio : null,
+        subscriptionPrice: dto.actionType === CorporateActionType.RIGHTS_ISSUE ? dto.subscriptionPrice : null,
+        exDate: normalizeDateToString(dto.exDate),
+        recordDate: dto.recordDate ? normalizeDateToString(dto.recordDate) : null,
+        paymentDate: dto.paymentDate ? normalizeDateToString(dto.paymentDate) : null,
+        status: CorporateActionStatus.PENDING,
+        notes: dto.notes,
+      }),
+    );
+
+    this.logger.log(`Recorded ${action.actionType} for ${globalAsset.symbol} with ex-date ${action.exDate}`);
+
+    if (action.exDate <= normalizeDateToString(new Date())) {
+      await this.applyCorporateAction(action.corporateActionId);
+    }
+
+    return this.getCorporateAction(action.corporateActionId);
+  }
+
+  /**
+   * Delete an action that is not applied
+   */
+  async deleteCorporateAction(corporateActionId: string): Promise<void> {
+    const action = await this.getCorporateAction(corporateActionId);
+    if (action.status === CorporateActionStatus.APPLIED) {
+      throw new BadRequestException('Applied corporate actions must be reversed before deletion');
+    }
+    await this.corporateActionRepository.delete(corporateActionId);
+  }
+
+  /**
+   * Apply pending actions whose ex-date has been reached
+   * @returns Number of actions applied
+   */
+  async applyDueActions(): Promise<number> {
+    const dueActions = await this.corporateActionRepository.find({
+      where: {
+        status: CorporateActionStatus.PENDING,
+        exDate: LessThanOrEqual(normalizeDateToString(new Date())),
+      },
+      order: { exDate: 'ASC', createdAt: 'ASC' },
+    });
+
+    let applied = 0;
+    for (const action of dueActions) {
+      try {
+        await this.applyCorporateAction(action.corporateActionId);
+        applied++;
+      } catch (error) {
+        this.logger.error(`Failed to apply corporate action ${action.corporateActionId}: ${error.message}`);
+      }
+    }
+    return applied;
+  }
+
+  /**
+   * Apply an action to every portfolio holding the asset before the ex-date
+   * @param corporateActionId Action ID
+   * @returns Summary of the changes made
+   */
+  async applyCorporateAction(corporateActionId: string): Promise<CorporateActionApplyResult> {
+    const action = await this.getCorporateAction(corporateActionId);
+
+    if (action.status === CorporateActionStatus.APPLIED) {
+      throw new BadRequestException('Corporate action is already applied');
+    }
+    if (action.exDate > normalizeDateToString(new Date())) {
+      throw new BadRequestException('Corporate action cannot be applied before its ex-date');
+    }
+
+    const groups = await this.getHoldingGroups(action.globalAsset);
+    const portfolios = groups.length > 0
+      ? await this.portfolioRepository.find({ where: { portfolioId: In([...new Set(groups.map(group => group.portfolioId))]) } })
+      : [];
+    const baseCurrencies = new Map(portfolios.map(portfolio => [portfolio.portfolioId, portfolio.baseCurrency]));
+
+    const result: CorporateActionApplyResult = {
+      corporateActionId,
+      status: CorporateActionStatus.APPLIED,
+      affectedPortfolios: 0,
+      adjustedLots: 0,
+      createdTrades: 0,
+      cashFlows: 0,
+    };
+    const touchedGroups: HoldingGroup[] = [];
+
+    await this.dataSource.transaction(async (manager) => {
+      const cashPortfolioIds = new Set<string>();
+
+      for (const group of groups) {
+        const eligibleQuantity = this.corporateActionEngine.calculateEligibleQuantity(group.trades, action.exDate);
+        if (eligibleQuantity <= 0) continue;
+
+        // The action takes effect on the ex-date and pays on the payment date, neither inside a closed period
+        await this.auditTrailService.assertPeriodOpen(group.portfolioId, action.exDate, this.getPaymentDate(action));
+
+        const baseCurrency = baseCurrencies.get(group.portfolioId) || 'VND';
+        let changed = false;
+
+        switch (action.actionType) {
+          case CorporateActionType.STOCK_SPLIT:
+          case CorporateActionType.STOCK_DIVIDEND: {
+            const counts = await this.adjustLots(manager, action, group, eligibleQuantity);
+            result.adjustedLots += counts.adjustedLots;
+            result.createdTrades += counts.createdTrades;
+            changed = counts.adjustedLots > 0;
+            break;
+          }
+          case CorporateActionType.CASH_DIVIDEND: {
+            await this.payCashDividend(manager, action, group, eligibleQuantity, baseCurrency);
+            cashPortfolioIds.add(group.portfolioId);
+            result.cashFlows++;
+            changed = true;
+            break;
+          }
+          case CorporateActionType.RIGHTS_ISSUE: {
+            changed = await this.subscribeRights(manager, action, group, eligibleQuantity, baseCurrency);
+            if (changed) {
+              cashPortfolioIds.add(group.portfolioId);
+              result.createdTrades++;
+              result.cashFlows++;
+            }
+            break;
+          }
+        }
+
+        if (changed) {
+          touchedGroups.push(group);
+        }
+      }
+
+      for (const portfolioId of cashPortfolioIds) {
+        await this.recalculateCashBalance(manager, portfolioId);
+      }
+
+      await manager.update(CorporateAction, { corporateActionId }, {
+        status: CorporateActionStatus.APPLIED,
+        appliedAt: new Date(),
+      });
+    });
+
+    result.affectedPortfolios = new Set(touchedGroups.map(group => group.portfolioId)).size;
+    await this.invalidateCaches(touchedGroups);
+
+    this.logger.log(
+      `Applied ${action.actionType} for ${action.globalAsset?.symbol}: ${result.affectedPortfolios} portfolios, ` +
+      `${result.adjustedLots} lots, ${result.createdTrades} trades, ${result.cashFlows} cash flows`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Undo an applied action: restore adjusted lots, delete created trades and cash flows,
+   * and re-run FIFO matching of the affected sells
+   * @param corporateActionId Action ID
+   * @returns Reversed action
+   */
+  async reverseCorporateAction(corporateActionId: string): Promise<CorporateAction> {
+    const action = await this.getCorporateAction(corporateActionId);
+
+    if (action.status !== CorporateActionStatus.APPLIED) {
+      throw new BadRequestException('Only applied corporate actions can be reversed');
+    }
+
+    // Later lot adjustments were computed from the lots this action produced
+    const laterActions = await this.corporateActionRepository.find({
+      where: {
+        globalAssetId: action.globalAssetId,
+        status: CorporateActionStatus.APPLIED,
+        exDate: MoreThanOrEqual(action.exDate),
+      },
+    });
+    const blocking = laterActions.filter(other =>
+      other.corporateActionId !== action.corporateActionId &&
+      other.appliedAt && action.appliedAt && other.appliedAt > action.appliedAt,
+    );
+    if (blocking.length > 0) {
+      throw new BadRequestException('Reverse the later corporate actions of this asset first');
+    }
+
+    const adjustments = action.adjustments || [];
+    const groupKeys = new Map<string, { portfolioId: string; assetId: string }>();
+    for (const adjustment of adjustments) {
+      groupKeys.set(`${adjustment.portfolioId}:${adjustment.assetId}`, {
+        portfolioId: adjustment.portfolioId,
+        assetId: adjustment.assetId,
+      });
+    }
+
+    const reversalReason = `Reversal of ${this.describeAction(action)}`;
+    await this.dataSource.transaction(async (manager) => {
+      const cashPortfolioIds = new Set<string>();
+      const createdTradeIds = adjustments.map(adjustment => adjustment.createdTradeId).filter(Boolean);
+
+      for (const { portfolioId, assetId } of groupKeys.values()) {
+        await this.auditTrailService.assertPeriodOpen(portfolioId, action.exDate, this.getPaymentDate(action));
+
+        const sellsToRematch = await this.unmatchSells(manager, portfolioId, assetId, action.exDate, createdTradeIds);
+
+        for (const adjustment of adjustments.filter(a => a.portfolioId === portfolioId && a.assetId === assetId)) {
+          if (adjustment.tradeId) {
+            const restored = {
+              quantity: Number(adjustment.previousQuantity),
+              price: Number(adjustment.previousPrice),
+              fee: Number(adjustment.previousFee) || 0,
+              tax: Number(adjustment.previousTax) || 0,
+            };
+            const lot = await manager.findOne(Trade, { where: { tradeId: adjustment.tradeId } });
+            await manager.update(Trade, { tradeId: adjustment.tradeId }, restored);
+            if (lot) {
+              await this.recordAudit(manager, reversalReason, {
+                portfolioId,
+                entityType: AuditEntityType.TRADE,
+                entityId: lot.tradeId,
+                action: AuditAction.UPDATE,
+                before: lot,
+                after: { ...lot, ...restored },
+              });
+            }
+          }
+          if (adjustment.cashFlowId) {
+            const cashFlow = await manager.findOne(CashFlow, { where: { cashFlowId: adjustment.cashFlowId } });
+            await manager.delete(CashFlow, { cashFlowId: adjustment.cashFlowId });
+            cashPortfolioIds.add(portfolioId);
+            if (cashFlow) {
+              await this.recordAudit(manager, reversalReason, {
+                portfolioId,
+                entityType: AuditEntityType.CASH_FLOW,
+                entityId: cashFlow.cashFlowId,
+                action: AuditAction.DELETE,
+                before: cashFlow,
+              });
+            }
+          }
+          if (adjustment.createdTradeId) {
+            const createdTrade = await manager.findOne(Trade, { where: { tradeId: adjustment.createdTradeId } });
+            await manager.delete(TradeDetail, { buyTradeId: adjustment.createdTradeId });
+            await manager.delete(Trade, { tradeId: adjustment.createdTradeId });
+            if (createdTrade) {
+              await this.recordAudit(manager, reversalReason, {
+                portfolioId,
+                entityType: AuditEntityType.TRADE,
+                entityId: createdTrade.tradeId,
+                action: AuditAction.DELETE,
+                before: createdTrade,
+              });
+            }
+          }
+        }
+
+        await this.rematchSells(manager, sellsToRematch);
+      }
+
+      for (const portfolioId of cashPortfolioIds) {
+        await this.recalculateCashBalance(manager, portfolioId);
+      }
+
+      await manager.delete(CorporateActionAdjustment, { corporateActionId });
+      await manager.update(CorporateAction, { corporateActionId }, {
+        status: CorporateActionStatus.REVERSED,
+        appliedAt: null,
+      });
+    });
+
+    for (const { portfolioId, assetId } of groupKeys.values()) {
+      await this.tradingService.invalidateAllRelatedCaches(portfolioId, assetId);
+    }
+
+    this.logger.log(`Reversed ${action.actionType} for ${action.globalAsset?.symbol} (${adjustments.length} adjustments)`);
+
+    return this.getCorporateAction(corporateActionId);
+  }
+
+  /**
+   * Scale the open lots held before the ex-date, keeping each lot's total cost
+   */
+  private async adjustLots(
+    manager: EntityManager,
+    action: CorporateAction,
+    group: HoldingGroup,
+    eligibleQuantity: number,
+  ): Promise<{ adjustedLots: number; createdTrades: number }> {
+    const sellsToRematch = await this.unmatchSells(manager, group.portfolioId, group.asset.id, action.exDate);
+
+    const exTime = new Date(`${action.exDate}T00:00:00`).getTime();
+    const lots = group.trades.filter(trade =>
+      trade.side !== TradeSide.SELL && new Date(trade.tradeDate).getTime() < exTime,
+    );
+    const matchedQuantities = await this.getMatchedQuantities(manager, lots.map(lot => lot.tradeId));
+
+    const plans = this.corporateActionEngine.planLotAdjustments(
+      lots.map(lot => ({
+        tradeId: lot.tradeId,
+        quantity: Number(lot.quantity),
+        price: Number(lot.price),
+        fee: Number(lot.fee),
+        tax: Number(lot.tax),
+        matchedQty: matchedQuantities.get(lot.tradeId) || 0,
+      })),
+      action.quantityFactor,
+    );
+
+    let createdTrades = 0;
+    for (const plan of plans) {
+      const lot = lots.find(trade => trade.tradeId === plan.tradeId);
+      const adjusted = {
+        quantity: plan.newQuantity,
+        price: plan.newPrice,
+        fee: plan.newFee,
+        tax: plan.newTax,
+      };
+
+      await manager.update(Trade, { tradeId: plan.tradeId }, adjusted);
+      await this.recordAudit(manager, this.describeAction(action), {
+        portfolioId: lot.portfolioId,
+        entityType: AuditEntityType.TRADE,
+        entityId: lot.tradeId,
+        action: AuditAction.UPDATE,
+        before: lot,
+        after: { ...lot, ...adjusted },
+      });
+
+      let createdTradeId: string | null = null;
+      if (plan.splitOff) {
+        const splitTrade = await manager.save(manager.create(Trade, {
+          portfolioId: lot.portfolioId,
+          assetId: lot.assetId,
+          tradeDate: lot.tradeDate,
+          side: lot.side,
+          quantity: plan.splitOff.quantity,
+          price: plan.splitOff.price,
+          fee: plan.splitOff.fee,
+          tax: plan.splitOff.tax,
+          tradeType: TradeType.NORMAL,
+          source: TradeSource.CORPORATE_ACTION,
+          exchange: lot.exchange,
+          fundingSource: lot.fundingSource,
+          notes: `Open part of lot ${lot.tradeId} adjusted by ${action.actionType} (ex-date ${action.exDate})`,
+          fxRate: lot.fxRate,
+        }));
+        createdTradeId = splitTrade.tradeId;
+        createdTrades++;
+        await this.recordCreation(manager, action, AuditEntityType.TRADE, splitTrade.tradeId, splitTrade);
+      }
+
+      await manager.save(manager.create(CorporateActionAdjustment, {
+        corporateActionId: action.corporateActionId,
+        portfolioId: group.portfolioId,
+        assetId: group.asset.id,
+        tradeId: plan.tradeId,
+        previousQuantity: plan.previousQuantity,
+        previousPrice: plan.previousPrice,
+        previousFee: plan.previousFee,
+        previousTax: plan.previousTax,
+        newQuantity: plan.newQuantity,
+        newPrice: plan.newPrice,
+        createdTradeId,
+        eligibleQuantity,
+      }));
+    }
+
+    await this.rematchSells(manager, sellsToRematch);
+
+    return { adjustedLots: plans.length, createdTrades };
+  }
+
+  /**
+   * Create the DIVIDEND cash flow of one portfolio
+   */
+  private async payCashDividend(
+    manager: EntityManager,
+    action: CorporateAction,
+    group: HoldingGroup,
+    eligibleQuantity: number,
+    baseCurrency: string,
+  ): Promise<void> {
+    const paymentDate = this.getPaymentDate(action);
+    const fxRate = await this.fxRateService.getTradeRate(group.asset.currency || baseCurrency, baseCurrency, paymentDate);
+    const amount = Number((eligibleQuantity * Number(action.cashDividendPerShare) * (fxRate || 1)).toFixed(2));
+    const { taxAmount } = this.taxFeeCalculationService.calculateWithholdingTax(
+      'DIVIDEND',
+      amount,
+      group.asset.currency || baseCurrency,
+    );
+
+    const cashFlow = await manager.save(manager.create(CashFlow, {
+      portfolioId: group.portfolioId,
+      type: CashFlowType.DIVIDEND,
+      amount: amount - taxAmount,
+      taxWithheld: taxAmount,
+      description: `Cash dividend ${Number(action.cashDividendPerShare)}/share on ${eligibleQuantity} shares of ${group.asset.symbol} (ex-date ${action.exDate})`,
+      reference: action.corporateActionId,
+      status: CashFlowStatus.COMPLETED,
+      flowDate: paymentDate,
+      effectiveDate: paymentDate,
+      currency: baseCurrency,
+    }));
+    await this.recordCreation(manager, action, AuditEntityType.CASH_FLOW, cashFlow.cashFlowId, cashFlow);
+
+    await manager.save(manager.create(CorporateActionAdjustment, {
+      corporateActionId: action.corporateActionId,
+      portfolioId: group.portfolioId,
+      assetId: group.asset.id,
+      cashFlowId: cashFlow.cashFlowId,
+      eligibleQuantity,
+    }));
+  }
+
+  /**
+   * Subscribe the rights of one portfolio as a new lot at the subscription price
+   * @returns False when the holding is too small for a whole share
+   */
+  private async subscribeRights(
+    manager: EntityManager,
+    action: CorporateAction,
+    group: HoldingGroup,
+    eligibleQuantity: number,
+    baseCurrency: string,
+  ): Promise<boolean> {
+    const quantity = this.corporateActionEngine.calculateRightsQuantity(eligibleQuantity, Number(action.rightsRatio));
+    if (quantity <= 0) {
+      return false;
+    }
+
+    const paymentDate = this.getPaymentDate(action);
+    const price = Number(action.subscriptionPrice) || 0;
+    const fxRate = await this.fxRateService.getTradeRate(group.asset.currency || baseCurrency, baseCurrency, paymentDate);
+    const sellsToRematch = await this.unmatchSells(manager, group.portfolioId, group.asset.id, normalizeDateToString(paymentDate));
+
+    const trade = await manager.save(manager.create(Trade, {
+      portfolioId: group.portfolioId,
+      assetId: group.asset.id,
+      tradeDate: paymentDate,
+      side: TradeSide.BUY,
+      quantity,
+      price,
+      fee: 0,
+      tax: 0,
+      tradeType: TradeType.NORMAL,
+      source: TradeSource.CORPORATE_ACTION,
+      notes: `Rights issue subscription: ${eligibleQuantity} shares held, ratio ${Number(action.rightsRatio)} (ex-date ${action.exDate})`,
+      fxRate,
+    }));
+    await this.recordCreation(manager, action, AuditEntityType.TRADE, trade.tradeId, trade);
+
+    let cashFlowId: string | null = null;
+    const amount = Number((quantity * price * (fxRate || 1)).toFixed(2));
+    if (amount > 0) {
+      const cashFlow = await manager.save(manager.create(CashFlow, {
+        portfolioId: group.portfolioId,
+        type: CashFlowType.BUY_TRADE,
+        amount,
+        description: `BUY ${quantity} shares of ${group.asset.symbol} at ${price} (rights issue) [TradeID: ${trade.tradeId}]`,
+        reference: trade.tradeId,
+        status: CashFlowStatus.COMPLETED,
+        flowDate: paymentDate,
+        effectiveDate: paymentDate,
+        currency: baseCurrency,
+      }));
+      cashFlowId = cashFlow.cashFlowId;
+      await this.recordCreation(manager, action, AuditEntityType.CASH_FLOW, cashFlow.cashFlowId, cashFlow);
+    }
+
+    await manager.save(manager.create(CorporateActionAdjustment, {
+      corporateActionId: action.corporateActionId,
+      portfolioId: group.portfolioId,
+      assetId: group.asset.id,
+      newQuantity: quantity,
+      newPrice: price,
+      createdTradeId: trade.tradeId,
+      cashFlowId,
+      eligibleQuantity,
+    }));
+
+    await this.rematchSells(manager, sellsToRematch);
+    return true;
+  }
+
+  /**
+   * Trades of every user asset mapped to the global asset, grouped per portfolio
+   */
+  private async getHoldingGroups(globalAsset: GlobalAsset): Promise<HoldingGroup[]> {
+    const assets = await this.assetRepository.find({ where: { symbol: globalAsset.symbol } });
+    if (assets.length === 0) {
+      return [];
+    }
+
+    const trades = await this.tradeRepository.find({
+      where: { assetId: In(assets.map(asset => asset.id)) },
+      order: { tradeDate: 'ASC' },
+    });
+
+    const groups = new Map<string, HoldingGroup>();
+    for (const trade of trades) {
+      const key = `${trade.portfolioId}:${trade.assetId}`;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          portfolioId: trade.portfolioId,
+          asset: assets.find(asset => asset.id === trade.assetId),
+          trades: [],
+        });
+      }
+      groups.get(key).trades.push(trade);
+    }
+    return [...groups.values()];
+  }
+
+  /**
+   * Remove the matches of sells dated on or after a date (and of sells matched to the given lots)
+   * @returns The unmatched sells in matching order
+   */
+  private async unmatchSells(
+    manager: EntityManager,
+    portfolioId: string,
+    assetId: string,
+    fromDate: string,
+    buyTradeIds: string[] = [],
+  ): Promise<Trade[]> {
+    const sells = await manager.find(Trade, {
+      where: {
+        portfolioId,
+        assetId,
+        side: TradeSide.SELL,
+        tradeDate: MoreThanOrEqual(new Date(`${fromDate}T00:00:00`)),
+      },
+    });
+
+    if (buyTradeIds.length > 0) {
+      const linkedDetails = await manager.find(TradeDetail, { where: { buyTradeId: In(buyTradeIds) } });
+      const linkedSellIds = [...new Set(linkedDetails.map(detail => detail.sellTradeId))]
+        .filter(sellTradeId => !sells.some(sell => sell.tradeId === sellTradeId));
+      if (linkedSellIds.length > 0) {
+        sells.push(...await manager.find(Trade, { where: { tradeId: In(linkedSellIds), portfolioId, assetId } }));
+      }
+    }
+
+    if (sells.length > 0) {
+      await manager.delete(TradeDetail, { sellTradeId: In(sells.map(sell => sell.tradeId)) });
+    }
+
+    return sells.sort((a, b) => new Date(a.tradeDate).getTime() - new Date(b.tradeDate).getTime());
+  }
+
+  /**
+   * Match sells again, in date order, against the lots visible inside the transaction
+   */
+  private async rematchSells(manager: EntityManager, sells: Trade[]): Promise<void> {
+    for (const sellTrade of sells) {
+      await this.tradingService.matchSellTrade(sellTrade, manager);
+    }
+  }
+
+  /**
+   * Record a trade or cash flow created by an action, inside the transaction that creates it
+   */
+  private async recordCreation(
+    manager: EntityManager,
+    action: CorporateAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    record: Trade | CashFlow,
+  ): Promise<void> {
+    await this.recordAudit(manager, this.describeAction(action), {
+      portfolioId: record.portfolioId,
+      entityType,
+      entityId,
+      action: AuditAction.CREATE,
+      after: record,
+    });
+  }
+
+  private async recordAudit(manager: EntityManager, reason: string, input: AuditRecordInput): Promise<void> {
+    await this.auditTrailService.record(input, { reason }, manager);
+  }
+
+  private describeAction(action: CorporateAction): string {
+    return `${action.actionType} of ${action.globalAsset?.symbol} (ex-date ${action.exDate})`;
+  }
+
+  private async getMatchedQuantities(manager: EntityManager, buyTradeIds: string[]): Promise<Map<string, number>> {
+    const matched = new Map<string, number>();
+    if (buyTradeIds.length === 0) {
+      return matched;
+    }
+    const details = await manager.find(TradeDetail, { where: { buyTradeId: In(buyTradeIds) } });
+    for (const detail of details) {
+      matched.set(detail.buyTradeId, (matched.get(detail.buyTradeId) || 0) + Number(detail.matchedQty));
+    }
+    return matched;
+  }
+
+  /**
+   * Recalculate the portfolio cash balance from completed cash flows inside the transaction
+   */
+  private async recalculateCashBalance(manager: EntityManager, portfolioId: string): Promise<void> {
+    const cashFlows = await manager.find(CashFlow, {
+      where: { portfolioId, status: CashFlowStatus.COMPLETED },
+    });
+    const cashBalance = cashFlows.reduce((sum, cashFlow) => sum + Number(cashFlow.netAmount), 0);
+    await manager.update(Portfolio, { portfolioId }, { cashBalance });
+  }
+
+  private async invalidateCaches(groups: HoldingGroup[]): Promise<void> {
+    for (const group of groups) {
+      await this.tradingService.invalidateAllRelatedCaches(group.portfolioId, group.asset.id);
+    }
+  }
+
+  private getPaymentDate(action: CorporateAction): Date {
+    return new Date(`${action.paymentDate || action.exDate}T12:00:00`);
+  }
+
+  private validateActionFields(dto: CreateCorporateActionDto): void {
+    switch (dto.actionType) {
+      case CorporateActionType.STOCK_SPLIT:
+        if (!(dto.splitRatio > 0) || dto.splitRatio === 1) {
+          throw new BadRequestException('splitRatio is required for a stock split and must not be 1');
+        }
+        break;
+      case CorporateActionType.STOCK_DIVIDEND:
+        if (!(dto.stockDividendPercent > 0)) {
+          throw new BadRequestException('stockDividendPercent is required for a stock dividend');
+        }
+        break;
+      case CorporateActionType.CASH_DIVIDEND:
+        if (!(dto.cashDividendPerShare > 0)) {
+          throw new BadRequestException('cashDividendPerShare is required for a cash dividend');
+        }
+        break;
+      case CorporateActionType.RIGHTS_ISSUE:
+        if (!(dto.rightsRatio > 0) || dto.subscriptionPrice === undefined || dto.subscriptionPrice === null) {
+          throw new BadRequestException('rightsRatio and subscriptionPrice are required for a rights issue');
+        }
+        break;
+    }
+
+    if (dto.paymentDate && normalizeDateToString(dto.paymentDate) < normalizeDateToString(dto.exDate)) {
+      throw new BadRequestException('Payment date cannot be before the ex-date');
+    }
+  }
+}
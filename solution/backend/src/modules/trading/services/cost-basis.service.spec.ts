@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { ConflictException } from '@nestjs/common';
+import { CostBasisService } from './cost-basis.service';
+import { TradingService } from './trading.service';
+import { CostBasisEngine } from '../engines/cost-basis-engine';
+import { Trade, TradeSide } from '../entities/trade.entity';
+import { TradeDetail } from '../entities/trade-detail.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { Asset } from '../../asset/entities/asset.entity';
+import { FinancialAuditLog } from '../../portfolio/entities/financial-audit-log.entity';
+import { CostBasisMethod } from '../../portfolio/enums/cost-basis-method.enum';
+import { PortfolioService } from '../../portfolio/services/portfolio.service';
+import { AuditTrailService } from '../../portfolio/services/audit-trail.service';
+
+jest.mock('node-cron', () => ({ schedule: jest.fn(() => ({ stop: jest.fn() })) }));
+
+describe('CostBasisService', () => {
+  let service: CostBasisService;
+  let portfolio: Partial<Portfolio>;
+  let manager: { find: jest.Mock; delete: jest.Mock; save: jest.Mock; update: jest.Mock };
+  const portfolioId = 'bbbbbbbb-0000-4000-8000-000000000002';
+
+  const trade = (tradeId: string, side: TradeSide, quantity: number, price: number, tradeDate: string): Trade =>
+    Object.assign(new Trade(), {
+      tradeId, portfolioId, assetId: 'asset-1', side, quantity, price, fee: 0, tax: 0, tradeDate: new Date(tradeDate),
+    });
+
+  const trades = [
+    trade('buy-1', TradeSide.BUY, 100, 10000, '2024-01-10'),
+    trade('buy-2', TradeSide.BUY, 100, 20000, '2024-02-10'),
+    trade('sell-1', TradeSide.SELL, 100, 30000, '2024-03-20'),
+  ];
+
+  beforeEach(async () => {
+    portfolio = { portfolioId, costBasisMethod: CostBasisMethod.FIFO, lockedThroughDate: null };
+    manager = {
+      find: jest.fn(async () => trades),
+      delete: jest.fn(),
+      save: jest.fn(async (_entity, details) => details),
+      update: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CostBasisService,
+        AuditTrailService,
+        CostBasisEngine,
+        {
+          provide: getRepositoryToken(Trade),
+          useValue: {
+            find: async ({ where }: any) => trades.filter(item => !where.side || item.side === where.side),
+          },
+        },
+        { provide: getRepositoryToken(TradeDetail), useValue: { find: async () => [] } },
+        { provide: getRepositoryToken(Portfolio), useValue: { findOne: async () => portfolio } },
+        {
+          provide: getRepositoryToken(Asset),
+          useValue: { find: async () => [{ id: 'asset-1', symbol: 'HPG', currency: 'VND' }] },
+        },
+        { provide: getRepositoryToken(FinancialAuditLog), useValue: {} },
+        { provide: DataSource, useValue: { transaction: async (work: (m: typeof manager) => Promise<unknown>) => work(manager) } },
+        { provide: TradingService, useValue: { invalidateAllRelatedCaches: jest.fn() } },
+        { provide: PortfolioService, useValue: { updatePortfolioRealizedPL: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<CostBasisService>(CostBasisService);
+  });
+
+  it('should refuse to change the method while a sell is dated inside the locked period', async () => {
+    portfolio.lockedThroughDate = '2024-03-31';
+
+    await expect(service.changeMethod(portfolioId, CostBasisMethod.LIFO)).rejects.toThrow(ConflictException);
+    expect(manager.delete).not.toHaveBeenCalled();
+    expect(manager.update).not.toHaveBeenCalled();
+  });
+
+  it('should change the method when every sell is dated after the locked period', async () => {
+    portfolio.lockedThroughDate = '2024-02-29';
+
+    const preview = await service.changeMethod(portfolioId, CostBasisMethod.LIFO);
+
+    expect(preview.totalNewRealizedPnl).toBe(1000000);
+    expect(manager.delete).toHaveBeenCalledWith(TradeDetail, expect.anything());
+    expect(manager.update).toHaveBeenCalledWith(Portfolio, { portfolioId }, { costBasisMethod: CostBasisMethod.LIFO });
+  });
+});
@@ -0,0 +1,192 @@
+import { Injectable, Logger, NotFoundException, Inject, forwardRef } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, In } from 'typeorm';
+import { Trade, TradeSide } from '../entities/trade.entity';
+import { TradeDetail } from '../entities/trade-detail.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { Asset } from '../../asset/entities/asset.entity';
+import { CostBasisMethod } from '../../portfolio/enums/cost-basis-method.enum';
+import { PortfolioService } from '../../portfolio/services/portfolio.service';
+import { AuditTrailService } from '../../portfolio/services/audit-trail.service';
+import { CostBasisEngine } from '../engines/cost-basis-engine';
+import { TradingService } from './trading.service';
+import {
+  CostBasisAssetDiff,
+  CostBasisPreviewResponse,
+  OpenLotResponse,
+} from '../dto/cost-basis.dto';
+
+/**
+ * Service for the per-portfolio cost basis method.
+ * Changing the method replays every sell of the portfolio with the new method and
+ * regenerates its trade details; the preview runs the same replay without saving.
+ */
+@Injectable()
+export class CostBasisService {
+  private readonly logger = new Logger(CostBasisService.name);
+
+  constructor(
+    @InjectRepository(Trade)
+    private readonly tradeRepository: Repository<Trade>,
+    @InjectRepository(TradeDetail)
+    private readonly tradeDetailRepository: Repository<TradeDetail>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    @InjectRepository(Asset)
+    private readonly assetRepository: Repository<Asset>,
+    private readonly dataSource: DataSource,
+    private readonly costBasisEngine: CostBasisEngine,
+    private readonly tradingService: TradingService,
+    @Inject(forwardRef(() => PortfolioService))
+    private readonly portfolioService: PortfolioService,
+    private readonly auditTrailService: AuditTrailService,
+  ) {}
+
+  /**
+   * Get the cost basis method of a portfolio
+   * @param portfolioId Portfolio ID
+   * @returns Current method
+   */
+  async getMethod(portfolioId: string): Promise<CostBasisMethod> {
+    const portfolio = await this.getPortfolio(portfolioId);
+    return portfolio.costBasisMethod || CostBasisMethod.FIFO;
+  }
+
+  /**
+   * Compare realized P&L of the current trade details with a replay under another method
+   * @param portfolioId Portfolio ID
+   * @param method Method to preview
+   * @returns Per-asset and total realized P&L before and after
+   */
+  async previewMethodChange(portfolioId: string, method: CostBasisMethod): Promise<CostBasisPreviewResponse> {
+    const portfolio = await this.getPortfolio(portfolioId);
+    const trades = await this.tradeRepository.find({ where: { portfolioId } });
+    const sellTrades = trades.filter(trade => trade.side === TradeSide.SELL);
+    const sellFxRates = new Map(sellTrades.map(trade => [trade.tradeId, Number(trade.fxRate) || 1]));
+
+    const currentDetails = sellTrades.length > 0
+      ? await this.tradeDetailRepository.find({ where: { sellTradeId: In(sellTrades.map(trade => trade.tradeId)) } })
+      : [];
+    const newDetails = this.replayPortfolio(trades, method);
+
+    const assetIds = [...new Set(trades.map(trade => trade.assetId))];
+    const assets = assetIds.length > 0
+      ? await this.assetRepository.find({ where: { id: In(assetIds) } })
+      : [];
+
+    const sumBy = (details: TradeDetail[], assetId?: string) => details
+      .filter(detail => !assetId || detail.assetId === assetId)
+      .reduce((sum, detail) => sum + Number(detail.pnl), 0);
+    const sumInBase = (details: TradeDetail[]) => details
+      .reduce((sum, detail) => sum + Number(detail.pnl) * (sellFxRates.get(detail.sellTradeId) || 1), 0);
+
+    const assetDiffs: CostBasisAssetDiff[] = assets
+      .map(asset => {
+        const currentRealizedPnl = sumBy(currentDetails, asset.id);
+        const newRealizedPnl = sumBy(newDetails, asset.id);
+        return {
+          assetId: asset.id,
+          symbol: asset.symbol,
+          currency: asset.currency,
+          currentRealizedPnl,
+          newRealizedPnl,
+          difference: newRealizedPnl - currentRealizedPnl,
+        };
+      })
+      .filter(diff => diff.currentRealizedPnl !== 0 || diff.newRealizedPnl !== 0)
+      .sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+    const totalCurrentRealizedPnl = sumInBase(currentDetails);
+    const totalNewRealizedPnl = sumInBase(newDetails);
+
+    return {
+      portfolioId,
+      currentMethod: portfolio.costBasisMethod || CostBasisMethod.FIFO,
+      newMethod: method,
+      assets: assetDiffs,
+      totalCurrentRealizedPnl,
+      totalNewRealizedPnl,
+      totalDifference: totalNewRealizedPnl - totalCurrentRealizedPnl,
+    };
+  }
+
+  /**
+   * Switch the cost basis method and regenerate the trade details of every sell.
+   * Refused while any sell is dated inside the locked period, whose realized P&L is closed.
+   * @param portfolioId Portfolio ID
+   * @param method New method
+   * @returns Before/after realized P&L of the change
+   */
+  async changeMethod(portfolioId: string, method: CostBasisMethod): Promise<CostBasisPreviewResponse> {
+    const sellTrades = await this.tradeRepository.find({ where: { portfolioId, side: TradeSide.SELL } });
+    await this.auditTrailService.assertPeriodOpen(portfolioId, ...sellTrades.map(trade => trade.tradeDate));
+
+    const preview = await this.previewMethodChange(portfolioId, method);
+
+    await this.dataSource.transaction(async (manager) => {
+      const trades = await manager.find(Trade, { where: { portfolioId } });
+      const sellTradeIds = trades.filter(trade => trade.side === TradeSide.SELL).map(trade => trade.tradeId);
+
+      if (sellTradeIds.length > 0) {
+        await manager.delete(TradeDetail, { sellTradeId: In(sellTradeIds) });
+      }
+
+      const details = this.replayPortfolio(trades, method);
+      if (details.length > 0) {
+        await manager.save(TradeDetail, details);
+      }
+
+      await manager.update(Portfolio, { portfolioId }, { costBasisMethod: method });
+    });
+
+    await this.portfolioService.updatePortfolioRealizedPL(portfolioId);
+    for (const asset of preview.assets) {
+      await this.tradingService.invalidateAllRelatedCaches(portfolioId, asset.assetId);
+    }
+
+    this.logger.log(`Portfolio ${portfolioId} switched from ${preview.currentMethod} to ${method}`);
+    return preview;
+  }
+
+  /**
+   * Get the open buy lots of an asset, for picking lots on a SPECIFIC_LOT sell
+   * @param portfolioId Portfolio ID
+   * @param assetId Asset ID
+   * @returns Open lots, oldest first
+   */
+  async getOpenLots(portfolioId: string, assetId: string): Promise<OpenLotResponse[]> {
+    await this.getPortfolio(portfolioId);
+    const lots = await this.tradingService.findOpenLots(portfolioId, assetId, new Date());
+
+    return lots.map(lot => ({
+      buyTradeId: lot.tradeId,
+      tradeDate: lot.tradeDate,
+      quantity: lot.quantity,
+      remainingQuantity: lot.remainingQty,
+      price: lot.price,
+    }));
+  }
+
+  private replayPortfolio(trades: Trade[], method: CostBasisMethod): TradeDetail[] {
+    const tradesByAsset = new Map<string, Trade[]>();
+    for (const trade of trades) {
+      const assetTrades = tradesByAsset.get(trade.assetId) || [];
+      assetTrades.push(trade);
+      tradesByAsset.set(trade.assetId, assetTrades);
+    }
+
+    const details: TradeDetail[] = [];
+    for (const assetTrades of tradesByAsset.values()) {
+      details.push(...this.costBasisEngine.replay(assetTrades, method));
+    }
+    return details;
+  }
+
+  private async getPortfolio(portfolioId: string): Promise<Portfolio> {
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    if (!portfolio) {
+      throw new NotFoundException(`Portfolio with ID ${portfolioId} not found`);
+    }
+    return portfolio;
+  }
+}
@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { RecurringTransactionService } from './recurring-transaction.service';
+import { TradingService } from './trading.service';
+import { RecurrenceEngine } from '../engines/recurrence-engine';
+import { RecurringTransaction, RecurringTransactionKind } from '../entities/recurring-transaction.entity';
+import { RecurringTransactionOccurrence } from '../entities/recurring-transaction-occurrence.entity';
+import { TradeSide } from '../entities/trade.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { CashFlow, CashFlowStatus } from '../../portfolio/entities/cash-flow.entity';
+import { Asset } from '../../asset/entities/asset.entity';
+import { CashFlowService } from '../../portfolio/services/cash-flow.service';
+import { MarketDataService } from '../../market-data/services/market-data.service';
+import { AuditTrailService } from '../../portfolio/services/audit-trail.service';
+
+jest.mock('node-cron', () => ({ schedule: jest.fn(() => ({ stop: jest.fn() })) }));
+
+describe('RecurringTransactionService', () => {
+  let service: RecurringTransactionService;
+  let occurrence: RecurringTransactionOccurrence;
+  let createTrade: jest.Mock;
+  const portfolioId = 'bbbbbbbb-0000-4000-8000-000000000002';
+
+  const matches = (criteria: Partial<RecurringTransactionOccurrence>) =>
+    Object.entries(criteria).every(([key, value]) => occurrence[key] === value);
+
+  beforeEach(async () => {
+    occurrence = Object.assign(new RecurringTransactionOccurrence(), {
+      occurrenceId: 'occurrence-1',
+      portfolioId,
+      scheduledDate: '2024-03-15',
+      status: CashFlowStatus.PENDING,
+      quantity: 100,
+      price: 25000,
+      recurringTransaction: Object.assign(new RecurringTransaction(), {
+        name: 'Monthly HPG',
+        kind: RecurringTransactionKind.TRADE,
+        assetId: 'asset-1',
+        side: TradeSide.BUY,
+      }),
+    });
+    // Creates the trade asynchronously like the real service
+    createTrade = jest.fn(async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      return { tradeId: `trade-${createTrade.mock.calls.length}` };
+    });
+
+    const manager = {
+      update: async (_entity: unknown, criteria: Partial<RecurringTransactionOccurrence>, data: object) => {
+        if (!matches(criteria)) return { affected: 0 };
+        Object.assign(occurrence, data);
+        return { affected: 1 };
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecurringTransactionService,
+        { provide: getRepositoryToken(RecurringTransaction), useValue: {} },
+        {
+          provide: getRepositoryToken(RecurringTransactionOccurrence),
+          // Separate requests load separate entities
+          useValue: { findOne: async () => Object.assign(new RecurringTransactionOccurrence(), occurrence) },
+        },
+        { provide: getRepositoryToken(Portfolio), useValue: {} },
+        { provide: getRepositoryToken(Asset), useValue: {} },
+        { provide: getRepositoryToken(CashFlow), useValue: {} },
+        {
+          provide: DataSource,
+          useValue: {
+            // Rolls the occurrence back when the work fails
+            transaction: async (work: (m: typeof manager) => Promise<unknown>) => {
+              const snapshot = { ...occurrence };
+              try {
+                return await work(manager);
+              } catch (error) {
+                Object.assign(occurrence, snapshot);
+                throw error;
+              }
+            },
+          },
+        },
+        { provide: RecurrenceEngine, useValue: {} },
+        { provide: TradingService, useValue: { createTrade } },
+        { provide: CashFlowService, useValue: {} },
+        { provide: MarketDataService, useValue: {} },
+        { provide: AuditTrailService, useValue: {} },
+        { provide: ConfigService, useValue: { get: (_key: string, defaultValue: string) => defaultValue } },
+      ],
+    }).compile();
+
+    service = module.get<RecurringTransactionService>(RecurringTransactionService);
+  });
+
+  it('should create one trade when an occurrence is confirmed twice at the same time', async () => {
+    const results = await Promise.allSettled([
+      service.confirmOccurrence(portfolioId, 'occurrence-1'),
+      service.confirmOccurrence(portfolioId, 'occurrence-1'),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({
+      reason: expect.any(BadRequestException),
+    });
+    expect(createTrade).toHaveBeenCalledTimes(1);
+    expect(occurrence).toMatchObject({ status: CashFlowStatus.COMPLETED, tradeId: 'trade-1' });
+  });
+
+  it('should leave the occurrence pending when the trade cannot be created', async () => {
+    createTrade.mockRejectedValueOnce(new BadRequestException('Insufficient quantity'));
+
+    await expect(service.confirmOccurrence(portfolioId, 'occurrence-1')).rejects.toThrow('Insufficient quantity');
+    expect(occurrence.status).toBe(CashFlowStatus.PENDING);
+
+    await service.confirmOccurrence(portfolioId, 'occurrence-1');
+    expect(occurrence.status).toBe(CashFlowStatus.COMPLETED);
+  });
+});
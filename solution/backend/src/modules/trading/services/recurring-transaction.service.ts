@@ -0,0 +1,605 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, EntityManager, In, LessThanOrEqual } from 'typeorm';
+import * as cron from 'node-cron';
+import {
+  RecurringTransaction,
+  RecurringTransactionKind,
+} from '../entities/recurring-transaction.entity';
+import { RecurringTransactionOccurrence } from '../entities/recurring-transaction-occurrence.entity';
+import { TradeSource } from '../entities/trade.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { CashFlow, CashFlowType, CashFlowStatus } from '../../portfolio/entities/cash-flow.entity';
+import { Asset } from '../../asset/entities/asset.entity';
+import { RecurrenceEngine } from '../engines/recurrence-engine';
+import { TradingService } from './trading.service';
+import { CashFlowService } from '../../portfolio/services/cash-flow.service';
+import { MarketDataService } from '../../market-data/services/market-data.service';
+import { normalizeDateToString } from '../../portfolio/utils/date-normalization.util';
+import { isInLockedPeriod } from '../../portfolio/utils/audit-trail.util';
+import { AuditTrailService, AuditContext } from '../../portfolio/services/audit-trail.service';
+import { AuditAction, AuditEntityType } from '../../portfolio/entities/financial-audit-log.entity';
+import {
+  CreateRecurringTransactionDto,
+  UpdateRecurringTransactionDto,
+  UpdateRecurringOccurrenceDto,
+  RecurringGenerationResult,
+} from '../dto/recurring-transaction.dto';
+
+/**
+ * Occurrences generated per plan in one run, so a plan started long ago cannot flood the portfolio
+ */
+const MAX_OCCURRENCES_PER_RUN = 60;
+
+/**
+ * Service for recurring transactions.
+ * Each due date of an active plan produces a PENDING occurrence: cash flow plans get a PENDING
+ * cash flow, trade plans get a proposed quantity at the market price of that date. Nothing
+ * affects the portfolio until the user confirms the occurrence.
+ */
+@Injectable()
+export class RecurringTransactionService {
+  private readonly logger = new Logger(RecurringTransactionService.name);
+  private readonly cronExpression: string;
+  private readonly timezone: string;
+  private cronJob: cron.ScheduledTask | null = null;
+
+  constructor(
+    @InjectRepository(RecurringTransaction)
+    private readonly planRepository: Repository<RecurringTransaction>,
+    @InjectRepository(RecurringTransactionOccurrence)
+    private readonly occurrenceRepository: Repository<RecurringTransactionOccurrence>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    @InjectRepository(Asset)
+    private readonly assetRepository: Repository<Asset>,
+    @InjectRepository(CashFlow)
+    private readonly cashFlowRepository: Repository<CashFlow>,
+    private readonly dataSource: DataSource,
+    private readonly recurrenceEngine: RecurrenceEngine,
+    private readonly tradingService: TradingService,
+    private readonly cashFlowService: CashFlowService,
+    private readonly marketDataService: MarketDataService,
+    private readonly configService: ConfigService,
+    private readonly auditTrailService: AuditTrailService,
+  ) {
+    this.cronExpression = this.configService.get<string>('RECURRING_TRANSACTION_CRON', '0 6 * * *');
+    this.timezone = this.configService.get<string>('RECURRING_TRANSACTION_TIMEZONE', 'Asia/Ho_Chi_Minh');
+    this.setupCronJob();
+  }
+
+  /**
+   * Generate the occurrences of all plans once their due date is reached
+   */
+  private setupCronJob(): void {
+    try {
+      this.cronJob = cron.schedule(this.cronExpression, () => {
+        setImmediate(() => {
+          this.generateDueOccurrences().catch(error =>
+            this.logger.error(`Scheduled recurring transaction run failed: ${error.message}`),
+          );
+        });
+      }, {
+        scheduled: true,
+        timezone: this.timezone,
+      });
+      this.logger.log(`Recurring transactions scheduled with expression: ${this.cronExpression}, timezone: ${this.timezone}`);
+    } catch (error) {
+      this.logger.error('Failed to setup recurring transaction cron job:', error);
+    }
+  }
+
+  async getPlans(portfolioId: string): Promise<RecurringTransaction[]> {
+    return this.planRepository.find({
+      where: { portfolioId },
+      relations: ['asset'],
+      order: { isActive: 'DESC', createdAt: 'ASC' },
+    });
+  }
+
+  async getPlan(portfolioId: string, recurringTransactionId: string): Promise<RecurringTransaction> {
+    const plan = await this.planRepository.findOne({
+      where: { portfolioId, recurringTransactionId },
+      relations: ['asset'],
+    });
+
+    if (!plan) {
+      throw new NotFoundException(`Recurring transaction with ID ${recurringTransactionId} not found`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Create a plan; occurrences already due are generated right away
+   * @param portfolioId Portfolio ID
+   * @param dto Plan details
+   * @returns Created plan
+   */
+  async createPlan(portfolioId: string, dto: CreateRecurringTransactionDto): Promise<RecurringTransaction> {
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    if (!portfolio) {
+      throw new NotFoundException(`Portfolio with ID ${portfolioId} not found`);
+    }
+
+    const isTrade = dto.kind === RecurringTransactionKind.TRADE;
+    const plan = this.planRepository.create({
+      portfolioId,
+      name: dto.name,
+      kind: dto.kind,
+      frequency: dto.frequency,
+      dayOfMonth: dto.dayOfMonth ?? null,
+      dayOfWeek: dto.dayOfWeek ?? null,
+      startDate: normalizeDateToString(dto.startDate),
+      endDate: dto.endDate ? normalizeDateToString(dto.endDate) : null,
+      isActive: true,
+      assetId: isTrade ? dto.assetId : null,
+      side: isTrade ? dto.side : null,
+      quantity: isTrade ? dto.quantity ?? null : null,
+      cashFlowType: isTrade ? null : dto.cashFlowType,
+      amount: dto.amount ?? null,
+      currency: isTrade ? null : dto.currency || portfolio.baseCurrency,
+      fundingSource: dto.fundingSource?.toUpperCase().trim() || null,
+      description: dto.description,
+    });
+
+    await this.validatePlan(plan);
+    plan.nextRunDate = this.recurrenceEngine.firstRunDate(plan);
+
+    const saved = await this.planRepository.save(plan);
+    this.logger.log(`Created ${saved.frequency} ${saved.kind} plan "${saved.name}" for portfolio ${portfolioId}`);
+
+    await this.generateForPlan(saved);
+    return this.getPlan(portfolioId, saved.recurringTransactionId);
+  }
+
+  /**
+   * Update a plan; the next due date follows the new schedule from the last generated occurrence
+   */
+  async updatePlan(
+    portfolioId: string,
+    recurringTransactionId: string,
+    dto: UpdateRecurringTransactionDto,
+  ): Promise<RecurringTransaction> {
+    const plan = await this.getPlan(portfolioId, recurringTransactionId);
+    const isTrade = plan.kind === RecurringTransactionKind.TRADE;
+
+    if (dto.name !== undefined) plan.name = dto.name;
+    if (dto.frequency !== undefined) plan.frequency = dto.frequency;
+    if (dto.dayOfMonth !== undefined) plan.dayOfMonth = dto.dayOfMonth;
+    if (dto.dayOfWeek !== undefined) plan.dayOfWeek = dto.dayOfWeek;
+    if (dto.startDate !== undefined) plan.startDate = normalizeDateToString(dto.startDate);
+    if (dto.endDate !== undefined) plan.endDate = dto.endDate ? normalizeDateToString(dto.endDate) : null;
+    if (dto.isActive !== undefined) plan.isActive = dto.isActive;
+    if (dto.amount !== undefined) plan.amount = dto.amount;
+    if (dto.fundingSource !== undefined) plan.fundingSource = dto.fundingSource?.toUpperCase().trim() || null;
+    if (dto.description !== undefined) plan.description = dto.description;
+    if (isTrade) {
+      if (dto.assetId !== undefined) plan.assetId = dto.assetId;
+      if (dto.side !== undefined) plan.side = dto.side;
+      if (dto.quantity !== undefined) plan.quantity = dto.quantity;
+    } else {
+      if (dto.cashFlowType !== undefined) plan.cashFlowType = dto.cashFlowType;
+      if (dto.currency !== undefined) plan.currency = dto.currency;
+    }
+
+    await this.validatePlan(plan);
+
+    const lastOccurrence = await this.occurrenceRepository.findOne({
+      where: { recurringTransactionId },
+      order: { scheduledDate: 'DESC' },
+    });
+    plan.nextRunDate = lastOccurrence
+      ? this.recurrenceEngine.nextRunDate(plan, lastOccurrence.scheduledDate)
+      : this.recurrenceEngine.firstRunDate(plan);
+
+    // Relation objects would override the updated foreign key on save
+    delete plan.asset;
+    await this.planRepository.save(plan);
+
+    if (plan.isActive) {
+      await this.generateForPlan(plan);
+    }
+    return this.getPlan(portfolioId, recurringTransactionId);
+  }
+
+  /**
+   * Delete a plan with its occurrences; the pending cash flows it generated are removed,
+   * confirmed trades and cash flows are kept
+   */
+  async deletePlan(portfolioId: string, recurringTransactionId: string): Promise<void> {
+    await this.getPlan(portfolioId, recurringTransactionId);
+
+    await this.dataSource.transaction(async (manager) => {
+      const pending = await manager.find(RecurringTransactionOccurrence, {
+        where: { recurringTransactionId, status: CashFlowStatus.PENDING },
+      });
+      const cashFlowIds = pending.map(occurrence => occurrence.cashFlowId).filter(Boolean);
+      if (cashFlowIds.length > 0) {
+        await manager.delete(CashFlow, { cashFlowId: In(cashFlowIds), status: CashFlowStatus.PENDING });
+      }
+      await manager.delete(RecurringTransaction, { recurringTransactionId });
+    });
+  }
+
+  /**
+   * Generate the occurrences of every active plan that is due
+   * @returns Number of plans processed and occurrences created
+   */
+  async generateDueOccurrences(): Promise<RecurringGenerationResult> {
+    const duePlans = await this.planRepository.find({
+      where: { isActive: true, nextRunDate: LessThanOrEqual(normalizeDateToString(new Date())) },
+      order: { nextRunDate: 'ASC' },
+    });
+    return this.generateForPlans(duePlans);
+  }
+
+  /**
+   * Generate the due occurrences of the active plans of a portfolio
+   */
+  async generateForPortfolio(portfolioId: string): Promise<RecurringGenerationResult> {
+    const duePlans = await this.planRepository.find({
+      where: { portfolioId, isActive: true, nextRunDate: LessThanOrEqual(normalizeDateToString(new Date())) },
+    });
+    return this.generateForPlans(duePlans);
+  }
+
+  async getOccurrences(portfolioId: string, status?: CashFlowStatus): Promise<RecurringTransactionOccurrence[]> {
+    const where: any = { portfolioId };
+    if (status) where.status = status;
+
+    return this.occurrenceRepository.find({
+      where,
+      relations: ['recurringTransaction', 'recurringTransaction.asset'],
+      order: { scheduledDate: 'DESC' },
+    });
+  }
+
+  /**
+   * Edit a pending occurrence before confirming it
+   */
+  async updateOccurrence(
+    portfolioId: string,
+    occurrenceId: string,
+    dto: UpdateRecurringOccurrenceDto,
+    audit: AuditContext = {},
+  ): Promise<RecurringTransactionOccurrence> {
+    const occurrence = await this.getPendingOccurrence(portfolioId, occurrenceId);
+
+    const updates: Partial<RecurringTransactionOccurrence> = {};
+    if (dto.scheduledDate !== undefined) {
+      const scheduledDate = normalizeDateToString(dto.scheduledDate);
+      const clash = await this.occurrenceRepository.findOne({
+        where: { recurringTransactionId: occurrence.recurringTransactionId, scheduledDate },
+      });
+      if (clash && clash.occurrenceId !== occurrenceId) {
+        throw new BadRequestException(`The plan already has an occurrence on ${scheduledDate}`);
+      }
+      updates.scheduledDate = scheduledDate;
+    }
+    if (dto.quantity !== undefined) updates.quantity = dto.quantity;
+    if (dto.price !== undefined) updates.price = dto.price;
+    if (dto.amount !== undefined) updates.amount = dto.amount;
+
+    const isTrade = occurrence.recurringTransaction.kind === RecurringTransactionKind.TRADE;
+    if (isTrade && (dto.quantity !== undefined || dto.price !== undefined) && dto.amount === undefined) {
+      const quantity = Number(updates.quantity ?? occurrence.quantity) || 0;
+      const price = Number(updates.price ?? occurrence.price) || 0;
+      updates.amount = Number((quantity * price).toFixed(2));
+    }
+
+    const cashFlow = occurrence.cashFlowId && (updates.amount !== undefined || updates.scheduledDate !== undefined)
+      ? await this.cashFlowRepository.findOne({ where: { cashFlowId: occurrence.cashFlowId } })
+      : null;
+    if (cashFlow) {
+      await this.auditTrailService.assertPeriodOpen(portfolioId, cashFlow.flowDate, updates.scheduledDate);
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.update(RecurringTransactionOccurrence, { occurrenceId }, updates);
+
+      if (cashFlow) {
+        const cashFlowUpdates: Partial<CashFlow> = {};
+        if (updates.amount !== undefined) cashFlowUpdates.amount = updates.amount;
+        if (updates.scheduledDate !== undefined) {
+          cashFlowUpdates.flowDate = new Date(updates.scheduledDate);
+          cashFlowUpdates.effectiveDate = new Date(updates.scheduledDate);
+        }
+        await manager.update(CashFlow, { cashFlowId: cashFlow.cashFlowId }, cashFlowUpdates);
+        await this.recordCashFlowAudit(manager, AuditAction.UPDATE, cashFlow, { ...cashFlow, ...cashFlowUpdates }, audit);
+      }
+    });
+
+    return this.getOccurrence(portfolioId, occurrenceId);
+  }
+
+  /**
+   * Confirm a pending occurrence: the cash flow is completed, or the trade is created
+   * @returns Confirmed occurrence
+   */
+  async confirmOccurrence(
+    portfolioId: string,
+    occurrenceId: string,
+    audit: AuditContext = {},
+  ): Promise<RecurringTransactionOccurrence> {
+    const occurrence = await this.getPendingOccurrence(portfolioId, occurrenceId);
+    const plan = occurrence.recurringTransaction;
+
+    if (plan.kind === RecurringTransactionKind.TRADE) {
+      const quantity = Number(occurrence.quantity);
+      const price = Number(occurrence.price);
+      if (!(quantity > 0) || !(price > 0)) {
+        throw new BadRequestException('Set the quantity and price of the occurrence before confirming it');
+      }
+
+      // The claim keeps the occurrence locked until the trade exists, so a concurrent confirmation
+      // waits for it and then finds the occurrence completed; a failed trade releases the claim
+      await this.dataSource.transaction(async (manager) => {
+        await this.claimOccurrence(manager, occurrenceId, CashFlowStatus.COMPLETED);
+
+        const trade = await this.tradingService.createTrade({
+          portfolioId,
+          assetId: plan.assetId,
+          tradeDate: occurrence.scheduledDate,
+          side: plan.side,
+          quantity,
+          price,
+          source: TradeSource.RECURRING,
+          fundingSource: plan.fundingSource || undefined,
+          notes: plan.description || plan.name,
+        }, audit);
+
+        await manager.update(RecurringTransactionOccurrence, { occurrenceId }, { tradeId: trade.tradeId });
+      });
+    } else {
+      const cashFlow = occurrence.cashFlowId
+        ? await this.cashFlowRepository.findOne({ where: { cashFlowId: occurrence.cashFlowId } })
+        : null;
+      if (!cashFlow || cashFlow.status !== CashFlowStatus.PENDING) {
+        throw new BadRequestException('The pending cash flow of this occurrence no longer exists');
+      }
+      await this.auditTrailService.assertPeriodOpen(portfolioId, cashFlow.flowDate);
+
+      await this.dataSource.transaction(async (manager) => {
+        await this.claimOccurrence(manager, occurrenceId, CashFlowStatus.COMPLETED);
+
+        const completed = { status: CashFlowStatus.COMPLETED, updatedAt: new Date() };
+        await manager.update(CashFlow, { cashFlowId: cashFlow.cashFlowId }, completed);
+        await this.recordCashFlowAudit(manager, AuditAction.UPDATE, cashFlow, { ...cashFlow, ...completed }, audit);
+      });
+
+      await this.cashFlowService.recalculateCashBalance(portfolioId);
+      await this.tradingService.invalidateAllRelatedCaches(portfolioId);
+    }
+
+    this.logger.log(`Confirmed ${plan.kind} occurrence of "${plan.name}" on ${occurrence.scheduledDate}`);
+    return this.getOccurrence(portfolioId, occurrenceId);
+  }
+
+  /**
+   * Skip a pending occurrence; its pending cash flow is cancelled
+   * @returns Skipped occurrence
+   */
+  async skipOccurrence(
+    portfolioId: string,
+    occurrenceId: string,
+    audit: AuditContext = {},
+  ): Promise<RecurringTransactionOccurrence> {
+    const occurrence = await this.getPendingOccurrence(portfolioId, occurrenceId);
+
+    await this.dataSource.transaction(async (manager) => {
+      await this.claimOccurrence(manager, occurrenceId, CashFlowStatus.CANCELLED);
+
+      const cashFlow = occurrence.cashFlowId
+        ? await manager.findOne(CashFlow, { where: { cashFlowId: occurrence.cashFlowId, status: CashFlowStatus.PENDING } })
+        : null;
+      if (cashFlow) {
+        const cancelled = { status: CashFlowStatus.CANCELLED, updatedAt: new Date() };
+        await manager.update(CashFlow, { cashFlowId: cashFlow.cashFlowId }, cancelled);
+        await this.recordCashFlowAudit(manager, AuditAction.UPDATE, cashFlow, { ...cashFlow, ...cancelled }, audit);
+      }
+    });
+
+    return this.getOccurrence(portfolioId, occurrenceId);
+  }
+
+  private async getOccurrence(portfolioId: string, occurrenceId: string): Promise<RecurringTransactionOccurrence> {
+    const occurrence = await this.occurrenceRepository.findOne({
+      where: { portfolioId, occurrenceId },
+      relations: ['recurringTransaction', 'recurringTransaction.asset'],
+    });
+
+    if (!occurrence) {
+      throw new NotFoundException(`Recurring transaction occurrence with ID ${occurrenceId} not found`);
+    }
+
+    return occurrence;
+  }
+
+  private async getPendingOccurrence(portfolioId: string, occurrenceId: string): Promise<RecurringTransactionOccurrence> {
+    const occurrence = await this.getOccurrence(portfolioId, occurrenceId);
+    if (occurrence.status !== CashFlowStatus.PENDING) {
+      throw new BadRequestException('Only pending occurrences can be changed');
+    }
+    return occurrence;
+  }
+
+  /**
+   * Resolve a pending occurrence only if it is still pending, so it is confirmed or skipped once
+   */
+  private async claimOccurrence(manager: EntityManager, occurrenceId: string, status: CashFlowStatus): Promise<void> {
+    const claimed = await manager.update(
+      RecurringTransactionOccurrence,
+      { occurrenceId, status: CashFlowStatus.PENDING },
+      { status, resolvedAt: new Date() },
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('Occurrence is already confirmed or skipped');
+    }
+  }
+
+  private async generateForPlans(plans: RecurringTransaction[]): Promise<RecurringGenerationResult> {
+    const result: RecurringGenerationResult = { plansProcessed: 0, occurrencesCreated: 0 };
+
+    for (const plan of plans) {
+      try {
+        result.occurrencesCreated += await this.generateForPlan(plan);
+        result.plansProcessed++;
+      } catch (error) {
+        this.logger.error(`Failed to generate occurrences of recurring transaction ${plan.recurringTransactionId}: ${error.message}`);
+      }
+    }
+
+    if (result.occurrencesCreated > 0) {
+      this.logger.log(`Generated ${result.occurrencesCreated} recurring occurrences for ${result.plansProcessed} plans`);
+    }
+    return result;
+  }
+
+  /**
+   * Create the occurrences of a plan from its next due date up to today and move the due date on
+   * @returns Number of occurrences created
+   */
+  private async generateForPlan(plan: RecurringTransaction): Promise<number> {
+    const today = normalizeDateToString(new Date());
+    const asset = plan.kind === RecurringTransactionKind.TRADE
+      ? await this.assetRepository.findOne({ where: { id: plan.assetId } })
+      : null;
+
+    // Cash flows cannot be dated inside the locked period, so those due dates are passed over
+    const { lockedThroughDate } = plan.kind === RecurringTransactionKind.TRADE
+      ? { lockedThroughDate: null }
+      : await this.auditTrailService.getPeriodLock(plan.portfolioId);
+
+    let created = 0;
+    let runDate = plan.nextRunDate;
+    while (plan.isActive && runDate && runDate <= today && created < MAX_OCCURRENCES_PER_RUN) {
+      const exists = await this.occurrenceRepository.findOne({
+        where: { recurringTransactionId: plan.recurringTransactionId, scheduledDate: runDate },
+      });
+      if (!exists && isInLockedPeriod(lockedThroughDate, runDate)) {
+        this.logger.warn(`Skipped occurrence of "${plan.name}" on ${runDate}: the portfolio is locked through ${lockedThroughDate}`);
+      } else if (!exists) {
+        if (plan.kind === RecurringTransactionKind.TRADE) {
+          await this.createTradeOccurrence(plan, asset, runDate);
+        } else {
+          await this.createCashFlowOccurrence(plan, runDate);
+        }
+        created++;
+      }
+      runDate = this.recurrenceEngine.nextRunDate(plan, runDate);
+    }
+
+    if (runDate !== plan.nextRunDate) {
+      await this.planRepository.update({ recurringTransactionId: plan.recurringTransactionId }, { nextRunDate: runDate });
+      plan.nextRunDate = runDate;
+    }
+    return created;
+  }
+
+  /**
+   * Propose a trade at the market price of the due date; the quantity is left empty when no price is known
+   */
+  private async createTradeOccurrence(plan: RecurringTransaction, asset: Asset | null, scheduledDate: string): Promise<void> {
+    const price = asset ? await this.marketDataService.getPriceOnDate(asset.symbol, scheduledDate) : null;
+    const fixedQuantity = Number(plan.quantity) || 0;
+    const amount = Number(plan.amount) || 0;
+
+    let quantity: number | null = null;
+    if (fixedQuantity > 0) {
+      quantity = fixedQuantity;
+    } else if (price && amount > 0) {
+      quantity = Math.floor((amount / price) * 100) / 100;
+    }
+
+    await this.occurrenceRepository.save(this.occurrenceRepository.create({
+      recurringTransactionId: plan.recurringTransactionId,
+      portfolioId: plan.portfolioId,
+      scheduledDate,
+      status: CashFlowStatus.PENDING,
+      quantity,
+      price,
+      amount: quantity && price ? Number((quantity * price).toFixed(2)) : amount || null,
+    }));
+  }
+
+  /**
+   * Create a PENDING cash flow, which is left out of the cash balance until confirmed
+   */
+  private async createCashFlowOccurrence(plan: RecurringTransaction, scheduledDate: string): Promise<void> {
+    await this.auditTrailService.assertPeriodOpen(plan.portfolioId, scheduledDate);
+
+    await this.dataSource.transaction(async (manager) => {
+      const flowDate = new Date(scheduledDate);
+      const cashFlow = await manager.save(manager.create(CashFlow, {
+        portfolioId: plan.portfolioId,
+        type: plan.cashFlowType as CashFlowType,
+        amount: Number(plan.amount),
+        currency: plan.currency || 'VND',
+        description: plan.description || plan.name,
+        status: CashFlowStatus.PENDING,
+        flowDate,
+        effectiveDate: flowDate,
+        fundingSource: plan.fundingSource || undefined,
+      }));
+      await this.recordCashFlowAudit(manager, AuditAction.CREATE, cashFlow, cashFlow, {
+        reason: `Recurring transaction "${plan.name}"`,
+      });
+
+      await manager.save(manager.create(RecurringTransactionOccurrence, {
+        recurringTransactionId: plan.recurringTransactionId,
+        portfolioId: plan.portfolioId,
+        scheduledDate,
+        status: CashFlowStatus.PENDING,
+        amount: Number(plan.amount),
+        cashFlowId: cashFlow.cashFlowId,
+      }));
+    });
+  }
+
+  /**
+   * Record a cash flow change in the audit trail, inside the transaction that makes it.
+   * `cashFlow` is the record before an update, or the created record
+   */
+  private async recordCashFlowAudit(
+    manager: EntityManager,
+    action: AuditAction,
+    cashFlow: CashFlow,
+    after: object | null,
+    audit: AuditContext,
+  ): Promise<void> {
+    await this.auditTrailService.record({
+      portfolioId: cashFlow.portfolioId,
+      entityType: AuditEntityType.CASH_FLOW,
+      entityId: cashFlow.cashFlowId,
+      action,
+      before: action === AuditAction.CREATE ? null : cashFlow,
+      after,
+    }, audit, manager);
+  }
+
+  private async validatePlan(plan: RecurringTransaction): Promise<void> {
+    if (plan.endDate && plan.endDate < plan.startDate) {
+      throw new BadRequestException('End date must not be before the start date');
+    }
+
+    if (plan.kind === RecurringTransactionKind.TRADE) {
+      if (!plan.assetId || !plan.side) {
+        throw new BadRequestException('Recurring trades require an asset and a side');
+      }
+      if (!(Number(plan.quantity) > 0) && !(Number(plan.amount) > 0)) {
+        throw new BadRequestException('Recurring trades require a quantity or an amount to invest');
+      }
+      // Asset pickers return global asset IDs; plans keep the account's own asset
+      plan.assetId = await this.tradingService.resolveAssetIdForTrade(plan.assetId, plan.portfolioId);
+    } else {
+      if (!plan.cashFlowType) {
+        throw new BadRequestException('Recurring cash flows require a cash flow type');
+      }
+      if (!(Number(plan.amount) > 0)) {
+        throw new BadRequestException('Recurring cash flows require a positive amount');
+      }
+    }
+  }
+}
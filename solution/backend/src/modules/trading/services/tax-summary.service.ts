@@ -0,0 +1,154 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Between, In } from 'typeorm';
+import { Trade, TradeSide } from '../entities/trade.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { CashFlow, CashFlowStatus, CashFlowType } from '../../portfolio/entities/cash-flow.entity';
+import { TaxFeeCalculationService } from '../../shared/services/tax-fee-calculation.service';
+import {
+  AnnualTaxSummaryResponse,
+  PortfolioTaxSummary,
+  TaxRulesResponse,
+  TaxSummaryTotals,
+} from '../dto/tax-summary.dto';
+
+type TaxAmounts = Omit<TaxSummaryTotals, 'currency'>;
+
+const INTEREST_TYPES = [CashFlowType.INTEREST, CashFlowType.DEPOSIT_SETTLEMENT];
+
+/**
+ * Service for the yearly tax summary of an account.
+ * Sale tax and fees come from trades, withheld tax from dividend and interest cash flows,
+ * and manual TAX cash flows are reported as other tax paid.
+ */
+@Injectable()
+export class TaxSummaryService {
+  constructor(
+    @InjectRepository(Trade)
+    private readonly tradeRepository: Repository<Trade>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    @InjectRepository(CashFlow)
+    private readonly cashFlowRepository: Repository<CashFlow>,
+    private readonly taxFeeCalculationService: TaxFeeCalculationService,
+  ) {}
+
+  /**
+   * Total the tax paid in a calendar year per portfolio and for the account
+   * @param accountId Account ID
+   * @param year Calendar year
+   * @returns Per-portfolio figures and account totals per base currency
+   */
+  async getAnnualSummary(accountId: string, year: number): Promise<AnnualTaxSummaryResponse> {
+    const portfolios = await this.portfolioRepository.find({
+      where: { accountId },
+      order: { name: 'ASC' },
+    });
+    if (portfolios.length === 0) {
+      return { accountId, year, portfolios: [], totals: [] };
+    }
+
+    const portfolioIds = portfolios.map(portfolio => portfolio.portfolioId);
+    const period = Between(new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999)));
+    const [trades, cashFlows] = await Promise.all([
+      this.tradeRepository.find({ where: { portfolioId: In(portfolioIds), tradeDate: period } }),
+      this.cashFlowRepository.find({
+        where: { portfolioId: In(portfolioIds), flowDate: period, status: CashFlowStatus.COMPLETED },
+      }),
+    ]);
+
+    const summaries = portfolios.map(portfolio => this.summarizePortfolio(
+      portfolio,
+      trades.filter(trade => trade.portfolioId === portfolio.portfolioId),
+      cashFlows.filter(cashFlow => cashFlow.portfolioId === portfolio.portfolioId),
+    ));
+
+    const totalsByCurrency = new Map<string, TaxSummaryTotals>();
+    for (const summary of summaries) {
+      const totals = totalsByCurrency.get(summary.baseCurrency)
+        || { currency: summary.baseCurrency, ...this.emptyAmounts() };
+      for (const key of Object.keys(this.emptyAmounts()) as (keyof TaxAmounts)[]) {
+        totals[key] = this.round(totals[key] + summary[key]);
+      }
+      totalsByCurrency.set(summary.baseCurrency, totals);
+    }
+
+    return { accountId, year, portfolios: summaries, totals: Array.from(totalsByCurrency.values()) };
+  }
+
+  /**
+   * Get the tax rates and broker fee schedules that apply to a currency
+   * @param currency Asset or portfolio currency
+   * @returns Rules of the matching nation, zero rates when it has none
+   */
+  getRules(currency?: string): TaxRulesResponse {
+    const { nation, rules } = this.taxFeeCalculationService.getTaxRules(currency);
+
+    return {
+      nation,
+      securitiesAssetTypes: rules?.securitiesAssetTypes || [],
+      securitiesSaleTaxRate: rules?.securitiesSaleTaxRate || 0,
+      cashDividendTaxRate: rules?.cashDividendTaxRate || 0,
+      depositInterestTaxRate: rules?.depositInterestTaxRate || 0,
+      defaultBroker: rules?.defaultBroker || null,
+      brokers: rules?.brokers || {},
+    };
+  }
+
+  private summarizePortfolio(portfolio: Portfolio, trades: Trade[], cashFlows: CashFlow[]): PortfolioTaxSummary {
+    const amounts = this.emptyAmounts();
+
+    // Trade amounts are in the asset currency, convert with the rate locked at trade time
+    for (const trade of trades) {
+      const fxRate = Number(trade.fxRate) || 1;
+      amounts.tradingFees += (Number(trade.fee) || 0) * fxRate;
+      amounts.saleTax += (Number(trade.tax) || 0) * fxRate;
+      if (trade.side === TradeSide.SELL) {
+        amounts.grossSaleValue += Number(trade.quantity) * Number(trade.price) * fxRate;
+      }
+    }
+
+    for (const cashFlow of cashFlows) {
+      const taxWithheld = Number(cashFlow.taxWithheld) || 0;
+      if (cashFlow.type === CashFlowType.DIVIDEND) {
+        amounts.grossDividends += Number(cashFlow.amount) + taxWithheld;
+        amounts.dividendTaxWithheld += taxWithheld;
+      } else if (INTEREST_TYPES.includes(cashFlow.type)) {
+        amounts.interestTaxWithheld += taxWithheld;
+      } else if (cashFlow.type === CashFlowType.TAX) {
+        amounts.otherTaxPaid += Math.abs(Number(cashFlow.amount));
+      }
+    }
+
+    amounts.totalTaxPaid = amounts.saleTax + amounts.dividendTaxWithheld + amounts.interestTaxWithheld + amounts.otherTaxPaid;
+    for (const key of Object.keys(amounts) as (keyof TaxAmounts)[]) {
+      amounts[key] = this.round(amounts[key]);
+    }
+
+    return {
+      portfolioId: portfolio.portfolioId,
+      portfolioName: portfolio.name,
+      baseCurrency: portfolio.baseCurrency,
+      broker: portfolio.broker || null,
+      tradeCount: trades.length,
+      ...amounts,
+    };
+  }
+
+  private emptyAmounts(): TaxAmounts {
+    return {
+      grossSaleValue: 0,
+      saleTax: 0,
+      tradingFees: 0,
+      grossDividends: 0,
+      dividendTaxWithheld: 0,
+      interestTaxWithheld: 0,
+      otherTaxPaid: 0,
+      totalTaxPaid: 0,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
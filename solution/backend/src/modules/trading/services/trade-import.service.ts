@@ -0,0 +1,496 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, EntityManager, In, MoreThanOrEqual } from 'typeorm';
+import { Trade, TradeSide, TradeSource, TradeType } from '../entities/trade.entity';
+import { TradeDetail } from '../entities/trade-detail.entity';
+import { Portfolio } from '../../portfolio/entities/portfolio.entity';
+import { CashFlow, CashFlowType, CashFlowStatus } from '../../portfolio/entities/cash-flow.entity';
+import { Asset } from '../../asset/entities/asset.entity';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+import { TradingService } from './trading.service';
+import { NotificationGateway } from '../../../notification/notification.gateway';
+import { FxRateService } from '../../market-data/services/fx-rate.service';
+import { normalizeDateToString } from '../../portfolio/utils/date-normalization.util';
+import { isInLockedPeriod } from '../../portfolio/utils/audit-trail.util';
+import { AuditTrailService, AuditContext } from '../../portfolio/services/audit-trail.service';
+import { AuditAction, AuditEntityType } from '../../portfolio/entities/financial-audit-log.entity';
+import { BrokerStatementParser, ColumnMapping, StatementFile } from '../importers/broker-statement.parser';
+import { BROKER_LAYOUTS, BrokerLayoutDefinition } from '../importers/broker-statement-layouts';
+import {
+  TradeImportPreviewDto,
+  TradeImportCommitDto,
+  TradeImportRowDto,
+  TradeImportPreviewRow,
+  TradeImportPreviewResponse,
+  TradeImportCommitResponse,
+  TradeImportRowStatus,
+} from '../dto/trade-import.dto';
+
+interface ResolvedSymbol {
+  assetId?: string;
+  assetName?: string;
+  globalAssetId?: string;
+}
+
+/**
+ * Service for importing trades from broker statements.
+ * Preview is a dry run (parse, resolve assets, flag duplicates); commit creates
+ * the accepted rows in one transaction and matches sells in date order.
+ */
+@Injectable()
+export class TradeImportService {
+  private readonly logger = new Logger(TradeImportService.name);
+  private readonly parser = new BrokerStatementParser();
+
+  constructor(
+    @InjectRepository(Trade)
+    private readonly tradeRepository: Repository<Trade>,
+    @InjectRepository(Portfolio)
+    private readonly portfolioRepository: Repository<Portfolio>,
+    @InjectRepository(Asset)
+    private readonly assetRepository: Repository<Asset>,
+    @InjectRepository(GlobalAsset)
+    private readonly globalAssetRepository: Repository<GlobalAsset>,
+    private readonly dataSource: DataSource,
+    private readonly tradingService: TradingService,
+    private readonly notificationGateway: NotificationGateway,
+    private readonly fxRateService: FxRateService,
+    private readonly auditTrailService: AuditTrailService,
+  ) {}
+
+  /**
+   * Get supported broker statement layouts
+   * @returns Layout definitions
+   */
+  getLayouts(): BrokerLayoutDefinition[] {
+    return Object.values(BROKER_LAYOUTS);
+  }
+
+  /**
+   * Parse a statement file and return a dry-run preview of the rows
+   * @param file Uploaded statement file
+   * @param dto Preview options
+   * @returns Parsed rows with asset resolution and duplicate flags
+   */
+  async previewImport(file: StatementFile, dto: TradeImportPreviewDto): Promise<TradeImportPreviewResponse> {
+    if (!file || !file.buffer || file.buffer.length === 0) {
+      throw new BadRequestException('Statement file is required');
+    }
+
+    const portfolio = await this.getPortfolio(dto.portfolioId);
+    const parsed = this.parser.parse(file, {
+      layout: dto.layout,
+      columnMapping: this.parseColumnMapping(dto.columnMapping),
+      dateFormat: dto.dateFormat,
+      priceMultiplier: dto.priceMultiplier,
+      decimalSeparator: dto.decimalSeparator,
+    });
+
+    const symbols = [...new Set(parsed.rows.map(row => row.symbol).filter(Boolean))];
+    const resolvedSymbols = await this.resolveSymbols(symbols, portfolio.accountId);
+    const existingTradeKeys = await this.getExistingTradeKeys(portfolio.portfolioId);
+    const seenKeys = new Map<string, number>();
+
+    const rows: TradeImportPreviewRow[] = parsed.rows.map(row => {
+      const errors = [...row.errors];
+      const resolved = row.symbol ? resolvedSymbols.get(row.symbol) : undefined;
+
+      if (row.symbol && !resolved?.assetId && !resolved?.globalAssetId) {
+        errors.push(`Unknown symbol "${row.symbol}"`);
+      }
+
+      let status = errors.length > 0 ? TradeImportRowStatus.INVALID : TradeImportRowStatus.VALID;
+      let duplicateOf: string | undefined;
+
+      if (status === TradeImportRowStatus.VALID) {
+        const key = this.buildTradeKey(row.symbol, row.tradeDate, row.side, row.quantity, row.price);
+        if (existingTradeKeys.has(key)) {
+          status = TradeImportRowStatus.DUPLICATE;
+          duplicateOf = existingTradeKeys.get(key);
+        } else if (seenKeys.has(key)) {
+          status = TradeImportRowStatus.DUPLICATE;
+          duplicateOf = `row ${seenKeys.get(key)}`;
+        } else {
+          seenKeys.set(key, row.rowNumber);
+        }
+      }
+
+      return {
+        rowNumber: row.rowNumber,
+        tradeDate: row.tradeDate ? row.tradeDate.toISOString() : null,
+        symbol: row.symbol || null,
+        side: row.side || null,
+        quantity: row.quantity ?? null,
+        price: row.price ?? null,
+        fee: row.fee,
+        tax: row.tax,
+        exchange: row.exchange,
+        notes: row.notes,
+        assetId: resolved?.assetId,
+        assetName: resolved?.assetName,
+        createsAsset: !!resolved && !resolved.assetId && !!resolved.globalAssetId,
+        status,
+        errors,
+        duplicateOf,
+      };
+    });
+
+    return {
+      portfolioId: portfolio.portfolioId,
+      fileName: file.originalname,
+      layout: dto.layout,
+      headers: parsed.headers,
+      columnMapping: parsed.columnMapping,
+      missingFields: parsed.missingFields,
+      rows,
+      summary: {
+        total: rows.length,
+        valid: rows.filter(row => row.status === TradeImportRowStatus.VALID).length,
+        duplicates: rows.filter(row => row.status === TradeImportRowStatus.DUPLICATE).length,
+        invalid: rows.filter(row => row.status === TradeImportRowStatus.INVALID).length,
+      },
+    };
+  }
+
+  /**
+   * Create accepted rows as trades in one transaction.
+   * Rows are processed in trade date order (buys before sells on the same day).
+   * Sells of each imported asset dated on or after its earliest imported row, existing ones included,
+   * are then re-matched in date order with the portfolio's cost basis method, so backdated rows
+   * change the lots that later sells consume.
+   * @param dto Accepted rows
+   * @param audit Who imports the trades
+   * @returns Import result
+   */
+  async commitImport(dto: TradeImportCommitDto, audit?: AuditContext): Promise<TradeImportCommitResponse> {
+    const portfolio = await this.getPortfolio(dto.portfolioId);
+    const skipped: Array<{ rowNumber: number; reason: string }> = [];
+
+    const symbols = [...new Set(dto.rows.map(row => row.symbol.toUpperCase().trim()))];
+    const resolvedSymbols = await this.resolveSymbols(symbols, portfolio.accountId);
+
+    // Create user assets for symbols that only exist in the global catalog.
+    // Asset creation is idempotent, so this is done before the trade transaction.
+    const assetIdBySymbol = new Map<string, string>();
+    for (const symbol of symbols) {
+      const resolved = resolvedSymbols.get(symbol);
+      if (resolved?.assetId) {
+        assetIdBySymbol.set(symbol, resolved.assetId);
+      } else if (resolved?.globalAssetId) {
+        const assetId = await this.tradingService.resolveAssetIdForTrade(resolved.globalAssetId, portfolio.portfolioId);
+        assetIdBySymbol.set(symbol, assetId);
+      }
+    }
+
+    const existingTradeKeys = await this.getExistingTradeKeys(portfolio.portfolioId);
+    const acceptedRows: Array<TradeImportRowDto & { assetId: string; date: Date; fxRate?: number | null }> = [];
+
+    for (const row of dto.rows) {
+      const symbol = row.symbol.toUpperCase().trim();
+      const assetId = assetIdBySymbol.get(symbol);
+      if (!assetId) {
+        skipped.push({ rowNumber: row.rowNumber, reason: `Unknown symbol "${symbol}"` });
+        continue;
+      }
+
+      const date = new Date(row.tradeDate);
+      if (isInLockedPeriod(portfolio.lockedThroughDate, date)) {
+        skipped.push({ rowNumber: row.rowNumber, reason: `Locked period (through ${portfolio.lockedThroughDate})` });
+        continue;
+      }
+
+      const key = this.buildTradeKey(symbol, date, row.side, row.quantity, row.price);
+      if (existingTradeKeys.has(key) && !row.allowDuplicate) {
+        skipped.push({ rowNumber: row.rowNumber, reason: `Duplicate of trade ${existingTradeKeys.get(key)}` });
+        continue;
+      }
+      existingTradeKeys.set(key, `row ${row.rowNumber}`);
+
+      acceptedRows.push({ ...row, symbol, assetId, date });
+    }
+
+    acceptedRows.sort((a, b) => {
+      const dateDiff = a.date.getTime() - b.date.getTime();
+      if (dateDiff !== 0) return dateDiff;
+      if (a.side !== b.side) return a.side === TradeSide.BUY ? -1 : 1;
+      return a.rowNumber - b.rowNumber;
+    });
+
+    if (acceptedRows.length === 0) {
+      return {
+        portfolioId: portfolio.portfolioId,
+        importedCount: 0,
+        tradeIds: [],
+        skipped,
+        realizedPnl: 0,
+      };
+    }
+
+    // Trade-date FX rates for assets not traded in the portfolio base currency
+    const assetCurrencies = new Map(
+      (await this.assetRepository.find({ where: { id: In([...new Set(acceptedRows.map(row => row.assetId))]) } }))
+        .map(asset => [asset.id, asset.currency]),
+    );
+    for (const row of acceptedRows) {
+      row.fxRate = await this.fxRateService.getTradeRate(
+        assetCurrencies.get(row.assetId) || portfolio.baseCurrency,
+        portfolio.baseCurrency,
+        row.date,
+      );
+    }
+
+    const { trades, realizedPnl } = await this.dataSource.transaction(async (manager) => {
+      const createdTrades: Trade[] = [];
+      let totalPnl = 0;
+
+      for (const row of acceptedRows) {
+        const trade = manager.create(Trade, {
+          portfolioId: portfolio.portfolioId,
+          assetId: row.assetId,
+          tradeDate: row.date,
+          side: row.side,
+          quantity: row.quantity,
+          price: row.price,
+          fee: row.fee || 0,
+          tax: row.tax || 0,
+          tradeType: TradeType.NORMAL,
+          source: TradeSource.IMPORT,
+          exchange: (row.exchange || dto.broker)?.toUpperCase().trim(),
+          notes: row.notes,
+          fxRate: row.fxRate,
+        });
+        const savedTrade = await manager.save(trade);
+        createdTrades.push(savedTrade);
+
+        await this.createTradeCashFlow(manager, savedTrade, row.symbol, portfolio.baseCurrency);
+      }
+
+      // Rows are sorted by date, so the first row of an asset is its earliest
+      const rematchFromByAsset = new Map<string, Date>();
+      for (const row of acceptedRows) {
+        if (!rematchFromByAsset.has(row.assetId)) {
+          rematchFromByAsset.set(row.assetId, row.date);
+        }
+      }
+
+      const importedTradeIds = new Set(createdTrades.map(trade => trade.tradeId));
+      for (const [assetId, fromDate] of rematchFromByAsset) {
+        const pnlByTrade = await this.rematchSellsFrom(manager, portfolio.portfolioId, assetId, fromDate);
+        for (const [tradeId, pnl] of pnlByTrade) {
+          if (importedTradeIds.has(tradeId)) {
+            totalPnl += pnl;
+          }
+        }
+      }
+
+      await this.recalculateCashBalance(manager, portfolio.portfolioId);
+
+      return { trades: createdTrades, realizedPnl: totalPnl };
+    });
+    const tradeIds = trades.map(trade => trade.tradeId);
+
+    for (const trade of trades) {
+      await this.auditTrailService.record({
+        portfolioId: portfolio.portfolioId,
+        entityType: AuditEntityType.TRADE,
+        entityId: trade.tradeId,
+        action: AuditAction.CREATE,
+        after: trade,
+      }, { reason: 'Broker statement import', ...audit });
+    }
+
+    const affectedAssetIds = [...new Set(acceptedRows.map(row => row.assetId))];
+    for (const assetId of affectedAssetIds) {
+      await this.tradingService.invalidateAllRelatedCaches(portfolio.portfolioId, assetId);
+    }
+
+    try {
+      await this.notificationGateway.sendTradeNotification(
+        portfolio.accountId,
+        'Trade Import Completed',
+        `Imported ${tradeIds.length} trades into ${portfolio.name}`,
+        `/portfolios/${portfolio.portfolioId}/trading`,
+        {
+          portfolioId: portfolio.portfolioId,
+          importedCount: tradeIds.length,
+          skippedCount: skipped.length,
+        },
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to send trade import notification: ${error.message}`);
+    }
+
+    this.logger.log(`Imported ${tradeIds.length} trades into portfolio ${portfolio.portfolioId} (${skipped.length} skipped)`);
+
+    return {
+      portfolioId: portfolio.portfolioId,
+      importedCount: tradeIds.length,
+      tradeIds,
+      skipped,
+      realizedPnl,
+    };
+  }
+
+  /**
+   * Clear and redo the matching of an asset's sells dated on or after a date, oldest first,
+   * with the portfolio's cost basis method against lots visible inside the transaction
+   * @returns Realized P&L of each re-matched sell by trade ID
+   */
+  private async rematchSellsFrom(
+    manager: EntityManager,
+    portfolioId: string,
+    assetId: string,
+    fromDate: Date,
+  ): Promise<Map<string, number>> {
+    const sellTrades = await manager.find(Trade, {
+      where: { portfolioId, assetId, side: TradeSide.SELL, tradeDate: MoreThanOrEqual(fromDate) },
+      order: { tradeDate: 'ASC', createdAt: 'ASC' },
+    });
+    const pnlByTrade = new Map<string, number>();
+    if (sellTrades.length === 0) {
+      return pnlByTrade;
+    }
+
+    await manager.delete(TradeDetail, { sellTradeId: In(sellTrades.map(trade => trade.tradeId)) });
+
+    for (const sellTrade of sellTrades) {
+      const matchResult = await this.tradingService.matchSellTrade(sellTrade, manager);
+      pnlByTrade.set(sellTrade.tradeId, matchResult.totalPnl);
+    }
+
+    return pnlByTrade;
+  }
+
+  /**
+   * Create the settlement cash flow of an imported trade (same shape as CashFlowService.createCashFlowFromTrade)
+   */
+  private async createTradeCashFlow(
+    manager: EntityManager,
+    trade: Trade,
+    symbol: string,
+    currency: string,
+  ): Promise<void> {
+    const fxRate = Number(trade.fxRate) || 1;
+    const tradeAmount = Number(trade.quantity) * Number(trade.price) * fxRate;
+    const fee = (Number(trade.fee) || 0) * fxRate;
+    const tax = (Number(trade.tax) || 0) * fxRate;
+
+    if (tradeAmount === 0 && fee === 0 && tax === 0) {
+      return;
+    }
+
+    const isBuy = trade.side === TradeSide.BUY;
+    const amount = Number((isBuy ? tradeAmount + fee + tax : tradeAmount - fee - tax).toFixed(2));
+    const formattedPrice = Number(trade.price).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+    const cashFlow = manager.create(CashFlow, {
+      portfolioId: trade.portfolioId,
+      type: isBuy ? CashFlowType.BUY_TRADE : CashFlowType.SELL_TRADE,
+      amount,
+      description: `${trade.side} ${Number(trade.quantity).toFixed(2)} shares of ${symbol} at ${formattedPrice} [TradeID: ${trade.tradeId}]`,
+      reference: trade.tradeId,
+      status: CashFlowStatus.COMPLETED,
+      flowDate: trade.tradeDate,
+      effectiveDate: trade.tradeDate,
+      currency: currency || 'VND',
+    });
+    await manager.save(cashFlow);
+  }
+
+  /**
+   * Recalculate the portfolio cash balance from completed cash flows inside the transaction
+   */
+  private async recalculateCashBalance(manager: EntityManager, portfolioId: string): Promise<void> {
+    const cashFlows = await manager.find(CashFlow, {
+      where: { portfolioId, status: CashFlowStatus.COMPLETED },
+    });
+    const cashBalance = cashFlows.reduce((sum, cashFlow) => sum + Number(cashFlow.netAmount), 0);
+    await manager.update(Portfolio, { portfolioId }, { cashBalance });
+  }
+
+  /**
+   * Resolve symbols to the account's assets, falling back to the global asset catalog
+   */
+  private async resolveSymbols(symbols: string[], accountId: string): Promise<Map<string, ResolvedSymbol>> {
+    const result = new Map<string, ResolvedSymbol>();
+    if (symbols.length === 0) {
+      return result;
+    }
+
+    const assets = await this.assetRepository.find({
+      where: { symbol: In(symbols), createdBy: accountId },
+    });
+    for (const asset of assets) {
+      result.set(asset.symbol.toUpperCase(), { assetId: asset.id, assetName: asset.name });
+    }
+
+    const unresolved = symbols.filter(symbol => !result.has(symbol));
+    if (unresolved.length > 0) {
+      const globalAssets = await this.globalAssetRepository.find({
+        where: { symbol: In(unresolved), isActive: true },
+        order: { createdAt: 'ASC' },
+      });
+      for (const globalAsset of globalAssets) {
+        const symbol = globalAsset.symbol.toUpperCase();
+        if (!result.has(symbol)) {
+          result.set(symbol, { globalAssetId: globalAsset.id, assetName: globalAsset.name });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Build duplicate-detection keys (symbol, day, side, quantity, price) for existing trades
+   * @returns Map of key to trade ID
+   */
+  private async getExistingTradeKeys(portfolioId: string): Promise<Map<string, string>> {
+    const trades = await this.tradeRepository.find({
+      where: { portfolioId },
+      relations: ['asset'],
+    });
+
+    const keys = new Map<string, string>();
+    for (const trade of trades) {
+      keys.set(
+        this.buildTradeKey(trade.asset?.symbol, trade.tradeDate, trade.side, trade.quantity, trade.price),
+        trade.tradeId,
+      );
+    }
+    return keys;
+  }
+
+  private buildTradeKey(symbol: string, tradeDate: Date, side: TradeSide, quantity: number, price: number): string {
+    return [
+      (symbol || '').toUpperCase(),
+      tradeDate ? normalizeDateToString(tradeDate) : '',
+      side,
+      Number(quantity).toFixed(8),
+      Number(price).toFixed(8),
+    ].join('|');
+  }
+
+  private parseColumnMapping(columnMapping?: string): ColumnMapping | undefined {
+    if (!columnMapping) {
+      return undefined;
+    }
+    try {
+      const parsed = JSON.parse(columnMapping);
+      if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('not an object');
+      }
+      return parsed;
+    } catch (error) {
+      throw new BadRequestException('columnMapping must be a JSON object of field to column header');
+    }
+  }
+
+  private async getPortfolio(portfolioId: string): Promise<Portfolio> {
+    const portfolio = await this.portfolioRepository.findOne({ where: { portfolioId } });
+    if (!portfolio) {
+      throw new NotFoundException(`Portfolio with ID ${portfolioId} not found`);
+    }
+    return portfolio;
+  }
+}
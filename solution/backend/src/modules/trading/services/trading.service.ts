@@ -1,14 +1,14 @@
 import { Injectable, NotFoundException, BadRequestException, Inject, forwardRef } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThanOrEqual, LessThanOrEqual } from 'typeorm';
+import { Repository, MoreThanOrEqual, LessThanOrEqual, EntityManager } from 'typeorm';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
 import { Trade, TradeSide, TradeType } from '../entities/trade.entity';
 import { TradeDetail } from '../entities/trade-detail.entity';
 import { TradeRepository } from '../repositories/trade.repository';
 import { TradeDetailRepository } from '../repositories/trade-detail.repository';
-import { FIFOEngine } from '../engines/fifo-engine';
 import { LIFOEngine } from '../engines/lifo-engine';
+import { CostBasisEngine, LotSelection } from '../engines/cost-basis-engine';
 import { PositionManager } from '../managers/position-manager';
 import { AssetCacheService } from '../../asset/services/asset-cache.service';
 import { CashFlowService } from '../../portfolio/services/cash-flow.service';
@@ -23,6 +23,11 @@ import { AssetService, CreateAssetDto } from '../../asset/services/asset.service
 import { GlobalAssetService } from '../../asset/services/global-asset.service';
 import { Asset } from '../../asset/entities/asset.entity';
 import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+import { FxRateService } from '../../market-data/services/fx-rate.service';
+import { CostBasisMethod } from '../../portfolio/enums/cost-basis-method.enum';
+import { TaxFeeCalculationService, TradeChargeEstimate } from '../../shared/services/tax-fee-calculation.service';
+import { AuditTrailService, AuditContext } from '../../portfolio/services/audit-trail.service';
+import { AuditAction, AuditEntityType } from '../../portfolio/entities/financial-audit-log.entity';
 
 
 export interface TradeMatchingResult {
@@ -53,8 +58,8 @@ export class TradingService {
     private readonly globalAssetRepository: Repository<GlobalAsset>,
     private readonly tradeRepo: TradeRepository,
     private readonly tradeDetailRepo: TradeDetailRepository,
-    private readonly fifoEngine: FIFOEngine,
     private readonly lifoEngine: LIFOEngine,
+    private readonly costBasisEngine: CostBasisEngine,
     private readonly positionManager: PositionManager,
     @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
     private readonly assetCacheService: AssetCacheService,
@@ -66,6 +71,9 @@ export class TradingService {
     private readonly portfolioCalculationService: PortfolioCalculationService,
     private readonly portfolioValueCalculator: PortfolioValueCalculatorService,
     private readonly notificationGateway: NotificationGateway,
+    private readonly fxRateService: FxRateService,
+    private readonly taxFeeCalculationService: TaxFeeCalculationService,
+    private readonly auditTrailService: AuditTrailService,
   ) {}
 
   /**
@@ -74,7 +82,7 @@ export class TradingService {
    * @param portfolioId Portfolio ID
    * @param assetId Asset ID (optional, for asset-specific caches)
    */
-  private async invalidateAllRelatedCaches(portfolioId: string, assetId?: string): Promise<void> {
+  async invalidateAllRelatedCaches(portfolioId: string, assetId?: string): Promise<void> {
     try {
       // Get portfolio details to find account ID
       const trade = await this.tradeRepository.findOne({
@@ -173,7 +181,7 @@ export class TradingService {
    * @param portfolioId - Portfolio ID to get accountId
    * @returns Asset.id that can be used for trade creation
    */
-  private async resolveAssetIdForTrade(assetId: string, portfolioId: string): Promise<string> {
+  async resolveAssetIdForTrade(assetId: string, portfolioId: string): Promise<string> {
     // First, check if it's already a valid Asset.id
     const asset = await this.assetRepository.findOne({
       where: { id: assetId },
@@ -224,6 +232,7 @@ export class TradingService {
       type: globalAsset.type,
       description: globalAsset.description,
       priceMode: globalAsset.priceMode,
+      currency: globalAsset.currency,
       createdBy: accountId,
       updatedBy: accountId,
     };
@@ -232,14 +241,31 @@ export class TradingService {
     return newAsset.id;
   }
 
+  /**
+   * Trade-date rate converting the asset currency into the portfolio base currency
+   * @returns Rate, or null when both currencies match or no rate is known yet
+   */
+  private async resolveTradeFxRate(assetId: string, portfolioId: string, tradeDate: Date | string): Promise<number | null> {
+    const [asset, portfolio] = await Promise.all([
+      this.assetRepository.findOne({ where: { id: assetId } }),
+      this.portfolioRepo.findOne({ where: { portfolioId } }),
+    ]);
+    if (!asset || !portfolio) {
+      return null;
+    }
+    return this.fxRateService.getTradeRate(asset.currency, portfolio.baseCurrency, tradeDate);
+  }
+
   /**
    * Create a new trade
    * @param createTradeDto Trade creation data
+   * @param audit Who creates the trade and why
    * @returns Created trade
    */
-  async createTrade(createTradeDto: CreateTradeDto): Promise<Trade> {
+  async createTrade(createTradeDto: CreateTradeDto, audit?: AuditContext): Promise<Trade> {
     // Validate trade data
     this.validateTradeData(createTradeDto);
+    await this.auditTrailService.assertPeriodOpen(createTradeDto.portfolioId, createTradeDto.tradeDate);
 
     // Resolve assetId - convert GlobalAsset.id to Asset.id if needed
     const resolvedAssetId = await this.resolveAssetIdForTrade(
@@ -247,6 +273,33 @@ export class TradingService {
       createTradeDto.portfolioId
     );
 
+    const fxRate = createTradeDto.fxRate
+      ?? await this.resolveTradeFxRate(resolvedAssetId, createTradeDto.portfolioId, createTradeDto.tradeDate);
+
+    const lotSelections = createTradeDto.side === TradeSide.SELL && createTradeDto.lotSelections?.length
+      ? createTradeDto.lotSelections
+      : null;
+    if (lotSelections) {
+      await this.validateLotSelections(
+        createTradeDto.portfolioId,
+        resolvedAssetId,
+        new Date(createTradeDto.tradeDate),
+        createTradeDto.quantity,
+        lotSelections,
+      );
+    }
+
+    // Fee and tax left empty are pre-filled from the nation tax rules
+    const charges = createTradeDto.fee == null || createTradeDto.tax == null
+      ? await this.estimateTradeCharges(
+        createTradeDto.portfolioId,
+        resolvedAssetId,
+        createTradeDto.side,
+        createTradeDto.quantity,
+        createTradeDto.price,
+      )
+      : null;
+
     // Create trade entity
     const trade = this.tradeRepository.create({
       portfolioId: createTradeDto.portfolioId,
@@ -255,13 +308,15 @@ export class TradingService {
       side: createTradeDto.side,
       quantity: createTradeDto.quantity,
       price: createTradeDto.price,
-      fee: createTradeDto.fee || 0,
-      tax: createTradeDto.tax || 0,
+      fee: createTradeDto.fee ?? charges?.fee ?? 0,
+      tax: createTradeDto.tax ?? charges?.tax ?? 0,
       tradeType: createTradeDto.tradeType || TradeType.NORMAL,
       source: createTradeDto.source,
       exchange: createTradeDto.exchange?.toUpperCase().trim(),
       fundingSource: createTradeDto.fundingSource?.toUpperCase().trim(),
       notes: createTradeDto.notes,
+      fxRate,
+      lotSelections,
     });
 
     // Save trade
@@ -275,6 +330,14 @@ export class TradingService {
     // Create cash flow from trade
     await this.cashFlowService.createCashFlowFromTrade(savedTrade);
 
+    await this.auditTrailService.record({
+      portfolioId: savedTrade.portfolioId,
+      entityType: AuditEntityType.TRADE,
+      entityId: savedTrade.tradeId,
+      action: AuditAction.CREATE,
+      after: savedTrade,
+    }, audit);
+
     // Invalidate all related caches
     await this.invalidateAllRelatedCaches(savedTrade.portfolioId, savedTrade.assetId);
 
@@ -312,13 +375,46 @@ export class TradingService {
     return savedTrade;
   }
 
+  /**
+   * Estimate the default fee and tax of a trade from the nation tax rules
+   * @param portfolioId Portfolio ID, used for the broker
+   * @param assetId Asset ID or GlobalAsset ID
+   * @param side Trade side
+   * @param quantity Trade quantity
+   * @param price Trade price
+   * @returns Fee and tax estimate in the asset currency
+   */
+  async estimateTradeCharges(
+    portfolioId: string,
+    assetId: string,
+    side: TradeSide,
+    quantity: number,
+    price: number,
+  ): Promise<TradeChargeEstimate> {
+    const [portfolio, asset] = await Promise.all([
+      this.portfolioRepo.findOne({ where: { portfolioId } }),
+      this.assetRepository.findOne({ where: { id: assetId } }),
+    ]);
+    const source = asset || await this.globalAssetRepository.findOne({ where: { id: assetId } });
+
+    return this.taxFeeCalculationService.calculateTradeCharges({
+      side,
+      quantity,
+      price,
+      assetType: source?.type,
+      currency: source?.currency || portfolio?.baseCurrency,
+      broker: portfolio?.broker,
+    });
+  }
+
   /**
    * Update an existing trade
    * @param tradeId Trade ID
    * @param updateTradeDto Update data
+   * @param audit Who changes the trade and why
    * @returns Updated trade
    */
-  async updateTrade(tradeId: string, updateTradeDto: UpdateTradeDto): Promise<Trade> {
+  async updateTrade(tradeId: string, updateTradeDto: UpdateTradeDto, audit?: AuditContext): Promise<Trade> {
     const trade = await this.tradeRepository.findOne({
       where: { tradeId: tradeId },
       relations: ['asset', 'portfolio'],
@@ -337,6 +433,8 @@ export class TradingService {
       throw new BadRequestException('Price must be non-negative');
     }
 
+    const before = { ...trade };
+
     // Store original assetId to handle position updates
     const originalAssetId = trade.assetId;
     const isAssetChanged = updateTradeDto.assetId !== undefined && updateTradeDto.assetId !== originalAssetId;
@@ -357,6 +455,21 @@ export class TradingService {
     if (updateTradeDto.exchange !== undefined) trade.exchange = updateTradeDto.exchange?.toUpperCase().trim();
     if (updateTradeDto.fundingSource !== undefined) trade.fundingSource = updateTradeDto.fundingSource?.toUpperCase().trim();
     if (updateTradeDto.notes !== undefined) trade.notes = updateTradeDto.notes;
+    if (updateTradeDto.lotSelections !== undefined) {
+      trade.lotSelections = trade.side === TradeSide.SELL && updateTradeDto.lotSelections.length > 0
+        ? updateTradeDto.lotSelections
+        : null;
+    }
+    if (updateTradeDto.fxRate !== undefined) {
+      trade.fxRate = updateTradeDto.fxRate;
+    } else if (updateTradeDto.tradeDate || isAssetChanged || updateTradeDto.portfolioId !== undefined) {
+      // Trade-date rate no longer applies, look it up again
+      trade.fxRate = await this.resolveTradeFxRate(trade.assetId, trade.portfolioId, trade.tradeDate);
+    }
+
+    // Neither the old nor the new trade date may fall in a locked period
+    await this.auditTrailService.assertPeriodOpen(before.portfolioId, before.tradeDate);
+    await this.auditTrailService.assertPeriodOpen(trade.portfolioId, trade.tradeDate);
     
     // Use update method instead of save for better reliability
     await this.tradeRepository.update(trade.tradeId, {
@@ -373,6 +486,8 @@ export class TradingService {
       exchange: trade.exchange,
       fundingSource: trade.fundingSource,
       notes: trade.notes,
+      fxRate: trade.fxRate,
+      lotSelections: trade.lotSelections,
     });
     
     // Reload the trade from database
@@ -389,6 +504,15 @@ export class TradingService {
     // Always create cash flow for the updated trade
     await this.cashFlowService.createCashFlowFromTrade(updatedTrade);
 
+    await this.auditTrailService.record({
+      portfolioId: updatedTrade.portfolioId,
+      entityType: AuditEntityType.TRADE,
+      entityId: updatedTrade.tradeId,
+      action: AuditAction.UPDATE,
+      before,
+      after: updatedTrade,
+    }, audit);
+
     // Invalidate all related caches (including both old and new asset if changed)
     await this.invalidateAllRelatedCaches(updatedTrade.portfolioId, updatedTrade.assetId);
     if (isAssetChanged) {
@@ -401,9 +525,10 @@ export class TradingService {
   /**
    * Delete a trade
    * @param tradeId Trade ID
+   * @param audit Who deletes the trade and why
    * @returns Deletion result
    */
-  async deleteTrade(tradeId: string): Promise<void> {
+  async deleteTrade(tradeId: string, audit?: AuditContext): Promise<void> {
     const trade = await this.tradeRepository.findOne({
       where: { tradeId: tradeId },
       relations: ['sellDetails', 'buyDetails'],
@@ -413,6 +538,8 @@ export class TradingService {
       throw new NotFoundException(`Trade with ID ${tradeId} not found`);
     }
 
+    await this.auditTrailService.assertPeriodOpen(trade.portfolioId, trade.tradeDate);
+
     // Delete associated trade details
     if (trade.sellDetails && trade.sellDetails.length > 0) {
       await this.tradeDetailRepository.delete({
@@ -432,6 +559,14 @@ export class TradingService {
     // Delete the trade
     await this.tradeRepository.delete(tradeId);
 
+    await this.auditTrailService.record({
+      portfolioId: trade.portfolioId,
+      entityType: AuditEntityType.TRADE,
+      entityId: trade.tradeId,
+      action: AuditAction.DELETE,
+      before: trade,
+    }, audit);
+
     // Invalidate all related caches
     await this.invalidateAllRelatedCaches(trade.portfolioId, trade.assetId);
   }
@@ -487,7 +622,7 @@ export class TradingService {
   }
 
   /**
-   * Process trade matching using FIFO algorithm
+   * Process trade matching using the portfolio's cost basis method
    * @param sellTrade Sell trade to match
    * @returns Trade matching result
    */
@@ -495,41 +630,93 @@ export class TradingService {
     if (sellTrade.side !== TradeSide.SELL) {
       throw new Error("processTradeMatching chỉ áp dụng cho SELL trades");
     }
-  
-    // Lấy tất cả BUY (bao gồm cả BONUS) chưa match hết
-    const buyTrades = await this.tradeRepo.findUnmatchedBuyTrades(
-      sellTrade.assetId,
-      sellTrade.portfolioId,
-      sellTrade.tradeDate,
-    );
 
-    if (buyTrades.length === 0) {
-      return {
-        trade: sellTrade,
-        matchedDetails: [],
-        remainingQuantity: sellTrade.quantity,
-        totalPnl: 0,
-      };
-    }
+    const matchResult = await this.matchSellTrade(sellTrade);
 
-    // Use FIFO engine for matching
-    const matchResult = this.fifoEngine.matchTrades(sellTrade, buyTrades);
+    return {
+      trade: sellTrade,
+      matchedDetails: matchResult.matchedDetails,
+      remainingQuantity: matchResult.remainingQuantity,
+      totalPnl: matchResult.totalPnl,
+    };
+  }
 
-    // Save trade details
-    const savedDetails = [];
-    for (const detail of matchResult.matchedDetails) {
-      const savedDetail = await this.tradeDetailRepository.save(detail);
-      savedDetails.push(savedDetail);
+  /**
+   * Match a sell against the open lots dated on or before it and save the trade details.
+   * Pass the transaction manager to see lots created or changed inside a transaction.
+   * @param sellTrade Sell trade to match
+   * @param manager Optional transaction manager
+   * @returns Saved details, unmatched quantity and realized P&L
+   */
+  async matchSellTrade(
+    sellTrade: Trade,
+    manager?: EntityManager,
+  ): Promise<{ matchedDetails: TradeDetail[]; remainingQuantity: number; totalPnl: number }> {
+    const entityManager = manager || this.tradeRepository.manager;
+    const method = await this.getCostBasisMethod(sellTrade.portfolioId, entityManager);
+    const lots = await this.findOpenLots(sellTrade.portfolioId, sellTrade.assetId, sellTrade.tradeDate, entityManager);
+
+    if (lots.length === 0) {
+      return { matchedDetails: [], remainingQuantity: Number(sellTrade.quantity), totalPnl: 0 };
     }
 
+    const matchResult = this.costBasisEngine.matchSell(sellTrade, lots, method, sellTrade.lotSelections);
+    const savedDetails = matchResult.matchedDetails.length > 0
+      ? await entityManager.save(TradeDetail, matchResult.matchedDetails)
+      : [];
+
     return {
-      trade: sellTrade,
       matchedDetails: savedDetails,
       remainingQuantity: matchResult.remainingQuantity,
       totalPnl: matchResult.totalPnl,
     };
   }
 
+  /**
+   * Open buy lots of an asset in a portfolio as of a date, oldest first
+   */
+  async findOpenLots(portfolioId: string, assetId: string, asOf: Date, manager?: EntityManager) {
+    const buyTrades = await (manager || this.tradeRepository.manager)
+      .getRepository(Trade)
+      .createQueryBuilder('trade')
+      .leftJoinAndSelect('trade.buyDetails', 'detail')
+      .where('trade.assetId = :assetId', { assetId })
+      .andWhere('trade.portfolioId = :portfolioId', { portfolioId })
+      .andWhere('trade.side = :side', { side: TradeSide.BUY })
+      .andWhere('trade.tradeDate <= :tradeDate', { tradeDate: asOf })
+      .orderBy('trade.tradeDate', 'ASC')
+      .getMany();
+
+    return this.costBasisEngine.toOpenLots(buyTrades);
+  }
+
+  private async getCostBasisMethod(portfolioId: string, manager: EntityManager): Promise<CostBasisMethod> {
+    const portfolio = await manager.findOne(Portfolio, { where: { portfolioId } });
+    return (portfolio?.costBasisMethod as CostBasisMethod) || CostBasisMethod.FIFO;
+  }
+
+  /**
+   * Validate lots picked for a new sell against the lots open on its trade date
+   */
+  private async validateLotSelections(
+    portfolioId: string,
+    assetId: string,
+    tradeDate: Date,
+    quantity: number,
+    lotSelections: LotSelection[],
+  ): Promise<void> {
+    const method = await this.getCostBasisMethod(portfolioId, this.tradeRepository.manager);
+    if (method !== CostBasisMethod.SPECIFIC_LOT) {
+      throw new BadRequestException('Lot selection requires the SPECIFIC_LOT cost basis method');
+    }
+
+    const lots = await this.findOpenLots(portfolioId, assetId, tradeDate);
+    const errors = this.costBasisEngine.validateSelections(lots, lotSelections, Number(quantity));
+    if (errors.length > 0) {
+      throw new BadRequestException(errors.join('; '));
+    }
+  }
+
   /**
    * Reprocess trade matching after trade update
    * @param sellTrade Updated sell trade
@@ -4,18 +4,34 @@ import { CacheModule, CACHE_MANAGER } from '@nestjs/cache-manager';
 import { TradingController } from './controllers/trading.controller';
 import { PositionController } from './controllers/position.controller';
 import { RiskManagementController } from './controllers/risk-management.controller';
+import { CorporateActionController } from './controllers/corporate-action.controller';
+import { CostBasisController } from './controllers/cost-basis.controller';
+import { TaxController } from './controllers/tax.controller';
+import { RecurringTransactionController } from './controllers/recurring-transaction.controller';
 import { TradingService } from './services/trading.service';
 import { PositionService } from './services/position.service';
 import { RiskManagementService } from './services/risk-management.service';
+import { TradeImportService } from './services/trade-import.service';
+import { CorporateActionService } from './services/corporate-action.service';
+import { CostBasisService } from './services/cost-basis.service';
+import { TaxSummaryService } from './services/tax-summary.service';
+import { RecurringTransactionService } from './services/recurring-transaction.service';
 import { TradeRepository } from './repositories/trade.repository';
 import { TradeDetailRepository } from './repositories/trade-detail.repository';
 import { FIFOEngine } from './engines/fifo-engine';
 import { LIFOEngine } from './engines/lifo-engine';
+import { CorporateActionEngine } from './engines/corporate-action-engine';
+import { CostBasisEngine } from './engines/cost-basis-engine';
+import { RecurrenceEngine } from './engines/recurrence-engine';
 import { PositionManager } from './managers/position-manager';
 import { RiskManager } from './managers/risk-manager';
 import { Trade } from './entities/trade.entity';
 import { TradeDetail } from './entities/trade-detail.entity';
 import { AssetTarget } from './entities/asset-target.entity';
+import { CorporateAction } from './entities/corporate-action.entity';
+import { CorporateActionAdjustment } from './entities/corporate-action-adjustment.entity';
+import { RecurringTransaction } from './entities/recurring-transaction.entity';
+import { RecurringTransactionOccurrence } from './entities/recurring-transaction-occurrence.entity';
 // PortfolioAsset entity has been removed - Portfolio is now linked to Assets through Trades only
 import { Portfolio } from '../portfolio/entities/portfolio.entity';
 import { CashFlow } from '../portfolio/entities/cash-flow.entity';
@@ -45,6 +61,10 @@ import { PortfolioModule } from '../portfolio/portfolio.module';
       Trade,
       TradeDetail,
       AssetTarget,
+      CorporateAction,
+      CorporateActionAdjustment,
+      RecurringTransaction,
+      RecurringTransactionOccurrence,
       Portfolio,
       CashFlow,
       Asset,
@@ -67,15 +87,27 @@ import { PortfolioModule } from '../portfolio/portfolio.module';
     TradingController,
     PositionController,
     RiskManagementController,
+    CorporateActionController,
+    CostBasisController,
+    TaxController,
+    RecurringTransactionController,
   ],
   providers: [
     TradingService,
     PositionService,
     RiskManagementService,
+    TradeImportService,
+    CorporateActionService,
+    CostBasisService,
+    TaxSummaryService,
+    RecurringTransactionService,
     TradeRepository,
     TradeDetailRepository,
     FIFOEngine,
     LIFOEngine,
+    CorporateActionEngine,
+    CostBasisEngine,
+    RecurrenceEngine,
     PositionManager,
     RiskManager,
     AssetCacheService,
@@ -0,0 +1,290 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { WatchlistService } from '../services/watchlist.service';
+import { WatchlistSortField, WatchlistSortDirection } from '../entities/watchlist.entity';
+import { AccountValidationService } from '../../shared/services/account-validation.service';
+import {
+  CreateWatchlistDto,
+  UpdateWatchlistDto,
+  AddWatchlistItemDto,
+  UpdateWatchlistItemDto,
+  ReorderWatchlistItemsDto,
+  ShareWatchlistDto,
+  WatchlistSummary,
+  WatchlistDetail,
+  WatchlistShareResponse,
+} from '../dto/watchlist.dto';
+
+/**
+ * Controller for the watchlists of an account and the watchlists shared with it.
+ */
+@ApiTags('Watchlists')
+@Controller('api/v1/watchlists')
+export class WatchlistController {
+  constructor(
+    private readonly watchlistService: WatchlistService,
+    private readonly accountValidationService: AccountValidationService,
+  ) {}
+
+  /**
+   * Get the watchlists of an account
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the watchlists of an account, including the ones shared with it' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 200, description: 'Watchlists retrieved successfully' })
+  async getWatchlists(@Query('accountId') accountId: string): Promise<WatchlistSummary[]> {
+    await this.assertAccount(accountId);
+    return this.watchlistService.getWatchlists(accountId);
+  }
+
+  /**
+   * Create a watchlist
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a watchlist' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: CreateWatchlistDto })
+  @ApiResponse({ status: 201, description: 'Watchlist created successfully' })
+  @ApiResponse({ status: 409, description: 'A watchlist with this name already exists' })
+  async createWatchlist(
+    @Query('accountId') accountId: string,
+    @Body() createDto: CreateWatchlistDto,
+  ): Promise<WatchlistDetail> {
+    await this.assertAccount(accountId);
+    return this.watchlistService.createWatchlist(accountId, createDto);
+  }
+
+  /**
+   * Get a watchlist with live prices and signal columns
+   */
+  @Get(':watchlistId')
+  @ApiOperation({
+    summary: 'Get a watchlist with its rows',
+    description: 'Each row has the latest price, daily change, 52-week high/low and distance from the target price.',
+  })
+  @ApiParam({ name: 'watchlistId', description: 'Watchlist ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiQuery({ name: 'sortBy', required: false, enum: WatchlistSortField, description: 'Sort column instead of the saved one' })
+  @ApiQuery({ name: 'sortDirection', required: false, enum: WatchlistSortDirection, description: 'Sort direction instead of the saved one' })
+  @ApiResponse({ status: 200, description: 'Watchlist retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Watchlist not found' })
+  async getWatchlist(
+    @Param('watchlistId', ParseUUIDPipe) watchlistId: string,
+    @Query('accountId') accountId: string,
+    @Query('sortBy') sortBy?: WatchlistSortField,
+    @Query('sortDirection') sortDirection?: WatchlistSortDirection,
+  ): Promise<WatchlistDetail> {
+    await this.assertAccount(accountId);
+    if (sortBy && !Object.values(WatchlistSortField).includes(sortBy)) {
+      throw new BadRequestException(`Invalid sort column: ${sortBy}`);
+    }
+    if (sortDirection && !Object.values(WatchlistSortDirection).includes(sortDirection)) {
+      throw new BadRequestException('Sort direction must be ASC or DESC');
+    }
+    return this.watchlistService.getWatchlist(accountId, watchlistId, { sortBy, sortDirection });
+  }
+
+  /**
+   * Update a watchlist
+   */
+  @Put(':watchlistId')
+  @ApiOperation({ summary: 'Update the name, description or saved sort of a watchlist' })
+  @ApiParam({ name: 'watchlistId', description: 'Watchlist ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: UpdateWatchlistDto })
+  @ApiResponse({ status: 200, description: 'Watchlist updated successfully' })
+  @ApiResponse({ status: 403, description: 'Watchlist is shared read-only' })
+  @ApiResponse({ status: 404, description: 'Watchlist not found' })
+  async updateWatchlist(
+    @Param('watchlistId', ParseUUIDPipe) watchlistId: string,
+    @Query('accountId') accountId: string,
+    @Body() updateDto: UpdateWatchlistDto,
+  ): Promise<WatchlistDetail> {
+    await this.assertAccount(accountId);
+    return this.watchlistService.updateWatchlist(accountId, watchlistId, updateDto);
+  }
+
+  /**
+   * Delete a watchlist
+   */
+  @Delete(':watchlistId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a watchlist' })
+  @ApiParam({ name: 'watchlistId', description: 'Watchlist ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 204, description: 'Watchlist deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Watchlist is shared read-only' })
+  @ApiResponse({ status: 404, description: 'Watchlist not found' })
+  async deleteWatchlist(
+    @Param('watchlistId', ParseUUIDPipe) watchlistId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<void> {
+    await this.assertAccount(accountId);
+    await this.watchlistService.deleteWatchlist(accountId, watchlistId);
+  }
+
+  /**
+   * Add a symbol to a watchlist
+   */
+  @Post(':watchlistId/items')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Add a catalog symbol to a watchlist' })
+  @ApiParam({ name: 'watchlistId', description: 'Watchlist ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: AddWatchlistItemDto })
+  @ApiResponse({ status: 201, description: 'Symbol added' })
+  @ApiResponse({ status: 400, description: 'Symbol is not in the asset catalog' })
+  @ApiResponse({ status: 409, description: 'Symbol is already on the watchlist' })
+  async addItem(
+    @Param('watchlistId', ParseUUIDPipe) watchlistId: string,
+    @Query('accountId') accountId: string,
+    @Body() addDto: AddWatchlistItemDto,
+  ): Promise<WatchlistDetail> {
+    await this.assertAccount(accountId);
+    return this.watchlistService.addItem(accountId, watchlistId, addDto);
+  }
+
+  /**
+   * Set the manual order of a watchlist
+   */
+  @Put(':watchlistId/items/order')
+  @ApiOperation({ summary: 'Set the manual order of the symbols on a watchlist' })
+  @ApiParam({ name: 'watchlistId', description: 'Watchlist ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: ReorderWatchlistItemsDto })
+  @ApiResponse({ status: 200, description: 'Order saved' })
+  @ApiResponse({ status: 400, description: 'Item IDs do not match the watchlist' })
+  async reorderItems(
+    @Param('watchlistId', ParseUUIDPipe) watchlistId: string,
+    @Query('accountId') accountId: string,
+    @Body() reorderDto: ReorderWatchlistItemsDto,
+  ): Promise<WatchlistDetail> {
+    await this.assertAccount(accountId);
+    return this.watchlistService.reorderItems(accountId, watchlistId, reorderDto);
+  }
+
+  /**
+   * Update the target price or notes of a watched symbol
+   */
+  @Put(':watchlistId/items/:itemId')
+  @ApiOperation({ summary: 'Update the target price or notes of a watched symbol' })
+  @ApiParam({ name: 'watchlistId', description: 'Watchlist ID' })
+  @ApiParam({ name: 'itemId', description: 'Watchlist item ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiBody({ type: UpdateWatchlistItemDto })
+  @ApiResponse({ status: 200, description: 'Symbol updated' })
+  @ApiResponse({ status: 404, description: 'Watchlist item not found' })
+  async updateItem(
+    @Param('watchlistId', ParseUUIDPipe) watchlistId: string,
+    @Param('itemId', ParseUUIDPipe) itemId: string,
+    @Query('accountId') accountId: string,
+    @Body() updateDto: UpdateWatchlistItemDto,
+  ): Promise<WatchlistDetail> {
+    await this.assertAccount(accountId);
+    return this.watchlistService.updateItem(accountId, watchlistId, itemId, updateDto);
+  }
+
+  /**
+   * Remove a symbol from a watchlist
+   */
+  @Delete(':watchlistId/items/:itemId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a symbol from a watchlist' })
+  @ApiParam({ name: 'watchlistId', description: 'Watchlist ID' })
+  @ApiParam({ name: 'itemId', description: 'Watchlist item ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 204, description: 'Symbol removed' })
+  @ApiResponse({ status: 404, description: 'Watchlist item not found' })
+  async removeItem(
+    @Param('watchlistId', ParseUUIDPipe) watchlistId: string,
+    @Param('itemId', ParseUUIDPipe) itemId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<void> {
+    await this.assertAccount(accountId);
+    await this.watchlistService.removeItem(accountId, watchlistId, itemId);
+  }
+
+  /**
+   * Share a watchlist read-only with another account
+   */
+  @Post(':watchlistId/shares')
+  @ApiOperation({ summary: 'Share a watchlist read-only with another account' })
+  @ApiParam({ name: 'watchlistId', description: 'Watchlist ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID of the owner' })
+  @ApiBody({ type: ShareWatchlistDto })
+  @ApiResponse({ status: 200, description: 'Watchlist shared' })
+  @ApiResponse({ status: 404, description: 'Watchlist or account not found' })
+  async shareWatchlist(
+    @Param('watchlistId', ParseUUIDPipe) watchlistId: string,
+    @Query('accountId') accountId: string,
+    @Body() shareDto: ShareWatchlistDto,
+  ): Promise<WatchlistShareResponse[]> {
+    await this.assertAccount(accountId);
+    return this.watchlistService.shareWatchlist(accountId, watchlistId, shareDto);
+  }
+
+  /**
+   * Stop sharing a watchlist with an account
+   */
+  @Delete(':watchlistId/shares/:sharedAccountId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Stop sharing a watchlist with an account' })
+  @ApiParam({ name: 'watchlistId', description: 'Watchlist ID' })
+  @ApiParam({ name: 'sharedAccountId', description: 'Account the watchlist is shared with' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID of the owner' })
+  @ApiResponse({ status: 204, description: 'Share removed' })
+  async unshareWatchlist(
+    @Param('watchlistId', ParseUUIDPipe) watchlistId: string,
+    @Param('sharedAccountId', ParseUUIDPipe) sharedAccountId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<void> {
+    await this.assertAccount(accountId);
+    await this.watchlistService.unshareWatchlist(accountId, watchlistId, sharedAccountId);
+  }
+
+  /**
+   * Remove a watchlist shared with the account from its list
+   */
+  @Delete(':watchlistId/shares')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Stop following a watchlist shared with the account' })
+  @ApiParam({ name: 'watchlistId', description: 'Watchlist ID' })
+  @ApiQuery({ name: 'accountId', required: true, description: 'Account ID' })
+  @ApiResponse({ status: 204, description: 'Shared watchlist removed' })
+  async leaveWatchlist(
+    @Param('watchlistId', ParseUUIDPipe) watchlistId: string,
+    @Query('accountId') accountId: string,
+  ): Promise<void> {
+    await this.assertAccount(accountId);
+    await this.watchlistService.leaveWatchlist(accountId, watchlistId);
+  }
+
+  private async assertAccount(accountId: string): Promise<void> {
+    if (!accountId) {
+      throw new BadRequestException('accountId query parameter is required');
+    }
+    await this.accountValidationService.validateAccountOwnership(accountId, accountId);
+  }
+}
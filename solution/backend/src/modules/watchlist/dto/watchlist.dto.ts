@@ -0,0 +1,129 @@
+import {
+  IsUUID,
+  IsEnum,
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsArray,
+  ArrayNotEmpty,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType, OmitType } from '@nestjs/swagger';
+import { WatchlistSortField, WatchlistSortDirection } from '../entities/watchlist.entity';
+import { WatchlistSignals } from '../utils/watchlist-signals.util';
+
+export class CreateWatchlistDto {
+  @ApiProperty({ description: 'Watchlist name', example: 'Banks' })
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must not exceed 100 characters' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  name: string;
+
+  @ApiPropertyOptional({ description: 'What the list is for' })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Column the rows are sorted on', enum: WatchlistSortField, default: WatchlistSortField.MANUAL })
+  @IsOptional()
+  @IsEnum(WatchlistSortField, { message: 'Invalid sort column' })
+  sortBy?: WatchlistSortField;
+
+  @ApiPropertyOptional({ description: 'Sort direction', enum: WatchlistSortDirection, default: WatchlistSortDirection.ASC })
+  @IsOptional()
+  @IsEnum(WatchlistSortDirection, { message: 'Sort direction must be ASC or DESC' })
+  sortDirection?: WatchlistSortDirection;
+}
+
+export class UpdateWatchlistDto extends PartialType(CreateWatchlistDto) {}
+
+export class AddWatchlistItemDto {
+  @ApiProperty({ description: 'Catalog symbol to watch', example: 'HPG' })
+  @IsString({ message: 'Symbol must be a string' })
+  @IsNotEmpty({ message: 'Symbol is required' })
+  @MaxLength(50, { message: 'Symbol must not exceed 50 characters' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  symbol: string;
+
+  @ApiPropertyOptional({ description: 'Price the owner is waiting for; null clears it', example: 25000, nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: 'Target price must be a number' })
+  @Min(0, { message: 'Target price must not be negative' })
+  targetPrice?: number | null;
+
+  @ApiPropertyOptional({ description: 'Notes on the symbol' })
+  @IsOptional()
+  @IsString({ message: 'Notes must be a string' })
+  notes?: string;
+}
+
+export class UpdateWatchlistItemDto extends PartialType(OmitType(AddWatchlistItemDto, ['symbol'] as const)) {}
+
+export class ReorderWatchlistItemsDto {
+  @ApiProperty({ description: 'Item IDs in their new order', type: [String] })
+  @IsArray({ message: 'Item IDs must be an array' })
+  @ArrayNotEmpty({ message: 'At least one item is required' })
+  @IsUUID(4, { each: true, message: 'Item IDs must be valid UUIDs' })
+  itemIds: string[];
+}
+
+export class ShareWatchlistDto {
+  @ApiProperty({ description: 'Account to share the watchlist with, read-only', format: 'uuid' })
+  @IsUUID(4, { message: 'Account ID must be a valid UUID' })
+  accountId: string;
+}
+
+/**
+ * Watchlist as listed for an account, own or shared with it
+ */
+export interface WatchlistSummary {
+  watchlistId: string;
+  name: string;
+  description: string | null;
+  ownerAccountId: string;
+  ownerName: string | null;
+  isOwner: boolean;
+  sortBy: WatchlistSortField;
+  sortDirection: WatchlistSortDirection;
+  itemCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Watched symbol with its latest price and signal columns
+ */
+export interface WatchlistRow extends WatchlistSignals {
+  watchlistItemId: string;
+  globalAssetId: string;
+  symbol: string;
+  name: string;
+  type: string;
+  currency: string;
+  price: number | null;
+  previousClose: number | null;
+  lastPriceUpdate: Date | null;
+  targetPrice: number | null;
+  notes: string | null;
+  position: number;
+  addedAt: Date;
+}
+
+export interface WatchlistShareResponse {
+  accountId: string;
+  accountName: string | null;
+  accountEmail: string | null;
+  sharedAt: Date;
+}
+
+export interface WatchlistDetail extends WatchlistSummary {
+  rows: WatchlistRow[];
+  /**
+   * Accounts the watchlist is shared with; only listed for the owner
+   */
+  shares: WatchlistShareResponse[];
+}
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Watchlist } from './watchlist.entity';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+
+/**
+ * Catalog symbol on a watchlist, with the owner's target price and notes.
+ */
+@Entity('watchlist_items')
+@Index(['watchlistId', 'globalAssetId'], { unique: true })
+export class WatchlistItem {
+  @PrimaryGeneratedColumn('uuid', { name: 'watchlist_item_id' })
+  watchlistItemId: string;
+
+  @Column('uuid', { name: 'watchlist_id' })
+  watchlistId: string;
+
+  @Column('uuid', { name: 'global_asset_id' })
+  globalAssetId: string;
+
+  @Column('decimal', { precision: 15, scale: 2, nullable: true, name: 'target_price' })
+  targetPrice?: number | null;
+
+  @Column('text', { nullable: true, name: 'notes' })
+  notes?: string | null;
+
+  /**
+   * Place of the row when the list is sorted manually
+   */
+  @Column('int', { default: 0, name: 'position' })
+  position: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Watchlist, (watchlist) => watchlist.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'watchlist_id' })
+  watchlist: Watchlist;
+
+  @ManyToOne(() => GlobalAsset, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'global_asset_id' })
+  globalAsset: GlobalAsset;
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Watchlist } from './watchlist.entity';
+import { Account } from '../../shared/entities/account.entity';
+
+/**
+ * Read-only access to a watchlist granted to another account.
+ */
+@Entity('watchlist_shares')
+@Index(['watchlistId', 'accountId'], { unique: true })
+@Index(['accountId'])
+export class WatchlistShare {
+  @PrimaryGeneratedColumn('uuid', { name: 'watchlist_share_id' })
+  watchlistShareId: string;
+
+  @Column('uuid', { name: 'watchlist_id' })
+  watchlistId: string;
+
+  /**
+   * Account the watchlist is shared with
+   */
+  @Column('uuid', { name: 'account_id' })
+  accountId: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Watchlist, (watchlist) => watchlist.shares, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'watchlist_id' })
+  watchlist: Watchlist;
+
+  @ManyToOne(() => Account, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'account_id' })
+  account: Account;
+}
@@ -0,0 +1,85 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Account } from '../../shared/entities/account.entity';
+import { WatchlistItem } from './watchlist-item.entity';
+import { WatchlistShare } from './watchlist-share.entity';
+
+export enum WatchlistSortField {
+  MANUAL = 'MANUAL',
+  SYMBOL = 'SYMBOL',
+  PRICE = 'PRICE',
+  DAILY_CHANGE_PERCENT = 'DAILY_CHANGE_PERCENT',
+  DISTANCE_TO_TARGET_PERCENT = 'DISTANCE_TO_TARGET_PERCENT',
+  FROM_HIGH_52W_PERCENT = 'FROM_HIGH_52W_PERCENT',
+  ADDED_AT = 'ADDED_AT',
+}
+
+export enum WatchlistSortDirection {
+  ASC = 'ASC',
+  DESC = 'DESC',
+}
+
+/**
+ * Named list of catalog symbols an account follows without holding them.
+ * The owner edits it; accounts it is shared with only read it.
+ */
+@Entity('watchlists')
+@Index(['accountId'])
+export class Watchlist {
+  @PrimaryGeneratedColumn('uuid', { name: 'watchlist_id' })
+  watchlistId: string;
+
+  @Column('uuid', { name: 'account_id' })
+  accountId: string;
+
+  @Column('varchar', { length: 100, name: 'name' })
+  name: string;
+
+  @Column('text', { nullable: true, name: 'description' })
+  description?: string | null;
+
+  /**
+   * Column the rows are sorted on when the list is opened; MANUAL keeps the order set by the owner
+   */
+  @Column({
+    type: 'enum',
+    enum: WatchlistSortField,
+    default: WatchlistSortField.MANUAL,
+    name: 'sort_by'
+  })
+  sortBy: WatchlistSortField;
+
+  @Column({
+    type: 'enum',
+    enum: WatchlistSortDirection,
+    default: WatchlistSortDirection.ASC,
+    name: 'sort_direction'
+  })
+  sortDirection: WatchlistSortDirection;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // Relationships
+  @ManyToOne(() => Account, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'account_id' })
+  account: Account;
+
+  @OneToMany(() => WatchlistItem, (item) => item.watchlist)
+  items: WatchlistItem[];
+
+  @OneToMany(() => WatchlistShare, (share) => share.watchlist)
+  shares: WatchlistShare[];
+}
@@ -0,0 +1,422 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In } from 'typeorm';
+import * as moment from 'moment-timezone';
+import { Watchlist, WatchlistSortField, WatchlistSortDirection } from '../entities/watchlist.entity';
+import { WatchlistItem } from '../entities/watchlist-item.entity';
+import { WatchlistShare } from '../entities/watchlist-share.entity';
+import { GlobalAsset } from '../../asset/entities/global-asset.entity';
+import { AssetPriceHistory } from '../../asset/entities/asset-price-history.entity';
+import { Account } from '../../shared/entities/account.entity';
+import { computeWatchlistSignals, sortWatchlistRows } from '../utils/watchlist-signals.util';
+import {
+  CreateWatchlistDto,
+  UpdateWatchlistDto,
+  AddWatchlistItemDto,
+  UpdateWatchlistItemDto,
+  ReorderWatchlistItemsDto,
+  ShareWatchlistDto,
+  WatchlistSummary,
+  WatchlistDetail,
+  WatchlistRow,
+  WatchlistShareResponse,
+} from '../dto/watchlist.dto';
+
+/**
+ * Service for the watchlists of an account: named lists of catalog symbols
+ * with their latest prices and signal columns, shareable read-only with other accounts.
+ */
+@Injectable()
+export class WatchlistService {
+  private readonly timezone: string;
+
+  constructor(
+    @InjectRepository(Watchlist)
+    private readonly watchlistRepository: Repository<Watchlist>,
+    @InjectRepository(WatchlistItem)
+    private readonly watchlistItemRepository: Repository<WatchlistItem>,
+    @InjectRepository(WatchlistShare)
+    private readonly watchlistShareRepository: Repository<WatchlistShare>,
+    @InjectRepository(GlobalAsset)
+    private readonly globalAssetRepository: Repository<GlobalAsset>,
+    @InjectRepository(AssetPriceHistory)
+    private readonly assetPriceHistoryRepository: Repository<AssetPriceHistory>,
+    @InjectRepository(Account)
+    private readonly accountRepository: Repository<Account>,
+    private readonly configService: ConfigService,
+  ) {
+    this.timezone = this.configService.get<string>('PRICE_UPDATE_TIMEZONE', 'Asia/Ho_Chi_Minh');
+  }
+
+  /**
+   * Get the watchlists of an account, own ones first, then the ones shared with it
+   */
+  async getWatchlists(accountId: string): Promise<WatchlistSummary[]> {
+    const shares = await this.watchlistShareRepository.find({ where: { accountId } });
+    const sharedIds = shares.map((share) => share.watchlistId);
+
+    const watchlists = await this.watchlistRepository.find({
+      where: sharedIds.length
+        ? [{ accountId }, { watchlistId: In(sharedIds) }]
+        : { accountId },
+      relations: ['account'],
+      order: { name: 'ASC' },
+    });
+    if (!watchlists.length) {
+      return [];
+    }
+
+    const counts: Array<{ watchlistId: string; count: string }> = await this.watchlistItemRepository
+      .createQueryBuilder('item')
+      .select('item.watchlistId', 'watchlistId')
+      .addSelect('COUNT(*)', 'count')
+      .where('item.watchlistId IN (:...ids)', { ids: watchlists.map((w) => w.watchlistId) })
+      .groupBy('item.watchlistId')
+      .getRawMany();
+    const countById = new Map(counts.map((row) => [row.watchlistId, parseInt(row.count, 10)]));
+
+    return watchlists
+      .map((watchlist) => this.toSummary(watchlist, accountId, countById.get(watchlist.watchlistId) || 0))
+      .sort((a, b) => Number(b.isOwner) - Number(a.isOwner));
+  }
+
+  /**
+   * Get a watchlist with its rows sorted on the saved column, unless another sort is asked for
+   */
+  async getWatchlist(
+    accountId: string,
+    watchlistId: string,
+    sort: { sortBy?: WatchlistSortField; sortDirection?: WatchlistSortDirection } = {},
+  ): Promise<WatchlistDetail> {
+    const watchlist = await this.findReadable(accountId, watchlistId);
+    const items = await this.watchlistItemRepository.find({
+      where: { watchlistId },
+      relations: ['globalAsset', 'globalAsset.assetPrice'],
+    });
+
+    const rows = sortWatchlistRows(
+      await this.buildRows(items),
+      sort.sortBy || watchlist.sortBy,
+      sort.sortDirection || watchlist.sortDirection,
+    );
+    const isOwner = watchlist.accountId === accountId;
+
+    return {
+      ...this.toSummary(watchlist, accountId, items.length),
+      rows,
+      shares: isOwner ? await this.getShares(watchlistId) : [],
+    };
+  }
+
+  /**
+   * Create a watchlist
+   */
+  async createWatchlist(accountId: string, createDto: CreateWatchlistDto): Promise<WatchlistDetail> {
+    await this.assertNameAvailable(accountId, createDto.name);
+
+    const watchlist = await this.watchlistRepository.save(this.watchlistRepository.create({
+      accountId,
+      name: createDto.name,
+      description: createDto.description || null,
+      sortBy: createDto.sortBy,
+      sortDirection: createDto.sortDirection,
+    }));
+    return this.getWatchlist(accountId, watchlist.watchlistId);
+  }
+
+  /**
+   * Update the name, description or saved sort of a watchlist
+   */
+  async updateWatchlist(accountId: string, watchlistId: string, updateDto: UpdateWatchlistDto): Promise<WatchlistDetail> {
+    const watchlist = await this.findOwned(accountId, watchlistId);
+
+    if (updateDto.name !== undefined && updateDto.name !== watchlist.name) {
+      await this.assertNameAvailable(accountId, updateDto.name);
+      watchlist.name = updateDto.name;
+    }
+    if (updateDto.description !== undefined) watchlist.description = updateDto.description || null;
+    if (updateDto.sortBy !== undefined) watchlist.sortBy = updateDto.sortBy;
+    if (updateDto.sortDirection !== undefined) watchlist.sortDirection = updateDto.sortDirection;
+
+    await this.watchlistRepository.save(watchlist);
+    return this.getWatchlist(accountId, watchlistId);
+  }
+
+  /**
+   * Delete a watchlist with its items and shares
+   */
+  async deleteWatchlist(accountId: string, watchlistId: string): Promise<void> {
+    const watchlist = await this.findOwned(accountId, watchlistId);
+    await this.watchlistRepository.remove(watchlist);
+  }
+
+  /**
+   * Add a catalog symbol to a watchlist, at the end of the manual order
+   */
+  async addItem(accountId: string, watchlistId: string, addDto: AddWatchlistItemDto): Promise<WatchlistDetail> {
+    await this.findOwned(accountId, watchlistId);
+
+    const globalAsset = await this.globalAssetRepository.findOne({ where: { symbol: addDto.symbol } });
+    if (!globalAsset) {
+      throw new BadRequestException(`Symbol ${addDto.symbol} is not in the asset catalog`);
+    }
+
+    const existing = await this.watchlistItemRepository.findOne({
+      where: { watchlistId, globalAssetId: globalAsset.id },
+    });
+    if (existing) {
+      throw new ConflictException(`${addDto.symbol} is already on this watchlist`);
+    }
+
+    const last = await this.watchlistItemRepository.findOne({
+      where: { watchlistId },
+      order: { position: 'DESC' },
+    });
+
+    await this.watchlistItemRepository.save(this.watchlistItemRepository.create({
+      watchlistId,
+      globalAssetId: globalAsset.id,
+      targetPrice: addDto.targetPrice ?? null,
+      notes: addDto.notes || null,
+      position: last ? last.position + 1 : 0,
+    }));
+    return this.getWatchlist(accountId, watchlistId);
+  }
+
+  /**
+   * Update the target price or notes of a watched symbol
+   */
+  async updateItem(
+    accountId: string,
+    watchlistId: string,
+    itemId: string,
+    updateDto: UpdateWatchlistItemDto,
+  ): Promise<WatchlistDetail> {
+    await this.findOwned(accountId, watchlistId);
+    const item = await this.findItem(watchlistId, itemId);
+
+    if (updateDto.targetPrice !== undefined) item.targetPrice = updateDto.targetPrice;
+    if (updateDto.notes !== undefined) item.notes = updateDto.notes || null;
+
+    await this.watchlistItemRepository.save(item);
+    return this.getWatchlist(accountId, watchlistId);
+  }
+
+  /**
+   * Remove a symbol from a watchlist
+   */
+  async removeItem(accountId: string, watchlistId: string, itemId: string): Promise<void> {
+    await this.findOwned(accountId, watchlistId);
+    const item = await this.findItem(watchlistId, itemId);
+    await this.watchlistItemRepository.remove(item);
+  }
+
+  /**
+   * Set the manual order of a watchlist; the IDs must cover every item exactly once
+   */
+  async reorderItems(accountId: string, watchlistId: string, reorderDto: ReorderWatchlistItemsDto): Promise<WatchlistDetail> {
+    await this.findOwned(accountId, watchlistId);
+    const items = await this.watchlistItemRepository.find({ where: { watchlistId } });
+
+    const ids = new Set(reorderDto.itemIds);
+    if (ids.size !== reorderDto.itemIds.length || ids.size !== items.length || items.some((item) => !ids.has(item.watchlistItemId))) {
+      throw new BadRequestException('Item IDs must list every item of the watchlist exactly once');
+    }
+
+    const positionById = new Map(reorderDto.itemIds.map((id, index) => [id, index]));
+    items.forEach((item) => {
+      item.position = positionById.get(item.watchlistItemId);
+    });
+    await this.watchlistItemRepository.save(items);
+    return this.getWatchlist(accountId, watchlistId);
+  }
+
+  /**
+   * Share a watchlist read-only with another account
+   */
+  async shareWatchlist(accountId: string, watchlistId: string, shareDto: ShareWatchlistDto): Promise<WatchlistShareResponse[]> {
+    await this.findOwned(accountId, watchlistId);
+
+    if (shareDto.accountId === accountId) {
+      throw new BadRequestException('A watchlist cannot be shared with its owner');
+    }
+    const account = await this.accountRepository.findOne({ where: { accountId: shareDto.accountId } });
+    if (!account) {
+      throw new NotFoundException(`Account with ID "${shareDto.accountId}" not found`);
+    }
+
+    const existing = await this.watchlistShareRepository.findOne({
+      where: { watchlistId, accountId: shareDto.accountId },
+    });
+    if (!existing) {
+      await this.watchlistShareRepository.save(this.watchlistShareRepository.create({
+        watchlistId,
+        accountId: shareDto.accountId,
+      }));
+    }
+    return this.getShares(watchlistId);
+  }
+
+  /**
+   * Stop sharing a watchlist with an account
+   */
+  async unshareWatchlist(accountId: string, watchlistId: string, sharedAccountId: string): Promise<void> {
+    await this.findOwned(accountId, watchlistId);
+    const share = await this.watchlistShareRepository.findOne({
+      where: { watchlistId, accountId: sharedAccountId },
+    });
+    if (!share) {
+      throw new NotFoundException('Watchlist is not shared with this account');
+    }
+    await this.watchlistShareRepository.remove(share);
+  }
+
+  /**
+   * Stop seeing a watchlist someone else shared with the account
+   */
+  async leaveWatchlist(accountId: string, watchlistId: string): Promise<void> {
+    const share = await this.watchlistShareRepository.findOne({ where: { watchlistId, accountId } });
+    if (!share) {
+      throw new NotFoundException(`Watchlist with ID ${watchlistId} not found`);
+    }
+    await this.watchlistShareRepository.remove(share);
+  }
+
+  private async buildRows(items: WatchlistItem[]): Promise<WatchlistRow[]> {
+    if (!items.length) {
+      return [];
+    }
+
+    const assetIds = items.map((item) => item.globalAssetId);
+    const startOfToday = moment.tz(this.timezone).startOf('day').toDate();
+    const yearAgo = moment.tz(this.timezone).subtract(52, 'weeks').startOf('day').toDate();
+
+    const previousCloses: Array<{ assetId: string; price: string }> = await this.assetPriceHistoryRepository
+      .createQueryBuilder('history')
+      .distinctOn(['history.assetId'])
+      .select('history.assetId', 'assetId')
+      .addSelect('history.price', 'price')
+      .where('history.assetId IN (:...assetIds)', { assetIds })
+      .andWhere('history.createdAt < :startOfToday', { startOfToday })
+      .orderBy('history.assetId')
+      .addOrderBy('history.createdAt', 'DESC')
+      .getRawMany();
+    const previousCloseById = new Map(previousCloses.map((row) => [row.assetId, Number(row.price)]));
+
+    const ranges: Array<{ assetId: string; high: string; low: string }> = await this.assetPriceHistoryRepository
+      .createQueryBuilder('history')
+      .select('history.assetId', 'assetId')
+      .addSelect('MAX(history.price)', 'high')
+      .addSelect('MIN(history.price)', 'low')
+      .where('history.assetId IN (:...assetIds)', { assetIds })
+      .andWhere('history.createdAt >= :yearAgo', { yearAgo })
+      .groupBy('history.assetId')
+      .getRawMany();
+    const rangeById = new Map(ranges.map((row) => [row.assetId, { high: Number(row.high), low: Number(row.low) }]));
+
+    return items.map((item) => {
+      const globalAsset = item.globalAsset;
+      const assetPrice = globalAsset.assetPrice;
+      const price = assetPrice ? Number(assetPrice.currentPrice) : null;
+      const previousClose = previousCloseById.get(item.globalAssetId) ?? null;
+      const range = rangeById.get(item.globalAssetId);
+      const targetPrice = item.targetPrice !== null && item.targetPrice !== undefined ? Number(item.targetPrice) : null;
+
+      return {
+        watchlistItemId: item.watchlistItemId,
+        globalAssetId: item.globalAssetId,
+        symbol: globalAsset.symbol,
+        name: globalAsset.name,
+        type: globalAsset.type,
+        currency: globalAsset.currency,
+        price,
+        previousClose,
+        lastPriceUpdate: assetPrice?.lastPriceUpdate || null,
+        targetPrice,
+        notes: item.notes || null,
+        position: item.position,
+        addedAt: item.createdAt,
+        ...computeWatchlistSignals({
+          price,
+          previousClose,
+          high52w: range ? range.high : null,
+          low52w: range ? range.low : null,
+          targetPrice,
+        }),
+      };
+    });
+  }
+
+  private async getShares(watchlistId: string): Promise<WatchlistShareResponse[]> {
+    const shares = await this.watchlistShareRepository.find({
+      where: { watchlistId },
+      relations: ['account'],
+      order: { createdAt: 'ASC' },
+    });
+    return shares.map((share) => ({
+      accountId: share.accountId,
+      accountName: share.account?.name || null,
+      accountEmail: share.account?.email || null,
+      sharedAt: share.createdAt,
+    }));
+  }
+
+  private toSummary(watchlist: Watchlist, accountId: string, itemCount: number): WatchlistSummary {
+    return {
+      watchlistId: watchlist.watchlistId,
+      name: watchlist.name,
+      description: watchlist.description || null,
+      ownerAccountId: watchlist.accountId,
+      ownerName: watchlist.account?.name || null,
+      isOwner: watchlist.accountId === accountId,
+      sortBy: watchlist.sortBy,
+      sortDirection: watchlist.sortDirection,
+      itemCount,
+      createdAt: watchlist.createdAt,
+      updatedAt: watchlist.updatedAt,
+    };
+  }
+
+  private async findReadable(accountId: string, watchlistId: string): Promise<Watchlist> {
+    const watchlist = await this.watchlistRepository.findOne({
+      where: { watchlistId },
+      relations: ['account'],
+    });
+    if (!watchlist) {
+      throw new NotFoundException(`Watchlist with ID ${watchlistId} not found`);
+    }
+    if (watchlist.accountId !== accountId) {
+      const share = await this.watchlistShareRepository.findOne({ where: { watchlistId, accountId } });
+      if (!share) {
+        throw new NotFoundException(`Watchlist with ID ${watchlistId} not found`);
+      }
+    }
+    return watchlist;
+  }
+
+  private async findOwned(accountId: string, watchlistId: string): Promise<Watchlist> {
+    const watchlist = await this.findReadable(accountId, watchlistId);
+    if (watchlist.accountId !== accountId) {
+      throw new ForbiddenException('Watchlists shared with you are read-only');
+    }
+    return watchlist;
+  }
+
+  private async findItem(watchlistId: string, itemId: string): Promise<WatchlistItem> {
+    const item = await this.watchlistItemRepository.findOne({
+      where: { watchlistItemId: itemId, watchlistId },
+    });
+    if (!item) {
+      throw new NotFoundException(`Watchlist item with ID ${itemId} not found`);
+    }
+    return item;
+  }
+
+  private async assertNameAvailable(accountId: string, name: string): Promise<void> {
+    const existing = await this.watchlistRepository.findOne({ where: { accountId, name } });
+    if (existing) {
+      throw new ConflictException(`A watchlist named "${name}" already exists`);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { WatchlistSortField, WatchlistSortDirection } from '../entities/watchlist.entity';
+import { computeWatchlistSignals, sortWatchlistRows } from './watchlist-signals.util';
+
+describe('watchlist-signals.util', () => {
+  it('should compute the daily change, 52-week range and distance to target', () => {
+    expect(computeWatchlistSignals({ price: 110, previousClose: 100, high52w: 120, low52w: 80, targetPrice: 132 }))
+      .toEqual({
+        dailyChange: 10,
+        dailyChangePercent: 10,
+        high52w: 120,
+        low52w: 80,
+        distanceToTargetPercent: 20,
+        fromHigh52wPercent: expect.closeTo(8.333, 3),
+      });
+  });
+
+  it('should count the current price towards the 52-week range', () => {
+    const signals = computeWatchlistSignals({ price: 130, previousClose: null, high52w: 120, low52w: 80, targetPrice: null });
+
+    expect(signals).toMatchObject({ high52w: 130, low52w: 80, fromHigh52wPercent: 0 });
+    expect(signals.dailyChange).toBeNull();
+    expect(signals.distanceToTargetPercent).toBeNull();
+    expect(computeWatchlistSignals({ price: null, previousClose: null, high52w: null, low52w: null, targetPrice: 10 }))
+      .toMatchObject({ high52w: null, low52w: null, distanceToTargetPercent: null });
+  });
+
+  it('should sort rows on a column with missing values last', () => {
+    const row = (symbol: string, position: number, dailyChangePercent: number | null) => ({
+      symbol,
+      position,
+      addedAt: new Date(2024, 0, position + 1),
+      price: 10,
+      dailyChangePercent,
+      distanceToTargetPercent: null,
+      fromHigh52wPercent: null,
+    });
+    const rows = [row('VNM', 0, -1.5), row('HPG', 1, null), row('FPT', 2, 3.2)];
+
+    expect(sortWatchlistRows(rows, WatchlistSortField.DAILY_CHANGE_PERCENT, WatchlistSortDirection.DESC).map(r => r.symbol))
+      .toEqual(['FPT', 'VNM', 'HPG']);
+    expect(sortWatchlistRows(rows, WatchlistSortField.DAILY_CHANGE_PERCENT, WatchlistSortDirection.ASC).map(r => r.symbol))
+      .toEqual(['VNM', 'FPT', 'HPG']);
+    expect(sortWatchlistRows(rows, WatchlistSortField.SYMBOL, WatchlistSortDirection.ASC).map(r => r.symbol))
+      .toEqual(['FPT', 'HPG', 'VNM']);
+    expect(sortWatchlistRows(rows, WatchlistSortField.MANUAL, WatchlistSortDirection.ASC).map(r => r.symbol))
+      .toEqual(['VNM', 'HPG', 'FPT']);
+  });
+});
@@ -0,0 +1,102 @@
+import { WatchlistSortField, WatchlistSortDirection } from '../entities/watchlist.entity';
+
+/**
+ * Market data of a watched symbol
+ */
+export interface WatchlistPriceInputs {
+  price: number | null;
+  previousClose: number | null;
+  /**
+   * Highest and lowest recorded price over the last 52 weeks
+   */
+  high52w: number | null;
+  low52w: number | null;
+  targetPrice: number | null;
+}
+
+/**
+ * Signal columns of a watchlist row
+ */
+export interface WatchlistSignals {
+  dailyChange: number | null;
+  dailyChangePercent: number | null;
+  high52w: number | null;
+  low52w: number | null;
+  /**
+   * Move in percent the price needs to reach the target; positive when the target is above the price
+   */
+  distanceToTargetPercent: number | null;
+  /**
+   * How far the price is below the 52-week high, in percent
+   */
+  fromHigh52wPercent: number | null;
+}
+
+/**
+ * Values a watchlist row is sorted on
+ */
+export interface SortableWatchlistRow {
+  symbol: string;
+  position: number;
+  addedAt: Date;
+  price: number | null;
+  dailyChangePercent: number | null;
+  distanceToTargetPercent: number | null;
+  fromHigh52wPercent: number | null;
+}
+
+const SORT_VALUES: Record<WatchlistSortField, (row: SortableWatchlistRow) => number | string | null> = {
+  [WatchlistSortField.MANUAL]: (row) => row.position,
+  [WatchlistSortField.SYMBOL]: (row) => row.symbol,
+  [WatchlistSortField.PRICE]: (row) => row.price,
+  [WatchlistSortField.DAILY_CHANGE_PERCENT]: (row) => row.dailyChangePercent,
+  [WatchlistSortField.DISTANCE_TO_TARGET_PERCENT]: (row) => row.distanceToTargetPercent,
+  [WatchlistSortField.FROM_HIGH_52W_PERCENT]: (row) => row.fromHigh52wPercent,
+  [WatchlistSortField.ADDED_AT]: (row) => row.addedAt.getTime(),
+};
+
+/**
+ * Compute the signal columns of a watched symbol.
+ * The current price counts towards the 52-week range, since history is only written when prices change.
+ */
+export function computeWatchlistSignals(inputs: WatchlistPriceInputs): WatchlistSignals {
+  const { price, previousClose, targetPrice } = inputs;
+  const range = [inputs.high52w, inputs.low52w, price].filter((value): value is number => value !== null);
+  const high52w = range.length ? Math.max(...range) : null;
+  const low52w = range.length ? Math.min(...range) : null;
+
+  const dailyChange = price !== null && previousClose !== null ? price - previousClose : null;
+
+  return {
+    dailyChange,
+    dailyChangePercent: dailyChange !== null && previousClose ? (dailyChange / previousClose) * 100 : null,
+    high52w,
+    low52w,
+    distanceToTargetPercent: price && targetPrice !== null ? ((targetPrice - price) / price) * 100 : null,
+    fromHigh52wPercent: price !== null && high52w ? ((high52w - price) / high52w) * 100 : null,
+  };
+}
+
+/**
+ * Sort watchlist rows on a column; rows without a value go last in either direction
+ */
+export function sortWatchlistRows<T extends SortableWatchlistRow>(
+  rows: T[],
+  sortBy: WatchlistSortField,
+  direction: WatchlistSortDirection,
+): T[] {
+  const valueOf = SORT_VALUES[sortBy] || SORT_VALUES[WatchlistSortField.MANUAL];
+  const sign = direction === WatchlistSortDirection.DESC ? -1 : 1;
+
+  return [...rows].sort((a, b) => {
+    const left = valueOf(a);
+    const right = valueOf(b);
+    if (left === null || right === null) {
+      return left === right ? 0 : left === null ? 1 : -1;
+    }
+    const order = typeof left === 'string'
+      ? left.localeCompare(right as string)
+      : left - (right as number);
+    return sign * order || a.position - b.position;
+  });
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Watchlist } from './entities/watchlist.entity';
+import { WatchlistItem } from './entities/watchlist-item.entity';
+import { WatchlistShare } from './entities/watchlist-share.entity';
+import { GlobalAsset } from '../asset/entities/global-asset.entity';
+import { AssetPriceHistory } from '../asset/entities/asset-price-history.entity';
+import { Account } from '../shared/entities/account.entity';
+import { WatchlistController } from './controllers/watchlist.controller';
+import { WatchlistService } from './services/watchlist.service';
+import { SharedModule } from '../shared/shared.module';
+
+/**
+ * Watchlist module for named lists of catalog symbols with live prices and signal columns.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Watchlist,
+      WatchlistItem,
+      WatchlistShare,
+      GlobalAsset,
+      AssetPriceHistory,
+      Account,
+    ]),
+    SharedModule,
+  ],
+  controllers: [WatchlistController],
+  providers: [WatchlistService],
+  exports: [WatchlistService],
+})
+export class WatchlistModule {}
@@ -0,0 +1,103 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { SmtpClient } from './smtp-client';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export type EmailTransport = 'http' | 'smtp' | 'log';
+
+/**
+ * Sends transactional email through the transport selected by EMAIL_TRANSPORT:
+ * - http: an HTTP mail API (EMAIL_API_URL, EMAIL_API_KEY)
+ * - smtp: an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD), e.g. a local Mailpit
+ * - log: writes messages to the application log, for development
+ * An http or smtp transport without its URL or host is disabled and emails are skipped.
+ */
+@Injectable()
+export class EmailService {
+  private readonly logger = new Logger(EmailService.name);
+  private readonly transport: EmailTransport;
+  private readonly apiUrl: string;
+  private readonly apiKey: string;
+  private readonly from: string;
+  private readonly smtpClient: SmtpClient | null;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {
+    this.transport = this.configService.get<EmailTransport>('EMAIL_TRANSPORT', 'http');
+    this.apiUrl = this.configService.get<string>('EMAIL_API_URL', '');
+    this.apiKey = this.configService.get<string>('EMAIL_API_KEY', '');
+    this.from = this.configService.get<string>('EMAIL_FROM', 'no-reply@mmotion.cloud');
+
+    const smtpHost = this.configService.get<string>('SMTP_HOST', '');
+    this.smtpClient = smtpHost
+      ? new SmtpClient({
+        host: smtpHost,
+        port: Number(this.configService.get('SMTP_PORT', 1025)),
+        secure: String(this.configService.get('SMTP_SECURE', 'false')) === 'true',
+        user: this.configService.get<string>('SMTP_USER', ''),
+        password: this.configService.get<string>('SMTP_PASSWORD', ''),
+      })
+      : null;
+  }
+
+  isEnabled(): boolean {
+    switch (this.transport) {
+      case 'smtp':
+        return !!this.smtpClient;
+      case 'log':
+        return true;
+      default:
+        return !!this.apiUrl;
+    }
+  }
+
+  /**
+   * Send an email
+   * @returns true when the transport accepted the message
+   */
+  async send(message: EmailMessage): Promise<boolean> {
+    if (!this.isEnabled()) {
+      this.logger.debug(`Email not configured, skipping "${message.subject}" to ${message.to}`);
+      return false;
+    }
+    if (!message.to) {
+      return false;
+    }
+
+    try {
+      if (this.transport === 'log') {
+        this.logger.log(`Email to ${message.to} from ${this.from}: ${message.subject}\n${message.text}`);
+        return true;
+      }
+      if (this.transport === 'smtp') {
+        await this.smtpClient.send({ from: this.from, ...message });
+        return true;
+      }
+
+      await firstValueFrom(
+        this.httpService.post(
+          this.apiUrl,
+          { from: this.from, ...message },
+          {
+            headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+            timeout: 10000,
+          },
+        ),
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to send email "${message.subject}" to ${message.to}: ${error.message}`);
+      return false;
+    }
+  }
+}
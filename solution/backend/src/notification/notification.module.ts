@@ -1,19 +1,22 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { HttpModule } from '@nestjs/axios';
 import { Notification } from './notification.entity';
 import { NotificationService } from './notification.service';
 import { NotificationController } from './notification.controller';
 import { NotificationGateway } from './notification.gateway';
+import { EmailService } from './email.service';
 import { SharedModule } from '../modules/shared/shared.module';
 import { Role } from '../modules/shared/entities/role.entity';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Notification, Role]),
+    HttpModule,
     forwardRef(() => SharedModule),
   ],
   controllers: [NotificationController],
-  providers: [NotificationService, NotificationGateway],
-  exports: [NotificationService, NotificationGateway],
+  providers: [NotificationService, NotificationGateway, EmailService],
+  exports: [NotificationService, NotificationGateway, EmailService],
 })
 export class NotificationModule {}
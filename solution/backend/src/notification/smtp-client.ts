@@ -0,0 +1,186 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import { randomUUID } from 'crypto';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (port 465); plain connections suit local stand-ins such as Mailpit */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+const EHLO_NAME = 'mmotion.local';
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Minimal SMTP client: one connection per message, EHLO, optional AUTH PLAIN, MAIL/RCPT/DATA, QUIT
+ */
+export class SmtpClient {
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(message: SmtpMessage): Promise<void> {
+    const socket = await this.connect();
+    const replies = new ReplyReader(socket);
+    try {
+      await expectReply(replies.next(), 220);
+      await this.command(socket, replies, `EHLO ${EHLO_NAME}`, 250);
+      if (this.options.user) {
+        const credentials = Buffer.from(`\u0000${this.options.user}\u0000${this.options.password || ''}`).toString('base64');
+        await this.command(socket, replies, `AUTH PLAIN ${credentials}`, 235);
+      }
+      await this.command(socket, replies, `MAIL FROM:<${address(message.from)}>`, 250);
+      await this.command(socket, replies, `RCPT TO:<${address(message.to)}>`, 250);
+      await this.command(socket, replies, 'DATA', 354);
+      await this.command(socket, replies, `${dotStuff(buildMime(message))}\r\n.`, 250);
+      socket.write('QUIT\r\n');
+    } finally {
+      socket.end();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure, timeoutMs = 10000 } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP timeout after ${timeoutMs}ms`)));
+      socket.once('error', reject);
+    });
+  }
+
+  private async command(socket: net.Socket, replies: ReplyReader, line: string, expected: number): Promise<SmtpReply> {
+    socket.write(`${line}\r\n`);
+    return expectReply(replies.next(), expected);
+  }
+}
+
+/**
+ * Collects multi-line SMTP replies ("250-..." continuation lines up to "250 ...")
+ */
+class ReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let index: number;
+      while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.flush();
+    });
+    const fail = (error: Error) => {
+      this.failure = error;
+      this.flush();
+    };
+    socket.on('error', fail);
+    socket.on('close', () => fail(new Error('SMTP connection closed')));
+  }
+
+  next(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  private flush(): void {
+    if (!this.waiting) {
+      return;
+    }
+    const last = this.lines.findIndex(line => /^\d{3}( |$)/.test(line));
+    if (last !== -1) {
+      const lines = this.lines.splice(0, last + 1);
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting.resolve({
+        code: Number(lines[last].slice(0, 3)),
+        text: lines.map(line => line.slice(4)).join('\n'),
+      });
+    } else if (this.failure) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting.reject(this.failure);
+    }
+  }
+}
+
+async function expectReply(reply: Promise<SmtpReply>, code: number): Promise<SmtpReply> {
+  const result = await reply;
+  if (result.code !== code) {
+    throw new Error(`SMTP error ${result.code}: ${result.text}`);
+  }
+  return result;
+}
+
+function buildMime(message: SmtpMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${address(message.from).split('@')[1] || 'localhost'}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [...headers, 'Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64', '', base64Lines(message.text)]
+      .join('\r\n');
+  }
+
+  const boundary = `mmotion-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value).toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+function dotStuff(data: string): string {
+  return data.replace(/^\./gm, '..');
+}
+
+function address(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
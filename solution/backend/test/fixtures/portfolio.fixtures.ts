@@ -6,12 +6,15 @@
 import { CreatePortfolioDto } from '../../src/modules/portfolio/dto/create-portfolio.dto';
 import { UpdatePortfolioDto } from '../../src/modules/portfolio/dto/update-portfolio.dto';
 import { Portfolio } from '../../src/modules/portfolio/entities/portfolio.entity';
+import { CostBasisMethod } from '../../src/modules/portfolio/enums/cost-basis-method.enum';
+import { DealingFrequency } from '../../src/modules/portfolio/enums/dealing-frequency.enum';
 // PortfolioAsset entity has been removed - Portfolio is now linked to Assets through Trades only
 import { NavSnapshot } from '../../src/modules/portfolio/entities/nav-snapshot.entity';
 import { CashFlow, CashFlowType, CashFlowStatus } from '../../src/modules/portfolio/entities/cash-flow.entity';
 import { Account } from '../../src/modules/shared/entities/account.entity';
 import { Asset } from '../../src/modules/asset/entities/asset.entity';
 import { AssetType } from '../../src/modules/asset/enums/asset-type.enum';
+import { PriceMode } from '../../src/modules/asset/enums/price-mode.enum';
 
 /**
  * Mock UUIDs for consistent testing
@@ -38,9 +41,16 @@ export const createMockAccount = (overrides: Partial<Account> = {}): Account =>
   name: 'Test Account',
   email: 'test@example.com',
   baseCurrency: 'VND',
+  isInvestor: false,
+  isMainAccount: true,
+  isDemoAccount: false,
   createdAt: new Date('2024-01-01T00:00:00Z'),
   updatedAt: new Date('2024-01-01T00:00:00Z'),
   portfolios: [],
+  investorHoldings: [],
+  portfolioPermissions: [],
+  canInvestInFunds: false,
+  fundHoldingsCount: 0,
   ...overrides,
 });
 
@@ -52,6 +62,8 @@ export const createMockAsset = (overrides: Partial<Asset> = {}): Asset => ({
   name: 'Hoa Phat Group Joint Stock Company',
   symbol: 'HPG',
   type: AssetType.STOCK,
+  priceMode: PriceMode.AUTOMATIC,
+  currency: 'VND',
   description: 'Leading steel manufacturer in Vietnam',
   initialValue: 25000000,
   initialQuantity: 1000,
@@ -78,6 +90,8 @@ export const createMockAssetVCB = (overrides: Partial<Asset> = {}): Asset => ({
   name: 'Joint Stock Commercial Bank for Foreign Trade of Vietnam',
   symbol: 'VCB',
   type: AssetType.STOCK,
+  priceMode: PriceMode.AUTOMATIC,
+  currency: 'VND',
   description: 'Leading commercial bank in Vietnam',
   initialValue: 80000000,
   initialQuantity: 500,
@@ -108,16 +122,41 @@ export const createMockPortfolio = (overrides: Partial<Portfolio> = {}): Portfol
   name: 'Growth Portfolio',
   baseCurrency: 'VND',
   fundingSource: 'Personal Savings',
+  costBasisMethod: CostBasisMethod.FIFO,
   totalValue: 1500000000, // 1.5 billion VND
   cashBalance: 50000000, // 50 million VND
   unrealizedPl: 150000000, // 150 million VND profit
   realizedPl: 75000000, // 75 million VND profit
+  totalAssetValue: 1450000000,
+  totalInvestValue: 1350000000,
+  totalAllValue: 1500000000,
+  realizedAssetPnL: 75000000,
+  realizedInvestPnL: 75000000,
+  realizedAllPnL: 75000000,
+  unrealizedAssetPnL: 150000000,
+  unrealizedInvestPnL: 150000000,
+  unrealizedAllPnL: 150000000,
+  isFund: false,
+  totalOutstandingUnits: 0,
+  navPerUnit: 0,
+  numberOfInvestors: 0,
+  lastNavDate: null,
+  dealingFrequency: DealingFrequency.DAILY,
+  dealingCutOffTime: '15:00',
+  visibility: 'PRIVATE',
   createdAt: new Date('2024-01-01T00:00:00Z'),
   updatedAt: new Date('2024-01-01T00:00:00Z'),
   account: createMockAccount(),
   navSnapshots: [],
   cashFlows: [],
   trades: [],
+  deposits: [],
+  investorHoldings: [],
+  permissions: [],
+  notes: [],
+  canAcceptInvestors: false,
+  investorCount: 0,
+  hasValidNavPerUnit: false,
   ...overrides,
 });
 
@@ -127,16 +166,41 @@ export const createMockPortfolio2 = (overrides: Partial<Portfolio> = {}): Portfo
   name: 'Conservative Portfolio',
   baseCurrency: 'USD',
   fundingSource: 'Investment Fund',
+  costBasisMethod: CostBasisMethod.FIFO,
   totalValue: 50000, // 50k USD
   cashBalance: 5000, // 5k USD
   unrealizedPl: -2000, // 2k USD loss
   realizedPl: 1000, // 1k USD profit
+  totalAssetValue: 45000,
+  totalInvestValue: 51000,
+  totalAllValue: 50000,
+  realizedAssetPnL: 1000,
+  realizedInvestPnL: 1000,
+  realizedAllPnL: 1000,
+  unrealizedAssetPnL: -2000,
+  unrealizedInvestPnL: -2000,
+  unrealizedAllPnL: -2000,
+  isFund: false,
+  totalOutstandingUnits: 0,
+  navPerUnit: 0,
+  numberOfInvestors: 0,
+  lastNavDate: null,
+  dealingFrequency: DealingFrequency.DAILY,
+  dealingCutOffTime: '15:00',
+  visibility: 'PRIVATE',
   createdAt: new Date('2024-01-02T00:00:00Z'),
   updatedAt: new Date('2024-01-02T00:00:00Z'),
   account: createMockAccount(),
   navSnapshots: [],
   cashFlows: [],
   trades: [],
+  deposits: [],
+  investorHoldings: [],
+  permissions: [],
+  notes: [],
+  canAcceptInvestors: false,
+  investorCount: 0,
+  hasValidNavPerUnit: false,
   ...overrides,
 });
 
@@ -165,6 +229,8 @@ export const createMockNavSnapshot = (overrides: Partial<NavSnapshot> = {}): Nav
   navValue: 1500000000,
   cashBalance: 50000000,
   totalValue: 1500000000,
+  totalOutstandingUnits: 0,
+  navPerUnit: 0,
   createdAt: new Date('2024-01-01T00:00:00Z'),
   portfolio: createMockPortfolio(),
   ...overrides,
@@ -179,6 +245,7 @@ export const createMockCashFlow = (overrides: Partial<CashFlow> = {}): CashFlow
   flowDate: new Date('2024-01-01T00:00:00Z'),
   effectiveDate: new Date('2024-01-01T00:00:00Z'),
   amount: 100000000, // 100 million VND
+  taxWithheld: 0,
   currency: 'VND',
   type: CashFlowType.DEPOSIT,
   description: 'Initial deposit',
@@ -4,6 +4,7 @@ import { AssetService } from '../../../../src/modules/asset/services/asset.servi
 import { AssetValidationService } from '../../../../src/modules/asset/services/asset-validation.service';
 import { AssetAnalyticsService } from '../../../../src/modules/asset/services/asset-analytics.service';
 import { AssetType } from '../../../../src/modules/asset/enums/asset-type.enum';
+import { PriceMode } from '../../../../src/modules/asset/enums/price-mode.enum';
 import { CreateAssetDto } from '../../../../src/modules/asset/dto/create-asset.dto';
 import { UpdateAssetDto } from '../../../../src/modules/asset/dto/update-asset.dto';
 import { Asset } from '../../../../src/modules/asset/entities/asset.entity';
@@ -21,6 +22,8 @@ describe('AssetController', () => {
     name: 'Test Asset',
     symbol: 'TEST',
     type: AssetType.STOCK,
+    priceMode: PriceMode.AUTOMATIC,
+    currency: 'VND',
     description: 'Test asset description',
     initialValue: 1000000,
     initialQuantity: 100,
@@ -46,6 +49,8 @@ describe('AssetController', () => {
     name: 'Test Asset',
     symbol: 'TEST',
     type: AssetType.STOCK,
+    priceMode: PriceMode.AUTOMATIC,
+    currency: 'VND',
     description: 'Test asset description',
     initialValue: 1000000,
     initialQuantity: 100,
@@ -293,6 +298,10 @@ describe('AssetController', () => {
           [AssetType.GOLD]: 0,
           [AssetType.COMMODITY]: 0,
           [AssetType.DEPOSIT]: 0,
+          [AssetType.CRYPTO]: 0,
+          [AssetType.REALESTATE]: 0,
+          [AssetType.CURRENCY]: 0,
+          [AssetType.OTHER]: 0,
         },
         averageValue: 1000000,
       };
@@ -311,6 +320,10 @@ describe('AssetController', () => {
           [AssetType.GOLD]: 0,
           [AssetType.COMMODITY]: 0,
           [AssetType.DEPOSIT]: 0,
+          [AssetType.CRYPTO]: 0,
+          [AssetType.REALESTATE]: 0,
+          [AssetType.CURRENCY]: 0,
+          [AssetType.OTHER]: 0,
         },
         totalValue: 10000000,
         averageValue: 1000000,
@@ -349,6 +362,10 @@ describe('AssetController', () => {
         [AssetType.GOLD]: 0,
         [AssetType.COMMODITY]: 0,
         [AssetType.DEPOSIT]: 0,
+        [AssetType.CRYPTO]: 0,
+        [AssetType.REALESTATE]: 0,
+        [AssetType.CURRENCY]: 0,
+        [AssetType.OTHER]: 0,
       };
 
       assetAnalyticsService.calculateAssetAllocation.mockResolvedValue(mockAllocation);
@@ -403,6 +420,10 @@ describe('AssetController', () => {
           [AssetType.GOLD]: 0,
           [AssetType.COMMODITY]: 0,
           [AssetType.DEPOSIT]: 0,
+          [AssetType.CRYPTO]: 0,
+          [AssetType.REALESTATE]: 0,
+          [AssetType.CURRENCY]: 0,
+          [AssetType.OTHER]: 0,
         },
         performance: {
           totalReturn: 0.1,
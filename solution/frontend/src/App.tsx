@@ -24,11 +24,14 @@ import Transactions from './pages/Transactions';
 import Report from './pages/Report';
 import InvestorView from './pages/InvestorView';
 import Goals from './pages/Goals';
+import Alerts from './pages/Alerts';
+import Watchlists from './pages/Watchlists';
 import PlansList from './pages/PlansList';
 import PersonalFinancialAnalysisPage from './pages/PersonalFinancialAnalysis';
 import PersonalFinancialAnalysisWizardPage from './pages/PersonalFinancialAnalysisWizard';
 import Login from './pages/Login';
 import ForgetPassword from './pages/ForgetPassword';
+import ResetPassword from './pages/ResetPassword';
 import Welcome from './pages/Welcome';
 import Home from './pages/Home';
 import SystemGuide from './pages/SystemGuide';
@@ -81,6 +84,7 @@ const AppContent: React.FC = () => {
           <Route path="/welcome" element={<Welcome />} />
           <Route path="/home" element={<Home />} />
           <Route path="/forget-password" element={<ForgetPassword />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
           <Route path="*" element={<Login />} />
         </>
       ) : (
@@ -198,6 +202,20 @@ const AppContent: React.FC = () => {
               </Box>
             </AppLayout>
           } />
+          <Route path="/alerts" element={
+            <AppLayout>
+              <Box sx={{ minHeight: '100vh' }}>
+                <Alerts />
+              </Box>
+            </AppLayout>
+          } />
+          <Route path="/watchlists" element={
+            <AppLayout>
+              <Box sx={{ minHeight: '100vh' }}>
+                <Watchlists />
+              </Box>
+            </AppLayout>
+          } />
           <Route path="/plans" element={
             <AppLayout>
               <Box sx={{ minHeight: '100vh' }}>
@@ -0,0 +1,477 @@
+/**
+ * Alert Rules
+ * Price, position, drawdown and deposit maturity alerts of an account, with their trigger history
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  Grid,
+  IconButton,
+  InputLabel,
+  Menu,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  Pause as PauseIcon,
+  PlayArrow as PlayArrowIcon,
+  Refresh as RefreshIcon,
+  Snooze as SnoozeIcon,
+  NotificationsActive as NotificationsActiveIcon,
+} from '@mui/icons-material';
+import {
+  AlertRule,
+  AlertRuleType,
+  AlertChannel,
+  CreateAlertRuleRequest,
+  SYMBOL_ALERT_RULE_TYPES,
+  PORTFOLIO_ALERT_RULE_TYPES,
+} from '../../types/alert.types';
+import {
+  useAlertRules,
+  useAlertEvents,
+  useSaveAlertRule,
+  useDeleteAlertRule,
+  useSnoozeAlertRule,
+  useEvaluateAlerts,
+} from '../../hooks/useAlerts';
+import { usePortfolios } from '../../hooks/usePortfolios';
+import { formatDateTime, formatNumber } from '../../utils/format';
+
+interface AlertRulesProps {
+  accountId: string;
+}
+
+const RULE_TYPES = Object.values(AlertRuleType);
+const COOLDOWN_OPTIONS = [60, 240, 1440, 10080];
+const SNOOZE_OPTIONS = [60, 1440, 10080];
+const PERCENT_RULE_TYPES = [AlertRuleType.DAILY_MOVE_PERCENT, AlertRuleType.PORTFOLIO_DRAWDOWN];
+
+const emptyRule = (): CreateAlertRuleRequest => ({
+  ruleType: AlertRuleType.PRICE_ABOVE,
+  threshold: 0,
+  symbol: '',
+  channels: [AlertChannel.IN_APP],
+  cooldownMinutes: 1440,
+});
+
+export const AlertRules: React.FC<AlertRulesProps> = ({ accountId }) => {
+  const { t } = useTranslation();
+  const { portfolios = [] } = usePortfolios(accountId);
+  const { data: rules = [], isLoading: rulesLoading } = useAlertRules(accountId);
+  const { data: events = [], isLoading: eventsLoading } = useAlertEvents(accountId);
+  const saveMutation = useSaveAlertRule(accountId);
+  const deleteMutation = useDeleteAlertRule(accountId);
+  const snoozeMutation = useSnoozeAlertRule(accountId);
+  const evaluateMutation = useEvaluateAlerts(accountId);
+
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [ruleForm, setRuleForm] = useState<CreateAlertRuleRequest | null>(null);
+  const [snoozeAnchor, setSnoozeAnchor] = useState<{ element: HTMLElement; rule: AlertRule } | null>(null);
+
+  const portfolioName = (portfolioId?: string | null) =>
+    portfolios.find(portfolio => portfolio.portfolioId === portfolioId)?.name || '';
+
+  const isSnoozed = (rule: AlertRule) => !!rule.snoozedUntil && new Date(rule.snoozedUntil) > new Date();
+
+  const openNewRule = () => {
+    setEditingRuleId(null);
+    setRuleForm(emptyRule());
+  };
+
+  const openEditRule = (rule: AlertRule) => {
+    setEditingRuleId(rule.alertRuleId);
+    setRuleForm({
+      ruleType: rule.ruleType,
+      threshold: Number(rule.threshold),
+      symbol: rule.symbol ?? '',
+      portfolioId: rule.portfolioId ?? undefined,
+      channels: rule.channels,
+      cooldownMinutes: rule.cooldownMinutes,
+      note: rule.note ?? undefined,
+    });
+  };
+
+  const updateRuleForm = (changes: Partial<CreateAlertRuleRequest>) => {
+    setRuleForm(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const toggleChannel = (channel: AlertChannel) => {
+    if (!ruleForm) return;
+    const channels = ruleForm.channels || [];
+    updateRuleForm({
+      channels: channels.includes(channel) ? channels.filter(item => item !== channel) : [...channels, channel],
+    });
+  };
+
+  const handleSaveRule = async () => {
+    if (!ruleForm) return;
+    const needsSymbol = SYMBOL_ALERT_RULE_TYPES.includes(ruleForm.ruleType);
+    const data: CreateAlertRuleRequest = {
+      ...ruleForm,
+      symbol: needsSymbol ? ruleForm.symbol?.trim().toUpperCase() : undefined,
+      portfolioId: PORTFOLIO_ALERT_RULE_TYPES.includes(ruleForm.ruleType) ? ruleForm.portfolioId || undefined : undefined,
+      note: ruleForm.note || undefined,
+    };
+    if (editingRuleId) {
+      const { ruleType: _ruleType, ...changes } = data;
+      await saveMutation.mutateAsync({ ruleId: editingRuleId, data: changes });
+    } else {
+      await saveMutation.mutateAsync({ data });
+    }
+    setRuleForm(null);
+  };
+
+  const handleDeleteRule = (rule: AlertRule) => {
+    if (window.confirm(t('alerts.deleteConfirm'))) {
+      deleteMutation.mutate(rule.alertRuleId);
+    }
+  };
+
+  const handleSnooze = (minutes: number | null) => {
+    if (!snoozeAnchor) return;
+    snoozeMutation.mutate({ ruleId: snoozeAnchor.rule.alertRuleId, data: minutes ? { minutes } : null });
+    setSnoozeAnchor(null);
+  };
+
+  const formatThreshold = (ruleType: AlertRuleType, value: number | string | null | undefined) => {
+    if (value === null || value === undefined) return '-';
+    if (PERCENT_RULE_TYPES.includes(ruleType)) return `${formatNumber(Number(value), 2)}%`;
+    if (ruleType === AlertRuleType.DEPOSIT_MATURING) return t('alerts.days', { count: Number(value) });
+    return formatNumber(Number(value), 2);
+  };
+
+  const describeTarget = (rule: AlertRule) => {
+    const parts = [rule.symbol, portfolioName(rule.portfolioId)].filter(Boolean);
+    if (parts.length === 0 && rule.ruleType === AlertRuleType.DEPOSIT_MATURING) {
+      return t('alerts.allPortfolios');
+    }
+    return parts.join(' · ');
+  };
+
+  if (rulesLoading || eventsLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const needsSymbol = ruleForm ? SYMBOL_ALERT_RULE_TYPES.includes(ruleForm.ruleType) : false;
+  const usesPortfolio = ruleForm ? PORTFOLIO_ALERT_RULE_TYPES.includes(ruleForm.ruleType) : false;
+  const canSave = !!ruleForm
+    && (!needsSymbol || !!ruleForm.symbol?.trim())
+    && (!usesPortfolio || ruleForm.ruleType === AlertRuleType.DEPOSIT_MATURING || !!ruleForm.portfolioId)
+    && (ruleForm.channels?.length ?? 0) > 0;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <Box>
+          <Typography variant="h5" sx={{ mb: 1, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <NotificationsActiveIcon color="primary" />
+            {t('alerts.title')}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {t('alerts.description')}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={evaluateMutation.isLoading ? <CircularProgress size={16} /> : <RefreshIcon />}
+            onClick={() => evaluateMutation.mutate()}
+            disabled={evaluateMutation.isLoading}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('alerts.checkNow')}
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openNewRule} sx={{ textTransform: 'none' }}>
+            {t('alerts.newRule')}
+          </Button>
+        </Box>
+      </Box>
+
+      <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+        {t('alerts.rulesTitle')}
+      </Typography>
+      <TableContainer sx={{ mb: 3 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('alerts.condition')}</TableCell>
+              <TableCell>{t('alerts.target')}</TableCell>
+              <TableCell align="right">{t('alerts.threshold')}</TableCell>
+              <TableCell align="right">{t('alerts.lastValue')}</TableCell>
+              <TableCell>{t('alerts.channels')}</TableCell>
+              <TableCell>{t('alerts.lastTriggered')}</TableCell>
+              <TableCell>{t('alerts.status')}</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rules.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  {t('alerts.noRules')}
+                </TableCell>
+              </TableRow>
+            )}
+            {rules.map(rule => (
+              <TableRow key={rule.alertRuleId}>
+                <TableCell>{t(`alerts.ruleTypes.${rule.ruleType}`)}</TableCell>
+                <TableCell>{describeTarget(rule)}</TableCell>
+                <TableCell align="right">{formatThreshold(rule.ruleType, rule.threshold)}</TableCell>
+                <TableCell align="right">{formatThreshold(rule.ruleType, rule.lastValue)}</TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', gap: 0.5 }}>
+                    {rule.channels.map(channel => (
+                      <Chip key={channel} size="small" variant="outlined" label={t(`alerts.channelTypes.${channel}`)} />
+                    ))}
+                  </Box>
+                </TableCell>
+                <TableCell>{rule.lastTriggeredAt ? formatDateTime(rule.lastTriggeredAt) : '-'}</TableCell>
+                <TableCell>
+                  {!rule.isActive ? (
+                    <Chip size="small" label={t('alerts.paused')} />
+                  ) : isSnoozed(rule) ? (
+                    <Tooltip title={formatDateTime(rule.snoozedUntil as string)}>
+                      <Chip size="small" color="warning" label={t('alerts.snoozed')} />
+                    </Tooltip>
+                  ) : (
+                    <Chip size="small" color="success" label={t('alerts.active')} />
+                  )}
+                </TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <Tooltip title={t('alerts.snooze')}>
+                    <IconButton
+                      size="small"
+                      onClick={(event) => setSnoozeAnchor({ element: event.currentTarget, rule })}
+                      disabled={!rule.isActive || snoozeMutation.isLoading}
+                    >
+                      <SnoozeIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={rule.isActive ? t('alerts.pause') : t('alerts.resume')}>
+                    <IconButton
+                      size="small"
+                      onClick={() => saveMutation.mutate({ ruleId: rule.alertRuleId, data: { isActive: !rule.isActive } })}
+                      disabled={saveMutation.isLoading}
+                    >
+                      {rule.isActive ? <PauseIcon fontSize="small" /> : <PlayArrowIcon fontSize="small" />}
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={t('common.edit')}>
+                    <IconButton size="small" onClick={() => openEditRule(rule)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={t('common.delete')}>
+                    <IconButton size="small" color="error" onClick={() => handleDeleteRule(rule)} disabled={deleteMutation.isLoading}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+        {t('alerts.historyTitle')}
+      </Typography>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('alerts.triggeredAt')}</TableCell>
+              <TableCell>{t('alerts.alert')}</TableCell>
+              <TableCell>{t('alerts.channels')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {events.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={3} align="center">
+                  {t('alerts.noHistory')}
+                </TableCell>
+              </TableRow>
+            )}
+            {events.map(event => (
+              <TableRow key={event.alertEventId}>
+                <TableCell sx={{ whiteSpace: 'nowrap', verticalAlign: 'top' }}>{formatDateTime(event.triggeredAt)}</TableCell>
+                <TableCell>
+                  <Typography variant="body2" sx={{ fontWeight: 600 }}>{event.title}</Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'pre-line' }}>{event.message}</Typography>
+                </TableCell>
+                <TableCell sx={{ verticalAlign: 'top' }}>
+                  {(event.deliveredChannels || []).length > 0
+                    ? (event.deliveredChannels || []).map(channel => t(`alerts.channelTypes.${channel}`)).join(', ')
+                    : t('alerts.notDelivered')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Snooze menu */}
+      <Menu anchorEl={snoozeAnchor?.element} open={!!snoozeAnchor} onClose={() => setSnoozeAnchor(null)}>
+        {SNOOZE_OPTIONS.map(minutes => (
+          <MenuItem key={minutes} onClick={() => handleSnooze(minutes)}>
+            {t(`alerts.durations.${minutes}`)}
+          </MenuItem>
+        ))}
+        {snoozeAnchor && isSnoozed(snoozeAnchor.rule) && (
+          <MenuItem onClick={() => handleSnooze(null)}>{t('alerts.unsnooze')}</MenuItem>
+        )}
+      </Menu>
+
+      {/* Rule dialog */}
+      <Dialog open={!!ruleForm} onClose={() => setRuleForm(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingRuleId ? t('alerts.editRule') : t('alerts.newRule')}
+        </DialogTitle>
+        {ruleForm && (
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12}>
+                <FormControl fullWidth size="small" disabled={!!editingRuleId}>
+                  <InputLabel>{t('alerts.condition')}</InputLabel>
+                  <Select
+                    value={ruleForm.ruleType}
+                    label={t('alerts.condition')}
+                    onChange={(event) => updateRuleForm({ ruleType: event.target.value as AlertRuleType })}
+                  >
+                    {RULE_TYPES.map(value => (
+                      <MenuItem key={value} value={value}>{t(`alerts.ruleTypes.${value}`)}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              {needsSymbol && (
+                <Grid item xs={12} sm={usesPortfolio ? 6 : 12}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label={t('alerts.symbol')}
+                    value={ruleForm.symbol ?? ''}
+                    onChange={(event) => updateRuleForm({ symbol: event.target.value.toUpperCase() })}
+                    placeholder="HPG"
+                  />
+                </Grid>
+              )}
+              {usesPortfolio && (
+                <Grid item xs={12} sm={needsSymbol ? 6 : 12}>
+                  <FormControl fullWidth size="small">
+                    <InputLabel>{t('alerts.portfolio')}</InputLabel>
+                    <Select
+                      value={ruleForm.portfolioId ?? ''}
+                      label={t('alerts.portfolio')}
+                      onChange={(event) => updateRuleForm({ portfolioId: (event.target.value as string) || undefined })}
+                    >
+                      {ruleForm.ruleType === AlertRuleType.DEPOSIT_MATURING && (
+                        <MenuItem value="">{t('alerts.allPortfolios')}</MenuItem>
+                      )}
+                      {portfolios.map(portfolio => (
+                        <MenuItem key={portfolio.portfolioId} value={portfolio.portfolioId}>{portfolio.name}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
+              )}
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="number"
+                  label={t(`alerts.thresholdLabels.${ruleForm.ruleType}`)}
+                  value={ruleForm.threshold}
+                  onChange={(event) => updateRuleForm({ threshold: Number(event.target.value) })}
+                  inputProps={{ min: 0 }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <FormControl fullWidth size="small">
+                  <InputLabel>{t('alerts.cooldown')}</InputLabel>
+                  <Select
+                    value={ruleForm.cooldownMinutes ?? 1440}
+                    label={t('alerts.cooldown')}
+                    onChange={(event) => updateRuleForm({ cooldownMinutes: Number(event.target.value) })}
+                  >
+                    {COOLDOWN_OPTIONS.map(minutes => (
+                      <MenuItem key={minutes} value={minutes}>{t(`alerts.durations.${minutes}`)}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12}>
+                <Typography variant="body2" color="text.secondary">{t('alerts.channels')}</Typography>
+                <FormGroup row>
+                  {Object.values(AlertChannel).map(channel => (
+                    <FormControlLabel
+                      key={channel}
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={(ruleForm.channels || []).includes(channel)}
+                          onChange={() => toggleChannel(channel)}
+                        />
+                      }
+                      label={t(`alerts.channelTypes.${channel}`)}
+                    />
+                  ))}
+                </FormGroup>
+              </Grid>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  multiline
+                  minRows={2}
+                  label={t('alerts.note')}
+                  value={ruleForm.note ?? ''}
+                  onChange={(event) => updateRuleForm({ note: event.target.value })}
+                />
+              </Grid>
+            </Grid>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setRuleForm(null)}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleSaveRule} disabled={!canSave || saveMutation.isLoading}>
+            {t('common.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AlertRules;
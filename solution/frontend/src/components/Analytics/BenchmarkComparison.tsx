@@ -50,6 +50,9 @@ interface BenchmarkComparisonProps {
   currentTimeframe?: string;
   onTwrPeriodChange?: (twrPeriod: string) => void;
   currentTwrPeriod?: string;
+  benchmarkOptions?: Array<{ value: string; label: string }>;
+  onBenchmarkChange?: (benchmarkId: string) => void;
+  currentBenchmarkId?: string;
 }
 
 const BenchmarkComparison: React.FC<BenchmarkComparisonProps> = ({
@@ -63,6 +66,9 @@ const BenchmarkComparison: React.FC<BenchmarkComparisonProps> = ({
   currentTimeframe = '1Y',
   onTwrPeriodChange,
   currentTwrPeriod = 'YTD',
+  benchmarkOptions = [],
+  onBenchmarkChange,
+  currentBenchmarkId,
 }) => {
   const { t } = useTranslation();
   const [timeframe, setTimeframe] = useState(currentTimeframe);
@@ -201,6 +207,17 @@ const BenchmarkComparison: React.FC<BenchmarkComparisonProps> = ({
           </ResponsiveTypography>
         </Box>
         <Box sx={{ display: 'flex', gap: 2 }}>
+          {benchmarkOptions.length > 0 && onBenchmarkChange && (
+            <ResponsiveFormSelect
+              compact={false}
+              size="small"
+              options={benchmarkOptions}
+              value={currentBenchmarkId || benchmarkOptions[0].value}
+              onChange={(value) => onBenchmarkChange(String(value))}
+              formControlSx={{ minWidth: isMobile ? 80 : 140 }}
+              selectSx={{ fontSize: isMobile ? '0.65rem!important' : '0.75rem!important'}}
+            />
+          )}
           <ResponsiveFormSelect
             compact={false}
             size="small"
@@ -168,6 +168,7 @@ export const AssetForm: React.FC<AssetFormProps> = ({
           name: globalAssetData.name || prev.name,
           type: globalAssetData.type || prev.type,
           description: globalAssetData.description || prev.description,
+          currency: globalAssetData.currency || prev.currency,
           priceMode: (globalAssetData.priceMode as PriceMode) || prev.priceMode,
           // Auto-fill current price if available
           currentValue: globalAssetData.assetPrice?.currentPrice || prev.currentValue,
@@ -194,6 +195,7 @@ export const AssetForm: React.FC<AssetFormProps> = ({
     symbol: '',
     type: (assetTypes[0]?.value as AssetType) || AssetType.STOCK,
     description: '',
+    currency: 'VND',
     priceMode: PriceMode.AUTOMATIC,
     manualPrice: undefined,
     initialValue: undefined,
@@ -245,6 +247,10 @@ export const AssetForm: React.FC<AssetFormProps> = ({
       newErrors.type = t('asset.form.validation.typeRequired');
     }
 
+    if (formData.currency && !/^[A-Z]{3}$/.test(formData.currency)) {
+      newErrors.currency = t('asset.form.validation.currencyInvalidFormat');
+    }
+
     if (!formData.priceMode) {
       newErrors.priceMode = t('asset.form.validation.priceModeRequired');
     }
@@ -302,6 +308,11 @@ export const AssetForm: React.FC<AssetFormProps> = ({
       }
     }
 
+    // Currency codes are 3 uppercase letters
+    if (field === 'currency') {
+      value = value.replace(/[^A-Za-z]/g, '').toUpperCase().substring(0, 3);
+    }
+
     setFormData(prev => ({
       ...prev,
       [field]: value,
@@ -456,6 +467,19 @@ export const AssetForm: React.FC<AssetFormProps> = ({
           </FormControl>
         </Grid>
 
+        <Grid item xs={12} sm={6}>
+          <TextField
+            fullWidth
+            label={t('asset.form.fields.currency')}
+            value={formData.currency || ''}
+            onChange={handleChange('currency')}
+            error={!!errors.currency}
+            helperText={errors.currency || t('asset.form.fields.currencyHelper')}
+            disabled={!!fetchedGlobalAsset && !isEditMode}
+            inputProps={{ maxLength: 3 }}
+          />
+        </Grid>
+
         <Grid item xs={12} sm={6}>
           <FormControl fullWidth error={!!errors.priceMode}>
             <InputLabel>{t('asset.form.fields.priceMode')}</InputLabel>
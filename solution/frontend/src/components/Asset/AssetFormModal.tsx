@@ -77,6 +77,7 @@ export const AssetFormModal: React.FC<AssetFormModalProps> = ({
               symbol: editingAsset.symbol || '',
               type: editingAsset.type as any,
               description: editingAsset.description || '',
+              currency: editingAsset.currency || 'VND',
               priceMode: editingAsset.priceMode || PriceMode.AUTOMATIC,
               // Computed fields are shown as read-only for display purposes
               initialValue: editingAsset.initialValue || undefined,
@@ -14,6 +14,7 @@ import { ResponsiveTypography } from '../Common/ResponsiveTypography';
 import { ResponsiveButton, ActionButton } from '../Common';
 import MoneyInput from '../Common/MoneyInput';
 import { formatCurrency } from '../../utils/format';
+import { useTaxRules } from '../../hooks/useTrading';
 
 interface CashFlow {
   cashflowId: string;
@@ -58,6 +59,10 @@ const CashFlowForm: React.FC<CashFlowFormProps> = ({
   
   // State for toggle between deposit/withdrawal
   const [isDeposit, setIsDeposit] = useState(dialogType === 'deposit');
+
+  // New dividends are entered gross, with the tax withheld pre-filled from the tax rules
+  const isNewDividend = dialogType === 'dividend' && !editingCashFlow;
+  const [taxWithheld, setTaxWithheld] = useState<number | null>(null);
   
   const [formData, setFormData] = useState({
     amount: '',
@@ -99,8 +104,14 @@ const CashFlowForm: React.FC<CashFlowFormProps> = ({
     }
   };
 
+  const { data: taxRules } = useTaxRules(formData.currency);
+  const dividendTaxRate = taxRules?.cashDividendTaxRate || 0;
+  const grossAmount = parseFloat(formData.amount) || 0;
+  const effectiveTaxWithheld = taxWithheld ?? Math.round(grossAmount * dividendTaxRate * 100) / 100;
+
   // Reset form when component mounts or editingCashFlow changes
   useEffect(() => {
+    setTaxWithheld(null);
     if (editingCashFlow) {
       // Format dates for input - Fix timezone issue
       const flowDate = editingCashFlow.flowDate.includes('T') 
@@ -131,7 +142,8 @@ const CashFlowForm: React.FC<CashFlowFormProps> = ({
     // Add type to formData based on current toggle state
     const submitData = {
       ...formData,
-      type: isDeposit ? 'DEPOSIT' : 'WITHDRAWAL'
+      type: isDeposit ? 'DEPOSIT' : 'WITHDRAWAL',
+      taxWithheld: isNewDividend ? effectiveTaxWithheld : undefined,
     };
     await onSubmit(submitData);
   };
@@ -238,13 +250,28 @@ const CashFlowForm: React.FC<CashFlowFormProps> = ({
             <MoneyInput
               value={parseFloat(formData.amount) || 0}
               onChange={(amount) => setFormData({ ...formData, amount: amount.toString() })}
-              label={t('cashflow.form.amount')}
+              label={isNewDividend ? t('cashflow.form.grossDividend') : t('cashflow.form.amount')}
               placeholder={t('cashflow.form.amountPlaceholder')}
               required
               currency={formData.currency}
               margin="normal"
               error={!!(formData.amount && (parseFloat(formData.amount) <= 0 || isNaN(parseFloat(formData.amount))))}
             />
+
+            {isNewDividend && (
+              <MoneyInput
+                value={effectiveTaxWithheld}
+                onChange={(amount) => setTaxWithheld(amount)}
+                label={t('cashflow.form.taxWithheld')}
+                currency={formData.currency}
+                margin="normal"
+                error={effectiveTaxWithheld < 0 || effectiveTaxWithheld > grossAmount}
+                helperText={t('cashflow.form.taxWithheldHelper', {
+                  rate: (dividendTaxRate * 100).toFixed(1),
+                  net: formatCurrency(grossAmount - effectiveTaxWithheld, formData.currency),
+                })}
+              />
+            )}
             
             <TextField
               fullWidth
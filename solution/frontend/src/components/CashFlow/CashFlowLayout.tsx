@@ -1632,6 +1632,7 @@ const CashFlowLayout: React.FC<CashFlowLayoutProps> = ({
               currency: formData.currency,
               status: formData.status,
               fundingSource: formData.fundingSource || undefined,
+              taxWithheld: formData.taxWithheld,
             };
 
             const isEdit = editingCashFlow !== null;
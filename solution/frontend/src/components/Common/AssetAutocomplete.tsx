@@ -234,6 +234,14 @@ export const AssetAutocomplete: React.FC<AssetAutocompleteProps> = ({
           
           isResolvingAssetIdRef.current = true;
           try {
+            // A GlobalAsset.id that is not on the loaded page (e.g. prefilled from a watchlist)
+            const loadedGlobalAsset = await globalAssetService.getGlobalAssetById(value).catch(() => null);
+            if (loadedGlobalAsset) {
+              setSelectedAsset(loadedGlobalAsset);
+              prevSelectedAssetRef.current = loadedGlobalAsset;
+              return;
+            }
+
             // Fetch Asset from backend to get symbol
             const assetData = await assetService.getAssetById(value, accountId);
             if (assetData && assetData.symbol) {
@@ -38,6 +38,7 @@ interface Deposit {
   interestRate: number;
   startDate: string;
   endDate: string;
+  maturityDate?: string;
   status: 'ACTIVE' | 'SETTLED';
   actualInterest?: number;
   notes?: string;
@@ -345,6 +346,11 @@ const DepositDetailsModal: React.FC<DepositDetailsModalProps> = ({
                 <ResponsiveTypography variant="cardSubtitle" fontWeight="medium">
                   {formatDate(deposit.endDate, 'short')}
                 </ResponsiveTypography>
+                {deposit.maturityDate && deposit.maturityDate !== deposit.endDate && (
+                  <ResponsiveTypography variant="caption" color="text.secondary">
+                    {t('deposit.details.maturityDate', { date: formatDate(deposit.maturityDate, 'short') })}
+                  </ResponsiveTypography>
+                )}
               </Box>
             </Box>
             
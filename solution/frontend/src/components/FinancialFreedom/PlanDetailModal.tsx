@@ -35,6 +35,7 @@ import { PlanLinksSection } from './PlanLinksSection';
 import { PlanProgressSection } from './PlanProgressSection';
 import { AllocationComparisonSection } from './AllocationComparisonSection';
 import { useProgressTracking } from '../../hooks/useProgressTracking';
+import { usePlanMonteCarlo } from '../../hooks/useFinancialFreedomPlans';
 
 interface PlanDetailModalProps {
   open: boolean;
@@ -64,6 +65,10 @@ export const PlanDetailModal: React.FC<PlanDetailModalProps> = ({
     accountId
   );
 
+  // Monte Carlo fan for the projections chart; only plans with an allocation and a horizon can be simulated
+  const canSimulate = open && !!localPlan?.suggestedAllocation?.length && !!localPlan?.investmentYears;
+  const { data: monteCarlo } = usePlanMonteCarlo(canSimulate ? localPlan?.id : undefined, {}, accountId);
+
   // Update localPlan when plan prop changes
   useEffect(() => {
     if (plan) {
@@ -499,6 +504,7 @@ export const PlanDetailModal: React.FC<PlanDetailModalProps> = ({
                       baseCurrency={localPlan.baseCurrency || 'VND'}
                       height={300}
                       showTarget={true}
+                      monteCarlo={monteCarlo}
                     />
                   </CardContent>
                 </Card>
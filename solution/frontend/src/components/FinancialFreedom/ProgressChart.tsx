@@ -14,7 +14,7 @@ import {
   Label,
 } from 'recharts';
 import { ResponsiveTypography } from '../Common/ResponsiveTypography';
-import { YearlyProjection } from '../../types/financialFreedom.types';
+import { YearlyProjection, MonteCarloResult } from '../../types/financialFreedom.types';
 import { formatCurrency } from '../../utils/format';
 import { useTranslation } from 'react-i18next';
 
@@ -25,8 +25,11 @@ interface ProgressChartProps {
   title?: string;
   height?: number;
   showTarget?: boolean;
+  monteCarlo?: MonteCarloResult; // Adds the P10-P90 fan and the median path when provided
 }
 
+const MONTE_CARLO_KEYS = ['mcBase', 'mcRange', 'mcMedian'];
+
 export const ProgressChart: React.FC<ProgressChartProps> = ({
   projections,
   baseCurrency = 'VND',
@@ -34,20 +37,32 @@ export const ProgressChart: React.FC<ProgressChartProps> = ({
   title,
   height = 300,
   showTarget = true,
+  monteCarlo,
 }) => {
   const { t } = useTranslation();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
-  const chartData = projections.map((proj) => ({
-    year: proj.year,
-    portfolioValue: proj.portfolioValue,
-    cumulativeValue: proj.cumulativeValue,
-    contributions: proj.contributions,
-    returns: proj.returns,
-    targetValue: targetValue || proj.portfolioValue,
-    progressToGoal: proj.progressToGoal,
-  }));
+  const bandByYear = new Map((monteCarlo?.bands || []).map((band) => [Math.ceil(band.year), band]));
+
+  const chartData = projections.map((proj) => {
+    const band = bandByYear.get(proj.year);
+    return {
+      year: proj.year,
+      portfolioValue: proj.portfolioValue,
+      cumulativeValue: proj.cumulativeValue,
+      contributions: proj.contributions,
+      returns: proj.returns,
+      targetValue: targetValue || proj.portfolioValue,
+      progressToGoal: proj.progressToGoal,
+      // Stacked pair draws the P10-P90 fan: a transparent base up to P10 and the band height on top
+      mcBase: band?.p10,
+      mcRange: band ? band.p90 - band.p10 : undefined,
+      mcMedian: band?.p50,
+      p10: band?.p10,
+      p90: band?.p90,
+    };
+  });
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -67,7 +82,7 @@ export const ProgressChart: React.FC<ProgressChartProps> = ({
             </ResponsiveTypography>
           </Box>
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
-            {payload.map((entry: any, index: number) => (
+            {payload.filter((entry: any) => !MONTE_CARLO_KEYS.includes(entry.dataKey)).map((entry: any, index: number) => (
               <Box
                 key={index}
                 sx={{
@@ -104,6 +119,24 @@ export const ProgressChart: React.FC<ProgressChartProps> = ({
                 </ResponsiveTypography>
               </Box>
             ))}
+            {payload[0]?.payload?.p10 !== undefined && (
+              <>
+                {[
+                  { label: t('financialFreedom.monteCarlo.p90'), value: payload[0].payload.p90 },
+                  { label: t('financialFreedom.monteCarlo.p50'), value: payload[0].payload.mcMedian },
+                  { label: t('financialFreedom.monteCarlo.p10'), value: payload[0].payload.p10 },
+                ].map((row) => (
+                  <Box key={row.label} sx={{ display: 'flex', justifyContent: 'space-between', gap: 1.5 }}>
+                    <ResponsiveTypography variant="body2" sx={{ fontWeight: 500, color: 'text.secondary' }}>
+                      {row.label}
+                    </ResponsiveTypography>
+                    <ResponsiveTypography variant="body2" sx={{ fontWeight: 600, color: '#7b1fa2' }}>
+                      {formatCurrency(row.value, baseCurrency)}
+                    </ResponsiveTypography>
+                  </Box>
+                ))}
+              </>
+            )}
             {showTarget && targetValue && (
               <>
                 <Box
@@ -202,6 +235,37 @@ export const ProgressChart: React.FC<ProgressChartProps> = ({
             fill="url(#colorPortfolio)"
             name={t('financialFreedom.chart.portfolioValue')}
           />
+          {monteCarlo && (
+            <>
+              <Area
+                type="monotone"
+                dataKey="mcBase"
+                stackId="monteCarlo"
+                stroke="none"
+                fill="transparent"
+                legendType="none"
+                activeDot={false}
+              />
+              <Area
+                type="monotone"
+                dataKey="mcRange"
+                stackId="monteCarlo"
+                stroke="none"
+                fill="#7b1fa2"
+                fillOpacity={0.15}
+                name={t('financialFreedom.monteCarlo.band')}
+                activeDot={false}
+              />
+              <Line
+                type="monotone"
+                dataKey="mcMedian"
+                stroke="#7b1fa2"
+                strokeWidth={2}
+                dot={false}
+                name={t('financialFreedom.monteCarlo.median')}
+              />
+            </>
+          )}
           {showTarget && targetValue && (
             <>
               <Line
@@ -231,6 +295,14 @@ export const ProgressChart: React.FC<ProgressChartProps> = ({
           )}
         </AreaChart>
       </ResponsiveContainer>
+      {monteCarlo && (
+        <ResponsiveTypography variant="body2" sx={{ mt: 1, color: 'text.secondary' }}>
+          {t('financialFreedom.monteCarlo.successCaption', {
+            probability: monteCarlo.successProbability.toFixed(1),
+            paths: monteCarlo.paths.toLocaleString(),
+          })}
+        </ResponsiveTypography>
+      )}
     </Box>
   );
 };
@@ -1,8 +1,8 @@
 import React from 'react';
-import { Box, Grid, Card, CardContent, useTheme } from '@mui/material';
+import { Box, Grid, Card, CardContent, LinearProgress, useTheme } from '@mui/material';
 import { CheckCircle as CheckCircleIcon } from '@mui/icons-material';
 import { ResponsiveTypography } from '../Common/ResponsiveTypography';
-import { Scenarios } from '../../types/financialFreedom.types';
+import { Scenarios, MonteCarloResult } from '../../types/financialFreedom.types';
 import { formatCurrency, formatNumber, formatPercentageValue } from '../../utils/format';
 import { useTranslation } from 'react-i18next';
 
@@ -12,6 +12,8 @@ interface ScenarioComparisonProps {
   recommended?: 'conservative' | 'moderate' | 'aggressive';
   title?: string;
   investmentYears?: number;
+  monteCarlo?: MonteCarloResult;
+  monteCarloLoading?: boolean;
 }
 
 export const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({
@@ -20,6 +22,8 @@ export const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({
   recommended = 'moderate',
   title,
   investmentYears,
+  monteCarlo,
+  monteCarloLoading = false,
 }) => {
   const { t } = useTranslation();
   const theme = useTheme();
@@ -168,7 +172,92 @@ export const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({
           );
         })}
       </Grid>
+
+      {(monteCarlo || monteCarloLoading) && (
+        <Card sx={{ mt: 2, border: '1px solid', borderColor: theme.palette.divider, boxShadow: 1 }}>
+          <CardContent>
+            <ResponsiveTypography variant="h6" sx={{ mb: 2, fontWeight: 600 }}>
+              {t('financialFreedom.monteCarlo.title')}
+            </ResponsiveTypography>
+            {monteCarloLoading && !monteCarlo ? (
+              <LinearProgress />
+            ) : monteCarlo && (
+              <Grid container spacing={2}>
+                <Grid item xs={12} md={4}>
+                  <ResponsiveTypography variant="body2" color="text.secondary" sx={{ mb: 0.5 }}>
+                    {t('financialFreedom.monteCarlo.successProbability')}
+                  </ResponsiveTypography>
+                  <ResponsiveTypography
+                    variant="h4"
+                    sx={{ fontWeight: 700, color: getProbabilityColor(monteCarlo.successProbability, theme) }}
+                  >
+                    {formatPercentageValue(monteCarlo.successProbability)}
+                  </ResponsiveTypography>
+                  <ResponsiveTypography variant="caption" color="text.secondary">
+                    {t('financialFreedom.monteCarlo.pathsInfo', { paths: formatNumber(monteCarlo.paths, 0) })}
+                  </ResponsiveTypography>
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <ResponsiveTypography variant="body2" color="text.secondary" sx={{ mb: 0.5 }}>
+                    {t('financialFreedom.monteCarlo.finalValueRange')}
+                  </ResponsiveTypography>
+                  {[
+                    { label: t('financialFreedom.monteCarlo.p90'), value: finalBand(monteCarlo).p90 },
+                    { label: t('financialFreedom.monteCarlo.p50'), value: finalBand(monteCarlo).p50 },
+                    { label: t('financialFreedom.monteCarlo.p10'), value: finalBand(monteCarlo).p10 },
+                  ].map((row) => (
+                    <Box key={row.label} sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                      <ResponsiveTypography variant="body2" color="text.secondary">
+                        {row.label}
+                      </ResponsiveTypography>
+                      <ResponsiveTypography variant="body2" sx={{ fontWeight: 600 }}>
+                        {formatCurrency(row.value, baseCurrency)}
+                      </ResponsiveTypography>
+                    </Box>
+                  ))}
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <ResponsiveTypography variant="body2" color="text.secondary" sx={{ mb: 0.5 }}>
+                    {t('financialFreedom.monteCarlo.medianYearsToTarget')}
+                  </ResponsiveTypography>
+                  <ResponsiveTypography variant="h6" sx={{ fontWeight: 600 }}>
+                    {monteCarlo.medianYearsToTarget !== null
+                      ? `${formatNumber(monteCarlo.medianYearsToTarget, 2)} ${t('financialFreedom.scenario.years')}`
+                      : t('financialFreedom.monteCarlo.notReached')}
+                  </ResponsiveTypography>
+                  {monteCarlo.depletionProbability > 0 && (
+                    <ResponsiveTypography variant="body2" sx={{ mt: 1, color: theme.palette.error.main }}>
+                      {t('financialFreedom.monteCarlo.depletionProbability', {
+                        probability: formatPercentageValue(monteCarlo.depletionProbability),
+                      })}
+                    </ResponsiveTypography>
+                  )}
+                </Grid>
+                <Grid item xs={12}>
+                  <ResponsiveTypography variant="caption" color="text.secondary">
+                    {t('financialFreedom.monteCarlo.assumptions', {
+                      assumptions: monteCarlo.assumptions
+                        .map((item) => `${item.code} ${formatPercentageValue(item.expectedReturn)} ± ${formatPercentageValue(item.volatility)}`)
+                        .join(', '),
+                    })}
+                    {' '}
+                    {t(`financialFreedom.monteCarlo.source.${monteCarlo.correlationSource}`)}
+                  </ResponsiveTypography>
+                </Grid>
+              </Grid>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </Box>
   );
 };
 
+const finalBand = (monteCarlo: MonteCarloResult) => monteCarlo.bands[monteCarlo.bands.length - 1];
+
+const getProbabilityColor = (probability: number, theme: any) => {
+  if (probability >= 75) return theme.palette.success.main;
+  if (probability >= 50) return theme.palette.warning.main;
+  return theme.palette.error.main;
+};
+
@@ -5,11 +5,12 @@ import { ResponsiveButton } from '../Common/ResponsiveButton';
 import { ProgressChart } from './ProgressChart';
 import { ScenarioComparison } from './ScenarioComparison';
 import { AllocationChart } from './AllocationChart';
-import { PlanData, ConsolidateResponse, ConsolidateRequest, PaymentFrequency, PaymentType, RiskTolerance } from '../../types/financialFreedom.types';
+import { PlanData, ConsolidateResponse, ConsolidateRequest, MonteCarloRequest, PaymentFrequency, PaymentType, RiskTolerance } from '../../types/financialFreedom.types';
 import { useTranslation } from 'react-i18next';
 import { calculateConsolidate } from '../../utils/financialFreedomCalculation';
 import { formatCurrency } from '../../utils/format';
 import { ASSET_TYPE_TEMPLATES } from '../../config/assetTypeTemplates';
+import { useMonteCarloSimulation } from '../../hooks/useFinancialFreedomPlans';
 // import { DebugPlanData } from './DebugPlanData';
 
 interface Step3ConsolidatedOverviewProps {
@@ -95,6 +96,30 @@ export const Step3ConsolidatedOverview: React.FC<Step3ConsolidatedOverviewProps>
     t,
   ]);
 
+  // Monte Carlo simulation of the same inputs, run on the backend
+  const monteCarloRequest = useMemo<MonteCarloRequest | null>(() => {
+    const finalResult = data.step1?.finalResult;
+    const assetTypes = data.step2?.allocationSuggestion?.assetTypes;
+    if (!finalResult || !assetTypes || !finalResult.futureValueRequired) {
+      return null;
+    }
+    return {
+      suggestedAllocation: assetTypes.map((at) => ({
+        code: at.code,
+        allocation: at.allocation,
+        expectedReturn: at.expectedReturn,
+      })),
+      initialInvestment: finalResult.initialInvestment || 0,
+      periodicPayment: finalResult.periodicPayment || 0,
+      paymentFrequency: finalResult.paymentFrequency || PaymentFrequency.MONTHLY,
+      paymentType: finalResult.paymentType || PaymentType.CONTRIBUTION,
+      investmentYears: finalResult.investmentYears ?? 15,
+      futureValueRequired: finalResult.futureValueRequired,
+    };
+  }, [data.step1?.finalResult, data.step2?.allocationSuggestion]);
+
+  const { data: monteCarlo, isLoading: isMonteCarloLoading } = useMonteCarloSimulation(monteCarloRequest);
+
   // Save calculated data to state for persistence
   useEffect(() => {
     if (consolidatedData && !data.step3?.consolidationResult) {
@@ -255,6 +280,7 @@ export const Step3ConsolidatedOverview: React.FC<Step3ConsolidatedOverviewProps>
               targetValue={consolidatedData.totalFutureValueRequired || consolidatedData.totalTargetValue}
               title={t('financialFreedom.step3.yearlyProjections')}
               height={350}
+              monteCarlo={monteCarlo}
             />
           </Paper>
         </Grid>
@@ -266,6 +292,8 @@ export const Step3ConsolidatedOverview: React.FC<Step3ConsolidatedOverviewProps>
               recommended={consolidatedData.recommendedScenario || 'moderate'}
               title={t('financialFreedom.step3.scenarioComparison')}
               investmentYears={data.step1?.finalResult?.investmentYears}
+              monteCarlo={monteCarlo}
+              monteCarloLoading={isMonteCarloLoading && !!monteCarloRequest}
             />
           </Paper>
         </Grid>
@@ -34,6 +34,7 @@ import {
 import GlobalAssetForm from './GlobalAssetForm';
 import GlobalAssetList from './GlobalAssetList';
 import GlobalAssetTrackingDashboard from './GlobalAssetTrackingDashboard';
+import MarketDataProvidersDashboard from './MarketDataProvidersDashboard';
 import GlobalAssetPriceManagementModal from './GlobalAssetManagement/GlobalAssetPriceManagementModal';
 import { ResponsiveButton, ActionButton } from './Common';
 
@@ -480,6 +481,19 @@ const GlobalAssetManagement: React.FC<GlobalAssetManagementProps> = ({
                 </Box>
               } 
             />
+            <Tab 
+              label={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+                  <Box sx={{ 
+                    width: 8, 
+                    height: 8, 
+                    borderRadius: '50%', 
+                    backgroundColor: tabValue === 2 ? '#667eea' : '#6c757d' 
+                  }} />
+                  Market Data Providers
+                </Box>
+              } 
+            />
           </Tabs>
         </Box>
 
@@ -509,6 +523,12 @@ const GlobalAssetManagement: React.FC<GlobalAssetManagementProps> = ({
               <GlobalAssetTrackingDashboard />
             </Box>
           )}
+
+          {tabValue === 2 && (
+            <Box>
+              <MarketDataProvidersDashboard />
+            </Box>
+          )}
         </Box>
       </Card>
 
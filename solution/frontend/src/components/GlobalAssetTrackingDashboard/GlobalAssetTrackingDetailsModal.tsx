@@ -25,6 +25,7 @@ import {
 } from '@mui/icons-material';
 import ResponsiveTypography from '../Common/ResponsiveTypography';
 import ModalWrapper from '../Common/ModalWrapper';
+import QuarantinedPricesCard from './QuarantinedPricesCard';
 import { GlobalAssetTracking, ApiCallDetail } from '../../services/api.global-asset-tracking';
 
 interface GlobalAssetTrackingDetailsModalProps {
@@ -254,6 +255,9 @@ export default function GlobalAssetTrackingDetailsModal({
                     </Grid>
                   )}
 
+                  {/* Prices held back by the quality checks */}
+                  <QuarantinedPricesCard executionId={selectedRecord.executionId} />
+
                   {/* Error Information */}
                   {selectedRecord.errorMessage && (
                     <Grid item xs={12} sm={6} md={6}>
@@ -0,0 +1,126 @@
+import {
+  Card,
+  Grid,
+  Box,
+  Chip,
+  Button,
+  Tooltip,
+} from '@mui/material';
+import ResponsiveTypography from '../Common/ResponsiveTypography';
+import { formatNumber } from '../../utils/format';
+import {
+  useQuarantinedPrices,
+  useApproveQuarantinedPrice,
+  useRejectQuarantinedPrice,
+} from '../../hooks/usePriceQuarantine';
+import { QuarantinedPrice, QuarantinedPriceStatus } from '../../types/price-quarantine.types';
+
+interface QuarantinedPricesCardProps {
+  executionId: string;
+}
+
+const STATUS_COLORS: Record<QuarantinedPriceStatus, 'warning' | 'success' | 'default'> = {
+  PENDING: 'warning',
+  APPROVED: 'success',
+  REJECTED: 'default',
+  SUPERSEDED: 'default',
+};
+
+const ISSUE_LABELS: Record<string, string> = {
+  PRICE_JUMP: 'Price jump',
+  PRICE_LIMIT: 'Outside daily limit',
+  STALE_PRICE: 'Stale',
+  SOURCE_DISAGREEMENT: 'Sources disagree',
+};
+
+const formatPrice = (value: number | null) => (value === null ? '-' : formatNumber(value, value < 10 ? 4 : 0));
+
+/**
+ * Grid cell listing the prices of a sync held back by the quality checks, with approve/reject actions for the pending ones
+ */
+export default function QuarantinedPricesCard({ executionId }: QuarantinedPricesCardProps) {
+  const { data } = useQuarantinedPrices({ executionId, limit: 200 });
+  const approveMutation = useApproveQuarantinedPrice();
+  const rejectMutation = useRejectQuarantinedPrice();
+  const reviewing = approveMutation.isLoading || rejectMutation.isLoading;
+
+  // Like the failed symbols card, nothing is shown for a sync without quarantined prices
+  const records = data?.data || [];
+  if (records.length === 0) {
+    return null;
+  }
+
+  const renderRecord = (record: QuarantinedPrice) => (
+    <Box
+      key={record.id}
+      sx={{ py: 0.5, borderBottom: '1px solid', borderColor: 'divider', '&:last-child': { borderBottom: 'none' } }}
+    >
+      <Box display="flex" alignItems="center" gap={0.5} flexWrap="wrap">
+        <ResponsiveTypography variant="body2" fontWeight="bold">
+          {record.symbol}
+        </ResponsiveTypography>
+        <ResponsiveTypography variant="caption" color="text.secondary">
+          {formatPrice(record.price)} vs last {formatPrice(record.lastPrice)} / prev close {formatPrice(record.previousClose)} ({record.source})
+        </ResponsiveTypography>
+        <Chip
+          label={record.status}
+          color={STATUS_COLORS[record.status]}
+          size="small"
+          sx={{ fontSize: '0.6rem', height: '16px', ml: 'auto' }}
+        />
+      </Box>
+      <Box display="flex" alignItems="center" gap={0.3} flexWrap="wrap" sx={{ mt: 0.3 }}>
+        {record.issues.map((issue) => (
+          <Tooltip key={issue.code} title={issue.message}>
+            <Chip
+              label={ISSUE_LABELS[issue.code] || issue.code}
+              color="warning"
+              variant="outlined"
+              size="small"
+              sx={{ fontSize: '0.65rem', height: '18px' }}
+            />
+          </Tooltip>
+        ))}
+        {record.status === 'PENDING' ? (
+          <Box sx={{ ml: 'auto' }} display="flex" gap={0.5}>
+            <Button
+              size="small"
+              color="success"
+              disabled={reviewing}
+              onClick={() => approveMutation.mutate({ id: record.id })}
+              sx={{ minWidth: 0, py: 0, fontSize: '0.65rem' }}
+            >
+              Approve
+            </Button>
+            <Button
+              size="small"
+              color="error"
+              disabled={reviewing}
+              onClick={() => rejectMutation.mutate({ id: record.id })}
+              sx={{ minWidth: 0, py: 0, fontSize: '0.65rem' }}
+            >
+              Reject
+            </Button>
+          </Box>
+        ) : record.reviewedBy && (
+          <ResponsiveTypography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
+            by {record.reviewedBy}
+          </ResponsiveTypography>
+        )}
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Grid item xs={12} sm={6} md={6}>
+      <Card variant="outlined" sx={{ p: 1, borderColor: 'warning.main', height: '100%' }}>
+        <ResponsiveTypography variant="subtitle2" color="warning.main" gutterBottom>
+          Quarantined Prices ({records.length})
+        </ResponsiveTypography>
+        <Box sx={{ maxHeight: '160px', overflow: 'auto' }}>
+          {records.map(renderRecord)}
+        </Box>
+      </Card>
+    </Grid>
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * Candlestick Chart
+ * Daily OHLCV bars as candles with a volume histogram along the bottom
+ */
+
+import React, { useMemo } from 'react';
+import { Box, useTheme } from '@mui/material';
+import {
+  ComposedChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts';
+import { ResponsiveTypography } from '../Common';
+import { formatNumber } from '../../utils/format';
+import { DailyBar } from '../../services/historicalPrices.service';
+
+interface CandlestickChartProps {
+  bars: DailyBar[];
+  height?: number;
+}
+
+interface CandleDatum extends DailyBar {
+  range: [number, number];
+  rising: boolean;
+}
+
+// Share of the plot height the volume bars may use
+const VOLUME_HEIGHT_RATIO = 0.25;
+
+const priceDecimals = (value: number): number => {
+  if (value >= 1000) return 0;
+  if (value >= 1) return 2;
+  return 8;
+};
+
+/**
+ * Draws one candle inside the [low, high] band recharts laid out for the bar
+ */
+const Candle: React.FC<any> = ({ x, y, width, height, payload, risingColor, fallingColor }) => {
+  const { open, close, high, low, rising } = payload as CandleDatum;
+  const color = rising ? risingColor : fallingColor;
+  const center = x + width / 2;
+  const pixelsPerUnit = high > low ? height / (high - low) : 0;
+  const yOf = (value: number) => y + (high - value) * pixelsPerUnit;
+  const bodyTop = yOf(Math.max(open, close));
+  const bodyHeight = Math.max(Math.abs(yOf(open) - yOf(close)), 1);
+  const bodyWidth = Math.max(width * 0.7, 1);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + Math.max(height, 1)} stroke={color} strokeWidth={1} />
+      <rect
+        x={center - bodyWidth / 2}
+        y={bodyTop}
+        width={bodyWidth}
+        height={bodyHeight}
+        fill={rising ? 'transparent' : color}
+        stroke={color}
+        strokeWidth={1}
+      />
+    </g>
+  );
+};
+
+const CandleTooltip: React.FC<any> = ({ active, payload }) => {
+  if (!active || !payload?.length) {
+    return null;
+  }
+  const bar = payload[0].payload as CandleDatum;
+  const decimals = priceDecimals(bar.close);
+
+  return (
+    <Box sx={{ bgcolor: 'background.paper', border: 1, borderColor: 'divider', borderRadius: 1, p: 1 }}>
+      <ResponsiveTypography variant="body2" sx={{ fontWeight: 600 }}>{bar.barDate}</ResponsiveTypography>
+      <ResponsiveTypography variant="caption" component="div">Mở: {formatNumber(bar.open, decimals)}</ResponsiveTypography>
+      <ResponsiveTypography variant="caption" component="div">Cao: {formatNumber(bar.high, decimals)}</ResponsiveTypography>
+      <ResponsiveTypography variant="caption" component="div">Thấp: {formatNumber(bar.low, decimals)}</ResponsiveTypography>
+      <ResponsiveTypography variant="caption" component="div">Đóng: {formatNumber(bar.close, decimals)}</ResponsiveTypography>
+      <ResponsiveTypography variant="caption" component="div">Khối lượng: {formatNumber(bar.volume, 0)}</ResponsiveTypography>
+      <ResponsiveTypography variant="caption" component="div" color="text.secondary">Nguồn: {bar.source}</ResponsiveTypography>
+    </Box>
+  );
+};
+
+const CandlestickChart: React.FC<CandlestickChartProps> = ({ bars, height = 400 }) => {
+  const theme = useTheme();
+  const risingColor = theme.palette.success.main;
+  const fallingColor = theme.palette.error.main;
+
+  const data = useMemo<CandleDatum[]>(
+    () => bars.map(bar => ({ ...bar, range: [bar.low, bar.high], rising: bar.close >= bar.open })),
+    [bars]
+  );
+
+  const priceDomain = useMemo(() => {
+    if (data.length === 0) return [0, 1];
+    const low = Math.min(...data.map(bar => bar.low));
+    const high = Math.max(...data.map(bar => bar.high));
+    const padding = (high - low || high * 0.01) * 0.05;
+    return [Math.max(low - padding, 0), high + padding];
+  }, [data]);
+
+  // Stretch the volume axis so the tallest bar only reaches the bottom quarter of the plot
+  const maxVolume = useMemo(() => Math.max(0, ...data.map(bar => bar.volume)), [data]);
+  const hasVolume = maxVolume > 0;
+
+  if (data.length === 0) {
+    return (
+      <Box sx={{ height, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <ResponsiveTypography variant="body2" color="text.secondary">
+          Chưa có dữ liệu nến ngày
+        </ResponsiveTypography>
+      </Box>
+    );
+  }
+
+  const decimals = priceDecimals(priceDomain[1]);
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      {/* A gap of -100% lays the candle over the volume bar of the same day instead of beside it */}
+      <ComposedChart data={data} margin={{ top: 10, right: 10, left: 10, bottom: 0 }} barCategoryGap="20%" barGap="-100%">
+        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+        <XAxis dataKey="barDate" tick={{ fontSize: 11 }} minTickGap={24} />
+        <YAxis
+          yAxisId="price"
+          domain={priceDomain}
+          tick={{ fontSize: 11 }}
+          tickFormatter={(value: number) => formatNumber(value, decimals)}
+          width={80}
+        />
+        <YAxis yAxisId="volume" orientation="right" domain={[0, maxVolume / VOLUME_HEIGHT_RATIO || 1]} hide />
+        <Tooltip content={<CandleTooltip />} />
+        {hasVolume && (
+          <Bar yAxisId="volume" dataKey="volume" isAnimationActive={false}>
+            {data.map(bar => (
+              <Cell key={bar.barDate} fill={bar.rising ? risingColor : fallingColor} fillOpacity={0.3} />
+            ))}
+          </Bar>
+        )}
+        <Bar
+          yAxisId="price"
+          dataKey="range"
+          isAnimationActive={false}
+          shape={<Candle risingColor={risingColor} fallingColor={fallingColor} />}
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default CandlestickChart;
@@ -0,0 +1,164 @@
+/**
+ * Daily Bars Dialog
+ * Candlestick chart of a symbol's daily bars, with the missing trading days and a backfill action
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Stack,
+  Alert,
+  Chip,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import {
+  CandlestickChart as CandlestickChartIcon,
+  CloudDownload as CloudDownloadIcon,
+} from '@mui/icons-material';
+import { format, subMonths } from 'date-fns';
+import { ResponsiveTypography, ResponsiveButton } from '../Common';
+import CandlestickChart from './CandlestickChart';
+import { useBackfillDailyBars, useDailyBarGaps, useDailyBars } from '../../hooks/useHistoricalPrices';
+
+interface DailyBarsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  symbol?: string;
+}
+
+const PERIODS = [
+  { value: 3, label: '3T' },
+  { value: 6, label: '6T' },
+  { value: 12, label: '1N' },
+  { value: 36, label: '3N' },
+];
+
+// Gap ranges listed before the rest are summarised
+const MAX_LISTED_RANGES = 8;
+
+const DailyBarsDialog: React.FC<DailyBarsDialogProps> = ({ open, onClose, symbol }) => {
+  const [months, setMonths] = useState(6);
+
+  const range = useMemo(() => {
+    const end = new Date();
+    return {
+      startDate: format(subMonths(end, months), 'yyyy-MM-dd'),
+      endDate: format(end, 'yyyy-MM-dd'),
+    };
+  }, [months]);
+
+  const activeSymbol = open ? symbol : undefined;
+  const { data: bars = [], isLoading, error } = useDailyBars(activeSymbol, range);
+  const { data: gaps } = useDailyBarGaps(activeSymbol, { startDate: range.startDate });
+  const backfill = useBackfillDailyBars();
+
+  const handleBackfill = () => {
+    if (symbol) {
+      backfill.mutate({ symbol, params: { startDate: range.startDate } });
+    }
+  };
+
+  const handleClose = () => {
+    backfill.reset();
+    onClose();
+  };
+
+  const missingCount = gaps?.missingDates.length ?? 0;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <CandlestickChartIcon color="primary" />
+            <ResponsiveTypography variant="cardTitle">Nến ngày {symbol}</ResponsiveTypography>
+          </Box>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={months}
+            onChange={(_event, value) => value && setMonths(value)}
+          >
+            {PERIODS.map(period => (
+              <ToggleButton key={period.value} value={period.value}>
+                {period.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          {error ? (
+            <Alert severity="error">Không tải được dữ liệu nến ngày: {(error as Error).message}</Alert>
+          ) : isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <CandlestickChart bars={bars} height={420} />
+          )}
+
+          {gaps && (
+            missingCount === 0 ? (
+              <Alert severity="success">
+                Không thiếu ngày giao dịch nào từ {gaps.startDate} đến {gaps.endDate}.
+              </Alert>
+            ) : (
+              <Alert severity="warning">
+                <ResponsiveTypography variant="body2" gutterBottom>
+                  Thiếu {missingCount} ngày giao dịch từ {gaps.startDate} đến {gaps.endDate}:
+                </ResponsiveTypography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                  {gaps.ranges.slice(0, MAX_LISTED_RANGES).map(gap => (
+                    <Chip
+                      key={gap.startDate}
+                      size="small"
+                      variant="outlined"
+                      label={gap.startDate === gap.endDate ? gap.startDate : `${gap.startDate} → ${gap.endDate} (${gap.days})`}
+                    />
+                  ))}
+                  {gaps.ranges.length > MAX_LISTED_RANGES && (
+                    <Chip size="small" label={`+${gaps.ranges.length - MAX_LISTED_RANGES} khoảng`} />
+                  )}
+                </Box>
+              </Alert>
+            )
+          )}
+
+          {backfill.data && (
+            <Alert severity={backfill.data.remaining.missingDates.length === 0 ? 'success' : 'info'}>
+              Đã bổ sung {backfill.data.before.missingDates.length - backfill.data.remaining.missingDates.length} ngày.
+              {backfill.data.remaining.missingDates.length > 0 &&
+                ` Nguồn dữ liệu không có ${backfill.data.remaining.missingDates.length} ngày còn lại.`}
+            </Alert>
+          )}
+          {backfill.isError && (
+            <Alert severity="error">Bổ sung thất bại: {(backfill.error as Error)?.message}</Alert>
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <ResponsiveButton
+          variant="outlined"
+          icon={backfill.isLoading ? <CircularProgress size={16} /> : <CloudDownloadIcon />}
+          onClick={handleBackfill}
+          disabled={!symbol || missingCount === 0 || backfill.isLoading}
+        >
+          Bổ sung ngày thiếu
+        </ResponsiveButton>
+        <ResponsiveButton onClick={handleClose}>Đóng</ResponsiveButton>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DailyBarsDialog;
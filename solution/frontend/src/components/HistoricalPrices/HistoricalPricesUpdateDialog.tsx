@@ -22,6 +22,8 @@ import {
   InputLabel,
   Select,
   MenuItem,
+  IconButton,
+  Tooltip,
 } from '@mui/material';
 import { ResponsiveTypography, ResponsiveButton } from '../Common';
 import {
@@ -37,6 +39,7 @@ import {
   ArrowBack as ArrowBackIcon,
   ArrowForward as ArrowForwardIcon,
   Refresh as RefreshIcon,
+  CandlestickChart as CandlestickChartIcon,
 } from '@mui/icons-material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
@@ -45,6 +48,7 @@ import { vi } from 'date-fns/locale';
 import { useAllGlobalAssets } from '../../hooks/useGlobalAssets';
 import { useHistoricalPrices } from '../../hooks/useHistoricalPrices';
 import { formatCurrency } from '../../utils/format';
+import DailyBarsDialog from './DailyBarsDialog';
 
 interface GlobalAsset {
   id: string;
@@ -86,6 +90,7 @@ const HistoricalPricesUpdateDialog: React.FC<HistoricalPricesUpdateDialogProps>
   // Step management
   const [step, setStep] = useState<'date' | 'assets' | 'confirm' | 'result'>('date');
   const [updateResult, setUpdateResult] = useState<any>(null);
+  const [chartSymbol, setChartSymbol] = useState<string | null>(null);
 
   // Hooks
   const {
@@ -647,6 +652,11 @@ const HistoricalPricesUpdateDialog: React.FC<HistoricalPricesUpdateDialogProps>
                                   {symbol.dateRange.start} - {symbol.dateRange.end}
                                 </ResponsiveTypography>
                               )}
+                              <Tooltip title="Xem nến ngày">
+                                <IconButton size="small" onClick={() => setChartSymbol(symbol.symbol)}>
+                                  <CandlestickChartIcon fontSize="small" />
+                                </IconButton>
+                              </Tooltip>
                             </Box>
                           </Box>
                         ))}
@@ -827,6 +837,12 @@ const HistoricalPricesUpdateDialog: React.FC<HistoricalPricesUpdateDialogProps>
           )}
         </DialogActions>
       </Dialog>
+
+      <DailyBarsDialog
+        open={!!chartSymbol}
+        onClose={() => setChartSymbol(null)}
+        symbol={chartSymbol || undefined}
+      />
     </LocalizationProvider>
   );
 };
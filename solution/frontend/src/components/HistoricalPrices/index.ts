@@ -5,3 +5,5 @@
 
 export { default as HistoricalPricesUpdateDialog } from './HistoricalPricesUpdateDialog';
 export { default as HistoricalPricesButton } from './HistoricalPricesButton';
+export { default as DailyBarsDialog } from './DailyBarsDialog';
+export { default as CandlestickChart } from './CandlestickChart';
@@ -0,0 +1,208 @@
+/**
+ * Capital Account Ledger
+ * Unit ledger of a fund holding over a date range, with FIFO realized P&L and CSV/PDF export
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardContent,
+  Grid,
+  Alert,
+  Button,
+  TextField,
+  CircularProgress,
+} from '@mui/material';
+import {
+  TableChart as CsvIcon,
+  PictureAsPdf as PdfIcon,
+} from '@mui/icons-material';
+import { toast } from 'react-hot-toast';
+import { useAccount } from '../../contexts/AccountContext';
+import { useCapitalAccount } from '../../hooks/useCapitalAccount';
+import { capitalAccountApi } from '../../services/api.capital-account';
+import { CapitalAccountEntry, CapitalAccountFormat } from '../../types/capital-account.types';
+import { formatCurrency, formatDate, formatNumberWithSeparators, formatPercentageValue } from '../../utils/format';
+import ResponsiveTypography from '../Common/ResponsiveTypography';
+import ResponsiveTable from '../Common/ResponsiveTable';
+
+interface CapitalAccountLedgerProps {
+  holdingId: string;
+}
+
+export const CapitalAccountLedger: React.FC<CapitalAccountLedgerProps> = ({ holdingId }) => {
+  const { t } = useTranslation();
+  const { accountId } = useAccount();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [downloading, setDownloading] = useState<CapitalAccountFormat | null>(null);
+  const { data: ledger, isLoading, error } = useCapitalAccount(holdingId, accountId, from || undefined, to || undefined);
+  const currency = ledger?.baseCurrency || 'VND';
+
+  const handleDownload = async (format: CapitalAccountFormat) => {
+    setDownloading(format);
+    try {
+      const blob = await capitalAccountApi.downloadLedger(holdingId, format, accountId, from || undefined, to || undefined);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `capital-account-${ledger?.from || from}-${ledger?.to || to}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(t('holdings.capitalAccount.downloadFailed'));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const figures = ledger ? [
+    { label: t('holdings.capitalAccount.openingValue'), value: formatCurrency(ledger.opening.value, currency) },
+    { label: t('holdings.capitalAccount.subscriptions'), value: formatCurrency(ledger.summary.subscriptions, currency) },
+    { label: t('holdings.capitalAccount.redemptions'), value: formatCurrency(ledger.summary.redemptions, currency) },
+    { label: t('holdings.capitalAccount.closingValue'), value: formatCurrency(ledger.closing.value, currency) },
+    { label: t('holdings.capitalAccount.realizedPnl'), value: formatCurrency(ledger.summary.realizedPnl, currency) },
+    { label: t('holdings.capitalAccount.unrealizedPnl'), value: formatCurrency(ledger.summary.unrealizedPnl, currency) },
+    { label: t('holdings.capitalAccount.investmentResult'), value: formatCurrency(ledger.summary.investmentResult, currency) },
+    { label: t('holdings.capitalAccount.periodReturn'), value: formatPercentageValue(ledger.summary.periodReturn, 2) },
+  ] : [];
+
+  return (
+    <Card sx={{ mt: 3, background: 'white', border: '1px solid #e9ecef', boxShadow: '0 2px 8px rgba(0,0,0,0.1)' }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+          <Box>
+            <ResponsiveTypography variant="cardTitle" sx={{ fontWeight: 600 }}>
+              {t('holdings.capitalAccount.title')}
+            </ResponsiveTypography>
+            <ResponsiveTypography variant="formHelper" color="text.secondary">
+              {ledger
+                ? t('holdings.capitalAccount.period', {
+                  from: formatDate(ledger.from, 'dd/MM/yyyy'),
+                  to: formatDate(ledger.to, 'dd/MM/yyyy'),
+                })
+                : t('holdings.capitalAccount.description')}
+            </ResponsiveTypography>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+            <TextField
+              size="small"
+              type="date"
+              label={t('holdings.capitalAccount.from')}
+              value={from}
+              onChange={(event) => setFrom(event.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              size="small"
+              type="date"
+              label={t('holdings.capitalAccount.to')}
+              value={to}
+              onChange={(event) => setTo(event.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={downloading === 'csv' ? <CircularProgress size={16} /> : <CsvIcon />}
+              disabled={!ledger || !!downloading}
+              onClick={() => handleDownload('csv')}
+            >
+              CSV
+            </Button>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={downloading === 'pdf' ? <CircularProgress size={16} /> : <PdfIcon />}
+              disabled={!ledger || !!downloading}
+              onClick={() => handleDownload('pdf')}
+            >
+              PDF
+            </Button>
+          </Box>
+        </Box>
+
+        {isLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {!!error && <Alert severity="error" sx={{ mb: 2 }}>{t('holdings.capitalAccount.loadFailed')}</Alert>}
+
+        {ledger && (
+          <>
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              {figures.map(figure => (
+                <Grid item xs={6} md={3} key={figure.label}>
+                  <ResponsiveTypography variant="labelSmall" color="text.secondary">{figure.label}</ResponsiveTypography>
+                  <ResponsiveTypography variant="cardValue">{figure.value}</ResponsiveTypography>
+                </Grid>
+              ))}
+            </Grid>
+
+            <ResponsiveTable
+              data={ledger.entries}
+              getRowKey={(row: CapitalAccountEntry) => row.transactionId}
+              emptyMessage={t('holdings.capitalAccount.noEntries')}
+              columns={[
+                {
+                  key: 'date',
+                  header: t('holdings.capitalAccount.columns.date'),
+                  render: (row: CapitalAccountEntry) => formatDate(row.date, 'dd/MM/yyyy'),
+                },
+                {
+                  key: 'type',
+                  header: t('holdings.capitalAccount.columns.type'),
+                  render: (row: CapitalAccountEntry) => t(`holdings.capitalAccount.types.${row.type}`),
+                },
+                {
+                  key: 'units',
+                  header: t('holdings.capitalAccount.columns.units'),
+                  align: 'right',
+                  render: (row: CapitalAccountEntry) => formatNumberWithSeparators(row.units, 3),
+                },
+                {
+                  key: 'navPerUnit',
+                  header: t('holdings.capitalAccount.columns.navPerUnit'),
+                  align: 'right',
+                  render: (row: CapitalAccountEntry) => formatCurrency(row.navPerUnit, currency),
+                },
+                {
+                  key: 'amount',
+                  header: t('holdings.capitalAccount.columns.amount'),
+                  align: 'right',
+                  render: (row: CapitalAccountEntry) => formatCurrency(row.amount, currency),
+                },
+                {
+                  key: 'runningUnits',
+                  header: t('holdings.capitalAccount.columns.runningUnits'),
+                  align: 'right',
+                  render: (row: CapitalAccountEntry) => formatNumberWithSeparators(row.runningUnits, 3),
+                },
+                {
+                  key: 'runningCostBasis',
+                  header: t('holdings.capitalAccount.columns.runningCostBasis'),
+                  align: 'right',
+                  render: (row: CapitalAccountEntry) => formatCurrency(row.runningCostBasis, currency),
+                },
+                {
+                  key: 'realizedPnl',
+                  header: t('holdings.capitalAccount.columns.realizedPnl'),
+                  align: 'right',
+                  render: (row: CapitalAccountEntry) => (row.realizedPnl === null ? '-' : formatCurrency(row.realizedPnl, currency)),
+                },
+              ]}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CapitalAccountLedger;
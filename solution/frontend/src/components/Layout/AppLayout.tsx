@@ -43,6 +43,8 @@ import {
   ChevronRight as ChevronRightIcon,
   Help as HelpIcon,
   Flag as GoalsIcon,
+  NotificationsActive as AlertsIcon,
+  Visibility as WatchlistsIcon,
   TrendingUp as PlansIcon,
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
@@ -159,6 +161,20 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
           description: t('navigation.investor.goals'),
           badge: null
         },
+        {
+          text: t('navigation.investor.alerts'),
+          icon: <AlertsIcon />,
+          path: '/alerts',
+          description: t('navigation.investor.alerts'),
+          badge: null
+        },
+        {
+          text: t('navigation.investor.watchlists'),
+          icon: <WatchlistsIcon />,
+          path: '/watchlists',
+          description: t('navigation.investor.watchlists'),
+          badge: null
+        },
         {
           text: t('financialFreedom.title'),
           icon: <PlansIcon />,
@@ -0,0 +1,461 @@
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  Refresh as RefreshIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import ResponsiveTypography from './Common/ResponsiveTypography';
+import {
+  useMarketDataProviderHealth,
+  useProviderPreferences,
+  useUpsertProviderPreference,
+  useDeleteProviderPreference,
+} from '../hooks/useMarketDataProviders';
+import { MarketDataProviderHealth, ProviderPreference } from '../types/market-data-provider.types';
+import { formatDateTime } from '../utils/format';
+
+const WINDOW_OPTIONS = [
+  { value: 24, label: 'Last 24 hours' },
+  { value: 72, label: 'Last 3 days' },
+  { value: 168, label: 'Last 7 days' },
+];
+
+const NO_SECONDARY = '';
+
+const circuitColor = (state: string): 'success' | 'error' | 'warning' =>
+  state === 'OPEN' ? 'error' : state === 'HALF_OPEN' ? 'warning' : 'success';
+
+const rateColor = (rate: number, calls: number): 'success' | 'warning' | 'error' | 'default' => {
+  if (calls === 0) return 'default';
+  if (rate >= 95) return 'success';
+  if (rate >= 80) return 'warning';
+  return 'error';
+};
+
+interface ProviderOrderSelectProps {
+  providers: MarketDataProviderHealth[];
+  primary: string;
+  secondary: string;
+  onChange: (primary: string, secondary: string) => void;
+}
+
+function ProviderOrderSelect({ providers, primary, secondary, onChange }: ProviderOrderSelectProps) {
+  return (
+    <Stack direction="row" spacing={1}>
+      <FormControl size="small" sx={{ minWidth: 160 }}>
+        <InputLabel>Primary</InputLabel>
+        <Select
+          label="Primary"
+          value={primary}
+          onChange={(e) => onChange(e.target.value, secondary === e.target.value ? NO_SECONDARY : secondary)}
+        >
+          {providers.map((provider) => (
+            <MenuItem key={provider.code} value={provider.code}>{provider.name}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <FormControl size="small" sx={{ minWidth: 160 }}>
+        <InputLabel>Secondary</InputLabel>
+        <Select label="Secondary" value={secondary} onChange={(e) => onChange(primary, e.target.value)}>
+          <MenuItem value={NO_SECONDARY}>Default order</MenuItem>
+          {providers.filter((provider) => provider.code !== primary).map((provider) => (
+            <MenuItem key={provider.code} value={provider.code}>{provider.name}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    </Stack>
+  );
+}
+
+export default function MarketDataProvidersDashboard() {
+  const [windowHours, setWindowHours] = useState(24);
+  const [typeDrafts, setTypeDrafts] = useState<Record<string, { primary: string; secondary: string }>>({});
+  const [overrideDraft, setOverrideDraft] = useState({ symbol: '', primary: '', secondary: NO_SECONDARY });
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: health, isLoading, refetch, isFetching } = useMarketDataProviderHealth(windowHours);
+  const { data: preferences = [] } = useProviderPreferences();
+  const upsertPreference = useUpsertProviderPreference();
+  const deletePreference = useDeleteProviderPreference();
+
+  const providers = health?.providers || [];
+
+  // Every asset type served by at least one provider, with the providers able to serve it
+  const assetTypes = useMemo(() => {
+    const types = new Map<string, MarketDataProviderHealth[]>();
+    providers.forEach((provider) => {
+      provider.assetTypes.forEach((type) => types.set(type, [...(types.get(type) || []), provider]));
+    });
+    return [...types.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [providers]);
+
+  const typePreferences = useMemo(() => {
+    const map = new Map<string, ProviderPreference>();
+    preferences.filter((item) => item.assetType && !item.globalAssetId).forEach((item) => map.set(item.assetType!, item));
+    return map;
+  }, [preferences]);
+
+  const assetOverrides = preferences.filter((item) => item.globalAssetId);
+
+  const currentOrder = (type: string, typeProviders: MarketDataProviderHealth[]) => {
+    const draft = typeDrafts[type];
+    if (draft) return draft;
+    const codes = typePreferences.get(type)?.providerCodes || [];
+    const byPriority = [...typeProviders].sort((a, b) => a.defaultPriority - b.defaultPriority || a.code.localeCompare(b.code));
+    return { primary: codes[0] || byPriority[0]?.code || '', secondary: codes[1] || NO_SECONDARY };
+  };
+
+  const handleError = (err: any) => {
+    setError(err?.response?.data?.message || err?.message || 'Request failed');
+  };
+
+  const saveTypeOrder = async (type: string, primary: string, secondary: string) => {
+    setError(null);
+    try {
+      await upsertPreference.mutateAsync({
+        assetType: type,
+        providerCodes: secondary ? [primary, secondary] : [primary],
+      });
+      setTypeDrafts((drafts) => {
+        const { [type]: _, ...rest } = drafts;
+        return rest;
+      });
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const resetTypeOrder = async (type: string) => {
+    const preference = typePreferences.get(type);
+    setTypeDrafts((drafts) => {
+      const { [type]: _, ...rest } = drafts;
+      return rest;
+    });
+    if (!preference) return;
+    setError(null);
+    try {
+      await deletePreference.mutateAsync(preference.id);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const addOverride = async () => {
+    setError(null);
+    try {
+      await upsertPreference.mutateAsync({
+        symbol: overrideDraft.symbol.trim().toUpperCase(),
+        providerCodes: overrideDraft.secondary
+          ? [overrideDraft.primary, overrideDraft.secondary]
+          : [overrideDraft.primary],
+      });
+      setOverrideDraft({ symbol: '', primary: '', secondary: NO_SECONDARY });
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const removeOverride = async (id: string) => {
+    setError(null);
+    try {
+      await deletePreference.mutateAsync(id);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Provider health */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2, flexWrap: 'wrap' }}>
+            <Box>
+              <ResponsiveTypography variant="cardTitle">Provider Health</ResponsiveTypography>
+              <ResponsiveTypography variant="body2" color="text.secondary">
+                Calls, circuit breaker state and prices served by each market data provider
+              </ResponsiveTypography>
+            </Box>
+            <Stack direction="row" spacing={1} alignItems="center">
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel>Window</InputLabel>
+                <Select label="Window" value={windowHours} onChange={(e) => setWindowHours(Number(e.target.value))}>
+                  {WINDOW_OPTIONS.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Tooltip title="Refresh">
+                <span>
+                  <IconButton onClick={() => refetch()} disabled={isFetching}>
+                    <RefreshIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Stack>
+          </Box>
+
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Provider</TableCell>
+                  <TableCell>Asset Types</TableCell>
+                  <TableCell align="center">Circuit</TableCell>
+                  <TableCell align="right">Calls</TableCell>
+                  <TableCell align="right">Success Rate</TableCell>
+                  <TableCell align="right">Avg Response</TableCell>
+                  <TableCell>Last Success</TableCell>
+                  <TableCell>Last Failure</TableCell>
+                  <TableCell align="right">Prices Served</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {providers.map((provider) => (
+                  <TableRow key={provider.code} hover>
+                    <TableCell>
+                      <ResponsiveTypography variant="tableCell" sx={{ fontWeight: 600 }}>{provider.name}</ResponsiveTypography>
+                      <ResponsiveTypography variant="caption" color="text.secondary">
+                        {provider.code} · priority {provider.defaultPriority}
+                      </ResponsiveTypography>
+                    </TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                        {provider.assetTypes.map((type) => (
+                          <Chip key={type} label={type} size="small" variant="outlined" />
+                        ))}
+                      </Stack>
+                    </TableCell>
+                    <TableCell align="center">
+                      <Chip label={provider.circuitState} size="small" color={circuitColor(provider.circuitState)} />
+                    </TableCell>
+                    <TableCell align="right">
+                      {provider.totalCalls}
+                      {provider.failedCalls > 0 && (
+                        <ResponsiveTypography variant="caption" color="error.main" sx={{ display: 'block' }}>
+                          {provider.failedCalls} failed
+                        </ResponsiveTypography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Chip
+                        label={provider.totalCalls > 0 ? `${provider.successRate.toFixed(1)}%` : 'N/A'}
+                        size="small"
+                        color={rateColor(provider.successRate, provider.totalCalls)}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      {provider.totalCalls > 0 ? `${provider.averageResponseTime} ms` : '-'}
+                    </TableCell>
+                    <TableCell>{provider.lastSuccessAt ? formatDateTime(provider.lastSuccessAt) : '-'}</TableCell>
+                    <TableCell>
+                      {provider.lastFailureAt ? (
+                        <Tooltip title={provider.lastError || ''}>
+                          <span>{formatDateTime(provider.lastFailureAt)}</span>
+                        </Tooltip>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell align="right">
+                      {provider.pricesServed}
+                      {provider.fallbackPrices > 0 && (
+                        <ResponsiveTypography variant="caption" color="warning.main" sx={{ display: 'block' }}>
+                          {provider.fallbackPrices} as fallback
+                        </ResponsiveTypography>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </CardContent>
+      </Card>
+
+      {/* Routing per asset type */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <ResponsiveTypography variant="cardTitle">Routing by Asset Type</ResponsiveTypography>
+          <ResponsiveTypography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            The primary provider prices the asset type; the secondary takes over while the primary's circuit is open
+            or it has no quote for a symbol
+          </ResponsiveTypography>
+
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Asset Type</TableCell>
+                  <TableCell>Provider Order</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {assetTypes.map(([type, typeProviders]) => {
+                  const order = currentOrder(type, typeProviders);
+                  const preference = typePreferences.get(type);
+                  return (
+                    <TableRow key={type} hover>
+                      <TableCell>
+                        <Chip label={type} size="small" />
+                        {!preference && (
+                          <ResponsiveTypography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+                            Default priority
+                          </ResponsiveTypography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <ProviderOrderSelect
+                          providers={typeProviders}
+                          primary={order.primary}
+                          secondary={order.secondary}
+                          onChange={(primary, secondary) =>
+                            setTypeDrafts((drafts) => ({ ...drafts, [type]: { primary, secondary } }))
+                          }
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Stack direction="row" spacing={1} justifyContent="flex-end">
+                          <Button
+                            size="small"
+                            variant="contained"
+                            startIcon={<SaveIcon />}
+                            disabled={!typeDrafts[type] || upsertPreference.isLoading}
+                            onClick={() => saveTypeOrder(type, order.primary, order.secondary)}
+                          >
+                            Save
+                          </Button>
+                          <Button
+                            size="small"
+                            disabled={(!preference && !typeDrafts[type]) || deletePreference.isLoading}
+                            onClick={() => resetTypeOrder(type)}
+                          >
+                            Reset
+                          </Button>
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </CardContent>
+      </Card>
+
+      {/* Per-asset overrides */}
+      <Card>
+        <CardContent>
+          <ResponsiveTypography variant="cardTitle">Asset Overrides</ResponsiveTypography>
+          <ResponsiveTypography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Route a single global asset to different providers than its asset type
+          </ResponsiveTypography>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={1} sx={{ mb: 2 }}>
+            <TextField
+              size="small"
+              label="Symbol"
+              value={overrideDraft.symbol}
+              onChange={(e) => setOverrideDraft((draft) => ({ ...draft, symbol: e.target.value }))}
+            />
+            <ProviderOrderSelect
+              providers={providers}
+              primary={overrideDraft.primary}
+              secondary={overrideDraft.secondary}
+              onChange={(primary, secondary) => setOverrideDraft((draft) => ({ ...draft, primary, secondary }))}
+            />
+            <Button
+              variant="contained"
+              disabled={!overrideDraft.symbol.trim() || !overrideDraft.primary || upsertPreference.isLoading}
+              onClick={addOverride}
+            >
+              Add Override
+            </Button>
+          </Stack>
+
+          {assetOverrides.length === 0 ? (
+            <ResponsiveTypography variant="body2" color="text.secondary">
+              No asset overrides
+            </ResponsiveTypography>
+          ) : (
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Asset</TableCell>
+                    <TableCell>Provider Order</TableCell>
+                    <TableCell>Updated</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {assetOverrides.map((override) => (
+                    <TableRow key={override.id} hover>
+                      <TableCell>
+                        <ResponsiveTypography variant="tableCell" sx={{ fontWeight: 600 }}>{override.symbol}</ResponsiveTypography>
+                        <ResponsiveTypography variant="caption" color="text.secondary">{override.assetName}</ResponsiveTypography>
+                      </TableCell>
+                      <TableCell>{override.providerCodes.join(' → ')}</TableCell>
+                      <TableCell>{formatDateTime(override.updatedAt)}</TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Remove override">
+                          <span>
+                            <IconButton
+                              size="small"
+                              color="error"
+                              disabled={deletePreference.isLoading}
+                              onClick={() => removeOverride(override.id)}
+                            >
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+}
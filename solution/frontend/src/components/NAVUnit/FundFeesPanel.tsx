@@ -0,0 +1,314 @@
+/**
+ * Fund Fees Panel
+ * Fee schedule of a fund, accrued and crystallized fees, and each investor's high-water mark
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardContent,
+  Grid,
+  Alert,
+  Button,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Calculate as AccrueIcon,
+  Paid as CrystallizeIcon,
+} from '@mui/icons-material';
+import { toast } from 'react-hot-toast';
+import { useAccount } from '../../contexts/AccountContext';
+import {
+  useFundFeeSummary,
+  useUpsertFundFeeSchedule,
+  useAccrueFundFees,
+  useCrystallizeFundFees,
+} from '../../hooks/useFundFees';
+import {
+  FeeCrystallizationFrequency,
+  InvestorFeeSummary,
+  UpsertFundFeeScheduleRequest,
+} from '../../types/fund-fee.types';
+import { formatCurrency, formatDate, formatNumberWithSeparators } from '../../utils/format';
+import ResponsiveTypography from '../Common/ResponsiveTypography';
+import ResponsiveTable from '../Common/ResponsiveTable';
+
+interface FundFeesPanelProps {
+  portfolioId: string;
+  baseCurrency: string;
+  onFeesChanged?: () => void;
+}
+
+const emptySchedule: UpsertFundFeeScheduleRequest = {
+  managementFeeRate: 0,
+  performanceFeeRate: 0,
+  hurdleRate: 0,
+  crystallizationFrequency: FeeCrystallizationFrequency.ANNUALLY,
+  isActive: true,
+};
+
+export const FundFeesPanel: React.FC<FundFeesPanelProps> = ({ portfolioId, baseCurrency, onFeesChanged }) => {
+  const { t } = useTranslation();
+  const { accountId } = useAccount();
+  const { data: summary, isLoading, error } = useFundFeeSummary(portfolioId, accountId);
+  const upsertSchedule = useUpsertFundFeeSchedule(portfolioId, accountId);
+  const accrueFees = useAccrueFundFees(portfolioId, accountId);
+  const crystallizeFees = useCrystallizeFundFees(portfolioId, accountId);
+  const [form, setForm] = useState<UpsertFundFeeScheduleRequest>(emptySchedule);
+
+  const hasSchedule = !!summary?.crystallizationFrequency;
+
+  useEffect(() => {
+    if (summary && summary.crystallizationFrequency) {
+      setForm({
+        managementFeeRate: summary.managementFeeRate,
+        performanceFeeRate: summary.performanceFeeRate,
+        hurdleRate: summary.hurdleRate,
+        crystallizationFrequency: summary.crystallizationFrequency,
+        effectiveFrom: summary.effectiveFrom || undefined,
+        isActive: summary.isActive,
+      });
+    }
+  }, [summary]);
+
+  const setRate = (field: 'managementFeeRate' | 'performanceFeeRate' | 'hurdleRate') =>
+    (event: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [field]: Number(event.target.value) || 0 });
+
+  const handleSave = async () => {
+    try {
+      await upsertSchedule.mutateAsync(form);
+      toast.success(t('nav.fees.saved'));
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('nav.fees.saveFailed'));
+    }
+  };
+
+  const handleAccrue = async () => {
+    try {
+      await accrueFees.mutateAsync();
+      toast.success(t('nav.fees.accrued'));
+      onFeesChanged?.();
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('nav.fees.accrueFailed'));
+    }
+  };
+
+  const handleCrystallize = async () => {
+    if (!window.confirm(t('nav.fees.crystallizeConfirm'))) {
+      return;
+    }
+    try {
+      const crystallizations = await crystallizeFees.mutateAsync(undefined);
+      toast.success(t('nav.fees.crystallized', { count: crystallizations.length }));
+      onFeesChanged?.();
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('nav.fees.crystallizeFailed'));
+    }
+  };
+
+  const figures = summary ? [
+    { label: t('nav.fees.accruedManagementFee'), value: summary.accruedManagementFee },
+    { label: t('nav.fees.accruedPerformanceFee'), value: summary.accruedPerformanceFee },
+    { label: t('nav.fees.crystallizedManagementFee'), value: summary.crystallizedManagementFee },
+    { label: t('nav.fees.crystallizedPerformanceFee'), value: summary.crystallizedPerformanceFee },
+  ] : [];
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+          <Box>
+            <ResponsiveTypography variant="cardTitle" sx={{ fontWeight: 600 }}>
+              {t('nav.fees.title')}
+            </ResponsiveTypography>
+            <ResponsiveTypography variant="formHelper" color="text.secondary">
+              {summary?.lastAccrualDate
+                ? t('nav.fees.lastAccrual', { date: formatDate(summary.lastAccrualDate, 'dd/MM/yyyy') })
+                : t('nav.fees.description')}
+            </ResponsiveTypography>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={accrueFees.isLoading ? <CircularProgress size={16} /> : <AccrueIcon />}
+              disabled={!hasSchedule || accrueFees.isLoading}
+              onClick={handleAccrue}
+            >
+              {t('nav.fees.accrueNow')}
+            </Button>
+            <Button
+              variant="outlined"
+              size="small"
+              color="warning"
+              startIcon={crystallizeFees.isLoading ? <CircularProgress size={16} /> : <CrystallizeIcon />}
+              disabled={!summary?.lastAccrualDate || crystallizeFees.isLoading}
+              onClick={handleCrystallize}
+            >
+              {t('nav.fees.crystallizeNow')}
+            </Button>
+          </Box>
+        </Box>
+
+        {isLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {!!error && <Alert severity="error" sx={{ mb: 2 }}>{t('nav.fees.loadFailed')}</Alert>}
+
+        {summary && !hasSchedule && (
+          <Alert severity="info" sx={{ mb: 2 }}>{t('nav.fees.noSchedule')}</Alert>
+        )}
+
+        <Grid container spacing={2} alignItems="center" sx={{ mb: 2 }}>
+          <Grid item xs={6} md={2}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label={t('nav.fees.managementFeeRate')}
+              value={form.managementFeeRate}
+              onChange={setRate('managementFeeRate')}
+              inputProps={{ min: 0, max: 100, step: 0.1 }}
+            />
+          </Grid>
+          <Grid item xs={6} md={2}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label={t('nav.fees.performanceFeeRate')}
+              value={form.performanceFeeRate}
+              onChange={setRate('performanceFeeRate')}
+              inputProps={{ min: 0, max: 100, step: 1 }}
+            />
+          </Grid>
+          <Grid item xs={6} md={2}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label={t('nav.fees.hurdleRate')}
+              value={form.hurdleRate ?? 0}
+              onChange={setRate('hurdleRate')}
+              inputProps={{ min: 0, max: 100, step: 0.5 }}
+            />
+          </Grid>
+          <Grid item xs={6} md={2}>
+            <FormControl fullWidth size="small">
+              <InputLabel>{t('nav.fees.crystallizationFrequency')}</InputLabel>
+              <Select
+                value={form.crystallizationFrequency}
+                label={t('nav.fees.crystallizationFrequency')}
+                onChange={(event) => setForm({ ...form, crystallizationFrequency: event.target.value as FeeCrystallizationFrequency })}
+              >
+                {Object.values(FeeCrystallizationFrequency).map(frequency => (
+                  <MenuItem key={frequency} value={frequency}>{t(`nav.fees.frequencies.${frequency}`)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} md={2}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label={t('nav.fees.effectiveFrom')}
+              value={form.effectiveFrom || ''}
+              onChange={(event) => setForm({ ...form, effectiveFrom: event.target.value || undefined })}
+              disabled={!!summary?.lastAccrualDate}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid item xs={6} md={2} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FormControlLabel
+              control={<Switch checked={form.isActive ?? true} onChange={(event) => setForm({ ...form, isActive: event.target.checked })} />}
+              label={t('nav.fees.active')}
+            />
+            <Button
+              variant="contained"
+              size="small"
+              startIcon={upsertSchedule.isLoading ? <CircularProgress size={16} color="inherit" /> : <SaveIcon />}
+              disabled={upsertSchedule.isLoading}
+              onClick={handleSave}
+            >
+              {t('common.save')}
+            </Button>
+          </Grid>
+        </Grid>
+
+        {hasSchedule && (
+          <>
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              {figures.map(figure => (
+                <Grid item xs={6} md={3} key={figure.label}>
+                  <ResponsiveTypography variant="labelSmall" color="text.secondary">{figure.label}</ResponsiveTypography>
+                  <ResponsiveTypography variant="cardValue">{formatCurrency(figure.value, baseCurrency)}</ResponsiveTypography>
+                </Grid>
+              ))}
+            </Grid>
+
+            <ResponsiveTable
+              data={summary?.investors || []}
+              getRowKey={(row: InvestorFeeSummary) => row.holdingId}
+              emptyMessage={t('nav.holdings.noHoldings')}
+              columns={[
+                { key: 'investorName', header: t('nav.holdings.investor') },
+                {
+                  key: 'units',
+                  header: t('nav.holdings.units'),
+                  align: 'right',
+                  render: (row: InvestorFeeSummary) => formatNumberWithSeparators(row.units, 3),
+                },
+                {
+                  key: 'highWaterMark',
+                  header: t('nav.fees.columns.highWaterMark'),
+                  align: 'right',
+                  render: (row: InvestorFeeSummary) => formatCurrency(row.highWaterMark, baseCurrency),
+                },
+                {
+                  key: 'hurdleNavPerUnit',
+                  header: t('nav.fees.columns.hurdleNavPerUnit'),
+                  align: 'right',
+                  render: (row: InvestorFeeSummary) => formatCurrency(row.hurdleNavPerUnit, baseCurrency),
+                },
+                {
+                  key: 'accruedManagementFee',
+                  header: t('nav.fees.columns.accruedManagementFee'),
+                  align: 'right',
+                  render: (row: InvestorFeeSummary) => formatCurrency(row.accruedManagementFee, baseCurrency),
+                },
+                {
+                  key: 'accruedPerformanceFee',
+                  header: t('nav.fees.columns.accruedPerformanceFee'),
+                  align: 'right',
+                  render: (row: InvestorFeeSummary) => formatCurrency(row.accruedPerformanceFee, baseCurrency),
+                },
+                {
+                  key: 'crystallizedPerformanceFee',
+                  header: t('nav.fees.columns.crystallizedPerformanceFee'),
+                  align: 'right',
+                  render: (row: InvestorFeeSummary) => formatCurrency(row.crystallizedPerformanceFee, baseCurrency),
+                },
+              ]}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FundFeesPanel;
@@ -51,6 +51,7 @@ import { ConvertToFundModal } from '../Portfolio/ConvertToFundModal';
 import ConvertToPortfolioModal from '../Portfolio/ConvertToPortfolioModal';
 import SubscriptionModal from './SubscriptionModal';
 import RedemptionModal from './RedemptionModal';
+import FundFeesPanel from './FundFeesPanel';
 import ResponsiveTypography from '../Common/ResponsiveTypography';
 
 interface NAVHoldingsManagementProps {
@@ -479,6 +480,16 @@ const NAVHoldingsManagement: React.FC<NAVHoldingsManagementProps> = ({
         </CardContent>
       </Card>
 
+      {/* Fund Fees */}
+      <FundFeesPanel
+        portfolioId={portfolio.portfolioId}
+        baseCurrency={portfolio.baseCurrency}
+        onFeesChanged={() => {
+          refetch();
+          onPortfolioUpdate?.();
+        }}
+      />
+
       {/* Subscription Modal */}
       <SubscriptionModal
         open={subscriptionModalOpen}
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  Button,
+  CircularProgress,
+} from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
+import { apiService } from '../../services/api';
+import { useAccount } from '../../contexts/AccountContext';
+import { PortfolioArchive, PortfolioArchiveImportResult } from '../../types';
+import { ResponsiveButton, ActionButton, ModalWrapper } from '../Common';
+
+interface ImportPortfolioModalProps {
+  open: boolean;
+  onClose: () => void;
+  onPortfolioImported: (result: PortfolioArchiveImportResult) => void;
+}
+
+export const ImportPortfolioModal: React.FC<ImportPortfolioModalProps> = ({
+  open,
+  onClose,
+  onPortfolioImported,
+}) => {
+  const { t } = useTranslation();
+  const { accountId } = useAccount();
+  const [archive, setArchive] = useState<PortfolioArchive | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [portfolioName, setPortfolioName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setArchive(null);
+    setFileName('');
+    setPortfolioName('');
+    setError(null);
+    onClose();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setFileName(file.name);
+    try {
+      const parsed = JSON.parse(await file.text()) as PortfolioArchive;
+      if (!parsed?.portfolio?.name || !Array.isArray(parsed.trades)) {
+        throw new Error('invalid archive');
+      }
+      setArchive(parsed);
+      setPortfolioName(parsed.portfolio.name);
+    } catch {
+      setArchive(null);
+      setError(t('portfolio.archive.error.invalidFile'));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!archive || !portfolioName.trim()) {
+      setError(t('portfolio.copy.validation.nameRequired'));
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await apiService.importPortfolio(
+        { archive, name: portfolioName.trim() },
+        accountId
+      );
+      onPortfolioImported(result);
+      handleClose();
+    } catch (err: any) {
+      setError(
+        err.response?.data?.message ||
+        err.message ||
+        t('portfolio.archive.error.importFailed')
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ModalWrapper
+      open={open}
+      onClose={handleClose}
+      title={t('portfolio.archive.importTitle')}
+      icon={<UploadFileIcon color="primary" />}
+      loading={loading}
+      maxWidth="sm"
+      fullWidth={true}
+      actions={
+        <>
+          <ResponsiveButton
+            onClick={handleClose}
+            disabled={loading}
+            mobileText={t('common.cancel')}
+            desktopText={t('common.cancel')}
+            sx={{ mr: 1 }}
+          >
+            {t('common.cancel')}
+          </ResponsiveButton>
+          <ActionButton
+            onClick={handleImport}
+            variant="contained"
+            disabled={loading || !archive || !portfolioName.trim()}
+            icon={loading ? <CircularProgress size={16} /> : <UploadFileIcon />}
+            mobileText={loading ? t('portfolio.archive.importing') : t('portfolio.archive.import')}
+            desktopText={loading ? t('portfolio.archive.importing') : t('portfolio.archive.importPortfolio')}
+            forceTextOnly={true}
+            sx={{
+              borderRadius: 1,
+              px: 3,
+            }}
+          >
+            {loading ? t('portfolio.archive.importing') : t('portfolio.archive.importPortfolio')}
+          </ActionButton>
+        </>
+      }
+    >
+      <Box sx={{ pt: 1 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {t('portfolio.archive.importDescription')}
+        </Typography>
+
+        <Button
+          variant="outlined"
+          component="label"
+          startIcon={<UploadFileIcon />}
+          disabled={loading}
+          sx={{ textTransform: 'none', mb: 2 }}
+        >
+          {fileName || t('portfolio.archive.chooseFile')}
+          <input hidden type="file" accept=".json,application/json" onChange={handleFileChange} />
+        </Button>
+
+        {archive && (
+          <>
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {t('portfolio.archive.summary', {
+                trades: archive.trades.length,
+                cashFlows: archive.cashFlows.length,
+                deposits: archive.deposits.length,
+                assets: archive.assets.length,
+              })}
+            </Alert>
+            <TextField
+              fullWidth
+              label={t('portfolio.copy.newPortfolioName')}
+              value={portfolioName}
+              onChange={(e) => setPortfolioName(e.target.value)}
+              disabled={loading}
+            />
+          </>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </Box>
+    </ModalWrapper>
+  );
+};
@@ -16,6 +16,7 @@ import {
   Public,
   People as PeopleIcon,
   Security as SecurityIcon,
+  FileDownload as FileDownloadIcon,
 } from '@mui/icons-material';
 import {
   Box,
@@ -31,6 +32,9 @@ import { ResponsiveButton, ActionButton, ActionIconButton, ModalWrapper } from '
 import { Portfolio } from '../../types';
 import { formatCurrency } from '../../utils/format';
 import { CopyPortfolioModal } from './CopyPortfolioModal';
+import { apiService } from '../../services/api';
+import { useAccount } from '../../contexts/AccountContext';
+import { toast } from 'react-hot-toast';
 import ResponsiveTypography from '../Common/ResponsiveTypography';
 import './PortfolioCard.styles.css';
 
@@ -72,7 +76,12 @@ const PortfolioCard: React.FC<PortfolioCardProps> = ({
   const [isDeleted, setIsDeleted] = useState(false);
   const [modalJustClosed, setModalJustClosed] = useState(false);
   const [deleteConfirmationChecked, setDeleteConfirmationChecked] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { accountId } = useAccount();
   const isPositivePL = (Number(portfolio.unrealizedInvestPnL) || 0) >= 0;
+  // FX gains/losses are already part of the P&L figures; shown separately only when present
+  const fxPnL = (Number(portfolio.realizedFxPnL) || 0) + (Number(portfolio.unrealizedFxPnL) || 0);
+  const hasFxPnL = fxPnL !== 0;
   const isPositiveRealizedPL = (Number(portfolio.realizedInvestPnL) || 0) >= 0;
   const isFund = portfolio.isFund || false;
 
@@ -116,6 +125,32 @@ const PortfolioCard: React.FC<PortfolioCardProps> = ({
     // setCopyModalOpen(false);
   };
 
+  const handleExport = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (hideActions || isExporting) return;
+
+    setIsExporting(true);
+    try {
+      const archive = await apiService.exportPortfolio(portfolio.portfolioId, accountId);
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      const safeName = portfolio.name.replace(/[^a-zA-Z0-9-_]+/g, '_');
+      link.href = url;
+      link.download = `${safeName}-${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success(t('portfolio.archive.exported'));
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('portfolio.archive.error.exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleDelete = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -261,6 +296,20 @@ const PortfolioCard: React.FC<PortfolioCardProps> = ({
             </ResponsiveTypography>
           </div>
 
+          {hasFxPnL && (
+            <div className="portfolio-card__cash-balance">
+              <ResponsiveTypography variant="cardLabel" className="portfolio-card__total-value-label">
+                {t('portfolio.fxPnL')}
+              </ResponsiveTypography>
+              <ResponsiveTypography
+                  variant="cardValueMedium"
+                  sx={{ fontWeight: 600 }}
+                  className={`portfolio-card__pl-amount ${fxPnL >= 0 ? 'portfolio-card__pl-amount--positive' : 'portfolio-card__pl-amount--negative'}`}>
+                {formatCurrency(fxPnL, portfolio.baseCurrency)}
+              </ResponsiveTypography>
+            </div>
+          )}
+
         </div>
       </div>
 
@@ -299,6 +348,21 @@ const PortfolioCard: React.FC<PortfolioCardProps> = ({
                 <ContentCopy />
               </ActionIconButton>
             )}
+            <ActionIconButton
+              onClick={handleExport}
+              color="primary"
+              size="small"
+              disabled={isExporting}
+              tooltip={t('portfolio.archive.export')}
+              sx={{
+                '&:hover': {
+                  backgroundColor: 'primary.light',
+                  color: 'white',
+                }
+              }}
+            >
+              {isExporting ? <CircularProgress size={16} /> : <FileDownloadIcon />}
+            </ActionIconButton>
             {onManagePermissions && !isReadOnly && (
               <ActionIconButton
                 onClick={(e) => {
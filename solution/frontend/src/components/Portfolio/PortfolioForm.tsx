@@ -20,6 +20,7 @@ import {
   Divider,
   Tooltip,
   CircularProgress,
+  MenuItem,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -35,6 +36,7 @@ import { ResponsiveButton, ActionButton } from '../Common';
 import { ModalWrapper } from '../Common/ModalWrapper';
 import { PublicPortfolioSelector } from './PublicPortfolioSelector';
 import { usePermissions } from '../../hooks/usePermissions';
+import { useTaxRules } from '../../hooks/useTrading';
 
 interface PortfolioFormProps {
   open: boolean;
@@ -51,6 +53,7 @@ const schema = yup.object({
   name: yup.string().required('Portfolio name is required').min(2, 'Name must be at least 2 characters'),
   baseCurrency: yup.string().required('Base currency is required'),
   fundingSource: yup.string().optional(),
+  broker: yup.string().optional(),
   accountId: yup.string().required('Account ID is required'),
 });
 
@@ -80,6 +83,7 @@ const PortfolioForm: React.FC<PortfolioFormProps> = ({
   const [templateName, setTemplateName] = useState('');
   
   const canManageVisibility = hasPermission('portfolio.visibility.manage');
+  const { data: taxRules } = useTaxRules(initialData?.baseCurrency || 'VND');
   const {
     control,
     handleSubmit,
@@ -91,6 +95,7 @@ const PortfolioForm: React.FC<PortfolioFormProps> = ({
       name: initialData?.name || '',
       baseCurrency: initialData?.baseCurrency || 'VND',
       fundingSource: initialData?.fundingSource || '',
+      broker: initialData?.broker || '',
       accountId: initialData?.accountId || accountId,
     },
   });
@@ -101,6 +106,7 @@ const PortfolioForm: React.FC<PortfolioFormProps> = ({
         name: initialData?.name || '',
         baseCurrency: initialData?.baseCurrency || 'VND',
         fundingSource: initialData?.fundingSource || '',
+        broker: initialData?.broker || '',
         accountId: initialData?.accountId || accountId,
       });
       
@@ -314,6 +320,27 @@ const PortfolioForm: React.FC<PortfolioFormProps> = ({
                   )}
                 />
 
+                <Controller
+                  name="broker"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      select
+                      label={t('portfolio.form.fields.broker')}
+                      fullWidth
+                      helperText={t('portfolio.form.fields.brokerHelper')}
+                    >
+                      <MenuItem value="">{t('portfolio.form.fields.defaultBroker')}</MenuItem>
+                      {Object.entries(taxRules?.brokers || {})
+                        .filter(([code]) => code !== taxRules?.defaultBroker)
+                        .map(([code, schedule]) => (
+                          <MenuItem key={code} value={code}>{schedule.name}</MenuItem>
+                        ))}
+                    </TextField>
+                  )}
+                />
+
                 {/* <Controller
                   name="baseCurrency"
                   control={control}
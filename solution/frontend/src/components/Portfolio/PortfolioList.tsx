@@ -18,6 +18,7 @@ import {
   MonetizationOn as MonetizationOnIcon,
   Assessment as AssessmentIcon,
   Refresh as RefreshIcon,
+  UploadFile as UploadFileIcon,
 } from '@mui/icons-material';
 import { ResponsiveButton, ActionButton } from '../Common';
 import PortfolioCardWithPermissions from './PortfolioCardWithPermissions';
@@ -31,6 +32,7 @@ interface PortfolioListProps {
   onEditPortfolio?: (portfolioId: string) => void;
   onDeletePortfolio?: (portfolioId: string) => void;
   onCreatePortfolio?: () => void;
+  onImportPortfolio?: () => void;
   onManagePermissions?: (portfolioId: string) => void;
   onRefresh?: () => void;
   isReadOnly?: boolean;
@@ -41,6 +43,7 @@ const PortfolioList: React.FC<PortfolioListProps> = ({
   onEditPortfolio,
   onDeletePortfolio,
   onCreatePortfolio,
+  onImportPortfolio,
   onManagePermissions,
   onRefresh,
   isReadOnly = false,
@@ -112,6 +115,18 @@ const PortfolioList: React.FC<PortfolioListProps> = ({
               </IconButton>
             </Tooltip>
           )}
+          {onImportPortfolio && (
+            <ActionButton
+              variant="outlined"
+              onClick={onImportPortfolio}
+              icon={<UploadFileIcon />}
+              mobileText={t('portfolio.archive.import')}
+              desktopText={t('portfolio.archive.importPortfolio')}
+              sx={{ mr: 1 }}
+            >
+              {t('portfolio.archive.importPortfolio')}
+            </ActionButton>
+          )}
           {onCreatePortfolio && (
             <ActionButton
               className="portfolio-list__create-btn"
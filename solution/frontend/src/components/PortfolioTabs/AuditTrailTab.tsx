@@ -0,0 +1,178 @@
+/**
+ * Audit Trail Tab Component
+ * Closed periods of the portfolio and the timeline of changes to its trades, cash flows,
+ * deposits and fund unit transactions
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Alert,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Pagination,
+  Select,
+  Tooltip,
+} from '@mui/material';
+import { useAccount } from '../../contexts/AccountContext';
+import { useAuditTrail } from '../../hooks/useAuditTrail';
+import { AuditAction, AuditEntityType, AuditLogEntry } from '../../types/audit-trail.types';
+import { formatDateTime } from '../../utils/format';
+import ResponsiveTypography from '../Common/ResponsiveTypography';
+import ResponsiveTable from '../Common/ResponsiveTable';
+import PeriodCloseSection from './PeriodCloseSection';
+
+interface AuditTrailTabProps {
+  portfolioId: string;
+  /** Whether the account can close periods */
+  canManage: boolean;
+  getUltraSpacing: (normal: number, ultra: number) => number;
+}
+
+const PAGE_SIZE = 20;
+
+const actionColors: Record<AuditAction, 'success' | 'info' | 'error'> = {
+  [AuditAction.CREATE]: 'success',
+  [AuditAction.UPDATE]: 'info',
+  [AuditAction.DELETE]: 'error',
+};
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') {
+    return '∅';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const AuditTrailTab: React.FC<AuditTrailTabProps> = ({ portfolioId, canManage, getUltraSpacing }) => {
+  const { t } = useTranslation();
+  const { accountId } = useAccount();
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [page, setPage] = useState(1);
+  const { data: timeline, isLoading, error } = useAuditTrail(portfolioId, accountId, {
+    entityType: entityType || undefined,
+    page,
+    limit: PAGE_SIZE,
+  });
+
+  const columns = [
+    {
+      key: 'createdAt',
+      header: t('auditTrail.columns.time'),
+      render: (row: AuditLogEntry) => formatDateTime(row.createdAt, 'dd/MM/yyyy HH:mm'),
+    },
+    {
+      key: 'action',
+      header: t('auditTrail.columns.action'),
+      render: (row: AuditLogEntry) => (
+        <Chip size="small" color={actionColors[row.action]} label={t(`auditTrail.actions.${row.action}`)} />
+      ),
+    },
+    {
+      key: 'entityType',
+      header: t('auditTrail.columns.record'),
+      render: (row: AuditLogEntry) => (
+        <Tooltip title={row.entityId}>
+          <span>{t(`auditTrail.entityTypes.${row.entityType}`)} #{row.entityId.substring(0, 8)}</span>
+        </Tooltip>
+      ),
+    },
+    {
+      key: 'changes',
+      header: t('auditTrail.columns.changes'),
+      render: (row: AuditLogEntry) => {
+        const fields = Object.entries(row.changes || {});
+        if (row.action !== AuditAction.UPDATE) {
+          return t('auditTrail.fieldCount', { count: fields.length });
+        }
+        return (
+          <Box component="ul" sx={{ m: 0, pl: 2 }}>
+            {fields.map(([field, change]) => (
+              <li key={field}>
+                <strong>{field}</strong>: {formatValue(change.from)} → {formatValue(change.to)}
+              </li>
+            ))}
+          </Box>
+        );
+      },
+    },
+    {
+      key: 'reason',
+      header: t('auditTrail.columns.reason'),
+      render: (row: AuditLogEntry) => row.reason || '-',
+    },
+    {
+      key: 'actor',
+      header: t('auditTrail.columns.actor'),
+      render: (row: AuditLogEntry) => (
+        row.actorAccountId
+          ? (row.actorAccountId === accountId ? t('auditTrail.you') : row.actorAccountId.substring(0, 8))
+          : t('auditTrail.system')
+      ),
+    },
+  ];
+
+  return (
+    <Box sx={{
+      backgroundColor: 'background.paper',
+      minHeight: '80vh',
+      pt: 0,
+      px: getUltraSpacing(2, 1)
+    }}>
+      <PeriodCloseSection portfolioId={portfolioId} canManage={canManage} getUltraSpacing={getUltraSpacing} />
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, flexWrap: 'wrap', mb: 1.5 }}>
+        <Box>
+          <ResponsiveTypography variant="cardTitle" sx={{ fontWeight: 600 }}>
+            {t('auditTrail.title')}
+          </ResponsiveTypography>
+          <ResponsiveTypography variant="formHelper" color="text.secondary">
+            {t('auditTrail.description')}
+          </ResponsiveTypography>
+        </Box>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>{t('auditTrail.columns.record')}</InputLabel>
+          <Select
+            value={entityType}
+            label={t('auditTrail.columns.record')}
+            onChange={(event) => {
+              setEntityType(event.target.value as AuditEntityType | '');
+              setPage(1);
+            }}
+          >
+            <MenuItem value="">{t('auditTrail.allRecords')}</MenuItem>
+            {Object.values(AuditEntityType).map(type => (
+              <MenuItem key={type} value={type}>{t(`auditTrail.entityTypes.${type}`)}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      {!!error && <Alert severity="error" sx={{ mb: 2 }}>{t('auditTrail.loadFailed')}</Alert>}
+
+      <ResponsiveTable
+        data={timeline?.data || []}
+        loading={isLoading}
+        getRowKey={(row: AuditLogEntry) => row.auditId}
+        emptyMessage={t('auditTrail.empty')}
+        columns={columns}
+      />
+
+      {timeline && timeline.pagination.totalPages > 1 && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+          <Pagination
+            size="small"
+            count={timeline.pagination.totalPages}
+            page={page}
+            onChange={(_, value) => setPage(value)}
+          />
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default AuditTrailTab;
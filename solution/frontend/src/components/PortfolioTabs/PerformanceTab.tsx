@@ -9,6 +9,7 @@ import { Box, Grid, CircularProgress, useTheme, useMediaQuery } from '@mui/mater
 import ResponsiveTypography from '../Common/ResponsiveTypography';
 import { usePortfolioAnalytics } from '../../hooks/usePortfolios';
 import { apiService } from '../../services/api';
+import { useAccount } from '../../contexts/AccountContext';
 import NAVSummary from '../Analytics/NAVSummary';
 import NAVHistoryChart from '../Analytics/NAVHistoryChart';
 import BenchmarkComparison from '../Analytics/BenchmarkComparison';
@@ -31,12 +32,15 @@ const PerformanceTab: React.FC<PerformanceTabProps> = ({
   const { t } = useTranslation();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { accountId } = useAccount();
   // State for benchmark data
   const [benchmarkData, setBenchmarkData] = useState<any>(null);
   const [isBenchmarkLoading, setIsBenchmarkLoading] = useState(false);
   const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
   const [benchmarkTimeframe, setBenchmarkTimeframe] = useState('1Y');
   const [benchmarkTwrPeriod, setBenchmarkTwrPeriod] = useState('YTD');
+  const [benchmarkId, setBenchmarkId] = useState<string | undefined>(undefined);
+  const [benchmarkOptions, setBenchmarkOptions] = useState<Array<{ value: string; label: string }>>([]);
 
   // State for risk metrics
   const [, setRiskMetricsData] = useState<any>(null);
@@ -65,6 +69,21 @@ const PerformanceTab: React.FC<PerformanceTabProps> = ({
     }
   };
 
+  // Fetch benchmarks available for comparison (built-in and custom blends)
+  useEffect(() => {
+    const fetchBenchmarks = async () => {
+      try {
+        const benchmarks = await apiService.getAvailableBenchmarks(accountId);
+        setBenchmarkOptions((benchmarks || []).map((b: any) => ({ value: b.benchmarkId, label: b.name })));
+      } catch (error) {
+        console.error('Error fetching benchmarks:', error);
+        setBenchmarkOptions([]);
+      }
+    };
+
+    fetchBenchmarks();
+  }, [accountId]);
+
   // Fetch benchmark comparison data
   useEffect(() => {
     const fetchBenchmarkData = async () => {
@@ -75,7 +94,7 @@ const PerformanceTab: React.FC<PerformanceTabProps> = ({
         setBenchmarkError(null);
         
         const months = getTimeframeMonths(benchmarkTimeframe);
-        const response = await apiService.getPortfolioBenchmarkComparison(portfolioId, months, benchmarkTwrPeriod);
+        const response = await apiService.getPortfolioBenchmarkComparison(portfolioId, months, benchmarkTwrPeriod, benchmarkId);
         setBenchmarkData(response);
       } catch (error) {
         console.error('Error fetching benchmark data:', error);
@@ -86,7 +105,7 @@ const PerformanceTab: React.FC<PerformanceTabProps> = ({
     };
 
     fetchBenchmarkData();
-  }, [portfolioId, benchmarkTimeframe, benchmarkTwrPeriod]);
+  }, [portfolioId, benchmarkTimeframe, benchmarkTwrPeriod, benchmarkId]);
 
   // Fetch MWR benchmark comparison data
   // useEffect(() => {
@@ -137,6 +156,11 @@ const PerformanceTab: React.FC<PerformanceTabProps> = ({
     setBenchmarkTimeframe(timeframe);
   };
 
+  // Handle benchmark selection change
+  const handleBenchmarkChange = (newBenchmarkId: string) => {
+    setBenchmarkId(newBenchmarkId);
+  };
+
   // Handle benchmark TWR period change
   const handleBenchmarkTwrPeriodChange = (twrPeriod: string) => {
     setBenchmarkTwrPeriod(twrPeriod);
@@ -251,6 +275,9 @@ const PerformanceTab: React.FC<PerformanceTabProps> = ({
                 currentTimeframe={benchmarkTimeframe}
                 onTwrPeriodChange={handleBenchmarkTwrPeriodChange}
                 currentTwrPeriod={benchmarkTwrPeriod}
+                benchmarkOptions={benchmarkOptions}
+                onBenchmarkChange={handleBenchmarkChange}
+                currentBenchmarkId={benchmarkId || benchmarkData?.benchmarkId}
               />
             )}
           </Grid>
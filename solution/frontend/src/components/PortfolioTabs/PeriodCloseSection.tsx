@@ -0,0 +1,369 @@
+/**
+ * Period Close Section Component
+ * Closes accounting periods of a portfolio, reopens them with a reason,
+ * and shows what changes made to a reopened period affect
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Alert,
+  Button,
+  Chip,
+  Grid,
+  TextField,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Lock as LockIcon,
+  LockOpen as LockOpenIcon,
+  Assessment as ImpactIcon,
+} from '@mui/icons-material';
+import { toast } from 'react-hot-toast';
+import { useAccount } from '../../contexts/AccountContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { usePeriodLock } from '../../hooks/useAuditTrail';
+import { usePeriodCloses, useClosePeriod, useReopenPeriod, useReopenImpact } from '../../hooks/usePeriodCloses';
+import {
+  PeriodClose,
+  PeriodCloseStatus,
+  ClosedSnapshotValue,
+  ClosedNavValue,
+  InvestorUnitsChange,
+} from '../../types/period-close.types';
+import { AuditLogEntry } from '../../types/audit-trail.types';
+import { formatCurrency, formatDate, formatDateTime, formatNumberWithSeparators } from '../../utils/format';
+import { ModalWrapper } from '../Common/ModalWrapper';
+import ResponsiveTypography from '../Common/ResponsiveTypography';
+import ResponsiveTable from '../Common/ResponsiveTable';
+
+interface PeriodCloseSectionProps {
+  portfolioId: string;
+  /** Whether the account can close periods */
+  canManage: boolean;
+  getUltraSpacing: (normal: number, ultra: number) => number;
+}
+
+const PeriodCloseSection: React.FC<PeriodCloseSectionProps> = ({ portfolioId, canManage, getUltraSpacing }) => {
+  const { t } = useTranslation();
+  const { accountId, baseCurrency } = useAccount();
+  const { hasPermission } = usePermissions();
+  const canReopen = hasPermission('financial.reconcile');
+
+  const { data: lock } = usePeriodLock(portfolioId, accountId);
+  const { data: closes = [], isLoading, error } = usePeriodCloses(portfolioId, accountId);
+  const closePeriod = useClosePeriod(portfolioId, accountId);
+  const reopenPeriod = useReopenPeriod(portfolioId, accountId);
+
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [reopening, setReopening] = useState<PeriodClose | null>(null);
+  const [reopenReason, setReopenReason] = useState('');
+  const [impactCloseId, setImpactCloseId] = useState<string | null>(null);
+  const { data: impact, isLoading: impactLoading } = useReopenImpact(portfolioId, impactCloseId, accountId);
+
+  const latestClosedId = closes.find(close => close.status === PeriodCloseStatus.CLOSED)?.periodCloseId;
+
+  const handleClose = async () => {
+    try {
+      await closePeriod.mutateAsync(periodEnd);
+      toast.success(t('periodClose.closed', { date: formatDate(periodEnd, 'dd/MM/yyyy') }));
+      setPeriodEnd('');
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('periodClose.closeFailed'));
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!reopening) {
+      return;
+    }
+    try {
+      await reopenPeriod.mutateAsync({ periodCloseId: reopening.periodCloseId, reason: reopenReason });
+      toast.success(t('periodClose.reopened', { date: formatDate(reopening.periodEnd, 'dd/MM/yyyy') }));
+      setReopening(null);
+      setReopenReason('');
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('periodClose.reopenFailed'));
+    }
+  };
+
+  const columns = [
+    {
+      key: 'periodEnd',
+      header: t('periodClose.columns.periodEnd'),
+      render: (row: PeriodClose) => formatDate(row.periodEnd, 'dd/MM/yyyy'),
+    },
+    {
+      key: 'status',
+      header: t('periodClose.columns.status'),
+      render: (row: PeriodClose) => (
+        <Chip
+          size="small"
+          color={row.status === PeriodCloseStatus.CLOSED ? 'success' : 'warning'}
+          label={t(`periodClose.status.${row.status}`)}
+        />
+      ),
+    },
+    {
+      key: 'closedAt',
+      header: t('periodClose.columns.closedAt'),
+      render: (row: PeriodClose) => formatDateTime(row.closedAt, 'dd/MM/yyyy HH:mm'),
+    },
+    {
+      key: 'reopenReason',
+      header: t('periodClose.columns.reopenReason'),
+      render: (row: PeriodClose) => row.reopenReason || '-',
+    },
+    {
+      key: 'actions',
+      header: '',
+      render: (row: PeriodClose) => (
+        <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+          {row.status === PeriodCloseStatus.CLOSED && canReopen && row.periodCloseId === latestClosedId && (
+            <Button size="small" color="warning" startIcon={<LockOpenIcon />} onClick={() => setReopening(row)}>
+              {t('periodClose.reopen')}
+            </Button>
+          )}
+          {row.status === PeriodCloseStatus.REOPENED && (
+            <Button size="small" startIcon={<ImpactIcon />} onClick={() => setImpactCloseId(row.periodCloseId)}>
+              {t('periodClose.impact.view')}
+            </Button>
+          )}
+        </Box>
+      ),
+    },
+  ];
+
+  const changeColumns = [
+    {
+      key: 'createdAt',
+      header: t('auditTrail.columns.time'),
+      render: (row: AuditLogEntry) => formatDateTime(row.createdAt, 'dd/MM/yyyy HH:mm'),
+    },
+    {
+      key: 'record',
+      header: t('auditTrail.columns.record'),
+      render: (row: AuditLogEntry) => `${t(`auditTrail.actions.${row.action}`)} ${t(`auditTrail.entityTypes.${row.entityType}`)}`,
+    },
+    {
+      key: 'reason',
+      header: t('auditTrail.columns.reason'),
+      render: (row: AuditLogEntry) => row.reason || '-',
+    },
+  ];
+
+  const snapshotColumns = [
+    {
+      key: 'snapshotDate',
+      header: t('periodClose.impact.date'),
+      render: (row: ClosedSnapshotValue) => `${formatDate(row.snapshotDate, 'dd/MM/yyyy')} (${row.granularity})`,
+    },
+    {
+      key: 'totalPortfolioValue',
+      header: t('periodClose.impact.valueAtClose'),
+      render: (row: ClosedSnapshotValue) => formatCurrency(row.totalPortfolioValue, baseCurrency),
+    },
+    {
+      key: 'navPerUnit',
+      header: t('periodClose.impact.navPerUnitAtClose'),
+      render: (row: ClosedSnapshotValue) => (row.navPerUnit ? formatCurrency(row.navPerUnit, baseCurrency) : '-'),
+    },
+  ];
+
+  const navColumns = [
+    {
+      key: 'navDate',
+      header: t('periodClose.impact.date'),
+      render: (row: ClosedNavValue) => formatDate(row.navDate, 'dd/MM/yyyy'),
+    },
+    {
+      key: 'navValue',
+      header: t('periodClose.impact.navAtClose'),
+      render: (row: ClosedNavValue) => formatCurrency(row.navValue, baseCurrency),
+    },
+    {
+      key: 'navPerUnit',
+      header: t('periodClose.impact.navPerUnitAtClose'),
+      render: (row: ClosedNavValue) => formatCurrency(row.navPerUnit, baseCurrency),
+    },
+  ];
+
+  const unitColumns = [
+    {
+      key: 'accountId',
+      header: t('periodClose.impact.investor'),
+      render: (row: InvestorUnitsChange) => row.accountId.substring(0, 8),
+    },
+    {
+      key: 'unitsAtClose',
+      header: t('periodClose.impact.unitsAtClose'),
+      render: (row: InvestorUnitsChange) => formatNumberWithSeparators(row.unitsAtClose, 3),
+    },
+    {
+      key: 'unitsNow',
+      header: t('periodClose.impact.unitsNow'),
+      render: (row: InvestorUnitsChange) => formatNumberWithSeparators(row.unitsNow, 3),
+    },
+    {
+      key: 'difference',
+      header: t('periodClose.impact.difference'),
+      render: (row: InvestorUnitsChange) => (
+        <Box component="span" sx={{ color: row.difference < 0 ? 'error.main' : 'success.main' }}>
+          {row.difference > 0 ? '+' : ''}{formatNumberWithSeparators(row.difference, 3)}
+        </Box>
+      ),
+    },
+  ];
+
+  return (
+    <Box sx={{ mb: getUltraSpacing(3, 1.5) }}>
+      <ResponsiveTypography variant="cardTitle" sx={{ fontWeight: 600 }}>
+        {t('periodClose.title')}
+      </ResponsiveTypography>
+      <ResponsiveTypography variant="formHelper" color="text.secondary" sx={{ mb: 1.5 }}>
+        {lock?.lockedThroughDate
+          ? t('periodClose.closedThrough', { date: formatDate(lock.lockedThroughDate, 'dd/MM/yyyy') })
+          : t('periodClose.noneClosed')}
+      </ResponsiveTypography>
+
+      {canManage && (
+        <Grid container spacing={2} alignItems="center" sx={{ mb: 1.5 }}>
+          <Grid item xs={12} sm={4} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label={t('periodClose.periodEnd')}
+              value={periodEnd}
+              onChange={(event) => setPeriodEnd(event.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={8} md={9}>
+            <Button
+              variant="contained"
+              size="small"
+              startIcon={closePeriod.isLoading ? <CircularProgress size={16} color="inherit" /> : <LockIcon />}
+              disabled={!periodEnd || closePeriod.isLoading}
+              onClick={handleClose}
+            >
+              {t('periodClose.close')}
+            </Button>
+          </Grid>
+        </Grid>
+      )}
+
+      {!!error && <Alert severity="error" sx={{ mb: 2 }}>{t('periodClose.loadFailed')}</Alert>}
+
+      <ResponsiveTable
+        data={closes}
+        loading={isLoading}
+        getRowKey={(row: PeriodClose) => row.periodCloseId}
+        emptyMessage={t('periodClose.empty')}
+        columns={columns}
+      />
+
+      <ModalWrapper
+        open={!!reopening}
+        onClose={() => setReopening(null)}
+        title={t('periodClose.reopenTitle', { date: reopening ? formatDate(reopening.periodEnd, 'dd/MM/yyyy') : '' })}
+        icon={<LockOpenIcon color="warning" />}
+        maxWidth="sm"
+        loading={reopenPeriod.isLoading}
+        actions={(
+          <>
+            <Button onClick={() => setReopening(null)}>{t('common.cancel')}</Button>
+            <Button
+              variant="contained"
+              color="warning"
+              disabled={!reopenReason.trim() || reopenPeriod.isLoading}
+              onClick={handleReopen}
+            >
+              {t('periodClose.reopen')}
+            </Button>
+          </>
+        )}
+      >
+        <Alert severity="warning" sx={{ mb: 2 }}>{t('periodClose.reopenWarning')}</Alert>
+        <TextField
+          fullWidth
+          multiline
+          minRows={2}
+          label={t('periodClose.reopenReason')}
+          value={reopenReason}
+          onChange={(event) => setReopenReason(event.target.value)}
+          inputProps={{ maxLength: 500 }}
+        />
+      </ModalWrapper>
+
+      <ModalWrapper
+        open={!!impactCloseId}
+        onClose={() => setImpactCloseId(null)}
+        title={t('periodClose.impact.title')}
+        icon={<ImpactIcon color="primary" />}
+        maxWidth="lg"
+        loading={impactLoading}
+      >
+        {impact && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Alert severity={impact.changes.length > 0 ? 'warning' : 'info'}>
+              {impact.earliestChangedDate
+                ? t('periodClose.impact.summary', {
+                  count: impact.changes.length,
+                  date: formatDate(impact.earliestChangedDate, 'dd/MM/yyyy'),
+                  later: impact.laterSnapshotCount,
+                })
+                : t('periodClose.impact.noChanges')}
+            </Alert>
+
+            {impact.changes.length > 0 && (
+              <Box>
+                <ResponsiveTypography variant="cardTitle" sx={{ mb: 1 }}>{t('periodClose.impact.changes')}</ResponsiveTypography>
+                <ResponsiveTable
+                  data={impact.changes}
+                  getRowKey={(row: AuditLogEntry) => row.auditId}
+                  columns={changeColumns}
+                />
+              </Box>
+            )}
+
+            {impact.snapshots.length > 0 && (
+              <Box>
+                <ResponsiveTypography variant="cardTitle" sx={{ mb: 1 }}>{t('periodClose.impact.snapshots')}</ResponsiveTypography>
+                <ResponsiveTable
+                  data={impact.snapshots}
+                  getRowKey={(row: ClosedSnapshotValue) => `${row.snapshotDate}-${row.granularity}`}
+                  columns={snapshotColumns}
+                />
+              </Box>
+            )}
+
+            {impact.navSnapshots.length > 0 && (
+              <Box>
+                <ResponsiveTypography variant="cardTitle" sx={{ mb: 1 }}>{t('periodClose.impact.nav')}</ResponsiveTypography>
+                <ResponsiveTable
+                  data={impact.navSnapshots}
+                  getRowKey={(row: ClosedNavValue) => row.navDate}
+                  columns={navColumns}
+                />
+              </Box>
+            )}
+
+            <Box>
+              <ResponsiveTypography variant="cardTitle" sx={{ mb: 1 }}>{t('periodClose.impact.investorUnits')}</ResponsiveTypography>
+              <ResponsiveTable
+                data={impact.investorUnits}
+                getRowKey={(row: InvestorUnitsChange) => row.holdingId}
+                emptyMessage={t('periodClose.impact.noUnitChanges')}
+                columns={unitColumns}
+              />
+            </Box>
+          </Box>
+        )}
+      </ModalWrapper>
+    </Box>
+  );
+};
+
+export default PeriodCloseSection;
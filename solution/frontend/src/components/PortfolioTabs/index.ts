@@ -8,3 +8,4 @@ export { default as TradingManagementTab } from './TradingManagementTab';
 export { default as DepositManagementTab } from './DepositManagementTab';
 export { default as CashFlowTab } from './CashFlowTab';
 export { default as NAVHoldingsTab } from './NAVHoldingsTab';
+export { default as AuditTrailTab } from './AuditTrailTab';
@@ -0,0 +1,114 @@
+/**
+ * Annual Tax Summary
+ * Tax paid per portfolio and per account for a calendar year, to reconcile against the broker's yearly tax statement
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  CircularProgress,
+} from '@mui/material';
+import { useAnnualTaxSummary } from '../../hooks/useTrading';
+import { PortfolioTaxSummary } from '../../types';
+import { formatCurrency } from '../../utils/format';
+import ResponsiveTypography from '../Common/ResponsiveTypography';
+import ResponsiveTable from '../Common/ResponsiveTable';
+
+const YEARS_SHOWN = 6;
+
+export const AnnualTaxSummary: React.FC = () => {
+  const { t } = useTranslation();
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const { data: summary, isLoading, error } = useAnnualTaxSummary(year);
+
+  const years = Array.from({ length: YEARS_SHOWN }, (_, index) => currentYear - index);
+
+  const amountColumn = (key: keyof PortfolioTaxSummary, header: string) => ({
+    key,
+    header,
+    align: 'right' as const,
+    render: (row: PortfolioTaxSummary) => formatCurrency(Number(row[key]), row.baseCurrency),
+  });
+
+  return (
+    <Box sx={{ background: 'white', borderRadius: 2, mt: 3 }}>
+      <Box sx={{ p: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
+        <Box>
+          <ResponsiveTypography variant="chartTitle">
+            {t('report.tax.title')}
+          </ResponsiveTypography>
+          <ResponsiveTypography variant="formHelper" color="text.secondary">
+            {t('report.tax.description')}
+          </ResponsiveTypography>
+        </Box>
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel>{t('report.tax.year')}</InputLabel>
+          <Select value={year} label={t('report.tax.year')} onChange={(event) => setYear(Number(event.target.value))}>
+            {years.map(value => (
+              <MenuItem key={value} value={value}>{value}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      {isLoading && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {!!error && <Alert severity="error" sx={{ m: 2 }}>{t('report.tax.loadFailed')}</Alert>}
+
+      {summary && (
+        <ResponsiveTable
+          data={summary.portfolios}
+          getRowKey={(row: PortfolioTaxSummary) => row.portfolioId}
+          emptyMessage={t('report.tax.noData')}
+          columns={[
+            { key: 'portfolioName', header: t('report.tax.columns.portfolio') },
+            amountColumn('grossSaleValue', t('report.tax.columns.grossSaleValue')),
+            amountColumn('saleTax', t('report.tax.columns.saleTax')),
+            amountColumn('tradingFees', t('report.tax.columns.tradingFees')),
+            amountColumn('grossDividends', t('report.tax.columns.grossDividends')),
+            amountColumn('dividendTaxWithheld', t('report.tax.columns.dividendTaxWithheld')),
+            amountColumn('interestTaxWithheld', t('report.tax.columns.interestTaxWithheld')),
+            amountColumn('otherTaxPaid', t('report.tax.columns.otherTaxPaid')),
+            {
+              key: 'totalTaxPaid',
+              header: t('report.tax.columns.totalTaxPaid'),
+              align: 'right',
+              render: (row: PortfolioTaxSummary) => (
+                <Box component="span" sx={{ fontWeight: 600 }}>
+                  {formatCurrency(row.totalTaxPaid, row.baseCurrency)}
+                </Box>
+              ),
+            },
+          ]}
+        />
+      )}
+
+      {summary && summary.totals.length > 0 && (
+        <Box sx={{ p: 2 }}>
+          {summary.totals.map(total => (
+            <ResponsiveTypography key={total.currency} variant="tableCell" sx={{ fontWeight: 600 }}>
+              {t('report.tax.accountTotal', {
+                currency: total.currency,
+                tax: formatCurrency(total.totalTaxPaid, total.currency),
+                fees: formatCurrency(total.tradingFees, total.currency),
+              })}
+            </ResponsiveTypography>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default AnnualTaxSummary;
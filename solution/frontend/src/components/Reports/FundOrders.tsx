@@ -0,0 +1,448 @@
+/**
+ * Fund Orders
+ * Subscription and redemption orders of a fund: the investor's own orders and, for fund managers,
+ * the approval queue and the dealing calendar
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Alert,
+  Button,
+  Chip,
+  Divider,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  CircularProgress,
+  Tooltip,
+} from '@mui/material';
+import {
+  Send as SubmitIcon,
+  PriceCheck as PriceIcon,
+  CheckCircle as ApproveIcon,
+  Cancel as RejectIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import { toast } from 'react-hot-toast';
+import { useAccount } from '../../contexts/AccountContext';
+import {
+  useFundOrders,
+  useFundOrderQueue,
+  useDealingCalendar,
+  useCreateFundOrder,
+  usePriceFundOrders,
+  useApproveFundOrder,
+  useRejectFundOrder,
+  useUpdateDealingCalendar,
+} from '../../hooks/useFundOrders';
+import {
+  FundOrder,
+  FundOrderType,
+  FundOrderStatus,
+  DealingFrequency,
+  UpdateDealingCalendarRequest,
+} from '../../types/fund-order.types';
+import { formatCurrency, formatDate, formatDateTime, formatNumberWithSeparators } from '../../utils/format';
+import ResponsiveTypography from '../Common/ResponsiveTypography';
+import ResponsiveTable from '../Common/ResponsiveTable';
+
+interface FundOrdersProps {
+  portfolioId: string;
+  /** Whether the account can price, approve and reject orders and change the dealing calendar */
+  canManage: boolean;
+}
+
+const statusColors: Record<FundOrderStatus, 'default' | 'info' | 'success' | 'error'> = {
+  [FundOrderStatus.PENDING]: 'default',
+  [FundOrderStatus.PRICED]: 'info',
+  [FundOrderStatus.SETTLING]: 'info',
+  [FundOrderStatus.SETTLED]: 'success',
+  [FundOrderStatus.REJECTED]: 'error',
+};
+
+export const FundOrders: React.FC<FundOrdersProps> = ({ portfolioId, canManage }) => {
+  const { t } = useTranslation();
+  const { accountId, baseCurrency } = useAccount();
+  const { data: orders, isLoading, error } = useFundOrders(portfolioId, accountId);
+  const { data: queue } = useFundOrderQueue(portfolioId, accountId, canManage);
+  const { data: calendar } = useDealingCalendar(portfolioId, accountId);
+  const createOrder = useCreateFundOrder(portfolioId, accountId);
+  const priceOrders = usePriceFundOrders(portfolioId, accountId);
+  const approveOrder = useApproveFundOrder(portfolioId, accountId);
+  const rejectOrder = useRejectFundOrder(portfolioId, accountId);
+  const updateCalendar = useUpdateDealingCalendar(portfolioId, accountId);
+
+  const [orderType, setOrderType] = useState<FundOrderType>(FundOrderType.SUBSCRIPTION);
+  const [quantity, setQuantity] = useState('');
+  const [description, setDescription] = useState('');
+  const [calendarForm, setCalendarForm] = useState<UpdateDealingCalendarRequest>({
+    frequency: DealingFrequency.DAILY,
+    dealingDay: null,
+    cutOffTime: '15:00',
+  });
+
+  useEffect(() => {
+    if (calendar) {
+      setCalendarForm({
+        frequency: calendar.frequency,
+        dealingDay: calendar.dealingDay,
+        cutOffTime: calendar.cutOffTime,
+      });
+    }
+  }, [calendar]);
+
+  const handleSubmit = async () => {
+    const value = Number(quantity);
+    if (!value || value <= 0) {
+      toast.error(t('investorView.orders.invalidQuantity'));
+      return;
+    }
+    try {
+      const order = await createOrder.mutateAsync({
+        orderType,
+        amount: orderType === FundOrderType.SUBSCRIPTION ? value : undefined,
+        units: orderType === FundOrderType.REDEMPTION ? value : undefined,
+        description: description || undefined,
+      });
+      toast.success(t('investorView.orders.submitted', { date: formatDate(order.dealingDate, 'dd/MM/yyyy') }));
+      setQuantity('');
+      setDescription('');
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('investorView.orders.submitFailed'));
+    }
+  };
+
+  const handlePrice = async () => {
+    try {
+      const priced = await priceOrders.mutateAsync();
+      toast.success(t('investorView.orders.priced', { count: priced.length }));
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('investorView.orders.priceFailed'));
+    }
+  };
+
+  const handleApprove = async (order: FundOrder) => {
+    try {
+      await approveOrder.mutateAsync(order.orderId);
+      toast.success(t('investorView.orders.approved'));
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('investorView.orders.approveFailed'));
+    }
+  };
+
+  const handleReject = async (order: FundOrder) => {
+    const reason = window.prompt(t('investorView.orders.rejectReason'));
+    if (!reason) {
+      return;
+    }
+    try {
+      await rejectOrder.mutateAsync({ orderId: order.orderId, reason });
+      toast.success(t('investorView.orders.rejected'));
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('investorView.orders.rejectFailed'));
+    }
+  };
+
+  const handleSaveCalendar = async () => {
+    try {
+      await updateCalendar.mutateAsync(calendarForm);
+      toast.success(t('investorView.orders.calendar.saved'));
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('investorView.orders.calendar.saveFailed'));
+    }
+  };
+
+  const orderColumns = [
+    {
+      key: 'orderType',
+      header: t('investorView.orders.columns.type'),
+      render: (row: FundOrder) => t(`investorView.orders.types.${row.orderType}`),
+    },
+    {
+      key: 'dealingDate',
+      header: t('investorView.orders.columns.dealingDate'),
+      render: (row: FundOrder) => formatDate(row.dealingDate, 'dd/MM/yyyy'),
+    },
+    {
+      key: 'amount',
+      header: t('investorView.orders.columns.amount'),
+      align: 'right' as const,
+      render: (row: FundOrder) => (row.amount != null ? formatCurrency(Number(row.amount), baseCurrency) : '-'),
+    },
+    {
+      key: 'units',
+      header: t('investorView.orders.columns.units'),
+      align: 'right' as const,
+      render: (row: FundOrder) => (row.units != null ? formatNumberWithSeparators(Number(row.units), 3) : '-'),
+    },
+    {
+      key: 'navPerUnit',
+      header: t('investorView.orders.columns.navPerUnit'),
+      align: 'right' as const,
+      render: (row: FundOrder) => (row.navPerUnit != null ? formatCurrency(Number(row.navPerUnit), baseCurrency) : '-'),
+    },
+    {
+      key: 'status',
+      header: t('investorView.orders.columns.status'),
+      render: (row: FundOrder) => (
+        <Tooltip title={row.rejectionReason || ''}>
+          <Chip size="small" color={statusColors[row.status]} label={t(`investorView.orders.statuses.${row.status}`)} />
+        </Tooltip>
+      ),
+    },
+  ];
+
+  return (
+    <Box sx={{ background: 'white', borderRadius: 2, mt: 3 }}>
+      <Box sx={{ p: 2 }}>
+        <ResponsiveTypography variant="chartTitle">
+          {t('investorView.orders.title')}
+        </ResponsiveTypography>
+        <ResponsiveTypography variant="formHelper" color="text.secondary">
+          {calendar
+            ? t('investorView.orders.nextDealing', {
+              date: formatDate(calendar.nextDealingDate, 'dd/MM/yyyy'),
+              frequency: t(`investorView.orders.calendar.frequencies.${calendar.frequency}`),
+              cutOff: calendar.cutOffTime,
+            })
+            : t('investorView.orders.description')}
+        </ResponsiveTypography>
+      </Box>
+
+      <Grid container spacing={2} alignItems="center" sx={{ px: 2, pb: 2 }}>
+        <Grid item xs={12} sm={6} md={3}>
+          <FormControl fullWidth size="small">
+            <InputLabel>{t('investorView.orders.columns.type')}</InputLabel>
+            <Select
+              value={orderType}
+              label={t('investorView.orders.columns.type')}
+              onChange={(event) => setOrderType(event.target.value as FundOrderType)}
+            >
+              {Object.values(FundOrderType).map(type => (
+                <MenuItem key={type} value={type}>{t(`investorView.orders.types.${type}`)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <TextField
+            fullWidth
+            size="small"
+            type="number"
+            label={orderType === FundOrderType.SUBSCRIPTION
+              ? t('investorView.orders.amount', { currency: baseCurrency })
+              : t('investorView.orders.units')}
+            value={quantity}
+            onChange={(event) => setQuantity(event.target.value)}
+            inputProps={{ min: 0 }}
+          />
+        </Grid>
+        <Grid item xs={12} sm={8} md={4}>
+          <TextField
+            fullWidth
+            size="small"
+            label={t('investorView.orders.note')}
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+          />
+        </Grid>
+        <Grid item xs={12} sm={4} md={2}>
+          <Button
+            fullWidth
+            variant="contained"
+            startIcon={createOrder.isLoading ? <CircularProgress size={16} color="inherit" /> : <SubmitIcon />}
+            disabled={createOrder.isLoading}
+            onClick={handleSubmit}
+          >
+            {t('investorView.orders.submit')}
+          </Button>
+        </Grid>
+      </Grid>
+
+      {isLoading && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {!!error && <Alert severity="error" sx={{ m: 2 }}>{t('investorView.orders.loadFailed')}</Alert>}
+
+      {orders && (
+        <ResponsiveTable
+          data={orders}
+          getRowKey={(row: FundOrder) => row.orderId}
+          emptyMessage={t('investorView.orders.noOrders')}
+          columns={orderColumns}
+        />
+      )}
+
+      {canManage && (
+        <>
+          <Divider sx={{ my: 2 }} />
+          <Box sx={{ px: 2, pb: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+            <Box>
+              <ResponsiveTypography variant="cardTitle" sx={{ fontWeight: 600 }}>
+                {t('investorView.orders.queueTitle')}
+              </ResponsiveTypography>
+              <ResponsiveTypography variant="formHelper" color="text.secondary">
+                {t('investorView.orders.queueDescription')}
+              </ResponsiveTypography>
+            </Box>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={priceOrders.isLoading ? <CircularProgress size={16} /> : <PriceIcon />}
+              disabled={priceOrders.isLoading}
+              onClick={handlePrice}
+            >
+              {t('investorView.orders.priceNow')}
+            </Button>
+          </Box>
+
+          <ResponsiveTable
+            data={queue || []}
+            getRowKey={(row: FundOrder) => row.orderId}
+            emptyMessage={t('investorView.orders.emptyQueue')}
+            columns={[
+              {
+                key: 'investor',
+                header: t('investorView.orders.columns.investor'),
+                render: (row: FundOrder) => row.account?.name || row.accountId,
+              },
+              ...orderColumns,
+              {
+                key: 'createdAt',
+                header: t('investorView.orders.columns.createdAt'),
+                render: (row: FundOrder) => formatDateTime(row.createdAt),
+              },
+              {
+                key: 'actions',
+                header: '',
+                align: 'right' as const,
+                render: (row: FundOrder) => (
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                    <Tooltip title={t('investorView.orders.approve')}>
+                      <span>
+                        <IconButton
+                          size="small"
+                          color="success"
+                          disabled={row.status !== FundOrderStatus.PRICED || approveOrder.isLoading}
+                          onClick={() => handleApprove(row)}
+                        >
+                          <ApproveIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title={t('investorView.orders.reject')}>
+                      <span>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          disabled={rejectOrder.isLoading}
+                          onClick={() => handleReject(row)}
+                        >
+                          <RejectIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </Box>
+                ),
+              },
+            ]}
+          />
+
+          <Box sx={{ p: 2 }}>
+            <ResponsiveTypography variant="cardTitle" sx={{ fontWeight: 600, mb: 1 }}>
+              {t('investorView.orders.calendar.title')}
+            </ResponsiveTypography>
+            <Grid container spacing={2} alignItems="center">
+              <Grid item xs={12} sm={4} md={3}>
+                <FormControl fullWidth size="small">
+                  <InputLabel>{t('investorView.orders.calendar.frequency')}</InputLabel>
+                  <Select
+                    value={calendarForm.frequency}
+                    label={t('investorView.orders.calendar.frequency')}
+                    onChange={(event) => setCalendarForm({
+                      ...calendarForm,
+                      frequency: event.target.value as DealingFrequency,
+                      dealingDay: null,
+                    })}
+                  >
+                    {Object.values(DealingFrequency).map(frequency => (
+                      <MenuItem key={frequency} value={frequency}>
+                        {t(`investorView.orders.calendar.frequencies.${frequency}`)}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              {calendarForm.frequency === DealingFrequency.WEEKLY && (
+                <Grid item xs={12} sm={4} md={3}>
+                  <FormControl fullWidth size="small">
+                    <InputLabel>{t('investorView.orders.calendar.weekday')}</InputLabel>
+                    <Select
+                      value={calendarForm.dealingDay || 5}
+                      label={t('investorView.orders.calendar.weekday')}
+                      onChange={(event) => setCalendarForm({ ...calendarForm, dealingDay: Number(event.target.value) })}
+                    >
+                      {[1, 2, 3, 4, 5].map(day => (
+                        <MenuItem key={day} value={day}>{t(`investorView.orders.calendar.weekdays.${day}`)}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
+              )}
+              {calendarForm.frequency === DealingFrequency.MONTHLY && (
+                <Grid item xs={12} sm={4} md={3}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="number"
+                    label={t('investorView.orders.calendar.dayOfMonth')}
+                    helperText={t('investorView.orders.calendar.dayOfMonthHelper')}
+                    value={calendarForm.dealingDay ?? ''}
+                    onChange={(event) => setCalendarForm({
+                      ...calendarForm,
+                      dealingDay: event.target.value ? Number(event.target.value) : null,
+                    })}
+                    inputProps={{ min: 1, max: 31 }}
+                  />
+                </Grid>
+              )}
+              <Grid item xs={12} sm={4} md={3}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="time"
+                  label={t('investorView.orders.calendar.cutOffTime')}
+                  value={calendarForm.cutOffTime}
+                  onChange={(event) => setCalendarForm({ ...calendarForm, cutOffTime: event.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={4} md={3}>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={updateCalendar.isLoading ? <CircularProgress size={16} color="inherit" /> : <SaveIcon />}
+                  disabled={updateCalendar.isLoading}
+                  onClick={handleSaveCalendar}
+                >
+                  {t('common.save')}
+                </Button>
+              </Grid>
+            </Grid>
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default FundOrders;
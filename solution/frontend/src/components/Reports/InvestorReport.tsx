@@ -576,6 +576,38 @@ const InvestorReport: React.FC<InvestorReportProps> = ({
           />
       </ResponsiveCard>
 
+      {data.fees && (
+        <ResponsiveCard
+          variant="transparent"
+          size="medium"
+          spacing="medium"
+          hoverable={false}
+          title={t('investorReport.fees.title')}
+        >
+          <ResponsiveTypography variant="formHelper" color="text.secondary" sx={{ mb: 1 }}>
+            {t('investorReport.fees.rates', {
+              management: formatPercentageValue(data.fees.managementFeeRate, 2),
+              performance: formatPercentageValue(data.fees.performanceFeeRate, 2),
+              hurdle: formatPercentageValue(data.fees.hurdleRate, 2),
+            })}
+          </ResponsiveTypography>
+          <Grid container spacing={2}>
+            {[
+              { label: t('investorReport.fees.highWaterMark'), value: data.fees.highWaterMark },
+              { label: t('investorReport.fees.hurdleNavPerUnit'), value: data.fees.hurdleNavPerUnit },
+              { label: t('investorReport.fees.accruedManagementFee'), value: data.fees.accruedManagementFee },
+              { label: t('investorReport.fees.accruedPerformanceFee'), value: data.fees.accruedPerformanceFee },
+              { label: t('investorReport.fees.crystallizedPerformanceFee'), value: data.fees.crystallizedPerformanceFee },
+            ].map(item => (
+              <Grid item xs={6} md={2.4} key={item.label}>
+                <ResponsiveTypography variant="labelSmall" color="text.secondary">{item.label}</ResponsiveTypography>
+                <ResponsiveTypography variant="cardValue">{formatCurrency(item.value)}</ResponsiveTypography>
+              </Grid>
+            ))}
+          </Grid>
+        </ResponsiveCard>
+      )}
+
       {/* <Divider sx={{ mb: 1 }} /> */}
 
       {data.deposits && data.deposits.length > 0 && (
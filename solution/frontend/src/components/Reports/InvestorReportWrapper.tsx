@@ -48,6 +48,7 @@ const InvestorReportWrapper: React.FC<InvestorReportWrapperProps> = ({
           },
           deposits: comprehensiveData.deposits,
           performance: comprehensiveData.performance,
+          fees: comprehensiveData.fees,
           lastUpdated: comprehensiveData.portfolio.lastUpdated,
         };
         
@@ -0,0 +1,213 @@
+/**
+ * Periodic Statements
+ * Archived monthly and quarterly statements of a portfolio, with HTML and PDF downloads
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Alert,
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  Select,
+  MenuItem,
+  CircularProgress,
+  Tooltip,
+} from '@mui/material';
+import {
+  Description as HtmlIcon,
+  PictureAsPdf as PdfIcon,
+  Refresh as GenerateIcon,
+} from '@mui/icons-material';
+import { toast } from 'react-hot-toast';
+import { useAccount } from '../../contexts/AccountContext';
+import { useStatements, useGenerateStatements } from '../../hooks/useStatements';
+import { statementApi } from '../../services/api.statement';
+import { PortfolioStatement, StatementPeriodType, StatementFormat } from '../../types/statement.types';
+import { formatCurrency, formatDateTime, formatPercentageValue } from '../../utils/format';
+import ResponsiveTypography from '../Common/ResponsiveTypography';
+import ResponsiveTable from '../Common/ResponsiveTable';
+
+interface PeriodicStatementsProps {
+  portfolios: Array<{ portfolioId: string; name: string; baseCurrency?: string }>;
+}
+
+export const PeriodicStatements: React.FC<PeriodicStatementsProps> = ({ portfolios }) => {
+  const { t } = useTranslation();
+  const { accountId, baseCurrency } = useAccount();
+  const [portfolioId, setPortfolioId] = useState('');
+  const [periodType, setPeriodType] = useState<StatementPeriodType>(StatementPeriodType.MONTHLY);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!portfolioId && portfolios.length > 0) {
+      setPortfolioId(portfolios[0].portfolioId);
+    }
+  }, [portfolios, portfolioId]);
+
+  const { data: statements, isLoading, error } = useStatements(portfolioId, accountId, periodType);
+  const generateStatements = useGenerateStatements(portfolioId, accountId);
+  const currency = portfolios.find(portfolio => portfolio.portfolioId === portfolioId)?.baseCurrency || baseCurrency;
+
+  const handleGenerate = async () => {
+    try {
+      await generateStatements.mutateAsync({ periodType });
+      toast.success(t('report.statements.generated'));
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('report.statements.generateFailed'));
+    }
+  };
+
+  const handleDownload = async (statement: PortfolioStatement, format: StatementFormat) => {
+    setDownloading(`${statement.statementId}-${format}`);
+    try {
+      const blob = await statementApi.downloadStatement(portfolioId, statement.statementId, format, accountId);
+      const url = URL.createObjectURL(blob);
+      if (format === 'html') {
+        window.open(url, '_blank');
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `statement-${statement.label}${statement.investorName ? `-${statement.investorName}` : ''}.pdf`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      }
+    } catch (err) {
+      toast.error(t('report.statements.downloadFailed'));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Box sx={{ background: 'white', borderRadius: 2, mt: 3 }}>
+      <Box sx={{ p: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <Box>
+          <ResponsiveTypography variant="chartTitle">
+            {t('report.statements.title')}
+          </ResponsiveTypography>
+          <ResponsiveTypography variant="formHelper" color="text.secondary">
+            {t('report.statements.description')}
+          </ResponsiveTypography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>{t('report.statements.portfolio')}</InputLabel>
+            <Select value={portfolioId} label={t('report.statements.portfolio')} onChange={(event) => setPortfolioId(event.target.value)}>
+              {portfolios.map(portfolio => (
+                <MenuItem key={portfolio.portfolioId} value={portfolio.portfolioId}>{portfolio.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>{t('report.statements.periodType')}</InputLabel>
+            <Select
+              value={periodType}
+              label={t('report.statements.periodType')}
+              onChange={(event) => setPeriodType(event.target.value as StatementPeriodType)}
+            >
+              {Object.values(StatementPeriodType).map(type => (
+                <MenuItem key={type} value={type}>{t(`report.statements.periodTypes.${type}`)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={generateStatements.isLoading ? <CircularProgress size={16} /> : <GenerateIcon />}
+            disabled={!portfolioId || generateStatements.isLoading}
+            onClick={handleGenerate}
+          >
+            {t('report.statements.generate')}
+          </Button>
+        </Box>
+      </Box>
+
+      {isLoading && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {!!error && <Alert severity="error" sx={{ m: 2 }}>{t('report.statements.loadFailed')}</Alert>}
+
+      {statements && (
+        <ResponsiveTable
+          data={statements}
+          getRowKey={(row: PortfolioStatement) => row.statementId}
+          emptyMessage={t('report.statements.noData')}
+          columns={[
+            { key: 'label', header: t('report.statements.columns.period') },
+            {
+              key: 'investorName',
+              header: t('report.statements.columns.recipient'),
+              render: (row: PortfolioStatement) => row.investorName || t('report.statements.portfolioStatement'),
+            },
+            {
+              key: 'openingValue',
+              header: t('report.statements.columns.openingValue'),
+              align: 'right',
+              render: (row: PortfolioStatement) => formatCurrency(row.openingValue, currency),
+            },
+            {
+              key: 'closingValue',
+              header: t('report.statements.columns.closingValue'),
+              align: 'right',
+              render: (row: PortfolioStatement) => formatCurrency(row.closingValue, currency),
+            },
+            {
+              key: 'twr',
+              header: t('report.statements.columns.twr'),
+              align: 'right',
+              render: (row: PortfolioStatement) => formatPercentageValue(row.twr, 2),
+            },
+            {
+              key: 'generatedAt',
+              header: t('report.statements.columns.generatedAt'),
+              render: (row: PortfolioStatement) => formatDateTime(row.generatedAt),
+            },
+            {
+              key: 'actions',
+              header: '',
+              align: 'right',
+              render: (row: PortfolioStatement) => (
+                <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                  <Tooltip title={t('report.statements.viewHtml')}>
+                    <span>
+                      <IconButton
+                        size="small"
+                        disabled={downloading === `${row.statementId}-html`}
+                        onClick={() => handleDownload(row, 'html')}
+                      >
+                        <HtmlIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title={t('report.statements.downloadPdf')}>
+                    <span>
+                      <IconButton
+                        size="small"
+                        disabled={downloading === `${row.statementId}-pdf`}
+                        onClick={() => handleDownload(row, 'pdf')}
+                      >
+                        <PdfIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Box>
+              ),
+            },
+          ]}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default PeriodicStatements;
@@ -20,7 +20,8 @@ import {
   ListItemText,
   ListItemSecondaryAction,
   Avatar,
-  Tooltip
+  Tooltip,
+  TextField
 } from '@mui/material';
 import { ResponsiveTypography } from '../Common/ResponsiveTypography';
 import { ResponsiveButton, ActionButton } from '../Common';
@@ -33,6 +34,7 @@ import {
   Warning as WarningIcon
 } from '@mui/icons-material';
 import { deviceTrustService, TrustedDevice, DeviceStats } from '../../services/deviceTrustService';
+import { authService } from '../../services/authService';
 
 export const DeviceManagement: React.FC = () => {
   const { t } = useTranslation();
@@ -49,6 +51,9 @@ export const DeviceManagement: React.FC = () => {
   const [revokeAllDialogOpen, setRevokeAllDialogOpen] = useState(false);
   const [revokingDeviceId, setRevokingDeviceId] = useState<string | null>(null);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
+  // Revoking needs a two-factor code when the user has two-factor enabled
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
 
   useEffect(() => {
     loadData();
@@ -76,11 +81,15 @@ export const DeviceManagement: React.FC = () => {
   const handleRevokeDevice = async (deviceId: string) => {
     try {
       setRevokingDeviceId(deviceId);
-      await deviceTrustService.revokeDevice(deviceId);
+      await deviceTrustService.revokeDevice(deviceId, needsTwoFactor ? twoFactorCode.trim() : undefined);
       await loadData();
-      setRevokeDialogOpen(false);
+      closeDialogs();
     } catch (err: any) {
-      setError(err.message || t('deviceManagement.errors.revokeFailed'));
+      if (authService.isTwoFactorRequired(err)) {
+        setNeedsTwoFactor(true);
+        return;
+      }
+      setError(err.response?.data?.message || err.message || t('deviceManagement.errors.revokeFailed'));
     } finally {
       setRevokingDeviceId(null);
     }
@@ -89,16 +98,41 @@ export const DeviceManagement: React.FC = () => {
   const handleRevokeAllDevices = async () => {
     try {
       setRevokingDeviceId('all');
-      await deviceTrustService.revokeAllDevices();
+      await deviceTrustService.revokeAllDevices(needsTwoFactor ? twoFactorCode.trim() : undefined);
       await loadData();
-      setRevokeAllDialogOpen(false);
+      closeDialogs();
     } catch (err: any) {
-      setError(err.message || t('deviceManagement.errors.revokeAllFailed'));
+      if (authService.isTwoFactorRequired(err)) {
+        setNeedsTwoFactor(true);
+        return;
+      }
+      setError(err.response?.data?.message || err.message || t('deviceManagement.errors.revokeAllFailed'));
     } finally {
       setRevokingDeviceId(null);
     }
   };
 
+  const closeDialogs = () => {
+    setRevokeDialogOpen(false);
+    setRevokeAllDialogOpen(false);
+    setNeedsTwoFactor(false);
+    setTwoFactorCode('');
+  };
+
+  const twoFactorField = needsTwoFactor && (
+    <TextField
+      fullWidth
+      autoFocus
+      size="small"
+      label={t('twoFactor.codeLabel')}
+      value={twoFactorCode}
+      onChange={(e) => setTwoFactorCode(e.target.value)}
+      helperText={t('twoFactor.codeHelper')}
+      inputProps={{ autoComplete: 'one-time-code' }}
+      sx={{ mt: 2 }}
+    />
+  );
+
   const getTrustLevelColor = (trustLevel: 'LOW' | 'MEDIUM' | 'HIGH') => {
     return deviceTrustService.getTrustLevelColor(trustLevel);
   };
@@ -300,22 +334,23 @@ export const DeviceManagement: React.FC = () => {
       </Card>
 
       {/* Revoke Device Dialog */}
-      <Dialog open={revokeDialogOpen} onClose={() => setRevokeDialogOpen(false)}>
+      <Dialog open={revokeDialogOpen} onClose={closeDialogs}>
         <DialogTitle sx={{ fontWeight: 'bold' }}>{t('deviceManagement.dialogs.revokeDevice.title')}</DialogTitle>
         <DialogContent>
           <ResponsiveTypography variant="body2" ellipsis={false}>
             {t('deviceManagement.dialogs.revokeDevice.message')}
           </ResponsiveTypography>
+          {twoFactorField}
         </DialogContent>
         <DialogActions>
-                <ResponsiveButton onClick={() => setRevokeDialogOpen(false)}>
+                <ResponsiveButton onClick={closeDialogs}>
                   {t('deviceManagement.dialogs.revokeDevice.cancel')}
                 </ResponsiveButton>
                 <ActionButton
                   variant="contained"
                   color="error"
                   onClick={() => handleRevokeDevice(selectedDeviceId || '')}
-                  disabled={revokingDeviceId !== null}
+                  disabled={revokingDeviceId !== null || (needsTwoFactor && !twoFactorCode.trim())}
                   icon={revokingDeviceId ? undefined : undefined}
                   forceTextOnly={true}
                   mobileText={t('deviceManagement.dialogs.revokeDevice.confirm')}
@@ -327,7 +362,7 @@ export const DeviceManagement: React.FC = () => {
       </Dialog>
 
       {/* Revoke All Devices Dialog */}
-      <Dialog open={revokeAllDialogOpen} onClose={() => setRevokeAllDialogOpen(false)}>
+      <Dialog open={revokeAllDialogOpen} onClose={closeDialogs}>
         <DialogTitle sx={{ fontWeight: 'bold' }}>{t('deviceManagement.dialogs.revokeAll.title')}</DialogTitle>
         <DialogContent>
           <Alert severity="warning" sx={{ mb: 2 }}>
@@ -338,16 +373,17 @@ export const DeviceManagement: React.FC = () => {
           <ResponsiveTypography variant="body2" ellipsis={false}>
             {t('deviceManagement.dialogs.revokeAll.message', { count: devices.length })}
           </ResponsiveTypography>
+          {twoFactorField}
         </DialogContent>
         <DialogActions>
-                <ResponsiveButton onClick={() => setRevokeAllDialogOpen(false)}>
+                <ResponsiveButton onClick={closeDialogs}>
                   {t('deviceManagement.dialogs.revokeAll.cancel')}
                 </ResponsiveButton>
                 <ActionButton
                   variant="contained"
                   color="error"
                   onClick={handleRevokeAllDevices}
-                  disabled={revokingDeviceId !== null}
+                  disabled={revokingDeviceId !== null || (needsTwoFactor && !twoFactorCode.trim())}
                   icon={revokingDeviceId === 'all' ? undefined : undefined}
                   forceTextOnly={true}
                   mobileText={revokingDeviceId === 'all' ? t('deviceManagement.dialogs.revokeAll.revoking') : t('deviceManagement.dialogs.revokeAll.confirm')}
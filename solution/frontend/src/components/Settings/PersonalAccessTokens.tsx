@@ -0,0 +1,387 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  Box,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+  Tooltip,
+  TextField,
+  MenuItem,
+  Autocomplete,
+  InputAdornment,
+} from '@mui/material';
+import {
+  Key as KeyIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ContentCopy as CopyIcon,
+} from '@mui/icons-material';
+import { toast } from 'react-hot-toast';
+import { ResponsiveTypography } from '../Common/ResponsiveTypography';
+import { ResponsiveButton, ActionButton } from '../Common';
+import { authService } from '../../services/authService';
+import {
+  personalAccessTokenService,
+  PersonalAccessTokenInfo,
+  PersonalAccessTokenScope,
+} from '../../services/personalAccessTokenService';
+import { useAccount } from '../../contexts/AccountContext';
+import { usePortfolios } from '../../hooks/usePortfolios';
+import { formatDateTime } from '../../utils/format';
+
+const EXPIRY_OPTIONS = [30, 90, 180, 365];
+
+export const PersonalAccessTokens: React.FC = () => {
+  const { t } = useTranslation();
+  const { accountId } = useAccount();
+  const { portfolios = [] } = usePortfolios(accountId);
+  const [tokens, setTokens] = useState<PersonalAccessTokenInfo[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<PersonalAccessTokenScope[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<PersonalAccessTokenScope[]>([]);
+  const [portfolioIds, setPortfolioIds] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [selectedToken, setSelectedToken] = useState<PersonalAccessTokenInfo | null>(null);
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const loadTokens = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [tokenList, scopeList] = await Promise.all([
+        personalAccessTokenService.getTokens(),
+        personalAccessTokenService.getScopes(),
+      ]);
+      setTokens(tokenList);
+      setAvailableScopes(scopeList);
+    } catch (err: any) {
+      setError(err.response?.data?.message || t('personalAccessTokens.errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeCreateDialog = () => {
+    setCreateOpen(false);
+    setName('');
+    setScopes([]);
+    setPortfolioIds([]);
+    setExpiresInDays(90);
+    setNeedsTwoFactor(false);
+    setTwoFactorCode('');
+  };
+
+  const handleCreate = async () => {
+    try {
+      setBusy(true);
+      const created = await personalAccessTokenService.createToken({
+        name: name.trim(),
+        scopes: scopes.map(scope => scope.name),
+        portfolioIds: portfolioIds.length > 0 ? portfolioIds : undefined,
+        expiresInDays,
+        twoFactorCode: needsTwoFactor ? twoFactorCode.trim() : undefined,
+      });
+      closeCreateDialog();
+      setCreatedToken(created.token);
+      await loadTokens();
+    } catch (err: any) {
+      if (authService.isTwoFactorRequired(err)) {
+        setNeedsTwoFactor(true);
+        return;
+      }
+      const message = err.response?.data?.message;
+      toast.error(Array.isArray(message) ? message.join(', ') : message || t('personalAccessTokens.errors.createFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!selectedToken) return;
+    try {
+      setBusy(true);
+      await personalAccessTokenService.revokeToken(selectedToken.tokenId);
+      toast.success(t('personalAccessTokens.revoked'));
+      setSelectedToken(null);
+      await loadTokens();
+    } catch (err: any) {
+      setError(err.response?.data?.message || t('personalAccessTokens.errors.revokeFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast.success(t('personalAccessTokens.copied'));
+    } catch {
+      toast.error(t('personalAccessTokens.errors.copyFailed'));
+    }
+  };
+
+  const portfolioName = (portfolioId: string) =>
+    portfolios.find(portfolio => portfolio.portfolioId === portfolioId)?.name || portfolioId;
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="120px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardHeader
+        avatar={<KeyIcon color="primary" />}
+        title={t('personalAccessTokens.title')}
+        subheader={t('personalAccessTokens.subtitle')}
+      />
+      <CardContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {tokens.length === 0 ? (
+          <ResponsiveTypography variant="body2" color="text.secondary" ellipsis={false}>
+            {t('personalAccessTokens.empty')}
+          </ResponsiveTypography>
+        ) : (
+          <List>
+            {tokens.map((token, index) => (
+              <React.Fragment key={token.tokenId}>
+                <ListItem>
+                  <ListItemText
+                    primary={
+                      <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+                        <ResponsiveTypography variant="cardTitle">{token.name}</ResponsiveTypography>
+                        <Chip label={`${token.tokenPrefix}…`} size="small" variant="outlined" sx={{ fontFamily: 'monospace' }} />
+                        {!token.isActive && (
+                          <Chip label={t('personalAccessTokens.inactive')} size="small" color="default" />
+                        )}
+                      </Box>
+                    }
+                    secondary={
+                      <Box>
+                        <Box display="flex" gap={0.5} flexWrap="wrap" my={0.5}>
+                          {token.scopes.map(scope => (
+                            <Chip key={scope} label={scope} size="small" color="primary" variant="outlined" />
+                          ))}
+                        </Box>
+                        <ResponsiveTypography variant="cardSubtitle" color="text.secondary">
+                          {token.portfolioIds
+                            ? `${t('personalAccessTokens.portfolios')}: ${token.portfolioIds.map(portfolioName).join(', ')}`
+                            : t('personalAccessTokens.allPortfolios')}
+                        </ResponsiveTypography>
+                        <ResponsiveTypography variant="cardSubtitle" color="text.secondary">
+                          {t('personalAccessTokens.lastUsed')}: {token.lastUsedAt
+                            ? `${formatDateTime(token.lastUsedAt)}${token.lastUsedIp ? ` • ${token.lastUsedIp}` : ''}`
+                            : t('personalAccessTokens.neverUsed')} • {t('personalAccessTokens.expires')}: {formatDateTime(token.expiresAt)}
+                        </ResponsiveTypography>
+                      </Box>
+                    }
+                  />
+                  {token.isActive && (
+                    <ListItemSecondaryAction>
+                      <Tooltip title={t('personalAccessTokens.revoke')}>
+                        <IconButton edge="end" color="error" onClick={() => setSelectedToken(token)}>
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </ListItemSecondaryAction>
+                  )}
+                </ListItem>
+                {index < tokens.length - 1 && <Divider />}
+              </React.Fragment>
+            ))}
+          </List>
+        )}
+
+        <Box mt={2}>
+          <ActionButton
+            variant="outlined"
+            icon={<AddIcon />}
+            onClick={() => setCreateOpen(true)}
+            mobileText={t('personalAccessTokens.create')}
+            desktopText={t('personalAccessTokens.create')}
+          >
+            {t('personalAccessTokens.create')}
+          </ActionButton>
+        </Box>
+      </CardContent>
+
+      <Dialog open={createOpen} onClose={closeCreateDialog} maxWidth="sm" fullWidth>
+        <DialogTitle sx={{ fontWeight: 'bold' }}>{t('personalAccessTokens.create')}</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            autoFocus
+            size="small"
+            label={t('personalAccessTokens.name')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            inputProps={{ maxLength: 100 }}
+            sx={{ mt: 1 }}
+          />
+          <Autocomplete
+            multiple
+            size="small"
+            options={availableScopes}
+            groupBy={(scope) => scope.category}
+            getOptionLabel={(scope) => scope.name}
+            renderOption={(props, scope) => (
+              <li {...props}>
+                <Box>
+                  <ResponsiveTypography variant="body2">{scope.name}</ResponsiveTypography>
+                  <ResponsiveTypography variant="caption" color="text.secondary">{scope.displayName}</ResponsiveTypography>
+                </Box>
+              </li>
+            )}
+            value={scopes}
+            onChange={(_, value) => setScopes(value)}
+            isOptionEqualToValue={(option, value) => option.name === value.name}
+            renderInput={(params) => (
+              <TextField {...params} label={t('personalAccessTokens.scopes')} helperText={t('personalAccessTokens.scopesHelper')} />
+            )}
+            sx={{ mt: 2 }}
+          />
+          <Autocomplete
+            multiple
+            size="small"
+            options={portfolios.map(portfolio => portfolio.portfolioId)}
+            getOptionLabel={portfolioName}
+            value={portfolioIds}
+            onChange={(_, value) => setPortfolioIds(value)}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label={t('personalAccessTokens.portfolios')}
+                helperText={t('personalAccessTokens.portfoliosHelper')}
+              />
+            )}
+            sx={{ mt: 2 }}
+          />
+          <TextField
+            select
+            fullWidth
+            size="small"
+            label={t('personalAccessTokens.expiry')}
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            sx={{ mt: 2 }}
+          >
+            {EXPIRY_OPTIONS.map(days => (
+              <MenuItem key={days} value={days}>
+                {t('personalAccessTokens.expiryDays', { count: days })}
+              </MenuItem>
+            ))}
+          </TextField>
+          {needsTwoFactor && (
+            <TextField
+              fullWidth
+              size="small"
+              label={t('twoFactor.codeLabel')}
+              value={twoFactorCode}
+              onChange={(e) => setTwoFactorCode(e.target.value)}
+              helperText={t('twoFactor.codeHelper')}
+              inputProps={{ autoComplete: 'one-time-code' }}
+              sx={{ mt: 2 }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <ResponsiveButton onClick={closeCreateDialog}>
+            {t('common.cancel')}
+          </ResponsiveButton>
+          <ActionButton
+            variant="contained"
+            onClick={handleCreate}
+            disabled={busy || !name.trim() || scopes.length === 0 || (needsTwoFactor && !twoFactorCode.trim())}
+            forceTextOnly={true}
+          >
+            {t('personalAccessTokens.create')}
+          </ActionButton>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={createdToken !== null} onClose={() => setCreatedToken(null)} maxWidth="sm" fullWidth>
+        <DialogTitle sx={{ fontWeight: 'bold' }}>{t('personalAccessTokens.createdTitle')}</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {t('personalAccessTokens.createdWarning')}
+          </Alert>
+          <TextField
+            fullWidth
+            size="small"
+            value={createdToken || ''}
+            InputProps={{
+              readOnly: true,
+              sx: { fontFamily: 'monospace' },
+              endAdornment: (
+                <InputAdornment position="end">
+                  <Tooltip title={t('common.copy')}>
+                    <IconButton edge="end" onClick={handleCopy}>
+                      <CopyIcon />
+                    </IconButton>
+                  </Tooltip>
+                </InputAdornment>
+              ),
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <ResponsiveButton onClick={() => setCreatedToken(null)}>
+            {t('common.close')}
+          </ResponsiveButton>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={selectedToken !== null} onClose={() => setSelectedToken(null)}>
+        <DialogTitle sx={{ fontWeight: 'bold' }}>{t('personalAccessTokens.revokeTitle')}</DialogTitle>
+        <DialogContent>
+          <ResponsiveTypography variant="body2" ellipsis={false}>
+            {t('personalAccessTokens.revokeDescription', { name: selectedToken?.name })}
+          </ResponsiveTypography>
+        </DialogContent>
+        <DialogActions>
+          <ResponsiveButton onClick={() => setSelectedToken(null)}>
+            {t('common.cancel')}
+          </ResponsiveButton>
+          <ActionButton variant="contained" color="error" onClick={handleRevoke} disabled={busy} forceTextOnly={true}>
+            {t('personalAccessTokens.revoke')}
+          </ActionButton>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default PersonalAccessTokens;
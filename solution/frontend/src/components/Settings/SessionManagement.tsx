@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  Box,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+  Avatar,
+  Tooltip,
+} from '@mui/material';
+import {
+  Devices as DevicesIcon,
+  Logout as LogoutIcon,
+} from '@mui/icons-material';
+import { toast } from 'react-hot-toast';
+import { ResponsiveTypography } from '../Common/ResponsiveTypography';
+import { ResponsiveButton, ActionButton } from '../Common';
+import { authService, UserSessionInfo } from '../../services/authService';
+import { formatDateTime } from '../../utils/format';
+
+export const SessionManagement: React.FC = () => {
+  const { t } = useTranslation();
+  const [sessions, setSessions] = useState<UserSessionInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSession, setSelectedSession] = useState<UserSessionInfo | null>(null);
+  const [revokeOthersOpen, setRevokeOthersOpen] = useState(false);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSessions(await authService.getSessions());
+    } catch (err: any) {
+      setError(err.response?.data?.message || t('sessions.errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!selectedSession) return;
+    try {
+      setBusy(true);
+      await authService.revokeSession(selectedSession.sessionId);
+      toast.success(t('sessions.revoked'));
+      setSelectedSession(null);
+      await loadSessions();
+    } catch (err: any) {
+      setError(err.response?.data?.message || t('sessions.errors.revokeFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      setBusy(true);
+      const count = await authService.revokeOtherSessions();
+      toast.success(t('sessions.othersRevoked', { count }));
+      setRevokeOthersOpen(false);
+      await loadSessions();
+    } catch (err: any) {
+      setError(err.response?.data?.message || t('sessions.errors.revokeFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="120px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const hasOtherSessions = sessions.some(session => !session.isCurrent);
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardHeader
+        avatar={<DevicesIcon color="primary" />}
+        title={t('sessions.title')}
+        subheader={t('sessions.subtitle')}
+      />
+      <CardContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <List>
+          {sessions.map((session, index) => (
+            <React.Fragment key={session.sessionId}>
+              <ListItem>
+                <Avatar sx={{ bgcolor: session.isCurrent ? 'success.main' : 'primary.main', mr: 2 }}>
+                  <DevicesIcon />
+                </Avatar>
+                <ListItemText
+                  primary={
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <ResponsiveTypography variant="cardTitle">
+                        {session.deviceName || t('sessions.unknownDevice')}
+                      </ResponsiveTypography>
+                      {session.isCurrent && (
+                        <Chip label={t('sessions.current')} size="small" color="success" variant="outlined" />
+                      )}
+                    </Box>
+                  }
+                  secondary={
+                    <Box>
+                      <ResponsiveTypography variant="cardSubtitle" color="text.secondary">
+                        {[session.browserInfo, session.ipAddress, session.location].filter(Boolean).join(' • ')}
+                      </ResponsiveTypography>
+                      <ResponsiveTypography variant="cardSubtitle" color="text.secondary">
+                        {t('sessions.lastSeen')}: {formatDateTime(session.lastSeenAt)} • {t('sessions.signedIn')}: {formatDateTime(session.createdAt)}
+                      </ResponsiveTypography>
+                    </Box>
+                  }
+                />
+                {!session.isCurrent && (
+                  <ListItemSecondaryAction>
+                    <Tooltip title={t('sessions.revoke')}>
+                      <IconButton edge="end" color="error" onClick={() => setSelectedSession(session)}>
+                        <LogoutIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </ListItemSecondaryAction>
+                )}
+              </ListItem>
+              {index < sessions.length - 1 && <Divider />}
+            </React.Fragment>
+          ))}
+        </List>
+
+        {hasOtherSessions ? (
+          <Box mt={2}>
+            <ActionButton
+              variant="outlined"
+              color="error"
+              icon={<LogoutIcon />}
+              onClick={() => setRevokeOthersOpen(true)}
+              mobileText={t('sessions.revokeOthers')}
+              desktopText={t('sessions.revokeOthers')}
+            >
+              {t('sessions.revokeOthers')}
+            </ActionButton>
+          </Box>
+        ) : (
+          <ResponsiveTypography variant="body2" color="text.secondary" ellipsis={false} sx={{ mt: 1 }}>
+            {t('sessions.noOthers')}
+          </ResponsiveTypography>
+        )}
+      </CardContent>
+
+      <Dialog open={selectedSession !== null} onClose={() => setSelectedSession(null)}>
+        <DialogTitle sx={{ fontWeight: 'bold' }}>{t('sessions.revokeTitle')}</DialogTitle>
+        <DialogContent>
+          <ResponsiveTypography variant="body2" ellipsis={false}>
+            {t('sessions.revokeDescription')}
+          </ResponsiveTypography>
+        </DialogContent>
+        <DialogActions>
+          <ResponsiveButton onClick={() => setSelectedSession(null)}>
+            {t('common.cancel')}
+          </ResponsiveButton>
+          <ActionButton variant="contained" color="error" onClick={handleRevoke} disabled={busy} forceTextOnly={true}>
+            {t('sessions.revoke')}
+          </ActionButton>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={revokeOthersOpen} onClose={() => setRevokeOthersOpen(false)}>
+        <DialogTitle sx={{ fontWeight: 'bold' }}>{t('sessions.revokeOthers')}</DialogTitle>
+        <DialogContent>
+          <ResponsiveTypography variant="body2" ellipsis={false}>
+            {t('sessions.revokeOthersDescription')}
+          </ResponsiveTypography>
+        </DialogContent>
+        <DialogActions>
+          <ResponsiveButton onClick={() => setRevokeOthersOpen(false)}>
+            {t('common.cancel')}
+          </ResponsiveButton>
+          <ActionButton variant="contained" color="error" onClick={handleRevokeOthers} disabled={busy} forceTextOnly={true}>
+            {t('common.confirm')}
+          </ActionButton>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default SessionManagement;
@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  Box,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  TextField,
+  Grid,
+} from '@mui/material';
+import {
+  PhonelinkLock as TwoFactorIcon,
+  ContentCopy as CopyIcon,
+} from '@mui/icons-material';
+import { toast } from 'react-hot-toast';
+import { ResponsiveTypography } from '../Common/ResponsiveTypography';
+import { ResponsiveButton, ActionButton } from '../Common';
+import { authService, TwoFactorEnrollment, TwoFactorStatus } from '../../services/authService';
+
+type CodeAction = 'disable' | 'regenerate';
+
+export const TwoFactorSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setLoading(true);
+      setStatus(await authService.getTwoFactorStatus());
+    } catch (err: any) {
+      setError(err.response?.data?.message || t('twoFactor.errors.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err: any) {
+      setError(err.response?.data?.message === 'Invalid two-factor code'
+        ? t('twoFactor.invalidCode')
+        : err.response?.data?.message || t('twoFactor.errors.actionFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnroll = () => run(async () => {
+    setEnrollment(await authService.enrollTwoFactor());
+    setCode('');
+  });
+
+  const handleConfirm = () => run(async () => {
+    setRecoveryCodes(await authService.confirmTwoFactor(code.trim()));
+    setEnrollment(null);
+    setCode('');
+    await loadStatus();
+  });
+
+  const handleCodeAction = () => run(async () => {
+    if (codeAction === 'disable') {
+      await authService.disableTwoFactor(code.trim());
+      toast.success(t('twoFactor.disabled'));
+    } else {
+      setRecoveryCodes(await authService.regenerateRecoveryCodes(code.trim()));
+    }
+    setCodeAction(null);
+    setCode('');
+    await loadStatus();
+  });
+
+  const copyRecoveryCodes = async () => {
+    try {
+      await navigator.clipboard.writeText((recoveryCodes || []).join('\n'));
+      toast.success(t('twoFactor.recoveryCodes.copied'));
+    } catch {
+      toast.error(t('twoFactor.recoveryCodes.copyFailed'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="120px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardHeader
+        avatar={<TwoFactorIcon color="primary" />}
+        title={t('settings.security.twoFactor.title')}
+        subheader={t('settings.security.twoFactor.subtitle')}
+        action={status && (
+          <Chip
+            label={status.enabled ? t('twoFactor.enabled') : t('twoFactor.notEnabled')}
+            color={status.enabled ? 'success' : 'default'}
+            size="small"
+            sx={{ mt: 1, mr: 1 }}
+          />
+        )}
+      />
+      <CardContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {recoveryCodes && (
+          <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setRecoveryCodes(null)}>
+            <ResponsiveTypography variant="body2" ellipsis={false} sx={{ mb: 1 }}>
+              {t('twoFactor.recoveryCodes.description')}
+            </ResponsiveTypography>
+            <Grid container spacing={1} sx={{ mb: 1, fontFamily: 'monospace' }}>
+              {recoveryCodes.map(recoveryCode => (
+                <Grid item xs={6} key={recoveryCode}>{recoveryCode}</Grid>
+              ))}
+            </Grid>
+            <ResponsiveButton size="small" variant="outlined" icon={<CopyIcon />} onClick={copyRecoveryCodes}>
+              {t('twoFactor.recoveryCodes.copy')}
+            </ResponsiveButton>
+          </Alert>
+        )}
+
+        {status?.enabled ? (
+          <Box>
+            <ResponsiveTypography variant="body2" color="text.secondary" ellipsis={false} sx={{ mb: 2 }}>
+              {t('twoFactor.enabledDescription', { count: status.recoveryCodesRemaining })}
+            </ResponsiveTypography>
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              <ResponsiveButton variant="outlined" onClick={() => setCodeAction('regenerate')}>
+                {t('twoFactor.regenerate')}
+              </ResponsiveButton>
+              <ResponsiveButton variant="outlined" color="error" onClick={() => setCodeAction('disable')}>
+                {t('twoFactor.disable')}
+              </ResponsiveButton>
+            </Box>
+          </Box>
+        ) : enrollment ? (
+          <Box>
+            <ResponsiveTypography variant="body2" ellipsis={false} sx={{ mb: 2 }}>
+              {t('twoFactor.scanDescription')}
+            </ResponsiveTypography>
+            <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+              <Box
+                component="img"
+                src={enrollment.qrCode}
+                alt={t('twoFactor.qrAlt')}
+                sx={{ width: 200, height: 200, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}
+              />
+              <Box sx={{ flex: 1, minWidth: 220 }}>
+                <ResponsiveTypography variant="formHelper" color="text.secondary">
+                  {t('twoFactor.manualEntry')}
+                </ResponsiveTypography>
+                <ResponsiveTypography variant="body2" ellipsis={false} sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mb: 2 }}>
+                  {enrollment.secret}
+                </ResponsiveTypography>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={t('twoFactor.codeLabel')}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputProps={{ autoComplete: 'one-time-code', inputMode: 'numeric' }}
+                  sx={{ mb: 2 }}
+                />
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <ActionButton
+                    variant="contained"
+                    onClick={handleConfirm}
+                    disabled={busy || !code.trim()}
+                    forceTextOnly={true}
+                  >
+                    {t('twoFactor.verify')}
+                  </ActionButton>
+                  <ResponsiveButton variant="outlined" onClick={() => setEnrollment(null)} disabled={busy}>
+                    {t('common.cancel')}
+                  </ResponsiveButton>
+                </Box>
+              </Box>
+            </Box>
+          </Box>
+        ) : (
+          <Box>
+            <ResponsiveTypography variant="body2" color="text.secondary" ellipsis={false} sx={{ mb: 2 }}>
+              {t('twoFactor.notEnabledDescription')}
+            </ResponsiveTypography>
+            <ActionButton variant="contained" onClick={handleEnroll} disabled={busy} forceTextOnly={true}>
+              {t('twoFactor.enable')}
+            </ActionButton>
+          </Box>
+        )}
+      </CardContent>
+
+      <Dialog open={codeAction !== null} onClose={() => { setCodeAction(null); setCode(''); }}>
+        <DialogTitle sx={{ fontWeight: 'bold' }}>
+          {codeAction === 'disable' ? t('twoFactor.disable') : t('twoFactor.regenerate')}
+        </DialogTitle>
+        <DialogContent>
+          <ResponsiveTypography variant="body2" ellipsis={false}>
+            {codeAction === 'disable' ? t('twoFactor.disableDescription') : t('twoFactor.regenerateDescription')}
+          </ResponsiveTypography>
+          <TextField
+            fullWidth
+            autoFocus
+            size="small"
+            label={t('twoFactor.codeLabel')}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            helperText={t('twoFactor.codeHelper')}
+            inputProps={{ autoComplete: 'one-time-code' }}
+            sx={{ mt: 2 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <ResponsiveButton onClick={() => { setCodeAction(null); setCode(''); }}>
+            {t('common.cancel')}
+          </ResponsiveButton>
+          <ActionButton
+            variant="contained"
+            color={codeAction === 'disable' ? 'error' : 'primary'}
+            onClick={handleCodeAction}
+            disabled={busy || !code.trim()}
+            forceTextOnly={true}
+          >
+            {t('common.confirm')}
+          </ActionButton>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,197 @@
+/**
+ * Cost Basis Settings
+ * Choose how sells are matched to buy lots, preview the realized P&L change and apply it
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Typography,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  CircularProgress,
+  Chip,
+} from '@mui/material';
+import { CostBasisMethod, CostBasisPreview } from '../../types';
+import {
+  useCostBasisMethod,
+  usePreviewCostBasisMethod,
+  useChangeCostBasisMethod,
+} from '../../hooks/useTrading';
+import { usePortfolio } from '../../hooks/usePortfolios';
+import { formatCurrency } from '../../utils/format';
+
+interface CostBasisSettingsProps {
+  portfolioId: string;
+}
+
+const METHODS = Object.values(CostBasisMethod);
+
+const differenceColor = (value: number) => {
+  if (value > 0) return 'success.main';
+  if (value < 0) return 'error.main';
+  return 'text.secondary';
+};
+
+export const CostBasisSettings: React.FC<CostBasisSettingsProps> = ({ portfolioId }) => {
+  const { t } = useTranslation();
+  const { data: current, isLoading } = useCostBasisMethod(portfolioId);
+  const { portfolio } = usePortfolio(portfolioId);
+  const previewMutation = usePreviewCostBasisMethod();
+  const changeMutation = useChangeCostBasisMethod();
+  const [method, setMethod] = useState<CostBasisMethod>(CostBasisMethod.FIFO);
+  const [preview, setPreview] = useState<CostBasisPreview | null>(null);
+
+  const baseCurrency = portfolio?.baseCurrency || 'VND';
+
+  useEffect(() => {
+    if (current?.method) {
+      setMethod(current.method);
+    }
+  }, [current?.method]);
+
+  const handleMethodChange = (value: CostBasisMethod) => {
+    setMethod(value);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    const result = await previewMutation.mutateAsync({ portfolioId, method });
+    setPreview(result);
+  };
+
+  const handleApply = async () => {
+    await changeMutation.mutateAsync({ portfolioId, method });
+    setPreview(null);
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const isCurrentMethod = method === current?.method;
+
+  return (
+    <Box>
+      <Typography variant="h6" sx={{ mb: 1 }}>
+        {t('trading.costBasis.title')}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t('trading.costBasis.description')}
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+        <FormControl size="small" sx={{ minWidth: 240 }}>
+          <InputLabel>{t('trading.costBasis.method')}</InputLabel>
+          <Select
+            value={method}
+            label={t('trading.costBasis.method')}
+            onChange={(event) => handleMethodChange(event.target.value as CostBasisMethod)}
+          >
+            {METHODS.map(value => (
+              <MenuItem key={value} value={value}>
+                {t(`trading.costBasis.methods.${value}`)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {current?.method && (
+          <Chip label={`${t('trading.costBasis.current')}: ${t(`trading.costBasis.methods.${current.method}`)}`} size="small" />
+        )}
+        <Button
+          variant="outlined"
+          onClick={handlePreview}
+          disabled={isCurrentMethod || previewMutation.isLoading}
+          sx={{ textTransform: 'none' }}
+        >
+          {previewMutation.isLoading ? <CircularProgress size={20} /> : t('trading.costBasis.preview')}
+        </Button>
+      </Box>
+
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+        {t(`trading.costBasis.methodHelp.${method}`)}
+      </Typography>
+
+      {preview && (
+        <Box>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {t('trading.costBasis.rematchWarning')}
+          </Alert>
+          <TableContainer sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('trading.symbol')}</TableCell>
+                  <TableCell align="right">{t('trading.costBasis.before')}</TableCell>
+                  <TableCell align="right">{t('trading.costBasis.after')}</TableCell>
+                  <TableCell align="right">{t('trading.costBasis.difference')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {preview.assets.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} align="center">
+                      {t('trading.costBasis.noRealizedTrades')}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {preview.assets.map(asset => (
+                  <TableRow key={asset.assetId}>
+                    <TableCell>{asset.symbol}</TableCell>
+                    <TableCell align="right">{formatCurrency(asset.currentRealizedPnl, asset.currency)}</TableCell>
+                    <TableCell align="right">{formatCurrency(asset.newRealizedPnl, asset.currency)}</TableCell>
+                    <TableCell align="right" sx={{ color: differenceColor(asset.difference) }}>
+                      {formatCurrency(asset.difference, asset.currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 600 }}>{t('trading.total')}</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 600 }}>
+                    {formatCurrency(preview.totalCurrentRealizedPnl, baseCurrency)}
+                  </TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 600 }}>
+                    {formatCurrency(preview.totalNewRealizedPnl, baseCurrency)}
+                  </TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 600, color: differenceColor(preview.totalDifference) }}>
+                    {formatCurrency(preview.totalDifference, baseCurrency)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+            <Button onClick={() => setPreview(null)} sx={{ textTransform: 'none' }}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleApply}
+              disabled={changeMutation.isLoading}
+              sx={{ textTransform: 'none' }}
+            >
+              {changeMutation.isLoading ? <CircularProgress size={20} /> : t('trading.costBasis.apply')}
+            </Button>
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default CostBasisSettings;
@@ -0,0 +1,121 @@
+/**
+ * Lot Selection Picker
+ * Lets the user pick which open buy lots a SELL consumes in a SPECIFIC_LOT portfolio
+ */
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Typography,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  CircularProgress,
+} from '@mui/material';
+import { format, parseISO } from 'date-fns';
+import { LotSelection } from '../../types';
+import { useOpenLots } from '../../hooks/useTrading';
+import { formatCurrency, formatNumber } from '../../utils/format';
+
+interface LotSelectionPickerProps {
+  portfolioId: string;
+  assetId: string;
+  sellQuantity: number;
+  currency: string;
+  value: LotSelection[];
+  onChange: (selections: LotSelection[]) => void;
+  disabled?: boolean;
+}
+
+export const LotSelectionPicker: React.FC<LotSelectionPickerProps> = ({
+  portfolioId,
+  assetId,
+  sellQuantity,
+  currency,
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const { t } = useTranslation();
+  const { data: lots = [], isLoading } = useOpenLots(portfolioId, assetId);
+
+  const selectedTotal = value.reduce((sum, selection) => sum + selection.quantity, 0);
+  const unpicked = Math.max(0, (Number(sellQuantity) || 0) - selectedTotal);
+
+  const handleQuantityChange = (buyTradeId: string, rawValue: string, maxQuantity: number) => {
+    const quantity = Math.min(Math.max(Number(rawValue) || 0, 0), maxQuantity);
+    const others = value.filter(selection => selection.buyTradeId !== buyTradeId);
+    onChange(quantity > 0 ? [...others, { buyTradeId, quantity }] : others);
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (lots.length === 0) {
+    return <Alert severity="warning">{t('trading.costBasis.noOpenLots')}</Alert>;
+  }
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        {t('trading.costBasis.pickLots')}
+      </Typography>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('trading.date')}</TableCell>
+              <TableCell align="right">{t('trading.price')}</TableCell>
+              <TableCell align="right">{t('trading.costBasis.openQuantity')}</TableCell>
+              <TableCell align="right">{t('trading.costBasis.sellFromLot')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {lots.map(lot => {
+              const selection = value.find(item => item.buyTradeId === lot.buyTradeId);
+              return (
+                <TableRow key={lot.buyTradeId}>
+                  <TableCell>{format(parseISO(lot.tradeDate), 'dd/MM/yyyy')}</TableCell>
+                  <TableCell align="right">{formatCurrency(lot.price, currency)}</TableCell>
+                  <TableCell align="right">{formatNumber(lot.remainingQuantity)}</TableCell>
+                  <TableCell align="right" sx={{ width: 140 }}>
+                    <TextField
+                      type="number"
+                      size="small"
+                      value={selection?.quantity ?? ''}
+                      onChange={(event) => handleQuantityChange(lot.buyTradeId, event.target.value, lot.remainingQuantity)}
+                      inputProps={{ min: 0, max: lot.remainingQuantity, step: 'any' }}
+                      disabled={disabled}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      {selectedTotal > (Number(sellQuantity) || 0) ? (
+        <Alert severity="error" sx={{ mt: 1 }}>
+          {t('trading.costBasis.selectionExceedsQuantity')}
+        </Alert>
+      ) : unpicked > 0 && (
+        <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+          {t('trading.costBasis.unpickedFifo', { quantity: formatNumber(unpicked) })}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default LotSelectionPicker;
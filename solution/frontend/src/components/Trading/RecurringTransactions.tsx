@@ -0,0 +1,661 @@
+/**
+ * Recurring Transactions
+ * Periodic investment plans and scheduled cash flows, with the generated items awaiting confirmation
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Check as CheckIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  Pause as PauseIcon,
+  PlayArrow as PlayArrowIcon,
+  Refresh as RefreshIcon,
+  SkipNext as SkipNextIcon,
+} from '@mui/icons-material';
+import {
+  RecurringTransaction,
+  RecurringTransactionKind,
+  RecurrenceFrequency,
+  RecurringCashFlowType,
+  RecurringOccurrence,
+  CreateRecurringTransactionDto,
+  TradeSide,
+} from '../../types';
+import {
+  useRecurringTransactions,
+  useRecurringOccurrences,
+  useSaveRecurringTransaction,
+  useDeleteRecurringTransaction,
+  useGenerateRecurringOccurrences,
+  useUpdateRecurringOccurrence,
+  useResolveRecurringOccurrence,
+} from '../../hooks/useTrading';
+import { usePortfolio } from '../../hooks/usePortfolios';
+import { AssetAutocomplete } from '../Common/AssetAutocomplete';
+import { formatCurrency, formatDate, formatNumber } from '../../utils/format';
+
+interface RecurringTransactionsProps {
+  portfolioId: string;
+}
+
+const CASH_FLOW_TYPES: RecurringCashFlowType[] = ['DEPOSIT', 'WITHDRAWAL', 'FEE'];
+const FREQUENCIES = Object.values(RecurrenceFrequency);
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const emptyPlan = (): CreateRecurringTransactionDto => ({
+  name: '',
+  kind: RecurringTransactionKind.TRADE,
+  frequency: RecurrenceFrequency.MONTHLY,
+  dayOfMonth: new Date().getDate(),
+  startDate: new Date().toISOString().split('T')[0],
+  side: TradeSide.BUY,
+  cashFlowType: 'DEPOSIT',
+});
+
+const optionalNumber = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+export const RecurringTransactions: React.FC<RecurringTransactionsProps> = ({ portfolioId }) => {
+  const { t } = useTranslation();
+  const { portfolio } = usePortfolio(portfolioId);
+  const { data: plans = [], isLoading: plansLoading } = useRecurringTransactions(portfolioId);
+  const { data: pending = [], isLoading: pendingLoading } = useRecurringOccurrences(portfolioId, 'PENDING');
+  const saveMutation = useSaveRecurringTransaction();
+  const deleteMutation = useDeleteRecurringTransaction();
+  const generateMutation = useGenerateRecurringOccurrences();
+  const updateOccurrenceMutation = useUpdateRecurringOccurrence();
+  const resolveMutation = useResolveRecurringOccurrence();
+
+  const [editingPlanId, setEditingPlanId] = useState<string | null>(null);
+  const [planForm, setPlanForm] = useState<CreateRecurringTransactionDto | null>(null);
+  const [editingOccurrence, setEditingOccurrence] = useState<RecurringOccurrence | null>(null);
+
+  const baseCurrency = portfolio?.baseCurrency || 'VND';
+
+  const openNewPlan = () => {
+    setEditingPlanId(null);
+    setPlanForm(emptyPlan());
+  };
+
+  const openEditPlan = (plan: RecurringTransaction) => {
+    setEditingPlanId(plan.recurringTransactionId);
+    setPlanForm({
+      name: plan.name,
+      kind: plan.kind,
+      frequency: plan.frequency,
+      dayOfMonth: plan.dayOfMonth ?? undefined,
+      dayOfWeek: plan.dayOfWeek ?? undefined,
+      startDate: plan.startDate,
+      endDate: plan.endDate ?? undefined,
+      assetId: plan.assetId ?? undefined,
+      side: plan.side ?? undefined,
+      quantity: plan.quantity != null ? Number(plan.quantity) : undefined,
+      cashFlowType: plan.cashFlowType ?? undefined,
+      amount: plan.amount != null ? Number(plan.amount) : undefined,
+      fundingSource: plan.fundingSource ?? undefined,
+      description: plan.description ?? undefined,
+    });
+  };
+
+  const updatePlanForm = (changes: Partial<CreateRecurringTransactionDto>) => {
+    setPlanForm(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleSavePlan = async () => {
+    if (!planForm) return;
+    const isTrade = planForm.kind === RecurringTransactionKind.TRADE;
+    const isWeekly = planForm.frequency === RecurrenceFrequency.WEEKLY;
+    const data: CreateRecurringTransactionDto = {
+      ...planForm,
+      dayOfMonth: isWeekly ? undefined : planForm.dayOfMonth,
+      dayOfWeek: isWeekly ? planForm.dayOfWeek : undefined,
+      endDate: planForm.endDate || undefined,
+      assetId: isTrade ? planForm.assetId : undefined,
+      side: isTrade ? planForm.side : undefined,
+      quantity: isTrade ? planForm.quantity : undefined,
+      cashFlowType: isTrade ? undefined : planForm.cashFlowType,
+    };
+    if (editingPlanId) {
+      const { kind: _kind, ...changes } = data;
+      await saveMutation.mutateAsync({ portfolioId, planId: editingPlanId, data: changes });
+    } else {
+      await saveMutation.mutateAsync({ portfolioId, data });
+    }
+    setPlanForm(null);
+  };
+
+  const handleToggleActive = (plan: RecurringTransaction) => {
+    saveMutation.mutate({ portfolioId, planId: plan.recurringTransactionId, data: { isActive: !plan.isActive } });
+  };
+
+  const handleDeletePlan = (plan: RecurringTransaction) => {
+    if (window.confirm(t('trading.recurring.deleteConfirm', { name: plan.name }))) {
+      deleteMutation.mutate({ portfolioId, planId: plan.recurringTransactionId });
+    }
+  };
+
+  const handleSaveOccurrence = async () => {
+    if (!editingOccurrence) return;
+    const isTrade = editingOccurrence.recurringTransaction.kind === RecurringTransactionKind.TRADE;
+    await updateOccurrenceMutation.mutateAsync({
+      portfolioId,
+      occurrenceId: editingOccurrence.occurrenceId,
+      data: {
+        scheduledDate: editingOccurrence.scheduledDate,
+        ...(isTrade
+          ? {
+            quantity: editingOccurrence.quantity ? Number(editingOccurrence.quantity) : undefined,
+            price: editingOccurrence.price ? Number(editingOccurrence.price) : undefined,
+          }
+          : { amount: editingOccurrence.amount ? Number(editingOccurrence.amount) : undefined }),
+      },
+    });
+    setEditingOccurrence(null);
+  };
+
+  const describeSchedule = (plan: RecurringTransaction) => {
+    if (plan.frequency === RecurrenceFrequency.WEEKLY) {
+      return t('trading.recurring.schedule.WEEKLY', { day: t(`trading.recurring.weekdays.${plan.dayOfWeek ?? new Date(plan.startDate).getDay()}`) });
+    }
+    return t(`trading.recurring.schedule.${plan.frequency}`, { day: plan.dayOfMonth ?? new Date(plan.startDate).getDate() });
+  };
+
+  const describePlan = (plan: RecurringTransaction) => {
+    if (plan.kind === RecurringTransactionKind.TRADE) {
+      const side = plan.side === TradeSide.SELL ? t('trading.sell') : t('trading.buy');
+      return `${side} ${plan.asset?.symbol || ''}`;
+    }
+    return t(`trading.recurring.cashFlowTypes.${plan.cashFlowType}`);
+  };
+
+  const describeSize = (plan: RecurringTransaction) => {
+    if (plan.kind === RecurringTransactionKind.TRADE && plan.quantity) {
+      return t('trading.recurring.fixedQuantity', { quantity: formatNumber(Number(plan.quantity)) });
+    }
+    return plan.amount != null ? formatCurrency(Number(plan.amount), plan.currency || baseCurrency) : '-';
+  };
+
+  if (plansLoading || pendingLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const isTradeForm = planForm?.kind === RecurringTransactionKind.TRADE;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <Box>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            {t('trading.recurring.title')}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {t('trading.recurring.description')}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={generateMutation.isLoading ? <CircularProgress size={16} /> : <RefreshIcon />}
+            onClick={() => generateMutation.mutate(portfolioId)}
+            disabled={generateMutation.isLoading}
+            sx={{ textTransform: 'none' }}
+          >
+            {t('trading.recurring.generateNow')}
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openNewPlan} sx={{ textTransform: 'none' }}>
+            {t('trading.recurring.newPlan')}
+          </Button>
+        </Box>
+      </Box>
+
+      <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+        {t('trading.recurring.pendingTitle')}
+      </Typography>
+      <TableContainer sx={{ mb: 3 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('trading.date')}</TableCell>
+              <TableCell>{t('trading.recurring.plan')}</TableCell>
+              <TableCell>{t('trading.type')}</TableCell>
+              <TableCell align="right">{t('trading.quantity')}</TableCell>
+              <TableCell align="right">{t('trading.price')}</TableCell>
+              <TableCell align="right">{t('trading.recurring.amount')}</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {pending.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  {t('trading.recurring.noPending')}
+                </TableCell>
+              </TableRow>
+            )}
+            {pending.map(occurrence => {
+              const plan = occurrence.recurringTransaction;
+              const isTrade = plan.kind === RecurringTransactionKind.TRADE;
+              const currency = plan.currency || plan.asset?.currency || baseCurrency;
+              return (
+                <TableRow key={occurrence.occurrenceId}>
+                  <TableCell>{formatDate(occurrence.scheduledDate)}</TableCell>
+                  <TableCell>{plan.name}</TableCell>
+                  <TableCell>{describePlan(plan)}</TableCell>
+                  <TableCell align="right">{isTrade && occurrence.quantity != null ? formatNumber(Number(occurrence.quantity)) : '-'}</TableCell>
+                  <TableCell align="right">
+                    {isTrade && occurrence.price != null
+                      ? formatCurrency(Number(occurrence.price), currency)
+                      : isTrade
+                        ? <Chip size="small" color="warning" label={t('trading.recurring.noPrice')} />
+                        : '-'}
+                  </TableCell>
+                  <TableCell align="right">{occurrence.amount != null ? formatCurrency(Number(occurrence.amount), currency) : '-'}</TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title={t('common.edit')}>
+                      <IconButton size="small" onClick={() => setEditingOccurrence({ ...occurrence })}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={t('trading.recurring.skip')}>
+                      <IconButton
+                        size="small"
+                        onClick={() => resolveMutation.mutate({ portfolioId, occurrenceId: occurrence.occurrenceId, action: 'skip' })}
+                        disabled={resolveMutation.isLoading}
+                      >
+                        <SkipNextIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={t('common.confirm')}>
+                      <IconButton
+                        size="small"
+                        color="success"
+                        onClick={() => resolveMutation.mutate({ portfolioId, occurrenceId: occurrence.occurrenceId, action: 'confirm' })}
+                        disabled={resolveMutation.isLoading}
+                      >
+                        <CheckIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+        {t('trading.recurring.plansTitle')}
+      </Typography>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('common.name')}</TableCell>
+              <TableCell>{t('trading.type')}</TableCell>
+              <TableCell>{t('trading.recurring.scheduleLabel')}</TableCell>
+              <TableCell align="right">{t('trading.recurring.size')}</TableCell>
+              <TableCell>{t('trading.recurring.nextRun')}</TableCell>
+              <TableCell>{t('trading.status')}</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {plans.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  {t('trading.recurring.noPlans')}
+                </TableCell>
+              </TableRow>
+            )}
+            {plans.map(plan => (
+              <TableRow key={plan.recurringTransactionId}>
+                <TableCell>{plan.name}</TableCell>
+                <TableCell>{describePlan(plan)}</TableCell>
+                <TableCell>{describeSchedule(plan)}</TableCell>
+                <TableCell align="right">{describeSize(plan)}</TableCell>
+                <TableCell>{plan.nextRunDate ? formatDate(plan.nextRunDate) : t('trading.recurring.ended')}</TableCell>
+                <TableCell>
+                  <Chip
+                    size="small"
+                    color={plan.isActive ? 'success' : 'default'}
+                    label={plan.isActive ? t('trading.recurring.active') : t('trading.recurring.paused')}
+                  />
+                </TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <Tooltip title={plan.isActive ? t('trading.recurring.pause') : t('trading.recurring.resume')}>
+                    <IconButton size="small" onClick={() => handleToggleActive(plan)} disabled={saveMutation.isLoading}>
+                      {plan.isActive ? <PauseIcon fontSize="small" /> : <PlayArrowIcon fontSize="small" />}
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={t('common.edit')}>
+                    <IconButton size="small" onClick={() => openEditPlan(plan)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={t('common.delete')}>
+                    <IconButton size="small" color="error" onClick={() => handleDeletePlan(plan)} disabled={deleteMutation.isLoading}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Plan dialog */}
+      <Dialog open={!!planForm} onClose={() => setPlanForm(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingPlanId ? t('trading.recurring.editPlan') : t('trading.recurring.newPlan')}
+        </DialogTitle>
+        {planForm && (
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={t('common.name')}
+                  value={planForm.name}
+                  onChange={(event) => updatePlanForm({ name: event.target.value })}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <FormControl fullWidth size="small" disabled={!!editingPlanId}>
+                  <InputLabel>{t('trading.type')}</InputLabel>
+                  <Select
+                    value={planForm.kind}
+                    label={t('trading.type')}
+                    onChange={(event) => updatePlanForm({ kind: event.target.value as RecurringTransactionKind })}
+                  >
+                    <MenuItem value={RecurringTransactionKind.TRADE}>{t('trading.recurring.kinds.TRADE')}</MenuItem>
+                    <MenuItem value={RecurringTransactionKind.CASH_FLOW}>{t('trading.recurring.kinds.CASH_FLOW')}</MenuItem>
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <FormControl fullWidth size="small">
+                  <InputLabel>{t('trading.recurring.frequency')}</InputLabel>
+                  <Select
+                    value={planForm.frequency}
+                    label={t('trading.recurring.frequency')}
+                    onChange={(event) => updatePlanForm({ frequency: event.target.value as RecurrenceFrequency })}
+                  >
+                    {FREQUENCIES.map(value => (
+                      <MenuItem key={value} value={value}>{t(`trading.recurring.frequencies.${value}`)}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                {planForm.frequency === RecurrenceFrequency.WEEKLY ? (
+                  <FormControl fullWidth size="small">
+                    <InputLabel>{t('trading.recurring.dayOfWeek')}</InputLabel>
+                    <Select
+                      value={planForm.dayOfWeek ?? ''}
+                      label={t('trading.recurring.dayOfWeek')}
+                      onChange={(event) => updatePlanForm({ dayOfWeek: Number(event.target.value) })}
+                    >
+                      {WEEKDAYS.map(day => (
+                        <MenuItem key={day} value={day}>{t(`trading.recurring.weekdays.${day}`)}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                ) : (
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="number"
+                    label={t('trading.recurring.dayOfMonth')}
+                    value={planForm.dayOfMonth ?? ''}
+                    onChange={(event) => updatePlanForm({ dayOfMonth: optionalNumber(event.target.value) })}
+                    inputProps={{ min: 1, max: 31 }}
+                  />
+                )}
+              </Grid>
+              <Grid item xs={6} sm={4}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="date"
+                  label={t('trading.recurring.startDate')}
+                  value={planForm.startDate}
+                  onChange={(event) => updatePlanForm({ startDate: event.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+              <Grid item xs={6} sm={4}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="date"
+                  label={t('trading.recurring.endDate')}
+                  value={planForm.endDate ?? ''}
+                  onChange={(event) => updatePlanForm({ endDate: event.target.value || undefined })}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+
+              {isTradeForm ? (
+                <>
+                  <Grid item xs={12} sm={8}>
+                    <AssetAutocomplete
+                      value={planForm.assetId}
+                      onChange={(assetId) => updatePlanForm({ assetId: assetId || undefined })}
+                      portfolioId={portfolioId}
+                      label={t('trading.form.asset')}
+                      required={true}
+                      placeholder={t('trading.form.searchAsset')}
+                      currency={baseCurrency}
+                    />
+                  </Grid>
+                  <Grid item xs={12} sm={4}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel>{t('trading.side')}</InputLabel>
+                      <Select
+                        value={planForm.side ?? TradeSide.BUY}
+                        label={t('trading.side')}
+                        onChange={(event) => updatePlanForm({ side: event.target.value as TradeSide })}
+                      >
+                        <MenuItem value={TradeSide.BUY}>{t('trading.buy')}</MenuItem>
+                        <MenuItem value={TradeSide.SELL}>{t('trading.sell')}</MenuItem>
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                  <Grid item xs={6}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      type="number"
+                      label={t('trading.recurring.investAmount')}
+                      value={planForm.amount ?? ''}
+                      onChange={(event) => updatePlanForm({ amount: optionalNumber(event.target.value) })}
+                      helperText={t('trading.recurring.investAmountHelper')}
+                    />
+                  </Grid>
+                  <Grid item xs={6}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      type="number"
+                      label={t('trading.recurring.fixedQuantityLabel')}
+                      value={planForm.quantity ?? ''}
+                      onChange={(event) => updatePlanForm({ quantity: optionalNumber(event.target.value) })}
+                      helperText={t('trading.recurring.fixedQuantityHelper')}
+                    />
+                  </Grid>
+                </>
+              ) : (
+                <>
+                  <Grid item xs={12} sm={6}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel>{t('trading.recurring.cashFlowType')}</InputLabel>
+                      <Select
+                        value={planForm.cashFlowType ?? 'DEPOSIT'}
+                        label={t('trading.recurring.cashFlowType')}
+                        onChange={(event) => updatePlanForm({ cashFlowType: event.target.value as RecurringCashFlowType })}
+                      >
+                        {CASH_FLOW_TYPES.map(type => (
+                          <MenuItem key={type} value={type}>{t(`trading.recurring.cashFlowTypes.${type}`)}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                  <Grid item xs={12} sm={6}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      type="number"
+                      label={t('trading.recurring.amount')}
+                      value={planForm.amount ?? ''}
+                      onChange={(event) => updatePlanForm({ amount: optionalNumber(event.target.value) })}
+                    />
+                  </Grid>
+                </>
+              )}
+
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={t('trading.fundingSource')}
+                  value={planForm.fundingSource ?? ''}
+                  onChange={(event) => updatePlanForm({ fundingSource: event.target.value || undefined })}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={t('common.description')}
+                  value={planForm.description ?? ''}
+                  onChange={(event) => updatePlanForm({ description: event.target.value || undefined })}
+                />
+              </Grid>
+            </Grid>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+              {t('trading.recurring.pendingHelp')}
+            </Typography>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setPlanForm(null)} sx={{ textTransform: 'none' }}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSavePlan}
+            disabled={!planForm?.name || saveMutation.isLoading}
+            sx={{ textTransform: 'none' }}
+          >
+            {saveMutation.isLoading ? <CircularProgress size={20} /> : t('common.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Occurrence dialog */}
+      <Dialog open={!!editingOccurrence} onClose={() => setEditingOccurrence(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('trading.recurring.editOccurrence')}</DialogTitle>
+        {editingOccurrence && (
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="date"
+                  label={t('trading.date')}
+                  value={editingOccurrence.scheduledDate}
+                  onChange={(event) => setEditingOccurrence({ ...editingOccurrence, scheduledDate: event.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+              {editingOccurrence.recurringTransaction.kind === RecurringTransactionKind.TRADE ? (
+                <>
+                  <Grid item xs={6}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      type="number"
+                      label={t('trading.quantity')}
+                      value={editingOccurrence.quantity ?? ''}
+                      onChange={(event) => setEditingOccurrence({ ...editingOccurrence, quantity: optionalNumber(event.target.value) ?? null })}
+                    />
+                  </Grid>
+                  <Grid item xs={6}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      type="number"
+                      label={t('trading.price')}
+                      value={editingOccurrence.price ?? ''}
+                      onChange={(event) => setEditingOccurrence({ ...editingOccurrence, price: optionalNumber(event.target.value) ?? null })}
+                    />
+                  </Grid>
+                </>
+              ) : (
+                <Grid item xs={12}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="number"
+                    label={t('trading.recurring.amount')}
+                    value={editingOccurrence.amount ?? ''}
+                    onChange={(event) => setEditingOccurrence({ ...editingOccurrence, amount: optionalNumber(event.target.value) ?? null })}
+                  />
+                </Grid>
+              )}
+            </Grid>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setEditingOccurrence(null)} sx={{ textTransform: 'none' }}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSaveOccurrence}
+            disabled={updateOccurrenceMutation.isLoading}
+            sx={{ textTransform: 'none' }}
+          >
+            {updateOccurrenceMutation.isLoading ? <CircularProgress size={20} /> : t('common.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default RecurringTransactions;
@@ -29,8 +29,9 @@ import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
 // Removed React Hook Form - using useState instead
 import { usePortfolios } from '../../hooks/usePortfolios';
+import { useTradeChargesEstimate } from '../../hooks/useTrading';
 import { useAccount } from '../../contexts/AccountContext';
-import { TradeSide, TradeType, TradeSource, TradeFormData } from '../../types';
+import { TradeSide, TradeType, TradeSource, TradeFormData, CostBasisMethod, LotSelection } from '../../types';
 import { CreateAssetRequest } from '../../types/asset.types';
 import { 
   MonetizationOn as MonetizationOnIcon,
@@ -41,6 +42,7 @@ import {
 import { AssetAutocomplete } from '../Common/AssetAutocomplete';
 import { NumberInput, MoneyInput } from '../Common';
 import { AssetFormModal } from '../Asset/AssetFormModal';
+import { LotSelectionPicker } from './LotSelectionPicker';
 import { assetService } from '../../services/asset.service';
 
 // Re-export TradeFormData for components that need it
@@ -64,6 +66,7 @@ const validateForm = (formData: any) => {
   if (formData.price === undefined || formData.price === null || formData.price < 0) errors.price = 'Price must be non-negative';
   if (formData.fee && formData.fee < 0) errors.fee = 'Fee cannot be negative';
   if (formData.tax && formData.tax < 0) errors.tax = 'Tax cannot be negative';
+  if (formData.fxRate !== undefined && formData.fxRate !== null && formData.fxRate <= 0) errors.fxRate = 'FX rate must be positive';
   
   return errors;
 };
@@ -143,6 +146,7 @@ export const TradeForm: React.FC<TradeFormProps> = ({
       exchange: initialData?.exchange || '',
       fundingSource: initialData?.fundingSource || '',
       notes: initialData?.notes || '',
+      fxRate: initialData?.fxRate || undefined,
     };
   });
 
@@ -160,6 +164,13 @@ export const TradeForm: React.FC<TradeFormProps> = ({
   // Exchange and funding source section collapse state
   const [isExchangeFundingExpanded, setIsExchangeFundingExpanded] = useState(false);
 
+  // Lots picked for a SELL in a SPECIFIC_LOT portfolio
+  const [lotSelections, setLotSelections] = useState<LotSelection[]>([]);
+
+  // Fee and tax are pre-filled from the tax rules until the user edits them
+  const [chargesEdited, setChargesEdited] = useState(false);
+  const [chargeParams, setChargeParams] = useState({ portfolioId: '', assetId: '', side: '', quantity: 0, price: 0 });
+
   // Form values for calculations
   const watchedQuantity = formData.quantity;
   const watchedPrice = formData.price;
@@ -170,6 +181,10 @@ export const TradeForm: React.FC<TradeFormProps> = ({
   
   // Get selected portfolio for currency
   const selectedPortfolio = portfolios?.find(p => p.portfolioId === watchedPortfolioId);
+  const showLotPicker = mode === 'create'
+    && watchedSide === TradeSide.SELL
+    && !!formData.assetId
+    && selectedPortfolio?.costBasisMethod === CostBasisMethod.SPECIFIC_LOT;
   
   // Update currency cache
   useCurrencyCache(currentAccount, null); // userCurrency can be added later
@@ -227,6 +242,7 @@ export const TradeForm: React.FC<TradeFormProps> = ({
         exchange: initialData.exchange || '',
         fundingSource: initialData.fundingSource || '',
         notes: initialData.notes || '',
+        fxRate: initialData.fxRate || undefined,
       });
     }
   }, [initialData, mode]);
@@ -249,6 +265,7 @@ export const TradeForm: React.FC<TradeFormProps> = ({
         exchange: '',
         fundingSource: '',
         notes: '',
+        fxRate: undefined,
       });
       // Reset validation state
       setErrors({});
@@ -291,6 +308,7 @@ export const TradeForm: React.FC<TradeFormProps> = ({
         exchange: '',
         fundingSource: '',
         notes: '',
+        fxRate: undefined,
       });
       // Reset validation state
       setErrors({});
@@ -301,6 +319,38 @@ export const TradeForm: React.FC<TradeFormProps> = ({
     }
   }, [open, isModal, mode, defaultPortfolioId]);
 
+  // Debounce the estimate request while quantity and price are typed
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setChargeParams({
+        portfolioId: formData.portfolioId,
+        assetId: formData.assetId,
+        side: formData.side,
+        quantity: Number(formData.quantity) || 0,
+        price: Number(formData.price) || 0,
+      });
+    }, 400);
+
+    return () => clearTimeout(timeoutId);
+  }, [formData.portfolioId, formData.assetId, formData.side, formData.quantity, formData.price]);
+
+  const { data: chargesEstimate } = useTradeChargesEstimate(chargeParams, mode === 'create' && !chargesEdited);
+
+  useEffect(() => {
+    if (chargesEstimate && mode === 'create' && !chargesEdited) {
+      setFormData(prev => ({ ...prev, fee: chargesEstimate.fee, tax: chargesEstimate.tax }));
+    }
+  }, [chargesEstimate, chargesEdited, mode]);
+
+  useEffect(() => {
+    setChargesEdited(false);
+  }, [open]);
+
+  // Picked lots belong to one portfolio and asset
+  useEffect(() => {
+    setLotSelections([]);
+  }, [watchedPortfolioId, formData.assetId, watchedSide, open]);
+
   // Auto-fill funding source when portfolio changes
   useEffect(() => {
     if (selectedPortfolio && selectedPortfolio.fundingSource) {
@@ -350,6 +400,9 @@ export const TradeForm: React.FC<TradeFormProps> = ({
     if (validationFields.includes(field)) {
       setHasUserInteracted(true);
     }
+    if (field === 'fee' || field === 'tax') {
+      setChargesEdited(true);
+    }
     setFormData(prev => ({ ...prev, [field]: value }));
   }, []);
 
@@ -383,13 +436,15 @@ export const TradeForm: React.FC<TradeFormProps> = ({
         exchange: formData.exchange || '',
         fundingSource: formData.fundingSource || '',
         notes: formData.notes || '',
+        fxRate: formData.fxRate || undefined,
+        lotSelections: showLotPicker && lotSelections.length > 0 ? lotSelections : undefined,
       };
       
       await onSubmit(submitData);
     } catch (err) {
       console.error('Error submitting trade form:', err);
     }
-  }, [formData, onSubmit, validateFormOnSubmit]);
+  }, [formData, onSubmit, validateFormOnSubmit, showLotPicker, lotSelections]);
 
   // Asset creation handlers
   const handleCreateAsset = useCallback(() => {
@@ -656,6 +711,21 @@ export const TradeForm: React.FC<TradeFormProps> = ({
                           )} */}
                         </Box>
                   </Grid>
+
+                  {/* Lot selection for SPECIFIC_LOT sells */}
+                  {showLotPicker && (
+                    <Grid item xs={12}>
+                      <LotSelectionPicker
+                        portfolioId={formData.portfolioId}
+                        assetId={formData.assetId}
+                        sellQuantity={formData.quantity}
+                        currency={baseCurrency}
+                        value={lotSelections}
+                        onChange={setLotSelections}
+                        disabled={isLoading}
+                      />
+                    </Grid>
+                  )}
                 </Grid>
               </Box>
 
@@ -713,6 +783,33 @@ export const TradeForm: React.FC<TradeFormProps> = ({
                            currency={baseCurrency}
                          />
                        </Grid>
+
+                       {mode === 'create' && !chargesEdited && chargesEstimate?.broker && (
+                         <Grid item xs={12}>
+                           <Typography variant="caption" color="text.secondary">
+                             {t('trading.form.chargesPrefilled', {
+                               broker: chargesEstimate.broker,
+                               feeRate: (chargesEstimate.feeRate * 100).toFixed(2),
+                               taxRate: (chargesEstimate.taxRate * 100).toFixed(2),
+                             })}
+                           </Typography>
+                         </Grid>
+                       )}
+
+                       {/* FX rate (only used when the asset is priced in another currency) */}
+                       <Grid item xs={12} md={6}>
+                         <TextField
+                           type="number"
+                           value={formData.fxRate ?? ''}
+                           onChange={(e) => handleFieldChange('fxRate', e.target.value === '' ? undefined : Number(e.target.value))}
+                           label={t('trading.form.fxRate')}
+                           fullWidth
+                           error={!!errors.fxRate}
+                           helperText={errors.fxRate || t('trading.form.fxRateHelper')}
+                           disabled={isLoading}
+                           inputProps={{ min: 0, step: 'any' }}
+                         />
+                       </Grid>
                    </Grid>
                  </Collapse>
               </Box>
@@ -0,0 +1,464 @@
+/**
+ * Trade Import Wizard
+ * Upload a broker statement, map its columns, review the parsed rows and import them
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Stepper,
+  Step,
+  StepLabel,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Typography,
+  Alert,
+  Grid,
+  Chip,
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import {
+  UploadFile as UploadFileIcon,
+  ArrowBack as ArrowBackIcon,
+  ArrowForward as ArrowForwardIcon,
+  CheckCircle as CheckCircleIcon,
+} from '@mui/icons-material';
+import { format, parseISO } from 'date-fns';
+import {
+  BrokerStatementLayout,
+  TradeImportField,
+  TradeImportPreviewResponse,
+  TradeImportPreviewRow,
+  TradeImportCommitResponse,
+  TradeSide,
+} from '../../types';
+import { useTradeImportLayouts, useTradeImportPreview, useCommitTradeImport } from '../../hooks/useTrading';
+import { formatCurrency, formatNumber } from '../../utils/format';
+
+const REQUIRED_FIELDS: TradeImportField[] = ['tradeDate', 'symbol', 'side', 'quantity', 'price'];
+const OPTIONAL_FIELDS: TradeImportField[] = ['fee', 'tax', 'exchange', 'notes'];
+const ACCEPTED_FILE_TYPES = '.csv,.xlsx,.xls';
+
+interface TradeImportWizardProps {
+  portfolioId: string;
+  onImported?: (result: TradeImportCommitResponse) => void;
+}
+
+const statusColor = (status: TradeImportPreviewRow['status']) => {
+  switch (status) {
+    case 'VALID':
+      return 'success';
+    case 'DUPLICATE':
+      return 'warning';
+    default:
+      return 'error';
+  }
+};
+
+export const TradeImportWizard: React.FC<TradeImportWizardProps> = ({ portfolioId, onImported }) => {
+  const { t } = useTranslation();
+  const [activeStep, setActiveStep] = useState(0);
+  const [layout, setLayout] = useState<BrokerStatementLayout>(BrokerStatementLayout.SSI);
+  const [priceMultiplier, setPriceMultiplier] = useState<string>('1');
+  const [file, setFile] = useState<File | null>(null);
+  const [columnMapping, setColumnMapping] = useState<Partial<Record<TradeImportField, string>>>({});
+  const [preview, setPreview] = useState<TradeImportPreviewResponse | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [result, setResult] = useState<TradeImportCommitResponse | null>(null);
+
+  const layoutsQuery = useTradeImportLayouts();
+  const previewMutation = useTradeImportPreview();
+  const commitMutation = useCommitTradeImport();
+
+  const steps = [t('trading.import.steps.upload'), t('trading.import.steps.mapColumns'), t('trading.import.steps.review')];
+
+  const layouts = layoutsQuery.data || Object.values(BrokerStatementLayout).map((value) => ({
+    layout: value,
+    name: value,
+    description: '',
+    dateFormats: [],
+    decimalSeparator: '.' as const,
+    priceMultiplier: 1,
+  }));
+
+  const runPreview = async (mapping?: Partial<Record<TradeImportField, string>>) => {
+    if (!file) return;
+    const response = await previewMutation.mutateAsync({
+      file,
+      params: {
+        portfolioId,
+        layout,
+        columnMapping: mapping,
+        priceMultiplier: Number(priceMultiplier) > 0 ? Number(priceMultiplier) : undefined,
+      },
+    });
+    setPreview(response);
+    setColumnMapping(response.columnMapping);
+    // Duplicates stay unchecked until the user explicitly opts in
+    setSelectedRows(new Set(response.rows.filter((row) => row.status === 'VALID').map((row) => row.rowNumber)));
+    return response;
+  };
+
+  const handleUpload = async () => {
+    try {
+      await runPreview();
+      setActiveStep(1);
+    } catch (error) {
+      console.error('Error previewing import:', error);
+    }
+  };
+
+  const handleApplyMapping = async () => {
+    try {
+      const response = await runPreview(columnMapping);
+      if (response && response.missingFields.length === 0) {
+        setActiveStep(2);
+      }
+    } catch (error) {
+      console.error('Error previewing import:', error);
+    }
+  };
+
+  const handleToggleRow = (rowNumber: number) => {
+    setSelectedRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const selectableRows = useMemo(
+    () => (preview?.rows || []).filter((row) => row.status !== 'INVALID'),
+    [preview]
+  );
+
+  const handleToggleAll = () => {
+    if (selectedRows.size === selectableRows.length) {
+      setSelectedRows(new Set());
+    } else {
+      setSelectedRows(new Set(selectableRows.map((row) => row.rowNumber)));
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!preview) return;
+    const rows = preview.rows
+      .filter((row) => row.status !== 'INVALID' && selectedRows.has(row.rowNumber))
+      .map((row) => ({
+        rowNumber: row.rowNumber,
+        symbol: row.symbol!,
+        tradeDate: row.tradeDate!,
+        side: row.side!,
+        quantity: row.quantity!,
+        price: row.price!,
+        fee: row.fee,
+        tax: row.tax,
+        exchange: row.exchange,
+        notes: row.notes,
+        allowDuplicate: row.status === 'DUPLICATE',
+      }));
+
+    try {
+      const response = await commitMutation.mutateAsync({
+        portfolioId,
+        broker: layout !== BrokerStatementLayout.GENERIC ? layout : undefined,
+        rows,
+      });
+      setResult(response);
+      onImported?.(response);
+    } catch (error) {
+      console.error('Error importing trades:', error);
+    }
+  };
+
+  const handleReset = () => {
+    setActiveStep(0);
+    setFile(null);
+    setColumnMapping({});
+    setPreview(null);
+    setSelectedRows(new Set());
+    setResult(null);
+  };
+
+  const renderUploadStep = () => (
+    <Grid container spacing={2}>
+      <Grid item xs={12} md={6}>
+        <FormControl fullWidth>
+          <InputLabel>{t('trading.import.layout')}</InputLabel>
+          <Select
+            value={layout}
+            label={t('trading.import.layout')}
+            onChange={(e) => {
+              const value = e.target.value as BrokerStatementLayout;
+              setLayout(value);
+              const definition = layouts.find((item) => item.layout === value);
+              if (definition) setPriceMultiplier(String(definition.priceMultiplier));
+            }}
+          >
+            {layouts.map((item) => (
+              <MenuItem key={item.layout} value={item.layout}>
+                {item.name}
+                {item.description && (
+                  <Typography component="span" variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                    {item.description}
+                  </Typography>
+                )}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Grid>
+      <Grid item xs={12} md={6}>
+        <TextField
+          fullWidth
+          type="number"
+          label={t('trading.import.priceMultiplier')}
+          helperText={t('trading.import.priceMultiplierHelp')}
+          value={priceMultiplier}
+          onChange={(e) => setPriceMultiplier(e.target.value)}
+          inputProps={{ min: 0, step: 'any' }}
+        />
+      </Grid>
+      <Grid item xs={12}>
+        <Button variant="outlined" component="label" startIcon={<UploadFileIcon />} sx={{ textTransform: 'none' }}>
+          {file ? file.name : t('trading.import.chooseFile')}
+          <input
+            hidden
+            type="file"
+            accept={ACCEPTED_FILE_TYPES}
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+          />
+        </Button>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          {t('trading.import.fileHelp')}
+        </Typography>
+      </Grid>
+      <Grid item xs={12} display="flex" justifyContent="flex-end">
+        <Button
+          variant="contained"
+          endIcon={previewMutation.isLoading ? <CircularProgress size={16} /> : <ArrowForwardIcon />}
+          disabled={!file || previewMutation.isLoading}
+          onClick={handleUpload}
+        >
+          {t('trading.import.next')}
+        </Button>
+      </Grid>
+    </Grid>
+  );
+
+  const renderMappingStep = () => (
+    <Box>
+      {preview && preview.missingFields.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {t('trading.import.missingFields', {
+            fields: preview.missingFields.map((field) => t(`trading.import.fields.${field}`)).join(', '),
+          })}
+        </Alert>
+      )}
+      <Grid container spacing={2}>
+        {[...REQUIRED_FIELDS, ...OPTIONAL_FIELDS].map((field) => (
+          <Grid item xs={12} sm={6} md={4} key={field}>
+            <FormControl fullWidth size="small">
+              <InputLabel>
+                {t(`trading.import.fields.${field}`)}
+                {REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+              </InputLabel>
+              <Select
+                value={columnMapping[field] || ''}
+                label={t(`trading.import.fields.${field}`)}
+                onChange={(e) => setColumnMapping((prev) => ({ ...prev, [field]: e.target.value || undefined }))}
+              >
+                <MenuItem value="">
+                  <em>{t('trading.import.notMapped')}</em>
+                </MenuItem>
+                {(preview?.headers || []).map((header) => (
+                  <MenuItem key={header} value={header}>
+                    {header}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+        ))}
+      </Grid>
+      <Box display="flex" justifyContent="space-between" mt={3}>
+        <Button startIcon={<ArrowBackIcon />} onClick={() => setActiveStep(0)}>
+          {t('trading.import.back')}
+        </Button>
+        <Button
+          variant="contained"
+          endIcon={previewMutation.isLoading ? <CircularProgress size={16} /> : <ArrowForwardIcon />}
+          disabled={previewMutation.isLoading || REQUIRED_FIELDS.some((field) => !columnMapping[field])}
+          onClick={handleApplyMapping}
+        >
+          {t('trading.import.next')}
+        </Button>
+      </Box>
+    </Box>
+  );
+
+  const renderReviewStep = () => {
+    if (!preview) return null;
+
+    if (result) {
+      return (
+        <Box>
+          <Alert severity="success" icon={<CheckCircleIcon />} sx={{ mb: 2 }}>
+            {t('trading.import.importedCount', { count: result.importedCount })}
+            {result.realizedPnl !== 0 && ` · ${t('trading.pl')}: ${formatCurrency(result.realizedPnl)}`}
+          </Alert>
+          {result.skipped.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {t('trading.import.skippedRows', { count: result.skipped.length })}
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {result.skipped.map((item) => (
+                  <li key={item.rowNumber}>
+                    {t('trading.import.row', { row: item.rowNumber })}: {item.reason}
+                  </li>
+                ))}
+              </Box>
+            </Alert>
+          )}
+          <Button variant="outlined" onClick={handleReset}>
+            {t('trading.import.importAnother')}
+          </Button>
+        </Box>
+      );
+    }
+
+    return (
+      <Box>
+        <Box display="flex" gap={1} flexWrap="wrap" mb={2}>
+          <Chip label={t('trading.import.summary.total', { count: preview.summary.total })} />
+          <Chip color="success" label={t('trading.import.summary.valid', { count: preview.summary.valid })} />
+          <Chip color="warning" label={t('trading.import.summary.duplicates', { count: preview.summary.duplicates })} />
+          <Chip color="error" label={t('trading.import.summary.invalid', { count: preview.summary.invalid })} />
+        </Box>
+        {preview.summary.duplicates > 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            {t('trading.import.duplicateHelp')}
+          </Alert>
+        )}
+        <TableContainer sx={{ maxHeight: 480 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    indeterminate={selectedRows.size > 0 && selectedRows.size < selectableRows.length}
+                    checked={selectableRows.length > 0 && selectedRows.size === selectableRows.length}
+                    onChange={handleToggleAll}
+                  />
+                </TableCell>
+                <TableCell>#</TableCell>
+                <TableCell>{t('trading.date')}</TableCell>
+                <TableCell>{t('trading.symbol')}</TableCell>
+                <TableCell>{t('trading.side')}</TableCell>
+                <TableCell align="right">{t('trading.quantity')}</TableCell>
+                <TableCell align="right">{t('trading.price')}</TableCell>
+                <TableCell align="right">{t('trading.fees')}</TableCell>
+                <TableCell align="right">{t('trading.taxes')}</TableCell>
+                <TableCell>{t('trading.status')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {preview.rows.map((row) => {
+                const tooltip = row.errors.length > 0
+                  ? row.errors.join('; ')
+                  : row.duplicateOf
+                    ? t('trading.import.duplicateOf', { ref: row.duplicateOf })
+                    : row.createsAsset
+                      ? t('trading.import.createsAsset')
+                      : '';
+                return (
+                  <TableRow key={row.rowNumber} hover selected={selectedRows.has(row.rowNumber)}>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={selectedRows.has(row.rowNumber)}
+                        disabled={row.status === 'INVALID'}
+                        onChange={() => handleToggleRow(row.rowNumber)}
+                      />
+                    </TableCell>
+                    <TableCell>{row.rowNumber}</TableCell>
+                    <TableCell>{row.tradeDate ? format(parseISO(row.tradeDate), 'dd/MM/yyyy') : '-'}</TableCell>
+                    <TableCell>{row.symbol || '-'}</TableCell>
+                    <TableCell>
+                      {row.side && (
+                        <Chip
+                          size="small"
+                          label={row.side}
+                          color={row.side === TradeSide.BUY ? 'success' : 'error'}
+                          variant="outlined"
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{row.quantity !== null ? formatNumber(row.quantity) : '-'}</TableCell>
+                    <TableCell align="right">{row.price !== null ? formatCurrency(row.price) : '-'}</TableCell>
+                    <TableCell align="right">{formatCurrency(row.fee)}</TableCell>
+                    <TableCell align="right">{formatCurrency(row.tax)}</TableCell>
+                    <TableCell>
+                      <Tooltip title={tooltip}>
+                        <Chip
+                          size="small"
+                          label={t(`trading.import.status.${row.status}`)}
+                          color={statusColor(row.status)}
+                        />
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <Box display="flex" justifyContent="space-between" mt={3}>
+          <Button startIcon={<ArrowBackIcon />} onClick={() => setActiveStep(1)}>
+            {t('trading.import.back')}
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={commitMutation.isLoading ? <CircularProgress size={16} /> : <CheckCircleIcon />}
+            disabled={selectedRows.size === 0 || commitMutation.isLoading}
+            onClick={handleCommit}
+          >
+            {t('trading.import.confirm', { count: selectedRows.size })}
+          </Button>
+        </Box>
+      </Box>
+    );
+  };
+
+  return (
+    <Box>
+      <Stepper activeStep={result ? steps.length : activeStep} sx={{ mb: 3 }}>
+        {steps.map((label) => (
+          <Step key={label}>
+            <StepLabel>{label}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+      {activeStep === 0 && renderUploadStep()}
+      {activeStep === 1 && renderMappingStep()}
+      {activeStep === 2 && renderReviewStep()}
+    </Box>
+  );
+};
+
+export default TradeImportWizard;
@@ -0,0 +1,159 @@
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { ThemeProvider, createTheme } from '@mui/material/styles';
+import { vi } from 'vitest';
+import { TradeImportWizard } from '../TradeImportWizard';
+import {
+  BrokerStatementLayout,
+  TradeImportPreviewResponse,
+  TradeImportPreviewRow,
+  TradeSide,
+} from '../../../types';
+
+const mockPreview = vi.fn();
+const mockCommit = vi.fn();
+
+// Mock the hooks
+vi.mock('../../../hooks/useTrading', () => ({
+  useTradeImportLayouts: () => ({ data: undefined }),
+  useTradeImportPreview: () => ({ mutateAsync: mockPreview, isLoading: false }),
+  useCommitTradeImport: () => ({ mutateAsync: mockCommit, isLoading: false }),
+}));
+
+const theme = createTheme();
+
+const previewRow = (overrides: Partial<TradeImportPreviewRow>): TradeImportPreviewRow => ({
+  rowNumber: 1,
+  tradeDate: '2024-03-15',
+  symbol: 'HPG',
+  side: TradeSide.BUY,
+  quantity: 100,
+  price: 25000,
+  fee: 0,
+  tax: 0,
+  createsAsset: false,
+  status: 'VALID',
+  errors: [],
+  ...overrides,
+});
+
+const previewResponse: TradeImportPreviewResponse = {
+  portfolioId: 'portfolio-1',
+  fileName: 'statement.csv',
+  layout: BrokerStatementLayout.SSI,
+  headers: ['Ngày GD', 'Mã CK', 'Loại GD', 'KL khớp', 'Giá khớp'],
+  columnMapping: {
+    tradeDate: 'Ngày GD',
+    symbol: 'Mã CK',
+    side: 'Loại GD',
+    quantity: 'KL khớp',
+    price: 'Giá khớp',
+  },
+  missingFields: [],
+  rows: [
+    previewRow({ rowNumber: 1, fee: 3750 }),
+    previewRow({ rowNumber: 2, symbol: 'VCB', side: TradeSide.SELL, status: 'DUPLICATE', duplicateOf: 'trade-9' }),
+    previewRow({ rowNumber: 3, symbol: null, status: 'INVALID', errors: ['Missing symbol'] }),
+  ],
+  summary: { total: 3, valid: 1, duplicates: 1, invalid: 1 },
+};
+
+const renderWizard = (onImported = vi.fn()) => {
+  const view = render(
+    <ThemeProvider theme={theme}>
+      <TradeImportWizard portfolioId="portfolio-1" onImported={onImported} />
+    </ThemeProvider>
+  );
+  return { ...view, onImported };
+};
+
+const uploadAndReview = async (container: HTMLElement) => {
+  const file = new File(['Ngày GD,Mã CK'], 'statement.csv', { type: 'text/csv' });
+  fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [file] } });
+  fireEvent.click(screen.getByRole('button', { name: 'trading.import.next' }));
+
+  // Mapping step: the detected mapping is complete, so the next preview moves on to review
+  await screen.findByRole('button', { name: 'trading.import.back' });
+  fireEvent.click(screen.getByRole('button', { name: 'trading.import.next' }));
+
+  await screen.findByRole('table');
+  return screen.getAllByRole('row');
+};
+
+describe('TradeImportWizard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPreview.mockResolvedValue(previewResponse);
+    mockCommit.mockResolvedValue({
+      portfolioId: 'portfolio-1',
+      importedCount: 1,
+      tradeIds: ['trade-1'],
+      skipped: [],
+      realizedPnl: 0,
+    });
+  });
+
+  it('should preview the statement and then re-preview with the column mapping', async () => {
+    const { container } = renderWizard();
+
+    await uploadAndReview(container);
+
+    expect(mockPreview).toHaveBeenCalledTimes(2);
+    expect(mockPreview.mock.calls[0][0]).toMatchObject({
+      file: expect.any(File),
+      params: { portfolioId: 'portfolio-1', layout: BrokerStatementLayout.SSI, columnMapping: undefined },
+    });
+    expect(mockPreview.mock.calls[1][0].params.columnMapping).toEqual(previewResponse.columnMapping);
+  });
+
+  it('should list previewed rows with duplicates unchecked and invalid rows disabled', async () => {
+    const { container } = renderWizard();
+
+    const rows = await uploadAndReview(container);
+    const [validRow, duplicateRow, invalidRow] = rows.slice(1);
+
+    expect(within(validRow).getByText('HPG')).toBeInTheDocument();
+    expect(within(validRow).getByRole('checkbox')).toBeChecked();
+    expect(within(duplicateRow).getByRole('checkbox')).not.toBeChecked();
+    expect(within(invalidRow).getByRole('checkbox')).toBeDisabled();
+  });
+
+  it('should commit only the selected rows and report the result', async () => {
+    const { container, onImported } = renderWizard();
+
+    await uploadAndReview(container);
+    fireEvent.click(screen.getByRole('button', { name: 'trading.import.confirm' }));
+
+    await waitFor(() => expect(mockCommit).toHaveBeenCalledTimes(1));
+    expect(mockCommit).toHaveBeenCalledWith({
+      portfolioId: 'portfolio-1',
+      broker: BrokerStatementLayout.SSI,
+      rows: [
+        expect.objectContaining({
+          rowNumber: 1,
+          symbol: 'HPG',
+          tradeDate: '2024-03-15',
+          side: TradeSide.BUY,
+          quantity: 100,
+          price: 25000,
+          fee: 3750,
+          allowDuplicate: false,
+        }),
+      ],
+    });
+    expect(await screen.findByText(/trading.import.importedCount/)).toBeInTheDocument();
+    expect(onImported).toHaveBeenCalledWith(expect.objectContaining({ importedCount: 1 }));
+  });
+
+  it('should import a duplicate row only after it is checked', async () => {
+    const { container } = renderWizard();
+
+    const rows = await uploadAndReview(container);
+    fireEvent.click(within(rows[2]).getByRole('checkbox'));
+    fireEvent.click(screen.getByRole('button', { name: 'trading.import.confirm' }));
+
+    await waitFor(() => expect(mockCommit).toHaveBeenCalledTimes(1));
+    const committedRows = mockCommit.mock.calls[0][0].rows;
+    expect(committedRows.map((row: { rowNumber: number }) => row.rowNumber)).toEqual([1, 2]);
+    expect(committedRows[1]).toMatchObject({ symbol: 'VCB', allowDuplicate: true });
+  });
+});
@@ -0,0 +1,628 @@
+/**
+ * Watchlists
+ * Named lists of catalog symbols with live prices and signal columns, shareable read-only with other accounts
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  ListSubheader,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  AddShoppingCart as TradeIcon,
+  ArrowDownward as ArrowDownwardIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  ExitToApp as LeaveIcon,
+  Share as ShareIcon,
+  Visibility as VisibilityIcon,
+} from '@mui/icons-material';
+import {
+  WatchlistRow,
+  WatchlistSort,
+  WatchlistSortField,
+  WatchlistSortDirection,
+  CreateWatchlistRequest,
+  UpdateWatchlistItemRequest,
+} from '../../types/watchlist.types';
+import { useWatchlists, useWatchlist, useWatchlistMutations } from '../../hooks/useWatchlists';
+import { useCreateTrade } from '../../hooks/useTrading';
+import { usePortfolios } from '../../hooks/usePortfolios';
+import { TradeForm } from '../Trading/TradeForm';
+import { TradeFormData, TradeSide } from '../../types';
+import { formatCurrency, formatDateTime, formatNumber, formatPercentage } from '../../utils/format';
+
+interface WatchlistsProps {
+  accountId: string;
+}
+
+/** Sortable columns; the rest of the table is not sortable */
+const SORT_COLUMNS: Array<{ field: WatchlistSortField; align?: 'right' }> = [
+  { field: WatchlistSortField.SYMBOL },
+  { field: WatchlistSortField.PRICE, align: 'right' },
+  { field: WatchlistSortField.DAILY_CHANGE_PERCENT, align: 'right' },
+];
+
+const changeColor = (value: number | null) =>
+  value === null || value === 0 ? 'text.primary' : value > 0 ? 'success.main' : 'error.main';
+
+export const Watchlists: React.FC<WatchlistsProps> = ({ accountId }) => {
+  const { t } = useTranslation();
+  const { data: watchlists = [], isLoading: watchlistsLoading } = useWatchlists(accountId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [viewSort, setViewSort] = useState<WatchlistSort | undefined>(undefined);
+  const { data: watchlist, isLoading: watchlistLoading } = useWatchlist(accountId, selectedId, viewSort);
+  const mutations = useWatchlistMutations(accountId, selectedId);
+  const { portfolios = [] } = usePortfolios(accountId);
+  const createTradeMutation = useCreateTrade();
+
+  const [listForm, setListForm] = useState<(CreateWatchlistRequest & { watchlistId?: string }) | null>(null);
+  const [newSymbol, setNewSymbol] = useState('');
+  const [newTargetPrice, setNewTargetPrice] = useState('');
+  const [itemForm, setItemForm] = useState<{ row: WatchlistRow; data: UpdateWatchlistItemRequest } | null>(null);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [shareAccountId, setShareAccountId] = useState('');
+  const [tradeRow, setTradeRow] = useState<WatchlistRow | null>(null);
+
+  const ownWatchlists = watchlists.filter(item => item.isOwner);
+  const sharedWatchlists = watchlists.filter(item => !item.isOwner);
+
+  // Keep a valid selection as lists are created, deleted or unshared
+  useEffect(() => {
+    if (!watchlists.some(item => item.watchlistId === selectedId)) {
+      setSelectedId(watchlists[0]?.watchlistId ?? null);
+      setViewSort(undefined);
+    }
+  }, [watchlists, selectedId]);
+
+  const isOwner = !!watchlist?.isOwner;
+  const sort: WatchlistSort | undefined = watchlist
+    ? viewSort || { sortBy: watchlist.sortBy, sortDirection: watchlist.sortDirection }
+    : undefined;
+  const canReorder = isOwner && sort?.sortBy === WatchlistSortField.MANUAL;
+  const rows = useMemo(() => watchlist?.rows ?? [], [watchlist]);
+
+  const tradeInitialData = useMemo<Partial<TradeFormData> | undefined>(() => (tradeRow ? {
+    assetId: tradeRow.globalAssetId,
+    price: tradeRow.price ?? 0,
+    side: TradeSide.BUY,
+  } : undefined), [tradeRow]);
+
+  /**
+   * The owner's sort is saved with the list; readers only sort their own view
+   */
+  const handleSort = (field: WatchlistSortField) => {
+    if (!sort) return;
+    const sortDirection = sort.sortBy === field && sort.sortDirection === WatchlistSortDirection.ASC
+      ? WatchlistSortDirection.DESC
+      : WatchlistSortDirection.ASC;
+    if (isOwner && selectedId) {
+      setViewSort(undefined);
+      mutations.saveWatchlist.mutate({ id: selectedId, data: { sortBy: field, sortDirection } });
+    } else {
+      setViewSort({ sortBy: field, sortDirection });
+    }
+  };
+
+  const handleSaveList = async () => {
+    if (!listForm) return;
+    const { watchlistId, ...data } = listForm;
+    const saved = await mutations.saveWatchlist.mutateAsync({ id: watchlistId, data: { ...data, name: data.name.trim() } });
+    setSelectedId(saved.watchlistId);
+    setListForm(null);
+  };
+
+  const handleDeleteList = () => {
+    if (watchlist && window.confirm(t('watchlists.deleteConfirm', { name: watchlist.name }))) {
+      mutations.deleteWatchlist.mutate(watchlist.watchlistId);
+    }
+  };
+
+  const handleLeaveList = () => {
+    if (watchlist && window.confirm(t('watchlists.leaveConfirm', { name: watchlist.name }))) {
+      mutations.leave.mutate();
+    }
+  };
+
+  const handleAddSymbol = async () => {
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!symbol) return;
+    await mutations.addItem.mutateAsync({
+      symbol,
+      targetPrice: newTargetPrice ? Number(newTargetPrice) : undefined,
+    });
+    setNewSymbol('');
+    setNewTargetPrice('');
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const ids = rows.map(row => row.watchlistItemId);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    mutations.reorderItems.mutate(ids);
+  };
+
+  const handleSaveItem = async () => {
+    if (!itemForm) return;
+    await mutations.updateItem.mutateAsync({ itemId: itemForm.row.watchlistItemId, data: itemForm.data });
+    setItemForm(null);
+  };
+
+  const handleRemoveItem = (row: WatchlistRow) => {
+    if (window.confirm(t('watchlists.removeConfirm', { symbol: row.symbol }))) {
+      mutations.removeItem.mutate(row.watchlistItemId);
+    }
+  };
+
+  const handleShare = async () => {
+    await mutations.share.mutateAsync(shareAccountId.trim());
+    setShareAccountId('');
+  };
+
+  const handleCreateTrade = async (data: TradeFormData) => {
+    await createTradeMutation.mutateAsync({ ...data, tradeDate: data.tradeDate });
+    setTradeRow(null);
+  };
+
+  const formatPrice = (value: number | null, currency: string) =>
+    value === null ? '-' : formatCurrency(value, currency);
+
+  if (watchlistsLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <Box>
+          <Typography variant="h5" sx={{ mb: 1, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <VisibilityIcon color="primary" />
+            {t('watchlists.title')}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {t('watchlists.description')}
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => setListForm({ name: '', description: '' })}
+          sx={{ textTransform: 'none' }}
+        >
+          {t('watchlists.newWatchlist')}
+        </Button>
+      </Box>
+
+      {watchlists.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+          {t('watchlists.noWatchlists')}
+        </Typography>
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+            <FormControl size="small" sx={{ minWidth: 260 }}>
+              <InputLabel>{t('watchlists.watchlist')}</InputLabel>
+              <Select
+                value={selectedId ?? ''}
+                label={t('watchlists.watchlist')}
+                onChange={(event) => {
+                  setSelectedId(event.target.value as string);
+                  setViewSort(undefined);
+                }}
+              >
+                {ownWatchlists.length > 0 && <ListSubheader>{t('watchlists.myWatchlists')}</ListSubheader>}
+                {ownWatchlists.map(item => (
+                  <MenuItem key={item.watchlistId} value={item.watchlistId}>
+                    {item.name} ({item.itemCount})
+                  </MenuItem>
+                ))}
+                {sharedWatchlists.length > 0 && <ListSubheader>{t('watchlists.sharedWithMe')}</ListSubheader>}
+                {sharedWatchlists.map(item => (
+                  <MenuItem key={item.watchlistId} value={item.watchlistId}>
+                    {item.name} · {item.ownerName || item.ownerAccountId}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {watchlist && isOwner && (
+              <>
+                <Tooltip title={t('common.edit')}>
+                  <IconButton
+                    size="small"
+                    onClick={() => setListForm({
+                      watchlistId: watchlist.watchlistId,
+                      name: watchlist.name,
+                      description: watchlist.description ?? '',
+                    })}
+                  >
+                    <EditIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title={t('watchlists.share')}>
+                  <IconButton size="small" onClick={() => setShareOpen(true)}>
+                    <ShareIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title={t('common.delete')}>
+                  <IconButton size="small" color="error" onClick={handleDeleteList} disabled={mutations.deleteWatchlist.isLoading}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </>
+            )}
+            {watchlist && !isOwner && (
+              <>
+                <Chip size="small" label={t('watchlists.readOnly', { owner: watchlist.ownerName || watchlist.ownerAccountId })} />
+                <Tooltip title={t('watchlists.leave')}>
+                  <IconButton size="small" onClick={handleLeaveList} disabled={mutations.leave.isLoading}>
+                    <LeaveIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </>
+            )}
+          </Box>
+
+          {watchlist?.description && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {watchlist.description}
+            </Typography>
+          )}
+
+          {isOwner && (
+            <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+              <TextField
+                size="small"
+                label={t('watchlists.symbol')}
+                value={newSymbol}
+                onChange={(event) => setNewSymbol(event.target.value.toUpperCase())}
+                onKeyDown={(event) => event.key === 'Enter' && handleAddSymbol()}
+                placeholder="HPG"
+              />
+              <TextField
+                size="small"
+                type="number"
+                label={t('watchlists.targetPrice')}
+                value={newTargetPrice}
+                onChange={(event) => setNewTargetPrice(event.target.value)}
+                inputProps={{ min: 0 }}
+              />
+              <Button
+                variant="outlined"
+                startIcon={mutations.addItem.isLoading ? <CircularProgress size={16} /> : <AddIcon />}
+                onClick={handleAddSymbol}
+                disabled={!newSymbol.trim() || mutations.addItem.isLoading}
+                sx={{ textTransform: 'none' }}
+              >
+                {t('watchlists.addSymbol')}
+              </Button>
+            </Box>
+          )}
+
+          {watchlistLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    {SORT_COLUMNS.map(column => (
+                      <TableCell key={column.field} align={column.align}>
+                        <TableSortLabel
+                          active={sort?.sortBy === column.field}
+                          direction={sort?.sortBy === column.field && sort.sortDirection === WatchlistSortDirection.DESC ? 'desc' : 'asc'}
+                          onClick={() => handleSort(column.field)}
+                        >
+                          {t(`watchlists.columns.${column.field}`)}
+                        </TableSortLabel>
+                      </TableCell>
+                    ))}
+                    <TableCell align="right">{t('watchlists.columns.range52w')}</TableCell>
+                    <TableCell align="right">
+                      <TableSortLabel
+                        active={sort?.sortBy === WatchlistSortField.FROM_HIGH_52W_PERCENT}
+                        direction={sort?.sortBy === WatchlistSortField.FROM_HIGH_52W_PERCENT && sort.sortDirection === WatchlistSortDirection.DESC ? 'desc' : 'asc'}
+                        onClick={() => handleSort(WatchlistSortField.FROM_HIGH_52W_PERCENT)}
+                      >
+                        {t(`watchlists.columns.${WatchlistSortField.FROM_HIGH_52W_PERCENT}`)}
+                      </TableSortLabel>
+                    </TableCell>
+                    <TableCell align="right">{t('watchlists.targetPrice')}</TableCell>
+                    <TableCell align="right">
+                      <TableSortLabel
+                        active={sort?.sortBy === WatchlistSortField.DISTANCE_TO_TARGET_PERCENT}
+                        direction={sort?.sortBy === WatchlistSortField.DISTANCE_TO_TARGET_PERCENT && sort.sortDirection === WatchlistSortDirection.DESC ? 'desc' : 'asc'}
+                        onClick={() => handleSort(WatchlistSortField.DISTANCE_TO_TARGET_PERCENT)}
+                      >
+                        {t(`watchlists.columns.${WatchlistSortField.DISTANCE_TO_TARGET_PERCENT}`)}
+                      </TableSortLabel>
+                    </TableCell>
+                    <TableCell>{t('watchlists.notes')}</TableCell>
+                    <TableCell align="right">
+                      {sort?.sortBy !== WatchlistSortField.MANUAL && (
+                        <Button size="small" onClick={() => handleSort(WatchlistSortField.MANUAL)} sx={{ textTransform: 'none' }}>
+                          {t('watchlists.manualOrder')}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={9} align="center">
+                        {t('watchlists.noSymbols')}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {rows.map((row, index) => (
+                    <TableRow key={row.watchlistItemId} hover>
+                      <TableCell>
+                        <Typography variant="body2" sx={{ fontWeight: 600 }}>{row.symbol}</Typography>
+                        <Typography variant="caption" color="text.secondary">{row.name}</Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title={row.lastPriceUpdate ? formatDateTime(row.lastPriceUpdate) : ''}>
+                          <span>{formatPrice(row.price, row.currency)}</span>
+                        </Tooltip>
+                      </TableCell>
+                      <TableCell align="right" sx={{ color: changeColor(row.dailyChange) }}>
+                        {row.dailyChange === null ? '-' : (
+                          <>
+                            {row.dailyChange > 0 ? '+' : ''}{formatNumber(row.dailyChange, row.currency === 'VND' ? 0 : 2)}
+                            {row.dailyChangePercent !== null && ` (${formatPercentage(row.dailyChangePercent)})`}
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        {row.low52w === null ? '-' : `${formatPrice(row.low52w, row.currency)} – ${formatPrice(row.high52w, row.currency)}`}
+                      </TableCell>
+                      <TableCell align="right">
+                        {row.fromHigh52wPercent === null ? '-' : formatPercentage(-row.fromHigh52wPercent)}
+                      </TableCell>
+                      <TableCell align="right">{formatPrice(row.targetPrice, row.currency)}</TableCell>
+                      <TableCell align="right" sx={{ color: changeColor(row.distanceToTargetPercent) }}>
+                        {row.distanceToTargetPercent === null ? '-' : `${row.distanceToTargetPercent > 0 ? '+' : ''}${formatPercentage(row.distanceToTargetPercent)}`}
+                      </TableCell>
+                      <TableCell sx={{ maxWidth: 240 }}>
+                        <Typography variant="body2" color="text.secondary" noWrap title={row.notes ?? ''}>
+                          {row.notes || ''}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <Tooltip title={t('watchlists.trade')}>
+                          <IconButton size="small" color="primary" onClick={() => setTradeRow(row)} disabled={portfolios.length === 0}>
+                            <TradeIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        {canReorder && (
+                          <>
+                            <IconButton size="small" onClick={() => handleMove(index, -1)} disabled={index === 0 || mutations.reorderItems.isLoading}>
+                              <ArrowUpwardIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton size="small" onClick={() => handleMove(index, 1)} disabled={index === rows.length - 1 || mutations.reorderItems.isLoading}>
+                              <ArrowDownwardIcon fontSize="small" />
+                            </IconButton>
+                          </>
+                        )}
+                        {isOwner && (
+                          <>
+                            <Tooltip title={t('common.edit')}>
+                              <IconButton
+                                size="small"
+                                onClick={() => setItemForm({ row, data: { targetPrice: row.targetPrice, notes: row.notes ?? '' } })}
+                              >
+                                <EditIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title={t('common.delete')}>
+                              <IconButton size="small" color="error" onClick={() => handleRemoveItem(row)} disabled={mutations.removeItem.isLoading}>
+                                <DeleteIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </>
+      )}
+
+      {/* Watchlist dialog */}
+      <Dialog open={!!listForm} onClose={() => setListForm(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {listForm?.watchlistId ? t('watchlists.editWatchlist') : t('watchlists.newWatchlist')}
+        </DialogTitle>
+        {listForm && (
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={t('watchlists.name')}
+                  value={listForm.name}
+                  onChange={(event) => setListForm({ ...listForm, name: event.target.value })}
+                  inputProps={{ maxLength: 100 }}
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  multiline
+                  minRows={2}
+                  label={t('watchlists.descriptionLabel')}
+                  value={listForm.description ?? ''}
+                  onChange={(event) => setListForm({ ...listForm, description: event.target.value })}
+                />
+              </Grid>
+            </Grid>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setListForm(null)}>{t('common.cancel')}</Button>
+          <Button
+            variant="contained"
+            onClick={handleSaveList}
+            disabled={!listForm?.name.trim() || mutations.saveWatchlist.isLoading}
+          >
+            {t('common.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Item dialog */}
+      <Dialog open={!!itemForm} onClose={() => setItemForm(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{itemForm?.row.symbol}</DialogTitle>
+        {itemForm && (
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="number"
+                  label={t('watchlists.targetPrice')}
+                  value={itemForm.data.targetPrice ?? ''}
+                  onChange={(event) => setItemForm({
+                    ...itemForm,
+                    data: { ...itemForm.data, targetPrice: event.target.value === '' ? null : Number(event.target.value) },
+                  })}
+                  inputProps={{ min: 0 }}
+                  helperText={itemForm.row.price !== null ? t('watchlists.currentPrice', { price: formatPrice(itemForm.row.price, itemForm.row.currency) }) : undefined}
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  multiline
+                  minRows={3}
+                  label={t('watchlists.notes')}
+                  value={itemForm.data.notes ?? ''}
+                  onChange={(event) => setItemForm({ ...itemForm, data: { ...itemForm.data, notes: event.target.value } })}
+                />
+              </Grid>
+            </Grid>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setItemForm(null)}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleSaveItem} disabled={mutations.updateItem.isLoading}>
+            {t('common.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Share dialog */}
+      <Dialog open={shareOpen} onClose={() => setShareOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('watchlists.shareTitle', { name: watchlist?.name })}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t('watchlists.shareDescription')}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label={t('permissions.accountId')}
+              placeholder={t('permissions.accountIdPlaceholder')}
+              value={shareAccountId}
+              onChange={(event) => setShareAccountId(event.target.value)}
+            />
+            <Button
+              variant="contained"
+              onClick={handleShare}
+              disabled={!shareAccountId.trim() || mutations.share.isLoading}
+              sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+            >
+              {t('watchlists.share')}
+            </Button>
+          </Box>
+          <Table size="small">
+            <TableBody>
+              {(watchlist?.shares ?? []).length === 0 && (
+                <TableRow>
+                  <TableCell align="center">{t('watchlists.notShared')}</TableCell>
+                </TableRow>
+              )}
+              {(watchlist?.shares ?? []).map(share => (
+                <TableRow key={share.accountId}>
+                  <TableCell>
+                    <Typography variant="body2">{share.accountName || share.accountId}</Typography>
+                    <Typography variant="caption" color="text.secondary">{share.accountEmail}</Typography>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title={t('watchlists.unshare')}>
+                      <IconButton size="small" color="error" onClick={() => mutations.unshare.mutate(share.accountId)} disabled={mutations.unshare.isLoading}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShareOpen(false)}>{t('common.close')}</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Trade form prefilled from the watched symbol */}
+      {tradeRow && (
+        <TradeForm
+          key={tradeRow.watchlistItemId}
+          open={!!tradeRow}
+          onClose={() => setTradeRow(null)}
+          onSubmit={handleCreateTrade}
+          initialData={tradeInitialData}
+          defaultPortfolioId={portfolios.length === 1 ? portfolios[0].portfolioId : undefined}
+          isLoading={createTradeMutation.isLoading}
+          error={(createTradeMutation.error as Error | null)?.message}
+          mode="create"
+          isModal={true}
+          showSubmitButton={false}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default Watchlists;
@@ -0,0 +1,73 @@
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { alertApi } from '../services/api.alert';
+import {
+  CreateAlertRuleRequest,
+  UpdateAlertRuleRequest,
+  SnoozeAlertRuleRequest,
+} from '../types/alert.types';
+
+export const useAlertRules = (accountId: string) => {
+  return useQuery({
+    queryKey: ['alert-rules', accountId],
+    queryFn: () => alertApi.getRules(accountId),
+    enabled: !!accountId,
+  });
+};
+
+export const useAlertEvents = (accountId: string, ruleId?: string) => {
+  return useQuery({
+    queryKey: ['alert-events', accountId, ruleId],
+    queryFn: () => alertApi.getEvents(accountId, ruleId),
+    enabled: !!accountId,
+  });
+};
+
+export const useSaveAlertRule = (accountId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ ruleId, data }: { ruleId?: string; data: CreateAlertRuleRequest | UpdateAlertRuleRequest }) =>
+      ruleId
+        ? alertApi.updateRule(ruleId, data as UpdateAlertRuleRequest, accountId)
+        : alertApi.createRule(data as CreateAlertRuleRequest, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules', accountId] });
+    },
+  });
+};
+
+export const useDeleteAlertRule = (accountId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ruleId: string) => alertApi.deleteRule(ruleId, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules', accountId] });
+      queryClient.invalidateQueries({ queryKey: ['alert-events', accountId] });
+    },
+  });
+};
+
+export const useSnoozeAlertRule = (accountId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ ruleId, data }: { ruleId: string; data: SnoozeAlertRuleRequest | null }) =>
+      data ? alertApi.snoozeRule(ruleId, data, accountId) : alertApi.unsnoozeRule(ruleId, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules', accountId] });
+    },
+  });
+};
+
+export const useEvaluateAlerts = (accountId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => alertApi.evaluate(accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules', accountId] });
+      queryClient.invalidateQueries({ queryKey: ['alert-events', accountId] });
+    },
+  });
+};
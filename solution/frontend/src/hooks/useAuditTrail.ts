@@ -0,0 +1,20 @@
+import { useQuery } from 'react-query';
+import { auditTrailApi } from '../services/api.audit-trail';
+import { AuditTrailFilters } from '../types/audit-trail.types';
+
+export const useAuditTrail = (portfolioId: string, accountId: string, filters: AuditTrailFilters = {}) => {
+  return useQuery({
+    queryKey: ['auditTrail', portfolioId, accountId, filters],
+    queryFn: () => auditTrailApi.getTimeline(portfolioId, accountId, filters),
+    enabled: !!portfolioId && !!accountId,
+    keepPreviousData: true,
+  });
+};
+
+export const usePeriodLock = (portfolioId: string, accountId: string) => {
+  return useQuery({
+    queryKey: ['periodLock', portfolioId, accountId],
+    queryFn: () => auditTrailApi.getPeriodLock(portfolioId, accountId),
+    enabled: !!portfolioId && !!accountId,
+  });
+};
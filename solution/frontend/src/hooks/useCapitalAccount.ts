@@ -0,0 +1,10 @@
+import { useQuery } from 'react-query';
+import { capitalAccountApi } from '../services/api.capital-account';
+
+export const useCapitalAccount = (holdingId: string, accountId: string, from?: string, to?: string) => {
+  return useQuery({
+    queryKey: ['capitalAccount', holdingId, accountId, from, to],
+    queryFn: () => capitalAccountApi.getLedger(holdingId, accountId, from, to),
+    enabled: !!holdingId && !!accountId,
+  });
+};
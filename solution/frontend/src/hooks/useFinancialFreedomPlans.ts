@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from 'react-query';
 import { financialFreedomApi } from '../services/api.financial-freedom';
-import { CreatePlanRequest, UpdatePlanRequest } from '../types/financialFreedom.types';
+import { CreatePlanRequest, UpdatePlanRequest, MonteCarloOptions, MonteCarloRequest } from '../types/financialFreedom.types';
 import { useAccount } from '../contexts/AccountContext';
 
 export const useFinancialFreedomPlans = (accountId?: string) => {
@@ -51,6 +51,7 @@ export const useUpdateFinancialFreedomPlan = (accountId?: string) => {
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['financialFreedomPlans', effectiveAccountId] });
       queryClient.invalidateQueries({ queryKey: ['financialFreedomPlan', variables.id] });
+      queryClient.invalidateQueries({ queryKey: ['planMonteCarlo', variables.id] });
     },
   });
 };
@@ -150,3 +151,30 @@ export const useUnlinkPortfolioFromPlan = (accountId?: string) => {
   });
 };
 
+
+export const usePlanMonteCarlo = (planId?: string, options: MonteCarloOptions = {}, accountId?: string) => {
+  const { accountId: contextAccountId } = useAccount();
+  const effectiveAccountId = accountId || contextAccountId;
+
+  return useQuery({
+    queryKey: ['planMonteCarlo', planId, effectiveAccountId, options],
+    queryFn: () => financialFreedomApi.simulatePlan(planId!, effectiveAccountId!, options),
+    enabled: !!planId && !!effectiveAccountId,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+};
+
+// Simulation of unsaved plan inputs; disabled until a request is available
+export const useMonteCarloSimulation = (request?: MonteCarloRequest | null, accountId?: string) => {
+  const { accountId: contextAccountId } = useAccount();
+  const effectiveAccountId = accountId || contextAccountId;
+
+  return useQuery({
+    queryKey: ['financialFreedomMonteCarlo', effectiveAccountId, request],
+    queryFn: () => financialFreedomApi.simulate(request!, effectiveAccountId!),
+    enabled: !!request && !!effectiveAccountId,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+};
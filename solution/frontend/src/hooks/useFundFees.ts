@@ -0,0 +1,44 @@
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { fundFeeApi } from '../services/api.fund-fee';
+import { UpsertFundFeeScheduleRequest } from '../types/fund-fee.types';
+
+export const useFundFeeSummary = (portfolioId: string, accountId: string) => {
+  return useQuery({
+    queryKey: ['fundFees', portfolioId, accountId],
+    queryFn: () => fundFeeApi.getSummary(portfolioId, accountId),
+    enabled: !!portfolioId && !!accountId,
+  });
+};
+
+export const useUpsertFundFeeSchedule = (portfolioId: string, accountId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: UpsertFundFeeScheduleRequest) => fundFeeApi.upsertSchedule(portfolioId, data, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fundFees', portfolioId] });
+    },
+  });
+};
+
+export const useAccrueFundFees = (portfolioId: string, accountId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => fundFeeApi.accrueFees(portfolioId, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fundFees', portfolioId] });
+    },
+  });
+};
+
+export const useCrystallizeFundFees = (portfolioId: string, accountId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (date?: string) => fundFeeApi.crystallizeFees(portfolioId, accountId, date),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fundFees', portfolioId] });
+    },
+  });
+};
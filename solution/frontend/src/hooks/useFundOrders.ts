@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { fundOrderApi } from '../services/api.fund-order';
+import { CreateFundOrderRequest, UpdateDealingCalendarRequest } from '../types/fund-order.types';
+
+export const useFundOrders = (portfolioId: string, accountId: string) => {
+  return useQuery({
+    queryKey: ['fundOrders', portfolioId, accountId],
+    queryFn: () => fundOrderApi.getOrders(portfolioId, accountId),
+    enabled: !!portfolioId && !!accountId,
+  });
+};
+
+export const useFundOrderQueue = (portfolioId: string, accountId: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: ['fundOrderQueue', portfolioId, accountId],
+    queryFn: () => fundOrderApi.getApprovalQueue(portfolioId, accountId),
+    enabled: enabled && !!portfolioId && !!accountId,
+  });
+};
+
+export const useDealingCalendar = (portfolioId: string, accountId: string) => {
+  return useQuery({
+    queryKey: ['dealingCalendar', portfolioId, accountId],
+    queryFn: () => fundOrderApi.getDealingCalendar(portfolioId, accountId),
+    enabled: !!portfolioId && !!accountId,
+  });
+};
+
+const useInvalidateFundOrders = (portfolioId: string) => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['fundOrders', portfolioId] });
+    queryClient.invalidateQueries({ queryKey: ['fundOrderQueue', portfolioId] });
+  };
+};
+
+export const useCreateFundOrder = (portfolioId: string, accountId: string) => {
+  const invalidate = useInvalidateFundOrders(portfolioId);
+
+  return useMutation({
+    mutationFn: (data: CreateFundOrderRequest) => fundOrderApi.createOrder(portfolioId, data, accountId),
+    onSuccess: invalidate,
+  });
+};
+
+export const usePriceFundOrders = (portfolioId: string, accountId: string) => {
+  const invalidate = useInvalidateFundOrders(portfolioId);
+
+  return useMutation({
+    mutationFn: () => fundOrderApi.priceOrders(portfolioId, accountId),
+    onSuccess: invalidate,
+  });
+};
+
+export const useApproveFundOrder = (portfolioId: string, accountId: string) => {
+  const invalidate = useInvalidateFundOrders(portfolioId);
+
+  return useMutation({
+    mutationFn: (orderId: string) => fundOrderApi.approveOrder(portfolioId, orderId, accountId),
+    onSuccess: invalidate,
+  });
+};
+
+export const useRejectFundOrder = (portfolioId: string, accountId: string) => {
+  const invalidate = useInvalidateFundOrders(portfolioId);
+
+  return useMutation({
+    mutationFn: ({ orderId, reason }: { orderId: string; reason: string }) =>
+      fundOrderApi.rejectOrder(portfolioId, orderId, reason, accountId),
+    onSuccess: invalidate,
+  });
+};
+
+export const useUpdateDealingCalendar = (portfolioId: string, accountId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: UpdateDealingCalendarRequest) => fundOrderApi.updateDealingCalendar(portfolioId, data, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['dealingCalendar', portfolioId] });
+    },
+  });
+};
@@ -4,10 +4,11 @@
  */
 
 import { useCallback } from 'react';
-import { useMutation, useQuery } from 'react-query';
+import { useMutation, useQuery, useQueryClient } from 'react-query';
 import HistoricalPricesService, { 
   HistoricalPriceUpdateRequest, 
-  HistoricalPriceUpdateResult
+  HistoricalPriceUpdateResult,
+  DailyBarQueryParams
 } from '../services/historicalPrices.service';
 
 export interface UseHistoricalPricesOptions {
@@ -103,4 +104,44 @@ export const useHistoricalPrices = (options: UseHistoricalPricesOptions = {}): U
   };
 };
 
+/**
+ * Daily OHLCV bars of a symbol
+ */
+export const useDailyBars = (symbol: string | undefined, params: DailyBarQueryParams = {}) => {
+  return useQuery({
+    queryKey: ['dailyBars', symbol, params.startDate, params.endDate],
+    queryFn: () => HistoricalPricesService.getDailyBars(symbol as string, params),
+    enabled: !!symbol,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+/**
+ * Trading days without a daily bar
+ */
+export const useDailyBarGaps = (symbol: string | undefined, params: DailyBarQueryParams = {}) => {
+  return useQuery({
+    queryKey: ['dailyBarGaps', symbol, params.startDate, params.endDate],
+    queryFn: () => HistoricalPricesService.getDailyBarGaps(symbol as string, params),
+    enabled: !!symbol,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+/**
+ * Backfill the missing trading days of a symbol, then refresh its bars and gaps
+ */
+export const useBackfillDailyBars = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ symbol, params }: { symbol: string; params?: DailyBarQueryParams }) =>
+      HistoricalPricesService.backfillDailyBarGaps(symbol, params),
+    onSuccess: (_result, { symbol }) => {
+      queryClient.invalidateQueries(['dailyBars', symbol]);
+      queryClient.invalidateQueries(['dailyBarGaps', symbol]);
+    },
+  });
+};
+
 export default useHistoricalPrices;
@@ -0,0 +1,36 @@
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { marketDataProviderApi } from '../services/api.market-data-provider';
+import { UpsertProviderPreferenceRequest } from '../types/market-data-provider.types';
+
+export const useMarketDataProviderHealth = (hours: number) => {
+  return useQuery({
+    queryKey: ['marketDataProviderHealth', hours],
+    queryFn: () => marketDataProviderApi.getHealth(hours),
+    refetchInterval: 60000,
+  });
+};
+
+export const useProviderPreferences = () => {
+  return useQuery({
+    queryKey: ['marketDataProviderPreferences'],
+    queryFn: () => marketDataProviderApi.getPreferences(),
+  });
+};
+
+export const useUpsertProviderPreference = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: UpsertProviderPreferenceRequest) => marketDataProviderApi.upsertPreference(request),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['marketDataProviderPreferences'] }),
+  });
+};
+
+export const useDeleteProviderPreference = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => marketDataProviderApi.deletePreference(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['marketDataProviderPreferences'] }),
+  });
+};
@@ -0,0 +1,47 @@
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { periodCloseApi } from '../services/api.period-close';
+
+export const usePeriodCloses = (portfolioId: string, accountId: string) => {
+  return useQuery({
+    queryKey: ['periodCloses', portfolioId, accountId],
+    queryFn: () => periodCloseApi.getPeriodCloses(portfolioId, accountId),
+    enabled: !!portfolioId && !!accountId,
+  });
+};
+
+export const useReopenImpact = (portfolioId: string, periodCloseId: string | null, accountId: string) => {
+  return useQuery({
+    queryKey: ['periodReopenImpact', portfolioId, periodCloseId, accountId],
+    queryFn: () => periodCloseApi.getReopenImpact(portfolioId, periodCloseId!, accountId),
+    enabled: !!portfolioId && !!periodCloseId && !!accountId,
+  });
+};
+
+const useInvalidatePeriodCloses = (portfolioId: string) => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['periodCloses', portfolioId] });
+    queryClient.invalidateQueries({ queryKey: ['periodLock', portfolioId] });
+    queryClient.invalidateQueries({ queryKey: ['auditTrail', portfolioId] });
+  };
+};
+
+export const useClosePeriod = (portfolioId: string, accountId: string) => {
+  const invalidate = useInvalidatePeriodCloses(portfolioId);
+
+  return useMutation({
+    mutationFn: (periodEnd: string) => periodCloseApi.closePeriod(portfolioId, periodEnd, accountId),
+    onSuccess: invalidate,
+  });
+};
+
+export const useReopenPeriod = (portfolioId: string, accountId: string) => {
+  const invalidate = useInvalidatePeriodCloses(portfolioId);
+
+  return useMutation({
+    mutationFn: ({ periodCloseId, reason }: { periodCloseId: string; reason: string }) =>
+      periodCloseApi.reopenPeriod(portfolioId, periodCloseId, reason, accountId),
+    onSuccess: invalidate,
+  });
+};
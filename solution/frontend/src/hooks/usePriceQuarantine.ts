@@ -0,0 +1,29 @@
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { priceQuarantineApi } from '../services/api.price-quarantine';
+import { QuarantinedPriceQuery } from '../types/price-quarantine.types';
+
+export const useQuarantinedPrices = (query: QuarantinedPriceQuery, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: ['quarantinedPrices', query],
+    queryFn: () => priceQuarantineApi.getQuarantinedPrices(query),
+    enabled,
+  });
+};
+
+export const useApproveQuarantinedPrice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, note }: { id: string; note?: string }) => priceQuarantineApi.approve(id, note),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['quarantinedPrices'] }),
+  });
+};
+
+export const useRejectQuarantinedPrice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, note }: { id: string; note?: string }) => priceQuarantineApi.reject(id, note),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['quarantinedPrices'] }),
+  });
+};
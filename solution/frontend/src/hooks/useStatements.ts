@@ -0,0 +1,22 @@
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { statementApi } from '../services/api.statement';
+import { StatementPeriodType, GenerateStatementRequest } from '../types/statement.types';
+
+export const useStatements = (portfolioId: string, accountId: string, periodType?: StatementPeriodType) => {
+  return useQuery({
+    queryKey: ['statements', portfolioId, accountId, periodType],
+    queryFn: () => statementApi.getStatements(portfolioId, accountId, periodType),
+    enabled: !!portfolioId && !!accountId,
+  });
+};
+
+export const useGenerateStatements = (portfolioId: string, accountId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: GenerateStatementRequest) => statementApi.generateStatements(portfolioId, data, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['statements', portfolioId] });
+    },
+  });
+};
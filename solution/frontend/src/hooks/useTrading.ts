@@ -5,7 +5,30 @@
 import { useMutation, useQuery, useQueryClient } from 'react-query';
 import { useEffect } from 'react';
 import { toast } from 'react-hot-toast';
-import { Trade, CreateTradeDto, UpdateTradeDto, TradeAnalysis, TradePerformance } from '../types';
+import {
+  Trade,
+  CreateTradeDto,
+  UpdateTradeDto,
+  TradeAnalysis,
+  TradePerformance,
+  BrokerLayoutDefinition,
+  TradeImportPreviewParams,
+  TradeImportPreviewResponse,
+  TradeImportCommitDto,
+  TradeImportCommitResponse,
+  CostBasisMethod,
+  CostBasisPreview,
+  OpenLot,
+  TradeChargeEstimate,
+  TaxRules,
+  AnnualTaxSummary,
+  RecurringTransaction,
+  CreateRecurringTransactionDto,
+  UpdateRecurringTransactionDto,
+  RecurringOccurrence,
+  RecurringOccurrenceStatus,
+  UpdateRecurringOccurrenceDto,
+} from '../types';
 import { apiService } from '../services/api';
 import { useAccount } from '../contexts/AccountContext';
 
@@ -93,6 +116,285 @@ export const useDeleteTrade = () => {
   );
 };
 
+export const useTradeImportLayouts = () => {
+  return useQuery<BrokerLayoutDefinition[]>(
+    ['tradeImportLayouts'],
+    () => apiService.getTradeImportLayouts(),
+    {
+      staleTime: 60 * 60 * 1000, // 1 hour
+    }
+  );
+};
+
+export const useTradeImportPreview = () => {
+  const { accountId } = useAccount();
+
+  return useMutation<TradeImportPreviewResponse, any, { file: File; params: TradeImportPreviewParams }>(
+    ({ file, params }) => apiService.previewTradeImport(file, params, accountId),
+    {
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to read statement file');
+      },
+    }
+  );
+};
+
+export const useCommitTradeImport = () => {
+  const queryClient = useQueryClient();
+  const { accountId } = useAccount();
+
+  return useMutation<TradeImportCommitResponse, any, TradeImportCommitDto>(
+    (data) => apiService.commitTradeImport(data, accountId),
+    {
+      onSuccess: (result) => {
+        queryClient.invalidateQueries('trades');
+        queryClient.invalidateQueries('portfolios');
+        toast.success(`Imported ${result.importedCount} trades successfully!`);
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to import trades');
+      },
+    }
+  );
+};
+
+export const useCostBasisMethod = (portfolioId: string) => {
+  const { accountId } = useAccount();
+
+  return useQuery(
+    ['costBasisMethod', portfolioId, accountId],
+    () => apiService.getCostBasisMethod(portfolioId, accountId),
+    {
+      enabled: !!portfolioId && !!accountId,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    }
+  );
+};
+
+export const usePreviewCostBasisMethod = () => {
+  const { accountId } = useAccount();
+
+  return useMutation<CostBasisPreview, any, { portfolioId: string; method: CostBasisMethod }>(
+    ({ portfolioId, method }) => apiService.previewCostBasisMethod(portfolioId, method, accountId),
+    {
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to preview cost basis change');
+      },
+    }
+  );
+};
+
+export const useChangeCostBasisMethod = () => {
+  const queryClient = useQueryClient();
+  const { accountId } = useAccount();
+
+  return useMutation<CostBasisPreview, any, { portfolioId: string; method: CostBasisMethod }>(
+    ({ portfolioId, method }) => apiService.changeCostBasisMethod(portfolioId, method, accountId),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('costBasisMethod');
+        queryClient.invalidateQueries('openLots');
+        queryClient.invalidateQueries('trades');
+        queryClient.invalidateQueries('portfolio');
+        queryClient.invalidateQueries('portfolios');
+        toast.success('Cost basis method changed successfully!');
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to change cost basis method');
+      },
+    }
+  );
+};
+
+export const useOpenLots = (portfolioId: string, assetId: string, enabled = true) => {
+  const { accountId } = useAccount();
+
+  return useQuery<OpenLot[]>(
+    ['openLots', portfolioId, assetId, accountId],
+    () => apiService.getOpenLots(portfolioId, assetId, accountId),
+    {
+      enabled: enabled && !!portfolioId && !!assetId && !!accountId,
+      staleTime: 30 * 1000, // 30 seconds
+    }
+  );
+};
+
+export const useTradeChargesEstimate = (params: {
+  portfolioId: string;
+  assetId: string;
+  side: string;
+  quantity: number;
+  price: number;
+}, enabled = true) => {
+  const { accountId } = useAccount();
+
+  return useQuery<TradeChargeEstimate>(
+    ['tradeChargesEstimate', params, accountId],
+    () => apiService.estimateTradeCharges(params, accountId),
+    {
+      enabled: enabled && !!params.portfolioId && !!params.assetId && params.quantity > 0 && params.price > 0 && !!accountId,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    }
+  );
+};
+
+export const useTaxRules = (currency?: string) => {
+  return useQuery<TaxRules>(
+    ['taxRules', currency],
+    () => apiService.getTaxRules(currency),
+    {
+      staleTime: 60 * 60 * 1000, // 1 hour
+    }
+  );
+};
+
+export const useAnnualTaxSummary = (year: number) => {
+  const { accountId } = useAccount();
+
+  return useQuery<AnnualTaxSummary>(
+    ['annualTaxSummary', accountId, year],
+    () => apiService.getAnnualTaxSummary(accountId, year),
+    {
+      enabled: !!accountId,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    }
+  );
+};
+
+export const useRecurringTransactions = (portfolioId: string) => {
+  const { accountId } = useAccount();
+
+  return useQuery<RecurringTransaction[]>(
+    ['recurringTransactions', portfolioId, accountId],
+    () => apiService.getRecurringTransactions(portfolioId, accountId),
+    {
+      enabled: !!portfolioId && !!accountId,
+      staleTime: 60 * 1000, // 1 minute
+    }
+  );
+};
+
+export const useRecurringOccurrences = (portfolioId: string, status?: RecurringOccurrenceStatus) => {
+  const { accountId } = useAccount();
+
+  return useQuery<RecurringOccurrence[]>(
+    ['recurringOccurrences', portfolioId, status, accountId],
+    () => apiService.getRecurringOccurrences(portfolioId, accountId, status),
+    {
+      enabled: !!portfolioId && !!accountId,
+      staleTime: 60 * 1000, // 1 minute
+    }
+  );
+};
+
+export const useSaveRecurringTransaction = () => {
+  const queryClient = useQueryClient();
+  const { accountId } = useAccount();
+
+  return useMutation<
+    RecurringTransaction,
+    any,
+    { portfolioId: string; planId?: string; data: CreateRecurringTransactionDto | UpdateRecurringTransactionDto }
+  >(
+    ({ portfolioId, planId, data }) => planId
+      ? apiService.updateRecurringTransaction(portfolioId, planId, data, accountId)
+      : apiService.createRecurringTransaction(portfolioId, data as CreateRecurringTransactionDto, accountId),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('recurringTransactions');
+        queryClient.invalidateQueries('recurringOccurrences');
+        toast.success('Recurring transaction saved successfully!');
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to save recurring transaction');
+      },
+    }
+  );
+};
+
+export const useDeleteRecurringTransaction = () => {
+  const queryClient = useQueryClient();
+  const { accountId } = useAccount();
+
+  return useMutation<void, any, { portfolioId: string; planId: string }>(
+    ({ portfolioId, planId }) => apiService.deleteRecurringTransaction(portfolioId, planId, accountId),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('recurringTransactions');
+        queryClient.invalidateQueries('recurringOccurrences');
+        queryClient.invalidateQueries('cash-flow');
+        toast.success('Recurring transaction deleted successfully!');
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to delete recurring transaction');
+      },
+    }
+  );
+};
+
+export const useGenerateRecurringOccurrences = () => {
+  const queryClient = useQueryClient();
+  const { accountId } = useAccount();
+
+  return useMutation<{ plansProcessed: number; occurrencesCreated: number }, any, string>(
+    (portfolioId) => apiService.generateRecurringOccurrences(portfolioId, accountId),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('recurringTransactions');
+        queryClient.invalidateQueries('recurringOccurrences');
+        queryClient.invalidateQueries('cash-flow');
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to generate recurring transactions');
+      },
+    }
+  );
+};
+
+export const useUpdateRecurringOccurrence = () => {
+  const queryClient = useQueryClient();
+  const { accountId } = useAccount();
+
+  return useMutation<RecurringOccurrence, any, { portfolioId: string; occurrenceId: string; data: UpdateRecurringOccurrenceDto }>(
+    ({ portfolioId, occurrenceId, data }) => apiService.updateRecurringOccurrence(portfolioId, occurrenceId, data, accountId),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('recurringOccurrences');
+        queryClient.invalidateQueries('cash-flow');
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to update recurring occurrence');
+      },
+    }
+  );
+};
+
+export const useResolveRecurringOccurrence = () => {
+  const queryClient = useQueryClient();
+  const { accountId } = useAccount();
+
+  return useMutation<RecurringOccurrence, any, { portfolioId: string; occurrenceId: string; action: 'confirm' | 'skip' }>(
+    ({ portfolioId, occurrenceId, action }) => action === 'confirm'
+      ? apiService.confirmRecurringOccurrence(portfolioId, occurrenceId, accountId)
+      : apiService.skipRecurringOccurrence(portfolioId, occurrenceId, accountId),
+    {
+      onSuccess: (_, { action }) => {
+        queryClient.invalidateQueries('recurringOccurrences');
+        queryClient.invalidateQueries('cash-flow');
+        if (action === 'confirm') {
+          queryClient.invalidateQueries('trades');
+          queryClient.invalidateQueries('portfolio');
+          queryClient.invalidateQueries('portfolios');
+          toast.success('Recurring transaction confirmed!');
+        }
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to update recurring occurrence');
+      },
+    }
+  );
+};
+
 export const useTradeDetails = (tradeId: string) => {
   const { accountId } = useAccount();
   
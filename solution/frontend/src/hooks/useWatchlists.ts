@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { watchlistApi } from '../services/api.watchlist';
+import {
+  CreateWatchlistRequest,
+  UpdateWatchlistRequest,
+  AddWatchlistItemRequest,
+  UpdateWatchlistItemRequest,
+  WatchlistSort,
+} from '../types/watchlist.types';
+
+export const useWatchlists = (accountId: string) => {
+  return useQuery({
+    queryKey: ['watchlists', accountId],
+    queryFn: () => watchlistApi.getWatchlists(accountId),
+    enabled: !!accountId,
+  });
+};
+
+export const useWatchlist = (accountId: string, watchlistId?: string | null, sort?: WatchlistSort) => {
+  return useQuery({
+    queryKey: ['watchlist', accountId, watchlistId, sort],
+    queryFn: () => watchlistApi.getWatchlist(watchlistId as string, accountId, sort),
+    enabled: !!accountId && !!watchlistId,
+    refetchInterval: 60000,
+  });
+};
+
+/**
+ * Mutations on the watchlists of an account; item and share mutations act on the given watchlist
+ */
+export const useWatchlistMutations = (accountId: string, watchlistId?: string | null) => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['watchlists', accountId] });
+    queryClient.invalidateQueries({ queryKey: ['watchlist', accountId, watchlistId] });
+  };
+
+  return {
+    saveWatchlist: useMutation({
+      mutationFn: ({ id, data }: { id?: string; data: CreateWatchlistRequest | UpdateWatchlistRequest }) =>
+        id
+          ? watchlistApi.updateWatchlist(id, data, accountId)
+          : watchlistApi.createWatchlist(data as CreateWatchlistRequest, accountId),
+      onSuccess: invalidate,
+    }),
+    deleteWatchlist: useMutation({
+      mutationFn: (id: string) => watchlistApi.deleteWatchlist(id, accountId),
+      onSuccess: () => queryClient.invalidateQueries({ queryKey: ['watchlists', accountId] }),
+    }),
+    addItem: useMutation({
+      mutationFn: (data: AddWatchlistItemRequest) => watchlistApi.addItem(watchlistId as string, data, accountId),
+      onSuccess: invalidate,
+    }),
+    updateItem: useMutation({
+      mutationFn: ({ itemId, data }: { itemId: string; data: UpdateWatchlistItemRequest }) =>
+        watchlistApi.updateItem(watchlistId as string, itemId, data, accountId),
+      onSuccess: invalidate,
+    }),
+    removeItem: useMutation({
+      mutationFn: (itemId: string) => watchlistApi.removeItem(watchlistId as string, itemId, accountId),
+      onSuccess: invalidate,
+    }),
+    reorderItems: useMutation({
+      mutationFn: (itemIds: string[]) => watchlistApi.reorderItems(watchlistId as string, itemIds, accountId),
+      onSuccess: invalidate,
+    }),
+    share: useMutation({
+      mutationFn: (sharedAccountId: string) => watchlistApi.shareWatchlist(watchlistId as string, sharedAccountId, accountId),
+      onSuccess: invalidate,
+    }),
+    unshare: useMutation({
+      mutationFn: (sharedAccountId: string) => watchlistApi.unshareWatchlist(watchlistId as string, sharedAccountId, accountId),
+      onSuccess: invalidate,
+    }),
+    leave: useMutation({
+      mutationFn: () => watchlistApi.leaveWatchlist(watchlistId as string, accountId),
+      onSuccess: invalidate,
+    }),
+  };
+};
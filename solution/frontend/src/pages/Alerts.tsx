@@ -0,0 +1,26 @@
+import React from 'react';
+import { Box, Container } from '@mui/material';
+import { useAccount } from '../contexts/AccountContext';
+import { AlertRules } from '../components/Alerts';
+
+const Alerts: React.FC = () => {
+  const { accountId } = useAccount();
+
+  if (!accountId) {
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ p: 3, textAlign: 'center' }}>
+          <div>Please login to access alerts</div>
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Box>
+      <AlertRules accountId={accountId} />
+    </Box>
+  );
+};
+
+export default Alerts;
@@ -20,6 +20,7 @@ import {
 import { ResponsiveTypography } from '../components/Common/ResponsiveTypography';
 import { ResponsiveButton } from '../components/Common/ResponsiveButton';
 import { ContactAdminModal } from '../components/Auth/ContactAdminModal';
+import { authService } from '../services/authService';
 
 export const ForgetPassword: React.FC = () => {
   const { t } = useTranslation();
@@ -27,6 +28,7 @@ export const ForgetPassword: React.FC = () => {
   const [email, setEmail] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
   const [contactModalOpen, setContactModalOpen] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -48,13 +50,10 @@ export const ForgetPassword: React.FC = () => {
     setError(null);
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Show contact admin modal
-      setContactModalOpen(true);
+      await authService.requestPasswordReset(email.trim());
+      setSent(true);
     } catch (err: any) {
-      setError(err.message || t('forgetPassword.errors.submitFailed'));
+      setError(err.response?.data?.message || err.message || t('forgetPassword.errors.submitFailed'));
     } finally {
       setLoading(false);
     }
@@ -119,6 +118,12 @@ export const ForgetPassword: React.FC = () => {
               </Alert>
             )}
 
+            {sent && (
+              <Alert severity="success" sx={{ mb: 3 }}>
+                {t('forgetPassword.sent')}
+              </Alert>
+            )}
+
             {/* Form */}
             <Box component="form" onSubmit={handleSubmit}>
               <TextField
@@ -126,7 +131,10 @@ export const ForgetPassword: React.FC = () => {
                 label={t('forgetPassword.emailLabel')}
                 type="email"
                 value={email}
-                onChange={(e) => setEmail(e.target.value)}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setSent(false);
+                }}
                 disabled={loading}
                 sx={{ mb: 3 }}
                 InputProps={{
@@ -53,6 +53,7 @@ import {
 import EditHoldingTransactionModal from '../components/NAVUnit/EditHoldingTransactionModal';
 import SubscriptionModal from '../components/NAVUnit/SubscriptionModal';
 import RedemptionModal from '../components/NAVUnit/RedemptionModal';
+import CapitalAccountLedger from '../components/Holdings/CapitalAccountLedger';
 
 const HoldingDetail: React.FC = () => {
   const { t } = useTranslation();
@@ -712,6 +713,8 @@ const HoldingDetail: React.FC = () => {
         </CardContent>
       </Card>
 
+      <CapitalAccountLedger holdingId={holdingId!} />
+
       {/* Edit Transaction Modal */}
       <EditHoldingTransactionModal
         open={editModalOpen}
@@ -19,6 +19,7 @@ import { useNavigate } from 'react-router-dom';
 import { formatCurrency, formatPercentageValue, formatDate } from '../utils/format';
 import { apiService } from '../services/api';
 import InvestorReportWrapper from '../components/Reports/InvestorReportWrapper';
+import FundOrders from '../components/Reports/FundOrders';
 import { useAccount } from '../contexts/AccountContext';
 import ResponsiveTypography from '../components/Common/ResponsiveTypography';
 import PermissionBadge from '../components/Common/PermissionBadge';
@@ -43,6 +44,7 @@ interface PortfolioSummary {
     name: string;
     email: string;
   };
+  isFund?: boolean;
   userPermission?: {
     permissionType: PortfolioPermissionType;
     isOwner: boolean;
@@ -118,6 +120,7 @@ const InvestorView: React.FC = () => {
         performance: item.performance,
         lastUpdated: item.portfolio.lastUpdated,
         owner: item.portfolio.owner,
+        isFund: item.portfolio.isFund,
         userPermission: item.userPermission,
       }));
       
@@ -769,6 +772,16 @@ const InvestorView: React.FC = () => {
                 portfolioId={selectedPortfolio}
                 accountId={currentAccount?.accountId || ''}
               />
+
+              {(() => {
+                const portfolio = portfolios.find(p => p.id === selectedPortfolio);
+                return portfolio?.isFund ? (
+                  <FundOrders
+                    portfolioId={portfolio.id}
+                    canManage={!!(portfolio.userPermission?.isOwner || portfolio.userPermission?.canUpdate)}
+                  />
+                ) : null;
+              })()}
             </Box>
           )}
         </>
@@ -28,6 +28,7 @@ import {
   History as HistoryIcon,
   Delete as DeleteIcon,
   ArrowBack,
+  PhonelinkLock as TwoFactorIcon,
 } from '@mui/icons-material';
 import { ResponsiveButton } from '../components/Common';
 import ResponsiveTypography from '../components/Common/ResponsiveTypography';
@@ -50,7 +51,8 @@ export const Login: React.FC = () => {
   const [userState, setUserState] = useState<'UNKNOWN' | 'DEMO' | 'PARTIAL' | 'COMPLETE'>('UNKNOWN');
   const [userHistory, setUserHistory] = useState<UserHistory[]>([]);
   const [showHistory, setShowHistory] = useState(true);
-  const [currentStep, setCurrentStep] = useState<'username' | 'password'>('username');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [currentStep, setCurrentStep] = useState<'username' | 'password' | 'twoFactor'>('username');
 
   // Get redirect URL from query parameters
   const getRedirectUrl = () => {
@@ -99,8 +101,9 @@ export const Login: React.FC = () => {
       // Backend sẽ tự động kiểm tra device trust và xử lý logic
       const authResponse = await authService.loginOrRegister(
         normalizedUsername, 
-        currentStep === 'password' ? password : undefined, 
-        deviceInfo
+        currentStep !== 'username' ? password : undefined, 
+        deviceInfo,
+        currentStep === 'twoFactor' ? twoFactorCode.trim() : undefined
       );
       
       // Step 2: Nếu API trả về thành công, login thành công
@@ -123,6 +126,11 @@ export const Login: React.FC = () => {
           errorMessage.toLowerCase().includes('required'))) {
         setCurrentStep('password');
         setError(null); // Không hiển thị lỗi cho 400, tạo cảm giác mượt mà
+      } else if (authService.isTwoFactorRequired(err)) {
+        // Step 4: Thiết bị chưa tin cậy và user bật 2FA - yêu cầu mã xác thực
+        setCurrentStep('twoFactor');
+        setTwoFactorCode('');
+        setError(null);
       } else {
         setError(errorMessage); // Hiển thị lỗi cho 401 và các lỗi khác
       }
@@ -141,6 +149,13 @@ export const Login: React.FC = () => {
   const handleBackToUsername = () => {
     setCurrentStep('username');
     setPassword('');
+    setTwoFactorCode('');
+    setError(null);
+  };
+
+  const handleBackToPassword = () => {
+    setCurrentStep('password');
+    setTwoFactorCode('');
     setError(null);
   };
 
@@ -356,6 +371,40 @@ export const Login: React.FC = () => {
               </Box>
             )}
 
+            {/* Step 3: Two-factor code */}
+            {currentStep === 'twoFactor' && (
+              <Box sx={{ mb: 3 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                  <IconButton onClick={handleBackToPassword} sx={{ mr: 1 }}>
+                    <ArrowBack />
+                  </IconButton>
+                  <ResponsiveTypography variant="tableCell" color="text.secondary" component="div">
+                    {t('login.messages.twoFactorRequired')}
+                  </ResponsiveTypography>
+                </Box>
+
+                <TextField
+                  fullWidth
+                  autoFocus
+                  label={t('twoFactor.codeLabel')}
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  onKeyPress={handleKeyPress}
+                  margin="normal"
+                  error={!!error}
+                  inputProps={{ autoComplete: 'one-time-code' }}
+                  InputProps={{
+                    startAdornment: (
+                      <InputAdornment position="start">
+                        <TwoFactorIcon />
+                      </InputAdornment>
+                    ),
+                  }}
+                  helperText={error || t('twoFactor.codeHelper')}
+                />
+              </Box>
+            )}
+
             {/* Back to Welcome Button */}
             {/* <ResponsiveButton
               type="button"
@@ -384,10 +433,10 @@ export const Login: React.FC = () => {
               variant="contained"
               size="large"
               onClick={handleLogin}
-              disabled={(!username.trim() || loading) || (currentStep === 'password' && !password.trim())}
+              disabled={(!username.trim() || loading) || (currentStep === 'password' && !password.trim()) || (currentStep === 'twoFactor' && !twoFactorCode.trim())}
               icon={loading ? <CircularProgress size={20} /> : <LoginIcon />}
-              mobileText={loading ? t('login.buttons.signingIn') : (currentStep === 'password' ? t('login.buttons.signIn') : getFormTitle())}
-              desktopText={loading ? t('login.buttons.signingIn') : (currentStep === 'password' ? t('login.buttons.signIn') : getFormTitle())}
+              mobileText={loading ? t('login.buttons.signingIn') : (currentStep !== 'username' ? t('login.buttons.signIn') : getFormTitle())}
+              desktopText={loading ? t('login.buttons.signingIn') : (currentStep !== 'username' ? t('login.buttons.signIn') : getFormTitle())}
               forceTextOnly={true}
               sx={{
                 py: 1.5,
@@ -408,12 +457,14 @@ export const Login: React.FC = () => {
                 },
               }}
             >
-              {loading ? t('login.buttons.signingIn') : (currentStep === 'password' ? t('login.buttons.signIn') : getFormTitle())}
+              {loading ? t('login.buttons.signingIn') : (currentStep !== 'username' ? t('login.buttons.signIn') : getFormTitle())}
             </ResponsiveButton>
 
             <Box sx={{ mt: 3, textAlign: 'center' }}>
               <ResponsiveTypography variant="formHelper" color="text.secondary" ellipsis={false}>
-                {currentStep === 'password' 
+                {currentStep === 'twoFactor'
+                  ? t('login.messages.enterTwoFactorCode')
+                  : currentStep === 'password' 
                   ? t('login.messages.enterPassword')
                   : userState === 'COMPLETE' 
                   ? t('login.messages.userHasPassword')
@@ -42,6 +42,7 @@ import {
   Business as FundManagerIcon,
   Security as SecurityIcon,
   MoreVert as MoreVertIcon,
+  History as AuditTrailIcon,
 } from '@mui/icons-material';
 import { usePortfolio, usePortfolioAnalytics } from '../hooks/usePortfolios';
 import { useCreateTrade, useTrades } from '../hooks/useTrading';
@@ -56,7 +57,8 @@ import {
   TradingManagementTab,
   DepositManagementTab,
   CashFlowTab,
-  NAVHoldingsTab
+  NAVHoldingsTab,
+  AuditTrailTab
 } from '../components/PortfolioTabs';
 import InvestorReportWrapper from '../components/Reports/InvestorReportWrapper';
 import { 
@@ -159,7 +161,8 @@ const PortfolioDetail: React.FC = () => {
             'trading': 2,
             'deposit': 3,
             'cash-flow': 4,
-            'holdings': 5
+            'holdings': 5,
+            'audit-trail': 6
           };
           tabIndex = tabNameMap[tabParam] ?? 0;
         } else {
@@ -167,8 +170,8 @@ const PortfolioDetail: React.FC = () => {
           tabIndex = parseInt(tabParam, 10);
         }
         
-          // Validate tab index (0-5 for fund-manager)
-          if (tabIndex >= 0 && tabIndex <= 5) {
+          // Validate tab index (0-6 for fund-manager)
+          if (tabIndex >= 0 && tabIndex <= 6) {
             setTabValue(tabIndex);
             // Scroll to top when tab is set from URL
             scrollToTop();
@@ -1366,6 +1369,8 @@ const PortfolioDetail: React.FC = () => {
               label={t('portfolio.cashFlow')} />
               <Tab icon={isMobile ? undefined : <HoldingsIcon />} iconPosition={isMobile ? undefined : "start"} 
               label={t('navigation.holdings')} />
+              <Tab icon={isMobile ? undefined : <AuditTrailIcon />} iconPosition={isMobile ? undefined : "start"} 
+              label={t('auditTrail.tab')} />
             </Tabs>
             
             {/* Compact Mode Toggle - pinned to right */}
@@ -1481,6 +1486,14 @@ const PortfolioDetail: React.FC = () => {
               onPortfolioUpdate={refetchPortfolio}
             />
           </TabPanel>
+
+          <TabPanel value={tabValue} index={6}>
+            <AuditTrailTab
+              portfolioId={portfolioId!}
+              canManage={isOwner}
+              getUltraSpacing={getUltraSpacing}
+            />
+          </TabPanel>
         </Box>
       )}
       {/* More Actions Menu */}
@@ -24,6 +24,7 @@ import PortfolioList from '../components/Portfolio/PortfolioList';
 import PortfolioForm from '../components/Portfolio/PortfolioForm';
 import { PublicPortfolioSelector } from '../components/Portfolio/PublicPortfolioSelector';
 import PortfolioPermissionModal from '../components/Portfolio/PortfolioPermissionModal';
+import { ImportPortfolioModal } from '../components/Portfolio/ImportPortfolioModal';
 import Assets from './Assets';
 import DepositManagement from './DepositManagement';
 import { CreatePortfolioDto, UpdatePortfolioDto, Portfolio } from '../types';
@@ -32,6 +33,7 @@ import { useAccount } from '../contexts/AccountContext';
 import { scrollToTop } from '../components/Common/ScrollToTop';
 import ResponsiveTypography from '../components/Common/ResponsiveTypography';
 import { apiService } from '../services/api';
+import { toast } from 'react-hot-toast';
 import { usePermissions } from '@/hooks/usePermissions';
 import { UserRole } from '@/services/api.userRoles';
 
@@ -48,6 +50,7 @@ const Portfolios: React.FC = () => {
   const [permissionModalOpen, setPermissionModalOpen] = useState(false);
   const [selectedPortfolioForPermission, setSelectedPortfolioForPermission] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState(0);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
 
   const { accountId, isReadOnly } = useAccount();
   const { userRoles } = usePermissions();
@@ -256,6 +259,7 @@ const Portfolios: React.FC = () => {
       name: portfolio.name,
       baseCurrency: portfolio.baseCurrency,
       fundingSource: portfolio.fundingSource || '',
+      broker: portfolio.broker || '',
       accountId: portfolio.accountId,
       visibility: portfolio.visibility,
       templateName: portfolio.templateName,
@@ -319,6 +323,7 @@ const Portfolios: React.FC = () => {
             onEditPortfolio={handleEditPortfolio}
             onDeletePortfolio={handleDeletePortfolio}
             onCreatePortfolio={handleCreatePortfolio}
+            onImportPortfolio={accountReadOnly ? undefined : () => setIsImportModalOpen(true)}
             onManagePermissions={handleManagePermissions}
             onRefresh={handleRefreshData}
             isReadOnly={accountReadOnly}
@@ -351,6 +356,16 @@ const Portfolios: React.FC = () => {
         onSelect={handleSelectPublicTemplate}
       />
 
+      <ImportPortfolioModal
+        open={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        onPortfolioImported={(result) => {
+          toast.success(t('portfolio.archive.imported', { name: result.name }));
+          refetch();
+          navigate(`/portfolios/${result.portfolioId}`);
+        }}
+      />
+
       <PortfolioPermissionModal
         open={permissionModalOpen}
         onClose={handlePermissionModalClose}
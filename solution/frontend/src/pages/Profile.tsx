@@ -55,6 +55,7 @@ export const Profile: React.FC<ProfileProps> = ({ embedded = false, maxWidth = '
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showChangeNewPassword, setShowChangeNewPassword] = useState(false);
+  const [changePasswordNeedsTwoFactor, setChangePasswordNeedsTwoFactor] = useState(false);
 
   // Form states
   const [formData, setFormData] = useState<UpdateProfileRequest>({});
@@ -232,9 +233,11 @@ export const Profile: React.FC<ProfileProps> = ({ embedded = false, maxWidth = '
       
       await authService.changePassword(
         changePasswordData.currentPassword,
-        changePasswordData.newPassword
+        changePasswordData.newPassword,
+        changePasswordNeedsTwoFactor ? changePasswordData.twoFactorCode?.trim() : undefined
       );
       setShowChangePassword(false);
+      setChangePasswordNeedsTwoFactor(false);
       setChangePasswordData({ currentPassword: '', newPassword: '' });
       setSuccess(t('profile.passwordChangedSuccessfully'));
       
@@ -264,12 +267,21 @@ export const Profile: React.FC<ProfileProps> = ({ embedded = false, maxWidth = '
       // console.error('Error response data:', err.response?.data);
       // console.error('Error response message:', err.response?.data?.message);
       
+      // Two-factor users confirm the change with a code
+      if (authService.isTwoFactorRequired(err)) {
+        setChangePasswordNeedsTwoFactor(true);
+        setError(null);
+        return;
+      }
+
       // Handle different types of errors with clear messages
       let errorMessage = t('profile.errors.cannotChangePassword');
       
       if (err.response?.status === 401) {
         if (err.response?.data?.message?.includes('Current password is incorrect')) {
           errorMessage = t('profile.errors.currentPasswordIncorrect');
+        } else if (err.response?.data?.message?.includes('Invalid two-factor code')) {
+          errorMessage = t('twoFactor.invalidCode');
         } else if (err.response?.data?.message?.includes('User has no password set')) {
           errorMessage = t('profile.errors.userHasNoPassword');
         } else {
@@ -672,11 +684,24 @@ export const Profile: React.FC<ProfileProps> = ({ embedded = false, maxWidth = '
                       }}
                       sx={{ mb: 2 }}
                     />
+                    {changePasswordNeedsTwoFactor && (
+                      <TextField
+                        fullWidth
+                        autoFocus
+                        label={t('twoFactor.codeLabel')}
+                        value={changePasswordData.twoFactorCode || ''}
+                        onChange={(e) => setChangePasswordData({ ...changePasswordData, twoFactorCode: e.target.value })}
+                        helperText={t('twoFactor.codeHelper')}
+                        inputProps={{ autoComplete: 'one-time-code' }}
+                        sx={{ mb: 2 }}
+                      />
+                    )}
                     <Box sx={{ display: 'flex', gap: 1 }}>
                       <ActionButton
                         variant="contained"
                         type="submit"
-                        disabled={saving || !changePasswordData.currentPassword || !changePasswordData.newPassword}
+                        disabled={saving || !changePasswordData.currentPassword || !changePasswordData.newPassword
+                          || (changePasswordNeedsTwoFactor && !changePasswordData.twoFactorCode?.trim())}
                         icon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
                         mobileText={saving ? t('profile.changing') : t('profile.changePassword')}
                         desktopText={saving ? t('profile.changing') : t('profile.changePassword')}
@@ -689,6 +714,7 @@ export const Profile: React.FC<ProfileProps> = ({ embedded = false, maxWidth = '
                         type="button"
                         onClick={() => {
                           setShowChangePassword(false);
+                          setChangePasswordNeedsTwoFactor(false);
                           setChangePasswordData({ currentPassword: '', newPassword: '' });
                         }}
                         mobileText={t('profile.cancel')}
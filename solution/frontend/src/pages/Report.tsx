@@ -28,6 +28,8 @@ import { apiService } from '../services/api';
 import { formatCurrency, formatNumber, formatPercentageValue } from '../utils/format';
 import ResponsiveTypography from '../components/Common/ResponsiveTypography';
 import ResponsiveTable from '../components/Common/ResponsiveTable';
+import AnnualTaxSummary from '../components/Reports/AnnualTaxSummary';
+import PeriodicStatements from '../components/Reports/PeriodicStatements';
 
 interface ReportData {
   cashBalance: {
@@ -60,7 +62,7 @@ const Report: React.FC = () => {
   const [reportData, setReportData] = useState<ReportData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [portfolios, setPortfolios] = useState<Array<{ portfolioId: string; name: string }>>([]);
+  const [portfolios, setPortfolios] = useState<Array<{ portfolioId: string; name: string; baseCurrency?: string }>>([]);
   const [selectedPortfolioIds, setSelectedPortfolioIds] = useState<string[]>(['all']);
   // Fetch portfolios
   useEffect(() => {
@@ -750,6 +752,10 @@ const Report: React.FC = () => {
           </Box>
         </Grid>
       </Grid>
+
+      <PeriodicStatements portfolios={portfolios} />
+
+      <AnnualTaxSummary />
     </Box>
   );
 };
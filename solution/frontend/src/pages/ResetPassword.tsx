@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Card,
+  CardContent,
+  TextField,
+  Alert,
+  CircularProgress,
+  Container,
+  Link,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  LockReset as LockResetIcon,
+} from '@mui/icons-material';
+import { ResponsiveTypography } from '../components/Common/ResponsiveTypography';
+import { ResponsiveButton } from '../components/Common/ResponsiveButton';
+import { authService } from '../services/authService';
+
+export const ResetPassword: React.FC = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword.length < 6) {
+      setError(t('resetPassword.errors.passwordTooShort'));
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError(t('resetPassword.errors.passwordMismatch'));
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      await authService.resetPassword(token, newPassword, needsTwoFactor ? twoFactorCode.trim() : undefined);
+      setDone(true);
+    } catch (err: any) {
+      if (authService.isTwoFactorRequired(err)) {
+        setNeedsTwoFactor(true);
+      } else {
+        setError(err.response?.data?.message || err.message || t('resetPassword.errors.submitFailed'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Container maxWidth="sm" sx={{ py: 4 }}>
+      <Box>
+        <Box mb={3}>
+          <Link
+            component="button"
+            variant="body2"
+            onClick={() => navigate('/login')}
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              textDecoration: 'none',
+              color: 'primary.main',
+              '&:hover': {
+                textDecoration: 'underline'
+              }
+            }}
+          >
+            <ArrowBackIcon sx={{ mr: 1, fontSize: 20 }} />
+            {t('forgetPassword.backToLogin')}
+          </Link>
+        </Box>
+
+        <Card>
+          <CardContent sx={{ p: 4 }}>
+            <Box textAlign="center" mb={4}>
+              <LockResetIcon sx={{ fontSize: 64, color: 'primary.main', mb: 2 }} />
+              <ResponsiveTypography variant="pageHeader" gutterBottom>
+                {t('resetPassword.title')}
+              </ResponsiveTypography>
+              <ResponsiveTypography variant="pageSubtitle" color="text.secondary">
+                {t('resetPassword.subtitle')}
+              </ResponsiveTypography>
+            </Box>
+
+            {!token && (
+              <Alert severity="error" sx={{ mb: 3 }}>
+                {t('resetPassword.errors.missingToken')}
+              </Alert>
+            )}
+
+            {error && (
+              <Alert severity="error" sx={{ mb: 3 }}>
+                {error}
+              </Alert>
+            )}
+
+            {done ? (
+              <>
+                <Alert severity="success" sx={{ mb: 3 }}>
+                  {t('resetPassword.success')}
+                </Alert>
+                <ResponsiveButton fullWidth variant="contained" onClick={() => navigate('/login')}>
+                  {t('forgetPassword.backToLogin')}
+                </ResponsiveButton>
+              </>
+            ) : (
+              <Box component="form" onSubmit={handleSubmit}>
+                <TextField
+                  fullWidth
+                  label={t('resetPassword.newPassword')}
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  disabled={loading || !token}
+                  sx={{ mb: 2 }}
+                />
+                <TextField
+                  fullWidth
+                  label={t('resetPassword.confirmPassword')}
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  disabled={loading || !token}
+                  sx={{ mb: 2 }}
+                />
+                {needsTwoFactor && (
+                  <TextField
+                    fullWidth
+                    autoFocus
+                    label={t('twoFactor.codeLabel')}
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    disabled={loading}
+                    helperText={t('twoFactor.codeHelper')}
+                    inputProps={{ autoComplete: 'one-time-code' }}
+                    sx={{ mb: 2 }}
+                  />
+                )}
+
+                <ResponsiveButton
+                  type="submit"
+                  fullWidth
+                  variant="contained"
+                  disabled={loading || !token || (needsTwoFactor && !twoFactorCode.trim())}
+                  sx={{ mt: 1 }}
+                >
+                  {loading ? (
+                    <CircularProgress size={24} color="inherit" />
+                  ) : (
+                    t('resetPassword.submitButton')
+                  )}
+                </ResponsiveButton>
+              </Box>
+            )}
+          </CardContent>
+        </Card>
+      </Box>
+    </Container>
+  );
+};
+
+export default ResetPassword;
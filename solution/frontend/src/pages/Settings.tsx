@@ -21,6 +21,9 @@ import {
 import { AccountManagement } from '../components/Account';
 import { AdminMessageSender } from '../components/Admin/AdminMessageSender';
 import { DeviceManagement } from '../components/Settings/DeviceManagement';
+import { TwoFactorSettings } from '../components/Settings/TwoFactorSettings';
+import { SessionManagement } from '../components/Settings/SessionManagement';
+import { PersonalAccessTokens } from '../components/Settings/PersonalAccessTokens';
 import { usePermissions } from '../hooks/usePermissions';
 import { Profile } from './Profile';
 
@@ -154,7 +157,10 @@ const Settings: React.FC = () => {
               {t('settings.security.subtitle')}
             </ResponsiveTypography>
           </Box>
+          <TwoFactorSettings />
+          <SessionManagement />
           <DeviceManagement />
+          <PersonalAccessTokens />
         </TabPanel>
 
         <TabPanel value={value} index={3}>
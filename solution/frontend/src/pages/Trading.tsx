@@ -22,11 +22,17 @@ import {
   Sell as SellIcon,
   MonetizationOn as MonetizationOnIcon,
   ShowChart as ShowChartIcon,
+  UploadFile as UploadFileIcon,
+  Tune as TuneIcon,
+  EventRepeat as EventRepeatIcon,
 } from '@mui/icons-material';
 import { useParams, useNavigate } from 'react-router-dom';
 import { TradeForm } from '../components/Trading/TradeForm';
 import { TradeListContainer } from '../components/Trading/TradeList';
 import { TradeAnalysisContainer } from '../components/Trading/TradeAnalysis';
+import { TradeImportWizard } from '../components/Trading/TradeImportWizard';
+import { CostBasisSettings } from '../components/Trading/CostBasisSettings';
+import { RecurringTransactions } from '../components/Trading/RecurringTransactions';
 import { useCreateTrade, useTrades } from '../hooks/useTrading';
 import { CreateTradeDto, TradeFormData } from '../types';
 import { formatCurrency } from '../utils/format';
@@ -315,6 +321,21 @@ const Trading: React.FC = () => {
               icon={<AddIcon />}
               iconPosition="start"
             />
+            <Tab 
+              label="Import Trades" 
+              icon={<UploadFileIcon />}
+              iconPosition="start"
+            />
+            <Tab 
+              label="Cost Basis" 
+              icon={<TuneIcon />}
+              iconPosition="start"
+            />
+            <Tab 
+              label="Recurring" 
+              icon={<EventRepeatIcon />}
+              iconPosition="start"
+            />
           </Tabs>
         </Box>
 
@@ -338,6 +359,24 @@ const Trading: React.FC = () => {
             />
           </Box>
         </TabPanel>
+
+        <TabPanel value={tabValue} index={3}>
+          <Box sx={{ p: 2 }}>
+            <TradeImportWizard portfolioId={portfolioId} onImported={() => tradesQuery.refetch()} />
+          </Box>
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={4}>
+          <Box sx={{ p: 2 }}>
+            <CostBasisSettings portfolioId={portfolioId} />
+          </Box>
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={5}>
+          <Box sx={{ p: 2 }}>
+            <RecurringTransactions portfolioId={portfolioId} />
+          </Box>
+        </TabPanel>
       </Paper>
 
       {/* Create Trade Modal */}
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Box, Container } from '@mui/material';
+import { useAccount } from '../contexts/AccountContext';
+import { Watchlists as WatchlistsView } from '../components/Watchlists';
+
+const Watchlists: React.FC = () => {
+  const { accountId } = useAccount();
+
+  if (!accountId) {
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ p: 3, textAlign: 'center' }}>
+          <div>Please login to access watchlists</div>
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Box>
+      <WatchlistsView accountId={accountId} />
+    </Box>
+  );
+};
+
+export default Watchlists;
@@ -0,0 +1,35 @@
+import apiService from './api';
+import {
+  AlertRule,
+  AlertEvent,
+  CreateAlertRuleRequest,
+  UpdateAlertRuleRequest,
+  SnoozeAlertRuleRequest,
+  AlertEvaluationSummary,
+} from '../types/alert.types';
+
+export const alertApi = {
+  getRules: (accountId: string): Promise<AlertRule[]> =>
+    apiService.get('/api/v1/alerts', { params: { accountId } }),
+
+  createRule: (data: CreateAlertRuleRequest, accountId: string): Promise<AlertRule> =>
+    apiService.post('/api/v1/alerts', data, { params: { accountId } }),
+
+  updateRule: (ruleId: string, data: UpdateAlertRuleRequest, accountId: string): Promise<AlertRule> =>
+    apiService.put(`/api/v1/alerts/${ruleId}`, data, { params: { accountId } }),
+
+  deleteRule: (ruleId: string, accountId: string): Promise<void> =>
+    apiService.delete(`/api/v1/alerts/${ruleId}`, { params: { accountId } }),
+
+  snoozeRule: (ruleId: string, data: SnoozeAlertRuleRequest, accountId: string): Promise<AlertRule> =>
+    apiService.post(`/api/v1/alerts/${ruleId}/snooze`, data, { params: { accountId } }),
+
+  unsnoozeRule: (ruleId: string, accountId: string): Promise<AlertRule> =>
+    apiService.delete(`/api/v1/alerts/${ruleId}/snooze`, { params: { accountId } }),
+
+  getEvents: (accountId: string, ruleId?: string, limit?: number): Promise<AlertEvent[]> =>
+    apiService.get('/api/v1/alerts/events', { params: { accountId, ruleId, limit } }),
+
+  evaluate: (accountId: string): Promise<AlertEvaluationSummary> =>
+    apiService.post('/api/v1/alerts/evaluate', {}, { params: { accountId } }),
+};
@@ -0,0 +1,14 @@
+import apiService from './api';
+import {
+  AuditTrailFilters,
+  AuditTrailPage,
+  PeriodLock,
+} from '../types/audit-trail.types';
+
+export const auditTrailApi = {
+  getTimeline: (portfolioId: string, accountId: string, filters: AuditTrailFilters = {}): Promise<AuditTrailPage> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/audit-trail`, { params: { accountId, ...filters } }),
+
+  getPeriodLock: (portfolioId: string, accountId: string): Promise<PeriodLock> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/audit-trail/lock`, { params: { accountId } }),
+};
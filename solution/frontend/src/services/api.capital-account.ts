@@ -0,0 +1,19 @@
+import apiService from './api';
+import { CapitalAccountLedger, CapitalAccountFormat } from '../types/capital-account.types';
+
+export const capitalAccountApi = {
+  getLedger: (holdingId: string, accountId: string, from?: string, to?: string): Promise<CapitalAccountLedger> =>
+    apiService.get(`/api/v1/investor-holdings/${holdingId}/capital-account`, { params: { accountId, from, to } }),
+
+  downloadLedger: (
+    holdingId: string,
+    format: CapitalAccountFormat,
+    accountId: string,
+    from?: string,
+    to?: string,
+  ): Promise<Blob> =>
+    apiService.get(`/api/v1/investor-holdings/${holdingId}/capital-account/${format}`, {
+      params: { accountId, from, to },
+      responseType: 'blob',
+    }),
+};
@@ -12,6 +12,9 @@ import {
   PaymentType,
   RiskTolerance,
   AssetTypeMetadata,
+  MonteCarloOptions,
+  MonteCarloRequest,
+  MonteCarloResult,
 } from '../types/financialFreedom.types';
 import { FINANCIAL_FREEDOM_TEMPLATES } from '../config/planningTemplates';
 
@@ -357,5 +360,14 @@ export const financialFreedomApi = {
   getAllocationComparison: (id: string, accountId: string): Promise<AllocationComparison> => {
     return apiService.get(`/api/v1/financial-freedom/plans/${id}/allocation-comparison?accountId=${accountId}`);
   },
+
+  // Monte Carlo simulation
+  simulatePlan: (id: string, accountId: string, options: MonteCarloOptions = {}): Promise<MonteCarloResult> => {
+    return apiService.post(`/api/v1/financial-freedom/plans/${id}/monte-carlo?accountId=${accountId}`, options);
+  },
+
+  simulate: (request: MonteCarloRequest, accountId: string): Promise<MonteCarloResult> => {
+    return apiService.post(`/api/v1/financial-freedom/monte-carlo?accountId=${accountId}`, request);
+  },
 };
 
@@ -0,0 +1,24 @@
+import apiService from './api';
+import {
+  FundFeeSchedule,
+  FundFeeSummary,
+  FundFeeCrystallization,
+  UpsertFundFeeScheduleRequest,
+} from '../types/fund-fee.types';
+
+export const fundFeeApi = {
+  getSchedule: (portfolioId: string, accountId: string): Promise<FundFeeSchedule> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/fund-fees/schedule`, { params: { accountId } }),
+
+  upsertSchedule: (portfolioId: string, data: UpsertFundFeeScheduleRequest, accountId: string): Promise<FundFeeSchedule> =>
+    apiService.put(`/api/v1/portfolios/${portfolioId}/fund-fees/schedule`, data, { params: { accountId } }),
+
+  getSummary: (portfolioId: string, accountId: string): Promise<FundFeeSummary> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/fund-fees/summary`, { params: { accountId } }),
+
+  accrueFees: (portfolioId: string, accountId: string): Promise<FundFeeSummary> =>
+    apiService.post(`/api/v1/portfolios/${portfolioId}/fund-fees/accrue`, {}, { params: { accountId } }),
+
+  crystallizeFees: (portfolioId: string, accountId: string, date?: string): Promise<FundFeeCrystallization[]> =>
+    apiService.post(`/api/v1/portfolios/${portfolioId}/fund-fees/crystallize`, { date }, { params: { accountId } }),
+};
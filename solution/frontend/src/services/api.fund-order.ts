@@ -0,0 +1,33 @@
+import apiService from './api';
+import {
+  FundOrder,
+  CreateFundOrderRequest,
+  DealingCalendar,
+  UpdateDealingCalendarRequest,
+} from '../types/fund-order.types';
+
+export const fundOrderApi = {
+  getOrders: (portfolioId: string, accountId: string): Promise<FundOrder[]> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/fund-orders`, { params: { accountId } }),
+
+  createOrder: (portfolioId: string, data: CreateFundOrderRequest, accountId: string): Promise<FundOrder> =>
+    apiService.post(`/api/v1/portfolios/${portfolioId}/fund-orders`, data, { params: { accountId } }),
+
+  getApprovalQueue: (portfolioId: string, accountId: string): Promise<FundOrder[]> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/fund-orders/queue`, { params: { accountId } }),
+
+  priceOrders: (portfolioId: string, accountId: string): Promise<FundOrder[]> =>
+    apiService.post(`/api/v1/portfolios/${portfolioId}/fund-orders/price`, {}, { params: { accountId } }),
+
+  approveOrder: (portfolioId: string, orderId: string, accountId: string): Promise<FundOrder> =>
+    apiService.post(`/api/v1/portfolios/${portfolioId}/fund-orders/${orderId}/approve`, {}, { params: { accountId } }),
+
+  rejectOrder: (portfolioId: string, orderId: string, reason: string, accountId: string): Promise<FundOrder> =>
+    apiService.post(`/api/v1/portfolios/${portfolioId}/fund-orders/${orderId}/reject`, { reason }, { params: { accountId } }),
+
+  getDealingCalendar: (portfolioId: string, accountId: string): Promise<DealingCalendar> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/fund-orders/dealing-calendar`, { params: { accountId } }),
+
+  updateDealingCalendar: (portfolioId: string, data: UpdateDealingCalendarRequest, accountId: string): Promise<DealingCalendar> =>
+    apiService.put(`/api/v1/portfolios/${portfolioId}/fund-orders/dealing-calendar`, data, { params: { accountId } }),
+};
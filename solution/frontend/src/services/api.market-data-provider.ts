@@ -0,0 +1,24 @@
+import apiService from './api';
+import {
+  MarketDataProviderInfo,
+  MarketDataProviderHealthResponse,
+  ProviderPreference,
+  UpsertProviderPreferenceRequest,
+} from '../types/market-data-provider.types';
+
+export const marketDataProviderApi = {
+  getProviders: (): Promise<MarketDataProviderInfo[]> =>
+    apiService.get('/api/v1/market-data/providers'),
+
+  getHealth: (hours: number): Promise<MarketDataProviderHealthResponse> =>
+    apiService.get('/api/v1/market-data/providers/health', { params: { hours } }),
+
+  getPreferences: (): Promise<ProviderPreference[]> =>
+    apiService.get('/api/v1/market-data/providers/preferences'),
+
+  upsertPreference: (request: UpsertProviderPreferenceRequest): Promise<ProviderPreference> =>
+    apiService.put('/api/v1/market-data/providers/preferences', request),
+
+  deletePreference: (id: string): Promise<{ success: boolean }> =>
+    apiService.delete(`/api/v1/market-data/providers/preferences/${id}`),
+};
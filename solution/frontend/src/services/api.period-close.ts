@@ -0,0 +1,20 @@
+import apiService from './api';
+import { PeriodClose, PeriodReopenImpact } from '../types/period-close.types';
+
+export const periodCloseApi = {
+  getPeriodCloses: (portfolioId: string, accountId: string): Promise<PeriodClose[]> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/period-closes`, { params: { accountId } }),
+
+  closePeriod: (portfolioId: string, periodEnd: string, accountId: string): Promise<PeriodClose> =>
+    apiService.post(`/api/v1/portfolios/${portfolioId}/period-closes`, { periodEnd }, { params: { accountId } }),
+
+  reopenPeriod: (portfolioId: string, periodCloseId: string, reason: string, accountId: string): Promise<PeriodClose> =>
+    apiService.post(
+      `/api/v1/portfolios/${portfolioId}/period-closes/${periodCloseId}/reopen`,
+      { reason },
+      { params: { accountId } },
+    ),
+
+  getReopenImpact: (portfolioId: string, periodCloseId: string, accountId: string): Promise<PeriodReopenImpact> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/period-closes/${periodCloseId}/impact`, { params: { accountId } }),
+};
@@ -0,0 +1,17 @@
+import apiService from './api';
+import {
+  QuarantinedPrice,
+  QuarantinedPriceQuery,
+  QuarantinedPriceListResponse,
+} from '../types/price-quarantine.types';
+
+export const priceQuarantineApi = {
+  getQuarantinedPrices: (query: QuarantinedPriceQuery): Promise<QuarantinedPriceListResponse> =>
+    apiService.get('/api/v1/price-quarantine', { params: query }),
+
+  approve: (id: string, note?: string): Promise<QuarantinedPrice> =>
+    apiService.post(`/api/v1/price-quarantine/${id}/approve`, { note }),
+
+  reject: (id: string, note?: string): Promise<QuarantinedPrice> =>
+    apiService.post(`/api/v1/price-quarantine/${id}/reject`, { note }),
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
+import apiService from './api'
+
+let storage: Record<string, string>
+let validToken: string
+let refreshCalls: number
+let refreshSucceeds: boolean
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown): AxiosResponse => ({
+  data,
+  status,
+  statusText: String(status),
+  headers: {},
+  config,
+})
+
+// Stands in for the network: only the valid access token is accepted, and refreshing issues access-2
+const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => {
+  // Let concurrent requests reach the interceptor before the refresh settles
+  await new Promise(resolve => setTimeout(resolve, 0))
+
+  if (config.url === '/api/v1/auth/refresh') {
+    refreshCalls++
+    const { refreshToken } = JSON.parse(config.data)
+    if (!refreshSucceeds || refreshToken !== 'refresh-1') {
+      throw new AxiosError('Unauthorized', 'ERR_BAD_REQUEST', config, null, respond(config, 401, {}))
+    }
+    return respond(config, 200, { token: 'access-2', refreshToken: 'refresh-2' })
+  }
+
+  if (config.headers.Authorization !== `Bearer ${validToken}`) {
+    throw new AxiosError('Unauthorized', 'ERR_BAD_REQUEST', config, null, respond(config, 401, {}))
+  }
+  return respond(config, 200, { url: config.url })
+})
+
+describe('ApiService token refresh', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    storage = { jwt_token: 'access-1', refresh_token: 'refresh-1' }
+    validToken = 'access-2'
+    refreshCalls = 0
+    refreshSucceeds = true
+
+    vi.mocked(localStorage.getItem).mockImplementation((key: string) => storage[key] ?? null)
+    vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => {
+      storage[key] = value
+    })
+    vi.mocked(localStorage.removeItem).mockImplementation((key: string) => {
+      delete storage[key]
+    })
+
+    apiService.api.defaults.adapter = adapter
+    window.history.pushState({}, '', '/home')
+  })
+
+  it('should refresh an expired access token and retry the request', async () => {
+    const result = await apiService.get('/api/v1/portfolios')
+
+    expect(result).toEqual({ url: '/api/v1/portfolios' })
+    expect(refreshCalls).toBe(1)
+    expect(storage).toMatchObject({ jwt_token: 'access-2', refresh_token: 'refresh-2' })
+    expect(adapter).toHaveBeenCalledTimes(3)
+  })
+
+  it('should use one refresh for requests that expire at the same time', async () => {
+    const results = await Promise.all([
+      apiService.get('/api/v1/portfolios'),
+      apiService.get('/api/v1/trades'),
+      apiService.get('/api/v1/assets'),
+    ])
+
+    expect(results.map(result => result.url)).toEqual(['/api/v1/portfolios', '/api/v1/trades', '/api/v1/assets'])
+    expect(refreshCalls).toBe(1)
+  })
+
+  it('should retry a request only once', async () => {
+    validToken = 'never-issued'
+
+    await expect(apiService.get('/api/v1/portfolios')).rejects.toMatchObject({ response: { status: 401 } })
+    expect(refreshCalls).toBe(1)
+    expect(adapter).toHaveBeenCalledTimes(3)
+  })
+
+  it('should clear the session when the refresh token is rejected', async () => {
+    refreshSucceeds = false
+
+    await expect(apiService.get('/api/v1/portfolios')).rejects.toMatchObject({ response: { status: 401 } })
+    expect(refreshCalls).toBe(1)
+    expect(storage.jwt_token).toBeUndefined()
+    expect(storage.refresh_token).toBeUndefined()
+  })
+})
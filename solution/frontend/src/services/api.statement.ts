@@ -0,0 +1,21 @@
+import apiService from './api';
+import {
+  PortfolioStatement,
+  StatementPeriodType,
+  StatementFormat,
+  GenerateStatementRequest,
+} from '../types/statement.types';
+
+export const statementApi = {
+  getStatements: (portfolioId: string, accountId: string, periodType?: StatementPeriodType): Promise<PortfolioStatement[]> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/statements`, { params: { accountId, periodType } }),
+
+  generateStatements: (portfolioId: string, data: GenerateStatementRequest, accountId: string): Promise<PortfolioStatement[]> =>
+    apiService.post(`/api/v1/portfolios/${portfolioId}/statements/generate`, data, { params: { accountId } }),
+
+  downloadStatement: (portfolioId: string, statementId: string, format: StatementFormat, accountId: string): Promise<Blob> =>
+    apiService.get(`/api/v1/portfolios/${portfolioId}/statements/${statementId}/${format}`, {
+      params: { accountId },
+      responseType: 'blob',
+    }),
+};
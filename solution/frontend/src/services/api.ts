@@ -20,10 +20,34 @@ import {
   SubscriptionResult,
   RedemptionResult,
   HoldingDetail,
+  BrokerLayoutDefinition,
+  TradeImportPreviewParams,
+  TradeImportPreviewResponse,
+  TradeImportCommitDto,
+  TradeImportCommitResponse,
+  CostBasisMethod,
+  CostBasisPreview,
+  OpenLot,
+  TradeChargeEstimate,
+  TaxRules,
+  AnnualTaxSummary,
+  RecurringTransaction,
+  CreateRecurringTransactionDto,
+  UpdateRecurringTransactionDto,
+  RecurringOccurrence,
+  RecurringOccurrenceStatus,
+  UpdateRecurringOccurrenceDto,
+  PortfolioArchive,
+  PortfolioArchiveImportResult,
 } from '../types';
 
+// Pages where an expired session should not redirect to login
+const PUBLIC_ROUTES = ['/home', '/welcome', '/forget-password', '/reset-password', '/login'];
+
 class ApiService {
   public api: AxiosInstance;
+  // Shared by concurrent 401s so a refresh token is only used once
+  private refreshPromise: Promise<boolean> | null = null;
 
   constructor() {
     this.api = axios.create({
@@ -60,30 +84,83 @@ class ApiService {
           if (url.includes('/auth/login-or-register') || 
               url.includes('/auth/check-user') || 
               url.includes('/auth/change-password') ||
-              url.includes('/auth/set-password')) {
+              url.includes('/auth/set-password') ||
+              url.includes('/auth/reset-password') ||
+              url.includes('/auth/two-factor') ||
+              url.includes('/auth/refresh') ||
+              url.includes('/auth/logout')) {
+            return Promise.reject(error);
+          }
+
+          // A missing or wrong two-factor code is not an expired session
+          if (error.response?.data?.error === 'TWO_FACTOR_REQUIRED' ||
+              error.config?.headers?.['X-Two-Factor-Code']) {
             return Promise.reject(error);
           }
+
+          // Access token expired - renew it once with the refresh token and retry
+          if (!error.config?._retried && localStorage.getItem('refresh_token')) {
+            return this.refreshTokens().then(refreshed => {
+              if (refreshed) {
+                return this.api.request({ ...error.config, _retried: true });
+              }
+              this.handleSessionExpired();
+              return Promise.reject(error);
+            });
+          }
           
           // Don't redirect if user is on a public page (home, welcome, etc.)
-          const currentPath = window.location.pathname;
-          const publicRoutes = ['/home', '/welcome', '/forget-password', '/login'];
-          if (publicRoutes.some(route => currentPath.startsWith(route))) {
+          if (this.isOnPublicRoute()) {
             // For public routes, just reject the error without redirecting
             return Promise.reject(error);
           }
           
           // For other endpoints, redirect to login
-          localStorage.removeItem('jwt_token');
-          localStorage.removeItem('user_session');
-          localStorage.removeItem('current_account');
-          localStorage.removeItem('isAuthenticated');
-          window.location.href = '/login';
+          this.handleSessionExpired();
         }
         return Promise.reject(error);
       }
     );
   }
 
+  /**
+   * Exchange the stored refresh token for a new token pair
+   * @returns Whether new tokens were stored
+   */
+  private refreshTokens(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.api
+        .post('/api/v1/auth/refresh', { refreshToken: localStorage.getItem('refresh_token') })
+        .then(response => {
+          localStorage.setItem('jwt_token', response.data.token);
+          localStorage.setItem('refresh_token', response.data.refreshToken);
+          return true;
+        })
+        .catch(() => false)
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  private handleSessionExpired(): void {
+    localStorage.removeItem('jwt_token');
+    localStorage.removeItem('refresh_token');
+    localStorage.removeItem('user_session');
+    localStorage.removeItem('current_account');
+    localStorage.removeItem('isAuthenticated');
+
+    if (!this.isOnPublicRoute()) {
+      window.location.href = '/login';
+    }
+  }
+
+  private isOnPublicRoute(): boolean {
+    const currentPath = window.location.pathname;
+    return PUBLIC_ROUTES.some(route => currentPath.startsWith(route));
+  }
+
   // Health check
   async getHealth(): Promise<ApiResponse<any>> {
     const response = await this.api.get('/health');
@@ -166,6 +243,19 @@ class ApiService {
     return response.data;
   }
 
+  async exportPortfolio(id: string, accountId: string): Promise<PortfolioArchive> {
+    const response = await this.api.get(`/api/v1/portfolios/${id}/export?accountId=${accountId}`);
+    return response.data;
+  }
+
+  async importPortfolio(
+    data: { archive: PortfolioArchive; name?: string },
+    accountId: string
+  ): Promise<PortfolioArchiveImportResult> {
+    const response = await this.api.post(`/api/v1/portfolios/import?accountId=${accountId}`, data);
+    return response.data;
+  }
+
   // Public portfolio methods
   async getPublicPortfolios(): Promise<Portfolio[]> {
     const response = await this.api.get('/api/v1/portfolios/public-templates');
@@ -285,18 +375,20 @@ class ApiService {
     return response.data;
   }
 
-  async getPortfolioBenchmarkComparison(portfolioId: string, months?: number, twrPeriod?: string): Promise<any> {
+  async getPortfolioBenchmarkComparison(portfolioId: string, months?: number, twrPeriod?: string, benchmarkId?: string): Promise<any> {
     const params: any = {};
     if (months) params.months = months.toString();
     if (twrPeriod) params.twrPeriod = twrPeriod;
+    if (benchmarkId) params.benchmarkId = benchmarkId;
     const response = await this.api.get(`/api/v1/portfolios/${portfolioId}/analytics/benchmark-comparison`, { params });
     return response.data;
   }
 
-  async getPortfolioMWRBenchmarkComparison(portfolioId: string, months?: number, mwrPeriod?: string): Promise<any> {
+  async getPortfolioMWRBenchmarkComparison(portfolioId: string, months?: number, mwrPeriod?: string, benchmarkId?: string): Promise<any> {
     const params: any = {};
     if (months) params.months = months.toString();
     if (mwrPeriod) params.mwrPeriod = mwrPeriod;
+    if (benchmarkId) params.benchmarkId = benchmarkId;
     const response = await this.api.get(`/api/v1/portfolios/${portfolioId}/analytics/mwr-benchmark-comparison`, { params });
     return response.data;
   }
@@ -380,6 +472,135 @@ class ApiService {
     await this.api.delete(`/api/v1/trades/${id}?accountId=${accountId}`);
   }
 
+  // Broker statement import endpoints
+  async getTradeImportLayouts(): Promise<BrokerLayoutDefinition[]> {
+    const response = await this.api.get('/api/v1/trades/import/layouts');
+    return response.data;
+  }
+
+  async previewTradeImport(
+    file: File,
+    params: TradeImportPreviewParams,
+    accountId: string
+  ): Promise<TradeImportPreviewResponse> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('portfolioId', params.portfolioId);
+    formData.append('layout', params.layout);
+    if (params.columnMapping) formData.append('columnMapping', JSON.stringify(params.columnMapping));
+    if (params.dateFormat) formData.append('dateFormat', params.dateFormat);
+    if (params.priceMultiplier) formData.append('priceMultiplier', String(params.priceMultiplier));
+    if (params.decimalSeparator) formData.append('decimalSeparator', params.decimalSeparator);
+    const response = await this.api.post(`/api/v1/trades/import/preview?accountId=${accountId}`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  async commitTradeImport(data: TradeImportCommitDto, accountId: string): Promise<TradeImportCommitResponse> {
+    const response = await this.api.post(`/api/v1/trades/import/commit?accountId=${accountId}`, data);
+    return response.data;
+  }
+
+  // Cost basis endpoints
+  async getCostBasisMethod(portfolioId: string, accountId: string): Promise<{ portfolioId: string; method: CostBasisMethod }> {
+    const response = await this.api.get(`/api/v1/portfolios/${portfolioId}/cost-basis?accountId=${accountId}`);
+    return response.data;
+  }
+
+  async previewCostBasisMethod(portfolioId: string, method: CostBasisMethod, accountId: string): Promise<CostBasisPreview> {
+    const response = await this.api.post(`/api/v1/portfolios/${portfolioId}/cost-basis/preview?accountId=${accountId}`, { method });
+    return response.data;
+  }
+
+  async changeCostBasisMethod(portfolioId: string, method: CostBasisMethod, accountId: string): Promise<CostBasisPreview> {
+    const response = await this.api.put(`/api/v1/portfolios/${portfolioId}/cost-basis?accountId=${accountId}`, { method });
+    return response.data;
+  }
+
+  async getOpenLots(portfolioId: string, assetId: string, accountId: string): Promise<OpenLot[]> {
+    const params = new URLSearchParams({ accountId, assetId });
+    const response = await this.api.get(`/api/v1/portfolios/${portfolioId}/cost-basis/open-lots?${params}`);
+    return response.data;
+  }
+
+  async estimateTradeCharges(params: {
+    portfolioId: string;
+    assetId: string;
+    side: string;
+    quantity: number;
+    price: number;
+  }, accountId: string): Promise<TradeChargeEstimate> {
+    const query = new URLSearchParams({
+      accountId,
+      portfolioId: params.portfolioId,
+      assetId: params.assetId,
+      side: params.side,
+      quantity: String(params.quantity),
+      price: String(params.price),
+    });
+    const response = await this.api.get(`/api/v1/trades/charges/estimate?${query}`);
+    return response.data;
+  }
+
+  async getTaxRules(currency?: string): Promise<TaxRules> {
+    const query = currency ? `?currency=${currency}` : '';
+    const response = await this.api.get(`/api/v1/tax/rules${query}`);
+    return response.data;
+  }
+
+  async getAnnualTaxSummary(accountId: string, year: number): Promise<AnnualTaxSummary> {
+    const response = await this.api.get(`/api/v1/tax/annual-summary?accountId=${accountId}&year=${year}`);
+    return response.data;
+  }
+
+  // Recurring transaction endpoints
+  async getRecurringTransactions(portfolioId: string, accountId: string): Promise<RecurringTransaction[]> {
+    const response = await this.api.get(`/api/v1/portfolios/${portfolioId}/recurring-transactions?accountId=${accountId}`);
+    return response.data;
+  }
+
+  async createRecurringTransaction(portfolioId: string, data: CreateRecurringTransactionDto, accountId: string): Promise<RecurringTransaction> {
+    const response = await this.api.post(`/api/v1/portfolios/${portfolioId}/recurring-transactions?accountId=${accountId}`, data);
+    return response.data;
+  }
+
+  async updateRecurringTransaction(portfolioId: string, planId: string, data: UpdateRecurringTransactionDto, accountId: string): Promise<RecurringTransaction> {
+    const response = await this.api.put(`/api/v1/portfolios/${portfolioId}/recurring-transactions/${planId}?accountId=${accountId}`, data);
+    return response.data;
+  }
+
+  async deleteRecurringTransaction(portfolioId: string, planId: string, accountId: string): Promise<void> {
+    await this.api.delete(`/api/v1/portfolios/${portfolioId}/recurring-transactions/${planId}?accountId=${accountId}`);
+  }
+
+  async generateRecurringOccurrences(portfolioId: string, accountId: string): Promise<{ plansProcessed: number; occurrencesCreated: number }> {
+    const response = await this.api.post(`/api/v1/portfolios/${portfolioId}/recurring-transactions/generate?accountId=${accountId}`);
+    return response.data;
+  }
+
+  async getRecurringOccurrences(portfolioId: string, accountId: string, status?: RecurringOccurrenceStatus): Promise<RecurringOccurrence[]> {
+    const params = new URLSearchParams({ accountId });
+    if (status) params.append('status', status);
+    const response = await this.api.get(`/api/v1/portfolios/${portfolioId}/recurring-transactions/occurrences?${params}`);
+    return response.data;
+  }
+
+  async updateRecurringOccurrence(portfolioId: string, occurrenceId: string, data: UpdateRecurringOccurrenceDto, accountId: string): Promise<RecurringOccurrence> {
+    const response = await this.api.put(`/api/v1/portfolios/${portfolioId}/recurring-transactions/occurrences/${occurrenceId}?accountId=${accountId}`, data);
+    return response.data;
+  }
+
+  async confirmRecurringOccurrence(portfolioId: string, occurrenceId: string, accountId: string): Promise<RecurringOccurrence> {
+    const response = await this.api.post(`/api/v1/portfolios/${portfolioId}/recurring-transactions/occurrences/${occurrenceId}/confirm?accountId=${accountId}`);
+    return response.data;
+  }
+
+  async skipRecurringOccurrence(portfolioId: string, occurrenceId: string, accountId: string): Promise<RecurringOccurrence> {
+    const response = await this.api.post(`/api/v1/portfolios/${portfolioId}/recurring-transactions/occurrences/${occurrenceId}/skip?accountId=${accountId}`);
+    return response.data;
+  }
+
   async getTradeDetails(tradeId: string): Promise<any> {
     const response = await this.api.get(`/api/v1/trades/${tradeId}/details`);
     return response.data;
@@ -1191,8 +1412,30 @@ class ApiService {
     return response.data;
   }
 
-  async getAvailableBenchmarks(): Promise<any> {
-    const response = await this.api.get('/api/v1/performance-snapshots/benchmarks');
+  async getAvailableBenchmarks(accountId?: string): Promise<any> {
+    const params: any = {};
+    if (accountId) params.accountId = accountId;
+    const response = await this.api.get('/api/v1/benchmarks', { params });
+    return response.data;
+  }
+
+  async createCustomBenchmark(
+    accountId: string,
+    data: { name: string; components: Array<{ benchmarkId?: string; annualRate?: number; weight: number }> }
+  ): Promise<any> {
+    const response = await this.api.post(`/api/v1/benchmarks?accountId=${accountId}`, data);
+    return response.data;
+  }
+
+  async deleteCustomBenchmark(benchmarkId: string, accountId: string): Promise<void> {
+    await this.api.delete(`/api/v1/benchmarks/${benchmarkId}?accountId=${accountId}`);
+  }
+
+  async getBenchmarkMetrics(benchmarkId: string, startDate?: string, endDate?: string): Promise<any> {
+    const params: any = {};
+    if (startDate) params.startDate = startDate;
+    if (endDate) params.endDate = endDate;
+    const response = await this.api.get(`/api/v1/benchmarks/${benchmarkId}/metrics`, { params });
     return response.data;
   }
 
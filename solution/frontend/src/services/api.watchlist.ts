@@ -0,0 +1,49 @@
+import apiService from './api';
+import {
+  WatchlistSummary,
+  WatchlistDetail,
+  WatchlistShare,
+  WatchlistSort,
+  CreateWatchlistRequest,
+  UpdateWatchlistRequest,
+  AddWatchlistItemRequest,
+  UpdateWatchlistItemRequest,
+} from '../types/watchlist.types';
+
+export const watchlistApi = {
+  getWatchlists: (accountId: string): Promise<WatchlistSummary[]> =>
+    apiService.get('/api/v1/watchlists', { params: { accountId } }),
+
+  getWatchlist: (watchlistId: string, accountId: string, sort?: WatchlistSort): Promise<WatchlistDetail> =>
+    apiService.get(`/api/v1/watchlists/${watchlistId}`, { params: { accountId, ...sort } }),
+
+  createWatchlist: (data: CreateWatchlistRequest, accountId: string): Promise<WatchlistDetail> =>
+    apiService.post('/api/v1/watchlists', data, { params: { accountId } }),
+
+  updateWatchlist: (watchlistId: string, data: UpdateWatchlistRequest, accountId: string): Promise<WatchlistDetail> =>
+    apiService.put(`/api/v1/watchlists/${watchlistId}`, data, { params: { accountId } }),
+
+  deleteWatchlist: (watchlistId: string, accountId: string): Promise<void> =>
+    apiService.delete(`/api/v1/watchlists/${watchlistId}`, { params: { accountId } }),
+
+  addItem: (watchlistId: string, data: AddWatchlistItemRequest, accountId: string): Promise<WatchlistDetail> =>
+    apiService.post(`/api/v1/watchlists/${watchlistId}/items`, data, { params: { accountId } }),
+
+  updateItem: (watchlistId: string, itemId: string, data: UpdateWatchlistItemRequest, accountId: string): Promise<WatchlistDetail> =>
+    apiService.put(`/api/v1/watchlists/${watchlistId}/items/${itemId}`, data, { params: { accountId } }),
+
+  removeItem: (watchlistId: string, itemId: string, accountId: string): Promise<void> =>
+    apiService.delete(`/api/v1/watchlists/${watchlistId}/items/${itemId}`, { params: { accountId } }),
+
+  reorderItems: (watchlistId: string, itemIds: string[], accountId: string): Promise<WatchlistDetail> =>
+    apiService.put(`/api/v1/watchlists/${watchlistId}/items/order`, { itemIds }, { params: { accountId } }),
+
+  shareWatchlist: (watchlistId: string, sharedAccountId: string, accountId: string): Promise<WatchlistShare[]> =>
+    apiService.post(`/api/v1/watchlists/${watchlistId}/shares`, { accountId: sharedAccountId }, { params: { accountId } }),
+
+  unshareWatchlist: (watchlistId: string, sharedAccountId: string, accountId: string): Promise<void> =>
+    apiService.delete(`/api/v1/watchlists/${watchlistId}/shares/${sharedAccountId}`, { params: { accountId } }),
+
+  leaveWatchlist: (watchlistId: string, accountId: string): Promise<void> =>
+    apiService.delete(`/api/v1/watchlists/${watchlistId}/shares`, { params: { accountId } }),
+};
@@ -30,6 +30,7 @@ export interface AuthResponse {
   user: User;
   account: Account;
   token?: string;
+  refreshToken?: string;
 }
 
 export interface LoginRequest {
@@ -52,21 +53,54 @@ export interface SetPasswordRequest {
 export interface ChangePasswordRequest {
   currentPassword: string;
   newPassword: string;
+  twoFactorCode?: string;
 }
 
 export interface VerifyEmailRequest {
   token: string;
 }
 
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+  /** SVG data URL of the QR code */
+  qrCode: string;
+}
+
+export interface UserSessionInfo {
+  sessionId: string;
+  deviceId: string | null;
+  deviceName: string | null;
+  browserInfo: string | null;
+  location: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+/**
+ * Error code the backend returns when a two-factor code is needed
+ */
+export const TWO_FACTOR_REQUIRED = 'TWO_FACTOR_REQUIRED';
+
 class AuthService {
   /**
    * Login or register user with progressive authentication
    */
-  async loginOrRegister(username: string, password?: string, deviceInfo?: any): Promise<AuthResponse> {
+  async loginOrRegister(username: string, password?: string, deviceInfo?: any, twoFactorCode?: string): Promise<AuthResponse> {
     const response = await apiService.api.post('/api/v1/auth/login-or-register', {
       username,
       password,
       deviceInfo,
+      twoFactorCode,
     });
     return response.data;
   }
@@ -109,11 +143,12 @@ class AuthService {
   /**
    * Change password for user
    */
-  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  async changePassword(currentPassword: string, newPassword: string, twoFactorCode?: string): Promise<void> {
     try {
       await apiService.api.post('/api/v1/auth/change-password', {
         currentPassword,
         newPassword,
+        twoFactorCode,
       });
     } catch (error: any) {
       // console.error('AuthService changePassword error:', error);
@@ -159,13 +194,105 @@ class AuthService {
   }
 
   /**
-   * Logout user (clear local storage)
+   * Request a password reset email for an email or username
+   */
+  async requestPasswordReset(identifier: string): Promise<void> {
+    await apiService.api.post('/api/v1/auth/request-password-reset', { identifier });
+  }
+
+  /**
+   * Reset password with the token from the reset email
+   */
+  async resetPassword(token: string, newPassword: string, twoFactorCode?: string): Promise<void> {
+    await apiService.api.post('/api/v1/auth/reset-password', { token, newPassword, twoFactorCode });
+  }
+
+  /**
+   * Get two-factor authentication status
+   */
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await apiService.api.get('/api/v1/auth/two-factor');
+    return response.data;
+  }
+
+  /**
+   * Start two-factor enrollment
+   */
+  async enrollTwoFactor(): Promise<TwoFactorEnrollment> {
+    const response = await apiService.api.post('/api/v1/auth/two-factor/enroll');
+    return response.data;
+  }
+
+  /**
+   * Confirm two-factor enrollment, returns the recovery codes
+   */
+  async confirmTwoFactor(code: string): Promise<string[]> {
+    const response = await apiService.api.post('/api/v1/auth/two-factor/confirm', { code });
+    return response.data.recoveryCodes;
+  }
+
+  /**
+   * Disable two-factor authentication
+   */
+  async disableTwoFactor(code: string): Promise<void> {
+    await apiService.api.post('/api/v1/auth/two-factor/disable', { code });
+  }
+
+  /**
+   * Replace the recovery codes
+   */
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await apiService.api.post('/api/v1/auth/two-factor/recovery-codes', { code });
+    return response.data.recoveryCodes;
+  }
+
+  /**
+   * Whether a failed request needs a two-factor code
+   */
+  isTwoFactorRequired(error: any): boolean {
+    return error?.response?.status === 401 && error.response?.data?.error === TWO_FACTOR_REQUIRED;
+  }
+
+  /**
+   * Get active sessions of the current user
+   */
+  async getSessions(): Promise<UserSessionInfo[]> {
+    const response = await apiService.api.get('/api/v1/auth/sessions');
+    return response.data;
+  }
+
+  /**
+   * Log out one session
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await apiService.api.delete(`/api/v1/auth/sessions/${sessionId}`);
+  }
+
+  /**
+   * Log out all sessions except the current one
+   */
+  async revokeOtherSessions(): Promise<number> {
+    const response = await apiService.api.delete('/api/v1/auth/sessions');
+    return response.data.revoked;
+  }
+
+  /**
+   * Logout user (revoke the server session and clear local storage)
    */
   logout(): void {
+    const token = localStorage.getItem('jwt_token');
+    if (token) {
+      // Best effort: the local session is cleared even if the server cannot be reached
+      apiService.api
+        .post('/api/v1/auth/logout', null, { headers: { Authorization: `Bearer ${token}` } })
+        .catch(() => undefined);
+    }
+
     localStorage.removeItem('user_session');
     localStorage.removeItem('current_account');
     localStorage.removeItem('isAuthenticated');
     localStorage.removeItem('jwt_token');
+    localStorage.removeItem('refresh_token');
   }
 
   /**
@@ -196,6 +323,9 @@ class AuthService {
     if (authResponse.token) {
       localStorage.setItem('jwt_token', authResponse.token);
     }
+    if (authResponse.refreshToken) {
+      localStorage.setItem('refresh_token', authResponse.refreshToken);
+    }
 
     // Add user to login history for quick login
     if (authResponse.user) {
@@ -6,6 +6,8 @@
 import { deviceFingerprintService } from './deviceFingerprintService';
 import { apiService } from './api';
 
+const TWO_FACTOR_HEADER = 'X-Two-Factor-Code';
+
 export interface DeviceInfo {
   deviceFingerprint: string;
   deviceName: string;
@@ -91,9 +93,11 @@ class DeviceTrustService {
   /**
    * Revoke a specific device
    */
-  async revokeDevice(deviceId: string): Promise<void> {
+  async revokeDevice(deviceId: string, twoFactorCode?: string): Promise<void> {
     try {
-      await apiService.api.delete(`/api/v1/device-trust/devices/${deviceId}`);
+      await apiService.api.delete(`/api/v1/device-trust/devices/${deviceId}`, {
+        headers: twoFactorCode ? { [TWO_FACTOR_HEADER]: twoFactorCode } : {},
+      });
     } catch (error) {
       console.error('Error revoking device:', error);
       throw error;
@@ -116,9 +120,11 @@ class DeviceTrustService {
   /**
    * Revoke all devices
    */
-  async revokeAllDevices(): Promise<void> {
+  async revokeAllDevices(twoFactorCode?: string): Promise<void> {
     try {
-      await apiService.api.delete('/api/v1/device-trust/devices');
+      await apiService.api.delete('/api/v1/device-trust/devices', {
+        headers: twoFactorCode ? { [TWO_FACTOR_HEADER]: twoFactorCode } : {},
+      });
     } catch (error) {
       console.error('Error revoking all devices:', error);
       throw error;
@@ -35,6 +35,43 @@ export interface HistoricalPriceQueryParams {
   endDate?: string;
 }
 
+export interface DailyBar {
+  id: string;
+  assetId: string;
+  barDate: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  source: string;
+  tickCount: number;
+}
+
+export interface DailyBarGapReport {
+  assetId: string;
+  startDate: string;
+  endDate: string;
+  barCount: number;
+  missingDates: string[];
+  ranges: Array<{
+    startDate: string;
+    endDate: string;
+    days: number;
+  }>;
+}
+
+export interface DailyBarBackfillResult {
+  before: DailyBarGapReport;
+  fetch: HistoricalPriceUpdateResult | null;
+  remaining: DailyBarGapReport;
+}
+
+export interface DailyBarQueryParams {
+  startDate?: string;
+  endDate?: string;
+}
+
 export class HistoricalPricesService {
   /**
    * Update historical prices for one or multiple symbols
@@ -64,6 +101,39 @@ export class HistoricalPricesService {
     }
   }
 
+  /**
+   * Get the daily OHLCV bars of a symbol, oldest first
+   */
+  static async getDailyBars(symbol: string, params: DailyBarQueryParams = {}): Promise<DailyBar[]> {
+    const bars = await apiService.get<DailyBar[]>(
+      `/api/v1/market-data/historical-prices/${encodeURIComponent(symbol)}/bars`,
+      { params }
+    );
+    // Prices come back as numeric strings to keep their precision
+    return bars.map(bar => ({
+      ...bar,
+      open: Number(bar.open),
+      high: Number(bar.high),
+      low: Number(bar.low),
+      close: Number(bar.close),
+      volume: Number(bar.volume),
+    }));
+  }
+
+  /**
+   * Get the trading days without a daily bar
+   */
+  static async getDailyBarGaps(symbol: string, params: DailyBarQueryParams = {}): Promise<DailyBarGapReport> {
+    return apiService.get(`/api/v1/market-data/historical-prices/${encodeURIComponent(symbol)}/gaps`, { params });
+  }
+
+  /**
+   * Fetch the missing trading days from the historical price API
+   */
+  static async backfillDailyBarGaps(symbol: string, params: DailyBarQueryParams = {}): Promise<DailyBarBackfillResult> {
+    return apiService.post(`/api/v1/market-data/historical-prices/${encodeURIComponent(symbol)}/backfill`, null, { params });
+  }
+
   /**
    * Get available asset types for historical price updates
    */
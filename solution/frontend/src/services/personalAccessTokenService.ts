@@ -0,0 +1,72 @@
+/**
+ * Personal Access Token Service
+ * Manages tokens users create for scripts calling the REST API
+ */
+
+import { apiService } from './api';
+
+export interface PersonalAccessTokenInfo {
+  tokenId: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  portfolioIds: string[] | null;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+  isActive: boolean;
+}
+
+export interface CreatedPersonalAccessToken extends PersonalAccessTokenInfo {
+  token: string;
+}
+
+export interface PersonalAccessTokenScope {
+  name: string;
+  displayName: string;
+  category: string;
+}
+
+export interface CreatePersonalAccessTokenRequest {
+  name: string;
+  scopes: string[];
+  portfolioIds?: string[];
+  expiresInDays: number;
+  twoFactorCode?: string;
+}
+
+class PersonalAccessTokenService {
+  /**
+   * Get tokens of the current user
+   */
+  async getTokens(): Promise<PersonalAccessTokenInfo[]> {
+    const response = await apiService.api.get('/api/v1/personal-access-tokens');
+    return response.data;
+  }
+
+  /**
+   * Get permissions that can be granted to a token
+   */
+  async getScopes(): Promise<PersonalAccessTokenScope[]> {
+    const response = await apiService.api.get('/api/v1/personal-access-tokens/scopes');
+    return response.data;
+  }
+
+  /**
+   * Create a token; the returned token is not shown again
+   */
+  async createToken(request: CreatePersonalAccessTokenRequest): Promise<CreatedPersonalAccessToken> {
+    const response = await apiService.api.post('/api/v1/personal-access-tokens', request);
+    return response.data;
+  }
+
+  /**
+   * Revoke a token
+   */
+  async revokeToken(tokenId: string): Promise<void> {
+    await apiService.api.delete(`/api/v1/personal-access-tokens/${tokenId}`);
+  }
+}
+
+export const personalAccessTokenService = new PersonalAccessTokenService();
@@ -623,8 +623,8 @@ export class UnifiedSnapshotService {
   /**
    * Get available benchmarks
    */
-  async getAvailableBenchmarks(): Promise<any[]> {
-    return await apiService.getAvailableBenchmarks();
+  async getAvailableBenchmarks(accountId?: string): Promise<any[]> {
+    return await apiService.getAvailableBenchmarks(accountId);
   }
 
   /**
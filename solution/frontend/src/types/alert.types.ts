@@ -0,0 +1,88 @@
+export enum AlertRuleType {
+  PRICE_ABOVE = 'PRICE_ABOVE',
+  PRICE_BELOW = 'PRICE_BELOW',
+  DAILY_MOVE_PERCENT = 'DAILY_MOVE_PERCENT',
+  POSITION_VALUE_ABOVE = 'POSITION_VALUE_ABOVE',
+  POSITION_VALUE_BELOW = 'POSITION_VALUE_BELOW',
+  PORTFOLIO_DRAWDOWN = 'PORTFOLIO_DRAWDOWN',
+  DEPOSIT_MATURING = 'DEPOSIT_MATURING',
+}
+
+export enum AlertChannel {
+  IN_APP = 'IN_APP',
+  EMAIL = 'EMAIL',
+}
+
+export interface AlertRule {
+  alertRuleId: string;
+  accountId: string;
+  portfolioId?: string | null;
+  symbol?: string | null;
+  ruleType: AlertRuleType;
+  threshold: number | string;
+  channels: AlertChannel[];
+  cooldownMinutes: number;
+  snoozedUntil?: string | null;
+  lastTriggeredAt?: string | null;
+  lastValue?: number | string | null;
+  lastEvaluatedAt?: string | null;
+  isActive: boolean;
+  note?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertEvent {
+  alertEventId: string;
+  alertRuleId: string;
+  accountId: string;
+  observedValue?: number | string | null;
+  threshold: number | string;
+  title: string;
+  message: string;
+  deliveredChannels?: AlertChannel[] | null;
+  metadata?: Record<string, any> | null;
+  triggeredAt: string;
+}
+
+export interface CreateAlertRuleRequest {
+  ruleType: AlertRuleType;
+  threshold: number;
+  symbol?: string;
+  portfolioId?: string;
+  channels?: AlertChannel[];
+  cooldownMinutes?: number;
+  note?: string;
+}
+
+export interface UpdateAlertRuleRequest extends Partial<Omit<CreateAlertRuleRequest, 'ruleType'>> {
+  isActive?: boolean;
+}
+
+export interface SnoozeAlertRuleRequest {
+  until?: string;
+  minutes?: number;
+}
+
+export interface AlertEvaluationSummary {
+  evaluated: number;
+  triggered: number;
+  delivered: number;
+}
+
+/** Rule types watching a symbol */
+export const SYMBOL_ALERT_RULE_TYPES: AlertRuleType[] = [
+  AlertRuleType.PRICE_ABOVE,
+  AlertRuleType.PRICE_BELOW,
+  AlertRuleType.DAILY_MOVE_PERCENT,
+  AlertRuleType.POSITION_VALUE_ABOVE,
+  AlertRuleType.POSITION_VALUE_BELOW,
+];
+
+/** Rule types watching a portfolio */
+export const PORTFOLIO_ALERT_RULE_TYPES: AlertRuleType[] = [
+  AlertRuleType.POSITION_VALUE_ABOVE,
+  AlertRuleType.POSITION_VALUE_BELOW,
+  AlertRuleType.PORTFOLIO_DRAWDOWN,
+  AlertRuleType.DEPOSIT_MATURING,
+];
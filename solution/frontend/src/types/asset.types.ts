@@ -76,6 +76,7 @@ export interface CreateAssetRequest {
   symbol: string;
   type: AssetType;
   description?: string;
+  currency?: string;
   priceMode?: PriceMode;
   manualPrice?: number;
   currentPrice?: number;
@@ -92,6 +93,7 @@ export interface UpdateAssetRequest {
   // symbol field is read-only after creation
   type?: AssetType;
   description?: string;
+  currency?: string;
   priceMode?: PriceMode;
   currentValue?: number;
   currentQuantity?: number;
@@ -0,0 +1,54 @@
+export enum AuditEntityType {
+  TRADE = 'TRADE',
+  CASH_FLOW = 'CASH_FLOW',
+  DEPOSIT = 'DEPOSIT',
+  FUND_UNIT_TRANSACTION = 'FUND_UNIT_TRANSACTION',
+  PORTFOLIO_LOCK = 'PORTFOLIO_LOCK',
+}
+
+export enum AuditAction {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+}
+
+export interface AuditFieldChange {
+  from: any;
+  to: any;
+}
+
+export interface AuditLogEntry {
+  auditId: string;
+  portfolioId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  actorAccountId?: string | null;
+  reason?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  changes: Record<string, AuditFieldChange>;
+  createdAt: string;
+}
+
+export interface AuditTrailPage {
+  data: AuditLogEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface AuditTrailFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface PeriodLock {
+  portfolioId: string;
+  lockedThroughDate: string | null;
+}
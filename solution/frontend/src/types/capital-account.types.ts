@@ -0,0 +1,47 @@
+export type CapitalAccountMovementType = 'SUBSCRIBE' | 'REDEEM';
+
+export type CapitalAccountFormat = 'csv' | 'pdf';
+
+export interface CapitalAccountEntry {
+  transactionId: string;
+  date: string;
+  type: CapitalAccountMovementType;
+  units: number;
+  navPerUnit: number;
+  amount: number;
+  runningUnits: number;
+  runningCostBasis: number;
+  redeemedCost: number | null;
+  realizedPnl: number | null;
+}
+
+export interface CapitalAccountBalance {
+  date: string;
+  units: number;
+  costBasis: number;
+  navPerUnit: number;
+  value: number;
+}
+
+export interface CapitalAccountLedger {
+  holdingId: string;
+  accountId: string;
+  investorName: string;
+  portfolioId: string;
+  portfolioName: string;
+  baseCurrency: string;
+  from: string;
+  to: string;
+  opening: CapitalAccountBalance;
+  entries: CapitalAccountEntry[];
+  closing: CapitalAccountBalance;
+  summary: {
+    subscriptions: number;
+    redemptions: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+    investmentResult: number;
+    periodReturn: number;
+  };
+  generatedAt: string;
+}
@@ -352,6 +352,59 @@ export interface ConsolidateResponse {
   };
 }
 
+export interface MonteCarloOptions {
+  paths?: number;
+  seed?: number;
+  lookbackYears?: number;
+  assumptions?: Array<{ code: string; expectedReturn?: number; volatility?: number }>;
+  correlations?: Array<{ codeA: string; codeB: string; correlation: number }>;
+}
+
+// Unsaved plan inputs to simulate (plan wizard)
+export interface MonteCarloRequest extends MonteCarloOptions {
+  suggestedAllocation: AssetAllocationItem[];
+  initialInvestment: number;
+  periodicPayment?: number;
+  paymentFrequency: PaymentFrequency;
+  paymentType: PaymentType;
+  investmentYears: number;
+  futureValueRequired: number;
+}
+
+export interface MonteCarloBand {
+  year: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  probabilityAboveTarget: number; // Percentage of paths at or above the target
+}
+
+export interface MonteCarloAssumption {
+  code: string;
+  allocation: number;
+  expectedReturn: number;
+  volatility: number;
+  returnSource: 'plan' | 'custom';
+  volatilitySource: 'historical' | 'default' | 'custom';
+  historyMonths: number;
+}
+
+export interface MonteCarloResult {
+  successProbability: number; // Probability (%) of reaching futureValueRequired by the end of the horizon
+  depletionProbability: number;
+  medianYearsToTarget: number | null;
+  targetValue: number;
+  investmentYears: number;
+  paths: number;
+  seed: number;
+  bands: MonteCarloBand[];
+  assumptions: MonteCarloAssumption[];
+  correlations: Record<string, Record<string, number>>;
+  correlationSource: 'historical' | 'default' | 'custom' | 'mixed';
+}
+
 export interface SuggestAllocationRequest {
   requiredReturnRate: number;
   riskTolerance: RiskTolerance;
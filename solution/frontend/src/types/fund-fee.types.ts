@@ -0,0 +1,82 @@
+export enum FeeCrystallizationFrequency {
+  MONTHLY = 'MONTHLY',
+  QUARTERLY = 'QUARTERLY',
+  ANNUALLY = 'ANNUALLY',
+}
+
+export type FundFeeType = 'MANAGEMENT' | 'PERFORMANCE';
+
+export type FeeCrystallizationReason = 'PERIOD_END' | 'REDEMPTION';
+
+export interface FundFeeSchedule {
+  feeScheduleId: string;
+  portfolioId: string;
+  managementFeeRate: number;
+  performanceFeeRate: number;
+  hurdleRate: number;
+  crystallizationFrequency: FeeCrystallizationFrequency;
+  effectiveFrom: string;
+  lastAccrualDate?: string | null;
+  isActive: boolean;
+}
+
+export interface UpsertFundFeeScheduleRequest {
+  managementFeeRate: number;
+  performanceFeeRate: number;
+  hurdleRate?: number;
+  crystallizationFrequency?: FeeCrystallizationFrequency;
+  effectiveFrom?: string;
+  isActive?: boolean;
+}
+
+export interface FundFeeCrystallization {
+  crystallizationId: string;
+  holdingId?: string | null;
+  feeType: FundFeeType;
+  reason: FeeCrystallizationReason;
+  crystallizationDate: string;
+  amount: number;
+  units?: number | null;
+  highWaterMark?: number | null;
+}
+
+export interface InvestorFeeSummary {
+  holdingId: string;
+  accountId: string;
+  investorName: string;
+  units: number;
+  highWaterMark: number;
+  highWaterMarkDate: string;
+  hurdleNavPerUnit: number;
+  accruedManagementFee: number;
+  accruedPerformanceFee: number;
+  crystallizedPerformanceFee: number;
+}
+
+export interface FundFeeSummary {
+  portfolioId: string;
+  managementFeeRate: number;
+  performanceFeeRate: number;
+  hurdleRate: number;
+  crystallizationFrequency: FeeCrystallizationFrequency | null;
+  isActive: boolean;
+  effectiveFrom: string | null;
+  lastAccrualDate: string | null;
+  accruedManagementFee: number;
+  accruedPerformanceFee: number;
+  crystallizedManagementFee: number;
+  crystallizedPerformanceFee: number;
+  investors: InvestorFeeSummary[];
+  crystallizations: FundFeeCrystallization[];
+}
+
+/**
+ * Fund fees of one investor, as shown in the investor report
+ */
+export interface InvestorReportFees extends InvestorFeeSummary {
+  managementFeeRate: number;
+  performanceFeeRate: number;
+  hurdleRate: number;
+  crystallizationFrequency: FeeCrystallizationFrequency;
+  lastAccrualDate: string | null;
+}
@@ -0,0 +1,64 @@
+export enum FundOrderType {
+  SUBSCRIPTION = 'SUBSCRIPTION',
+  REDEMPTION = 'REDEMPTION',
+}
+
+export enum FundOrderStatus {
+  PENDING = 'PENDING',
+  PRICED = 'PRICED',
+  SETTLING = 'SETTLING',
+  SETTLED = 'SETTLED',
+  REJECTED = 'REJECTED',
+}
+
+export enum DealingFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+}
+
+export interface FundOrder {
+  orderId: string;
+  portfolioId: string;
+  accountId: string;
+  orderType: FundOrderType;
+  status: FundOrderStatus;
+  amount?: number | null;
+  units?: number | null;
+  dealingDate: string;
+  navPerUnit?: number | null;
+  description?: string | null;
+  rejectionReason?: string | null;
+  reviewedBy?: string | null;
+  transactionId?: string | null;
+  pricedAt?: string | null;
+  settledAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  account?: {
+    accountId: string;
+    name: string;
+    email: string;
+  };
+}
+
+export interface CreateFundOrderRequest {
+  orderType: FundOrderType;
+  amount?: number;
+  units?: number;
+  description?: string;
+}
+
+export interface DealingCalendar {
+  frequency: DealingFrequency;
+  dealingDay: number | null;
+  cutOffTime: string;
+  timezone: string;
+  nextDealingDate: string;
+}
+
+export interface UpdateDealingCalendarRequest {
+  frequency: DealingFrequency;
+  dealingDay?: number | null;
+  cutOffTime: string;
+}
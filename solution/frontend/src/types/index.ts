@@ -51,12 +51,22 @@ export interface Asset extends BaseEntity {
 }
 
 // Portfolio types
+export enum CostBasisMethod {
+  FIFO = 'FIFO',
+  LIFO = 'LIFO',
+  AVERAGE_COST = 'AVERAGE_COST',
+  HIGHEST_COST = 'HIGHEST_COST',
+  SPECIFIC_LOT = 'SPECIFIC_LOT',
+}
+
 export interface Portfolio extends BaseEntity {
   portfolioId: string;
   accountId: string;
   name: string;
   baseCurrency: string;
   fundingSource?: string;
+  broker?: string;
+  costBasisMethod?: CostBasisMethod;
   totalValue: number; // Keep for backward compatibility
   cashBalance: number;
   unrealizedPl: number; // Keep for backward compatibility
@@ -95,6 +105,9 @@ export interface Portfolio extends BaseEntity {
   unrealizedAssetPnL: number;
   unrealizedInvestPnL: number;
   unrealizedAllPnL: number;
+  // FX part of the P&L above, for assets priced in a foreign currency
+  realizedFxPnL?: number;
+  unrealizedFxPnL?: number;
   
   // NAV/Unit System fields
   isFund?: boolean;
@@ -169,6 +182,7 @@ export interface CashFlow {
   type: string;
   description?: string;
   fundingSource?: string;
+  taxWithheld?: number;
   createdAt: string;
 }
 
@@ -177,6 +191,7 @@ export interface CreatePortfolioDto {
   name: string;
   baseCurrency: string;
   fundingSource?: string;
+  broker?: string;
   accountId: string;
   visibility?: 'PRIVATE' | 'PUBLIC';
   templateName?: string;
@@ -187,11 +202,52 @@ export interface UpdatePortfolioDto {
   name?: string;
   baseCurrency?: string;
   fundingSource?: string;
+  broker?: string;
   visibility?: 'PRIVATE' | 'PUBLIC';
   templateName?: string;
   description?: string;
 }
 
+// Portfolio export/import archive
+export interface PortfolioArchive {
+  format: string;
+  version: number;
+  exportedAt: string;
+  portfolio: {
+    portfolioId: string;
+    name: string;
+    baseCurrency: string;
+    fundingSource?: string | null;
+    broker?: string | null;
+    description?: string | null;
+    createdAt: string;
+  };
+  assets: Array<Record<string, any>>;
+  trades: Array<Record<string, any>>;
+  tradeDetails: Array<Record<string, any>>;
+  cashFlows: Array<Record<string, any>>;
+  deposits: Array<Record<string, any>>;
+  notes: Array<Record<string, any>>;
+  assetTargets: Array<Record<string, any>>;
+}
+
+export interface PortfolioArchiveImportResult {
+  portfolioId: string;
+  name: string;
+  counts: {
+    trades: number;
+    tradeDetails: number;
+    cashFlows: number;
+    deposits: number;
+    notes: number;
+    assetTargets: number;
+  };
+  assets: {
+    linked: string[];
+    created: string[];
+  };
+}
+
 // API Response types
 export interface ApiResponse<T> {
   data: T;
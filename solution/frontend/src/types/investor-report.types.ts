@@ -1,3 +1,5 @@
+import { InvestorReportFees } from './fund-fee.types';
+
 export interface InvestorReportData {
   portfolioId: string;
   portfolioName: string;
@@ -49,5 +51,6 @@ export interface InvestorReportData {
     monthlyGrowth: number;
     ytdGrowth: number;
   };
+  fees?: InvestorReportFees | null;
   lastUpdated: string;
 }
@@ -0,0 +1,46 @@
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface MarketDataProviderInfo {
+  code: string;
+  name: string;
+  category: string;
+  assetTypes: string[];
+  defaultPriority: number;
+  circuitState: CircuitState;
+  available: boolean;
+}
+
+export interface MarketDataProviderHealth extends MarketDataProviderInfo {
+  totalCalls: number;
+  successfulCalls: number;
+  failedCalls: number;
+  successRate: number;
+  averageResponseTime: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  pricesServed: number;
+  fallbackPrices: number;
+}
+
+export interface MarketDataProviderHealthResponse {
+  windowHours: number;
+  providers: MarketDataProviderHealth[];
+}
+
+export interface ProviderPreference {
+  id: string;
+  assetType: string | null;
+  globalAssetId: string | null;
+  symbol: string | null;
+  assetName: string | null;
+  providerCodes: string[];
+  updatedAt: string;
+}
+
+export interface UpsertProviderPreferenceRequest {
+  assetType?: string;
+  globalAssetId?: string;
+  symbol?: string;
+  providerCodes: string[];
+}
@@ -0,0 +1,56 @@
+import { AuditLogEntry } from './audit-trail.types';
+
+export enum PeriodCloseStatus {
+  CLOSED = 'CLOSED',
+  REOPENED = 'REOPENED',
+}
+
+export interface PeriodClose {
+  periodCloseId: string;
+  portfolioId: string;
+  periodEnd: string;
+  previousPeriodEnd: string | null;
+  status: PeriodCloseStatus;
+  closedBy: string | null;
+  closedAt: string;
+  reopenedBy: string | null;
+  reopenedAt: string | null;
+  reopenReason: string | null;
+  snapshotCount: number;
+  investorCount: number;
+}
+
+export interface ClosedSnapshotValue {
+  snapshotDate: string;
+  granularity: string;
+  totalPortfolioValue: number;
+  navPerUnit: number;
+  totalOutstandingUnits: number;
+}
+
+export interface ClosedNavValue {
+  navDate: string;
+  navValue: number;
+  navPerUnit: number;
+  totalOutstandingUnits: number;
+}
+
+export interface InvestorUnitsChange {
+  holdingId: string;
+  accountId: string;
+  unitsAtClose: number;
+  unitsNow: number;
+  difference: number;
+}
+
+export interface PeriodReopenImpact {
+  periodCloseId: string;
+  periodEnd: string;
+  reopenedAt: string;
+  changes: AuditLogEntry[];
+  earliestChangedDate: string | null;
+  snapshots: ClosedSnapshotValue[];
+  navSnapshots: ClosedNavValue[];
+  laterSnapshotCount: number;
+  investorUnits: InvestorUnitsChange[];
+}
@@ -0,0 +1,41 @@
+export type QuarantinedPriceStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'SUPERSEDED';
+
+export type PriceQualityIssueCode = 'PRICE_JUMP' | 'PRICE_LIMIT' | 'STALE_PRICE' | 'SOURCE_DISAGREEMENT';
+
+export interface PriceQualityIssue {
+  code: PriceQualityIssueCode;
+  message: string;
+}
+
+export interface QuarantinedPrice {
+  id: string;
+  assetId: string;
+  symbol: string;
+  assetType: string;
+  marketCode: string | null;
+  executionId: string;
+  price: number;
+  lastPrice: number | null;
+  previousClose: number | null;
+  source: string;
+  issues: PriceQualityIssue[];
+  status: QuarantinedPriceStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QuarantinedPriceQuery {
+  status?: QuarantinedPriceStatus;
+  executionId?: string;
+  symbol?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface QuarantinedPriceListResponse {
+  data: QuarantinedPrice[];
+  total: number;
+}
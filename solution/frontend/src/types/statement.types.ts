@@ -0,0 +1,26 @@
+export enum StatementPeriodType {
+  MONTHLY = 'MONTHLY',
+  QUARTERLY = 'QUARTERLY',
+}
+
+export type StatementFormat = 'html' | 'pdf';
+
+export interface PortfolioStatement {
+  statementId: string;
+  portfolioId: string;
+  investorAccountId?: string | null;
+  investorName?: string;
+  periodType: StatementPeriodType;
+  periodStart: string;
+  periodEnd: string;
+  label: string;
+  openingValue: number;
+  closingValue: number;
+  twr: number;
+  generatedAt: string;
+}
+
+export interface GenerateStatementRequest {
+  periodType: StatementPeriodType;
+  referenceDate?: string;
+}
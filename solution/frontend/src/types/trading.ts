@@ -18,6 +18,8 @@ export enum TradeSource {
   MANUAL = 'MANUAL',
   API = 'API',
   IMPORT = 'IMPORT',
+  CORPORATE_ACTION = 'CORPORATE_ACTION',
+  RECURRING = 'RECURRING',
 }
 
 export interface Trade {
@@ -37,6 +39,8 @@ export interface Trade {
   exchange?: string;
   fundingSource?: string;
   notes?: string;
+  // Asset-to-base-currency rate on the trade date (foreign-currency assets only)
+  fxRate?: number | null;
   createdAt: string;
   updatedAt: string;
   // Calculated fields
@@ -72,6 +76,9 @@ export interface CreateTradeDto {
   exchange?: string;
   fundingSource?: string;
   notes?: string;
+  fxRate?: number;
+  // Lots picked for a SELL in a SPECIFIC_LOT portfolio
+  lotSelections?: LotSelection[];
 }
 
 export interface UpdateTradeDto {
@@ -85,6 +92,13 @@ export interface UpdateTradeDto {
   exchange?: string;
   fundingSource?: string;
   notes?: string;
+  fxRate?: number;
+  lotSelections?: LotSelection[];
+}
+
+export interface LotSelection {
+  buyTradeId: string;
+  quantity: number;
 }
 
 // Position types
@@ -356,6 +370,8 @@ export interface TradeFormData {
   exchange?: string;
   fundingSource?: string;
   notes?: string;
+  fxRate?: number;
+  lotSelections?: LotSelection[];
 }
 
 export interface RiskTargetFormData {
@@ -392,3 +408,271 @@ export interface PerformanceChartData {
   return: number;
   cumulativeReturn: number;
 }
+
+// Broker statement import types
+export enum BrokerStatementLayout {
+  SSI = 'SSI',
+  VPS = 'VPS',
+  TCBS = 'TCBS',
+  GENERIC = 'GENERIC',
+}
+
+export type TradeImportField =
+  | 'tradeDate'
+  | 'symbol'
+  | 'side'
+  | 'quantity'
+  | 'price'
+  | 'fee'
+  | 'tax'
+  | 'exchange'
+  | 'notes';
+
+export type TradeImportRowStatus = 'VALID' | 'DUPLICATE' | 'INVALID';
+
+export interface BrokerLayoutDefinition {
+  layout: BrokerStatementLayout;
+  name: string;
+  description: string;
+  dateFormats: string[];
+  decimalSeparator: '.' | ',';
+  priceMultiplier: number;
+}
+
+export interface TradeImportPreviewParams {
+  portfolioId: string;
+  layout: BrokerStatementLayout;
+  columnMapping?: Partial<Record<TradeImportField, string>>;
+  dateFormat?: string;
+  priceMultiplier?: number;
+  decimalSeparator?: '.' | ',';
+}
+
+export interface TradeImportPreviewRow {
+  rowNumber: number;
+  tradeDate: string | null;
+  symbol: string | null;
+  side: TradeSide | null;
+  quantity: number | null;
+  price: number | null;
+  fee: number;
+  tax: number;
+  exchange?: string;
+  notes?: string;
+  assetId?: string;
+  assetName?: string;
+  createsAsset: boolean;
+  status: TradeImportRowStatus;
+  errors: string[];
+  duplicateOf?: string;
+}
+
+export interface TradeImportPreviewResponse {
+  portfolioId: string;
+  fileName: string;
+  layout: BrokerStatementLayout;
+  headers: string[];
+  columnMapping: Partial<Record<TradeImportField, string>>;
+  missingFields: TradeImportField[];
+  rows: TradeImportPreviewRow[];
+  summary: {
+    total: number;
+    valid: number;
+    duplicates: number;
+    invalid: number;
+  };
+}
+
+export interface TradeImportRow {
+  rowNumber: number;
+  symbol: string;
+  tradeDate: string;
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  fee?: number;
+  tax?: number;
+  exchange?: string;
+  notes?: string;
+  allowDuplicate?: boolean;
+}
+
+export interface TradeImportCommitDto {
+  portfolioId: string;
+  broker?: string;
+  rows: TradeImportRow[];
+}
+
+export interface TradeImportCommitResponse {
+  portfolioId: string;
+  importedCount: number;
+  tradeIds: string[];
+  skipped: Array<{ rowNumber: number; reason: string }>;
+  realizedPnl: number;
+}
+
+// Cost basis types
+export interface OpenLot {
+  buyTradeId: string;
+  tradeDate: string;
+  quantity: number;
+  remainingQuantity: number;
+  price: number;
+}
+
+export interface CostBasisAssetDiff {
+  assetId: string;
+  symbol: string;
+  currency: string;
+  currentRealizedPnl: number;
+  newRealizedPnl: number;
+  difference: number;
+}
+
+export interface CostBasisPreview {
+  portfolioId: string;
+  currentMethod: string;
+  newMethod: string;
+  assets: CostBasisAssetDiff[];
+  totalCurrentRealizedPnl: number;
+  totalNewRealizedPnl: number;
+  totalDifference: number;
+}
+
+// Tax and fee types
+export interface TradeChargeEstimate {
+  nation: string | null;
+  broker: string | null;
+  tradeValue: number;
+  feeRate: number;
+  fee: number;
+  taxRate: number;
+  tax: number;
+}
+
+export interface BrokerFeeSchedule {
+  name: string;
+  minFee: number;
+  tiers: Array<{ minTradeValue: number; rate: number }>;
+}
+
+export interface TaxRules {
+  nation: string | null;
+  securitiesAssetTypes: string[];
+  securitiesSaleTaxRate: number;
+  cashDividendTaxRate: number;
+  depositInterestTaxRate: number;
+  defaultBroker: string | null;
+  brokers: Record<string, BrokerFeeSchedule>;
+}
+
+export interface TaxSummaryAmounts {
+  grossSaleValue: number;
+  saleTax: number;
+  tradingFees: number;
+  grossDividends: number;
+  dividendTaxWithheld: number;
+  interestTaxWithheld: number;
+  otherTaxPaid: number;
+  totalTaxPaid: number;
+}
+
+export interface PortfolioTaxSummary extends TaxSummaryAmounts {
+  portfolioId: string;
+  portfolioName: string;
+  baseCurrency: string;
+  broker: string | null;
+  tradeCount: number;
+}
+
+export interface AnnualTaxSummary {
+  accountId: string;
+  year: number;
+  portfolios: PortfolioTaxSummary[];
+  totals: Array<TaxSummaryAmounts & { currency: string }>;
+}
+
+// Recurring transaction types
+export enum RecurringTransactionKind {
+  TRADE = 'TRADE',
+  CASH_FLOW = 'CASH_FLOW',
+}
+
+export enum RecurrenceFrequency {
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  QUARTERLY = 'QUARTERLY',
+}
+
+export type RecurringCashFlowType = 'DEPOSIT' | 'WITHDRAWAL' | 'FEE';
+
+export type RecurringOccurrenceStatus = 'PENDING' | 'COMPLETED' | 'CANCELLED';
+
+export interface RecurringTransaction {
+  recurringTransactionId: string;
+  portfolioId: string;
+  name: string;
+  kind: RecurringTransactionKind;
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number | null;
+  dayOfWeek?: number | null;
+  startDate: string;
+  endDate?: string | null;
+  nextRunDate?: string | null;
+  isActive: boolean;
+  assetId?: string | null;
+  side?: TradeSide | null;
+  quantity?: number | null;
+  cashFlowType?: RecurringCashFlowType | null;
+  amount?: number | null;
+  currency?: string | null;
+  fundingSource?: string | null;
+  description?: string | null;
+  asset?: { id: string; symbol: string; name: string; currency?: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateRecurringTransactionDto {
+  name: string;
+  kind: RecurringTransactionKind;
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number;
+  dayOfWeek?: number;
+  startDate: string;
+  endDate?: string;
+  assetId?: string;
+  side?: TradeSide;
+  quantity?: number;
+  cashFlowType?: RecurringCashFlowType;
+  amount?: number;
+  currency?: string;
+  fundingSource?: string;
+  description?: string;
+}
+
+export interface UpdateRecurringTransactionDto extends Partial<Omit<CreateRecurringTransactionDto, 'kind'>> {
+  isActive?: boolean;
+}
+
+export interface RecurringOccurrence {
+  occurrenceId: string;
+  recurringTransactionId: string;
+  portfolioId: string;
+  scheduledDate: string;
+  status: RecurringOccurrenceStatus;
+  quantity?: number | null;
+  price?: number | null;
+  amount?: number | null;
+  cashFlowId?: string | null;
+  tradeId?: string | null;
+  resolvedAt?: string | null;
+  recurringTransaction: RecurringTransaction;
+}
+
+export interface UpdateRecurringOccurrenceDto {
+  scheduledDate?: string;
+  quantity?: number;
+  price?: number;
+  amount?: number;
+}
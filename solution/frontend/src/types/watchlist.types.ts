@@ -0,0 +1,84 @@
+export enum WatchlistSortField {
+  MANUAL = 'MANUAL',
+  SYMBOL = 'SYMBOL',
+  PRICE = 'PRICE',
+  DAILY_CHANGE_PERCENT = 'DAILY_CHANGE_PERCENT',
+  DISTANCE_TO_TARGET_PERCENT = 'DISTANCE_TO_TARGET_PERCENT',
+  FROM_HIGH_52W_PERCENT = 'FROM_HIGH_52W_PERCENT',
+  ADDED_AT = 'ADDED_AT',
+}
+
+export enum WatchlistSortDirection {
+  ASC = 'ASC',
+  DESC = 'DESC',
+}
+
+export interface WatchlistSort {
+  sortBy: WatchlistSortField;
+  sortDirection: WatchlistSortDirection;
+}
+
+export interface WatchlistSummary {
+  watchlistId: string;
+  name: string;
+  description: string | null;
+  ownerAccountId: string;
+  ownerName: string | null;
+  isOwner: boolean;
+  sortBy: WatchlistSortField;
+  sortDirection: WatchlistSortDirection;
+  itemCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WatchlistRow {
+  watchlistItemId: string;
+  globalAssetId: string;
+  symbol: string;
+  name: string;
+  type: string;
+  currency: string;
+  price: number | null;
+  previousClose: number | null;
+  lastPriceUpdate: string | null;
+  targetPrice: number | null;
+  notes: string | null;
+  position: number;
+  addedAt: string;
+  dailyChange: number | null;
+  dailyChangePercent: number | null;
+  high52w: number | null;
+  low52w: number | null;
+  distanceToTargetPercent: number | null;
+  fromHigh52wPercent: number | null;
+}
+
+export interface WatchlistShare {
+  accountId: string;
+  accountName: string | null;
+  accountEmail: string | null;
+  sharedAt: string;
+}
+
+export interface WatchlistDetail extends WatchlistSummary {
+  rows: WatchlistRow[];
+  shares: WatchlistShare[];
+}
+
+export interface CreateWatchlistRequest {
+  name: string;
+  description?: string;
+  sortBy?: WatchlistSortField;
+  sortDirection?: WatchlistSortDirection;
+}
+
+export type UpdateWatchlistRequest = Partial<CreateWatchlistRequest>;
+
+export interface AddWatchlistItemRequest {
+  symbol: string;
+  targetPrice?: number | null;
+  notes?: string;
+}
+
+export type UpdateWatchlistItemRequest = Omit<Partial<AddWatchlistItemRequest>, 'symbol'>;